@@ -4,15 +4,41 @@ import Dashboard from "@/pages/dashboard";
 import ProjectView from "@/pages/project";
 import SearchPage from "@/pages/search";
 import UserManagement from "@/pages/user-management";
+import ReviewQueue from "@/pages/review-queue";
+import MassCalculatorPage from "@/pages/mass-calculator";
+import CompoundsPage from "@/pages/compounds";
+import CompoundView from "@/pages/compound";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
+import { useAuth } from "@/hooks/use-auth";
 
 function App() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen text-gray-500">
+        <i className="fas fa-spinner fa-spin mr-2"></i>
+        Loading...
+      </div>
+    );
+  }
+
+  // Every page below requires a session
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <MainLayout>
       <Switch>
         <Route path="/" component={Dashboard} />
         <Route path="/projects/:id" component={ProjectView} />
         <Route path="/search" component={SearchPage} />
+        <Route path="/reviews" component={ReviewQueue} />
+        <Route path="/tools/mass-calculator" component={MassCalculatorPage} />
+        <Route path="/compounds" component={CompoundsPage} />
+        <Route path="/compounds/:id" component={CompoundView} />
         <Route path="/users" component={UserManagement} />
         <Route component={NotFound} />
       </Switch>
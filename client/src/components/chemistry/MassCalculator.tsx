@@ -0,0 +1,263 @@
+import { FormEvent, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChemFormulaResult, IsotopePattern } from "@shared/schema";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+const chartConfig = {
+  abundance: { label: "Relative abundance (%)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const MZ_DIGITS = 5;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Note snippet with the formula's masses and adduct m/z values
+function renderResultHtml(result: ChemFormulaResult): string {
+  const rows = result.adducts.map(adduct =>
+    `<tr><td>${escapeHtml(adduct.adduct)}</td><td>${escapeHtml(adduct.formula)}</td><td>${adduct.mz.toFixed(MZ_DIGITS)}</td></tr>`
+  ).join("");
+  return `<p><strong>${escapeHtml(result.formula)}</strong>: monoisotopic mass ${result.monoisotopicMass.toFixed(MZ_DIGITS)} Da, ` +
+    `average mass ${result.averageMass.toFixed(3)} Da` +
+    (result.mz !== null ? `, m/z ${result.mz.toFixed(MZ_DIGITS)}` : "") + `</p>` +
+    (rows ? `<table border="1"><thead><tr><th>Adduct</th><th>Ion formula</th><th>m/z</th></tr></thead><tbody>${rows}</tbody></table>` : "");
+}
+
+interface MassCalculatorProps {
+  // Called with an HTML snippet of the current result, e.g. to insert it into a note
+  onInsert?: (html: string) => void;
+}
+
+// Exact masses, adduct m/z values and the isotope pattern of a formula
+export default function MassCalculator({ onInsert }: MassCalculatorProps) {
+  const [formulaInput, setFormulaInput] = useState("");
+  const [formula, setFormula] = useState<string | null>(null);
+  // Undefined until the user changes the selection, meaning all default adducts
+  const [selectedAdducts, setSelectedAdducts] = useState<string[] | undefined>(undefined);
+  const [customAdduct, setCustomAdduct] = useState("");
+  const [customAdducts, setCustomAdducts] = useState<string[]>([]);
+  // Adduct of the isotope pattern; null for the formula itself
+  const [patternAdduct, setPatternAdduct] = useState<string | null>(null);
+
+  const { data: defaultAdducts } = useQuery<string[]>({
+    queryKey: ['/api/chem/adducts'],
+  });
+
+  const adducts = [...(selectedAdducts ?? defaultAdducts ?? []), ...customAdducts];
+
+  const { data: result, error, isFetching } = useQuery<ChemFormulaResult>({
+    queryKey: ['/api/chem/formula', formula, adducts.join(",")],
+    queryFn: () => apiRequest('GET', `/api/chem/formula?${new URLSearchParams({ formula: formula!, adducts: adducts.join(",") })}`)
+      .then(res => res.json()),
+    enabled: formula !== null && defaultAdducts !== undefined,
+  });
+
+  const { data: pattern } = useQuery<IsotopePattern>({
+    queryKey: ['/api/chem/isotopes', formula, patternAdduct],
+    queryFn: () => {
+      const params = new URLSearchParams({ formula: formula! });
+      if (patternAdduct) params.set("adduct", patternAdduct);
+      return apiRequest('GET', `/api/chem/isotopes?${params}`).then(res => res.json());
+    },
+    enabled: formula !== null && result !== undefined,
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!formulaInput.trim()) return;
+    setFormula(formulaInput.trim());
+    setPatternAdduct(null);
+  };
+
+  const toggleAdduct = (adduct: string, checked: boolean) => {
+    const current = selectedAdducts ?? defaultAdducts ?? [];
+    setSelectedAdducts(checked ? [...current, adduct] : current.filter(name => name !== adduct));
+  };
+
+  const addCustomAdduct = () => {
+    const adduct = customAdduct.trim();
+    if (!adduct || adducts.includes(adduct)) return;
+    setCustomAdducts([...customAdducts, adduct]);
+    setCustomAdduct("");
+  };
+
+  const adductGroups = [
+    { label: "Positive mode", adducts: (defaultAdducts || []).filter(adduct => adduct.endsWith("+")) },
+    { label: "Negative mode", adducts: (defaultAdducts || []).filter(adduct => adduct.endsWith("-")) },
+  ];
+
+  const isCurrent = result !== undefined && !error;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="mass-calculator-formula">Formula</Label>
+          <Input
+            id="mass-calculator-formula"
+            value={formulaInput}
+            onChange={event => setFormulaInput(event.target.value)}
+            placeholder="e.g. C6H12O6, [13C]6H12O6, C5H12N+ or CuSO4.5H2O"
+            className="font-mono"
+          />
+        </div>
+        <Button type="submit" disabled={!formulaInput.trim()}>
+          Calculate
+        </Button>
+      </form>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {adductGroups.map(group => (
+          <div key={group.label} className="space-y-1">
+            <p className="text-xs font-medium text-gray-500 uppercase">{group.label}</p>
+            {group.adducts.map(adduct => (
+              <label key={adduct} className="flex items-center gap-2 text-sm font-mono">
+                <Checkbox
+                  checked={adducts.includes(adduct)}
+                  onCheckedChange={checked => toggleAdduct(adduct, !!checked)}
+                />
+                {adduct}
+              </label>
+            ))}
+          </div>
+        ))}
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-500 uppercase">Other adducts</p>
+          {customAdducts.map(adduct => (
+            <div key={adduct} className="flex items-center justify-between text-sm font-mono">
+              {adduct}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => setCustomAdducts(customAdducts.filter(name => name !== adduct))}
+                title="Remove"
+              >
+                <i className="fas fa-times"></i>
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-1">
+            <Input
+              value={customAdduct}
+              onChange={event => setCustomAdduct(event.target.value)}
+              onKeyDown={event => {
+                if (event.key === "Enter") {
+                  event.preventDefault();
+                  addCustomAdduct();
+                }
+              }}
+              placeholder="[M+2Na-H]+"
+              className="h-8 font-mono text-sm"
+            />
+            <Button variant="outline" size="sm" className="h-8" onClick={addCustomAdduct} disabled={!customAdduct.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{getApiErrorMessage(error)}</p>
+      )}
+
+      {isFetching && !result && <Skeleton className="h-32 w-full" />}
+
+      {isCurrent && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="bg-gray-50 rounded-md p-3">
+              <p className="text-xs text-gray-500">Formula</p>
+              <p className="font-mono font-medium">{result.formula}</p>
+            </div>
+            <div className="bg-gray-50 rounded-md p-3">
+              <p className="text-xs text-gray-500">Monoisotopic mass</p>
+              <p className="font-mono font-medium">{result.monoisotopicMass.toFixed(MZ_DIGITS)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-md p-3">
+              <p className="text-xs text-gray-500">Average mass</p>
+              <p className="font-mono font-medium">{result.averageMass.toFixed(3)}</p>
+            </div>
+            {result.mz !== null && (
+              <div className="bg-gray-50 rounded-md p-3">
+                <p className="text-xs text-gray-500">m/z ({result.charge > 0 ? "+" : ""}{result.charge})</p>
+                <p className="font-mono font-medium">{result.mz.toFixed(MZ_DIGITS)}</p>
+              </div>
+            )}
+          </div>
+
+          {result.adducts.length > 0 && (
+            <div className="border border-gray-200 rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Adduct</TableHead>
+                    <TableHead>Ion formula</TableHead>
+                    <TableHead className="text-right">m/z</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.adducts.map(adduct => (
+                    <TableRow
+                      key={adduct.adduct}
+                      className={`cursor-pointer ${adduct.adduct === patternAdduct ? "bg-blue-50" : ""}`}
+                      onClick={() => setPatternAdduct(adduct.adduct === patternAdduct ? null : adduct.adduct)}
+                      title="Show isotope pattern"
+                    >
+                      <TableCell className="font-mono text-sm">{adduct.adduct}</TableCell>
+                      <TableCell className="font-mono text-sm">{adduct.formula}</TableCell>
+                      <TableCell className="font-mono text-sm text-right">{adduct.mz.toFixed(MZ_DIGITS)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {pattern && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                Isotope pattern of {pattern.adduct ?? pattern.formula}
+              </p>
+              <ChartContainer config={chartConfig} className="h-48 w-full">
+                <BarChart data={pattern.peaks} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="mz" tickFormatter={(value: number) => value.toFixed(2)} />
+                  <YAxis domain={[0, 100]} width={40} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const peak = payload[0]?.payload as (typeof pattern.peaks)[number] | undefined;
+                          return peak ? `${pattern.charge === 0 ? "Mass" : "m/z"} ${peak.mz.toFixed(MZ_DIGITS)}` : "";
+                        }}
+                      />
+                    }
+                  />
+                  <Bar dataKey="abundance" fill="var(--color-abundance)" isAnimationActive={false} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          )}
+
+          {onInsert && (
+            <div className="flex justify-end">
+              <Button onClick={() => onInsert(renderResultHtml(result))}>
+                <i className="fas fa-file-import mr-2"></i>
+                Insert into note
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { Compound } from "@shared/schema";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormDescription,
+  FormMessage
+} from "@/components/ui/form";
+
+interface CompoundFormDialogProps {
+  // The compound being edited, or null to add a new one
+  compound: Compound | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const compoundFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(1000),
+  synonyms: z.string(),
+  formula: z.string(),
+  monoisotopicMass: z.string().refine(value => !value.trim() || Number(value) > 0, "Enter a positive mass"),
+  inchiKey: z.string().trim().refine(
+    value => !value || /^[A-Za-z]{14}-[A-Za-z]{10}-[A-Za-z]$/.test(value),
+    "InChIKey must look like WQZGKKKJIJFFOK-GASJEMHNSA-N"
+  ),
+  smiles: z.string(),
+  hmdbId: z.string(),
+  chebiId: z.string(),
+  keggId: z.string(),
+  pubchemCid: z.string(),
+});
+
+type CompoundFormData = z.infer<typeof compoundFormSchema>;
+
+type TextFieldName = "formula" | "smiles" | "hmdbId" | "chebiId" | "keggId" | "pubchemCid" | "inchiKey";
+
+export default function CompoundFormDialog({ compound, isOpen, onClose }: CompoundFormDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<CompoundFormData>({
+    resolver: zodResolver(compoundFormSchema),
+    defaultValues: {
+      name: compound?.name ?? "",
+      synonyms: compound?.synonyms.join("\n") ?? "",
+      formula: compound?.formula ?? "",
+      monoisotopicMass: compound?.monoisotopicMass?.toString() ?? "",
+      inchiKey: compound?.inchiKey ?? "",
+      smiles: compound?.smiles ?? "",
+      hmdbId: compound?.hmdbId ?? "",
+      chebiId: compound?.chebiId ?? "",
+      keggId: compound?.keggId ?? "",
+      pubchemCid: compound?.pubchemCid ?? "",
+    }
+  });
+
+  const handleSubmit = async (data: CompoundFormData) => {
+    const payload = {
+      name: data.name,
+      synonyms: data.synonyms.split("\n").map(synonym => synonym.trim()).filter(Boolean),
+      formula: data.formula.trim() || null,
+      monoisotopicMass: data.monoisotopicMass.trim() ? Number(data.monoisotopicMass) : null,
+      inchiKey: data.inchiKey || null,
+      smiles: data.smiles.trim() || null,
+      hmdbId: data.hmdbId.trim() || null,
+      chebiId: data.chebiId.trim() || null,
+      keggId: data.keggId.trim() || null,
+      pubchemCid: data.pubchemCid.trim() || null,
+    };
+
+    try {
+      if (compound) {
+        await apiRequest('PATCH', `/api/compounds/${compound.id}`, payload);
+        queryClient.invalidateQueries({ queryKey: ['/api/compounds', compound.id] });
+      } else {
+        await apiRequest('POST', '/api/compounds', payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/compounds'] });
+      onClose();
+    } catch (error) {
+      toast({
+        title: compound ? "Failed to update compound" : "Failed to add compound",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const textField = (name: TextFieldName, label: string, placeholder: string, className = "") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className={className}>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} className="font-mono" {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{compound ? "Edit Compound" : "Add Compound"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. D-Glucose" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="synonyms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Synonyms</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="One per line" className="resize-none h-20" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              {textField("formula", "Formula", "e.g. C6H12O6")}
+
+              <FormField
+                control={form.control}
+                name="monoisotopicMass"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monoisotopic Mass</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" className="font-mono" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">Computed from the formula when it can be parsed</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {textField("inchiKey", "InChIKey", "WQZGKKKJIJFFOK-GASJEMHNSA-N", "col-span-2")}
+              {textField("smiles", "SMILES", "e.g. OC[C@H]1OC(O)[C@H](O)[C@@H](O)[C@@H]1O", "col-span-2")}
+              {textField("hmdbId", "HMDB ID", "e.g. HMDB0000122")}
+              {textField("chebiId", "ChEBI ID", "e.g. CHEBI:4167")}
+              {textField("keggId", "KEGG ID", "e.g. C00031")}
+              {textField("pubchemCid", "PubChem CID", "e.g. 5793")}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : compound ? "Save Changes" : "Add Compound"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ADMIN_ROLES, CompoundRetentionTime } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface CompoundRetentionTimesProps {
+  compoundId: number;
+}
+
+// The compound's entries in the retention time library, one per LC method.
+// Saving a method that already has an RT replaces it. Only administrators
+// edit the library.
+export default function CompoundRetentionTimes({ compoundId }: CompoundRetentionTimesProps) {
+  const [method, setMethod] = useState("");
+  const [rt, setRt] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const isAdmin = ADMIN_ROLES.includes(useCurrentUser().role);
+  const { toast } = useToast();
+
+  const { data: retentionTimes, isLoading } = useQuery<CompoundRetentionTime[]>({
+    queryKey: ['/api/compounds', compoundId, 'retention-times'],
+    queryFn: () => fetch(`/api/compounds/${compoundId}/retention-times`).then(res => res.json()),
+  });
+
+  const { data: methods } = useQuery<string[]>({
+    queryKey: ['/api/retention-times/methods'],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/compounds', compoundId, 'retention-times'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/retention-times/methods'] });
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await apiRequest('POST', `/api/compounds/${compoundId}/retention-times`, { method: method.trim(), rt: Number(rt) });
+      refresh();
+      setMethod("");
+      setRt("");
+    } catch (error) {
+      toast({
+        title: "Failed to save retention time",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (retentionTime: CompoundRetentionTime) => {
+    try {
+      await apiRequest('DELETE', `/api/retention-times/${retentionTime.id}`, undefined);
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Failed to delete retention time",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <Skeleton className="h-16 w-full" />
+      ) : retentionTimes && retentionTimes.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>LC Method</TableHead>
+              <TableHead className="text-right">RT (min)</TableHead>
+              {isAdmin && <TableHead className="w-12"></TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {retentionTimes.map(retentionTime => (
+              <TableRow key={retentionTime.id}>
+                <TableCell className="text-sm">{retentionTime.method}</TableCell>
+                <TableCell className="font-mono text-sm text-right">{retentionTime.rt.toFixed(2)}</TableCell>
+                {isAdmin && (
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-red-600"
+                      onClick={() => handleDelete(retentionTime)}
+                      title="Delete"
+                    >
+                      <i className="fas fa-trash-alt"></i>
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No retention times recorded. Add the RT of an authentic standard to identify features at MSI level 1.
+        </p>
+      )}
+
+      {isAdmin && (
+        <form onSubmit={handleAdd} className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="rt-method">LC method</Label>
+            <Input
+              id="rt-method"
+              list="rt-methods"
+              value={method}
+              onChange={event => setMethod(event.target.value)}
+              placeholder="e.g. HILIC 15 min"
+              className="mt-1"
+            />
+            <datalist id="rt-methods">
+              {(methods ?? []).map(name => <option key={name} value={name} />)}
+            </datalist>
+          </div>
+          <div className="w-28">
+            <Label htmlFor="rt-value">RT (min)</Label>
+            <Input
+              id="rt-value"
+              type="number"
+              min="0"
+              step="any"
+              value={rt}
+              onChange={event => setRt(event.target.value)}
+              className="mt-1 font-mono"
+            />
+          </div>
+          <Button type="submit" disabled={!method.trim() || rt.trim() === "" || isSaving}>
+            {isSaving ? "Saving..." : "Add"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { CompoundImportError, CompoundImportResult, InsertCompound } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+
+const PREVIEW_ROWS = 100;
+
+interface ImportCompoundsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const plural = (count: number) => `${count} ${count === 1 ? "compound" : "compounds"}`;
+
+// Imports an SDF or CSV compound file in two steps, like the sample sheet
+// import: a dry run shows every problem against its record, and compounds are
+// only added once the whole file is valid
+export default function ImportCompoundsDialog({ isOpen, onClose }: ImportCompoundsDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [contents, setContents] = useState<string | null>(null);
+  const [preview, setPreview] = useState<CompoundImportResult | null>(null);
+  const [errors, setErrors] = useState<CompoundImportError[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleFileChange = async (file: File | undefined) => {
+    setPreview(null);
+    setErrors([]);
+    setMessage(null);
+    setFileName(file?.name ?? null);
+    setContents(file ? await file.text() : null);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (contents === null) return;
+
+    const params = new URLSearchParams({ dryRun: String(dryRun) });
+    if (fileName && /\.(sdf|sd|mol)$/i.test(fileName)) params.set("format", "sdf");
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/compounds/import?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: contents,
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setPreview(null);
+        setErrors(body.errors ?? []);
+        setMessage(body.message ?? res.statusText);
+        return;
+      }
+
+      if (dryRun) {
+        setPreview(body as CompoundImportResult);
+        setErrors([]);
+        setMessage(null);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/compounds'] });
+        toast({
+          title: `Imported ${plural(body.imported)}`,
+          description: body.duplicates > 0 ? `${plural(body.duplicates)} already in the library were skipped` : undefined,
+        });
+        onClose();
+      }
+    } catch {
+      setMessage("Could not reach the server");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatMass = (compound: InsertCompound) => compound.monoisotopicMass?.toFixed(5) ?? "";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Compounds</DialogTitle>
+          <DialogDescription>
+            Upload an SDF file (e.g. an HMDB, ChEBI, LIPID MAPS or PubChem download) or a CSV/TSV file with a Name
+            column. Synonyms, Formula, Monoisotopic Mass, InChIKey, SMILES and HMDB, ChEBI, KEGG and PubChem ID
+            columns are recognized. Compounds whose InChIKey is already in the library are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="compound-file">Compound file</Label>
+            <Input
+              id="compound-file"
+              type="file"
+              accept=".sdf,.sd,.csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={e => handleFileChange(e.target.files?.[0])}
+              className="mt-1"
+            />
+          </div>
+
+          {message && (
+            <div className="border border-red-200 bg-red-50 rounded-md p-3">
+              <p className="text-sm font-medium text-red-700">
+                <i className="fas fa-exclamation-triangle mr-1"></i> {message}
+              </p>
+              {errors.length > 0 && (
+                <ul className="text-xs text-red-700 mt-2 space-y-0.5 max-h-48 overflow-y-auto">
+                  {errors.map((error, index) => (
+                    <li key={index}>
+                      <span className="font-medium">Record {error.record}:</span> {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <div>
+              <p className="text-sm text-green-700 mb-2">
+                <i className="fas fa-check-circle mr-1"></i>
+                {fileName} is valid: {plural(preview.compounds.length)} ready to import
+                {preview.duplicates > 0 && `, ${preview.duplicates} already in the library`}
+              </p>
+              <div className="max-h-64 overflow-y-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Formula</TableHead>
+                      <TableHead className="text-right">Mass</TableHead>
+                      <TableHead>InChIKey</TableHead>
+                      <TableHead>Identifiers</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.compounds.slice(0, PREVIEW_ROWS).map((compound, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="text-sm">{compound.name}</TableCell>
+                        <TableCell className="font-mono text-sm">{compound.formula}</TableCell>
+                        <TableCell className="font-mono text-sm text-right">{formatMass(compound)}</TableCell>
+                        <TableCell className="font-mono text-xs">{compound.inchiKey}</TableCell>
+                        <TableCell className="text-xs text-gray-600">
+                          {[compound.hmdbId, compound.chebiId, compound.keggId, compound.pubchemCid && `CID ${compound.pubchemCid}`]
+                            .filter(Boolean)
+                            .join(", ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.compounds.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500 mt-1">Showing the first {PREVIEW_ROWS} compounds</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              type="button"
+              disabled={isSubmitting || preview.compounds.length === 0}
+              onClick={() => submit(false)}
+            >
+              {isSubmitting ? "Importing..." : `Import ${plural(preview.compounds.length)}`}
+            </Button>
+          ) : (
+            <Button type="button" disabled={contents === null || isSubmitting} onClick={() => submit(true)}>
+              {isSubmitting ? "Checking..." : "Validate"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
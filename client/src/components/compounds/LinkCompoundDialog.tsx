@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Compound, CompoundPage } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+
+const RESULT_LIMIT = 20;
+
+interface LinkCompoundDialogProps {
+  noteId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Finds a compound in the library by name or identifier and links it to the note
+export default function LinkCompoundDialog({ noteId, isOpen, onClose }: LinkCompoundDialogProps) {
+  const [search, setSearch] = useState("");
+  const [linkingId, setLinkingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: linked } = useQuery<Compound[]>({
+    queryKey: ['/api/notes', noteId, 'compounds'],
+    queryFn: () => fetch(`/api/notes/${noteId}/compounds`).then(res => res.json()),
+  });
+
+  const { data: page, isFetching } = useQuery<CompoundPage>({
+    queryKey: ['/api/compounds', 'link', search.trim()],
+    queryFn: () => fetch(`/api/compounds?${new URLSearchParams({ search: search.trim(), limit: String(RESULT_LIMIT) })}`)
+      .then(res => res.json()),
+    enabled: search.trim().length > 0,
+  });
+
+  const handleLink = async (compound: Compound) => {
+    setLinkingId(compound.id);
+    try {
+      await apiRequest('POST', `/api/notes/${noteId}/compounds`, { compoundId: compound.id });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', noteId, 'compounds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/compounds', compound.id, 'notes'] });
+    } catch (error) {
+      toast({
+        title: "Failed to link compound",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setLinkingId(null);
+    }
+  };
+
+  const linkedIds = new Set((linked || []).map(compound => compound.id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Link Compound</DialogTitle>
+          <DialogDescription>
+            Search the compound library by name, synonym, InChIKey or database ID.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="e.g. glucose, HMDB0000122"
+          autoFocus
+        />
+
+        <div className="max-h-80 overflow-y-auto divide-y border rounded-md">
+          {isFetching && !page ? (
+            <div className="p-3 space-y-2">
+              <Skeleton className="h-6 w-full" />
+              <Skeleton className="h-6 w-full" />
+            </div>
+          ) : !search.trim() ? (
+            <p className="p-4 text-sm text-gray-500 text-center">Type to search the library</p>
+          ) : page && page.compounds.length > 0 ? (
+            page.compounds.map(compound => (
+              <div key={compound.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">{compound.name}</p>
+                  <p className="text-xs text-gray-500 font-mono">
+                    {compound.formula}
+                    {compound.monoisotopicMass !== null && ` • ${compound.monoisotopicMass.toFixed(5)}`}
+                  </p>
+                </div>
+                {linkedIds.has(compound.id) ? (
+                  <span className="text-xs text-green-700 shrink-0">
+                    <i className="fas fa-check mr-1"></i> Linked
+                  </span>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="shrink-0"
+                    disabled={linkingId !== null}
+                    onClick={() => handleLink(compound)}
+                  >
+                    Link
+                  </Button>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="p-4 text-sm text-gray-500 text-center">No compounds match "{search.trim()}"</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,18 @@
+import { Compound } from "@shared/schema";
+
+type IdentifierField = "hmdbId" | "chebiId" | "keggId" | "pubchemCid";
+
+// Database identifiers of a compound with links to their public entries
+export const COMPOUND_IDENTIFIERS: { field: IdentifierField; label: string; url: (id: string) => string }[] = [
+  { field: "hmdbId", label: "HMDB", url: id => `https://hmdb.ca/metabolites/${id}` },
+  { field: "chebiId", label: "ChEBI", url: id => `https://www.ebi.ac.uk/chebi/searchId.do?chebiId=${id}` },
+  { field: "keggId", label: "KEGG", url: id => `https://www.genome.jp/entry/${id}` },
+  { field: "pubchemCid", label: "PubChem", url: id => `https://pubchem.ncbi.nlm.nih.gov/compound/${id}` },
+];
+
+export function compoundIdentifiers(compound: Compound) {
+  return COMPOUND_IDENTIFIERS.flatMap(({ field, label, url }) => {
+    const id = compound[field];
+    return id ? [{ label, id, url: url(id) }] : [];
+  });
+}
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  DepositionContact,
+  DepositionMetadata,
+  DepositionProtocol,
+  DepositionPublication,
+  Sample,
+  depositionContactSchema,
+  depositionProtocols,
+  depositionPublicationSchema,
+} from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEPOSITION_PROTOCOL_LABELS } from "./deposition-labels";
+
+// Select value for runs without a default polarity
+const NO_POLARITY = "__none__";
+
+const CONTACT_FIELDS: [keyof DepositionContact, string][] = [
+  ["firstName", "First name"],
+  ["lastName", "Last name"],
+  ["email", "Email"],
+  ["phone", "Phone"],
+  ["address", "Address"],
+  ["affiliation", "Affiliation"],
+  ["role", "Role"],
+];
+
+const PUBLICATION_FIELDS: [keyof DepositionPublication, string][] = [
+  ["title", "Title"],
+  ["authors", "Authors"],
+  ["doi", "DOI"],
+  ["pubmedId", "PubMed ID"],
+  ["status", "Status"],
+];
+
+const INSTRUMENT_FIELDS: [keyof DepositionMetadata & string, string, string][] = [
+  ["chromatographyInstrument", "Chromatography instrument", "e.g. Vanquish UHPLC"],
+  ["columnModel", "Column model", "e.g. Acquity UPLC HSS T3 1.8 µm, 2.1 × 100 mm"],
+  ["columnType", "Column type", "e.g. reverse phase"],
+  ["msInstrument", "MS instrument", "e.g. Q Exactive Plus"],
+  ["ionSource", "Ion source", "e.g. electrospray ionization"],
+  ["massAnalyzer", "Mass analyzer", "e.g. orbitrap"],
+  ["intensityUnits", "Intensity units", "e.g. Peak area"],
+];
+
+interface DepositionMetadataFormProps {
+  projectId: number;
+  initial: DepositionMetadata;
+  canEdit: boolean;
+}
+
+// Study metadata the repositories need beyond samples and feature tables:
+// contacts, publications, study factors, protocols and instrumentation
+export default function DepositionMetadataForm({ projectId, initial, canEdit }: DepositionMetadataFormProps) {
+  const [metadata, setMetadata] = useState<DepositionMetadata>(initial);
+  const [designDescriptors, setDesignDescriptors] = useState(initial.designDescriptors.join(", "));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { data: samples } = useQuery<Sample[]>({
+    queryKey: ['/api/projects', projectId, 'samples'],
+    queryFn: () => fetch(`/api/projects/${projectId}/samples`).then(res => res.json()),
+  });
+
+  const attributes = Array.from(new Set([
+    ...(samples || []).flatMap(sample => Object.keys(sample.attributes)),
+    ...metadata.factorAttributes,
+  ])).sort();
+
+  const update = (changes: Partial<DepositionMetadata>) => setMetadata(current => ({ ...current, ...changes }));
+
+  const updateContact = (index: number, field: keyof DepositionContact, value: string) =>
+    update({ contacts: metadata.contacts.map((contact, i) => i === index ? { ...contact, [field]: value } : contact) });
+
+  const updatePublication = (index: number, field: keyof DepositionPublication, value: string) =>
+    update({ publications: metadata.publications.map((publication, i) => i === index ? { ...publication, [field]: value } : publication) });
+
+  const updateProtocol = (protocol: DepositionProtocol, value: string) =>
+    update({ protocols: { ...metadata.protocols, [protocol]: value } });
+
+  const toggleFactorAttribute = (attribute: string, checked: boolean) =>
+    update({
+      factorAttributes: checked
+        ? [...metadata.factorAttributes, attribute]
+        : metadata.factorAttributes.filter(existing => existing !== attribute),
+    });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await apiRequest('PUT', `/api/projects/${projectId}`, {
+        deposition: {
+          ...metadata,
+          designDescriptors: designDescriptors.split(",").map(descriptor => descriptor.trim()).filter(Boolean),
+          studyGroupFactor: metadata.studyGroupFactor?.trim() || null,
+        },
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId] });
+      // Both repositories' validation reports
+      queryClient.invalidateQueries({
+        predicate: query => new RegExp(`^/api/projects/${projectId}/(isa-tab|mwtab)/`).test(String(query.queryKey[0])),
+      });
+      toast({ title: "Deposition metadata saved" });
+    } catch (error) {
+      toast({
+        title: "Failed to save deposition metadata",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-md p-4 space-y-6">
+      <fieldset disabled={!canEdit} className="space-y-6">
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-800">Contacts</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ contacts: [...metadata.contacts, depositionContactSchema.parse({})] })}
+            >
+              <i className="fas fa-plus mr-2"></i> Add contact
+            </Button>
+          </div>
+          {metadata.contacts.length === 0 && <p className="text-sm text-gray-500">No contacts yet.</p>}
+          {metadata.contacts.map((contact, index) => (
+            <div key={index} className="flex items-end gap-2 flex-wrap">
+              {CONTACT_FIELDS.map(([field, label]) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`contact-${index}-${field}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`contact-${index}-${field}`}
+                    value={contact[field]}
+                    onChange={event => updateContact(index, field, event.target.value)}
+                    className="h-8 w-40"
+                  />
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600"
+                onClick={() => update({ contacts: metadata.contacts.filter((_, i) => i !== index) })}
+                title="Remove contact"
+              >
+                <i className="fas fa-times"></i>
+              </Button>
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-800">Publications</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ publications: [...metadata.publications, depositionPublicationSchema.parse({ status: "in preparation" })] })}
+            >
+              <i className="fas fa-plus mr-2"></i> Add publication
+            </Button>
+          </div>
+          {metadata.publications.map((publication, index) => (
+            <div key={index} className="flex items-end gap-2 flex-wrap">
+              {PUBLICATION_FIELDS.map(([field, label]) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`publication-${index}-${field}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`publication-${index}-${field}`}
+                    value={publication[field]}
+                    onChange={event => updatePublication(index, field, event.target.value)}
+                    className={`h-8 ${field === "title" || field === "authors" ? "w-64" : "w-36"}`}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600"
+                onClick={() => update({ publications: metadata.publications.filter((_, i) => i !== index) })}
+                title="Remove publication"
+              >
+                <i className="fas fa-times"></i>
+              </Button>
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-800">Study design</h3>
+          <div className="flex items-end gap-4 flex-wrap">
+            <div className="space-y-1">
+              <Label htmlFor="deposition-release" className="text-xs">Public release date</Label>
+              <Input
+                id="deposition-release"
+                type="date"
+                value={metadata.releaseDate ?? ""}
+                onChange={event => update({ releaseDate: event.target.value || null })}
+                className="h-8 w-44"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="deposition-subject-type" className="text-xs">Subject type</Label>
+              <Input
+                id="deposition-subject-type"
+                value={metadata.subjectType}
+                onChange={event => update({ subjectType: event.target.value })}
+                placeholder="e.g. Human, Animal, Cultured cells"
+                className="h-8 w-56"
+              />
+            </div>
+            <div className="space-y-1 flex-1 min-w-[16rem]">
+              <Label htmlFor="deposition-design" className="text-xs">Design descriptors (comma-separated)</Label>
+              <Input
+                id="deposition-design"
+                value={designDescriptors}
+                onChange={event => setDesignDescriptors(event.target.value)}
+                placeholder="e.g. untargeted metabolites, plasma, case-control design"
+                className="h-8"
+              />
+            </div>
+          </div>
+          <div className="flex items-end gap-4 flex-wrap">
+            <label className="flex items-center gap-2 text-sm pb-1.5">
+              <Checkbox
+                checked={metadata.studyGroupFactor !== null}
+                onCheckedChange={checked => update({ studyGroupFactor: checked ? "Study group" : null })}
+              />
+              Report study groups as the factor
+            </label>
+            {metadata.studyGroupFactor !== null && (
+              <Input
+                value={metadata.studyGroupFactor}
+                onChange={event => update({ studyGroupFactor: event.target.value })}
+                aria-label="Study group factor name"
+                className="h-8 w-48"
+              />
+            )}
+          </div>
+          {attributes.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-gray-500">Sample attributes also reported as factors</p>
+              <div className="flex gap-4 flex-wrap">
+                {attributes.map(attribute => (
+                  <label key={attribute} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={metadata.factorAttributes.includes(attribute)}
+                      onCheckedChange={checked => toggleFactorAttribute(attribute, !!checked)}
+                    />
+                    {attribute}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-800">Protocols</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {depositionProtocols.map(protocol => (
+              <div key={protocol} className="space-y-1">
+                <Label htmlFor={`protocol-${protocol}`} className="text-xs">{DEPOSITION_PROTOCOL_LABELS[protocol]}</Label>
+                <Textarea
+                  id={`protocol-${protocol}`}
+                  value={metadata.protocols[protocol]}
+                  onChange={event => updateProtocol(protocol, event.target.value)}
+                  className="h-24 text-sm"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="deposition-treatment" className="text-xs">Treatment</Label>
+              <Textarea
+                id="deposition-treatment"
+                value={metadata.treatment}
+                onChange={event => update({ treatment: event.target.value })}
+                placeholder="How the subjects were treated, or that they were not"
+                className="h-24 text-sm"
+              />
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-800">Instrumentation</h3>
+          <div className="flex gap-3 flex-wrap">
+            {INSTRUMENT_FIELDS.map(([field, label, placeholder]) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`deposition-${field}`} className="text-xs">{label}</Label>
+                <Input
+                  id={`deposition-${field}`}
+                  value={metadata[field] as string}
+                  onChange={event => update({ [field]: event.target.value })}
+                  placeholder={placeholder}
+                  className="h-8 w-64"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label className="text-xs">Default scan polarity</Label>
+              <Select
+                value={metadata.polarity ?? NO_POLARITY}
+                onValueChange={value => update({ polarity: value === NO_POLARITY ? null : value as DepositionMetadata["polarity"] })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger className="h-8 w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_POLARITY}>From the runs only</SelectItem>
+                  <SelectItem value="positive">Positive</SelectItem>
+                  <SelectItem value="negative">Negative</SelectItem>
+                  <SelectItem value="alternating">Alternating</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            The polarity read from a run's mzML or mzXML file takes precedence over the default.
+          </p>
+        </section>
+      </fieldset>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save metadata"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { ReactNode, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DepositionValidation, MwTabFormat, Project, depositionMetadataSchema } from "@shared/schema";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { useProjectRole } from "@/hooks/use-project-role";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DepositionMetadataForm from "./DepositionMetadataForm";
+import { DEPOSITION_ISSUE_STYLES } from "./deposition-labels";
+
+interface DepositionPanelProps {
+  projectId: number;
+}
+
+interface RepositoryExportProps {
+  title: string;
+  description: ReactNode;
+  repository: string;
+  downloadUrl: string;
+  validationUrl: string;
+  // Shown next to the download button, e.g. a format choice
+  children?: ReactNode;
+}
+
+// Download of one repository's files with the mandatory fields still missing.
+// Samples, experiments and feature tables are edited in other tabs, so the
+// report is refreshed every time the tab is opened.
+function RepositoryExport({ title, description, repository, downloadUrl, validationUrl, children }: RepositoryExportProps) {
+  const { data: validation, isLoading, error } = useQuery<DepositionValidation>({
+    queryKey: [validationUrl],
+    staleTime: 0,
+  });
+
+  const errors = validation?.issues.filter(issue => issue.severity === "error") ?? [];
+  const warnings = validation?.issues.filter(issue => issue.severity === "warning") ?? [];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-md p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-800">{title}</h3>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {children}
+          <Button asChild variant={errors.length > 0 ? "outline" : "default"}>
+            <a href={downloadUrl} download>
+              <i className="fas fa-file-archive mr-2"></i> Download zip
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : error || !validation ? (
+        <p className="text-sm text-red-600">{error ? getApiErrorMessage(error) : "Could not validate the export"}</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-700">
+            {errors.length > 0
+              ? `${errors.length} mandatory ${errors.length === 1 ? "field is" : "fields are"} missing; ${repository} will not accept the submission until ${errors.length === 1 ? "it is" : "they are"} filled in.`
+              : "All mandatory fields are filled in."}
+            {warnings.length > 0 && ` ${warnings.length} ${warnings.length === 1 ? "warning" : "warnings"}.`}
+          </p>
+          {validation.issues.length > 0 && (
+            <ul className="space-y-1">
+              {[...errors, ...warnings].map((issue, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <Badge variant="outline" className={`capitalize shrink-0 ${DEPOSITION_ISSUE_STYLES[issue.severity]}`}>
+                    {issue.severity}
+                  </Badge>
+                  <span><span className="font-medium">{issue.location}:</span> {issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500 font-mono break-all">{validation.files.join(" · ")}</p>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Public repository deposition: the study metadata, then the MetaboLights
+// ISA-Tab and Metabolomics Workbench mwTab exports
+export default function DepositionPanel({ projectId }: DepositionPanelProps) {
+  const { canEdit } = useProjectRole(projectId);
+  const [mwTabFormat, setMwTabFormat] = useState<MwTabFormat>("text");
+
+  const { data: project, isLoading } = useQuery<Project>({
+    queryKey: ['/api/projects', projectId],
+    queryFn: () => fetch(`/api/projects/${projectId}`).then(res => res.json()),
+  });
+
+  if (isLoading || !project) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-medium text-gray-800 mb-1">Deposition metadata</h2>
+        <p className="text-sm text-gray-500 mb-3">
+          The study title and description are the project's. Samples, experiments and feature tables come from the
+          other tabs; each experiment is exported as one LC-MS assay of its most recent feature table.
+        </p>
+        <DepositionMetadataForm
+          key={String(project.updatedAt)}
+          projectId={projectId}
+          initial={depositionMetadataSchema.parse(project.deposition ?? {})}
+          canEdit={canEdit}
+        />
+      </div>
+
+      <RepositoryExport
+        title="MetaboLights (ISA-Tab)"
+        description={
+          "Investigation, study and assay files, with a metabolite assignment file per feature table. Raw data files " +
+          "are referenced by name and uploaded to MetaboLights separately."
+        }
+        repository="MetaboLights"
+        downloadUrl={`/api/projects/${projectId}/isa-tab`}
+        validationUrl={`/api/projects/${projectId}/isa-tab/validation`}
+      />
+
+      <RepositoryExport
+        title="Metabolomics Workbench (mwTab)"
+        description={
+          "One mwTab file per experiment with a feature table, with the features as MS_METABOLITE_DATA named after " +
+          "their accepted compounds. The first contact is the study contact; the Workbench assigns the study and " +
+          "analysis IDs on submission."
+        }
+        repository="the Metabolomics Workbench"
+        downloadUrl={`/api/projects/${projectId}/mwtab?format=${mwTabFormat}`}
+        validationUrl={`/api/projects/${projectId}/mwtab/validation?format=${mwTabFormat}`}
+      >
+        <Select value={mwTabFormat} onValueChange={value => setMwTabFormat(value as MwTabFormat)}>
+          <SelectTrigger className="h-9 w-28" aria-label="mwTab format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="text">Text</SelectItem>
+            <SelectItem value="json">JSON</SelectItem>
+          </SelectContent>
+        </Select>
+      </RepositoryExport>
+    </div>
+  );
+}
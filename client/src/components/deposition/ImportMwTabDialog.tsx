@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { MwTabImportPreview, MwTabImportResult, SampleType, sampleTypes } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { SAMPLE_TYPE_LABELS, SAMPLE_TYPE_STYLES } from "@/components/samples/sample-labels";
+
+interface ImportMwTabDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Creates a project from a Metabolomics Workbench mwTab file (text or JSON).
+// A dry run shows what will be created; the new project is opened afterwards.
+export default function ImportMwTabDialog({ isOpen, onClose }: ImportMwTabDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [contents, setContents] = useState<string | null>(null);
+  const [preview, setPreview] = useState<MwTabImportPreview | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const handleFileChange = async (file: File | undefined) => {
+    setPreview(null);
+    setMessage(null);
+    setFileName(file?.name ?? null);
+    setContents(file ? await file.text() : null);
+  };
+
+  const handleClose = () => {
+    setFileName(null);
+    setContents(null);
+    setPreview(null);
+    setMessage(null);
+    onClose();
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (contents === null) return;
+
+    const params = new URLSearchParams({ dryRun: String(dryRun) });
+    if (fileName) params.set("fileName", fileName);
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/projects/import/mwtab?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: contents,
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setPreview(null);
+        setMessage(body.message ?? res.statusText);
+        return;
+      }
+
+      if (dryRun) {
+        setPreview(body as MwTabImportPreview);
+        setMessage(null);
+      } else {
+        const { project, featureTable } = body as MwTabImportResult;
+        queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/projects/user'] });
+        toast({
+          title: `Created ${project.name}`,
+          description: `${preview?.samples.length ?? 0} samples and a feature table of ${featureTable.featureCount} metabolites`,
+        });
+        handleClose();
+        navigate(`/projects/${project.id}`);
+      }
+    } catch {
+      setMessage("Could not reach the server");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const typeCounts = sampleTypes
+    .map(type => [type, preview?.samples.filter(sample => sample.sampleType === type).length ?? 0] as [SampleType, number])
+    .filter(([, count]) => count > 0);
+  const groups = Array.from(new Set(preview?.samples.flatMap(sample => sample.studyGroup ?? []) ?? []));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import mwTab File</DialogTitle>
+          <DialogDescription>
+            Creates a project from a Metabolomics Workbench mwTab file, text or JSON: the study metadata, a sample per
+            sample ID with its factors, and the MS_METABOLITE_DATA as a feature table. The first factor becomes the
+            samples' study group and the others sample attributes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="mwtab-file">mwTab file</Label>
+            <Input
+              id="mwtab-file"
+              type="file"
+              accept=".txt,.tsv,.json,text/plain,application/json"
+              onChange={e => handleFileChange(e.target.files?.[0])}
+              className="mt-1"
+            />
+          </div>
+
+          {message && (
+            <div className="border border-red-200 bg-red-50 rounded-md p-3">
+              <p className="text-sm font-medium text-red-700">
+                <i className="fas fa-exclamation-triangle mr-1"></i> {message}
+              </p>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2 text-sm">
+              <p className="text-green-700">
+                <i className="fas fa-check-circle mr-1"></i>
+                {fileName} can be imported as <span className="font-medium">{preview.projectName}</span>
+                {preview.studyId && ` (${[preview.studyId, preview.analysisId].filter(Boolean).join(" / ")})`}
+              </p>
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-gray-700">{preview.samples.length} samples:</span>
+                {typeCounts.map(([type, count]) => (
+                  <Badge key={type} variant="outline" className={SAMPLE_TYPE_STYLES[type]}>
+                    {count} {SAMPLE_TYPE_LABELS[type]}
+                  </Badge>
+                ))}
+              </div>
+              {preview.factorNames.length > 0 && (
+                <p className="text-gray-700">
+                  Factors: {preview.factorNames.join(", ")}
+                  {groups.length > 0 && ` — study groups ${groups.join(", ")}`}
+                </p>
+              )}
+              <p className="text-gray-700">
+                {preview.metaboliteCount - preview.skippedMetabolites.length} of {preview.metaboliteCount} metabolites
+                go into the feature table ({preview.units || "no units"}).
+              </p>
+              {preview.skippedMetabolites.length > 0 && (
+                <p className="text-amber-700 text-xs">
+                  <i className="fas fa-exclamation-triangle mr-1"></i>
+                  Left out because they have no m/z, in the METABOLITES block or their name:{" "}
+                  {preview.skippedMetabolites.slice(0, 10).join(", ")}
+                  {preview.skippedMetabolites.length > 10 && ` and ${preview.skippedMetabolites.length - 10} more`}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button type="button" disabled={isSubmitting} onClick={() => submit(false)}>
+              {isSubmitting ? "Importing..." : "Create project"}
+            </Button>
+          ) : (
+            <Button type="button" disabled={contents === null || isSubmitting} onClick={() => submit(true)}>
+              {isSubmitting ? "Checking..." : "Validate"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,15 @@
+import { DepositionIssue, DepositionProtocol } from "@shared/schema";
+
+export const DEPOSITION_PROTOCOL_LABELS: Record<DepositionProtocol, string> = {
+  sampleCollection: "Sample collection",
+  extraction: "Extraction",
+  chromatography: "Chromatography",
+  massSpectrometry: "Mass spectrometry",
+  dataTransformation: "Data transformation",
+  metaboliteIdentification: "Metabolite identification",
+};
+
+export const DEPOSITION_ISSUE_STYLES: Record<DepositionIssue["severity"], string> = {
+  error: "bg-red-100 text-red-800 border-red-200",
+  warning: "bg-yellow-100 text-yellow-800 border-yellow-200",
+};
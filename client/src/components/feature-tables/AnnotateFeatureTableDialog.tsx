@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FeatureTable } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+
+// Select value standing for "no RT library"
+const NO_METHOD = "none";
+
+interface AnnotateFeatureTableDialogProps {
+  table: FeatureTable;
+  projectId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Starts a run matching the table's features against the compound library.
+// The settings of the previous run are offered again.
+export default function AnnotateFeatureTableDialog({ table, projectId, isOpen, onClose }: AnnotateFeatureTableDialogProps) {
+  const previous = table.annotationSettings;
+  const [adducts, setAdducts] = useState<string[]>(previous?.adducts ?? ["[M+H]+"]);
+  const [ppm, setPpm] = useState(String(previous?.ppm ?? 5));
+  const [rtMethod, setRtMethod] = useState(previous?.rtMethod ?? NO_METHOD);
+  const [rtTolerance, setRtTolerance] = useState(String(previous?.rtTolerance ?? 0.2));
+  const [rtRequired, setRtRequired] = useState(previous?.rtRequired ?? false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: defaultAdducts } = useQuery<string[]>({
+    queryKey: ['/api/chem/adducts'],
+  });
+
+  const { data: methods } = useQuery<string[]>({
+    queryKey: ['/api/retention-times/methods'],
+  });
+
+  const allAdducts = Array.from(new Set([...(defaultAdducts ?? []), ...adducts]));
+  const adductGroups = [
+    { label: "Positive mode", adducts: allAdducts.filter(adduct => adduct.endsWith("+")) },
+    { label: "Negative mode", adducts: allAdducts.filter(adduct => adduct.endsWith("-")) },
+  ];
+
+  const toggleAdduct = (adduct: string, checked: boolean) => {
+    setAdducts(current => checked ? [...current, adduct] : current.filter(other => other !== adduct));
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', `/api/feature-tables/${table.id}/annotate`, {
+        adducts,
+        ppm: Number(ppm),
+        rtMethod: rtMethod === NO_METHOD ? null : rtMethod,
+        rtTolerance: Number(rtTolerance),
+        rtRequired: rtMethod !== NO_METHOD && rtRequired,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'feature-tables'] });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Failed to start annotation",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isValid = adducts.length > 0 && Number(ppm) > 0 && (rtMethod === NO_METHOD || Number(rtTolerance) > 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Annotate {table.name}</DialogTitle>
+          <DialogDescription>
+            Proposes compounds from the library whose adduct m/z matches each feature. Candidates from an earlier
+            run are replaced; accepted and rejected annotations are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {adductGroups.map(group => (
+              <div key={group.label} className="space-y-1">
+                <p className="text-xs font-medium text-gray-500 uppercase">{group.label}</p>
+                {group.adducts.map(adduct => (
+                  <label key={adduct} className="flex items-center gap-2 text-sm font-mono">
+                    <Checkbox
+                      checked={adducts.includes(adduct)}
+                      onCheckedChange={checked => toggleAdduct(adduct, !!checked)}
+                    />
+                    {adduct}
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="w-32">
+            <Label htmlFor="annotate-ppm">Mass tolerance (ppm)</Label>
+            <Input
+              id="annotate-ppm"
+              type="number"
+              min="0"
+              step="any"
+              value={ppm}
+              onChange={event => setPpm(event.target.value)}
+              className="mt-1 font-mono"
+            />
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div className="flex-1">
+              <Label>Retention time library</Label>
+              <Select value={rtMethod} onValueChange={setRtMethod}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_METHOD}>None (accurate mass only)</SelectItem>
+                  {(methods ?? []).map(method => (
+                    <SelectItem key={method} value={method}>{method}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {rtMethod !== NO_METHOD && (
+              <div className="w-32">
+                <Label htmlFor="annotate-rt-tolerance">RT tolerance (min)</Label>
+                <Input
+                  id="annotate-rt-tolerance"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={rtTolerance}
+                  onChange={event => setRtTolerance(event.target.value)}
+                  className="mt-1 font-mono"
+                />
+              </div>
+            )}
+          </div>
+
+          {rtMethod !== NO_METHOD && (
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={rtRequired} onCheckedChange={checked => setRtRequired(!!checked)} />
+              Only propose compounds with a library retention time
+            </label>
+          )}
+          {methods && methods.length === 0 && (
+            <p className="text-xs text-gray-500">
+              Add retention times of standards on their compound pages to match by retention time.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={!isValid || isSubmitting} onClick={handleSubmit}>
+            {isSubmitting ? "Starting..." : "Annotate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FeatureTable, FeatureTableWithColumns, Sample } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+
+// Select value standing for the batch IDs recorded in the file
+const FILE_BATCHES = "__file__";
+
+interface DriftCorrectionDialogProps {
+  table: FeatureTable;
+  projectId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Starts a QC-RLSC drift correction of a raw table. The corrected
+// intensities are saved as a new table; the raw one is left as it is.
+export default function DriftCorrectionDialog({ table, projectId, isOpen, onClose }: DriftCorrectionDialogProps) {
+  const [name, setName] = useState(`${table.name} (drift-corrected)`);
+  const [span, setSpan] = useState("0.75");
+  const [minQcPerBatch, setMinQcPerBatch] = useState("5");
+  const [batchAttribute, setBatchAttribute] = useState(FILE_BATCHES);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: details } = useQuery<FeatureTableWithColumns>({
+    queryKey: [`/api/feature-tables/${table.id}`],
+  });
+
+  const { data: samples } = useQuery<Sample[]>({
+    queryKey: ['/api/projects', projectId, 'samples'],
+    queryFn: () => fetch(`/api/projects/${projectId}/samples`).then(res => res.json()),
+  });
+
+  const attributes = Array.from(new Set((samples || []).flatMap(sample => Object.keys(sample.attributes)))).sort();
+
+  // Injections and pooled QCs per batch, as the server will count them
+  const samplesById = new Map((samples || []).map(sample => [sample.id, sample]));
+  const batches = new Map<string, { injections: number; qcInjections: number }>();
+  for (const column of details?.columns ?? []) {
+    const sample = column.sampleId !== null ? samplesById.get(column.sampleId) : undefined;
+    const batch = batchAttribute === FILE_BATCHES
+      ? column.batch !== null ? String(column.batch) : "1"
+      : sample?.attributes[batchAttribute]?.trim() || "(none)";
+    const counts = batches.get(batch) ?? { injections: 0, qcInjections: 0 };
+    counts.injections++;
+    if (sample?.sampleType === "qc") counts.qcInjections++;
+    batches.set(batch, counts);
+  }
+  const hasInjectionOrder = details?.columns.every(column => column.injectionOrder !== null);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', `/api/feature-tables/${table.id}/drift-correction`, {
+        name,
+        span: Number(span),
+        minQcPerBatch: parseInt(minQcPerBatch),
+        batchAttribute: batchAttribute === FILE_BATCHES ? null : batchAttribute,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'feature-tables'] });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Failed to start drift correction",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const spanValue = Number(span);
+  const minQcValue = parseInt(minQcPerBatch);
+  const isValid = name.trim() !== "" && spanValue >= 0.2 && spanValue <= 1 && minQcValue >= 3;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Correct Signal Drift</DialogTitle>
+          <DialogDescription>
+            Fits a LOESS curve to each feature's pooled QC intensities across injection order within every batch, and
+            scales all injections to the feature's median QC intensity (QC-RLSC). The result is saved as a new table;
+            {" "}{table.name} is kept unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="drift-name">Name of the corrected table</Label>
+            <Input id="drift-name" value={name} onChange={event => setName(event.target.value)} className="mt-1" />
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div className="w-32">
+              <Label htmlFor="drift-span">LOESS span</Label>
+              <Input
+                id="drift-span"
+                type="number"
+                min="0.2"
+                max="1"
+                step="0.05"
+                value={span}
+                onChange={event => setSpan(event.target.value)}
+                className="mt-1 font-mono"
+              />
+            </div>
+            <div className="w-40">
+              <Label htmlFor="drift-min-qc">Min. QCs per batch</Label>
+              <Input
+                id="drift-min-qc"
+                type="number"
+                min="3"
+                value={minQcPerBatch}
+                onChange={event => setMinQcPerBatch(event.target.value)}
+                className="mt-1 font-mono"
+              />
+            </div>
+            <div className="flex-1">
+              <Label>Batches from</Label>
+              <Select value={batchAttribute} onValueChange={setBatchAttribute}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FILE_BATCHES}>Batch IDs in the file</SelectItem>
+                  {attributes.map(attribute => (
+                    <SelectItem key={attribute} value={attribute}>Sample attribute "{attribute}"</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {details && (
+            <div className="text-sm space-y-1">
+              {Array.from(batches.entries()).map(([batch, counts]) => (
+                <p key={batch} className={counts.qcInjections < minQcValue ? "text-red-600" : "text-gray-700"}>
+                  Batch {batch}: {counts.injections} injections, {counts.qcInjections} pooled QCs
+                </p>
+              ))}
+              {!hasInjectionOrder && (
+                <p className="text-xs text-gray-500">
+                  The file records no injection order, so columns are taken to be in acquisition order.
+                </p>
+              )}
+              <p className="text-xs text-gray-500">
+                Features detected in fewer QCs than the minimum in any batch are copied uncorrected.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={!isValid || isSubmitting} onClick={handleSubmit}>
+            {isSubmitting ? "Starting..." : "Correct"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
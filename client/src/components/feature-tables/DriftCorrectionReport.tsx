@@ -0,0 +1,76 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { DriftCorrection } from "@shared/schema";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+const config = {
+  before: { label: "Before correction", color: "#9ca3af" },
+  after: { label: "After correction", color: "#2563eb" },
+} satisfies ChartConfig;
+
+const formatRsd = (value: number | null) => value === null ? "–" : `${value.toFixed(1)}%`;
+const formatFraction = (value: number | null) => value === null ? "–" : `${Math.round(value * 100)}%`;
+
+interface DriftCorrectionReportProps {
+  correction: DriftCorrection;
+}
+
+// Settings of a drift-corrected table and the pooled QC RSDs of its features
+// before and after the correction
+export default function DriftCorrectionReport({ correction }: DriftCorrectionReportProps) {
+  const { settings } = correction;
+  const rows: [string, string, string][] = [
+    ["Median QC RSD", formatRsd(correction.medianRsdBefore), formatRsd(correction.medianRsdAfter)],
+    ["Features with QC RSD < 20%", formatFraction(correction.fractionRsdBelow20Before), formatFraction(correction.fractionRsdBelow20After)],
+    ["Features with QC RSD < 30%", formatFraction(correction.fractionRsdBelow30Before), formatFraction(correction.fractionRsdBelow30After)],
+  ];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-md p-3 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-800">Drift correction</h4>
+        <p className="text-xs text-gray-500">
+          QC-RLSC of {correction.sourceTableName}: LOESS span {settings.span}, at least {settings.minQcPerBatch} QCs per batch,
+          batches from {settings.batchAttribute ? `the "${settings.batchAttribute}" sample attribute` : "the file"}.
+          {" "}{correction.correctedFeatureCount} features corrected, {correction.uncorrectedFeatureCount} copied uncorrected.
+        </p>
+        <p className="text-xs text-gray-500">
+          {correction.batches.map(batch =>
+            `Batch ${batch.batch}: ${batch.injections} injections, ${batch.qcInjections} QCs`).join("; ")}
+        </p>
+      </div>
+
+      <div className="flex gap-6 flex-wrap items-start">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500">
+              <th className="text-left font-normal pr-4"></th>
+              <th className="text-right font-normal pr-4">Before</th>
+              <th className="text-right font-normal">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([label, before, after]) => (
+              <tr key={label}>
+                <td className="pr-4 text-gray-700">{label}</td>
+                <td className="pr-4 text-right font-mono">{before}</td>
+                <td className="text-right font-mono">{after}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <ChartContainer config={config} className="h-48 flex-1 min-w-[20rem]">
+          <BarChart data={correction.rsdHistogram} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="bin" tick={{ fontSize: 10 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 10 }} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="before" fill="var(--color-before)" isAnimationActive={false} />
+            <Bar dataKey="after" fill="var(--color-after)" isAnimationActive={false} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
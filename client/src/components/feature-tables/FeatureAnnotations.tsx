@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FeatureAnnotationStatus, FeatureAnnotationWithCompound } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ANNOTATION_STATUS_STYLES, MSI_LEVEL_LABELS, MSI_LEVEL_STYLES } from "./feature-table-labels";
+
+interface FeatureAnnotationsProps {
+  tableId: number;
+  featureId: number;
+  canEdit: boolean;
+}
+
+// Compounds proposed for one feature, for accepting or rejecting
+export default function FeatureAnnotations({ tableId, featureId, canEdit }: FeatureAnnotationsProps) {
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: annotations, isLoading } = useQuery<FeatureAnnotationWithCompound[]>({
+    queryKey: [`/api/feature-tables/${tableId}/annotations`, featureId],
+    queryFn: () => fetch(`/api/feature-tables/${tableId}/annotations?featureId=${featureId}`).then(res => res.json()),
+  });
+
+  const handleReview = async (annotation: FeatureAnnotationWithCompound, status: FeatureAnnotationStatus) => {
+    setReviewingId(annotation.id);
+    try {
+      await apiRequest('PATCH', `/api/feature-annotations/${annotation.id}`, { status });
+      // Also refreshes the annotation column of the feature list
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith(`/api/feature-tables/${tableId}/`),
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to review annotation",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (!annotations || annotations.length === 0) {
+    return <p className="text-sm text-gray-500">No compounds have been proposed for this feature</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Compound</TableHead>
+          <TableHead>Adduct</TableHead>
+          <TableHead className="text-right">Theoretical m/z</TableHead>
+          <TableHead className="text-right">Error (ppm)</TableHead>
+          <TableHead className="text-right">ΔRT (min)</TableHead>
+          <TableHead>MSI level</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-44"></TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {annotations.map(annotation => (
+          <TableRow key={annotation.id}>
+            <TableCell className="text-sm">
+              <Link href={`/compounds/${annotation.compound.id}`} className="font-medium text-primary hover:underline">
+                {annotation.compound.name}
+              </Link>
+              {annotation.compound.formula && (
+                <span className="ml-2 font-mono text-xs text-gray-500">{annotation.compound.formula}</span>
+              )}
+            </TableCell>
+            <TableCell className="font-mono text-sm">{annotation.adduct}</TableCell>
+            <TableCell className="font-mono text-sm text-right">{annotation.theoreticalMz.toFixed(5)}</TableCell>
+            <TableCell className="font-mono text-sm text-right">{annotation.ppmError.toFixed(2)}</TableCell>
+            <TableCell className="font-mono text-sm text-right">{annotation.rtError?.toFixed(2) ?? ""}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className={MSI_LEVEL_STYLES[annotation.msiLevel]} title={MSI_LEVEL_LABELS[annotation.msiLevel]}>
+                Level {annotation.msiLevel}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-xs text-gray-500">
+              <Badge variant="outline" className={`capitalize ${ANNOTATION_STATUS_STYLES[annotation.status]}`}>
+                {annotation.status}
+              </Badge>
+              {annotation.reviewedAt && (
+                <div className="mt-1 whitespace-nowrap">
+                  {annotation.reviewerName ?? "Unknown user"}, {format(new Date(annotation.reviewedAt), 'MMM d, yyyy HH:mm')}
+                </div>
+              )}
+            </TableCell>
+            <TableCell>
+              {canEdit && (
+                <div className="flex justify-end gap-1">
+                  {annotation.status === "candidate" ? (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-green-700"
+                        disabled={reviewingId !== null}
+                        onClick={() => handleReview(annotation, "accepted")}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600"
+                        disabled={reviewingId !== null}
+                        onClick={() => handleReview(annotation, "rejected")}
+                      >
+                        Reject
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={reviewingId !== null}
+                      onClick={() => handleReview(annotation, "candidate")}
+                    >
+                      Undo
+                    </Button>
+                  )}
+                </div>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,72 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Feature, FeatureTableColumn, Sample } from "@shared/schema";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { SAMPLE_TYPE_COLORS, SAMPLE_TYPE_LABELS } from "@/components/samples/sample-labels";
+
+const chartConfig = {
+  intensity: { label: "Intensity", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface FeatureIntensityChartProps {
+  feature: Feature;
+  columns: FeatureTableColumn[];
+  samples: Sample[];
+}
+
+// One bar per sample column of the feature, coloured by sample type when the
+// column is mapped to a registered sample
+export default function FeatureIntensityChart({ feature, columns, samples }: FeatureIntensityChartProps) {
+  const samplesById = new Map(samples.map(sample => [sample.id, sample]));
+  const data = columns.map(column => {
+    const sample = column.sampleId !== null ? samplesById.get(column.sampleId) : undefined;
+    return {
+      label: sample?.sampleCode ?? column.columnName,
+      intensity: feature.intensities[column.position] ?? 0,
+      detected: feature.intensities[column.position] != null,
+      sampleType: sample?.sampleType,
+    };
+  });
+
+  const sampleTypes = Array.from(new Set(data.flatMap(entry => entry.sampleType ? [entry.sampleType] : [])));
+
+  return (
+    <div>
+      <ChartContainer config={chartConfig} className="h-56 w-full">
+        <BarChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tick={false} />
+          <YAxis tickFormatter={(value: number) => value.toExponential(1)} width={56} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const entry = payload[0]?.payload as (typeof data)[number] | undefined;
+                  if (!entry) return "";
+                  return entry.detected ? entry.label : `${entry.label} (not detected)`;
+                }}
+              />
+            }
+          />
+          <Bar dataKey="intensity" isAnimationActive={false}>
+            {data.map((entry, index) => (
+              <Cell
+                key={index}
+                fill={entry.sampleType ? SAMPLE_TYPE_COLORS[entry.sampleType] : "var(--color-intensity)"}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      {sampleTypes.length > 0 && (
+        <div className="flex items-center gap-3 text-xs text-gray-600 mt-1">
+          {sampleTypes.map(type => (
+            <span key={type} className="flex items-center gap-1">
+              <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SAMPLE_TYPE_COLORS[type] }}></span>
+              {SAMPLE_TYPE_LABELS[type]}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Experiment, FeatureTable } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectRole } from "@/hooks/use-project-role";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import FeatureTableViewer from "./FeatureTableViewer";
+import AnnotateFeatureTableDialog from "./AnnotateFeatureTableDialog";
+import DriftCorrectionDialog from "./DriftCorrectionDialog";
+import DriftCorrectionReport from "./DriftCorrectionReport";
+import { FEATURE_TABLE_FORMAT_LABELS } from "./feature-table-labels";
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  parsed: "bg-green-100 text-green-800 border-green-200",
+  failed: "bg-red-100 text-red-800 border-red-200",
+};
+
+interface FeatureTableListProps {
+  projectId: number;
+  experiments: Experiment[];
+}
+
+// Feature tables imported into the project's experiments. Tables are imported
+// from CSV attachments via the notebook; see ImportFeatureTableDialog.
+export default function FeatureTableList({ projectId, experiments }: FeatureTableListProps) {
+  const [selectedTableId, setSelectedTableId] = useState<number | null>(null);
+  const [deletingTable, setDeletingTable] = useState<FeatureTable | null>(null);
+  const [annotatingTable, setAnnotatingTable] = useState<FeatureTable | null>(null);
+  const [correctingTable, setCorrectingTable] = useState<FeatureTable | null>(null);
+  const { canEdit } = useProjectRole(projectId);
+  const { toast } = useToast();
+
+  // Imports, drift corrections and annotation runs happen in the background, so poll while any
+  // table is still pending or being annotated
+  const { data: tables, isLoading } = useQuery<FeatureTable[]>({
+    queryKey: ['/api/projects', projectId, 'feature-tables'],
+    queryFn: () => fetch(`/api/projects/${projectId}/feature-tables`).then(res => res.json()),
+    refetchInterval: query => query.state.data?.some(table =>
+      table.status === "pending" || table.annotationStatus === "running") ? 2000 : false,
+  });
+
+  // Finishing an import may update the experiment's QC summary
+  const pendingIds = useRef<Set<number>>(new Set());
+  useEffect(() => {
+    const pending = new Set((tables || []).filter(table => table.status === "pending").map(table => table.id));
+    if (Array.from(pendingIds.current).some(id => !pending.has(id))) {
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments/project', projectId] });
+    }
+    pendingIds.current = pending;
+  }, [tables, projectId]);
+
+  // Reload the features and annotations of tables whose annotation run finished
+  const annotatingIds = useRef<Set<number>>(new Set());
+  useEffect(() => {
+    const running = new Set((tables || []).filter(table => table.annotationStatus === "running").map(table => table.id));
+    Array.from(annotatingIds.current).filter(id => !running.has(id)).forEach(id => {
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith(`/api/feature-tables/${id}`),
+      });
+    });
+    annotatingIds.current = running;
+  }, [tables]);
+
+  const experimentName = (experimentId: number) =>
+    experiments.find(experiment => experiment.id === experimentId)?.name ?? `#${experimentId}`;
+
+  // The raw table may have been deleted since; its name is kept with the correction
+  const sourceTableName = (table: FeatureTable) =>
+    tables?.find(source => source.id === table.derivedFromTableId)?.name ?? table.driftCorrection?.sourceTableName;
+
+  const handleDelete = async (table: FeatureTable) => {
+    try {
+      await apiRequest('DELETE', `/api/feature-tables/${table.id}`, undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'feature-tables'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'analyses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments/project', projectId] });
+      if (selectedTableId === table.id) setSelectedTableId(null);
+      setDeletingTable(null);
+    } catch (error) {
+      toast({
+        title: "Failed to delete feature table",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-8 w-full" />
+      </div>
+    );
+  }
+
+  const selectedTable = tables?.find(table => table.id === selectedTableId && table.status === "parsed");
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Experiment</TableHead>
+              <TableHead>Format</TableHead>
+              <TableHead className="text-right">Features</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Annotation</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Imported</TableHead>
+              <TableHead className="w-36"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tables && tables.length > 0 ? (
+              tables.map(table => (
+                <TableRow key={table.id} className={table.id === selectedTableId ? "bg-blue-50" : ""}>
+                  <TableCell>
+                    <span className="font-medium">{table.name}</span>
+                    {table.derivedFromTableId !== null && (
+                      <p className="text-xs text-gray-500">Drift-corrected from {sourceTableName(table)}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{experimentName(table.experimentId)}</TableCell>
+                  <TableCell className="text-sm">{FEATURE_TABLE_FORMAT_LABELS[table.format]}</TableCell>
+                  <TableCell className="text-sm text-right">{table.status === "parsed" ? table.featureCount : ""}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`capitalize ${STATUS_STYLES[table.status]}`} title={table.error ?? undefined}>
+                      {table.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600 whitespace-nowrap">
+                    {table.annotationStatus === "running" ? (
+                      <span><i className="fas fa-spinner fa-spin mr-1"></i> Running</span>
+                    ) : table.annotationStatus === "failed" ? (
+                      <span className="text-red-600" title={table.annotationError ?? undefined}>Failed</span>
+                    ) : table.annotatedAt ? (
+                      formatDistanceToNow(new Date(table.annotatedAt), { addSuffix: true })
+                    ) : (
+                      <span className="text-gray-400">Not annotated</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm font-mono">{table.sourceFileName}</TableCell>
+                  <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                    {formatDistanceToNow(new Date(table.createdAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={table.status !== "parsed"}
+                        onClick={() => setSelectedTableId(table.id === selectedTableId ? null : table.id)}
+                        title="View features"
+                      >
+                        <i className="fas fa-eye"></i>
+                      </Button>
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={table.status !== "parsed" || table.annotationStatus === "running"}
+                          onClick={() => setAnnotatingTable(table)}
+                          title="Annotate with compounds"
+                        >
+                          <i className="fas fa-tags"></i>
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={table.status !== "parsed" || table.derivedFromTableId !== null}
+                          onClick={() => setCorrectingTable(table)}
+                          title="Correct signal drift"
+                        >
+                          <i className="fas fa-chart-line"></i>
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-600"
+                          onClick={() => setDeletingTable(table)}
+                          title="Delete"
+                        >
+                          <i className="fas fa-trash-alt"></i>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-gray-500 py-8">
+                  No feature tables yet. Attach an MZmine, XCMS or MS-DIAL export to a note and import it from there.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {tables?.some(table => table.status === "failed" || table.annotationStatus === "failed") && (
+        <div className="text-xs text-red-600 space-y-1">
+          {tables.filter(table => table.status === "failed").map(table => (
+            <p key={table.id}><span className="font-medium">{table.name}:</span> {table.error}</p>
+          ))}
+          {tables.filter(table => table.annotationStatus === "failed").map(table => (
+            <p key={`annotation-${table.id}`}>
+              <span className="font-medium">{table.name} annotation:</span> {table.annotationError}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {selectedTable && (
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-3">{selectedTable.name}</h3>
+          {selectedTable.driftCorrection && (
+            <div className="mb-3">
+              <DriftCorrectionReport correction={selectedTable.driftCorrection} />
+            </div>
+          )}
+          <FeatureTableViewer key={selectedTable.id} tableId={selectedTable.id} projectId={projectId} />
+        </div>
+      )}
+
+      {annotatingTable && (
+        <AnnotateFeatureTableDialog
+          table={annotatingTable}
+          projectId={projectId}
+          isOpen={true}
+          onClose={() => setAnnotatingTable(null)}
+        />
+      )}
+
+      {correctingTable && (
+        <DriftCorrectionDialog
+          table={correctingTable}
+          projectId={projectId}
+          isOpen={true}
+          onClose={() => setCorrectingTable(null)}
+        />
+      )}
+
+      {deletingTable && (
+        <Dialog open={true} onOpenChange={open => !open && setDeletingTable(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Delete Feature Table</DialogTitle>
+              <DialogDescription>
+                Delete {deletingTable.name}, its {deletingTable.featureCount} features, its compound annotations and the statistical
+                analyses run on it?
+                The source file stays attached to its note
+                {tables?.some(table => table.derivedFromTableId === deletingTable.id) && ", and drift-corrected versions of the table are kept"}.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDeletingTable(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={() => handleDelete(deletingTable)}>
+                Delete
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useRef, useState } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { Feature, FeaturePage, FeatureQuery, FeatureRow, FeatureTableWithColumns, Sample } from "@shared/schema";
+import { useProjectRole } from "@/hooks/use-project-role";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import FeatureIntensityChart from "./FeatureIntensityChart";
+import FeatureAnnotations from "./FeatureAnnotations";
+
+// Rows are fetched a page at a time and only the rows in view are rendered,
+// so tables with tens of thousands of features scroll smoothly
+const PAGE_SIZE = 100;
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 400;
+const OVERSCAN_ROWS = 10;
+
+type SortField = FeatureQuery["sort"];
+type AnnotationFilter = NonNullable<FeatureQuery["annotation"]> | "all";
+
+const COLUMNS: { field: SortField | null; label: string; className: string }[] = [
+  { field: "position", label: "#", className: "w-16 text-right" },
+  { field: null, label: "ID", className: "w-32" },
+  { field: "mz", label: "m/z", className: "w-28 text-right" },
+  { field: "rt", label: "RT (min)", className: "w-24 text-right" },
+  { field: "name", label: "Name", className: "flex-1 min-w-0" },
+  { field: null, label: "Adduct", className: "w-28" },
+  { field: null, label: "Annotation", className: "w-48" },
+];
+
+interface FeatureTableViewerProps {
+  tableId: number;
+  projectId: number;
+}
+
+export default function FeatureTableViewer({ tableId, projectId }: FeatureTableViewerProps) {
+  const [search, setSearch] = useState("");
+  const [mzMin, setMzMin] = useState("");
+  const [mzMax, setMzMax] = useState("");
+  const [rtMin, setRtMin] = useState("");
+  const [rtMax, setRtMax] = useState("");
+  const [annotation, setAnnotation] = useState<AnnotationFilter>("all");
+  const [sort, setSort] = useState<SortField>("position");
+  const [order, setOrder] = useState<"asc" | "desc">("asc");
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selectedFeatureId, setSelectedFeatureId] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { canEdit } = useProjectRole(projectId);
+
+  const { data: table } = useQuery<FeatureTableWithColumns>({
+    queryKey: [`/api/feature-tables/${tableId}`],
+  });
+
+  const { data: samples } = useQuery<Sample[]>({
+    queryKey: ['/api/projects', projectId, 'samples'],
+    queryFn: () => fetch(`/api/projects/${projectId}/samples`).then(res => res.json()),
+  });
+
+  const { data: selectedFeature } = useQuery<Feature>({
+    queryKey: [`/api/features/${selectedFeatureId}`],
+    enabled: selectedFeatureId !== null,
+  });
+
+  const filters = new URLSearchParams({ sort, order });
+  if (search.trim()) filters.set("search", search.trim());
+  if (annotation !== "all") filters.set("annotation", annotation);
+  for (const [key, value] of Object.entries({ mzMin, mzMax, rtMin, rtMax })) {
+    if (value.trim() !== "" && !Number.isNaN(Number(value))) filters.set(key, value.trim());
+  }
+
+  const pageUrl = (page: number) => {
+    const params = new URLSearchParams(filters);
+    params.set("offset", String(page * PAGE_SIZE));
+    params.set("limit", String(PAGE_SIZE));
+    return `/api/feature-tables/${tableId}/features?${params}`;
+  };
+
+  // The first page is always loaded as it carries the total row count
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.floor((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS;
+  const pages = [0];
+  for (let page = Math.floor(firstRow / PAGE_SIZE); page <= Math.floor(lastRow / PAGE_SIZE); page++) {
+    if (page > 0) pages.push(page);
+  }
+
+  const pageResults = useQueries({
+    queries: pages.map(page => ({
+      queryKey: [pageUrl(page)],
+    })),
+  }) as { data?: FeaturePage; isLoading: boolean }[];
+
+  const total = pageResults[0]?.data?.total ?? 0;
+  const rows = new Map<number, FeatureRow>();
+  pages.forEach((page, index) => {
+    pageResults[index]?.data?.features.forEach((feature, offset) => rows.set(page * PAGE_SIZE + offset, feature));
+  });
+
+  const resetScroll = () => {
+    setScrollTop(0);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  };
+
+  const withReset = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    resetScroll();
+  };
+
+  const toggleSort = (field: SortField) => {
+    if (sort === field) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder("asc");
+    }
+    resetScroll();
+  };
+
+  const visibleRows: number[] = [];
+  for (let row = firstRow; row <= Math.min(lastRow, total - 1); row++) visibleRows.push(row);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Input
+          placeholder="Search ID or name..."
+          value={search}
+          onChange={e => withReset(setSearch)(e.target.value)}
+          className="w-56"
+        />
+        <div className="flex items-center gap-1 text-sm text-gray-600">
+          <span>m/z</span>
+          <Input type="number" step="any" placeholder="min" value={mzMin} onChange={e => withReset(setMzMin)(e.target.value)} className="w-24" />
+          <span>–</span>
+          <Input type="number" step="any" placeholder="max" value={mzMax} onChange={e => withReset(setMzMax)(e.target.value)} className="w-24" />
+        </div>
+        <div className="flex items-center gap-1 text-sm text-gray-600">
+          <span>RT</span>
+          <Input type="number" step="any" placeholder="min" value={rtMin} onChange={e => withReset(setRtMin)(e.target.value)} className="w-20" />
+          <span>–</span>
+          <Input type="number" step="any" placeholder="max" value={rtMax} onChange={e => withReset(setRtMax)(e.target.value)} className="w-20" />
+          <span>min</span>
+        </div>
+        <Select value={annotation} onValueChange={withReset(value => setAnnotation(value as AnnotationFilter))}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All features</SelectItem>
+            <SelectItem value="accepted">Annotated</SelectItem>
+            <SelectItem value="candidates">Awaiting review</SelectItem>
+            <SelectItem value="unannotated">Not annotated</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-md text-sm">
+        <div className="flex border-b border-gray-200 bg-gray-50 font-medium text-gray-600" style={{ height: ROW_HEIGHT }}>
+          {COLUMNS.map(column => (
+            <div key={column.label} className={`${column.className} px-2 flex items-center ${column.className.includes("text-right") ? "justify-end" : ""}`}>
+              {column.field ? (
+                <button type="button" className="hover:text-gray-900" onClick={() => toggleSort(column.field!)}>
+                  {column.label}
+                  {sort === column.field && <i className={`fas fa-sort-${order === "asc" ? "up" : "down"} ml-1`}></i>}
+                </button>
+              ) : column.label}
+            </div>
+          ))}
+        </div>
+        <div
+          ref={scrollRef}
+          className="overflow-y-auto relative"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          {pageResults[0]?.isLoading ? (
+            <div className="p-2 space-y-2">
+              <Skeleton className="h-6 w-full" />
+              <Skeleton className="h-6 w-full" />
+              <Skeleton className="h-6 w-full" />
+            </div>
+          ) : total === 0 ? (
+            <div className="text-center text-gray-500 py-8">No features match your filters</div>
+          ) : (
+            <div style={{ height: total * ROW_HEIGHT }}>
+              {visibleRows.map(row => {
+                const feature = rows.get(row);
+                return (
+                  <div
+                    key={row}
+                    className={`absolute left-0 right-0 flex border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                      feature && feature.id === selectedFeatureId ? "bg-blue-50" : ""
+                    }`}
+                    style={{ top: row * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    onClick={() => feature && setSelectedFeatureId(feature.id)}
+                  >
+                    {feature ? (
+                      <>
+                        <div className="w-16 px-2 flex items-center justify-end text-gray-400">{feature.position + 1}</div>
+                        <div className="w-32 px-2 flex items-center font-mono truncate">{feature.featureKey}</div>
+                        <div className="w-28 px-2 flex items-center justify-end font-mono">{feature.mz.toFixed(4)}</div>
+                        <div className="w-24 px-2 flex items-center justify-end font-mono">{feature.rt?.toFixed(2) ?? ""}</div>
+                        <div className="flex-1 min-w-0 px-2 flex items-center truncate">{feature.name}</div>
+                        <div className="w-28 px-2 flex items-center truncate">{feature.adduct}</div>
+                        <div className="w-48 px-2 flex items-center truncate">
+                          {feature.annotation ? (
+                            <span className="text-green-700 truncate" title={feature.annotation}>
+                              <i className="fas fa-check-circle mr-1"></i>{feature.annotation}
+                            </span>
+                          ) : feature.candidateCount > 0 ? (
+                            <span className="text-gray-500">
+                              {feature.candidateCount} {feature.candidateCount === 1 ? "candidate" : "candidates"}
+                            </span>
+                          ) : null}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="flex-1 px-2 flex items-center">
+                        <Skeleton className="h-4 w-full" />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">{total} features</p>
+
+      {selectedFeature && table && (
+        <div className="bg-white border border-gray-200 rounded-md p-3">
+          <div className="text-sm text-gray-600 mb-2">
+            <span className="font-medium text-gray-800">{selectedFeature.name || selectedFeature.featureKey}</span>
+            <span className="mx-1">•</span>
+            m/z {selectedFeature.mz.toFixed(4)}
+            {selectedFeature.rt !== null && <> <span className="mx-1">•</span> RT {selectedFeature.rt.toFixed(2)} min</>}
+            {selectedFeature.adduct && <> <span className="mx-1">•</span> {selectedFeature.adduct}</>}
+          </div>
+          <FeatureIntensityChart feature={selectedFeature} columns={table.columns} samples={samples || []} />
+          <h4 className="text-sm font-medium text-gray-800 mt-4 mb-2">Compound Annotations</h4>
+          <FeatureAnnotations tableId={tableId} featureId={selectedFeature.id} canEdit={canEdit} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FeatureTableLayoutPreview, Sample } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FEATURE_TABLE_FORMAT_LABELS } from "./feature-table-labels";
+
+const NONE = "none";
+
+type ColumnMapping = FeatureTableLayoutPreview["columns"][number];
+
+interface ImportFeatureTableDialogProps {
+  attachmentId: number;
+  fileName: string;
+  experimentId: number;
+  projectId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Imports a CSV attachment as a feature table. The server detects the layout
+// and suggests which sample or raw data file each intensity column belongs
+// to; the user reviews the mapping before the features are read.
+export default function ImportFeatureTableDialog({
+  attachmentId,
+  fileName,
+  experimentId,
+  projectId,
+  isOpen,
+  onClose
+}: ImportFeatureTableDialogProps) {
+  const [name, setName] = useState(fileName.replace(/\.[^.]+$/, ""));
+  const [columns, setColumns] = useState<ColumnMapping[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: layout, isLoading, error } = useQuery<FeatureTableLayoutPreview>({
+    queryKey: [`/api/attachments/${attachmentId}/feature-table-layout`],
+  });
+
+  const { data: samples } = useQuery<Sample[]>({
+    queryKey: ['/api/projects', projectId, 'samples'],
+    queryFn: () => fetch(`/api/projects/${projectId}/samples`).then(res => res.json()),
+  });
+
+  useEffect(() => {
+    if (layout) setColumns(layout.columns);
+  }, [layout]);
+
+  const updateColumn = (index: number, changes: Partial<ColumnMapping>) => {
+    setColumns(columns.map((column, i) => i === index ? { ...column, ...changes } : column));
+  };
+
+  const selectedColumns = columns.filter(column => column.selected);
+  const allSelected = columns.length > 0 && selectedColumns.length === columns.length;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', `/api/experiments/${experimentId}/feature-tables`, {
+        attachmentId,
+        name,
+        columns: selectedColumns.map(({ columnName, sampleId, attachmentId }) => ({ columnName, sampleId, attachmentId })),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'feature-tables'] });
+      toast({
+        title: "Importing feature table",
+        description: `${name} will appear under Feature Tables once its features have been read`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Failed to import feature table",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const idOrNone = (value: string) => value === NONE ? null : parseInt(value);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Feature Table</DialogTitle>
+          <DialogDescription>
+            Map the intensity columns of {fileName} to registered samples or raw data files.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : error || !layout ? (
+          <p className="text-sm text-red-600">{error ? getApiErrorMessage(error) : "Could not read the file"}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="feature-table-name">Name</Label>
+              <Input id="feature-table-name" value={name} onChange={e => setName(e.target.value)} />
+            </div>
+
+            <div className="text-sm text-gray-600 space-y-0.5">
+              <p>
+                Detected layout: <span className="font-medium text-gray-800">{FEATURE_TABLE_FORMAT_LABELS[layout.format]}</span>
+              </p>
+              <p>
+                m/z from <span className="font-mono">{layout.mzColumn}</span>
+                {layout.rtColumn && <>, retention time from <span className="font-mono">{layout.rtColumn}</span> ({layout.rtUnit === "s" ? "seconds" : "minutes"})</>}
+                {layout.idColumn && <>, IDs from <span className="font-mono">{layout.idColumn}</span></>}
+                {layout.nameColumn && <>, names from <span className="font-mono">{layout.nameColumn}</span></>}
+                {layout.adductColumn && <>, adducts from <span className="font-mono">{layout.adductColumn}</span></>}
+              </p>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border rounded">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={checked => setColumns(columns.map(column => ({ ...column, selected: !!checked })))}
+                        aria-label="Select all columns"
+                      />
+                    </TableHead>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead>Raw data file</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {columns.map((column, index) => (
+                    <TableRow key={column.columnName}>
+                      <TableCell>
+                        <Checkbox
+                          checked={column.selected}
+                          onCheckedChange={checked => updateColumn(index, { selected: !!checked })}
+                          aria-label={`Import ${column.columnName}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm font-mono break-all">{column.columnName}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={column.sampleId?.toString() ?? NONE}
+                          onValueChange={value => updateColumn(index, { sampleId: idOrNone(value) })}
+                          disabled={!column.selected}
+                        >
+                          <SelectTrigger className="w-40 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>Not mapped</SelectItem>
+                            {(samples || []).map(sample => (
+                              <SelectItem key={sample.id} value={sample.id.toString()}>{sample.sampleCode}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={column.attachmentId?.toString() ?? NONE}
+                          onValueChange={value => updateColumn(index, { attachmentId: idOrNone(value) })}
+                          disabled={!column.selected}
+                        >
+                          <SelectTrigger className="w-48 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>Not mapped</SelectItem>
+                            {layout.attachments.map(attachment => (
+                              <SelectItem key={attachment.id} value={attachment.id.toString()}>{attachment.fileName}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-gray-500">
+              {selectedColumns.length} of {columns.length} sample columns selected
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!layout || selectedColumns.length === 0 || !name.trim() || isSubmitting}
+            onClick={handleSubmit}
+          >
+            {isSubmitting ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { FeatureAnnotationStatus, FeatureTableFormat, MsiLevel } from "@shared/schema";
+
+export const FEATURE_TABLE_FORMAT_LABELS: Record<FeatureTableFormat, string> = {
+  mzmine: "MZmine",
+  xcms: "XCMS",
+  msdial: "MS-DIAL",
+  generic: "Generic CSV",
+  mwtab: "mwTab",
+};
+
+export const MSI_LEVEL_LABELS: Record<MsiLevel, string> = {
+  1: "Identified (accurate mass and RT of a standard)",
+  2: "Putatively annotated",
+  3: "Putatively characterized (accurate mass only)",
+  4: "Unknown",
+};
+
+export const MSI_LEVEL_STYLES: Record<MsiLevel, string> = {
+  1: "bg-green-100 text-green-800 border-green-200",
+  2: "bg-blue-100 text-blue-800 border-blue-200",
+  3: "bg-amber-100 text-amber-800 border-amber-200",
+  4: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+export const ANNOTATION_STATUS_STYLES: Record<FeatureAnnotationStatus, string> = {
+  candidate: "bg-gray-100 text-gray-700 border-gray-200",
+  accepted: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+};
@@ -3,6 +3,15 @@ import { useLocation } from "wouter";
 import { Input } from "@/components/ui/input";
 import { AvatarWithFallback } from "@/components/ui/avatar-with-fallback";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useAuth, useCurrentUser } from "@/hooks/use-auth";
 import logoImage from "../../assets/logo.png";
 
 interface HeaderProps {
@@ -12,6 +21,8 @@ interface HeaderProps {
 export default function Header({ onToggleSidebar }: HeaderProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [_, navigate] = useLocation();
+  const currentUser = useCurrentUser();
+  const { logoutMutation } = useAuth();
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -51,10 +62,27 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
         </Button>
         <div className="hidden md:block border-l border-gray-300 h-6 mx-2"></div>
         <div className="hidden md:flex items-center">
-          <AvatarWithFallback 
-            name="Dr. Sarah Chen" 
-            className="h-8 w-8 border border-gray-300" 
-          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" className="rounded-full">
+                <AvatarWithFallback 
+                  name={currentUser.displayName} 
+                  src={currentUser.avatarUrl || undefined}
+                  className="h-8 w-8 border border-gray-300" 
+                />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>
+                <p className="text-sm font-medium">{currentUser.displayName}</p>
+                <p className="text-xs text-gray-500 font-normal">{currentUser.username}</p>
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => logoutMutation.mutate()}>
+                <i className="fas fa-sign-out-alt mr-2"></i> Sign Out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
         <Button 
           variant="ghost" 
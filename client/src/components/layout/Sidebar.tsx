@@ -13,8 +13,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertProjectSchema } from "@shared/schema";
+import { insertProjectSchema, Note } from "@shared/schema";
 import { z } from "zod";
+import { useAuth, useCurrentUser } from "@/hooks/use-auth";
 
 interface SidebarProps {
   isMobileOpen: boolean;
@@ -30,19 +31,20 @@ export default function Sidebar({ isMobileOpen, onClose }: SidebarProps) {
   const [location] = useLocation();
   const [isCreateProjectOpen, setIsCreateProjectOpen] = useState(false);
   
-  // Hardcoded current user for demo purposes
-  const currentUser = {
-    id: 1,
-    username: "sarah.chen",
-    displayName: "Dr. Sarah Chen",
-    role: "Principal Investigator"
-  };
+  const currentUser = useCurrentUser();
+  const { logoutMutation } = useAuth();
 
   const { data: projects, isLoading: projectsLoading } = useQuery({
     queryKey: ['/api/projects/user', currentUser.id],
     queryFn: () => fetch(`/api/projects/user/${currentUser.id}`).then(res => res.json()),
   });
 
+  // Entries waiting for the current user's review, shown as a count in the nav
+  const { data: pendingReviews } = useQuery<Note[]>({
+    queryKey: ['/api/reviews', 'submitted'],
+    queryFn: () => fetch('/api/reviews?status=submitted').then(res => res.json()),
+  });
+
   const form = useForm<ProjectFormData>({
     resolver: zodResolver(extendedProjectSchema),
     defaultValues: {
@@ -116,6 +118,44 @@ export default function Sidebar({ isMobileOpen, onClose }: SidebarProps) {
                   Search
                 </Link>
               </li>
+              <li>
+                <Link href="/reviews" className={cn(
+                  "flex items-center px-2 py-2 text-sm rounded-md",
+                  location === "/reviews" 
+                    ? "text-primary bg-blue-50 font-medium" 
+                    : "text-gray-700 hover:bg-gray-100"
+                )}>
+                  <i className="fas fa-clipboard-check w-5 mr-2"></i>
+                  <span className="flex-1">Review Queue</span>
+                  {pendingReviews && pendingReviews.length > 0 && (
+                    <span className="ml-2 rounded-full bg-primary text-white text-xs px-2 py-0.5">
+                      {pendingReviews.length}
+                    </span>
+                  )}
+                </Link>
+              </li>
+              <li>
+                <Link href="/tools/mass-calculator" className={cn(
+                  "flex items-center px-2 py-2 text-sm rounded-md",
+                  location === "/tools/mass-calculator" 
+                    ? "text-primary bg-blue-50 font-medium" 
+                    : "text-gray-700 hover:bg-gray-100"
+                )}>
+                  <i className="fas fa-calculator w-5 mr-2"></i>
+                  Mass Calculator
+                </Link>
+              </li>
+              <li>
+                <Link href="/compounds" className={cn(
+                  "flex items-center px-2 py-2 text-sm rounded-md",
+                  location.startsWith("/compounds") 
+                    ? "text-primary bg-blue-50 font-medium" 
+                    : "text-gray-700 hover:bg-gray-100"
+                )}>
+                  <i className="fas fa-atom w-5 mr-2"></i>
+                  Compounds
+                </Link>
+              </li>
             </ul>
           </div>
 
@@ -167,12 +207,23 @@ export default function Sidebar({ isMobileOpen, onClose }: SidebarProps) {
           <div className="flex items-center">
             <AvatarWithFallback 
               name={currentUser.displayName} 
+              src={currentUser.avatarUrl || undefined}
               className="h-8 w-8 border border-gray-300" 
             />
-            <div className="ml-2">
-              <p className="text-sm font-medium">{currentUser.displayName}</p>
+            <div className="ml-2 flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{currentUser.displayName}</p>
               <p className="text-xs text-gray-500">{currentUser.role}</p>
             </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-gray-500 hover:text-gray-700"
+              title="Sign out"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <i className="fas fa-sign-out-alt"></i>
+            </Button>
           </div>
         </div>
       </aside>
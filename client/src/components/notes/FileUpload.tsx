@@ -1,17 +1,90 @@
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ResumableUpload, UploadProgress, UploadStatus } from "@/lib/resumable-upload";
 
 interface FileUploadProps {
   onFilesSelected: (files: File[]) => void;
+  // Uploads in progress, shown with their progress and pause/resume/cancel controls
+  uploads?: ResumableUpload[];
   maxFiles?: number;
+  // No limit when unset; large files are uploaded in resumable chunks
   maxSizeMB?: number;
   accept?: string;
 }
 
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  pending: "Waiting",
+  uploading: "Uploading",
+  paused: "Paused",
+  verifying: "Verifying checksum",
+  done: "Uploaded",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+};
+
+function UploadProgressRow({ upload }: { upload: ResumableUpload }) {
+  const [progress, setProgress] = useState<UploadProgress>(upload.getProgress());
+
+  useEffect(() => upload.subscribe(setProgress), [upload]);
+
+  const percent = progress.totalBytes > 0
+    ? Math.round((progress.bytesUploaded / progress.totalBytes) * 100)
+    : 100;
+  const canPause = progress.status === "uploading" || progress.status === "pending";
+  const canResume = progress.status === "paused" || progress.status === "error";
+  const canCancel = progress.status !== "done" && progress.status !== "cancelled";
+
+  return (
+    <div className="border border-gray-200 rounded-md px-3 py-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-700 truncate mr-2">{upload.file.name}</span>
+        <div className="flex items-center shrink-0">
+          {canPause && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => upload.pause()} title="Pause">
+              <i className="fas fa-pause"></i>
+            </Button>
+          )}
+          {canResume && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => upload.resume()} title="Resume">
+              <i className="fas fa-play"></i>
+            </Button>
+          )}
+          {canCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => upload.cancel()} title="Cancel">
+              <i className="fas fa-times"></i>
+            </Button>
+          )}
+          {progress.status === "done" && (
+            <i className="fas fa-check text-green-500 px-3"></i>
+          )}
+        </div>
+      </div>
+      <Progress value={percent} className="h-2 my-1" />
+      <div className="flex justify-between text-xs text-gray-500">
+        <span className={progress.status === "error" ? "text-red-500" : undefined}>
+          {STATUS_LABELS[progress.status]}{progress.error ? `: ${progress.error}` : ""}
+        </span>
+        <span>
+          {formatBytes(progress.bytesUploaded)} of {formatBytes(progress.totalBytes)} ({percent}%)
+        </span>
+      </div>
+    </div>
+  );
+}
+
 export default function FileUpload({ 
   onFilesSelected, 
+  uploads = [],
   maxFiles = 5, 
-  maxSizeMB = 5, 
+  maxSizeMB, 
   accept = "*"
 }: FileUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -35,12 +108,14 @@ export default function FileUpload({
     }
     
     // Check file sizes
-    const maxSizeBytes = maxSizeMB * 1024 * 1024;
-    const oversizedFiles = files.filter(file => file.size > maxSizeBytes);
-    
-    if (oversizedFiles.length > 0) {
-      setErrorMessage(`Some files exceed the maximum size of ${maxSizeMB}MB.`);
-      return;
+    if (maxSizeMB !== undefined) {
+      const maxSizeBytes = maxSizeMB * 1024 * 1024;
+      const oversizedFiles = files.filter(file => file.size > maxSizeBytes);
+      
+      if (oversizedFiles.length > 0) {
+        setErrorMessage(`Some files exceed the maximum size of ${maxSizeMB}MB.`);
+        return;
+      }
     }
     
     onFilesSelected(files);
@@ -102,7 +177,7 @@ export default function FileUpload({
           <div className="text-sm text-gray-600">
             <span className="font-medium">Click to upload</span> or drag and drop
             <p className="text-xs text-gray-500 mt-1">
-              Max {maxFiles} files, up to {maxSizeMB}MB each
+              Max {maxFiles} files{maxSizeMB !== undefined ? `, up to ${maxSizeMB}MB each` : ""}
             </p>
           </div>
         </div>
@@ -111,6 +186,14 @@ export default function FileUpload({
       {errorMessage && (
         <p className="text-sm text-red-500 mt-2">{errorMessage}</p>
       )}
+      
+      {uploads.length > 0 && (
+        <div className="space-y-2 mt-3">
+          {uploads.map((upload, index) => (
+            <UploadProgressRow key={index} upload={upload} />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { MsRunSummary, Spectrum, TicPoint } from "@shared/schema";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import SpectrumChart from "./SpectrumChart";
+
+const chartConfig = {
+  intensity: { label: "TIC", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface MsRunPreviewProps {
+  attachmentId: number;
+  fileName: string;
+}
+
+const formatRt = (seconds: number) => `${(seconds / 60).toFixed(2)} min`;
+
+// Run metadata and total-ion chromatogram of an mzML/mzXML attachment.
+// Clicking a point of the chromatogram opens that scan's spectrum.
+export default function MsRunPreview({ attachmentId, fileName }: MsRunPreviewProps) {
+  const [selectedScan, setSelectedScan] = useState<TicPoint | null>(null);
+
+  // The server parses runs in the background, so poll until it has finished
+  const { data: msRun, isLoading } = useQuery<MsRunSummary>({
+    queryKey: [`/api/attachments/${attachmentId}/ms-run`],
+    refetchInterval: query => query.state.data?.status === "pending" ? 2000 : false,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (!msRun) return null;
+
+  if (msRun.status === "pending") {
+    return (
+      <div className="text-xs text-gray-500">
+        <i className="fas fa-spinner fa-spin mr-1"></i> Reading {fileName}...
+      </div>
+    );
+  }
+
+  if (msRun.status === "failed") {
+    return (
+      <div className="text-xs text-red-600">
+        <i className="fas fa-exclamation-triangle mr-1"></i> Could not read {fileName}: {msRun.error}
+      </div>
+    );
+  }
+
+  const details = [
+    msRun.instrumentModel,
+    msRun.acquisitionDate,
+    `${msRun.scanCount} scans`,
+    msRun.msLevels?.length ? `MS${msRun.msLevels.join("/")}` : null,
+    msRun.polarity,
+    msRun.rtMin !== null && msRun.rtMax !== null ? `RT ${formatRt(msRun.rtMin)}–${formatRt(msRun.rtMax)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded p-2">
+      <div className="text-xs text-gray-600 mb-1">
+        <i className="fas fa-chart-area text-purple-500 mr-1"></i>
+        <span className="font-medium text-gray-800">{fileName}</span>
+        <span className="mx-1">•</span>
+        <span className="capitalize">{details.join(" • ")}</span>
+      </div>
+      <ChartContainer config={chartConfig} className="h-40 w-full">
+        <LineChart
+          data={msRun.tic || []}
+          margin={{ top: 8, right: 8, bottom: 0, left: 8 }}
+          onClick={state => {
+            const point = state?.activePayload?.[0]?.payload as TicPoint | undefined;
+            if (point) setSelectedScan(point);
+          }}
+          className="cursor-pointer"
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="rt"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(value: number) => (value / 60).toFixed(1)}
+          />
+          <YAxis tickFormatter={(value: number) => value.toExponential(1)} width={56} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const point = payload[0]?.payload as TicPoint | undefined;
+                  return point ? `Scan ${point.index} • ${formatRt(point.rt)}` : "";
+                }}
+              />
+            }
+          />
+          <Line dataKey="intensity" stroke="var(--color-intensity)" dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+
+      {selectedScan && (
+        <ScanSpectrumDialog
+          attachmentId={attachmentId}
+          scan={selectedScan}
+          onClose={() => setSelectedScan(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ScanSpectrumDialogProps {
+  attachmentId: number;
+  scan: TicPoint;
+  onClose: () => void;
+}
+
+function ScanSpectrumDialog({ attachmentId, scan, onClose }: ScanSpectrumDialogProps) {
+  const { data: spectrum, isLoading, error } = useQuery<Spectrum>({
+    queryKey: [`/api/attachments/${attachmentId}/spectra/${scan.index}`],
+  });
+
+  return (
+    <Dialog open={true} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Scan {scan.index}</DialogTitle>
+          <DialogDescription>
+            {spectrum?.id ?? ""} RT {formatRt(scan.rt)}
+            {spectrum && ` • MS${spectrum.msLevel ?? "?"}`}
+            {spectrum?.precursorMz != null && ` • precursor m/z ${spectrum.precursorMz.toFixed(4)}`}
+            {spectrum?.polarity && ` • ${spectrum.polarity}`}
+            {spectrum && ` • ${spectrum.mz.length} peaks`}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : error || !spectrum ? (
+          <p className="text-sm text-red-600">Could not load this spectrum.</p>
+        ) : (
+          <SpectrumChart peaks={spectrum} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
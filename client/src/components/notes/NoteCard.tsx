@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Note } from "@shared/schema";
+import { Note, NoteSignatureWithStatus, PublicUser } from "@shared/schema";
 import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -10,6 +10,7 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -20,14 +21,41 @@ import {
   DialogTitle, 
   DialogFooter 
 } from "@/components/ui/dialog";
+import { useProjectRole } from "@/hooks/use-project-role";
+import NoteHistory from "./NoteHistory";
+import SignNoteDialog from "./SignNoteDialog";
+import SubmitForReviewDialog from "./SubmitForReviewDialog";
+import ReviewNoteDialog from "./ReviewNoteDialog";
+import MsRunPreview from "./MsRunPreview";
+import NoteCompounds from "./NoteCompounds";
+import SpectralLibraryDialog from "./SpectralLibraryDialog";
+import ImportFeatureTableDialog from "@/components/feature-tables/ImportFeatureTableDialog";
+import LinkCompoundDialog from "@/components/compounds/LinkCompoundDialog";
+import { useCurrentUser } from "@/hooks/use-auth";
+
+const STATUS_STYLES: Record<string, string> = {
+  submitted: "bg-purple-100 text-purple-800 border-purple-200",
+  returned: "bg-orange-100 text-orange-800 border-orange-200",
+  witnessed: "bg-green-100 text-green-800 border-green-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+};
 
 interface NoteCardProps {
   note: Note;
   onEdit: () => void;
+  onAmend: () => void;
 }
 
-export default function NoteCard({ note, onEdit }: NoteCardProps) {
+export default function NoteCard({ note, onEdit, onAmend }: NoteCardProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSignDialogOpen, setIsSignDialogOpen] = useState(false);
+  const [isSubmitDialogOpen, setIsSubmitDialogOpen] = useState(false);
+  const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
+  const [openLibrary, setOpenLibrary] = useState<{ id: number; fileName: string } | null>(null);
+  const [importingTable, setImportingTable] = useState<{ id: number; fileName: string } | null>(null);
+  const [isLinkCompoundOpen, setIsLinkCompoundOpen] = useState(false);
+  const currentUser = useCurrentUser();
 
   // Get experiment details
   const { data: experiment, isLoading: experimentLoading } = useQuery({
@@ -35,6 +63,42 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
     queryFn: () => fetch(`/api/experiments/${note.experimentId}`).then(res => res.json()),
   });
 
+  // Edit and delete are only offered to Editors and Owners, and only while the
+  // note is neither signed nor under review
+  const { canEdit } = useProjectRole(experiment?.projectId);
+  const isLocked = !!note.lockedAt;
+  const isReadOnly = isLocked || note.status === "submitted";
+  const canReview = note.status === "submitted" && note.reviewerId === currentUser.id;
+
+  const { data: reviewer } = useQuery<PublicUser>({
+    queryKey: ['/api/users', note.reviewerId],
+    queryFn: () => fetch(`/api/users/${note.reviewerId}`).then(res => res.json()),
+    enabled: note.reviewerId !== null,
+  });
+
+  // Signatures only exist once the author has signed, which locks the note
+  const { data: signatures } = useQuery<NoteSignatureWithStatus[]>({
+    queryKey: ['/api/notes', note.id, 'signatures'],
+    queryFn: () => fetch(`/api/notes/${note.id}/signatures`).then(res => res.json()),
+    enabled: isLocked,
+  });
+
+  // Only drafts the author has signed go to review; returned notes are
+  // answered with an amendment
+  const isAuthored = !!signatures?.some(signature => signature.meaning === "authored");
+  const canSubmitForReview = canEdit && note.authorId === currentUser.id && note.status === "draft" && isAuthored;
+
+  // Notes in the same experiment, to link amendments and the note they amend
+  const { data: experimentNotes } = useQuery<Note[]>({
+    queryKey: ['/api/notes/experiment', note.experimentId],
+    queryFn: () => fetch(`/api/notes/experiment/${note.experimentId}`).then(res => res.json()),
+  });
+
+  const amendedNote = note.amendsNoteId
+    ? experimentNotes?.find(experimentNote => experimentNote.id === note.amendsNoteId)
+    : undefined;
+  const amendments = experimentNotes?.filter(experimentNote => experimentNote.amendsNoteId === note.id) || [];
+
   // Get author details
   const { data: author, isLoading: authorLoading } = useQuery({
     queryKey: ['/api/users', note.authorId],
@@ -58,7 +122,17 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
     }
   };
 
-  const getFileIcon = (fileType: string) => {
+  // mzML and mzXML runs are parsed by the server and previewed with their TIC
+  const isMsRun = (fileName: string) => /\.(mzml|mzxml)$/i.test(fileName);
+  // MGF and MSP spectral libraries open in the spectrum viewer
+  const isSpectralLibrary = (fileName: string) => /\.(mgf|msp)$/i.test(fileName);
+  // Processed results (MZmine, XCMS, MS-DIAL exports) can be imported as feature tables
+  const canImportFeatureTable = (fileName: string) => canEdit && /\.(csv|tsv|txt)$/i.test(fileName);
+  const hasAttachmentAction = (fileName: string) => isSpectralLibrary(fileName) || canImportFeatureTable(fileName);
+
+  const getFileIcon = (fileType: string, fileName: string) => {
+    if (isMsRun(fileName)) return 'fa-chart-area text-purple-500';
+    if (isSpectralLibrary(fileName)) return 'fa-chart-bar text-purple-500';
     if (fileType.startsWith('image/')) return 'fa-image text-blue-500';
     if (fileType.includes('excel') || fileType.includes('spreadsheet')) return 'fa-file-excel text-green-500';
     if (fileType.includes('csv')) return 'fa-file-csv text-orange-500';
@@ -70,7 +144,8 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
   };
 
   const formatDate = (dateString: string) => {
@@ -96,7 +171,12 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
         {/* Note Header */}
         <CardHeader className="border-b border-gray-200 px-4 py-3 flex flex-row items-center justify-between space-y-0">
           <div>
-            <h3 className="text-md font-medium text-gray-800">{note.title}</h3>
+            <h3 className="text-md font-medium text-gray-800 flex items-center">
+              {isLocked && (
+                <i className="fas fa-lock text-amber-600 text-xs mr-2" title="Signed and locked"></i>
+              )}
+              {note.title}
+            </h3>
             <div className="text-xs text-gray-500 flex items-center mt-1 flex-wrap gap-1">
               {isLoading ? (
                 <>
@@ -115,6 +195,31 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
                   <span>{formatDate(note.createdAt)}</span>
                   <span className="mx-1">•</span>
                   <span>{author?.displayName || 'Unknown User'}</span>
+                  {note.status !== "draft" && (
+                    <>
+                      <span className="mx-1">•</span>
+                      <Badge variant="outline" className={`capitalize ${STATUS_STYLES[note.status] || ""}`}>
+                        {note.status}
+                        {reviewer && ` · ${reviewer.displayName}`}
+                      </Badge>
+                    </>
+                  )}
+                  {note.amendsNoteId && (
+                    <>
+                      <span className="mx-1">•</span>
+                      <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-200">
+                        Amends {amendedNote ? `"${amendedNote.title}"` : `note #${note.amendsNoteId}`}
+                      </Badge>
+                    </>
+                  )}
+                  {amendments.length > 0 && (
+                    <>
+                      <span className="mx-1">•</span>
+                      <span>
+                        {amendments.length} {amendments.length === 1 ? "amendment" : "amendments"}
+                      </span>
+                    </>
+                  )}
                 </>
               )}
             </div>
@@ -127,15 +232,53 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={onEdit}>
-                  <i className="fas fa-edit mr-2"></i> Edit
+                {canEdit && !isReadOnly && (
+                  <DropdownMenuItem onClick={onEdit}>
+                    <i className="fas fa-edit mr-2"></i> Edit
+                  </DropdownMenuItem>
+                )}
+                {canEdit && isLocked && (
+                  <DropdownMenuItem onClick={onAmend}>
+                    <i className="fas fa-file-signature mr-2"></i> Amend
+                  </DropdownMenuItem>
+                )}
+                {canSubmitForReview && (
+                  <DropdownMenuItem onClick={() => setIsSubmitDialogOpen(true)}>
+                    <i className="fas fa-paper-plane mr-2"></i> Submit for Review
+                  </DropdownMenuItem>
+                )}
+                {canReview && (
+                  <DropdownMenuItem onClick={() => setIsReviewDialogOpen(true)}>
+                    <i className="fas fa-clipboard-check mr-2"></i> Review
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => setIsSignDialogOpen(true)}>
+                  <i className="fas fa-signature mr-2"></i> Sign
+                </DropdownMenuItem>
+                {canEdit && !isReadOnly && (
+                  <DropdownMenuItem onClick={() => setIsLinkCompoundOpen(true)}>
+                    <i className="fas fa-atom mr-2"></i> Link Compound
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => setIsHistoryOpen(true)}>
+                  <i className="fas fa-history mr-2"></i> History
                 </DropdownMenuItem>
-                <DropdownMenuItem 
-                  onClick={() => setIsDeleteDialogOpen(true)}
-                  className="text-red-600"
-                >
-                  <i className="fas fa-trash-alt mr-2"></i> Delete
+                <DropdownMenuItem asChild>
+                  <a href={`/api/notes/${note.id}/export?format=html`} download>
+                    <i className="fas fa-file-export mr-2"></i> Export
+                  </a>
                 </DropdownMenuItem>
+                {canEdit && !isReadOnly && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() => setIsDeleteDialogOpen(true)}
+                      className="text-red-600"
+                    >
+                      <i className="fas fa-trash-alt mr-2"></i> Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -148,6 +291,42 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
           </div>
         </CardContent>
         
+        {/* Reviewer Comments */}
+        {note.status === "returned" && note.reviewComment && (
+          <div className="px-4 py-2 border-t border-orange-200 bg-orange-50 text-xs text-orange-900">
+            <span className="font-medium">
+              <i className="fas fa-comment-dots mr-1"></i>
+              Returned by {reviewer?.displayName || "the reviewer"}:
+            </span>{" "}
+            <span className="whitespace-pre-line">{note.reviewComment}</span>
+            {note.authorId === currentUser.id && amendments.length === 0 && (
+              <p className="mt-1">Address these comments in an amendment and submit it for review.</p>
+            )}
+          </div>
+        )}
+
+        {/* Linked Compounds */}
+        <NoteCompounds noteId={note.id} canEdit={canEdit && !isReadOnly} />
+
+        {/* Signature Manifest */}
+        {signatures && signatures.length > 0 && (
+          <div className="px-4 py-2 border-t border-gray-200 space-y-1">
+            {signatures.map(signature => (
+              <div key={signature.id} className="flex items-center text-xs text-gray-600">
+                <i className={`fas ${signature.contentMatches ? "fa-check-circle text-green-600" : "fa-exclamation-triangle text-red-600"} mr-2`}></i>
+                <span className="font-medium text-gray-800">{signature.signerName}</span>
+                <span className="mx-1">•</span>
+                <span className="capitalize">{signature.meaning}</span>
+                <span className="mx-1">•</span>
+                <span>{format(new Date(signature.signedAt), 'MMM d, yyyy HH:mm:ss')}</span>
+                {!signature.contentMatches && (
+                  <span className="ml-2 text-red-600">Content no longer matches the signed record</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Note Attachments */}
         {(attachments && attachments.length > 0) && (
           <CardFooter className="px-4 py-2 bg-gray-50 border-t border-gray-200 block">
@@ -156,25 +335,127 @@ export default function NoteCard({ note, onEdit }: NoteCardProps) {
                 <Skeleton className="h-6 w-32" />
               ) : (
                 attachments.map((attachment: any) => (
-                  <a
-                    key={attachment.id}
-                    href={`/api/attachments/${attachment.id}/download`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex items-center bg-white border border-gray-200 rounded px-2 py-1 text-xs hover:bg-gray-50"
-                  >
-                    <i className={`fas ${getFileIcon(attachment.fileType)} mr-1`}></i>
-                    <span className="text-gray-700">{attachment.fileName}</span>
-                    <span className="text-gray-400 mx-1">•</span>
-                    <span className="text-gray-500">{formatFileSize(attachment.fileSize)}</span>
-                  </a>
+                  <div key={attachment.id} className="flex items-center">
+                    <a
+                      href={`/api/attachments/${attachment.id}/download`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={`flex items-center bg-white border border-gray-200 px-2 py-1 text-xs hover:bg-gray-50 ${hasAttachmentAction(attachment.fileName) ? "rounded-l" : "rounded"}`}
+                    >
+                      <i className={`fas ${getFileIcon(attachment.fileType, attachment.fileName)} mr-1`}></i>
+                      <span className="text-gray-700">{attachment.fileName}</span>
+                      <span className="text-gray-400 mx-1">•</span>
+                      <span className="text-gray-500">{formatFileSize(attachment.fileSize)}</span>
+                      {attachment.sha256 && (
+                        <>
+                          <span className="text-gray-400 mx-1">•</span>
+                          <span className="font-mono text-gray-400" title={`SHA-256: ${attachment.sha256}`}>
+                            {attachment.sha256.slice(0, 12)}
+                          </span>
+                        </>
+                      )}
+                    </a>
+                    {isSpectralLibrary(attachment.fileName) && (
+                      <button
+                        type="button"
+                        onClick={() => setOpenLibrary({ id: attachment.id, fileName: attachment.fileName })}
+                        className="bg-white border border-l-0 border-gray-200 rounded-r px-2 py-1 text-xs text-purple-600 hover:bg-gray-50"
+                        title="View spectra"
+                      >
+                        <i className="fas fa-eye"></i>
+                      </button>
+                    )}
+                    {canImportFeatureTable(attachment.fileName) && (
+                      <button
+                        type="button"
+                        onClick={() => setImportingTable({ id: attachment.id, fileName: attachment.fileName })}
+                        className="bg-white border border-l-0 border-gray-200 rounded-r px-2 py-1 text-xs text-orange-600 hover:bg-gray-50"
+                        title="Import as feature table"
+                      >
+                        <i className="fas fa-table"></i>
+                      </button>
+                    )}
+                  </div>
                 ))
               )}
             </div>
+            {attachments
+              .filter((attachment: any) => isMsRun(attachment.fileName))
+              .map((attachment: any) => (
+                <div key={attachment.id} className="mt-2">
+                  <MsRunPreview attachmentId={attachment.id} fileName={attachment.fileName} />
+                </div>
+              ))}
           </CardFooter>
         )}
       </Card>
 
+      {/* Revision History */}
+      <NoteHistory
+        note={note}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        canEdit={canEdit && !isReadOnly}
+      />
+
+      {/* Review Workflow */}
+      {isSubmitDialogOpen && experiment && (
+        <SubmitForReviewDialog
+          note={note}
+          projectId={experiment.projectId}
+          isOpen={true}
+          onClose={() => setIsSubmitDialogOpen(false)}
+        />
+      )}
+      {isReviewDialogOpen && (
+        <ReviewNoteDialog
+          note={note}
+          isOpen={true}
+          onClose={() => setIsReviewDialogOpen(false)}
+        />
+      )}
+
+      {/* Spectral Library Viewer */}
+      {openLibrary && (
+        <SpectralLibraryDialog
+          attachmentId={openLibrary.id}
+          fileName={openLibrary.fileName}
+          isOpen={true}
+          onClose={() => setOpenLibrary(null)}
+        />
+      )}
+
+      {/* Feature Table Import */}
+      {importingTable && experiment && (
+        <ImportFeatureTableDialog
+          attachmentId={importingTable.id}
+          fileName={importingTable.fileName}
+          experimentId={note.experimentId}
+          projectId={experiment.projectId}
+          isOpen={true}
+          onClose={() => setImportingTable(null)}
+        />
+      )}
+
+      {/* Compound Links */}
+      {isLinkCompoundOpen && (
+        <LinkCompoundDialog
+          noteId={note.id}
+          isOpen={true}
+          onClose={() => setIsLinkCompoundOpen(false)}
+        />
+      )}
+
+      {/* Electronic Signature */}
+      {isSignDialogOpen && (
+        <SignNoteDialog
+          note={note}
+          signatures={signatures || []}
+          isOpen={true}
+          onClose={() => setIsSignDialogOpen(false)}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Compound } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface NoteCompoundsProps {
+  noteId: number;
+  canEdit: boolean;
+}
+
+// Compounds linked to a note, shown as chips linking to the compound library
+export default function NoteCompounds({ noteId, canEdit }: NoteCompoundsProps) {
+  const { toast } = useToast();
+
+  const { data: compounds } = useQuery<Compound[]>({
+    queryKey: ['/api/notes', noteId, 'compounds'],
+    queryFn: () => fetch(`/api/notes/${noteId}/compounds`).then(res => res.json()),
+  });
+
+  const handleUnlink = async (compound: Compound) => {
+    try {
+      await apiRequest('DELETE', `/api/notes/${noteId}/compounds/${compound.id}`, undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', noteId, 'compounds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/compounds', compound.id, 'notes'] });
+    } catch (error) {
+      toast({
+        title: "Failed to unlink compound",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!compounds || compounds.length === 0) return null;
+
+  return (
+    <div className="px-4 py-2 border-t border-gray-200 flex flex-wrap items-center gap-2">
+      <i className="fas fa-atom text-xs text-gray-400" title="Linked compounds"></i>
+      {compounds.map(compound => (
+        <span key={compound.id} className="flex items-center bg-teal-50 border border-teal-200 rounded text-xs text-teal-800">
+          <Link href={`/compounds/${compound.id}`} className="px-2 py-0.5 hover:underline">
+            {compound.name}
+          </Link>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => handleUnlink(compound)}
+              className="pr-1.5 text-teal-500 hover:text-teal-800"
+              title="Unlink"
+            >
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
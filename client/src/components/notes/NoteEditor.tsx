@@ -33,16 +33,24 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import FileUpload from "./FileUpload";
+import MassCalculator from "@/components/chemistry/MassCalculator";
+import { ResumableUpload } from "@/lib/resumable-upload";
 import { formatDistanceToNow } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 
 interface NoteEditorProps {
   isOpen: boolean;
   onClose: () => void;
   projectId: number;
   note?: Note | null;
+  // When set, a new note is created as an amendment to this signed note
+  amendsNote?: Note | null;
   experiments: Experiment[];
   preSelectedExperimentId?: number;
+  // Content of a new note, e.g. a figure snapshotted from a plot
+  initialContent?: string;
 }
 
 const extendedNoteSchema = insertNoteSchema.extend({
@@ -55,17 +63,18 @@ export default function NoteEditor({
   onClose, 
   projectId, 
   note, 
+  amendsNote,
   experiments,
-  preSelectedExperimentId 
+  preSelectedExperimentId,
+  initialContent
 }: NoteEditorProps) {
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [existingAttachments, setExistingAttachments] = useState<any[]>([]);
+  const [uploads, setUploads] = useState<ResumableUpload[]>([]);
+  const uploadsRef = useRef<ResumableUpload[]>([]);
 
-  // Hardcoded current user for demo purposes
-  const currentUser = {
-    id: 1,
-    displayName: "Dr. Sarah Chen"
-  };
+  const currentUser = useCurrentUser();
+  const { toast } = useToast();
 
   // If editing, fetch attachments
   const { data: attachments } = useQuery({
@@ -81,15 +90,30 @@ export default function NoteEditor({
     }
   }, [attachments]);
 
+  // Closing the editor abandons any uploads that have not finished
+  useEffect(() => {
+    uploadsRef.current = uploads;
+  }, [uploads]);
+  useEffect(() => () => {
+    uploadsRef.current.forEach(upload => upload.cancel());
+  }, []);
+
   const editorRef = useRef<any>(null);
+  const [isMassCalculatorOpen, setIsMassCalculatorOpen] = useState(false);
+
+  const handleInsertMasses = (html: string) => {
+    editorRef.current?.insertContent(html);
+    setIsMassCalculatorOpen(false);
+  };
   
   const form = useForm<NoteFormData>({
     resolver: zodResolver(extendedNoteSchema),
     defaultValues: {
-      title: note?.title || "",
-      content: note?.content || "",
-      experimentId: note?.experimentId || preSelectedExperimentId || (experiments[0]?.id || 0),
-      authorId: currentUser.id
+      title: note?.title || (amendsNote ? `Amendment: ${amendsNote.title}` : ""),
+      content: note?.content || initialContent || "",
+      experimentId: note?.experimentId || amendsNote?.experimentId || preSelectedExperimentId || (experiments[0]?.id || 0),
+      authorId: currentUser.id,
+      amendsNoteId: amendsNote?.id
     }
   });
 
@@ -100,27 +124,34 @@ export default function NoteEditor({
         data.content = editorRef.current.getContent();
       }
       
-      let savedNote;
+      let savedNote: Note;
       
       if (note) {
         // Update existing note
-        savedNote = await apiRequest('PUT', `/api/notes/${note.id}`, data);
+        savedNote = await (await apiRequest('PUT', `/api/notes/${note.id}`, data)).json();
       } else {
         // Create new note
-        savedNote = await apiRequest('POST', '/api/notes', data);
+        savedNote = await (await apiRequest('POST', '/api/notes', data)).json();
       }
       
-      // Upload attachments if there are any
+      // Upload attachments if there are any. The dialog stays open until
+      // every upload has finished or been cancelled.
       if (uploadedFiles.length > 0 && savedNote) {
-        for (const file of uploadedFiles) {
-          const formData = new FormData();
-          formData.append('file', file);
-          formData.append('noteId', String(savedNote.id));
-          
-          await fetch('/api/attachments', {
-            method: 'POST',
-            body: formData,
-          }).then(res => res.json());
+        const newUploads = uploadedFiles.map(file => new ResumableUpload(file, savedNote.id));
+        setUploads(newUploads);
+        setUploadedFiles([]);
+        newUploads.forEach(upload => upload.start());
+        const stored = await Promise.all(newUploads.map(upload => upload.finished));
+        queryClient.invalidateQueries({ queryKey: ['/api/attachments/note', savedNote.id] });
+        
+        // Identical contents were already attached somewhere; worth knowing for raw data
+        for (const attachment of stored) {
+          if (attachment && attachment.duplicates.length > 0) {
+            toast({
+              title: "Duplicate file",
+              description: `${attachment.fileName} has the same contents as ${attachment.duplicates.map(duplicate => `${duplicate.fileName} (note #${duplicate.noteId})`).join(", ")}.`,
+            });
+          }
         }
       }
       
@@ -168,14 +199,15 @@ export default function NoteEditor({
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-4xl h-[80vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>{note ? "Edit Note" : "Create New Note"}</DialogTitle>
+          <DialogTitle>{note ? "Edit Note" : amendsNote ? "Amend Signed Note" : "Create New Note"}</DialogTitle>
         </DialogHeader>
         
         <Form {...form}>
@@ -206,6 +238,7 @@ export default function NoteEditor({
                     <Select 
                       onValueChange={(value) => field.onChange(parseInt(value))}
                       defaultValue={field.value?.toString()}
+                      disabled={!!amendsNote}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -225,6 +258,15 @@ export default function NoteEditor({
                 )}
               />
               
+              {/* Amended note info */}
+              {amendsNote && (
+                <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                  <i className="fas fa-lock mr-2"></i>
+                  "{amendsNote.title}" is signed and cannot be changed. This amendment will be
+                  saved as a separate note linked to it.
+                </div>
+              )}
+              
               {/* Last edited info */}
               {note && (
                 <div className="text-sm text-gray-500">
@@ -255,7 +297,14 @@ export default function NoteEditor({
                           toolbar: 'undo redo | blocks | ' +
                             'bold italic forecolor | alignleft aligncenter ' +
                             'alignright alignjustify | bullist numlist outdent indent | ' +
-                            'removeformat | help | emoticons | table',
+                            'removeformat | help | emoticons | table | masscalc',
+                          setup: (editor: any) => {
+                            editor.ui.registry.addButton('masscalc', {
+                              text: 'Masses',
+                              tooltip: 'Insert formula masses',
+                              onAction: () => setIsMassCalculatorOpen(true),
+                            });
+                          },
                           content_style: 'body { font-family:Helvetica,Arial,sans-serif; font-size:14px }'
                         }}
                       />
@@ -312,7 +361,7 @@ export default function NoteEditor({
                 )}
                 
                 {/* File upload component */}
-                <FileUpload onFilesSelected={handleFileChange} />
+                <FileUpload onFilesSelected={handleFileChange} uploads={uploads} />
               </div>
             </div>
             
@@ -329,13 +378,24 @@ export default function NoteEditor({
                 disabled={form.formState.isSubmitting}
               >
                 {form.formState.isSubmitting 
-                  ? (note ? "Saving..." : "Creating...") 
+                  ? (uploads.length > 0 ? "Uploading..." : note ? "Saving..." : "Creating...") 
                   : (note ? "Save Changes" : "Create Note")
                 }
               </Button>
             </DialogFooter>
           </form>
         </Form>
+
+        {isMassCalculatorOpen && (
+          <Dialog open={true} onOpenChange={open => !open && setIsMassCalculatorOpen(false)}>
+            <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Insert Formula Masses</DialogTitle>
+              </DialogHeader>
+              <MassCalculator onInsert={handleInsertMasses} />
+            </DialogContent>
+          </Dialog>
+        )}
       </DialogContent>
     </Dialog>
   );
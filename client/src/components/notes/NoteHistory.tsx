@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Note, NoteDiff, NoteRevisionSummary, PublicUser } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+
+interface NoteHistoryProps {
+  note: Note;
+  isOpen: boolean;
+  onClose: () => void;
+  canEdit: boolean;
+}
+
+export default function NoteHistory({ note, isOpen, onClose, canEdit }: NoteHistoryProps) {
+  const { toast } = useToast();
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data: revisions, isLoading: revisionsLoading } = useQuery<NoteRevisionSummary[]>({
+    queryKey: ['/api/notes', note.id, 'revisions'],
+    queryFn: () => fetch(`/api/notes/${note.id}/revisions`).then(res => res.json()),
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    queryFn: () => fetch('/api/users').then(res => res.json()),
+    enabled: isOpen,
+  });
+
+  const latestRevision = revisions?.[0]?.revision ?? null;
+
+  // Start on the latest revision, compared with the one before it
+  useEffect(() => {
+    if (isOpen && latestRevision !== null && selectedRevision === null) {
+      setSelectedRevision(latestRevision);
+      setCompareWith(latestRevision > 1 ? latestRevision - 1 : latestRevision);
+    }
+  }, [isOpen, latestRevision, selectedRevision]);
+
+  // Comparing a revision with itself shows its content without changes marked
+  const { data: diff, isLoading: diffLoading } = useQuery<NoteDiff>({
+    queryKey: ['/api/notes', note.id, 'diff', compareWith, selectedRevision],
+    queryFn: () => fetch(`/api/notes/${note.id}/diff?from=${compareWith}&to=${selectedRevision}`).then(res => res.json()),
+    enabled: isOpen && selectedRevision !== null && compareWith !== null,
+  });
+
+  const getUserName = (userId: number) =>
+    users?.find(user => user.id === userId)?.displayName || `User #${userId}`;
+
+  const handleSelect = (revision: number) => {
+    setSelectedRevision(revision);
+    setCompareWith(revision > 1 ? revision - 1 : revision);
+  };
+
+  const handleClose = () => {
+    setSelectedRevision(null);
+    setCompareWith(null);
+    onClose();
+  };
+
+  const handleRestore = async () => {
+    if (selectedRevision === null) return;
+    setIsRestoring(true);
+
+    try {
+      await apiRequest('POST', `/api/notes/${note.id}/revisions/${selectedRevision}/restore`, undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/notes/experiment', note.experimentId] });
+      // Wait for the revision list to refetch, then show the newly created revision
+      await queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      toast({ title: `Revision ${selectedRevision} restored` });
+      setSelectedRevision(null);
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+      toast({ title: "Failed to restore revision", variant: "destructive" });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>History of "{note.title}"</DialogTitle>
+        </DialogHeader>
+
+        {revisionsLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !revisions || revisions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">
+            No revisions have been saved for this note yet.
+          </p>
+        ) : (
+          <div className="flex gap-4">
+            <ScrollArea className="h-[28rem] w-56 shrink-0 border border-gray-200 rounded-md">
+              <div className="p-1">
+                {revisions.map(revision => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => handleSelect(revision.revision)}
+                    className={`w-full text-left rounded px-2 py-2 text-sm hover:bg-gray-100 ${
+                      revision.revision === selectedRevision ? "bg-primary/10" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Revision {revision.revision}</span>
+                      {revision.revision === latestRevision && (
+                        <Badge variant="outline" className="text-xs">Current</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm')}
+                    </div>
+                    <div className="text-xs text-gray-500">{getUserName(revision.authorId)}</div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <span>Compare with</span>
+                  <Select
+                    value={compareWith?.toString() ?? ""}
+                    onValueChange={value => setCompareWith(parseInt(value))}
+                  >
+                    <SelectTrigger className="w-36 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map(revision => (
+                        <SelectItem key={revision.id} value={revision.revision.toString()}>
+                          Revision {revision.revision}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {diff && compareWith !== selectedRevision && (
+                  <div className="text-xs">
+                    <span className="text-green-700">+{diff.insertions}</span>{" "}
+                    <span className="text-red-600">−{diff.deletions}</span>
+                  </div>
+                )}
+              </div>
+
+              <ScrollArea className="h-[25rem] border border-gray-200 rounded-md">
+                {diffLoading || !diff ? (
+                  <div className="p-4 space-y-2">
+                    <Skeleton className="h-4 w-full" />
+                    <Skeleton className="h-4 w-3/4" />
+                  </div>
+                ) : (
+                  // The server rebuilds every tag from a whitelist, so the diff is safe to render
+                  <div
+                    className="prose prose-sm max-w-none p-4 [&_ins]:bg-green-100 [&_ins]:text-green-900 [&_ins]:no-underline [&_del]:bg-red-100 [&_del]:text-red-900"
+                    dangerouslySetInnerHTML={{ __html: diff.html || "<p>No content</p>" }}
+                  />
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Close
+          </Button>
+          {canEdit && selectedRevision !== null && selectedRevision !== latestRevision && (
+            <Button type="button" onClick={handleRestore} disabled={isRestoring}>
+              <i className="fas fa-undo mr-2"></i>
+              {isRestoring ? "Restoring..." : `Restore revision ${selectedRevision}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
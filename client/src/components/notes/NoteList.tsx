@@ -4,7 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import NoteCard from "./NoteCard";
 import NoteEditor from "./NoteEditor";
-import { Note, Experiment } from "@shared/schema";
+import { Note, Experiment, noteStatuses } from "@shared/schema";
+import { useProjectRole } from "@/hooks/use-project-role";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface NoteListProps {
   projectId: number;
@@ -13,8 +21,11 @@ interface NoteListProps {
 
 export default function NoteList({ projectId, experimentId }: NoteListProps) {
   const [viewType, setViewType] = useState<"list" | "grid">("list");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
   const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [amendingNote, setAmendingNote] = useState<Note | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const { canEdit } = useProjectRole(projectId);
   
   // Query to fetch notes
   const { data: notes, isLoading: notesLoading } = useQuery({
@@ -54,16 +65,25 @@ export default function NoteList({ projectId, experimentId }: NoteListProps) {
 
   const handleEditNote = (note: Note) => {
     setEditingNote(note);
+    setAmendingNote(null);
+    setIsCreating(false);
+  };
+
+  const handleAmendNote = (note: Note) => {
+    setEditingNote(null);
+    setAmendingNote(note);
     setIsCreating(false);
   };
 
   const handleCreateNote = () => {
     setEditingNote(null);
+    setAmendingNote(null);
     setIsCreating(true);
   };
 
   const closeEditor = () => {
     setEditingNote(null);
+    setAmendingNote(null);
     setIsCreating(false);
   };
 
@@ -74,6 +94,17 @@ export default function NoteList({ projectId, experimentId }: NoteListProps) {
           {experimentId ? "Experiment Notes" : "Recent Notes"}
         </h2>
         <div className="flex space-x-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-36 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {noteStatuses.map(status => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             variant="ghost"
             size="sm"
@@ -96,26 +127,30 @@ export default function NoteList({ projectId, experimentId }: NoteListProps) {
       {(!notes || notes.length === 0) && (
         <div className="text-center py-8 bg-white border border-gray-200 rounded-md">
           <p className="text-gray-500 mb-4">No notes found for this experiment</p>
-          <Button onClick={handleCreateNote}>Create First Note</Button>
+          {canEdit && <Button onClick={handleCreateNote}>Create First Note</Button>}
         </div>
       )}
 
       <div className={viewType === "grid" ? "grid grid-cols-1 md:grid-cols-2 gap-4" : "space-y-4"}>
-        {notes && notes.map((note: Note) => (
+        {notes && notes
+          .filter((note: Note) => statusFilter === "all" || note.status === statusFilter)
+          .map((note: Note) => (
           <NoteCard
             key={note.id}
             note={note}
             onEdit={() => handleEditNote(note)}
+            onAmend={() => handleAmendNote(note)}
           />
         ))}
       </div>
 
-      {(isCreating || editingNote) && (
+      {(isCreating || editingNote || amendingNote) && (
         <NoteEditor 
           isOpen={true}
           onClose={closeEditor}
           projectId={projectId}
           note={editingNote}
+          amendsNote={amendingNote}
           experiments={experiments || []}
           preSelectedExperimentId={experimentId}
         />
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Note, ReviewDecision } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+
+interface ReviewNoteDialogProps {
+  note: Note;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DECISIONS: { value: ReviewDecision; label: string; description: string }[] = [
+  {
+    value: "witnessed",
+    label: "Witness",
+    description: "I have read and understood this entry. Signs and locks the note.",
+  },
+  {
+    value: "approved",
+    label: "Approve",
+    description: "I approve this entry. Signs and locks the note.",
+  },
+  {
+    value: "returned",
+    label: "Return with comments",
+    description: "Send the note back to its author, who answers the comments in an amendment.",
+  },
+];
+
+export default function ReviewNoteDialog({ note, isOpen, onClose }: ReviewNoteDialogProps) {
+  const currentUser = useCurrentUser();
+  const { toast } = useToast();
+  const [decision, setDecision] = useState<ReviewDecision>("witnessed");
+  const [password, setPassword] = useState("");
+  const [comments, setComments] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isReturning = decision === "returned";
+  const canSubmit = isReturning ? comments.trim().length > 0 : password.length > 0;
+
+  const handleSubmit = async () => {
+    setErrorMessage(null);
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest('POST', `/api/notes/${note.id}/review`,
+        isReturning ? { decision, comments } : { decision, password }
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes/experiment', note.experimentId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reviews'] });
+      toast({ title: isReturning ? "Note returned to its author" : `Note ${decision}` });
+      onClose();
+    } catch (error) {
+      console.error("Failed to review note:", error);
+      setErrorMessage(getApiErrorMessage(error, "Failed to review note"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review "{note.title}"</DialogTitle>
+          <DialogDescription>
+            Witnessing or approving is an electronic signature and requires your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={decision} onValueChange={value => setDecision(value as ReviewDecision)}>
+            {DECISIONS.map(option => (
+              <div key={option.value} className="flex items-start space-x-2">
+                <RadioGroupItem value={option.value} id={`decision-${option.value}`} className="mt-1" />
+                <Label htmlFor={`decision-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {isReturning ? (
+            <div className="space-y-2">
+              <Label htmlFor="review-comments">Comments for the author</Label>
+              <Textarea
+                id="review-comments"
+                value={comments}
+                onChange={event => setComments(event.target.value)}
+                rows={4}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="review-password">Password for {currentUser.displayName}</Label>
+              <Input
+                id="review-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={event => setPassword(event.target.value)}
+              />
+            </div>
+          )}
+
+          {errorMessage && (
+            <p className="text-sm text-red-500">{errorMessage}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>
+            {isSubmitting ? "Saving..." : isReturning ? "Return Note" : "Sign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
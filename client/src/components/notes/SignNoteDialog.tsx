@@ -0,0 +1,163 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Note, NoteSignature, SignNote, SignatureMeaning, signNoteSchema, signatureMeanings } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SignNoteDialogProps {
+  note: Note;
+  signatures: NoteSignature[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MEANING_LABELS: Record<SignatureMeaning, string> = {
+  authored: "Authored — I wrote this entry and it is complete",
+  reviewed: "Reviewed — I have read and checked this entry",
+  witnessed: "Witnessed — I have read and understood this entry",
+  approved: "Approved — I approve this entry",
+};
+
+export default function SignNoteDialog({ note, signatures, isOpen, onClose }: SignNoteDialogProps) {
+  const currentUser = useCurrentUser();
+  const { toast } = useToast();
+  const isAuthor = note.authorId === currentUser.id;
+
+  // Mirror the server rules: authors sign first, everyone else countersigns
+  const availableMeanings = signatureMeanings.filter(meaning => {
+    if (meaning === "authored") {
+      return isAuthor && !signatures.some(signature => signature.meaning === "authored");
+    }
+    return !isAuthor && !!note.lockedAt &&
+      !signatures.some(signature => signature.signerId === currentUser.id && signature.meaning === meaning);
+  });
+
+  const form = useForm<SignNote>({
+    resolver: zodResolver(signNoteSchema),
+    defaultValues: {
+      meaning: availableMeanings[0],
+      password: "",
+    }
+  });
+
+  const handleClose = () => {
+    form.reset();
+    onClose();
+  };
+
+  const handleSign = async (data: SignNote) => {
+    try {
+      await apiRequest('POST', `/api/notes/${note.id}/signatures`, data);
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes/experiment', note.experimentId] });
+      toast({ title: "Note signed" });
+      handleClose();
+    } catch (error) {
+      console.error("Failed to sign note:", error);
+      form.setError("password", { message: getApiErrorMessage(error, "Failed to sign note") });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sign "{note.title}"</DialogTitle>
+          <DialogDescription>
+            Your electronic signature is the legally binding equivalent of your handwritten
+            signature. {!note.lockedAt && "Once signed, this note can no longer be edited or deleted."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {availableMeanings.length === 0 ? (
+          <p className="py-4 text-sm text-gray-500">
+            {isAuthor
+              ? "You have already signed this note."
+              : note.lockedAt
+                ? "You have already signed this note with every available meaning."
+                : "This note must be signed by its author before it can be reviewed or approved."}
+          </p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSign)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="meaning"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Meaning of signature</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {availableMeanings.map(meaning => (
+                          <SelectItem key={meaning} value={meaning}>
+                            {MEANING_LABELS[meaning]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password for {currentUser.displayName}</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleClose}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  <i className="fas fa-signature mr-2"></i>
+                  {form.formState.isSubmitting ? "Signing..." : "Sign"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
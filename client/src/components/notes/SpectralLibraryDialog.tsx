@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { LibrarySpectrum, LibrarySpectrumPage, LibrarySpectrumSummary, SpectralLibrary } from "@shared/schema";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import SpectrumChart from "./SpectrumChart";
+import SpectralLibrarySearch from "./SpectralLibrarySearch";
+
+const PAGE_SIZE = 50;
+
+interface SpectralLibraryDialogProps {
+  attachmentId: number;
+  fileName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const spectrumLabel = (spectrum: Pick<LibrarySpectrumSummary, "name" | "position">) =>
+  spectrum.name || `Spectrum ${spectrum.position + 1}`;
+
+// Browses the spectra of an MGF/MSP attachment. Selecting a spectrum plots
+// it; choosing a second one to compare, from this file or from a library
+// search hit, draws them as a mirror plot.
+export default function SpectralLibraryDialog({ attachmentId, fileName, isOpen, onClose }: SpectralLibraryDialogProps) {
+  const [search, setSearch] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [referenceId, setReferenceId] = useState<number | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Libraries are imported in the background, so poll until it has finished
+  const { data: library } = useQuery<SpectralLibrary>({
+    queryKey: [`/api/attachments/${attachmentId}/spectral-library`],
+    refetchInterval: query => query.state.data?.status === "pending" ? 2000 : false,
+  });
+
+  const params = new URLSearchParams({ offset: String(offset), limit: String(PAGE_SIZE) });
+  if (search.trim()) params.set("search", search.trim());
+  const { data: page, isLoading: pageLoading } = useQuery<LibrarySpectrumPage>({
+    queryKey: [`/api/attachments/${attachmentId}/spectral-library/spectra?${params}`],
+    enabled: library?.status === "parsed",
+  });
+
+  const { data: selected } = useQuery<LibrarySpectrum>({
+    queryKey: [`/api/library-spectra/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  const { data: reference } = useQuery<LibrarySpectrum>({
+    queryKey: [`/api/library-spectra/${referenceId}`],
+    enabled: referenceId !== null,
+  });
+
+  const handleSearch = (value: string) => {
+    setSearch(value);
+    setOffset(0);
+  };
+
+  const renderContent = () => {
+    if (!library || library.status === "pending") {
+      return (
+        <div className="text-sm text-gray-500 py-6 text-center">
+          <i className="fas fa-spinner fa-spin mr-2"></i> Importing spectra...
+        </div>
+      );
+    }
+
+    if (library.status === "failed") {
+      return (
+        <p className="text-sm text-red-600 py-6">
+          <i className="fas fa-exclamation-triangle mr-1"></i> Could not read {fileName}: {library.error}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {selected ? (
+          <div>
+            <div className="text-sm font-medium text-gray-800 mb-1">
+              {spectrumLabel(selected)}
+              {reference && <span className="text-red-600"> vs. {spectrumLabel(reference)}</span>}
+              {reference && (
+                <Button type="button" variant="ghost" size="sm" className="h-6 px-2 ml-2 text-xs" onClick={() => setReferenceId(null)}>
+                  <i className="fas fa-times mr-1"></i> Clear comparison
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant={isSearching ? "secondary" : "ghost"}
+                size="sm"
+                className="h-6 px-2 ml-2 text-xs"
+                onClick={() => setIsSearching(!isSearching)}
+              >
+                <i className="fas fa-search mr-1"></i> Search library
+              </Button>
+            </div>
+            <SpectrumChart
+              peaks={selected}
+              reference={reference}
+              label={spectrumLabel(selected)}
+              referenceLabel={reference ? spectrumLabel(reference) : undefined}
+            />
+            {Object.keys(selected.metadata).length > 0 && (
+              <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-0.5 text-xs mt-2 max-h-24 overflow-y-auto">
+                {Object.entries(selected.metadata).map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt className="text-gray-500">{key}</dt>
+                    <dd className="text-gray-800 break-all whitespace-pre-line">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            {isSearching && (
+              <div className="mt-3 border-t pt-3">
+                <SpectralLibrarySearch key={selected.id} spectrum={selected} comparedId={referenceId} onCompare={setReferenceId} />
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Select a spectrum to plot it.</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Search by name..."
+            value={search}
+            onChange={e => handleSearch(e.target.value)}
+            className="max-w-xs"
+          />
+          <span className="text-xs text-gray-500">{library.spectrumCount} spectra</span>
+        </div>
+
+        {pageLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : (
+          <div className="max-h-64 overflow-y-auto border rounded">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Precursor m/z</TableHead>
+                  <TableHead>Charge</TableHead>
+                  <TableHead>Ion mode</TableHead>
+                  <TableHead>Peaks</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {page && page.spectra.length > 0 ? (
+                  page.spectra.map(spectrum => (
+                    <TableRow
+                      key={spectrum.id}
+                      className={`cursor-pointer ${spectrum.id === selectedId ? "bg-blue-50" : ""}`}
+                      onClick={() => setSelectedId(spectrum.id)}
+                    >
+                      <TableCell className="text-sm">{spectrumLabel(spectrum)}</TableCell>
+                      <TableCell className="text-sm font-mono">{spectrum.precursorMz?.toFixed(4) ?? "—"}</TableCell>
+                      <TableCell className="text-sm">{spectrum.charge ?? "—"}</TableCell>
+                      <TableCell className="text-sm capitalize">{spectrum.ionMode ?? "—"}</TableCell>
+                      <TableCell className="text-sm">{spectrum.peakCount}</TableCell>
+                      <TableCell className="text-right">
+                        {selectedId !== null && spectrum.id !== selectedId && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={e => {
+                              e.stopPropagation();
+                              setReferenceId(spectrum.id);
+                            }}
+                          >
+                            <i className="fas fa-exchange-alt mr-1"></i> Compare
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-sm text-gray-500">
+                      No spectra match your search
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {page && page.total > PAGE_SIZE && (
+          <div className="flex items-center justify-end gap-2 text-xs text-gray-500">
+            <span>
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, page.total)} of {page.total}
+            </span>
+            <Button type="button" variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(offset - PAGE_SIZE)}>
+              Previous
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= page.total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{fileName}</DialogTitle>
+          <DialogDescription>
+            {library?.format.toUpperCase()} spectral library
+          </DialogDescription>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
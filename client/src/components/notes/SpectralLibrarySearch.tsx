@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { LibrarySpectrum, SpectralLibraryWithSource, SpectralMatch, SpectralMatchScore } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface SpectralLibrarySearchProps {
+  spectrum: LibrarySpectrum;
+  // Hit currently drawn in the mirror plot
+  comparedId: number | null;
+  onCompare: (spectrumId: number) => void;
+}
+
+// Searches an imported reference library for spectra similar to the selected
+// one. Hits passing the score and matched peak thresholds are putative
+// annotations at MSI level 2.
+export default function SpectralLibrarySearch({ spectrum, comparedId, onCompare }: SpectralLibrarySearchProps) {
+  const [libraryId, setLibraryId] = useState("");
+  const [precursorTolerance, setPrecursorTolerance] = useState("0.02");
+  const [fragmentTolerance, setFragmentTolerance] = useState("0.02");
+  const [sort, setSort] = useState<SpectralMatchScore>("cosine");
+  const [minScore, setMinScore] = useState("0.7");
+  const [minMatchedPeaks, setMinMatchedPeaks] = useState("6");
+  // Results are only fetched once Search is pressed, not on every keystroke
+  const [searchUrl, setSearchUrl] = useState<string | null>(null);
+
+  const { data: libraries } = useQuery<SpectralLibraryWithSource[]>({
+    queryKey: ['/api/spectral-libraries'],
+  });
+
+  const { data: matches, isFetching } = useQuery<SpectralMatch[]>({
+    queryKey: [searchUrl],
+    enabled: searchUrl !== null,
+  });
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    const params = new URLSearchParams({ libraryId, precursorTolerance, fragmentTolerance, sort, minScore, minMatchedPeaks });
+    setSearchUrl(`/api/library-spectra/${spectrum.id}/matches?${params}`);
+  };
+
+  const isValid = libraryId !== "" && Number(precursorTolerance) > 0 && Number(fragmentTolerance) > 0 &&
+    minScore.trim() !== "" && Number(minMatchedPeaks) >= 1;
+
+  if (spectrum.precursorMz === null) {
+    return <p className="text-sm text-gray-500">This spectrum has no precursor m/z, so it cannot be searched against a library.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleSearch} className="flex items-end gap-2 flex-wrap">
+        <div className="flex-1 min-w-56">
+          <Label>Reference library</Label>
+          <Select value={libraryId} onValueChange={setLibraryId}>
+            <SelectTrigger className="mt-1">
+              <SelectValue placeholder="Select a library" />
+            </SelectTrigger>
+            <SelectContent>
+              {(libraries ?? []).map(library => (
+                <SelectItem key={library.id} value={String(library.id)}>
+                  {library.fileName} ({library.projectName}, {library.spectrumCount} spectra)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-28">
+          <Label htmlFor="match-precursor-tolerance">Precursor (Da)</Label>
+          <Input
+            id="match-precursor-tolerance"
+            type="number"
+            min="0"
+            step="any"
+            value={precursorTolerance}
+            onChange={event => setPrecursorTolerance(event.target.value)}
+            className="mt-1 font-mono"
+          />
+        </div>
+        <div className="w-28">
+          <Label htmlFor="match-fragment-tolerance">Fragment (Da)</Label>
+          <Input
+            id="match-fragment-tolerance"
+            type="number"
+            min="0"
+            step="any"
+            value={fragmentTolerance}
+            onChange={event => setFragmentTolerance(event.target.value)}
+            className="mt-1 font-mono"
+          />
+        </div>
+        <div className="w-40">
+          <Label>Rank by</Label>
+          <Select value={sort} onValueChange={value => setSort(value as SpectralMatchScore)}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="cosine">Cosine</SelectItem>
+              <SelectItem value="modifiedCosine">Modified cosine</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-24">
+          <Label htmlFor="match-min-score">Min. score</Label>
+          <Input
+            id="match-min-score"
+            type="number"
+            min="0"
+            max="1"
+            step="0.05"
+            value={minScore}
+            onChange={event => setMinScore(event.target.value)}
+            className="mt-1 font-mono"
+          />
+        </div>
+        <div className="w-24">
+          <Label htmlFor="match-min-peaks">Min. peaks</Label>
+          <Input
+            id="match-min-peaks"
+            type="number"
+            min="1"
+            step="1"
+            value={minMatchedPeaks}
+            onChange={event => setMinMatchedPeaks(event.target.value)}
+            className="mt-1 font-mono"
+          />
+        </div>
+        <Button type="submit" disabled={!isValid || isFetching}>
+          {isFetching ? "Searching..." : "Search"}
+        </Button>
+      </form>
+      {libraries && libraries.length === 0 && (
+        <p className="text-xs text-gray-500">Attach an MGF or MSP library to a note to search it.</p>
+      )}
+
+      {isFetching && !matches ? (
+        <Skeleton className="h-16 w-full" />
+      ) : matches && (
+        matches.length > 0 ? (
+          <div className="max-h-64 overflow-y-auto border rounded">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Library spectrum</TableHead>
+                  <TableHead className="text-right">Precursor m/z</TableHead>
+                  <TableHead className="text-right">Δm/z</TableHead>
+                  <TableHead className="text-right">Cosine</TableHead>
+                  <TableHead className="text-right">Modified cosine</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map(match => (
+                  <TableRow key={match.spectrum.id} className={match.spectrum.id === comparedId ? "bg-red-50" : ""}>
+                    <TableCell className="text-sm">{match.spectrum.name || `Spectrum ${match.spectrum.position + 1}`}</TableCell>
+                    <TableCell className="text-sm font-mono text-right">{match.spectrum.precursorMz?.toFixed(4) ?? "—"}</TableCell>
+                    <TableCell className="text-sm font-mono text-right">{match.precursorMzError?.toFixed(4) ?? "—"}</TableCell>
+                    <TableCell className="text-sm font-mono text-right" title={`${match.cosineMatchedPeaks} matched peaks`}>
+                      {match.cosine.toFixed(3)} <span className="text-gray-500">({match.cosineMatchedPeaks})</span>
+                    </TableCell>
+                    <TableCell className="text-sm font-mono text-right" title={`${match.modifiedCosineMatchedPeaks} matched peaks`}>
+                      {match.modifiedCosine.toFixed(3)} <span className="text-gray-500">({match.modifiedCosineMatchedPeaks})</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        disabled={match.spectrum.id === comparedId}
+                        onClick={() => onCompare(match.spectrum.id)}
+                      >
+                        <i className="fas fa-exchange-alt mr-1"></i> Compare
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No library spectra pass the score and matched peak thresholds</p>
+        )
+      )}
+      {matches && matches.length > 0 && (
+        <p className="text-xs text-gray-500">Matched peak counts are in brackets. Hits are putative annotations at MSI level 2.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+
+export interface SpectrumPeaks {
+  mz: number[];
+  intensity: number[];
+}
+
+interface SpectrumChartProps {
+  peaks: SpectrumPeaks;
+  // Drawn upside down below the axis for a mirror plot
+  reference?: SpectrumPeaks;
+  label?: string;
+  referenceLabel?: string;
+  className?: string;
+}
+
+interface PlotPeak {
+  mz: number;
+  intensity?: number;
+  reference?: number;
+}
+
+// Scales intensities to percent of the base peak so two spectra can be compared
+function relative({ mz, intensity }: SpectrumPeaks, sign: number) {
+  const basePeak = intensity.reduce((max, value) => Math.max(max, value), 0) || 1;
+  return mz.map((value, i) => ({ mz: value, value: sign * intensity[i] / basePeak * 100 }));
+}
+
+// Centroided peaks drawn as sticks on a numeric m/z axis. Dragging across the
+// plot zooms into that m/z range. With a reference spectrum both are
+// normalized to their base peak and the reference is mirrored below the axis.
+export default function SpectrumChart({ peaks, reference, label = "Intensity", referenceLabel = "Reference", className }: SpectrumChartProps) {
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+
+  const chartConfig = {
+    intensity: { label, color: "hsl(var(--primary))" },
+    reference: { label: referenceLabel, color: "hsl(0 72% 51%)" },
+  } satisfies ChartConfig;
+
+  let data: PlotPeak[];
+  if (reference) {
+    data = [
+      ...relative(peaks, 1).map(({ mz, value }) => ({ mz, intensity: value })),
+      ...relative(reference, -1).map(({ mz, value }) => ({ mz, reference: value })),
+    ].sort((a, b) => a.mz - b.mz);
+  } else {
+    data = peaks.mz.map((mz, i) => ({ mz, intensity: peaks.intensity[i] }));
+  }
+  if (zoom) {
+    data = data.filter(peak => peak.mz >= zoom[0] && peak.mz <= zoom[1]);
+  }
+
+  const finishSelection = () => {
+    if (selection && selection.start !== selection.end) {
+      setZoom([Math.min(selection.start, selection.end), Math.max(selection.start, selection.end)]);
+    }
+    setSelection(null);
+  };
+
+  const formatMz = (value: number) => {
+    const span = zoom ? zoom[1] - zoom[0] : Infinity;
+    return value.toFixed(span < 5 ? 3 : span < 50 ? 1 : 0);
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+        <span>
+          {zoom ? `m/z ${zoom[0].toFixed(4)}–${zoom[1].toFixed(4)}` : "Drag across the plot to zoom"}
+        </span>
+        {zoom && (
+          <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setZoom(null)}>
+            <i className="fas fa-search-minus mr-1"></i> Reset zoom
+          </Button>
+        )}
+      </div>
+      <ChartContainer config={chartConfig} className="h-64 w-full select-none">
+        <BarChart
+          data={data}
+          stackOffset="sign"
+          margin={{ top: 8, right: 8, bottom: 16, left: 8 }}
+          onMouseDown={state => {
+            if (state?.activeLabel !== undefined) {
+              setSelection({ start: Number(state.activeLabel), end: Number(state.activeLabel) });
+            }
+          }}
+          onMouseMove={state => {
+            if (selection && state?.activeLabel !== undefined) {
+              setSelection({ ...selection, end: Number(state.activeLabel) });
+            }
+          }}
+          onMouseUp={finishSelection}
+          onMouseLeave={() => setSelection(null)}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="mz"
+            type="number"
+            domain={zoom ?? ["dataMin - 1", "dataMax + 1"]}
+            allowDataOverflow
+            tickFormatter={formatMz}
+            label={{ value: "m/z", position: "insideBottom", offset: -8 }}
+          />
+          <YAxis
+            domain={reference ? [-100, 100] : [0, "auto"]}
+            tickFormatter={(value: number) => reference ? `${Math.abs(value)}%` : value.toExponential(1)}
+            width={56}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `m/z ${Number(payload[0]?.payload.mz).toFixed(4)}`}
+                formatter={(value, name) => (
+                  <span>
+                    {chartConfig[name as keyof typeof chartConfig]?.label}:{" "}
+                    {reference ? `${Math.abs(Number(value)).toFixed(1)}%` : Number(value).toExponential(3)}
+                  </span>
+                )}
+              />
+            }
+          />
+          {reference && <ChartLegend content={<ChartLegendContent />} />}
+          {reference && <ReferenceLine y={0} stroke="#9ca3af" />}
+          <Bar dataKey="intensity" stackId="peaks" fill="var(--color-intensity)" barSize={1} isAnimationActive={false} />
+          {reference && (
+            <Bar dataKey="reference" stackId="peaks" fill="var(--color-reference)" barSize={1} isAnimationActive={false} />
+          )}
+          {selection && selection.start !== selection.end && (
+            <ReferenceArea x1={selection.start} x2={selection.end} strokeOpacity={0.3} fill="hsl(var(--primary))" fillOpacity={0.1} />
+          )}
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Note, Project, ProjectCollaborator, PublicUser } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SubmitForReviewDialogProps {
+  note: Note;
+  projectId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function SubmitForReviewDialog({ note, projectId, isOpen, onClose }: SubmitForReviewDialogProps) {
+  const { toast } = useToast();
+  const [reviewerId, setReviewerId] = useState<string>(note.reviewerId?.toString() ?? "");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ['/api/projects', projectId],
+    queryFn: () => fetch(`/api/projects/${projectId}`).then(res => res.json()),
+  });
+
+  const { data: collaborators } = useQuery<ProjectCollaborator[]>({
+    queryKey: ['/api/projects', projectId, 'collaborators'],
+    queryFn: () => fetch(`/api/projects/${projectId}/collaborators`).then(res => res.json()),
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    queryFn: () => fetch('/api/users').then(res => res.json()),
+  });
+
+  // Anyone on the project except the author can review
+  const memberIds = [
+    ...(project ? [project.ownerId] : []),
+    ...(collaborators || []).map(collaborator => collaborator.userId),
+  ];
+  const reviewers = (users || []).filter(user =>
+    user.id !== note.authorId && memberIds.includes(user.id)
+  );
+
+  const handleSubmit = async () => {
+    if (!reviewerId) return;
+    setErrorMessage(null);
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest('POST', `/api/notes/${note.id}/submit`, { reviewerId: parseInt(reviewerId) });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes/experiment', note.experimentId] });
+      toast({ title: "Submitted for review" });
+      onClose();
+    } catch (error) {
+      console.error("Failed to submit note for review:", error);
+      setErrorMessage(getApiErrorMessage(error, "Failed to submit note for review"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Submit "{note.title}" for review</DialogTitle>
+          <DialogDescription>
+            The note cannot be edited while it is under review. The reviewer can witness or
+            approve it, which signs and locks it, or return it to you with comments.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Reviewer</label>
+          <Select value={reviewerId} onValueChange={setReviewerId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a reviewer" />
+            </SelectTrigger>
+            <SelectContent>
+              {reviewers.map(user => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.displayName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {reviewers.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Share this project with a colleague to be able to pick a reviewer.
+            </p>
+          )}
+          {errorMessage && (
+            <p className="text-sm text-red-500">{errorMessage}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!reviewerId || isSubmitting}>
+            <i className="fas fa-paper-plane mr-2"></i>
+            {isSubmitting ? "Submitting..." : "Submit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
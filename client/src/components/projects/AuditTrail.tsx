@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AuditLogEntry, PublicUser, auditActions, auditEntityTypes } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+
+interface AuditTrailProps {
+  projectId: number;
+}
+
+// Fields that change on every save and add nothing to the trail
+const IGNORED_FIELDS = ["updatedAt"];
+
+const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-100 text-green-800 border-green-200",
+  update: "bg-blue-100 text-blue-800 border-blue-200",
+  delete: "bg-red-100 text-red-800 border-red-200",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? text.slice(0, 80) + "…" : text;
+};
+
+const getChangedFields = (entry: AuditLogEntry) => {
+  const before = (entry.before || {}) as Record<string, unknown>;
+  const after = (entry.after || {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys
+    .filter(key => !IGNORED_FIELDS.includes(key))
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ field: key, before: before[key], after: after[key] }));
+};
+
+const getEntityLabel = (entry: AuditLogEntry) => {
+  const snapshot = (entry.after || entry.before || {}) as Record<string, unknown>;
+  const label = snapshot.name || snapshot.title || snapshot.fileName ||
+    (snapshot.signerName && `${snapshot.signerName} (${snapshot.meaning})`);
+  return label ? String(label) : `#${entry.entityId}`;
+};
+
+export default function AuditTrail({ projectId }: AuditTrailProps) {
+  const [entityType, setEntityType] = useState<string>("all");
+  const [action, setAction] = useState<string>("all");
+
+  const params = new URLSearchParams({ projectId: String(projectId) });
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (action !== "all") params.set("action", action);
+
+  const { data: entries, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ['/api/audit', projectId, entityType, action],
+    queryFn: () => fetch(`/api/audit?${params.toString()}`).then(res => res.json()),
+    staleTime: 0,
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    queryFn: () => fetch('/api/users').then(res => res.json()),
+  });
+
+  const getUserName = (userId: number | null) => {
+    if (userId === null) return "System";
+    return users?.find(user => user.id === userId)?.displayName || `User #${userId}`;
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All records</SelectItem>
+              {/* The compound library is lab-wide, so its entries never belong to a project */}
+              {auditEntityTypes.filter(type => type !== "compound").map(type => (
+                <SelectItem key={type} value={type} className="capitalize">
+                  {type.endsWith("sis") ? `${type.slice(0, -2)}es` : `${type}s`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {auditActions.map(auditAction => (
+                <SelectItem key={auditAction} value={auditAction} className="capitalize">{auditAction}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries && entries.length > 0 ? (
+                entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm:ss')}
+                    </TableCell>
+                    <TableCell className="text-sm">{getUserName(entry.actorId)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={ACTION_STYLES[entry.action]}>
+                        {entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <span className="text-gray-500 capitalize">{entry.entityType}</span>{" "}
+                      {getEntityLabel(entry)}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {entry.action === "update" ? (
+                        <ul className="space-y-0.5">
+                          {getChangedFields(entry).map(change => (
+                            <li key={change.field}>
+                              <span className="font-medium">{change.field}:</span>{" "}
+                              <span className="line-through text-red-600">{formatValue(change.before)}</span>{" "}
+                              <span className="text-green-700">{formatValue(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    No audit records found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
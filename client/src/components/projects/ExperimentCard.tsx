@@ -1,6 +1,7 @@
 import { Experiment } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
 import { 
@@ -33,6 +34,8 @@ import { z } from "zod";
 import { insertExperimentSchema } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { ExperimentFormData } from "@/lib/types";
+import WorklistDialog from "@/components/samples/WorklistDialog";
+import { QC_STATUS_LABELS, QC_STATUS_STYLES } from "@/components/qc/qc-labels";
 
 interface ExperimentCardProps {
   experiment: Experiment;
@@ -49,6 +52,7 @@ const extendedExperimentSchema = insertExperimentSchema.extend({
 export default function ExperimentCard({ experiment, onEdit, onDelete, onSelect }: ExperimentCardProps) {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isWorklistOpen, setIsWorklistOpen] = useState(false);
 
   const form = useForm<ExperimentFormData>({
     resolver: zodResolver(extendedExperimentSchema),
@@ -66,6 +70,13 @@ export default function ExperimentCard({ experiment, onEdit, onDelete, onSelect
   });
 
   const noteCount = notes?.length || 0;
+
+  const { data: samples } = useQuery({
+    queryKey: ['/api/experiments', experiment.id, 'samples'],
+    queryFn: () => fetch(`/api/experiments/${experiment.id}/samples`).then(res => res.json()),
+  });
+
+  const sampleCount = Array.isArray(samples) ? samples.length : 0;
   
   const handleEdit = async (data: ExperimentFormData) => {
     try {
@@ -96,34 +107,55 @@ export default function ExperimentCard({ experiment, onEdit, onDelete, onSelect
       <Card className="bg-white border border-gray-200 rounded-md shadow-sm hover:shadow-md transition-shadow">
         <CardContent className="p-4">
           <div className="flex items-start justify-between mb-2">
-            <h3 className="text-md font-medium text-gray-800">{experiment.name}</h3>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                  <i className="fas fa-ellipsis-v"></i>
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                {onSelect && (
-                  <DropdownMenuItem onClick={() => onSelect(experiment.id)}>
-                    <i className="fas fa-file-alt mr-2"></i> Add Note
-                  </DropdownMenuItem>
-                )}
-                {onEdit && (
-                  <DropdownMenuItem onClick={() => setIsEditDialogOpen(true)}>
-                    <i className="fas fa-edit mr-2"></i> Edit
-                  </DropdownMenuItem>
-                )}
-                {onDelete && (
-                  <DropdownMenuItem 
-                    onClick={() => setIsDeleteDialogOpen(true)}
-                    className="text-red-600"
-                  >
-                    <i className="fas fa-trash-alt mr-2"></i> Delete
-                  </DropdownMenuItem>
-                )}
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <div className="flex items-center gap-2 min-w-0">
+              <h3 className="text-md font-medium text-gray-800">{experiment.name}</h3>
+              {experiment.qcSummary && (
+                <Badge
+                  variant="outline"
+                  className={`text-xs shrink-0 ${QC_STATUS_STYLES[experiment.qcSummary.status]}`}
+                  title={[
+                    `From ${experiment.qcSummary.featureTableName}`,
+                    ...experiment.qcSummary.reasons,
+                  ].join("\n")}
+                >
+                  {QC_STATUS_LABELS[experiment.qcSummary.status]}
+                </Badge>
+              )}
+            </div>
+            {(onSelect || onEdit || onDelete) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                    <i className="fas fa-ellipsis-v"></i>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {onSelect && (
+                    <DropdownMenuItem onClick={() => onSelect(experiment.id)}>
+                      <i className="fas fa-file-alt mr-2"></i> Add Note
+                    </DropdownMenuItem>
+                  )}
+                  {onEdit && (
+                    <DropdownMenuItem onClick={() => setIsEditDialogOpen(true)}>
+                      <i className="fas fa-edit mr-2"></i> Edit
+                    </DropdownMenuItem>
+                  )}
+                  {onEdit && (
+                    <DropdownMenuItem onClick={() => setIsWorklistOpen(true)} disabled={sampleCount === 0}>
+                      <i className="fas fa-list-ol mr-2"></i> Generate Worklist
+                    </DropdownMenuItem>
+                  )}
+                  {onDelete && (
+                    <DropdownMenuItem 
+                      onClick={() => setIsDeleteDialogOpen(true)}
+                      className="text-red-600"
+                    >
+                      <i className="fas fa-trash-alt mr-2"></i> Delete
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
           <p className="text-sm text-gray-600 mb-3 line-clamp-2">
             {experiment.description || "No description provided"}
@@ -131,6 +163,7 @@ export default function ExperimentCard({ experiment, onEdit, onDelete, onSelect
           <div className="flex items-center justify-between text-xs">
             <span className="text-gray-500">
               <i className="fas fa-file-alt mr-1"></i> {noteCount} notes
+              <i className="fas fa-vial ml-3 mr-1"></i> {sampleCount} samples
             </span>
             <span className="text-gray-500">
               <i className="fas fa-calendar-alt mr-1"></i> Updated {
@@ -199,6 +232,14 @@ export default function ExperimentCard({ experiment, onEdit, onDelete, onSelect
         </DialogContent>
       </Dialog>
 
+      {isWorklistOpen && (
+        <WorklistDialog
+          experiment={experiment}
+          isOpen={true}
+          onClose={() => setIsWorklistOpen(false)}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Project, ProjectCollaborator, PublicUser, collaboratorRoles } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AvatarWithFallback } from "@/components/ui/avatar-with-fallback";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ShareProjectDialogProps {
+  project: Project;
+  isOpen: boolean;
+  onClose: () => void;
+  canManage: boolean;
+}
+
+export default function ShareProjectDialog({ project, isOpen, onClose, canManage }: ShareProjectDialogProps) {
+  const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const [selectedRole, setSelectedRole] = useState<string>("Viewer");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const { data: collaborators } = useQuery<ProjectCollaborator[]>({
+    queryKey: ['/api/projects', project.id, 'collaborators'],
+    queryFn: () => fetch(`/api/projects/${project.id}/collaborators`).then(res => res.json()),
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    queryFn: () => fetch('/api/users').then(res => res.json()),
+  });
+
+  const getUser = (userId: number) => users?.find(user => user.id === userId);
+  const owner = getUser(project.ownerId);
+
+  // Users who are neither the owner nor already on the project
+  const availableUsers = (users || []).filter(user =>
+    user.id !== project.ownerId &&
+    !collaborators?.some(collaborator => collaborator.userId === user.id)
+  );
+
+  const invalidateCollaborators = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', project.id, 'collaborators'] });
+  };
+
+  const handleAdd = async () => {
+    if (!selectedUserId) return;
+    setErrorMessage(null);
+
+    try {
+      await apiRequest('POST', `/api/projects/${project.id}/collaborators`, {
+        userId: parseInt(selectedUserId),
+        role: selectedRole,
+      });
+      invalidateCollaborators();
+      setSelectedUserId("");
+      setSelectedRole("Viewer");
+    } catch (error) {
+      console.error("Failed to add collaborator:", error);
+      setErrorMessage("Failed to add collaborator");
+    }
+  };
+
+  const handleRemove = async (userId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/projects/${project.id}/collaborators/${userId}`, undefined);
+      invalidateCollaborators();
+    } catch (error) {
+      console.error("Failed to remove collaborator:", error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share "{project.name}"</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between py-1">
+            <div className="flex items-center">
+              <AvatarWithFallback name={owner?.displayName} className="h-8 w-8 mr-2" />
+              <span className="text-sm font-medium">{owner?.displayName || 'Unknown User'}</span>
+            </div>
+            <span className="text-xs text-gray-500">Owner</span>
+          </div>
+
+          {collaborators?.map(collaborator => {
+            const user = getUser(collaborator.userId);
+            return (
+              <div key={collaborator.id} className="flex items-center justify-between py-1">
+                <div className="flex items-center">
+                  <AvatarWithFallback name={user?.displayName} className="h-8 w-8 mr-2" />
+                  <span className="text-sm font-medium">{user?.displayName || 'Unknown User'}</span>
+                </div>
+                <div className="flex items-center">
+                  <span className="text-xs text-gray-500">{collaborator.role}</span>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-2 h-7 w-7 p-0 text-gray-400 hover:text-red-500"
+                      onClick={() => handleRemove(collaborator.userId)}
+                    >
+                      <i className="fas fa-times"></i>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {canManage && (
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Add collaborator</h3>
+            <div className="flex space-x-2">
+              <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableUsers.map(user => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={selectedRole} onValueChange={setSelectedRole}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {collaboratorRoles.map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={!selectedUserId}>Add</Button>
+            </div>
+            {errorMessage && (
+              <p className="text-sm text-red-500 mt-2">{errorMessage}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
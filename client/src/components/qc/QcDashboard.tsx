@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Cell, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import { Experiment, FeaturePage, FeatureTable, QcHistogramBin, QcReport } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectRole } from "@/hooks/use-project-role";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SAMPLE_TYPE_COLORS, SAMPLE_TYPE_LABELS } from "@/components/samples/sample-labels";
+import { QC_STATUS_LABELS, QC_STATUS_STYLES } from "./qc-labels";
+
+// Colours for the internal standard series, in order
+const SERIES_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#9333ea", "#ea580c", "#0891b2", "#ca8a04", "#db2777"];
+const UNMAPPED_COLOR = "#64748b";
+
+const histogramConfig = {
+  count: { label: "Features", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const injectionConfig = {
+  totalIntensity: { label: "Total intensity", color: UNMAPPED_COLOR },
+} satisfies ChartConfig;
+
+const formatPercent = (fraction: number | null) => fraction === null ? "–" : `${Math.round(fraction * 100)}%`;
+const formatNumber = (value: number | null, digits = 1) => value === null ? "–" : value.toFixed(digits);
+
+interface QcDashboardProps {
+  projectId: number;
+  experiments: Experiment[];
+}
+
+// QC metrics of a feature table's pooled-QC and blank injections. The
+// summary stored on the experiment drives the badge on its card; editors can
+// pick other internal standards and store the recomputed summary.
+export default function QcDashboard({ projectId, experiments }: QcDashboardProps) {
+  const [selectedTableId, setSelectedTableId] = useState<number | null>(null);
+  // Undefined means the server's choice: the stored or detected standards
+  const [standards, setStandards] = useState<number[] | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+  const { canEdit } = useProjectRole(projectId);
+  const { toast } = useToast();
+
+  const { data: tables, isLoading: tablesLoading } = useQuery<FeatureTable[]>({
+    queryKey: ['/api/projects', projectId, 'feature-tables'],
+    queryFn: () => fetch(`/api/projects/${projectId}/feature-tables`).then(res => res.json()),
+  });
+
+  const parsedTables = (tables || []).filter(table => table.status === "parsed");
+  const storedTableIds = experiments.flatMap(experiment => experiment.qcSummary ? [experiment.qcSummary.featureTableId] : []);
+  const table = parsedTables.find(candidate => candidate.id === selectedTableId)
+    ?? parsedTables.find(candidate => storedTableIds.includes(candidate.id))
+    ?? parsedTables[0];
+  const experiment = table && experiments.find(candidate => candidate.id === table.experimentId);
+
+  const reportUrl = table && `/api/feature-tables/${table.id}/qc` +
+    (standards ? `?internalStandards=${standards.join(",")}` : "");
+  const { data: report, isLoading: reportLoading, error } = useQuery<QcReport>({
+    queryKey: [reportUrl],
+    enabled: !!table,
+  });
+
+  const selectTable = (tableId: string) => {
+    setSelectedTableId(parseInt(tableId));
+    setStandards(undefined);
+  };
+
+  const handleSave = async () => {
+    if (!table || !report) return;
+    setIsSaving(true);
+    try {
+      await apiRequest('POST', `/api/feature-tables/${table.id}/qc`, {
+        internalStandardIds: report.summary.internalStandardIds,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments/project', projectId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/feature-tables/${table.id}/qc`] });
+      setStandards(undefined);
+      toast({ title: "QC summary saved", description: `Stored on ${experiment?.name ?? "the experiment"}` });
+    } catch (error) {
+      toast({
+        title: "Failed to save QC summary",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (tablesLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (!table) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-md text-center text-gray-500 py-8 text-sm">
+        QC metrics are computed from imported feature tables whose columns are mapped to QC and blank samples.
+      </div>
+    );
+  }
+
+  const stored = experiment?.qcSummary;
+  const isStored = stored?.featureTableId === table.id &&
+    report?.summary.internalStandardIds.join(",") === stored.internalStandardIds.join(",");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <Select value={table.id.toString()} onValueChange={selectTable}>
+          <SelectTrigger className="w-80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {parsedTables.map(candidate => (
+              <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                {candidate.name} ({experiments.find(e => e.id === candidate.experimentId)?.name ?? `#${candidate.experimentId}`})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canEdit && report && (
+          <Button onClick={handleSave} disabled={isSaving || isStored}>
+            <i className="fas fa-save mr-2"></i>
+            {isStored ? "Summary stored" : isSaving ? "Saving..." : "Store as experiment QC summary"}
+          </Button>
+        )}
+      </div>
+
+      {reportLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : error || !report ? (
+        <p className="text-sm text-red-600">{error ? getApiErrorMessage(error) : "Could not compute QC metrics"}</p>
+      ) : (
+        <>
+          <QcSummaryPanel report={report} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartPanel title="QC RSD distribution" subtitle={`${report.summary.rsdFeatureCount} features detected in at least 3 QCs`}>
+              <HistogramChart bins={report.rsdHistogram} />
+            </ChartPanel>
+            <ChartPanel title="Total intensity by injection" subtitle="Sum of all features per injection, in injection order">
+              <InjectionChart report={report} />
+            </ChartPanel>
+            <ChartPanel title="Internal standards" subtitle="Intensity across injection order, excluding blanks">
+              <InternalStandardChart report={report} />
+              <InternalStandardPicker
+                tableId={table.id}
+                report={report}
+                onChange={setStandards}
+              />
+            </ChartPanel>
+            <ChartPanel title="Blank / QC ratio" subtitle="Mean blank signal over mean QC signal per feature">
+              {report.summary.blankInjections > 0 ? (
+                <HistogramChart bins={report.blankRatioHistogram} />
+              ) : (
+                <p className="text-sm text-gray-500 py-8 text-center">No columns are mapped to blank samples</p>
+              )}
+            </ChartPanel>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function QcSummaryPanel({ report }: { report: QcReport }) {
+  const { summary } = report;
+  const metrics = [
+    { label: "QC injections", value: String(summary.qcInjections) },
+    { label: "Median QC RSD", value: summary.medianRsd === null ? "–" : `${formatNumber(summary.medianRsd)}%` },
+    { label: "Features < 20% RSD", value: formatPercent(summary.fractionRsdBelow20) },
+    { label: "Features < 30% RSD", value: formatPercent(summary.fractionRsdBelow30) },
+    {
+      label: "Max IS drift",
+      value: summary.maxInternalStandardDrift === null ? "–" : `${formatNumber(summary.maxInternalStandardDrift)}%`,
+    },
+    { label: "Median blank / QC", value: formatNumber(summary.medianBlankRatio, 3) },
+  ];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-md p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Badge variant="outline" className={QC_STATUS_STYLES[summary.status]}>
+          {QC_STATUS_LABELS[summary.status]}
+        </Badge>
+        <span className="text-xs text-gray-500">
+          {summary.featureCount} features • {summary.blankInjections} blank injections
+        </span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label}>
+            <div className="text-xs text-gray-500">{metric.label}</div>
+            <div className="text-lg font-medium text-gray-900">{metric.value}</div>
+          </div>
+        ))}
+      </div>
+      {summary.reasons.length > 0 && (
+        <ul className="mt-3 text-sm text-gray-700 list-disc list-inside">
+          {summary.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ChartPanel({ title, subtitle, children }: { title: string; subtitle: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-md p-3">
+      <h4 className="text-sm font-medium text-gray-800">{title}</h4>
+      <p className="text-xs text-gray-500 mb-2">{subtitle}</p>
+      {children}
+    </div>
+  );
+}
+
+function HistogramChart({ bins }: { bins: QcHistogramBin[] }) {
+  return (
+    <ChartContainer config={histogramConfig} className="h-56 w-full">
+      <BarChart data={bins} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="bin" tick={{ fontSize: 10 }} interval={0} />
+        <YAxis allowDecimals={false} width={40} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" isAnimationActive={false} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+function InjectionChart({ report }: { report: QcReport }) {
+  const sampleTypes = Array.from(new Set(report.injections.flatMap(injection => injection.sampleType ? [injection.sampleType] : [])));
+
+  return (
+    <div>
+      <ChartContainer config={injectionConfig} className="h-56 w-full">
+        <BarChart data={report.injections} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="injectionOrder" tick={{ fontSize: 10 }} />
+          <YAxis tickFormatter={(value: number) => value.toExponential(1)} width={56} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const injection = payload[0]?.payload as QcReport["injections"][number] | undefined;
+                  return injection ? `${injection.injectionOrder}. ${injection.columnName}` : "";
+                }}
+              />
+            }
+          />
+          <Bar dataKey="totalIntensity" isAnimationActive={false}>
+            {report.injections.map((injection, index) => (
+              <Cell key={index} fill={injection.sampleType ? SAMPLE_TYPE_COLORS[injection.sampleType] : UNMAPPED_COLOR} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      <div className="flex items-center gap-3 text-xs text-gray-600 mt-1">
+        {sampleTypes.map(type => (
+          <span key={type} className="flex items-center gap-1">
+            <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SAMPLE_TYPE_COLORS[type] }}></span>
+            {SAMPLE_TYPE_LABELS[type]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function InternalStandardChart({ report }: { report: QcReport }) {
+  if (report.internalStandards.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No internal standards selected</p>;
+  }
+
+  const config: ChartConfig = Object.fromEntries(report.internalStandards.map((standard, index) => [
+    `is${standard.featureId}`,
+    {
+      label: `${standard.name || standard.featureKey} (${standard.drift === null ? "–" : `${formatNumber(standard.drift)}%`})`,
+      color: SERIES_COLORS[index % SERIES_COLORS.length],
+    },
+  ]));
+
+  return (
+    <ChartContainer config={config} className="h-56 w-full">
+      <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <CartesianGrid />
+        <XAxis dataKey="injectionOrder" type="number" name="Injection" domain={["dataMin", "dataMax"]} tick={{ fontSize: 10 }} />
+        <YAxis dataKey="intensity" type="number" name="Intensity" tickFormatter={(value: number) => value.toExponential(1)} width={56} />
+        <ZAxis range={[20, 20]} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {report.internalStandards.map(standard => (
+          <Scatter
+            key={standard.featureId}
+            name={`is${standard.featureId}`}
+            data={standard.points}
+            fill={`var(--color-is${standard.featureId})`}
+            line
+            isAnimationActive={false}
+          />
+        ))}
+      </ScatterChart>
+    </ChartContainer>
+  );
+}
+
+interface InternalStandardPickerProps {
+  tableId: number;
+  report: QcReport;
+  onChange: (featureIds: number[]) => void;
+}
+
+// The internal standards in the report, with a search to add other features
+function InternalStandardPicker({ tableId, report, onChange }: InternalStandardPickerProps) {
+  const [search, setSearch] = useState("");
+  const selectedIds = report.summary.internalStandardIds;
+
+  const params = new URLSearchParams({ search: search.trim(), limit: "8" });
+  const { data: matches } = useQuery<FeaturePage>({
+    queryKey: [`/api/feature-tables/${tableId}/features?${params}`],
+    enabled: search.trim().length > 0,
+  });
+
+  return (
+    <div className="mt-3 space-y-2">
+      <Label>Internal standards</Label>
+      <div className="flex flex-wrap gap-1">
+        {report.internalStandards.map(standard => (
+          <Badge key={standard.featureId} variant="outline" className="font-normal">
+            {standard.name || standard.featureKey}
+            <span className="text-gray-400 ml-1">m/z {standard.mz.toFixed(4)}</span>
+            <button
+              type="button"
+              className="ml-1 text-gray-400 hover:text-gray-700"
+              onClick={() => onChange(selectedIds.filter(id => id !== standard.featureId))}
+              aria-label={`Remove ${standard.name || standard.featureKey}`}
+            >
+              <i className="fas fa-times"></i>
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <Input placeholder="Search features to add..." value={search} onChange={e => setSearch(e.target.value)} />
+      {search.trim() && matches && (
+        <div className="border rounded divide-y text-sm max-h-48 overflow-y-auto">
+          {matches.features.filter(feature => !selectedIds.includes(feature.id)).map(feature => (
+            <button
+              key={feature.id}
+              type="button"
+              className="w-full text-left px-2 py-1 hover:bg-gray-50"
+              onClick={() => {
+                onChange([...selectedIds, feature.id]);
+                setSearch("");
+              }}
+            >
+              {feature.name || feature.featureKey}
+              <span className="text-gray-400 ml-2 font-mono">m/z {feature.mz.toFixed(4)}</span>
+              {feature.rt !== null && <span className="text-gray-400 ml-2">{feature.rt.toFixed(2)} min</span>}
+            </button>
+          ))}
+          {matches.total === 0 && <div className="px-2 py-1 text-gray-500">No matching features</div>}
+        </div>
+      )}
+    </div>
+  );
+}
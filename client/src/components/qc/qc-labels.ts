@@ -0,0 +1,13 @@
+import { QcStatus } from "@shared/schema";
+
+export const QC_STATUS_LABELS: Record<QcStatus, string> = {
+  pass: "QC pass",
+  warn: "QC warning",
+  fail: "QC fail",
+};
+
+export const QC_STATUS_STYLES: Record<QcStatus, string> = {
+  pass: "bg-green-100 text-green-800 border-green-200",
+  warn: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  fail: "bg-red-100 text-red-800 border-red-200",
+};
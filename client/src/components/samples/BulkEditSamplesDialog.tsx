@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Experiment, SampleChanges, SampleType, sampleTypes } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SAMPLE_TYPE_LABELS } from "./sample-labels";
+
+const UNCHANGED = "unchanged";
+
+type ExperimentAction = typeof UNCHANGED | "add" | "remove";
+
+interface BulkEditSamplesDialogProps {
+  projectId: number;
+  experiments: Experiment[];
+  sampleIds: number[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Applies the same changes to every selected sample. Fields left blank are
+// not touched, so only what the user fills in is overwritten.
+export default function BulkEditSamplesDialog({
+  projectId,
+  experiments,
+  sampleIds,
+  isOpen,
+  onClose,
+  onSaved
+}: BulkEditSamplesDialogProps) {
+  const [sampleType, setSampleType] = useState<SampleType | typeof UNCHANGED>(UNCHANGED);
+  const [matrix, setMatrix] = useState("");
+  const [organism, setOrganism] = useState("");
+  const [collectionDate, setCollectionDate] = useState("");
+  const [studyGroup, setStudyGroup] = useState("");
+  const [attributeKey, setAttributeKey] = useState("");
+  const [attributeValue, setAttributeValue] = useState("");
+  const [experimentActions, setExperimentActions] = useState<Record<number, ExperimentAction>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const experimentsWith = (action: ExperimentAction) =>
+    experiments.filter(experiment => experimentActions[experiment.id] === action).map(experiment => experiment.id);
+
+  const buildChanges = (): SampleChanges => {
+    const changes: SampleChanges = {};
+    if (sampleType !== UNCHANGED) changes.sampleType = sampleType;
+    if (matrix.trim()) changes.matrix = matrix.trim();
+    if (organism.trim()) changes.organism = organism.trim();
+    if (collectionDate) changes.collectionDate = collectionDate;
+    if (studyGroup.trim()) changes.studyGroup = studyGroup.trim();
+    if (attributeKey.trim()) changes.attributes = { [attributeKey.trim()]: attributeValue.trim() };
+    if (experimentsWith("add").length > 0) changes.addExperimentIds = experimentsWith("add");
+    if (experimentsWith("remove").length > 0) changes.removeExperimentIds = experimentsWith("remove");
+    return changes;
+  };
+
+  const changes = buildChanges();
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest('PATCH', `/api/projects/${projectId}/samples`, { sampleIds, changes });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'samples'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments'] });
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Failed to update samples",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit {sampleIds.length} {sampleIds.length === 1 ? "Sample" : "Samples"}</DialogTitle>
+          <DialogDescription>Only the fields you fill in are changed.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={sampleType} onValueChange={value => setSampleType(value as SampleType | typeof UNCHANGED)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNCHANGED}>Keep current</SelectItem>
+                  {sampleTypes.map(type => (
+                    <SelectItem key={type} value={type}>{SAMPLE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-matrix">Matrix</Label>
+              <Input id="bulk-matrix" placeholder="Keep current" value={matrix} onChange={e => setMatrix(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-organism">Organism</Label>
+              <Input id="bulk-organism" placeholder="Keep current" value={organism} onChange={e => setOrganism(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-date">Collection Date</Label>
+              <Input id="bulk-date" type="date" value={collectionDate} onChange={e => setCollectionDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-group">Study Group</Label>
+              <Input id="bulk-group" placeholder="Keep current" value={studyGroup} onChange={e => setStudyGroup(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Attribute</Label>
+            <div className="flex items-center gap-2">
+              <Input placeholder="Name" value={attributeKey} onChange={e => setAttributeKey(e.target.value)} />
+              <Input placeholder="Value" value={attributeValue} onChange={e => setAttributeValue(e.target.value)} />
+            </div>
+            <p className="text-xs text-gray-500">Leave the value empty to remove the attribute from the selected samples.</p>
+          </div>
+
+          {experiments.length > 0 && (
+            <div className="space-y-1">
+              <Label>Experiments</Label>
+              <div className="space-y-1 max-h-40 overflow-y-auto">
+                {experiments.map(experiment => (
+                  <div key={experiment.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{experiment.name}</span>
+                    <Select
+                      value={experimentActions[experiment.id] ?? UNCHANGED}
+                      onValueChange={value => setExperimentActions({
+                        ...experimentActions,
+                        [experiment.id]: value as ExperimentAction
+                      })}
+                    >
+                      <SelectTrigger className="w-36 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNCHANGED}>No change</SelectItem>
+                        <SelectItem value="add">Link</SelectItem>
+                        <SelectItem value="remove">Unlink</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" disabled={!hasChanges || isSubmitting} onClick={handleSubmit}>
+            {isSubmitting ? "Saving..." : "Apply Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
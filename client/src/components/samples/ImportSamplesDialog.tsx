@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Experiment, InsertSample, SampleImportError, SampleImportResult } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { SAMPLE_TYPE_LABELS, SAMPLE_TYPE_STYLES } from "./sample-labels";
+
+const PREVIEW_ROWS = 100;
+
+interface ImportSamplesDialogProps {
+  projectId: number;
+  experiments: Experiment[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Imports a sample sheet in two steps: the file is first validated with a
+// dry run so every problem can be shown against its row, and samples are only
+// created once the whole sheet is valid.
+export default function ImportSamplesDialog({ projectId, experiments, isOpen, onClose }: ImportSamplesDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [experimentIds, setExperimentIds] = useState<number[]>([]);
+  const [preview, setPreview] = useState<InsertSample[] | null>(null);
+  const [errors, setErrors] = useState<SampleImportError[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const resetResult = () => {
+    setPreview(null);
+    setErrors([]);
+    setMessage(null);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    resetResult();
+    setFileName(file?.name ?? null);
+    setCsv(file ? await file.text() : null);
+  };
+
+  const toggleExperiment = (experimentId: number, checked: boolean) => {
+    resetResult();
+    setExperimentIds(checked
+      ? [...experimentIds, experimentId]
+      : experimentIds.filter(id => id !== experimentId));
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (csv === null) return;
+
+    const params = new URLSearchParams({ dryRun: String(dryRun) });
+    if (experimentIds.length > 0) params.set("experimentIds", experimentIds.join(","));
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/samples/import?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: csv,
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setPreview(null);
+        setErrors(body.errors ?? []);
+        setMessage(body.message ?? res.statusText);
+        return;
+      }
+
+      if (dryRun) {
+        setPreview((body as SampleImportResult).samples);
+        setErrors([]);
+        setMessage(null);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'samples'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/experiments'] });
+        toast({ title: `Imported ${body.length} ${body.length === 1 ? "sample" : "samples"}` });
+        onClose();
+      }
+    } catch {
+      setMessage("Could not reach the server");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const experimentName = (experimentId: number) =>
+    experiments.find(experiment => experiment.id === experimentId)?.name ?? `#${experimentId}`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Samples</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or tab-separated sample sheet with a "Sample ID" column. Type, Matrix, Organism,
+            Collection Date, Group and Experiments columns are recognized; any other column is kept as an attribute.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="sample-sheet">Sample sheet</Label>
+            <Input
+              id="sample-sheet"
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={e => handleFileChange(e.target.files?.[0])}
+              className="mt-1"
+            />
+          </div>
+
+          {experiments.length > 0 && (
+            <div>
+              <Label>Link every sample to</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                {experiments.map(experiment => (
+                  <label key={experiment.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={experimentIds.includes(experiment.id)}
+                      onCheckedChange={checked => toggleExperiment(experiment.id, checked === true)}
+                    />
+                    {experiment.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {message && (
+            <div className="border border-red-200 bg-red-50 rounded-md p-3">
+              <p className="text-sm font-medium text-red-700">
+                <i className="fas fa-exclamation-triangle mr-1"></i> {message}
+              </p>
+              {errors.length > 0 && (
+                <ul className="text-xs text-red-700 mt-2 space-y-0.5 max-h-48 overflow-y-auto">
+                  {errors.map((error, index) => (
+                    <li key={index}>
+                      <span className="font-medium">Row {error.row}:</span> {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <div>
+              <p className="text-sm text-green-700 mb-2">
+                <i className="fas fa-check-circle mr-1"></i>
+                {fileName} is valid: {preview.length} {preview.length === 1 ? "sample" : "samples"} ready to import
+              </p>
+              <div className="max-h-64 overflow-y-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sample ID</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Matrix</TableHead>
+                      <TableHead>Organism</TableHead>
+                      <TableHead>Collected</TableHead>
+                      <TableHead>Group</TableHead>
+                      <TableHead>Experiments</TableHead>
+                      <TableHead>Attributes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.slice(0, PREVIEW_ROWS).map(sample => (
+                      <TableRow key={sample.sampleCode}>
+                        <TableCell className="font-mono text-sm">{sample.sampleCode}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={SAMPLE_TYPE_STYLES[sample.sampleType ?? "study"]}>
+                            {SAMPLE_TYPE_LABELS[sample.sampleType ?? "study"]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{sample.matrix}</TableCell>
+                        <TableCell className="text-sm italic">{sample.organism}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{sample.collectionDate}</TableCell>
+                        <TableCell className="text-sm">{sample.studyGroup}</TableCell>
+                        <TableCell className="text-xs">{sample.experimentIds.map(experimentName).join(", ")}</TableCell>
+                        <TableCell className="text-xs text-gray-600">
+                          {Object.entries(sample.attributes ?? {}).map(([key, value]) => `${key}: ${value}`).join("; ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500 mt-1">Showing the first {PREVIEW_ROWS} samples</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button type="button" disabled={isSubmitting} onClick={() => submit(false)}>
+              {isSubmitting ? "Importing..." : `Import ${preview.length} ${preview.length === 1 ? "sample" : "samples"}`}
+            </Button>
+          ) : (
+            <Button type="button" disabled={csv === null || isSubmitting} onClick={() => submit(true)}>
+              {isSubmitting ? "Checking..." : "Validate"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
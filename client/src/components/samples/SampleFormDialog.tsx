@@ -0,0 +1,270 @@
+import { Experiment, SampleWithExperiments, sampleTypes } from "@shared/schema";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SAMPLE_TYPE_LABELS } from "./sample-labels";
+
+interface SampleFormDialogProps {
+  projectId: number;
+  experiments: Experiment[];
+  // The sample being edited, or null to register a new one
+  sample: SampleWithExperiments | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const sampleFormSchema = z.object({
+  sampleCode: z.string().trim().min(1, "Sample ID is required").max(100),
+  sampleType: z.enum(sampleTypes),
+  matrix: z.string(),
+  organism: z.string(),
+  collectionDate: z.string(),
+  studyGroup: z.string(),
+  attributes: z.array(z.object({ key: z.string(), value: z.string() })),
+  experimentIds: z.array(z.number()),
+});
+
+type SampleFormData = z.infer<typeof sampleFormSchema>;
+
+export default function SampleFormDialog({ projectId, experiments, sample, isOpen, onClose }: SampleFormDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<SampleFormData>({
+    resolver: zodResolver(sampleFormSchema),
+    defaultValues: {
+      sampleCode: sample?.sampleCode ?? "",
+      sampleType: sample?.sampleType ?? "study",
+      matrix: sample?.matrix ?? "",
+      organism: sample?.organism ?? "",
+      collectionDate: sample?.collectionDate ?? "",
+      studyGroup: sample?.studyGroup ?? "",
+      attributes: Object.entries(sample?.attributes ?? {}).map(([key, value]) => ({ key, value })),
+      experimentIds: sample?.experimentIds ?? [],
+    }
+  });
+
+  const attributes = useFieldArray({ control: form.control, name: "attributes" });
+
+  const handleSubmit = async (data: SampleFormData) => {
+    const payload = {
+      sampleCode: data.sampleCode,
+      sampleType: data.sampleType,
+      matrix: data.matrix.trim() || null,
+      organism: data.organism.trim() || null,
+      collectionDate: data.collectionDate || null,
+      studyGroup: data.studyGroup.trim() || null,
+      attributes: Object.fromEntries(
+        data.attributes
+          .filter(attribute => attribute.key.trim() && attribute.value.trim())
+          .map(attribute => [attribute.key.trim(), attribute.value.trim()])
+      ),
+      experimentIds: data.experimentIds,
+    };
+
+    try {
+      if (sample) {
+        await apiRequest('PUT', `/api/samples/${sample.id}`, payload);
+      } else {
+        await apiRequest('POST', `/api/projects/${projectId}/samples`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'samples'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments'] });
+      onClose();
+    } catch (error) {
+      toast({
+        title: sample ? "Failed to update sample" : "Failed to add sample",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const textField = (name: "matrix" | "organism" | "studyGroup", label: string, placeholder: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sample ? "Edit Sample" : "Add Sample"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="sampleCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sample ID</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. S001" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="sampleType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {sampleTypes.map(type => (
+                          <SelectItem key={type} value={type}>{SAMPLE_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {textField("matrix", "Matrix", "e.g. Plasma")}
+              {textField("organism", "Organism", "e.g. Homo sapiens")}
+
+              <FormField
+                control={form.control}
+                name="collectionDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Collection Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {textField("studyGroup", "Study Group", "e.g. Control")}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Attributes</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => attributes.append({ key: "", value: "" })}
+                >
+                  <i className="fas fa-plus mr-1"></i> Add attribute
+                </Button>
+              </div>
+              {attributes.fields.length === 0 && (
+                <p className="text-xs text-gray-500">No additional attributes</p>
+              )}
+              <div className="space-y-2">
+                {attributes.fields.map((attribute, index) => (
+                  <div key={attribute.id} className="flex items-center gap-2">
+                    <Input placeholder="Name" {...form.register(`attributes.${index}.key`)} />
+                    <Input placeholder="Value" {...form.register(`attributes.${index}.value`)} />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 shrink-0"
+                      onClick={() => attributes.remove(index)}
+                      aria-label="Remove attribute"
+                    >
+                      <i className="fas fa-times text-gray-500"></i>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {experiments.length > 0 && (
+              <FormField
+                control={form.control}
+                name="experimentIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Experiments</FormLabel>
+                    <div className="space-y-1 max-h-32 overflow-y-auto">
+                      {experiments.map(experiment => (
+                        <label key={experiment.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(experiment.id)}
+                            onCheckedChange={checked => field.onChange(
+                              checked
+                                ? [...field.value, experiment.id]
+                                : field.value.filter(id => id !== experiment.id)
+                            )}
+                          />
+                          {experiment.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : sample ? "Save Changes" : "Add Sample"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Experiment, SampleWithExperiments } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectRole } from "@/hooks/use-project-role";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import SampleFormDialog from "./SampleFormDialog";
+import ImportSamplesDialog from "./ImportSamplesDialog";
+import BulkEditSamplesDialog from "./BulkEditSamplesDialog";
+import { SAMPLE_TYPE_LABELS, SAMPLE_TYPE_STYLES } from "./sample-labels";
+
+interface SampleRegistryProps {
+  projectId: number;
+  experiments: Experiment[];
+}
+
+export default function SampleRegistry({ projectId, experiments }: SampleRegistryProps) {
+  const [search, setSearch] = useState("");
+  const [experimentFilter, setExperimentFilter] = useState("all");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [editingSample, setEditingSample] = useState<SampleWithExperiments | null>(null);
+  const [deletingSample, setDeletingSample] = useState<SampleWithExperiments | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isBulkEditOpen, setIsBulkEditOpen] = useState(false);
+  const { canEdit } = useProjectRole(projectId);
+  const { toast } = useToast();
+
+  const { data: samples, isLoading } = useQuery<SampleWithExperiments[]>({
+    queryKey: ['/api/projects', projectId, 'samples'],
+    queryFn: () => fetch(`/api/projects/${projectId}/samples`).then(res => res.json()),
+  });
+
+  const experimentName = (experimentId: number) =>
+    experiments.find(experiment => experiment.id === experimentId)?.name ?? `#${experimentId}`;
+
+  const searchTerm = search.trim().toLowerCase();
+  const visibleSamples = (samples || []).filter(sample => {
+    if (experimentFilter === "none" && sample.experimentIds.length > 0) return false;
+    if (experimentFilter !== "all" && experimentFilter !== "none" &&
+        !sample.experimentIds.includes(parseInt(experimentFilter))) return false;
+    if (!searchTerm) return true;
+    return [sample.sampleCode, sample.matrix, sample.organism, sample.studyGroup, ...Object.values(sample.attributes)]
+      .some(value => value?.toLowerCase().includes(searchTerm));
+  });
+
+  const allVisibleSelected = visibleSamples.length > 0 && visibleSamples.every(sample => selectedIds.has(sample.id));
+
+  const toggleAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleSamples.map(sample => sample.id)));
+  };
+
+  const toggleSample = (sampleId: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(sampleId)) next.delete(sampleId);
+    else next.add(sampleId);
+    setSelectedIds(next);
+  };
+
+  const handleDelete = async (sample: SampleWithExperiments) => {
+    try {
+      await apiRequest('DELETE', `/api/samples/${sample.id}`, undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'samples'] });
+      setSelectedIds(new Set(Array.from(selectedIds).filter(id => id !== sample.id)));
+      setDeletingSample(null);
+    } catch (error) {
+      toast({
+        title: "Failed to delete sample",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Search samples..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="w-64"
+          />
+          <Select value={experimentFilter} onValueChange={setExperimentFilter}>
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All experiments</SelectItem>
+              <SelectItem value="none">Not linked to an experiment</SelectItem>
+              {experiments.map(experiment => (
+                <SelectItem key={experiment.id} value={experiment.id.toString()}>{experiment.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {selectedIds.size > 0 && (
+              <Button variant="outline" onClick={() => setIsBulkEditOpen(true)}>
+                <i className="fas fa-pen mr-2"></i>
+                Edit {selectedIds.size} selected
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <i className="fas fa-file-import mr-2"></i>
+              Import CSV
+            </Button>
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <i className="fas fa-plus mr-2"></i>
+              Add Sample
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canEdit && (
+                  <TableHead className="w-8">
+                    <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAll} aria-label="Select all" />
+                  </TableHead>
+                )}
+                <TableHead>Sample ID</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Matrix</TableHead>
+                <TableHead>Organism</TableHead>
+                <TableHead>Collected</TableHead>
+                <TableHead>Group</TableHead>
+                <TableHead>Experiments</TableHead>
+                <TableHead>Attributes</TableHead>
+                {canEdit && <TableHead className="w-8"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleSamples.length > 0 ? (
+                visibleSamples.map(sample => (
+                  <TableRow key={sample.id}>
+                    {canEdit && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(sample.id)}
+                          onCheckedChange={() => toggleSample(sample.id)}
+                          aria-label={`Select ${sample.sampleCode}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-medium font-mono text-sm">{sample.sampleCode}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={SAMPLE_TYPE_STYLES[sample.sampleType]}>
+                        {SAMPLE_TYPE_LABELS[sample.sampleType]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{sample.matrix}</TableCell>
+                    <TableCell className="text-sm italic">{sample.organism}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{sample.collectionDate}</TableCell>
+                    <TableCell className="text-sm">{sample.studyGroup}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {sample.experimentIds.map(experimentId => (
+                          <Badge key={experimentId} variant="outline" className="text-xs font-normal">
+                            {experimentName(experimentId)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {Object.entries(sample.attributes).map(([key, value]) => (
+                        <div key={key}>
+                          <span className="text-gray-400">{key}:</span> {value}
+                        </div>
+                      ))}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                              <i className="fas fa-ellipsis-v"></i>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setEditingSample(sample)}>
+                              <i className="fas fa-edit mr-2"></i> Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setDeletingSample(sample)} className="text-red-600">
+                              <i className="fas fa-trash-alt mr-2"></i> Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 10 : 8} className="text-center text-gray-500 py-8">
+                    {samples && samples.length > 0 ? "No samples match your filters" : "No samples registered yet"}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {samples && samples.length > 0 && (
+        <p className="text-xs text-gray-500 mt-2">
+          {visibleSamples.length} of {samples.length} samples
+        </p>
+      )}
+
+      {(isCreateOpen || editingSample) && (
+        <SampleFormDialog
+          projectId={projectId}
+          experiments={experiments}
+          sample={editingSample}
+          isOpen={true}
+          onClose={() => {
+            setIsCreateOpen(false);
+            setEditingSample(null);
+          }}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deletingSample !== null} onOpenChange={open => !open && setDeletingSample(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Sample</DialogTitle>
+          </DialogHeader>
+          <p className="py-4">
+            Are you sure you want to delete the sample "{deletingSample?.sampleCode}"?
+            It will be unlinked from its experiments. This action cannot be undone.
+          </p>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDeletingSample(null)}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={() => deletingSample && handleDelete(deletingSample)}>
+              Delete Sample
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {isImportOpen && (
+        <ImportSamplesDialog
+          projectId={projectId}
+          experiments={experiments}
+          isOpen={true}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {isBulkEditOpen && (
+        <BulkEditSamplesDialog
+          projectId={projectId}
+          experiments={experiments}
+          sampleIds={Array.from(selectedIds)}
+          isOpen={true}
+          onClose={() => setIsBulkEditOpen(false)}
+          onSaved={() => setSelectedIds(new Set())}
+        />
+      )}
+    </div>
+  );
+}
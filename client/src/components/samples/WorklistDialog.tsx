@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { Experiment, GenerateWorklist, GeneratedWorklist, Worklist, WorklistFormat, worklistFormats } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SAMPLE_TYPE_LABELS, SAMPLE_TYPE_STYLES } from "./sample-labels";
+
+const FORMAT_LABELS: Record<WorklistFormat, string> = {
+  generic: "Generic CSV",
+  xcalibur: "Thermo Xcalibur",
+  masshunter: "Agilent MassHunter",
+  masslynx: "Waters MassLynx",
+};
+
+type CountField = "qcInterval" | "conditioningQcs" | "blanksAtStart" | "blanksAtEnd" | "standardsAtStart" | "standardsAtEnd";
+
+const COUNT_FIELDS: { name: CountField; label: string }[] = [
+  { name: "qcInterval", label: "QC every N samples" },
+  { name: "conditioningQcs", label: "Conditioning QCs" },
+  { name: "blanksAtStart", label: "Blanks at start" },
+  { name: "blanksAtEnd", label: "Blanks at end" },
+  { name: "standardsAtStart", label: "Standards at start" },
+  { name: "standardsAtEnd", label: "Standards at end" },
+];
+
+interface WorklistDialogProps {
+  experiment: Experiment;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Generates an injection sequence from the experiment's registered samples.
+// Previewing fixes the randomization seed, so the saved worklist is exactly
+// the sequence that was previewed.
+export default function WorklistDialog({ experiment, isOpen, onClose }: WorklistDialogProps) {
+  const [options, setOptions] = useState<GenerateWorklist>({
+    format: "generic",
+    randomize: true,
+    qcInterval: 10,
+    conditioningQcs: 3,
+    blanksAtStart: 1,
+    blanksAtEnd: 1,
+    standardsAtStart: 1,
+    standardsAtEnd: 1,
+    batchSize: null,
+    injectionVolume: 5,
+    instrumentMethod: "",
+    dataPath: "",
+  });
+  const [preview, setPreview] = useState<Worklist | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const update = (changes: Partial<GenerateWorklist>) => {
+    setOptions({ ...options, ...changes });
+    setPreview(null);
+  };
+
+  const parseCount = (value: string) => Math.max(0, parseInt(value) || 0);
+
+  const submit = async (dryRun: boolean) => {
+    setIsSubmitting(true);
+    try {
+      const res = await apiRequest('POST', `/api/experiments/${experiment.id}/worklist?dryRun=${dryRun}`, options);
+
+      if (dryRun) {
+        const worklist: Worklist = await res.json();
+        setPreview(worklist);
+        setOptions({ ...options, seed: worklist.seed });
+        return;
+      }
+
+      const generated: GeneratedWorklist = await res.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notes/experiment', experiment.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/attachments/note', generated.note.id] });
+      toast({
+        title: "Worklist saved",
+        description: `${generated.attachment.fileName} was attached to "${generated.note.title}"`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: dryRun ? "Could not generate worklist" : "Failed to save worklist",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate Worklist</DialogTitle>
+          <DialogDescription>
+            Injection sequence for the samples linked to {experiment.name}. The CSV is saved on a new note
+            together with the settings and randomization seed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Layout</Label>
+              <Select value={options.format} onValueChange={value => update({ format: value as WorklistFormat })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {worklistFormats.map(format => (
+                    <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="worklist-seed">Seed</Label>
+              <Input
+                id="worklist-seed"
+                type="number"
+                min={0}
+                placeholder="Random"
+                disabled={!options.randomize}
+                value={options.seed ?? ""}
+                onChange={e => update({ seed: e.target.value === "" ? undefined : parseCount(e.target.value) })}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="worklist-randomize"
+                checked={options.randomize}
+                onCheckedChange={checked => update({ randomize: checked })}
+              />
+              <Label htmlFor="worklist-randomize">Randomize injection order</Label>
+            </div>
+
+            {COUNT_FIELDS.map(({ name, label }) => (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`worklist-${name}`}>{label}</Label>
+                <Input
+                  id={`worklist-${name}`}
+                  type="number"
+                  min={0}
+                  value={options[name]}
+                  onChange={e => update({ [name]: parseCount(e.target.value) })}
+                />
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              <Label htmlFor="worklist-batch-size">Samples per batch</Label>
+              <Input
+                id="worklist-batch-size"
+                type="number"
+                min={1}
+                placeholder="One batch"
+                value={options.batchSize ?? ""}
+                onChange={e => update({ batchSize: parseCount(e.target.value) || null })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="worklist-volume">Injection volume (µL)</Label>
+              <Input
+                id="worklist-volume"
+                type="number"
+                min={0}
+                step="any"
+                value={options.injectionVolume}
+                onChange={e => update({ injectionVolume: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="worklist-method">Instrument method</Label>
+              <Input
+                id="worklist-method"
+                value={options.instrumentMethod}
+                onChange={e => update({ instrumentMethod: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1 col-span-2 md:col-span-3">
+              <Label htmlFor="worklist-path">Data path</Label>
+              <Input
+                id="worklist-path"
+                placeholder="e.g. D:\Data\Study01"
+                value={options.dataPath}
+                onChange={e => update({ dataPath: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {preview && (
+            <div>
+              <p className="text-sm text-gray-600 mb-2">
+                {preview.injections.length} injections in {preview.batchCount} {preview.batchCount === 1 ? "batch" : "batches"}
+                {options.randomize && <> · seed <span className="font-mono">{preview.seed}</span></>}
+              </p>
+              <div className="max-h-72 overflow-y-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Sample ID</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Position</TableHead>
+                      <TableHead>File Name</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.injections.map(injection => (
+                      <TableRow key={injection.injection}>
+                        <TableCell className="text-sm">{injection.injection}</TableCell>
+                        <TableCell className="text-sm">{injection.batch}</TableCell>
+                        <TableCell className="text-sm font-mono">{injection.sampleCode}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={SAMPLE_TYPE_STYLES[injection.sampleType]}>
+                            {SAMPLE_TYPE_LABELS[injection.sampleType]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm font-mono">{injection.plate}:{injection.well}</TableCell>
+                        <TableCell className="text-sm font-mono">{injection.fileName}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button type="button" disabled={isSubmitting} onClick={() => submit(false)}>
+              {isSubmitting ? "Saving..." : "Save to Notebook"}
+            </Button>
+          ) : (
+            <Button type="button" disabled={isSubmitting} onClick={() => submit(true)}>
+              {isSubmitting ? "Generating..." : "Preview"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
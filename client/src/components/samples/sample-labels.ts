@@ -0,0 +1,23 @@
+import { SampleType } from "@shared/schema";
+
+export const SAMPLE_TYPE_LABELS: Record<SampleType, string> = {
+  study: "Study sample",
+  qc: "QC",
+  blank: "Blank",
+  standard: "Standard",
+};
+
+export const SAMPLE_TYPE_STYLES: Record<SampleType, string> = {
+  study: "bg-blue-100 text-blue-800 border-blue-200",
+  qc: "bg-purple-100 text-purple-800 border-purple-200",
+  blank: "bg-gray-100 text-gray-700 border-gray-200",
+  standard: "bg-amber-100 text-amber-800 border-amber-200",
+};
+
+// Chart colours matching SAMPLE_TYPE_STYLES
+export const SAMPLE_TYPE_COLORS: Record<SampleType, string> = {
+  study: "#3b82f6",
+  qc: "#a855f7",
+  blank: "#9ca3af",
+  standard: "#f59e0b",
+};
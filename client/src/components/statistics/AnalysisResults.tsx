@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AnalysisResultPage, AnalysisResultQuery, StatisticalAnalysis } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const PAGE_SIZE = 50;
+// Adjusted p-value for the "significant only" filter
+const SIGNIFICANCE_LEVEL = 0.05;
+
+type SortField = AnalysisResultQuery["sort"];
+
+export const formatPValue = (value: number | null) =>
+  value === null ? "–" : value < 0.001 ? value.toExponential(2) : value.toFixed(3);
+
+interface AnalysisResultsProps {
+  analysis: StatisticalAnalysis;
+}
+
+// Per-feature results of a finished analysis, most significant first
+export default function AnalysisResults({ analysis }: AnalysisResultsProps) {
+  const [sort, setSort] = useState<SortField>("pValue");
+  const [order, setOrder] = useState<"asc" | "desc">("asc");
+  const [significantOnly, setSignificantOnly] = useState(false);
+  const [offset, setOffset] = useState(0);
+
+  const params = new URLSearchParams({ sort, order, offset: String(offset), limit: String(PAGE_SIZE) });
+  if (significantOnly) params.set("maxQValue", String(SIGNIFICANCE_LEVEL));
+  const { data: page, isLoading } = useQuery<AnalysisResultPage>({
+    queryKey: [`/api/analyses/${analysis.id}/results?${params}`],
+  });
+
+  const toggleSort = (field: SortField) => {
+    if (sort === field) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder(field === "log2FoldChange" ? "desc" : "asc");
+    }
+    setOffset(0);
+  };
+
+  const sortHeader = (field: SortField, label: string) => (
+    <button type="button" className="hover:text-gray-900" onClick={() => toggleSort(field)}>
+      {label}
+      {sort === field && <i className={`fas fa-sort-${order === "asc" ? "up" : "down"} ml-1`}></i>}
+    </button>
+  );
+
+  const { groups } = analysis.settings;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={significantOnly}
+          onCheckedChange={checked => {
+            setSignificantOnly(!!checked);
+            setOffset(0);
+          }}
+        />
+        Only features with adjusted p &lt; {SIGNIFICANCE_LEVEL}
+      </label>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead className="text-right">{sortHeader("mz", "m/z")}</TableHead>
+                <TableHead className="text-right">{sortHeader("rt", "RT (min)")}</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">{sortHeader("log2FoldChange", "log2 FC")}</TableHead>
+                <TableHead className="text-right">{analysis.settings.test === "ttest" ? "t" : "F"}</TableHead>
+                <TableHead className="text-right">{sortHeader("pValue", "p")}</TableHead>
+                <TableHead className="text-right">{sortHeader("qValue", "Adjusted p")}</TableHead>
+                {groups.map(group => (
+                  <TableHead key={group} className="text-right whitespace-nowrap">Mean {group}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {page && page.results.length > 0 ? (
+                page.results.map(result => (
+                  <TableRow key={result.id}>
+                    <TableCell className="font-mono text-sm">{result.featureKey}</TableCell>
+                    <TableCell className="font-mono text-sm text-right">{result.mz.toFixed(4)}</TableCell>
+                    <TableCell className="font-mono text-sm text-right">{result.rt?.toFixed(2) ?? ""}</TableCell>
+                    <TableCell className="text-sm max-w-48 truncate" title={result.name ?? undefined}>{result.name}</TableCell>
+                    <TableCell className="font-mono text-sm text-right">{result.log2FoldChange?.toFixed(2) ?? "–"}</TableCell>
+                    <TableCell className="font-mono text-sm text-right">{result.statistic?.toFixed(2) ?? "–"}</TableCell>
+                    <TableCell className="font-mono text-sm text-right">{formatPValue(result.pValue)}</TableCell>
+                    <TableCell className={`font-mono text-sm text-right ${
+                      result.qValue !== null && result.qValue < SIGNIFICANCE_LEVEL ? "text-green-700 font-medium" : ""
+                    }`}>
+                      {formatPValue(result.qValue)}
+                    </TableCell>
+                    {result.groupMeans.map((value, index) => (
+                      <TableCell key={index} className="font-mono text-sm text-right">{value.toPrecision(4)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8 + groups.length} className="text-center text-sm text-gray-500 py-6">
+                    No features to show
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {page && page.total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 text-xs text-gray-500">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, page.total)} of {page.total}
+          </span>
+          <Button type="button" variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(offset - PAGE_SIZE)}>
+            Previous
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={offset + PAGE_SIZE >= page.total}
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
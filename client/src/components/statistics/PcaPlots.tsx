@@ -0,0 +1,524 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Cell, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import {
+  Experiment,
+  FeatureTable,
+  ImputationMethod,
+  NormalizationMethod,
+  PcaLoading,
+  PcaResult,
+  PcaScore,
+  SampleType,
+  ScalingMethod,
+  imputationMethods,
+  normalizationMethods,
+  sampleTypes,
+  scalingMethods,
+} from "@shared/schema";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SAMPLE_TYPE_COLORS, SAMPLE_TYPE_LABELS } from "@/components/samples/sample-labels";
+import { IMPUTATION_LABELS, NORMALIZATION_LABELS, SCALING_LABELS, describePreprocessing } from "./statistics-labels";
+import { FigureLegendEntry, FigureSnapshot, snapshotFigure } from "./figure-snapshot";
+
+// Colours for study groups, in order of first injection
+const GROUP_COLORS = ["#2563eb", "#16a34a", "#ea580c", "#9333ea", "#0891b2", "#ca8a04", "#db2777", "#4b5563"];
+const LOADING_COLOR = "#2563eb";
+const LOADING_LIMITS = [50, 200, 1000];
+
+const COLOR_BY_LABELS = {
+  studyGroup: "Study group",
+  sampleType: "Sample type",
+  injectionOrder: "Injection order",
+};
+
+type ColorBy = keyof typeof COLOR_BY_LABELS;
+
+interface ScorePoint extends PcaScore {
+  x: number;
+  y: number;
+}
+
+interface LoadingPoint extends PcaLoading {
+  x: number;
+  y: number;
+}
+
+// Blue for the first injection through to red for the last
+const injectionColor = (fraction: number) => `hsl(${Math.round(220 * (1 - fraction))}, 75%, 50%)`;
+
+const componentLabel = (result: PcaResult, component: number) =>
+  `PC${component + 1} (${(result.explainedVariance[component] * 100).toFixed(1)}%)`;
+
+interface PcaPlotsProps {
+  experiments: Experiment[];
+  tables: FeatureTable[];
+  // Called with a figure of a plot and the experiment of its table; absent
+  // for users who cannot add notes
+  onSnapshot?: (html: string, experimentId: number) => void;
+}
+
+// PCA score and loading plots of a feature table. Scores are coloured by
+// study group, sample type or injection order, so QC clustering and drift
+// over the run show up; nothing is stored until a plot is added to a note.
+export default function PcaPlots({ experiments, tables, onSnapshot }: PcaPlotsProps) {
+  const [tableId, setTableId] = useState(tables[0]?.id.toString() ?? "");
+  const [selectedTypes, setSelectedTypes] = useState<SampleType[]>(["study", "qc"]);
+  const [maxMissingPercent, setMaxMissingPercent] = useState("50");
+  const [imputation, setImputation] = useState<ImputationMethod>("halfMin");
+  const [knnNeighbors, setKnnNeighbors] = useState("5");
+  const [normalization, setNormalization] = useState<NormalizationMethod>("pqn");
+  const [logTransform, setLogTransform] = useState(true);
+  const [scaling, setScaling] = useState<ScalingMethod>("auto");
+  const [xComponent, setXComponent] = useState(0);
+  const [yComponent, setYComponent] = useState(1);
+  const [colorBy, setColorBy] = useState<ColorBy>("studyGroup");
+  const [loadingLimit, setLoadingLimit] = useState(200);
+  const [snapshotting, setSnapshotting] = useState<"scores" | "loadings" | null>(null);
+  const scoresRef = useRef<HTMLDivElement>(null);
+  const loadingsRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const table = tables.find(candidate => candidate.id.toString() === tableId);
+  const experiment = table && experiments.find(candidate => candidate.id === table.experimentId);
+
+  const query = {
+    sampleTypes: sampleTypes.filter(type => selectedTypes.includes(type)),
+    maxMissingFraction: Math.min(Math.max(parseFloat(maxMissingPercent) || 0, 0), 100) / 100,
+    imputation,
+    knnNeighbors: parseInt(knnNeighbors) || 5,
+    normalization,
+    logTransform,
+    scaling,
+  };
+  const params = new URLSearchParams({
+    sampleTypes: query.sampleTypes.join(","),
+    maxMissingFraction: String(query.maxMissingFraction),
+    imputation,
+    knnNeighbors: String(query.knnNeighbors),
+    normalization,
+    logTransform: String(logTransform),
+    scaling,
+  });
+  const { data: result, isLoading, error } = useQuery<PcaResult>({
+    queryKey: [`/api/feature-tables/${tableId}/pca?${params}`],
+    enabled: !!table && query.sampleTypes.length > 0,
+  });
+
+  const toggleType = (type: SampleType, checked: boolean) =>
+    setSelectedTypes(checked ? [...selectedTypes, type] : selectedTypes.filter(selected => selected !== type));
+
+  if (!table) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-md text-center text-gray-500 py-8 text-sm">
+        PCA is computed from imported feature tables whose columns are mapped to samples.
+      </div>
+    );
+  }
+
+  const componentCount = result?.explainedVariance.length ?? 0;
+  const xAxis = Math.min(xComponent, Math.max(componentCount - 1, 0));
+  const yAxis = Math.min(yComponent, Math.max(componentCount - 1, 0));
+
+  // Score series and their legend, by the chosen colouring
+  const scorePoints: ScorePoint[] = (result?.scores || []).map(score => ({ ...score, x: score.values[xAxis], y: score.values[yAxis] }));
+  const groupLabel = (score: PcaScore) => score.studyGroup ?? SAMPLE_TYPE_LABELS[score.sampleType];
+  const seriesLabels = colorBy === "studyGroup"
+    ? Array.from(new Set(scorePoints.map(groupLabel)))
+    : colorBy === "sampleType" ? sampleTypes.filter(type => scorePoints.some(score => score.sampleType === type)) : [];
+  const seriesColor = (label: string, index: number) => colorBy === "sampleType"
+    ? SAMPLE_TYPE_COLORS[label as SampleType]
+    : label === SAMPLE_TYPE_LABELS.qc ? SAMPLE_TYPE_COLORS.qc : GROUP_COLORS[index % GROUP_COLORS.length];
+  const seriesOf = (score: PcaScore) => colorBy === "studyGroup" ? groupLabel(score) : score.sampleType;
+
+  const orders = scorePoints.map(score => score.injectionOrder);
+  const firstInjection = Math.min(...orders);
+  const lastInjection = Math.max(...orders);
+  const injectionFraction = (order: number) => lastInjection > firstInjection ? (order - firstInjection) / (lastInjection - firstInjection) : 0;
+
+  const scoreConfig: ChartConfig = colorBy === "injectionOrder"
+    ? { s0: { label: "Samples", color: injectionColor(0) } }
+    : Object.fromEntries(seriesLabels.map((label, index) => [
+      `s${index}`,
+      { label: colorBy === "sampleType" ? SAMPLE_TYPE_LABELS[label as SampleType] : label, color: seriesColor(label, index) },
+    ]));
+  const scoreLegend: FigureLegendEntry[] = colorBy === "injectionOrder"
+    ? [
+      { label: `First injection (${firstInjection})`, color: injectionColor(0) },
+      { label: `Last injection (${lastInjection})`, color: injectionColor(1) },
+    ]
+    : seriesLabels.map((label, index) => ({ label: String(scoreConfig[`s${index}`].label), color: seriesColor(label, index) }));
+
+  // Features furthest from the origin on the plotted components
+  const loadingPoints: LoadingPoint[] = (result?.loadings || [])
+    .map(loading => ({ ...loading, x: loading.values[xAxis], y: loading.values[yAxis] }))
+    .sort((a, b) => Math.hypot(b.x, b.y) - Math.hypot(a.x, a.y))
+    .slice(0, loadingLimit);
+  const loadingConfig = {
+    loadings: { label: "Features", color: LOADING_COLOR },
+  } satisfies ChartConfig;
+
+  const snapshotParameters = (): [string, string][] => [
+    ["Feature table", `${table.name} (#${table.id})${experiment ? `, ${experiment.name}` : ""}`],
+    ["Samples", `${query.sampleTypes.map(type => SAMPLE_TYPE_LABELS[type]).join(", ")}; ${scorePoints.length} columns`],
+    ["Preprocessing", `${describePreprocessing(query).join("; ")}; mean-centred`],
+    ["Features", `${result!.featureCount} used, ${result!.excludedFeatureCount} excluded for missing values`],
+    ["Components", `${componentLabel(result!, xAxis)} vs. ${componentLabel(result!, yAxis)}`],
+  ];
+  const snapshotSpec = (plot: string, extra: Record<string, unknown>) => ({
+    plot,
+    featureTableId: table.id,
+    ...query,
+    axes: [xAxis + 1, yAxis + 1],
+    ...extra,
+  });
+
+  const handleSnapshot = async (plot: "scores" | "loadings") => {
+    const container = plot === "scores" ? scoresRef.current : loadingsRef.current;
+    if (!container || !result || !onSnapshot) return;
+    const snapshot: FigureSnapshot = plot === "scores"
+      ? {
+        title: `PCA scores: ${table.name}, coloured by ${COLOR_BY_LABELS[colorBy].toLowerCase()}`,
+        parameters: snapshotParameters(),
+        spec: snapshotSpec("pcaScores", { colorBy }),
+        legend: scoreLegend,
+      }
+      : {
+        title: `PCA loadings: ${table.name}`,
+        parameters: [...snapshotParameters(), ["Plotted", `${loadingPoints.length} features with the largest loadings`]],
+        spec: snapshotSpec("pcaLoadings", { loadingLimit }),
+        legend: [],
+      };
+
+    setSnapshotting(plot);
+    try {
+      onSnapshot(await snapshotFigure(container, snapshot), table.experimentId);
+    } catch (error) {
+      toast({
+        title: "Failed to snapshot plot",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSnapshotting(null);
+    }
+  };
+
+  const snapshotButton = (plot: "scores" | "loadings") => onSnapshot && (
+    <Button variant="outline" size="sm" onClick={() => handleSnapshot(plot)} disabled={snapshotting !== null || !result}>
+      <i className="fas fa-camera mr-2"></i> {snapshotting === plot ? "Capturing..." : "Add to note"}
+    </Button>
+  );
+
+  const componentSelect = (value: number, onChange: (component: number) => void, id: string) => (
+    <Select value={value.toString()} onValueChange={component => onChange(parseInt(component))}>
+      <SelectTrigger id={id} className="h-8 w-24">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Array.from({ length: Math.max(componentCount, 2) }, (_, component) => (
+          <SelectItem key={component} value={component.toString()}>PC{component + 1}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white border border-gray-200 rounded-md p-3 space-y-3">
+        <div className="flex items-end gap-4 flex-wrap">
+          <div className="space-y-1">
+            <Label htmlFor="pca-table" className="text-xs">Feature table</Label>
+            <Select value={tableId} onValueChange={setTableId}>
+              <SelectTrigger id="pca-table" className="h-8 w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {tables.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                    {candidate.name} ({experiments.find(e => e.id === candidate.experimentId)?.name ?? `#${candidate.experimentId}`})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Samples</Label>
+            <div className="flex items-center gap-3 h-8">
+              {sampleTypes.map(type => (
+                <label key={type} className="flex items-center gap-1.5 text-sm">
+                  <Checkbox checked={selectedTypes.includes(type)} onCheckedChange={checked => toggleType(type, !!checked)} />
+                  {SAMPLE_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-end gap-4 flex-wrap">
+          <div className="space-y-1">
+            <Label htmlFor="pca-missing" className="text-xs">Max. missing (%)</Label>
+            <Input
+              id="pca-missing"
+              type="number"
+              min="0"
+              max="100"
+              value={maxMissingPercent}
+              onChange={event => setMaxMissingPercent(event.target.value)}
+              className="h-8 w-24"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pca-imputation" className="text-xs">Imputation</Label>
+            <Select value={imputation} onValueChange={value => setImputation(value as ImputationMethod)}>
+              <SelectTrigger id="pca-imputation" className="h-8 w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {imputationMethods.map(method => (
+                  <SelectItem key={method} value={method}>
+                    {method === "none" ? "None (drop incomplete features)" : IMPUTATION_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {imputation === "knn" && (
+            <div className="space-y-1">
+              <Label htmlFor="pca-knn" className="text-xs">Neighbours (k)</Label>
+              <Input
+                id="pca-knn"
+                type="number"
+                min="1"
+                max="50"
+                value={knnNeighbors}
+                onChange={event => setKnnNeighbors(event.target.value)}
+                className="h-8 w-20"
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="pca-normalization" className="text-xs">Normalization</Label>
+            <Select value={normalization} onValueChange={value => setNormalization(value as NormalizationMethod)}>
+              <SelectTrigger id="pca-normalization" className="h-8 w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {normalizationMethods.map(method => (
+                  <SelectItem key={method} value={method}>{NORMALIZATION_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pca-scaling" className="text-xs">Scaling</Label>
+            <Select value={scaling} onValueChange={value => setScaling(value as ScalingMethod)}>
+              <SelectTrigger id="pca-scaling" className="h-8 w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scalingMethods.map(method => (
+                  <SelectItem key={method} value={method}>{SCALING_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-1.5">
+            <Checkbox checked={logTransform} onCheckedChange={checked => setLogTransform(!!checked)} />
+            log2 transform
+          </label>
+        </div>
+
+        <div className="flex items-end gap-4 flex-wrap">
+          <div className="space-y-1">
+            <Label htmlFor="pca-x" className="text-xs">X axis</Label>
+            {componentSelect(xAxis, setXComponent, "pca-x")}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pca-y" className="text-xs">Y axis</Label>
+            {componentSelect(yAxis, setYComponent, "pca-y")}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pca-color" className="text-xs">Colour scores by</Label>
+            <Select value={colorBy} onValueChange={value => setColorBy(value as ColorBy)}>
+              <SelectTrigger id="pca-color" className="h-8 w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COLOR_BY_LABELS) as ColorBy[]).map(key => (
+                  <SelectItem key={key} value={key}>{COLOR_BY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pca-loadings" className="text-xs">Loadings shown</Label>
+            <Select value={loadingLimit.toString()} onValueChange={value => setLoadingLimit(parseInt(value))}>
+              <SelectTrigger id="pca-loadings" className="h-8 w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOADING_LIMITS.map(limit => (
+                  <SelectItem key={limit} value={limit.toString()}>Top {limit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {query.sampleTypes.length === 0 ? (
+        <p className="text-sm text-gray-500">Select at least one sample type</p>
+      ) : isLoading ? (
+        <Skeleton className="h-80 w-full" />
+      ) : error || !result ? (
+        <p className="text-sm text-red-600">{error ? getApiErrorMessage(error) : "Could not compute the PCA"}</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">
+            {result.featureCount} features used
+            {result.excludedFeatureCount > 0 && `, ${result.excludedFeatureCount} excluded for missing values`};{" "}
+            explained variance {result.explainedVariance.map((fraction, component) =>
+              `PC${component + 1} ${(fraction * 100).toFixed(1)}%`).join(", ")}
+          </p>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-white border border-gray-200 rounded-md p-3">
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-800">Scores</h4>
+                  <p className="text-xs text-gray-500">One point per sample column, coloured by {COLOR_BY_LABELS[colorBy].toLowerCase()}</p>
+                </div>
+                {snapshotButton("scores")}
+              </div>
+              <div ref={scoresRef}>
+                <ChartContainer config={scoreConfig} className="h-80 w-full">
+                  <ScatterChart margin={{ top: 8, right: 16, bottom: 16, left: 8 }}>
+                    <CartesianGrid />
+                    <XAxis
+                      dataKey="x"
+                      type="number"
+                      name={`PC${xAxis + 1}`}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(value: number) => value.toFixed(1)}
+                      label={{ value: componentLabel(result, xAxis), position: "insideBottom", offset: -8, fontSize: 11 }}
+                    />
+                    <YAxis
+                      dataKey="y"
+                      type="number"
+                      name={`PC${yAxis + 1}`}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(value: number) => value.toFixed(1)}
+                      width={48}
+                      label={{ value: componentLabel(result, yAxis), angle: -90, position: "insideLeft", fontSize: 11 }}
+                    />
+                    <ZAxis range={[36, 36]} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          hideIndicator
+                          labelFormatter={(_, payload) => {
+                            const score = payload[0]?.payload as ScorePoint | undefined;
+                            return score
+                              ? `${score.sampleCode} (${groupLabel(score)}, injection ${score.injectionOrder})`
+                              : "";
+                          }}
+                        />
+                      }
+                    />
+                    {colorBy === "injectionOrder" ? (
+                      <Scatter name="s0" data={scorePoints} isAnimationActive={false}>
+                        {scorePoints.map(score => (
+                          <Cell key={score.position} fill={injectionColor(injectionFraction(score.injectionOrder))} />
+                        ))}
+                      </Scatter>
+                    ) : (
+                      seriesLabels.map((label, index) => (
+                        <Scatter
+                          key={label}
+                          name={`s${index}`}
+                          data={scorePoints.filter(score => seriesOf(score) === label)}
+                          fill={`var(--color-s${index})`}
+                          isAnimationActive={false}
+                        />
+                      ))
+                    )}
+                    {colorBy !== "injectionOrder" && <ChartLegend content={<ChartLegendContent />} />}
+                  </ScatterChart>
+                </ChartContainer>
+              </div>
+              {colorBy === "injectionOrder" && (
+                <div className="flex items-center gap-2 text-xs text-gray-600 mt-1">
+                  <span>Injection {firstInjection}</span>
+                  <span
+                    className="inline-block h-2.5 w-32 rounded-sm"
+                    style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(injectionColor).join(", ")})` }}
+                  ></span>
+                  <span>{lastInjection}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-md p-3">
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-800">Loadings</h4>
+                  <p className="text-xs text-gray-500">
+                    The {loadingPoints.length} features contributing most to PC{xAxis + 1} and PC{yAxis + 1}
+                  </p>
+                </div>
+                {snapshotButton("loadings")}
+              </div>
+              <div ref={loadingsRef}>
+                <ChartContainer config={loadingConfig} className="h-80 w-full">
+                  <ScatterChart margin={{ top: 8, right: 16, bottom: 16, left: 8 }}>
+                    <CartesianGrid />
+                    <XAxis
+                      dataKey="x"
+                      type="number"
+                      name={`PC${xAxis + 1}`}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(value: number) => value.toFixed(2)}
+                      label={{ value: `Loading on PC${xAxis + 1}`, position: "insideBottom", offset: -8, fontSize: 11 }}
+                    />
+                    <YAxis
+                      dataKey="y"
+                      type="number"
+                      name={`PC${yAxis + 1}`}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(value: number) => value.toFixed(2)}
+                      width={48}
+                      label={{ value: `Loading on PC${yAxis + 1}`, angle: -90, position: "insideLeft", fontSize: 11 }}
+                    />
+                    <ZAxis range={[16, 16]} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          hideIndicator
+                          labelFormatter={(_, payload) => {
+                            const loading = payload[0]?.payload as LoadingPoint | undefined;
+                            return loading
+                              ? `${loading.name || loading.featureKey} (m/z ${loading.mz.toFixed(4)}${loading.rt !== null ? `, RT ${loading.rt.toFixed(2)}` : ""})`
+                              : "";
+                          }}
+                        />
+                      }
+                    />
+                    <Scatter name="loadings" data={loadingPoints} fill="var(--color-loadings)" isAnimationActive={false} />
+                  </ScatterChart>
+                </ChartContainer>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Experiment,
+  FeatureTable,
+  FeatureTableWithColumns,
+  ImputationMethod,
+  NormalizationMethod,
+  RunAnalysis,
+  Sample,
+  ScalingMethod,
+  StatisticalAnalysis,
+  StatisticalTest,
+  imputationMethods,
+  normalizationMethods,
+  scalingMethods,
+  statisticalTests,
+} from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { IMPUTATION_LABELS, NORMALIZATION_LABELS, SCALING_LABELS, TEST_LABELS } from "./statistics-labels";
+
+// Select value standing for the samples' study group
+const STUDY_GROUP = "__study_group__";
+
+interface RunAnalysisDialogProps {
+  projectId: number;
+  experiments: Experiment[];
+  tables: FeatureTable[];
+  // Settings of an earlier version to run again
+  previous?: StatisticalAnalysis;
+  isOpen: boolean;
+  onClose: () => void;
+  onStarted: (analysis: StatisticalAnalysis) => void;
+}
+
+// Starts a group comparison on a feature table. Running it under the name of
+// an earlier analysis of the same experiment saves it as the next version.
+export default function RunAnalysisDialog({ projectId, experiments, tables, previous, isOpen, onClose, onStarted }: RunAnalysisDialogProps) {
+  const initial = previous?.settings;
+  const [tableId, setTableId] = useState(String(initial?.featureTableId ?? tables[0]?.id ?? ""));
+  const [name, setName] = useState(initial?.name ?? "");
+  const [groupAttribute, setGroupAttribute] = useState(initial?.groupAttribute ?? STUDY_GROUP);
+  // In the order chosen: the first is the reference group
+  const [groups, setGroups] = useState<string[]>(initial?.groups ?? []);
+  const [maxMissingPercent, setMaxMissingPercent] = useState(String(Math.round((initial?.maxMissingFraction ?? 0.5) * 100)));
+  const [imputation, setImputation] = useState<ImputationMethod>(initial?.imputation ?? "halfMin");
+  const [knnNeighbors, setKnnNeighbors] = useState(String(initial?.knnNeighbors ?? 5));
+  const [normalization, setNormalization] = useState<NormalizationMethod>(initial?.normalization ?? "pqn");
+  const [logTransform, setLogTransform] = useState(initial?.logTransform ?? true);
+  const [scaling, setScaling] = useState<ScalingMethod>(initial?.scaling ?? "none");
+  const [test, setTest] = useState<StatisticalTest>(initial?.test ?? "ttest");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: table } = useQuery<FeatureTableWithColumns>({
+    queryKey: [`/api/feature-tables/${tableId}`],
+    enabled: tableId !== "",
+  });
+
+  const { data: samples } = useQuery<Sample[]>({
+    queryKey: ['/api/projects', projectId, 'samples'],
+    queryFn: () => fetch(`/api/projects/${projectId}/samples`).then(res => res.json()),
+  });
+
+  const attributes = Array.from(new Set((samples || []).flatMap(sample => Object.keys(sample.attributes)))).sort();
+
+  // Groups of the samples the table's columns are mapped to, with their column counts
+  const groupSizes = new Map<string, number>();
+  const samplesById = new Map((samples || []).map(sample => [sample.id, sample]));
+  for (const column of table?.columns ?? []) {
+    const sample = column.sampleId !== null ? samplesById.get(column.sampleId) : undefined;
+    const group = (groupAttribute === STUDY_GROUP ? sample?.studyGroup : sample?.attributes[groupAttribute])?.trim();
+    if (group) groupSizes.set(group, (groupSizes.get(group) ?? 0) + 1);
+  }
+  const availableGroups = Array.from(groupSizes.keys()).sort();
+
+  const selectTable = (value: string) => {
+    setTableId(value);
+    setGroups([]);
+  };
+
+  const selectGroupAttribute = (value: string) => {
+    setGroupAttribute(value);
+    setGroups([]);
+  };
+
+  const toggleGroup = (group: string, checked: boolean) => {
+    setGroups(current => checked ? [...current, group] : current.filter(other => other !== group));
+  };
+
+  const handleSubmit = async () => {
+    const selectedTable = tables.find(candidate => String(candidate.id) === tableId);
+    if (!selectedTable) return;
+
+    const settings: RunAnalysis = {
+      featureTableId: selectedTable.id,
+      name: name.trim(),
+      groupAttribute: groupAttribute === STUDY_GROUP ? null : groupAttribute,
+      groups,
+      maxMissingFraction: Number(maxMissingPercent) / 100,
+      imputation,
+      knnNeighbors: Number(knnNeighbors),
+      normalization,
+      logTransform,
+      scaling,
+      test,
+    };
+
+    setIsSubmitting(true);
+    try {
+      const res = await apiRequest('POST', `/api/experiments/${selectedTable.experimentId}/analyses`, settings);
+      const analysis: StatisticalAnalysis = await res.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'analyses'] });
+      onStarted(analysis);
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Failed to start analysis",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const missingPercent = Number(maxMissingPercent);
+  const isValid = tableId !== "" && name.trim() !== "" &&
+    (test === "ttest" ? groups.length === 2 : groups.length >= 2) &&
+    maxMissingPercent.trim() !== "" && missingPercent >= 0 && missingPercent <= 100 &&
+    (imputation !== "knn" || Number(knnNeighbors) >= 1);
+
+  const experimentName = (experimentId: number) =>
+    experiments.find(experiment => experiment.id === experimentId)?.name ?? `#${experimentId}`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{previous ? `New Version of ${previous.name}` : "New Statistical Analysis"}</DialogTitle>
+          <DialogDescription>
+            Compares groups of samples feature by feature. The parameters are saved with the results, and running
+            an analysis again under the same name keeps the earlier versions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Feature table</Label>
+              <Select value={tableId} onValueChange={selectTable}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select a feature table" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tables.map(candidate => (
+                    <SelectItem key={candidate.id} value={String(candidate.id)}>
+                      {candidate.name} ({experimentName(candidate.experimentId)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="analysis-name">Name</Label>
+              <Input
+                id="analysis-name"
+                value={name}
+                onChange={event => setName(event.target.value)}
+                placeholder="e.g. Treated vs. control"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Test</Label>
+              <Select value={test} onValueChange={value => setTest(value as StatisticalTest)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statisticalTests.map(method => (
+                    <SelectItem key={method} value={method}>{TEST_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Groups from</Label>
+              <Select value={groupAttribute} onValueChange={selectGroupAttribute}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={STUDY_GROUP}>Study group</SelectItem>
+                  {attributes.map(attribute => (
+                    <SelectItem key={attribute} value={attribute}>{attribute}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium">
+              Groups <span className="font-normal text-gray-500">({test === "ttest" ? "select two" : "select two or more"}; the first selected is the reference)</span>
+            </p>
+            {availableGroups.length > 0 ? (
+              <div className="grid grid-cols-3 gap-1 mt-1">
+                {availableGroups.map(group => (
+                  <label key={group} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={groups.includes(group)} onCheckedChange={checked => toggleGroup(group, !!checked)} />
+                    {group} <span className="text-gray-500">({groupSizes.get(group)})</span>
+                    {groups[0] === group && <span className="text-xs text-gray-500">reference</span>}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                None of this table's columns are mapped to samples with a group. Set study groups in the sample registry.
+              </p>
+            )}
+            {groups.length >= 2 && (
+              <p className="text-xs text-gray-500 mt-1">Fold changes are {groups[1]} / {groups[0]}.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="analysis-missing">Remove features missing in more than (%)</Label>
+              <Input
+                id="analysis-missing"
+                type="number"
+                min="0"
+                max="100"
+                step="any"
+                value={maxMissingPercent}
+                onChange={event => setMaxMissingPercent(event.target.value)}
+                className="mt-1 font-mono"
+              />
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label>Missing values</Label>
+                <Select value={imputation} onValueChange={value => setImputation(value as ImputationMethod)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {imputationMethods.map(method => (
+                      <SelectItem key={method} value={method}>{IMPUTATION_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {imputation === "knn" && (
+                <div className="w-16">
+                  <Label htmlFor="analysis-knn">k</Label>
+                  <Input
+                    id="analysis-knn"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={knnNeighbors}
+                    onChange={event => setKnnNeighbors(event.target.value)}
+                    className="mt-1 font-mono"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Normalization</Label>
+              <Select value={normalization} onValueChange={value => setNormalization(value as NormalizationMethod)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {normalizationMethods.map(method => (
+                    <SelectItem key={method} value={method}>{NORMALIZATION_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Scaling</Label>
+              <Select value={scaling} onValueChange={value => setScaling(value as ScalingMethod)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scalingMethods.map(method => (
+                    <SelectItem key={method} value={method}>{SCALING_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={logTransform} onCheckedChange={checked => setLogTransform(!!checked)} />
+            Log2-transform intensities before testing
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={!isValid || isSubmitting} onClick={handleSubmit}>
+            {isSubmitting ? "Starting..." : "Run Analysis"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
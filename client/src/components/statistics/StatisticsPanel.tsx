@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Experiment, FeatureTable, StatisticalAnalysis } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectRole } from "@/hooks/use-project-role";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import NoteEditor from "@/components/notes/NoteEditor";
+import RunAnalysisDialog from "./RunAnalysisDialog";
+import AnalysisResults from "./AnalysisResults";
+import VolcanoPlot from "./VolcanoPlot";
+import PcaPlots from "./PcaPlots";
+import { ANALYSIS_STATUS_STYLES, TEST_LABELS, describeAnalysisSettings } from "./statistics-labels";
+
+interface StatisticsPanelProps {
+  projectId: number;
+  experiments: Experiment[];
+}
+
+// Saved statistical analyses of the project's feature tables and PCA of
+// their samples. Every run is kept as a numbered version so figures quoted in
+// notes stay reproducible; plots are added to a new note as figures.
+export default function StatisticsPanel({ projectId, experiments }: StatisticsPanelProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  // Undefined: dialog closed; null: a new analysis
+  const [rerunning, setRerunning] = useState<StatisticalAnalysis | null | undefined>(undefined);
+  const [deleting, setDeleting] = useState<StatisticalAnalysis | null>(null);
+  const [figure, setFigure] = useState<{ html: string; experimentId: number } | null>(null);
+  const { canEdit } = useProjectRole(projectId);
+  const { toast } = useToast();
+
+  const { data: tables } = useQuery<FeatureTable[]>({
+    queryKey: ['/api/projects', projectId, 'feature-tables'],
+    queryFn: () => fetch(`/api/projects/${projectId}/feature-tables`).then(res => res.json()),
+  });
+
+  // Analyses run in the background, so poll while any is running
+  const { data: analyses, isLoading } = useQuery<StatisticalAnalysis[]>({
+    queryKey: ['/api/projects', projectId, 'analyses'],
+    queryFn: () => fetch(`/api/projects/${projectId}/analyses`).then(res => res.json()),
+    refetchInterval: query => query.state.data?.some(analysis => analysis.status === "running") ? 2000 : false,
+  });
+
+  const parsedTables = (tables || []).filter(table => table.status === "parsed");
+  const experimentName = (experimentId: number) =>
+    experiments.find(experiment => experiment.id === experimentId)?.name ?? `#${experimentId}`;
+  const tableName = (tableId: number) => tables?.find(table => table.id === tableId)?.name ?? `#${tableId}`;
+
+  const handleDelete = async (analysis: StatisticalAnalysis) => {
+    try {
+      await apiRequest('DELETE', `/api/analyses/${analysis.id}`, undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'analyses'] });
+      if (selectedId === analysis.id) setSelectedId(null);
+      setDeleting(null);
+    } catch (error) {
+      toast({
+        title: "Failed to delete analysis",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  const selected = analyses?.find(analysis => analysis.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button onClick={() => setRerunning(null)} disabled={parsedTables.length === 0}>
+            <i className="fas fa-chart-bar mr-2"></i> New Analysis
+          </Button>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead>Experiment</TableHead>
+              <TableHead>Feature table</TableHead>
+              <TableHead>Comparison</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Significant</TableHead>
+              <TableHead>Run</TableHead>
+              <TableHead className="w-28"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analyses && analyses.length > 0 ? (
+              analyses.map(analysis => (
+                <TableRow key={analysis.id} className={analysis.id === selectedId ? "bg-blue-50" : ""}>
+                  <TableCell className="font-medium">{analysis.name}</TableCell>
+                  <TableCell className="text-sm">v{analysis.version}</TableCell>
+                  <TableCell className="text-sm">{experimentName(analysis.experimentId)}</TableCell>
+                  <TableCell className="text-sm">{tableName(analysis.featureTableId)}</TableCell>
+                  <TableCell className="text-sm">
+                    {analysis.settings.groups.join(" vs. ")}
+                    <div className="text-xs text-gray-500">{TEST_LABELS[analysis.settings.test]}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`capitalize ${ANALYSIS_STATUS_STYLES[analysis.status]}`} title={analysis.error ?? undefined}>
+                      {analysis.status === "running" && <i className="fas fa-spinner fa-spin mr-1"></i>}
+                      {analysis.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-right">
+                    {analysis.summary ? `${analysis.summary.significantCount} / ${analysis.summary.featureCount}` : ""}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+                    {format(new Date(analysis.createdAt), 'MMM d, yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={analysis.status !== "done"}
+                        onClick={() => setSelectedId(analysis.id === selectedId ? null : analysis.id)}
+                        title="View results"
+                      >
+                        <i className="fas fa-eye"></i>
+                      </Button>
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          disabled={!parsedTables.some(table => table.id === analysis.featureTableId)}
+                          onClick={() => setRerunning(analysis)}
+                          title="Run a new version"
+                        >
+                          <i className="fas fa-redo"></i>
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-600"
+                          onClick={() => setDeleting(analysis)}
+                          title="Delete"
+                        >
+                          <i className="fas fa-trash-alt"></i>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-gray-500 py-8">
+                  No analyses yet. Assign study groups to samples, then compare them on an imported feature table.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {analyses?.some(analysis => analysis.status === "failed") && (
+        <div className="text-xs text-red-600 space-y-1">
+          {analyses.filter(analysis => analysis.status === "failed").map(analysis => (
+            <p key={analysis.id}><span className="font-medium">{analysis.name} v{analysis.version}:</span> {analysis.error}</p>
+          ))}
+        </div>
+      )}
+
+      {selected?.summary && (
+        <div className="space-y-3">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{selected.name} <span className="text-gray-500">v{selected.version}</span></h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {selected.summary.featureCount} features tested
+              {selected.summary.excludedFeatureCount > 0 && `, ${selected.summary.excludedFeatureCount} removed for missing values`};{" "}
+              {selected.settings.groups.map((group, index) => `${group} n = ${selected.summary!.groupSizes[index]}`).join(", ")}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">{describeAnalysisSettings(selected.settings)}</p>
+          </div>
+          <VolcanoPlot
+            key={`volcano-${selected.id}`}
+            analysis={selected}
+            table={tables?.find(table => table.id === selected.featureTableId)}
+            onSnapshot={canEdit ? html => setFigure({ html, experimentId: selected.experimentId }) : undefined}
+          />
+          <AnalysisResults key={selected.id} analysis={selected} />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Principal component analysis</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Unsupervised overview of a feature table. Pooled QCs should cluster tightly near the centre of the score plot.
+          </p>
+        </div>
+        <PcaPlots
+          experiments={experiments}
+          tables={parsedTables}
+          onSnapshot={canEdit ? (html, experimentId) => setFigure({ html, experimentId }) : undefined}
+        />
+      </div>
+
+      {rerunning !== undefined && (
+        <RunAnalysisDialog
+          projectId={projectId}
+          experiments={experiments}
+          tables={parsedTables}
+          previous={rerunning ?? undefined}
+          isOpen={true}
+          onClose={() => setRerunning(undefined)}
+          onStarted={analysis => setSelectedId(analysis.id)}
+        />
+      )}
+
+      {figure && (
+        <NoteEditor
+          isOpen={true}
+          onClose={() => setFigure(null)}
+          projectId={projectId}
+          note={null}
+          experiments={experiments}
+          preSelectedExperimentId={figure.experimentId}
+          initialContent={figure.html}
+        />
+      )}
+
+      {deleting && (
+        <Dialog open={true} onOpenChange={open => !open && setDeleting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Delete Analysis</DialogTitle>
+              <DialogDescription>
+                Delete version {deleting.version} of {deleting.name} and its results? Other versions are kept.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDeleting(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={() => handleDelete(deleting)}>
+                Delete
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
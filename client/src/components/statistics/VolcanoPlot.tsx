@@ -0,0 +1,215 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import { FeatureTable, StatisticalAnalysis, VolcanoPoint } from "@shared/schema";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { formatPValue } from "./AnalysisResults";
+import { describeAnalysisSettings } from "./statistics-labels";
+import { snapshotFigure } from "./figure-snapshot";
+
+const COLORS = { up: "#dc2626", down: "#2563eb", notSignificant: "#9ca3af" };
+
+type Category = keyof typeof COLORS;
+
+interface PlotPoint extends VolcanoPoint {
+  x: number;
+  y: number;
+}
+
+interface VolcanoPlotProps {
+  analysis: StatisticalAnalysis;
+  table?: FeatureTable;
+  // Called with a figure of the plot; absent for users who cannot add notes
+  onSnapshot?: (html: string) => void;
+}
+
+// log2 fold change against -log10 p of every tested feature of a finished
+// analysis. Features past both thresholds are coloured by direction.
+export default function VolcanoPlot({ analysis, table, onSnapshot }: VolcanoPlotProps) {
+  const [foldChange, setFoldChange] = useState("1");
+  const [significance, setSignificance] = useState("0.05");
+  const [adjusted, setAdjusted] = useState(true);
+  const [isSnapshotting, setIsSnapshotting] = useState(false);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const { data: points, isLoading, error } = useQuery<VolcanoPoint[]>({
+    queryKey: [`/api/analyses/${analysis.id}/volcano`],
+  });
+
+  const [reference, comparison] = analysis.settings.groups;
+  const foldChangeLimit = Math.abs(parseFloat(foldChange)) || 0;
+  const significanceLimit = parseFloat(significance) > 0 && parseFloat(significance) <= 1 ? parseFloat(significance) : 0.05;
+  const pLabel = adjusted ? "adjusted p" : "p";
+
+  const config = {
+    up: { label: `Higher in ${comparison}`, color: COLORS.up },
+    down: { label: `Lower in ${comparison}`, color: COLORS.down },
+    notSignificant: { label: "Not significant", color: COLORS.notSignificant },
+  } satisfies ChartConfig;
+
+  const series: Record<Category, PlotPoint[]> = { up: [], down: [], notSignificant: [] };
+  for (const point of points || []) {
+    const pValue = adjusted ? point.qValue : point.pValue;
+    if (point.log2FoldChange === null || pValue === null) continue;
+    const category: Category = pValue >= significanceLimit || Math.abs(point.log2FoldChange) < foldChangeLimit
+      ? "notSignificant"
+      : point.log2FoldChange > 0 ? "up" : "down";
+    // p-values can underflow to 0; plot them at the top of the double range
+    series[category].push({ ...point, x: point.log2FoldChange, y: -Math.log10(Math.max(pValue, Number.MIN_VALUE)) });
+  }
+
+  const handleSnapshot = async () => {
+    if (!chartRef.current || !onSnapshot) return;
+    setIsSnapshotting(true);
+    try {
+      onSnapshot(await snapshotFigure(chartRef.current, {
+        title: `Volcano plot: ${analysis.name} v${analysis.version}, ${comparison} vs. ${reference}`,
+        parameters: [
+          ["Analysis", `${analysis.name} v${analysis.version} (#${analysis.id})`],
+          ["Feature table", table ? `${table.name} (#${table.id})` : `#${analysis.featureTableId}`],
+          ["Settings", describeAnalysisSettings(analysis.settings)],
+          ["Thresholds", `|log2 FC| ≥ ${foldChangeLimit}, ${pLabel} < ${significanceLimit}`],
+          ["Features", `${series.up.length} higher, ${series.down.length} lower in ${comparison}; ` +
+            `${series.up.length + series.down.length + series.notSignificant.length} plotted`],
+        ],
+        spec: {
+          plot: "volcano",
+          analysisId: analysis.id,
+          analysisName: analysis.name,
+          analysisVersion: analysis.version,
+          featureTableId: analysis.featureTableId,
+          settings: analysis.settings,
+          foldChangeThreshold: foldChangeLimit,
+          significanceThreshold: significanceLimit,
+          adjustedPValues: adjusted,
+        },
+        legend: (Object.keys(config) as Category[]).map(key => ({ label: config[key].label, color: config[key].color })),
+      }));
+    } catch (error) {
+      toast({
+        title: "Failed to snapshot plot",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSnapshotting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-md p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2 flex-wrap">
+        <div>
+          <h4 className="text-sm font-medium text-gray-800">Volcano plot</h4>
+          <p className="text-xs text-gray-500">
+            log2 fold change of {comparison} over {reference} against -log10 {pLabel}
+            {analysis.settings.groups.length > 2 && "; the ANOVA p-value covers all groups"}
+          </p>
+        </div>
+        {onSnapshot && (
+          <Button variant="outline" size="sm" onClick={handleSnapshot} disabled={isSnapshotting || !points?.length}>
+            <i className="fas fa-camera mr-2"></i> {isSnapshotting ? "Capturing..." : "Add to note"}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-end gap-4 flex-wrap">
+        <div className="space-y-1">
+          <Label htmlFor={`volcano-fc-${analysis.id}`} className="text-xs">|log2 FC| at least</Label>
+          <Input
+            id={`volcano-fc-${analysis.id}`}
+            type="number"
+            min="0"
+            step="0.5"
+            value={foldChange}
+            onChange={event => setFoldChange(event.target.value)}
+            className="h-8 w-24"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`volcano-p-${analysis.id}`} className="text-xs">{adjusted ? "Adjusted p" : "p"} below</Label>
+          <Input
+            id={`volcano-p-${analysis.id}`}
+            type="number"
+            min="0"
+            max="1"
+            step="0.01"
+            value={significance}
+            onChange={event => setSignificance(event.target.value)}
+            className="h-8 w-24"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm pb-1.5">
+          <Checkbox checked={adjusted} onCheckedChange={checked => setAdjusted(!!checked)} />
+          Use adjusted p-values
+        </label>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-72 w-full" />
+      ) : error || !points ? (
+        <p className="text-sm text-red-600">{error ? getApiErrorMessage(error) : "Could not load the results"}</p>
+      ) : (
+        <div ref={chartRef}>
+          <ChartContainer config={config} className="h-80 w-full">
+            <ScatterChart margin={{ top: 8, right: 16, bottom: 16, left: 8 }}>
+              <CartesianGrid />
+              <XAxis
+                dataKey="x"
+                type="number"
+                name="log2 FC"
+                tick={{ fontSize: 10 }}
+                tickFormatter={(value: number) => value.toFixed(1)}
+                label={{ value: `log2 fold change (${comparison} / ${reference})`, position: "insideBottom", offset: -8, fontSize: 11 }}
+              />
+              <YAxis
+                dataKey="y"
+                type="number"
+                name={`-log10 ${pLabel}`}
+                tick={{ fontSize: 10 }}
+                tickFormatter={(value: number) => value.toFixed(1)}
+                width={48}
+                label={{ value: `-log10 ${pLabel}`, angle: -90, position: "insideLeft", fontSize: 11 }}
+              />
+              <ZAxis range={[16, 16]} />
+              {foldChangeLimit > 0 && <ReferenceLine x={foldChangeLimit} stroke="#9ca3af" strokeDasharray="4 4" />}
+              {foldChangeLimit > 0 && <ReferenceLine x={-foldChangeLimit} stroke="#9ca3af" strokeDasharray="4 4" />}
+              <ReferenceLine y={-Math.log10(significanceLimit)} stroke="#9ca3af" strokeDasharray="4 4" />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    hideIndicator
+                    labelFormatter={(_, payload) => {
+                      const point = payload[0]?.payload as PlotPoint | undefined;
+                      return point
+                        ? `${point.name || point.featureKey} (m/z ${point.mz.toFixed(4)}): log2 FC ${point.x.toFixed(2)}, ${pLabel} ${formatPValue(adjusted ? point.qValue : point.pValue)}`
+                        : "";
+                    }}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {(Object.keys(series) as Category[]).map(category => (
+                <Scatter
+                  key={category}
+                  name={category}
+                  data={series[category]}
+                  fill={`var(--color-${category})`}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ScatterChart>
+          </ChartContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+// Plots are added to notes as figures: a PNG of the chart (notes keep raster
+// data URLs only) with a caption listing every parameter, and the full
+// parameter set as JSON on the figure element so the plot can be recomputed.
+
+export interface FigureLegendEntry {
+  label: string;
+  color: string;
+}
+
+export interface FigureSnapshot {
+  title: string;
+  // Shown in the caption as "label: value"
+  parameters: [string, string][];
+  // Stored on the figure's data-figure attribute
+  spec: Record<string, unknown>;
+  legend: FigureLegendEntry[];
+}
+
+// Pixel density of the image relative to the chart on screen
+const SCALE = 2;
+const LEGEND_FONT = "12px Helvetica, Arial, sans-serif";
+const LEGEND_ROW_HEIGHT = 18;
+const LEGEND_PADDING = 8;
+
+// Chart colours and fonts come from CSS variables and classes that do not
+// apply outside the page, so computed values are written onto each element
+const INLINED_STYLES = [
+  "fill", "fill-opacity", "stroke", "stroke-opacity", "stroke-width", "stroke-dasharray",
+  "opacity", "font-family", "font-size", "font-weight", "visibility",
+];
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function standaloneSvg(svg: SVGSVGElement, width: number, height: number): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const originals = [svg, ...Array.from(svg.querySelectorAll("*"))];
+  const copies = [clone, ...Array.from(clone.querySelectorAll("*"))];
+  originals.forEach((original, index) => {
+    const computed = getComputedStyle(original);
+    copies[index].setAttribute("style", INLINED_STYLES.map(name => `${name}:${computed.getPropertyValue(name)}`).join(";"));
+  });
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  return new XMLSerializer().serializeToString(clone);
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not render the chart"));
+    image.src = url;
+  });
+}
+
+// Legend entries laid out in rows under the chart
+function layoutLegend(context: CanvasRenderingContext2D, legend: FigureLegendEntry[], width: number) {
+  context.font = LEGEND_FONT;
+  const placed: { entry: FigureLegendEntry; x: number; row: number }[] = [];
+  let x = LEGEND_PADDING;
+  let row = 0;
+  for (const entry of legend) {
+    const entryWidth = 14 + context.measureText(entry.label).width + 16;
+    if (x + entryWidth > width && x > LEGEND_PADDING) {
+      x = LEGEND_PADDING;
+      row++;
+    }
+    placed.push({ entry, x, row });
+    x += entryWidth;
+  }
+  return { placed, rows: legend.length > 0 ? row + 1 : 0 };
+}
+
+// PNG data URL of the chart rendered in the container, with its legend
+async function renderChartImage(container: HTMLElement, legend: FigureLegendEntry[]): Promise<{ url: string; width: number }> {
+  const svg = container.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!svg) throw new Error("The chart has not been drawn yet");
+  const { width, height } = svg.getBoundingClientRect();
+
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Images cannot be created in this browser");
+  const { placed, rows } = layoutLegend(context, legend, width);
+  const legendHeight = rows > 0 ? rows * LEGEND_ROW_HEIGHT + LEGEND_PADDING : 0;
+
+  canvas.width = width * SCALE;
+  canvas.height = (height + legendHeight) * SCALE;
+  context.scale(SCALE, SCALE);
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height + legendHeight);
+
+  const svgUrl = URL.createObjectURL(new Blob([standaloneSvg(svg, width, height)], { type: "image/svg+xml" }));
+  try {
+    context.drawImage(await loadImage(svgUrl), 0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+
+  context.font = LEGEND_FONT;
+  context.textBaseline = "middle";
+  for (const { entry, x, row } of placed) {
+    const y = height + LEGEND_PADDING / 2 + row * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+    context.fillStyle = entry.color;
+    context.beginPath();
+    context.arc(x + 5, y, 5, 0, 2 * Math.PI);
+    context.fill();
+    context.fillStyle = "#374151";
+    context.fillText(entry.label, x + 14, y);
+  }
+
+  return { url: canvas.toDataURL("image/png"), width: Math.round(width) };
+}
+
+// Figure element with the image and a caption of its parameters
+function renderFigureHtml(image: { url: string; width: number }, snapshot: FigureSnapshot): string {
+  const parameters = snapshot.parameters
+    .map(([label, value]) => `${escapeHtml(label)}: ${escapeHtml(value)}`)
+    .join("<br>");
+  return `<figure data-figure="${escapeHtml(JSON.stringify(snapshot.spec))}">` +
+    `<img src="${image.url}" alt="${escapeHtml(snapshot.title)}" width="${image.width}">` +
+    `<figcaption><strong>${escapeHtml(snapshot.title)}</strong><br>${parameters}</figcaption>` +
+    `</figure><p></p>`;
+}
+
+// Note snippet with an image of the chart in the container
+export async function snapshotFigure(container: HTMLElement, snapshot: FigureSnapshot): Promise<string> {
+  return renderFigureHtml(await renderChartImage(container, snapshot.legend), snapshot);
+}
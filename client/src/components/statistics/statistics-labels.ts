@@ -0,0 +1,58 @@
+import { AnalysisStatus, ImputationMethod, NormalizationMethod, RunAnalysis, ScalingMethod, StatisticalTest } from "@shared/schema";
+
+export const IMPUTATION_LABELS: Record<ImputationMethod, string> = {
+  none: "None (tests use detected values)",
+  halfMin: "Half of feature minimum",
+  knn: "k-nearest neighbours",
+};
+
+export const NORMALIZATION_LABELS: Record<NormalizationMethod, string> = {
+  none: "None",
+  tic: "Total ion count",
+  median: "Median",
+  pqn: "Probabilistic quotient (PQN)",
+};
+
+export const SCALING_LABELS: Record<ScalingMethod, string> = {
+  none: "None",
+  auto: "Autoscaling (unit variance)",
+};
+
+export const TEST_LABELS: Record<StatisticalTest, string> = {
+  ttest: "Welch's t-test",
+  anova: "One-way ANOVA",
+};
+
+export const ANALYSIS_STATUS_STYLES: Record<AnalysisStatus, string> = {
+  running: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  done: "bg-green-100 text-green-800 border-green-200",
+  failed: "bg-red-100 text-red-800 border-red-200",
+};
+
+type PreprocessingSettings = Pick<
+  RunAnalysis,
+  "maxMissingFraction" | "imputation" | "knnNeighbors" | "normalization" | "logTransform" | "scaling"
+>;
+
+// Preprocessing steps in the order they are applied
+export function describePreprocessing(settings: PreprocessingSettings): string[] {
+  return [
+    `features missing in >${Math.round(settings.maxMissingFraction * 100)}% of samples removed`,
+    settings.imputation === "knn"
+      ? `${IMPUTATION_LABELS.knn} imputation (k = ${settings.knnNeighbors})`
+      : settings.imputation === "halfMin" ? `${IMPUTATION_LABELS.halfMin.toLowerCase()} imputation` : "no imputation",
+    settings.normalization === "none" ? "no normalization" : `${NORMALIZATION_LABELS[settings.normalization]} normalization`,
+    settings.logTransform ? "log2 transform" : "no log transform",
+    settings.scaling === "auto" ? "autoscaling" : "no scaling",
+  ];
+}
+
+// One line with every parameter of a run, for quoting alongside its results
+export function describeAnalysisSettings(settings: RunAnalysis): string {
+  const steps = [
+    `groups ${settings.groups.join(" vs. ")} (${settings.groupAttribute ?? "study group"})`,
+    ...describePreprocessing(settings),
+    `${TEST_LABELS[settings.test]} with Benjamini-Hochberg correction`,
+  ];
+  return steps.join("; ");
+}
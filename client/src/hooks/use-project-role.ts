@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { ProjectRole } from "@shared/schema";
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  Viewer: 1,
+  Editor: 2,
+  Owner: 3,
+};
+
+// The caller's effective role on a project, used to hide actions the server
+// would refuse anyway. Pass undefined while the project id is still loading.
+export function useProjectRole(projectId: number | undefined) {
+  const { data, isLoading } = useQuery<{ role: ProjectRole }>({
+    queryKey: ['/api/projects', projectId, 'role'],
+    queryFn: () => fetch(`/api/projects/${projectId}/role`).then(res => res.json()),
+    enabled: projectId !== undefined,
+  });
+
+  const role = data?.role ?? null;
+  const atLeast = (required: ProjectRole) => role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+
+  return {
+    role,
+    isLoading,
+    canEdit: atLeast("Editor"),
+    canManage: atLeast("Owner"),
+  };
+}
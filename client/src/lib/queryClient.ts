@@ -23,6 +23,17 @@ export async function apiRequest(
   return res;
 }
 
+// Extracts the server's { message } from an error thrown by apiRequest
+export function getApiErrorMessage(error: unknown, fallback = "Something went wrong"): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,235 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+import { AttachmentWithDuplicates, UploadSession } from "@shared/schema";
+
+// Size of each PATCH request; small enough that a dropped connection loses
+// little, large enough to keep request overhead low on multi-GB files
+const CHUNK_SIZE = 8 * 1024 * 1024;
+// Failed chunks are retried with a growing delay before giving up
+const MAX_RETRIES = 5;
+const RETRY_DELAY_MS = 1000;
+
+export type UploadStatus = "pending" | "uploading" | "paused" | "verifying" | "done" | "error" | "cancelled";
+
+export interface UploadProgress {
+  status: UploadStatus;
+  bytesUploaded: number;
+  totalBytes: number;
+  error?: string;
+}
+
+class UploadRequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+async function request<T>(method: string, url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, { method, credentials: "include", ...init });
+  if (!res.ok) {
+    const text = await res.text();
+    let message = text || res.statusText;
+    try {
+      message = JSON.parse(text).message || message;
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    throw new UploadRequestError(res.status, message);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+const jsonBody = (data: unknown): RequestInit => ({
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(data),
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Uploads a file to a note in chunks using the /api/uploads endpoints. The
+ * upload can be paused and resumed, retries chunks after network errors and
+ * sends a SHA-256 of the file (computed as chunks are acknowledged) so the
+ * server can verify what it received.
+ */
+export class ResumableUpload {
+  readonly file: File;
+  readonly noteId: number;
+  // Resolves with the attachment once stored, or null if cancelled
+  readonly finished: Promise<AttachmentWithDuplicates | null>;
+
+  private uploadId: string | null = null;
+  private offset = 0;
+  private hasher = sha256.create();
+  private hashedOffset = 0;
+  private digest: string | null = null;
+  private progress: UploadProgress;
+  private listeners = new Set<(progress: UploadProgress) => void>();
+  private controller: AbortController | null = null;
+  private running = false;
+  private resolveFinished!: (attachment: AttachmentWithDuplicates | null) => void;
+
+  constructor(file: File, noteId: number) {
+    this.file = file;
+    this.noteId = noteId;
+    this.progress = { status: "pending", bytesUploaded: 0, totalBytes: file.size };
+    this.finished = new Promise(resolve => {
+      this.resolveFinished = resolve;
+    });
+  }
+
+  getProgress(): UploadProgress {
+    return this.progress;
+  }
+
+  subscribe(listener: (progress: UploadProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  start() {
+    if (this.running || this.isFinal()) return;
+    this.running = true;
+    this.run().finally(() => {
+      this.running = false;
+    });
+  }
+
+  pause() {
+    if (this.progress.status !== "uploading" && this.progress.status !== "pending") return;
+    this.update({ status: "paused" });
+    this.controller?.abort();
+  }
+
+  resume() {
+    if (this.progress.status !== "paused" && this.progress.status !== "error") return;
+    this.update({ status: "pending", error: undefined });
+    this.start();
+  }
+
+  async cancel() {
+    if (this.isFinal()) return;
+    this.update({ status: "cancelled" });
+    this.controller?.abort();
+    this.resolveFinished(null);
+
+    if (this.uploadId) {
+      try {
+        await request("DELETE", `/api/uploads/${this.uploadId}`);
+      } catch (error) {
+        // The server discards abandoned uploads after a day anyway
+        console.error("Failed to discard upload:", error);
+      }
+    }
+  }
+
+  private isFinal() {
+    return ["done", "cancelled"].includes(this.progress.status);
+  }
+
+  private isStopped() {
+    return ["paused", "cancelled"].includes(this.progress.status);
+  }
+
+  private update(changes: Partial<UploadProgress>) {
+    this.progress = { ...this.progress, ...changes };
+    this.listeners.forEach(listener => listener(this.progress));
+  }
+
+  private async run() {
+    let retries = 0;
+    // Whether this.offset is known to match the server's
+    let synced = false;
+
+    while (!this.isStopped()) {
+      try {
+        this.update({ status: "uploading" });
+
+        if (!this.uploadId) {
+          const session = await request<UploadSession>("POST", "/api/uploads", jsonBody({
+            noteId: this.noteId,
+            fileName: this.file.name,
+            fileSize: this.file.size,
+            fileType: this.file.type || "application/octet-stream",
+          }));
+          this.uploadId = session.id;
+        } else if (!synced) {
+          // After an error or when resuming, ask the server how much it kept
+          const session = await request<UploadSession>("GET", `/api/uploads/${this.uploadId}`);
+          this.offset = session.offset;
+        }
+        synced = true;
+
+        await this.hashTo(this.offset);
+        this.update({ bytesUploaded: this.offset });
+
+        if (this.offset >= this.file.size) {
+          await this.complete();
+          return;
+        }
+
+        if (this.isStopped()) return;
+        await this.sendChunk();
+        retries = 0;
+      } catch (error) {
+        if (this.isStopped()) return;
+        synced = false;
+
+        // Client errors other than an offset conflict will not succeed on retry
+        const retryable = !(error instanceof UploadRequestError)
+          || error.status === 409
+          || error.status >= 500;
+        if (!retryable || ++retries > MAX_RETRIES) {
+          this.update({
+            status: "error",
+            error: error instanceof Error ? error.message : "Upload failed",
+          });
+          return;
+        }
+        await wait(RETRY_DELAY_MS * 2 ** (retries - 1));
+      }
+    }
+  }
+
+  private async sendChunk() {
+    const end = Math.min(this.offset + CHUNK_SIZE, this.file.size);
+    this.controller = new AbortController();
+
+    try {
+      const session = await request<UploadSession>("PATCH", `/api/uploads/${this.uploadId}`, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Upload-Offset": String(this.offset),
+        },
+        body: this.file.slice(this.offset, end),
+        signal: this.controller.signal,
+      });
+      this.offset = session.offset;
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  // Feeds the bytes the server has acknowledged into the running hash. The
+  // server only ever moves forward, so nothing needs to be hashed twice.
+  private async hashTo(target: number) {
+    while (this.hashedOffset < target) {
+      const end = Math.min(this.hashedOffset + CHUNK_SIZE, target);
+      const bytes = await this.file.slice(this.hashedOffset, end).arrayBuffer();
+      this.hasher.update(new Uint8Array(bytes));
+      this.hashedOffset = end;
+    }
+  }
+
+  private async complete() {
+    this.update({ status: "verifying" });
+    this.digest ??= bytesToHex(this.hasher.digest());
+    const attachment = await request<AttachmentWithDuplicates>("POST", `/api/uploads/${this.uploadId}/complete`, jsonBody({
+      sha256: this.digest,
+    }));
+    this.update({ status: "done", bytesUploaded: this.file.size });
+    this.resolveFinished(attachment);
+  }
+}
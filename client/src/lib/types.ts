@@ -1,5 +1,5 @@
 import { 
-  User, Project, Experiment, Note, Attachment, ProjectCollaborator 
+  PublicUser, Project, Experiment, Note, Attachment, ProjectCollaborator 
 } from '@shared/schema';
 
 // Extended types with additional frontend information
@@ -20,7 +20,7 @@ export interface NoteWithDetails extends Note {
   attachments: Attachment[];
 }
 
-export interface UserWithProjects extends User {
+export interface UserWithProjects extends PublicUser {
   projectCount: number;
 }
 
@@ -31,6 +31,17 @@ export interface SearchResults {
 }
 
 // Form types
+export interface LoginFormData {
+  username: string;
+  password: string;
+}
+
+export interface ChangePasswordFormData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
 export interface ProjectFormData {
   name: string;
   description?: string;
@@ -48,6 +59,7 @@ export interface NoteFormData {
   content?: string;
   experimentId: number;
   authorId: number;
+  amendsNoteId?: number;
 }
 
 export interface AttachmentFormData {
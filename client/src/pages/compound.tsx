@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Compound, Note } from "@shared/schema";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import NoteCard from "@/components/notes/NoteCard";
+import CompoundFormDialog from "@/components/compounds/CompoundFormDialog";
+import CompoundRetentionTimes from "@/components/compounds/CompoundRetentionTimes";
+import { compoundIdentifiers } from "@/components/compounds/compound-identifiers";
+
+export default function CompoundView() {
+  const { id } = useParams<{ id: string }>();
+  const compoundId = parseInt(id);
+  const [, navigate] = useLocation();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: compound, isLoading } = useQuery<Compound | null>({
+    queryKey: ['/api/compounds', compoundId],
+    queryFn: async () => {
+      const res = await fetch(`/api/compounds/${compoundId}`);
+      return res.ok ? res.json() : null;
+    },
+  });
+
+  const { data: notes } = useQuery<Note[]>({
+    queryKey: ['/api/compounds', compoundId, 'notes'],
+    queryFn: () => fetch(`/api/compounds/${compoundId}/notes`).then(res => res.json()),
+    enabled: !!compound,
+  });
+
+  const handleDelete = async () => {
+    try {
+      await apiRequest('DELETE', `/api/compounds/${compoundId}`, undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/compounds'] });
+      navigate("/compounds");
+    } catch (error) {
+      toast({
+        title: "Failed to delete compound",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+      setIsDeleteOpen(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (!compound) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="p-8 text-center">
+            <p className="text-gray-500 mb-2">Compound not found</p>
+            <Link href="/compounds" className="text-primary hover:underline text-sm">
+              Back to the compound library
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const identifiers = compoundIdentifiers(compound);
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <Link href="/compounds" className="text-sm text-gray-500 hover:underline">
+            <i className="fas fa-arrow-left mr-1"></i> Compounds
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-800 mt-1">{compound.name}</h1>
+          {compound.formula && (
+            <p className="text-sm text-gray-500 font-mono">
+              {compound.formula}
+              {compound.monoisotopicMass !== null && ` • ${compound.monoisotopicMass.toFixed(5)} Da`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsEditOpen(true)}>
+            <i className="fas fa-edit mr-2"></i> Edit
+          </Button>
+          <Button variant="outline" className="text-red-600" onClick={() => setIsDeleteOpen(true)}>
+            <i className="fas fa-trash-alt mr-2"></i> Delete
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="p-6">
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Monoisotopic Mass</dt>
+              <dd className="font-mono text-gray-800">{compound.monoisotopicMass?.toFixed(6) ?? "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">InChIKey</dt>
+              <dd className="font-mono text-gray-800 break-all">{compound.inchiKey ?? "—"}</dd>
+            </div>
+            <div className="md:col-span-2">
+              <dt className="text-gray-500">SMILES</dt>
+              <dd className="font-mono text-gray-800 break-all">{compound.smiles ?? "—"}</dd>
+            </div>
+            <div className="md:col-span-2">
+              <dt className="text-gray-500">Database Identifiers</dt>
+              <dd className="flex flex-wrap gap-2 mt-1">
+                {identifiers.length === 0 ? (
+                  <span className="text-gray-800">—</span>
+                ) : (
+                  identifiers.map(identifier => (
+                    <a
+                      key={identifier.label}
+                      href={identifier.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline"
+                    >
+                      {identifier.label}: {identifier.id}
+                      <i className="fas fa-external-link-alt text-xs ml-1"></i>
+                    </a>
+                  ))
+                )}
+              </dd>
+            </div>
+            {compound.synonyms.length > 0 && (
+              <div className="md:col-span-2">
+                <dt className="text-gray-500">Synonyms</dt>
+                <dd className="flex flex-wrap gap-1 mt-1">
+                  {compound.synonyms.map(synonym => (
+                    <Badge key={synonym} variant="secondary" className="font-normal">{synonym}</Badge>
+                  ))}
+                </dd>
+              </div>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg">Retention Times</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CompoundRetentionTimes compoundId={compound.id} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Linked Notes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!notes ? (
+            <Skeleton className="h-32 w-full" />
+          ) : notes.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No notes you can access are linked to this compound
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {notes.map(note => (
+                <NoteCard key={note.id} note={note} onEdit={() => {}} onAmend={() => {}} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isEditOpen && (
+        <CompoundFormDialog compound={compound} isOpen={true} onClose={() => setIsEditOpen(false)} />
+      )}
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Compound</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Delete {compound.name} from the library? Its retention times, links from notes and proposed feature annotations are removed as well.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
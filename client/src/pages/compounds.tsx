@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { CompoundPage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import CompoundFormDialog from "@/components/compounds/CompoundFormDialog";
+import ImportCompoundsDialog from "@/components/compounds/ImportCompoundsDialog";
+import { compoundIdentifiers } from "@/components/compounds/compound-identifiers";
+
+const PAGE_SIZE = 100;
+
+type SearchMode = "name" | "mass";
+type MassType = "mass" | "mz";
+
+// The library query, applied on submit so typing does not search on every key
+interface CompoundSearch {
+  mode: SearchMode;
+  search: string;
+  mass: string;
+  massType: MassType;
+  adduct: string;
+  ppm: string;
+}
+
+const initialSearch: CompoundSearch = {
+  mode: "name",
+  search: "",
+  mass: "",
+  massType: "mz",
+  adduct: "[M+H]+",
+  ppm: "10",
+};
+
+export default function CompoundsPage() {
+  const [, navigate] = useLocation();
+  const [draft, setDraft] = useState<CompoundSearch>(initialSearch);
+  const [applied, setApplied] = useState<CompoundSearch>(initialSearch);
+  const [offset, setOffset] = useState(0);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const { data: adducts } = useQuery<string[]>({
+    queryKey: ['/api/chem/adducts'],
+  });
+
+  const params = new URLSearchParams({ offset: String(offset), limit: String(PAGE_SIZE) });
+  if (applied.mode === "name") {
+    if (applied.search.trim()) params.set("search", applied.search.trim());
+  } else if (applied.mass.trim()) {
+    params.set(applied.massType, applied.mass.trim());
+    params.set("ppm", applied.ppm || "10");
+    if (applied.massType === "mz") params.set("adduct", applied.adduct);
+  }
+
+  const { data: page, isLoading, error } = useQuery<CompoundPage>({
+    queryKey: ['/api/compounds', params.toString()],
+    queryFn: async () => {
+      const res = await fetch(`/api/compounds?${params}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message ?? res.statusText);
+      return body;
+    },
+  });
+
+  const updateDraft = (changes: Partial<CompoundSearch>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setApplied(draft);
+    setOffset(0);
+  };
+
+  const isMassSearch = applied.mode === "mass" && page?.searchedMass != null;
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-800">Compounds</h1>
+          <p className="text-sm text-gray-500">
+            The lab's reference library of metabolites and standards
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <i className="fas fa-file-import mr-2"></i> Import
+          </Button>
+          <Button onClick={() => setIsAddOpen(true)}>
+            <i className="fas fa-plus mr-2"></i> Add Compound
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-4">
+        <CardContent className="p-4">
+          <Tabs value={draft.mode} onValueChange={value => updateDraft({ mode: value as SearchMode })} className="mb-3">
+            <TabsList>
+              <TabsTrigger value="name">Name or ID</TabsTrigger>
+              <TabsTrigger value="mass">Mass</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <form onSubmit={handleSearch} className="flex flex-wrap items-end gap-3">
+            {draft.mode === "name" ? (
+              <div className="flex-1 min-w-[16rem]">
+                <Label htmlFor="compound-search">Search</Label>
+                <Input
+                  id="compound-search"
+                  value={draft.search}
+                  onChange={event => updateDraft({ search: event.target.value })}
+                  placeholder="Name, synonym, InChIKey, HMDB, ChEBI, KEGG or PubChem ID"
+                  className="mt-1"
+                />
+              </div>
+            ) : (
+              <>
+                <div className="w-40">
+                  <Label htmlFor="compound-mass">{draft.massType === "mz" ? "m/z" : "Neutral mass"}</Label>
+                  <Input
+                    id="compound-mass"
+                    type="number"
+                    step="any"
+                    value={draft.mass}
+                    onChange={event => updateDraft({ mass: event.target.value })}
+                    className="mt-1 font-mono"
+                  />
+                </div>
+                <div className="w-40">
+                  <Label>Value is</Label>
+                  <Select value={draft.massType} onValueChange={value => updateDraft({ massType: value as MassType })}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mz">Observed m/z</SelectItem>
+                      <SelectItem value="mass">Neutral mass</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.massType === "mz" && (
+                  <div className="w-40">
+                    <Label>Adduct</Label>
+                    <Select value={draft.adduct} onValueChange={adduct => updateDraft({ adduct })}>
+                      <SelectTrigger className="mt-1 font-mono">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(adducts ?? [draft.adduct]).map(adduct => (
+                          <SelectItem key={adduct} value={adduct} className="font-mono">{adduct}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="w-24">
+                  <Label htmlFor="compound-ppm">ppm</Label>
+                  <Input
+                    id="compound-ppm"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={draft.ppm}
+                    onChange={event => updateDraft({ ppm: event.target.value })}
+                    className="mt-1 font-mono"
+                  />
+                </div>
+              </>
+            )}
+            <Button type="submit">
+              <i className="fas fa-search mr-2"></i> Search
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <Card>
+          <CardContent className="p-8 text-center text-red-600">
+            <i className="fas fa-exclamation-triangle mr-1"></i> {(error as Error).message}
+          </CardContent>
+        </Card>
+      ) : isLoading || !page ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : page.compounds.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <p className="text-gray-500">
+              {page.total === 0 && !params.has("search") && page.searchedMass === null
+                ? "The library is empty. Add compounds or import an SDF or CSV file."
+                : "No compounds match the search"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            {isMassSearch && (
+              <p className="px-4 pt-3 text-xs text-gray-500">
+                Neutral mass searched: <span className="font-mono">{page.searchedMass!.toFixed(5)}</span>
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Formula</TableHead>
+                  <TableHead className="text-right">Monoisotopic Mass</TableHead>
+                  {isMassSearch && <TableHead className="text-right">Error (ppm)</TableHead>}
+                  <TableHead>Identifiers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {page.compounds.map(compound => (
+                  <TableRow
+                    key={compound.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/compounds/${compound.id}`)}
+                  >
+                    <TableCell className="text-sm font-medium text-gray-800">{compound.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{compound.formula}</TableCell>
+                    <TableCell className="font-mono text-sm text-right">
+                      {compound.monoisotopicMass?.toFixed(5)}
+                    </TableCell>
+                    {isMassSearch && (
+                      <TableCell className="font-mono text-sm text-right">
+                        {compound.massError?.toFixed(2)}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-xs text-gray-600">
+                      {compoundIdentifiers(compound).map(identifier => identifier.id).join(", ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex items-center justify-between px-4 py-2 border-t text-sm text-gray-500">
+              <span>
+                {offset + 1}–{offset + page.compounds.length} of {page.total}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={offset === 0}
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={offset + PAGE_SIZE >= page.total}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isAddOpen && (
+        <CompoundFormDialog compound={null} isOpen={true} onClose={() => setIsAddOpen(false)} />
+      )}
+      {isImportOpen && (
+        <ImportCompoundsDialog isOpen={true} onClose={() => setIsImportOpen(false)} />
+      )}
+    </div>
+  );
+}
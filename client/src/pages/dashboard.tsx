@@ -2,12 +2,14 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import ProjectList from "@/components/projects/ProjectList";
+import ImportMwTabDialog from "@/components/deposition/ImportMwTabDialog";
 import { ProjectFormData } from "@/lib/types";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertProjectSchema } from "@shared/schema";
 import { z } from "zod";
+import { useCurrentUser } from "@/hooks/use-auth";
 import { 
   Dialog, 
   DialogContent, 
@@ -33,12 +35,9 @@ const extendedProjectSchema = insertProjectSchema.extend({
 
 export default function Dashboard() {
   const [isCreateProjectOpen, setIsCreateProjectOpen] = useState(false);
+  const [isImportMwTabOpen, setIsImportMwTabOpen] = useState(false);
   
-  // Hardcoded current user for demo purposes
-  const currentUser = {
-    id: 1,
-    displayName: "Dr. Sarah Chen"
-  };
+  const currentUser = useCurrentUser();
 
   const form = useForm<ProjectFormData>({
     resolver: zodResolver(extendedProjectSchema),
@@ -70,10 +69,16 @@ export default function Dashboard() {
             Welcome back, {currentUser.displayName}
           </p>
         </div>
-        <Button onClick={() => setIsCreateProjectOpen(true)}>
-          <i className="fas fa-plus mr-2"></i>
-          New Project
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsImportMwTabOpen(true)}>
+            <i className="fas fa-file-import mr-2"></i>
+            Import mwTab
+          </Button>
+          <Button onClick={() => setIsCreateProjectOpen(true)}>
+            <i className="fas fa-plus mr-2"></i>
+            New Project
+          </Button>
+        </div>
       </div>
 
       <div className="mb-8">
@@ -83,6 +88,8 @@ export default function Dashboard() {
         <ProjectList />
       </div>
 
+      <ImportMwTabDialog isOpen={isImportMwTabOpen} onClose={() => setIsImportMwTabOpen(false)} />
+
       {/* Create Project Dialog */}
       <Dialog open={isCreateProjectOpen} onOpenChange={setIsCreateProjectOpen}>
         <DialogContent>
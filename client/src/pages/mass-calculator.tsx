@@ -0,0 +1,21 @@
+import { Card, CardContent } from "@/components/ui/card";
+import MassCalculator from "@/components/chemistry/MassCalculator";
+
+export default function MassCalculatorPage() {
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Mass Calculator</h1>
+        <p className="text-sm text-gray-500">
+          Exact masses, adduct m/z values and isotope patterns of molecular formulas
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <MassCalculator />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
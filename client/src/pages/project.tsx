@@ -6,6 +6,15 @@ import { Skeleton } from "@/components/ui/skeleton";
 import ExperimentCard from "@/components/projects/ExperimentCard";
 import NoteList from "@/components/notes/NoteList";
 import NoteEditor from "@/components/notes/NoteEditor";
+import ShareProjectDialog from "@/components/projects/ShareProjectDialog";
+import AuditTrail from "@/components/projects/AuditTrail";
+import SampleRegistry from "@/components/samples/SampleRegistry";
+import FeatureTableList from "@/components/feature-tables/FeatureTableList";
+import QcDashboard from "@/components/qc/QcDashboard";
+import StatisticsPanel from "@/components/statistics/StatisticsPanel";
+import DepositionPanel from "@/components/deposition/DepositionPanel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useProjectRole } from "@/hooks/use-project-role";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -43,6 +52,8 @@ export default function ProjectView() {
   const [isCreateExperimentOpen, setIsCreateExperimentOpen] = useState(false);
   const [isCreateNoteOpen, setIsCreateNoteOpen] = useState(false);
   const [selectedExperimentId, setSelectedExperimentId] = useState<number | null>(null);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const { canEdit, canManage } = useProjectRole(projectId);
   
   // Get project details
   const { data: project, isLoading: projectLoading } = useQuery({
@@ -165,72 +176,117 @@ export default function ProjectView() {
           </p>
         </div>
         <div className="flex space-x-3">
-          <Button variant="outline">
+          <Button variant="outline" onClick={() => setIsShareOpen(true)}>
             <i className="fas fa-share-alt mr-2"></i>
             Share
           </Button>
-          <Button onClick={() => setIsCreateNoteOpen(true)}>
-            <i className="fas fa-plus mr-2"></i>
-            New Note
-          </Button>
+          {canEdit && (
+            <Button onClick={() => setIsCreateNoteOpen(true)}>
+              <i className="fas fa-plus mr-2"></i>
+              New Note
+            </Button>
+          )}
         </div>
       </div>
       
-      {/* Experiments Section */}
-      <div className="mb-8">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-medium text-gray-800">Experiments</h2>
-          <Button 
-            variant="link" 
-            className="text-primary hover:text-blue-700"
-            onClick={() => setIsCreateExperimentOpen(true)}
-          >
-            <i className="fas fa-plus-circle mr-1"></i> Add Experiment
-          </Button>
-        </div>
+      <Tabs defaultValue="notebook">
+        <TabsList className="mb-4">
+          <TabsTrigger value="notebook">Notebook</TabsTrigger>
+          <TabsTrigger value="samples">Samples</TabsTrigger>
+          <TabsTrigger value="features">Feature Tables</TabsTrigger>
+          <TabsTrigger value="qc">QC</TabsTrigger>
+          <TabsTrigger value="statistics">Statistics</TabsTrigger>
+          <TabsTrigger value="deposition">Deposition</TabsTrigger>
+          <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+        </TabsList>
         
-        {experimentsLoading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {[...Array(3)].map((_, i) => (
-              <div key={i} className="bg-white border border-gray-200 rounded-md p-4">
-                <Skeleton className="h-6 w-3/4 mb-2" />
-                <Skeleton className="h-4 w-full mb-1" />
-                <Skeleton className="h-4 w-2/3 mb-3" />
-                <div className="flex justify-between">
-                  <Skeleton className="h-4 w-16" />
-                  <Skeleton className="h-4 w-24" />
-                </div>
+        <TabsContent value="notebook">
+          {/* Experiments Section */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium text-gray-800">Experiments</h2>
+              {canEdit && (
+                <Button 
+                  variant="link" 
+                  className="text-primary hover:text-blue-700"
+                  onClick={() => setIsCreateExperimentOpen(true)}
+                >
+                  <i className="fas fa-plus-circle mr-1"></i> Add Experiment
+                </Button>
+              )}
+            </div>
+        
+            {experimentsLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="bg-white border border-gray-200 rounded-md p-4">
+                    <Skeleton className="h-6 w-3/4 mb-2" />
+                    <Skeleton className="h-4 w-full mb-1" />
+                    <Skeleton className="h-4 w-2/3 mb-3" />
+                    <div className="flex justify-between">
+                      <Skeleton className="h-4 w-16" />
+                      <Skeleton className="h-4 w-24" />
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        ) : experiments && experiments.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {experiments.map((experiment: any) => (
-              <ExperimentCard 
-                key={experiment.id} 
-                experiment={experiment}
-                onEdit={() => {}} 
-                onDelete={() => {}}
-                onSelect={handleExperimentSelect}
-              />
-            ))}
+            ) : experiments && experiments.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {experiments.map((experiment: any) => (
+                  <ExperimentCard 
+                    key={experiment.id} 
+                    experiment={experiment}
+                    onEdit={canEdit ? () => {} : undefined} 
+                    onDelete={canEdit ? () => {} : undefined}
+                    onSelect={canEdit ? handleExperimentSelect : undefined}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="bg-white border border-gray-200 rounded-md p-8 text-center">
+                <p className="text-gray-500 mb-4">No experiments yet</p>
+                {canEdit && (
+                  <Button onClick={() => setIsCreateExperimentOpen(true)}>
+                    Create Your First Experiment
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
-        ) : (
-          <div className="bg-white border border-gray-200 rounded-md p-8 text-center">
-            <p className="text-gray-500 mb-4">No experiments yet</p>
-            <Button onClick={() => setIsCreateExperimentOpen(true)}>
-              Create Your First Experiment
-            </Button>
+      
+          {/* Notes Section */}
+          <div>
+            <NoteList 
+              projectId={projectId} 
+            />
           </div>
-        )}
-      </div>
       
-      {/* Notes Section */}
-      <div>
-        <NoteList 
-          projectId={projectId} 
-        />
-      </div>
+        </TabsContent>
+        
+        <TabsContent value="samples">
+          <SampleRegistry projectId={projectId} experiments={experiments || []} />
+        </TabsContent>
+
+        <TabsContent value="features">
+          <FeatureTableList projectId={projectId} experiments={experiments || []} />
+        </TabsContent>
+
+        <TabsContent value="qc">
+          <QcDashboard projectId={projectId} experiments={experiments || []} />
+        </TabsContent>
+
+        <TabsContent value="statistics">
+          <StatisticsPanel projectId={projectId} experiments={experiments || []} />
+        </TabsContent>
+
+        <TabsContent value="deposition">
+          <DepositionPanel projectId={projectId} />
+        </TabsContent>
+        
+        <TabsContent value="audit">
+          <AuditTrail projectId={projectId} />
+        </TabsContent>
+      </Tabs>
       
       {/* Create Experiment Dialog */}
       <Dialog open={isCreateExperimentOpen} onOpenChange={setIsCreateExperimentOpen}>
@@ -290,6 +346,16 @@ export default function ProjectView() {
         </DialogContent>
       </Dialog>
       
+      {/* Share Dialog */}
+      {isShareOpen && (
+        <ShareProjectDialog
+          project={project}
+          isOpen={isShareOpen}
+          onClose={() => setIsShareOpen(false)}
+          canManage={canManage}
+        />
+      )}
+      
       {/* Create Note Dialog */}
       {isCreateNoteOpen && (
         <NoteEditor 
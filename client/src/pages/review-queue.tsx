@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Note } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import NoteCard from "@/components/notes/NoteCard";
+
+export default function ReviewQueue() {
+  const [activeTab, setActiveTab] = useState<"submitted" | "all">("submitted");
+
+  const { data: notes, isLoading } = useQuery<Note[]>({
+    queryKey: ['/api/reviews', activeTab],
+    queryFn: () => fetch(`/api/reviews?status=${activeTab}`).then(res => res.json()),
+  });
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Review Queue</h1>
+        <p className="text-sm text-gray-500">
+          Notebook entries submitted to you for witnessing or approval
+        </p>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={value => setActiveTab(value as "submitted" | "all")} className="mb-4">
+        <TabsList>
+          <TabsTrigger value="submitted">Awaiting review</TabsTrigger>
+          <TabsTrigger value="all">All assigned</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-32 w-full" />
+        </div>
+      ) : !notes || notes.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <p className="text-gray-500">
+              {activeTab === "submitted" ? "No entries are waiting for your review" : "No entries have been assigned to you"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {notes.map(note => (
+            <NoteCard key={note.id} note={note} onEdit={() => {}} onAmend={() => {}} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
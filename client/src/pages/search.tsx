@@ -9,7 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import NoteCard from "@/components/notes/NoteCard";
 import { Link } from "wouter";
-import { Note, Project, Experiment } from "@shared/schema";
+import { Note, Project, Experiment, Compound } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 
 export default function SearchPage() {
@@ -30,7 +30,7 @@ export default function SearchPage() {
   const { data, isLoading, refetch } = useQuery({
     queryKey: ['/api/search', searchQuery],
     queryFn: () => {
-      if (!searchQuery.trim()) return { notes: [], projects: [], experiments: [] };
+      if (!searchQuery.trim()) return { notes: [], projects: [], experiments: [], compounds: [] };
       return fetch(`/api/search?q=${encodeURIComponent(searchQuery)}`).then(res => res.json());
     },
     enabled: searchQuery.trim().length > 0,
@@ -59,12 +59,15 @@ export default function SearchPage() {
         return data.projects || [];
       case "experiments":
         return data.experiments || [];
+      case "compounds":
+        return data.compounds || [];
       case "all":
       default:
         return [
           ...(data.notes || []),
           ...(data.projects || []),
-          ...(data.experiments || [])
+          ...(data.experiments || []),
+          ...(data.compounds || [])
         ];
     }
   };
@@ -79,18 +82,22 @@ export default function SearchPage() {
         return data.projects?.length || 0;
       case "experiments":
         return data.experiments?.length || 0;
+      case "compounds":
+        return data.compounds?.length || 0;
       case "all":
       default:
         return (
           (data.notes?.length || 0) +
           (data.projects?.length || 0) +
-          (data.experiments?.length || 0)
+          (data.experiments?.length || 0) +
+          (data.compounds?.length || 0)
         );
     }
   };
   
   // Determine the type of a result item
   const getItemType = (item: any): string => {
+    if (item.inchiKey !== undefined) return "compound";
     if (item.experimentId !== undefined) return "note";
     if (item.projectId !== undefined) return "experiment";
     return "project";
@@ -105,7 +112,7 @@ export default function SearchPage() {
           <div className="relative flex-1">
             <Input
               type="text"
-              placeholder="Search for notes, projects, experiments..."
+              placeholder="Search for notes, projects, experiments, compounds..."
               className="w-full pl-10"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
@@ -123,7 +130,7 @@ export default function SearchPage() {
           <Tabs defaultValue={activeTab} onValueChange={setActiveTab}>
             <TabsList>
               <TabsTrigger value="all">
-                All ({(data?.notes?.length || 0) + (data?.projects?.length || 0) + (data?.experiments?.length || 0)})
+                All ({(data?.notes?.length || 0) + (data?.projects?.length || 0) + (data?.experiments?.length || 0) + (data?.compounds?.length || 0)})
               </TabsTrigger>
               <TabsTrigger value="notes">
                 Notes ({data?.notes?.length || 0})
@@ -134,6 +141,9 @@ export default function SearchPage() {
               <TabsTrigger value="experiments">
                 Experiments ({data?.experiments?.length || 0})
               </TabsTrigger>
+              <TabsTrigger value="compounds">
+                Compounds ({data?.compounds?.length || 0})
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value={activeTab} className="mt-4">
@@ -167,7 +177,34 @@ export default function SearchPage() {
                         const itemType = getItemType(item);
                         
                         if (itemType === "note") {
-                          return <NoteCard key={`note-${item.id}`} note={item as Note} onEdit={() => {}} />;
+                          return <NoteCard key={`note-${item.id}`} note={item as Note} onEdit={() => {}} onAmend={() => {}} />;
+                        }
+
+                        if (itemType === "compound") {
+                          const compound = item as Compound;
+                          return (
+                            <Link key={`compound-${compound.id}`} href={`/compounds/${compound.id}`}>
+                              <Card className="hover:shadow-md transition-shadow cursor-pointer">
+                                <CardContent className="p-4">
+                                  <div className="flex items-center mb-2">
+                                    <div className="mr-2 text-gray-500">
+                                      <i className="fas fa-atom"></i>
+                                    </div>
+                                    <h3 className="text-lg font-medium text-gray-800">{compound.name}</h3>
+                                    <div className="ml-auto">
+                                      <span className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded-full">
+                                        Compound
+                                      </span>
+                                    </div>
+                                  </div>
+                                  <p className="text-sm text-gray-600 font-mono">
+                                    {compound.formula || "No formula"}
+                                    {compound.monoisotopicMass !== null && ` • ${compound.monoisotopicMass.toFixed(5)}`}
+                                  </p>
+                                </CardContent>
+                              </Card>
+                            </Link>
+                          );
                         }
                         
                         return (
@@ -38,18 +38,27 @@ import {
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema } from "@shared/schema";
+import { ADMIN_ROLES, insertUserSchema, changePasswordSchema, PublicUser } from "@shared/schema";
 import { z } from "zod";
 import { format } from "date-fns";
+import { useCurrentUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ChangePasswordFormData } from "@/lib/types";
 
 // Extend the user schema for form validation
 const extendedUserSchema = insertUserSchema.extend({
   username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
   displayName: z.string().min(3, "Display name must be at least 3 characters"),
   role: z.string(),
 });
 
+const extendedChangePasswordSchema = changePasswordSchema.extend({
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
 interface UserFormData {
   username: string;
   password: string;
@@ -59,9 +68,13 @@ interface UserFormData {
 
 export default function UserManagement() {
   const [isCreateUserOpen, setIsCreateUserOpen] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const currentUser = useCurrentUser();
+  const isAdmin = ADMIN_ROLES.includes(currentUser.role);
+  const { toast } = useToast();
   
   // Fetch users
-  const { data: users, isLoading, error } = useQuery({
+  const { data: users, isLoading, error } = useQuery<PublicUser[]>({
     queryKey: ['/api/users'],
     queryFn: () => fetch('/api/users').then(res => res.json()),
   });
@@ -77,6 +90,33 @@ export default function UserManagement() {
     }
   });
   
+  // Change password form
+  const passwordForm = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(extendedChangePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: ""
+    }
+  });
+  
+  const handleChangePassword = async (data: ChangePasswordFormData) => {
+    try {
+      await apiRequest('PUT', `/api/users/${currentUser.id}/password`, {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      setIsChangePasswordOpen(false);
+      passwordForm.reset();
+      toast({ title: "Password changed" });
+    } catch (error) {
+      console.error("Failed to change password:", error);
+      passwordForm.setError("currentPassword", {
+        message: "Current password is incorrect",
+      });
+    }
+  };
+  
   const handleCreateUser = async (data: UserFormData) => {
     try {
       await apiRequest('POST', '/api/users', data);
@@ -97,10 +137,16 @@ export default function UserManagement() {
             Manage users and their access to laboratory resources
           </p>
         </div>
-        <Button onClick={() => setIsCreateUserOpen(true)}>
-          <i className="fas fa-user-plus mr-2"></i>
-          Add User
-        </Button>
+        <div className="flex space-x-3">
+          <Button variant="outline" onClick={() => setIsChangePasswordOpen(true)}>
+            <i className="fas fa-key mr-2"></i>
+            Change Password
+          </Button>
+          <Button onClick={() => setIsCreateUserOpen(true)}>
+            <i className="fas fa-user-plus mr-2"></i>
+            Add User
+          </Button>
+        </div>
       </div>
       
       <Card>
@@ -136,7 +182,7 @@ export default function UserManagement() {
               </TableHeader>
               <TableBody>
                 {users && users.length > 0 ? (
-                  users.map((user: any) => (
+                  users.map((user) => (
                     <TableRow key={user.id}>
                       <TableCell>
                         <div className="flex items-center">
@@ -167,6 +213,74 @@ export default function UserManagement() {
         </CardContent>
       </Card>
       
+      {/* Change Password Dialog */}
+      <Dialog open={isChangePasswordOpen} onOpenChange={setIsChangePasswordOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Password</DialogTitle>
+          </DialogHeader>
+          
+          <Form {...passwordForm}>
+            <form onSubmit={passwordForm.handleSubmit(handleChangePassword)} className="space-y-4">
+              <FormField
+                control={passwordForm.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Current Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={passwordForm.control}
+                name="newPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={passwordForm.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <DialogFooter>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={() => setIsChangePasswordOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={passwordForm.formState.isSubmitting}>
+                  {passwordForm.formState.isSubmitting ? "Saving..." : "Change Password"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      
       {/* Create User Dialog */}
       <Dialog open={isCreateUserOpen} onOpenChange={setIsCreateUserOpen}>
         <DialogContent>
@@ -222,33 +336,36 @@ export default function UserManagement() {
                 )}
               />
               
-              <FormField
-                control={form.control}
-                name="role"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Role</FormLabel>
-                    <Select 
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a role" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="Principal Investigator">Principal Investigator</SelectItem>
-                        <SelectItem value="Lab Manager">Lab Manager</SelectItem>
-                        <SelectItem value="Researcher">Researcher</SelectItem>
-                        <SelectItem value="Student">Student</SelectItem>
-                        <SelectItem value="Technician">Technician</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {/* Only administrators assign roles; other users create researchers */}
+              {isAdmin && (
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select 
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a role" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="Principal Investigator">Principal Investigator</SelectItem>
+                          <SelectItem value="Lab Manager">Lab Manager</SelectItem>
+                          <SelectItem value="Researcher">Researcher</SelectItem>
+                          <SelectItem value="Student">Student</SelectItem>
+                          <SelectItem value="Technician">Technician</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <DialogFooter>
                 <Button 
@@ -0,0 +1,35 @@
+import { storage } from "./storage";
+import { AnalysisColumn, runStatisticalAnalysis } from "./statistics";
+import { pcaColumns, principalComponents } from "./pca";
+import { FeatureTableWithColumns, PcaQuery, PcaResult, StatisticalAnalysis } from "@shared/schema";
+
+// Runs a statistical analysis in the background; clients poll the analysis
+// until its status is done or failed. The columns are chosen up front so
+// that a group too small to test is reported before the run starts.
+export function startStatisticalAnalysis(analysis: StatisticalAnalysis, columns: AnalysisColumn[]) {
+  (async () => {
+    try {
+      const features = await storage.listFeaturesWithIntensities(analysis.featureTableId);
+      const { results, summary } = runStatisticalAnalysis(features, columns, analysis.settings);
+      await storage.completeStatisticalAnalysis(analysis.id, summary, results);
+    } catch (error) {
+      console.error(`Failed to run statistical analysis ${analysis.id}:`, error);
+      await storage.updateStatisticalAnalysis(analysis.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+    }
+  })().catch(error => {
+    console.error(`Failed to record result of statistical analysis ${analysis.id}:`, error);
+  });
+}
+
+// PCA of a parsed table's sample columns; computed on request, nothing is
+// stored
+export async function buildPca(table: FeatureTableWithColumns, query: PcaQuery): Promise<PcaResult> {
+  const experiment = await storage.getExperiment(table.experimentId);
+  const samples = experiment ? await storage.listSamplesByProject(experiment.projectId) : [];
+  const columns = pcaColumns(table, samples, query.sampleTypes);
+  return principalComponents(await storage.listFeaturesWithIntensities(table.id), columns, query);
+}
@@ -0,0 +1,108 @@
+import { storage } from "./storage";
+import { hashBlob, BlobNotFoundError } from "./blob-store";
+import { getAccessibleProjectIds, getProjectIdForNote } from "./permissions";
+import { Attachment, AttachmentIntegrityCheck, AttachmentIntegrityReport, AttachmentWithDuplicates } from "@shared/schema";
+
+// Adds the other attachments with the same contents that the user can see
+export async function withDuplicates(attachment: Attachment, userId: number): Promise<AttachmentWithDuplicates> {
+  if (!attachment.sha256) {
+    return { ...attachment, duplicates: [] };
+  }
+
+  const projectIds = await getAccessibleProjectIds(userId);
+  const duplicates = [];
+  for (const other of await storage.listAttachmentsBySha256(attachment.sha256)) {
+    if (other.id === attachment.id) continue;
+
+    const projectId = await getProjectIdForNote(other.noteId);
+    if (projectId !== undefined && projectIds.has(projectId)) {
+      duplicates.push({ id: other.id, fileName: other.fileName, noteId: other.noteId, createdAt: other.createdAt });
+    }
+  }
+  return { ...attachment, duplicates };
+}
+
+// Re-hashes every stored blob and compares it with the hash recorded at
+// upload. Reports rows whose blob is missing or altered, rows whose note no
+// longer exists and rows that were never hashed, plus groups of identical files.
+export async function verifyAttachments(): Promise<AttachmentIntegrityReport> {
+  const attachments = await storage.listAttachments();
+  const issues: AttachmentIntegrityReport["issues"] = [];
+  const bySha256 = new Map<string, number[]>();
+  let verified = 0;
+
+  for (const attachment of attachments) {
+    const report = (issue: AttachmentIntegrityReport["issues"][number]["issue"], actualSha256: string | null = null) => {
+      issues.push({
+        attachmentId: attachment.id,
+        noteId: attachment.noteId,
+        fileName: attachment.fileName,
+        issue,
+        expectedSha256: attachment.sha256,
+        actualSha256,
+      });
+    };
+
+    if (!(await storage.getNote(attachment.noteId))) {
+      report("orphaned_row");
+    }
+
+    if (attachment.sha256) {
+      bySha256.set(attachment.sha256, [...(bySha256.get(attachment.sha256) ?? []), attachment.id]);
+    }
+
+    if (!attachment.storageKey) {
+      report("missing_blob");
+      continue;
+    }
+
+    let actual: string;
+    try {
+      actual = await hashBlob(attachment.storageKey);
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        report("missing_blob");
+        continue;
+      }
+      throw error;
+    }
+
+    if (!attachment.sha256) {
+      report("unhashed", actual);
+    } else if (actual !== attachment.sha256) {
+      report("mismatch", actual);
+    } else {
+      verified++;
+    }
+  }
+
+  return {
+    checkedAt: new Date(),
+    total: attachments.length,
+    verified,
+    issues,
+    duplicates: Array.from(bySha256.entries())
+      .filter(([, attachmentIds]) => attachmentIds.length > 1)
+      .map(([sha256, attachmentIds]) => ({ sha256, attachmentIds })),
+  };
+}
+
+// Runs verifyAttachments in the background; clients poll the check until its
+// status is done or failed
+export function startAttachmentIntegrityCheck(check: AttachmentIntegrityCheck) {
+  (async () => {
+    try {
+      const report = await verifyAttachments();
+      await storage.updateAttachmentIntegrityCheck(check.id, { status: "done", report, completedAt: new Date() });
+    } catch (error) {
+      console.error(`Failed to run attachment integrity check ${check.id}:`, error);
+      await storage.updateAttachmentIntegrityCheck(check.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+    }
+  })().catch(error => {
+    console.error(`Failed to record result of attachment integrity check ${check.id}:`, error);
+  });
+}
@@ -0,0 +1,168 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { storage } from "./storage";
+import { verifyPassword, needsRehash } from "./passwords";
+import { User as SelectUser, PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    // The session only ever carries the sanitized user
+    interface User extends PublicUser {}
+  }
+}
+
+// Routes that can be reached without a session
+const PUBLIC_API_ROUTES = [
+  { method: "POST", path: "/api/auth/login" },
+  { method: "GET", path: "/api/auth/me" },
+];
+
+// Strips credentials from a user row before it leaves the server
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Checks a password against the stored hash, upgrading legacy or weaker
+// hashes in place once the password is known to be correct.
+export async function checkUserPassword(user: SelectUser, password: string): Promise<boolean> {
+  if (!(await verifyPassword(password, user.password))) {
+    return false;
+  }
+
+  if (needsRehash(user.password)) {
+    await storage.updateUser(user.id, { password });
+  }
+
+  return true;
+}
+
+// Creates the initial account on an empty database so that someone can log in
+// and add the rest of the lab through the user management page.
+async function ensureInitialUser() {
+  const existingUsers = await storage.listUsers();
+  if (existingUsers.length > 0) return;
+
+  const username = process.env.INITIAL_ADMIN_USERNAME;
+  const password = process.env.INITIAL_ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    console.warn(
+      "No users exist yet. Set INITIAL_ADMIN_USERNAME and INITIAL_ADMIN_PASSWORD to create the first account.",
+    );
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    password,
+    displayName: process.env.INITIAL_ADMIN_DISPLAY_NAME || username,
+    role: "Principal Investigator",
+  });
+}
+
+// Rejects any /api request that does not carry an authenticated session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const isPublic = PUBLIC_API_ROUTES.some(
+    route => route.method === req.method && route.path === req.path
+  );
+
+  if (isPublic || req.isAuthenticated()) {
+    return next();
+  }
+
+  res.status(401).json({ message: "Authentication required" });
+}
+
+export async function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET || "kapelczak-notes-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 8 * 60 * 60 * 1000, // 8 hours
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await checkUserPassword(user, password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use("/api", requireAuth);
+
+  await ensureInitialUser();
+
+  // Auth routes
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: PublicUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      // Issue a fresh session id on login to prevent session fixation
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) return next(regenerateErr);
+
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(user);
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+}
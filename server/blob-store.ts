@@ -0,0 +1,215 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { createHash, randomUUID } from "crypto";
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+  NotFound,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+
+/**
+ * Storage for attachment contents. Rows in the attachments table only hold
+ * the key; the bytes live here.
+ */
+export interface BlobStore {
+  put(key: string, body: Buffer | Readable, options?: { contentType?: string }): Promise<void>;
+  // Rejects with BlobNotFoundError when nothing is stored under the key.
+  // With start set, reading begins at that byte offset.
+  get(key: string, options?: { start?: number }): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = "BlobNotFoundError";
+  }
+}
+
+// Keys are generated here so they never contain user input such as file names
+export function createBlobKey(prefix: string): string {
+  return `${prefix}/${randomUUID()}`;
+}
+
+export class LocalBlobStore implements BlobStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temporary file first so a failed upload never leaves a partial blob
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    try {
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, fs.createWriteStream(tempPath));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string, options?: { start?: number }): Promise<Readable> {
+    const filePath = this.resolve(key);
+    if (!(await this.exists(key))) {
+      throw new BlobNotFoundError(key);
+    }
+    return fs.createReadStream(filePath, { start: options?.start });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services such as MinIO
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  prefix?: string;
+}
+
+export class S3BlobStore implements BlobStore {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? options.prefix.replace(/\/+$/, "") + "/" : "";
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer | Readable, options?: { contentType?: string }): Promise<void> {
+    // Multipart upload, so streams of unknown length work as well as buffers
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+        Body: body,
+        ContentType: options?.contentType,
+      },
+    });
+    await upload.done();
+  }
+
+  async get(key: string, options?: { start?: number }): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+        Range: options?.start ? `bytes=${options.start}-` : undefined,
+      }));
+      return response.Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof NotFound || error instanceof NoSuchKey) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.prefix + key,
+    }));
+  }
+}
+
+// BLOB_STORE selects the implementation: "local" (default) keeps files under
+// BLOB_STORE_PATH, "s3" uses the S3_* settings
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const kind = env.BLOB_STORE || "local";
+
+  if (kind === "local") {
+    return new LocalBlobStore(env.BLOB_STORE_PATH || "uploads");
+  }
+
+  if (kind === "s3") {
+    if (!env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when BLOB_STORE=s3");
+    }
+    return new S3BlobStore({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION || "us-east-1",
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === "true",
+      prefix: env.S3_PREFIX,
+    });
+  }
+
+  throw new Error(`Unknown BLOB_STORE "${kind}"; expected "local" or "s3"`);
+}
+
+export const blobStore = createBlobStore();
+
+export function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Streams a stored blob through SHA-256; rejects with BlobNotFoundError when
+// the blob is missing
+export async function hashBlob(key: string, store: BlobStore = blobStore): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(await store.get(key), hash);
+  return hash.digest("hex");
+}
@@ -0,0 +1,450 @@
+import { AdductMass, ChemFormulaResult, IsotopePattern, IsotopePeak } from "@shared/schema";
+
+// Thrown for formulas or adducts that cannot be parsed; the API error handler
+// responds with 400
+export class ChemistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChemistryError";
+  }
+}
+
+export const ELECTRON_MASS = 0.00054857990946;
+
+interface Isotope {
+  massNumber: number;
+  mass: number;
+  abundance: number;
+}
+
+// Isotope masses and natural abundances (IUPAC/NIST)
+const ELEMENTS: Record<string, Isotope[]> = {
+  H: [{ massNumber: 1, mass: 1.00782503207, abundance: 0.999885 }, { massNumber: 2, mass: 2.0141017778, abundance: 0.000115 }],
+  Li: [{ massNumber: 6, mass: 6.015122795, abundance: 0.0759 }, { massNumber: 7, mass: 7.01600455, abundance: 0.9241 }],
+  B: [{ massNumber: 10, mass: 10.012937, abundance: 0.199 }, { massNumber: 11, mass: 11.0093054, abundance: 0.801 }],
+  C: [{ massNumber: 12, mass: 12, abundance: 0.9893 }, { massNumber: 13, mass: 13.0033548378, abundance: 0.0107 }],
+  N: [{ massNumber: 14, mass: 14.0030740048, abundance: 0.99636 }, { massNumber: 15, mass: 15.0001088982, abundance: 0.00364 }],
+  O: [
+    { massNumber: 16, mass: 15.99491461956, abundance: 0.99757 },
+    { massNumber: 17, mass: 16.9991317, abundance: 0.00038 },
+    { massNumber: 18, mass: 17.999161, abundance: 0.00205 },
+  ],
+  F: [{ massNumber: 19, mass: 18.99840322, abundance: 1 }],
+  Na: [{ massNumber: 23, mass: 22.9897692809, abundance: 1 }],
+  Mg: [
+    { massNumber: 24, mass: 23.9850417, abundance: 0.7899 },
+    { massNumber: 25, mass: 24.98583692, abundance: 0.1 },
+    { massNumber: 26, mass: 25.982592929, abundance: 0.1101 },
+  ],
+  Al: [{ massNumber: 27, mass: 26.98153863, abundance: 1 }],
+  Si: [
+    { massNumber: 28, mass: 27.9769265325, abundance: 0.92223 },
+    { massNumber: 29, mass: 28.9764947, abundance: 0.04685 },
+    { massNumber: 30, mass: 29.97377017, abundance: 0.03092 },
+  ],
+  P: [{ massNumber: 31, mass: 30.97376163, abundance: 1 }],
+  S: [
+    { massNumber: 32, mass: 31.972071, abundance: 0.9499 },
+    { massNumber: 33, mass: 32.97145876, abundance: 0.0075 },
+    { massNumber: 34, mass: 33.9678669, abundance: 0.0425 },
+    { massNumber: 36, mass: 35.96708076, abundance: 0.0001 },
+  ],
+  Cl: [{ massNumber: 35, mass: 34.96885268, abundance: 0.7576 }, { massNumber: 37, mass: 36.96590259, abundance: 0.2424 }],
+  K: [
+    { massNumber: 39, mass: 38.96370668, abundance: 0.932581 },
+    { massNumber: 40, mass: 39.96399848, abundance: 0.000117 },
+    { massNumber: 41, mass: 40.96182576, abundance: 0.067302 },
+  ],
+  Ca: [
+    { massNumber: 40, mass: 39.96259098, abundance: 0.96941 },
+    { massNumber: 42, mass: 41.95861801, abundance: 0.00647 },
+    { massNumber: 43, mass: 42.9587666, abundance: 0.00135 },
+    { massNumber: 44, mass: 43.9554818, abundance: 0.02086 },
+    { massNumber: 46, mass: 45.9536926, abundance: 0.00004 },
+    { massNumber: 48, mass: 47.952534, abundance: 0.00187 },
+  ],
+  Mn: [{ massNumber: 55, mass: 54.9380451, abundance: 1 }],
+  Fe: [
+    { massNumber: 54, mass: 53.9396105, abundance: 0.05845 },
+    { massNumber: 56, mass: 55.9349375, abundance: 0.91754 },
+    { massNumber: 57, mass: 56.935394, abundance: 0.02119 },
+    { massNumber: 58, mass: 57.9332756, abundance: 0.00282 },
+  ],
+  Co: [{ massNumber: 59, mass: 58.933195, abundance: 1 }],
+  Ni: [
+    { massNumber: 58, mass: 57.9353429, abundance: 0.680769 },
+    { massNumber: 60, mass: 59.9307864, abundance: 0.262231 },
+    { massNumber: 61, mass: 60.931056, abundance: 0.011399 },
+    { massNumber: 62, mass: 61.9283451, abundance: 0.036345 },
+    { massNumber: 64, mass: 63.927966, abundance: 0.009256 },
+  ],
+  Cu: [{ massNumber: 63, mass: 62.9295975, abundance: 0.6915 }, { massNumber: 65, mass: 64.9277895, abundance: 0.3085 }],
+  Zn: [
+    { massNumber: 64, mass: 63.9291422, abundance: 0.48268 },
+    { massNumber: 66, mass: 65.9260334, abundance: 0.27975 },
+    { massNumber: 67, mass: 66.9271273, abundance: 0.04102 },
+    { massNumber: 68, mass: 67.9248442, abundance: 0.19024 },
+    { massNumber: 70, mass: 69.9253193, abundance: 0.00631 },
+  ],
+  As: [{ massNumber: 75, mass: 74.9215965, abundance: 1 }],
+  Se: [
+    { massNumber: 74, mass: 73.9224764, abundance: 0.0089 },
+    { massNumber: 76, mass: 75.9192136, abundance: 0.0937 },
+    { massNumber: 77, mass: 76.919914, abundance: 0.0763 },
+    { massNumber: 78, mass: 77.9173091, abundance: 0.2377 },
+    { massNumber: 80, mass: 79.9165213, abundance: 0.4961 },
+    { massNumber: 82, mass: 81.9166994, abundance: 0.0873 },
+  ],
+  Br: [{ massNumber: 79, mass: 78.9183371, abundance: 0.5069 }, { massNumber: 81, mass: 80.9162906, abundance: 0.4931 }],
+  I: [{ massNumber: 127, mass: 126.904473, abundance: 1 }],
+};
+
+// Solvent and modifier abbreviations accepted in adducts
+const ABBREVIATIONS: Record<string, string> = {
+  ACN: "C2H3N",
+  MeOH: "CH4O",
+  FA: "CH2O2",
+  HAc: "C2H4O2",
+  TFA: "C2HF3O2",
+  DMSO: "C2H6OS",
+  IsoProp: "C3H8O",
+};
+
+export const DEFAULT_ADDUCTS = [
+  "[M+H]+", "[M+Na]+", "[M+K]+", "[M+NH4]+", "[M+H-H2O]+", "[M+2H]2+", "[2M+H]+", "[M+ACN+H]+",
+  "[M-H]-", "[M+Cl]-", "[M+HCOO]-", "[M+CH3COO]-", "[M-H2O-H]-", "[M-2H]2-", "[2M-H]-",
+];
+
+// Element counts keyed by symbol, or by "[13C]"-style labels for atoms of a
+// specific isotope
+export type Composition = Map<string, number>;
+
+export interface ParsedFormula {
+  composition: Composition;
+  charge: number;
+}
+
+const isotopeLabel = (massNumber: number, symbol: string) => `[${massNumber}${symbol}]`;
+
+function isotopeForLabel(label: string): { symbol: string; isotope: Isotope } | null {
+  const match = /^\[(\d+)([A-Z][a-z]?)\]$/.exec(label);
+  if (!match) return null;
+  const isotope = ELEMENTS[match[2]]?.find(candidate => candidate.massNumber === parseInt(match[1]));
+  return isotope ? { symbol: match[2], isotope } : null;
+}
+
+function addTo(target: Composition, source: Composition, factor: number) {
+  source.forEach((count, key) => {
+    const total = (target.get(key) ?? 0) + count * factor;
+    if (total === 0) target.delete(key);
+    else target.set(key, total);
+  });
+}
+
+// Recursive-descent parser for formulas such as "C6H12O6", "Ca(OH)2",
+// "[13C]6H12O6", "C2D6O", "CuSO4.5H2O" or "C5H12N+" / "SO4 2-"
+class FormulaParser {
+  private index = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): ParsedFormula {
+    const { body, charge } = this.splitCharge();
+    const parser = new FormulaParser(body);
+    const composition = parser.parseHydrates();
+    if (composition.size === 0) throw new ChemistryError("The formula is empty");
+    return { composition, charge };
+  }
+
+  // The charge is a trailing "+", "-", "++", "+2" or "-2", or "2+" / "2-"
+  // after a space or "^", since "SO42-" would otherwise be ambiguous
+  private splitCharge(): { body: string; charge: number } {
+    const text = this.text.trim();
+    let match = /[\s^](\d+)([+-])$/.exec(text);
+    if (match) return { body: text.slice(0, match.index), charge: parseInt(match[1]) * (match[2] === "+" ? 1 : -1) };
+    match = /\^?([+-])(\d+)$/.exec(text);
+    if (match) return { body: text.slice(0, match.index), charge: parseInt(match[2]) * (match[1] === "+" ? 1 : -1) };
+    match = /\^?(\++|-+)$/.exec(text);
+    if (match) return { body: text.slice(0, match.index), charge: match[1].length * (match[1][0] === "+" ? 1 : -1) };
+    return { body: text, charge: 0 };
+  }
+
+  private parseHydrates(): Composition {
+    const composition = this.parseGroup();
+    while (this.index < this.text.length && /[.·*]/.test(this.text[this.index])) {
+      this.index++;
+      const multiplier = this.readCount(1);
+      addTo(composition, this.parseGroup(), multiplier);
+    }
+    this.skipSpaces();
+    if (this.index < this.text.length) {
+      throw new ChemistryError(`Unexpected "${this.text[this.index]}" at position ${this.index + 1} of "${this.text}"`);
+    }
+    return composition;
+  }
+
+  private parseGroup(closing?: string): Composition {
+    const composition: Composition = new Map();
+    for (;;) {
+      this.skipSpaces();
+      const char = this.text[this.index];
+      if (char === undefined || /[.·*]/.test(char) || char === closing) return composition;
+
+      if (char === "(" || (char === "[" && !/\d/.test(this.text[this.index + 1] ?? ""))) {
+        const close = char === "(" ? ")" : "]";
+        this.index++;
+        const inner = this.parseGroup(close);
+        if (this.text[this.index] !== close) throw new ChemistryError(`Missing "${close}" in "${this.text}"`);
+        this.index++;
+        addTo(composition, inner, this.readCount(1));
+      } else if (char === "[") {
+        const match = /^\[(\d+)([A-Z][a-z]?)\]/.exec(this.text.slice(this.index));
+        if (!match) throw new ChemistryError(`Invalid isotope label at position ${this.index + 1} of "${this.text}"`);
+        const label = isotopeLabel(parseInt(match[1]), match[2]);
+        if (!isotopeForLabel(label)) throw new ChemistryError(`Unknown isotope ${match[1]}${match[2]}`);
+        this.index += match[0].length;
+        addTo(composition, new Map([[label, 1]]), this.readCount(1));
+      } else if (/[A-Z]/.test(char)) {
+        // Case matters: "Co" is cobalt, "CO" carbon and oxygen
+        const symbol = /^[A-Z][a-z]?/.exec(this.text.slice(this.index))![0];
+        if (!ELEMENTS[symbol] && symbol !== "D") throw new ChemistryError(`Unknown element "${symbol}" in "${this.text}"`);
+        this.index += symbol.length;
+        const key = symbol === "D" ? isotopeLabel(2, "H") : symbol;
+        addTo(composition, new Map([[key, 1]]), this.readCount(1));
+      } else {
+        throw new ChemistryError(`Unexpected "${char}" at position ${this.index + 1} of "${this.text}"`);
+      }
+    }
+  }
+
+  private readCount(fallback: number): number {
+    const match = /^\d+/.exec(this.text.slice(this.index));
+    if (!match) return fallback;
+    this.index += match[0].length;
+    return parseInt(match[0]);
+  }
+
+  private skipSpaces() {
+    while (this.text[this.index] === " ") this.index++;
+  }
+}
+
+export function parseFormula(formula: string): ParsedFormula {
+  if (formula.length > 500) throw new ChemistryError("The formula is too long");
+  return new FormulaParser(formula).parse();
+}
+
+const baseSymbol = (key: string) => isotopeForLabel(key)?.symbol ?? key;
+
+// Hill notation: carbon, then hydrogen, then the other elements
+// alphabetically (all alphabetically without carbon); labelled isotopes
+// follow their element
+export function formatFormula(composition: Composition): string {
+  const hasCarbon = Array.from(composition.keys()).some(key => baseSymbol(key) === "C");
+  const rank = (symbol: string) => hasCarbon ? (symbol === "C" ? 0 : symbol === "H" ? 1 : 2) : 2;
+  return Array.from(composition.entries())
+    .sort(([a], [b]) => {
+      const symbolA = baseSymbol(a);
+      const symbolB = baseSymbol(b);
+      return rank(symbolA) - rank(symbolB) || symbolA.localeCompare(symbolB) || a.length - b.length || a.localeCompare(b);
+    })
+    .map(([key, count]) => count === 1 ? key : `${key}${count}`)
+    .join("");
+}
+
+function atomMasses(key: string): { monoisotopic: number; average: number } {
+  const labelled = isotopeForLabel(key);
+  if (labelled) return { monoisotopic: labelled.isotope.mass, average: labelled.isotope.mass };
+  const isotopes = ELEMENTS[key];
+  const mostAbundant = isotopes.reduce((best, isotope) => isotope.abundance > best.abundance ? isotope : best);
+  return {
+    monoisotopic: mostAbundant.mass,
+    average: isotopes.reduce((sum, isotope) => sum + isotope.mass * isotope.abundance, 0),
+  };
+}
+
+// Masses of the neutral composition; electrons are accounted for in m/z
+export function compositionMasses(composition: Composition): { monoisotopic: number; average: number } {
+  let monoisotopic = 0;
+  let average = 0;
+  composition.forEach((count, key) => {
+    const masses = atomMasses(key);
+    monoisotopic += masses.monoisotopic * count;
+    average += masses.average * count;
+  });
+  return { monoisotopic, average };
+}
+
+export const ionMz = (neutralMass: number, charge: number) => (neutralMass - charge * ELECTRON_MASS) / Math.abs(charge);
+
+export interface ParsedAdduct {
+  name: string;
+  multimer: number;
+  // Atoms added to (or, with negative counts, removed from) the multimer
+  delta: Composition;
+  charge: number;
+}
+
+// Parses adducts written as "[M+H]+", "[2M+Na]+", "[M+2H]2+", "[M-H2O-H]-"
+// or "[M+ACN+H]+"
+export function parseAdduct(adduct: string): ParsedAdduct {
+  const match = /^\[(\d*)M((?:[+-]\d*[A-Za-z0-9()]+)*)\](\d*)([+-])$/.exec(adduct.replace(/\s+/g, ""));
+  if (!match) {
+    throw new ChemistryError(`Invalid adduct "${adduct}"; write adducts like [M+H]+, [2M+Na]+ or [M-2H]2-`);
+  }
+  const delta: Composition = new Map();
+  for (const term of match[2].match(/[+-]\d*[A-Za-z0-9()]+/g) ?? []) {
+    const termMatch = /^([+-])(\d*)(.+)$/.exec(term)!;
+    const count = termMatch[2] ? parseInt(termMatch[2]) : 1;
+    const { composition, charge } = parseFormula(ABBREVIATIONS[termMatch[3]] ?? termMatch[3]);
+    if (charge !== 0) throw new ChemistryError(`Invalid adduct "${adduct}"`);
+    addTo(delta, composition, count * (termMatch[1] === "+" ? 1 : -1));
+  }
+  const charge = (match[3] ? parseInt(match[3]) : 1) * (match[4] === "+" ? 1 : -1);
+  if (charge === 0) throw new ChemistryError(`Invalid adduct "${adduct}"`);
+  return { name: adduct.replace(/\s+/g, ""), multimer: match[1] ? parseInt(match[1]) : 1, delta, charge };
+}
+
+// Composition of the ion formed by an adduct of a neutral molecule, or null
+// (or an error) when the adduct removes atoms the molecule does not have
+export function adductComposition(composition: Composition, adduct: ParsedAdduct, strict: true): Composition;
+export function adductComposition(composition: Composition, adduct: ParsedAdduct, strict: boolean): Composition | null;
+export function adductComposition(composition: Composition, adduct: ParsedAdduct, strict: boolean): Composition | null {
+  const ion: Composition = new Map();
+  addTo(ion, composition, adduct.multimer);
+  addTo(ion, adduct.delta, 1);
+  const missing = Array.from(ion.entries()).find(([, count]) => count < 0);
+  if (!missing) return ion;
+  if (strict) throw new ChemistryError(`${adduct.name} removes more ${missing[0]} than the molecule has`);
+  return null;
+}
+
+// Monoisotopic mass of the neutral molecule an adduct ion of this m/z was
+// formed from, e.g. for looking up an observed [M+H]+ in a compound library
+export function adductNeutralMass(mz: number, adduct: ParsedAdduct): number {
+  const ionMass = mz * Math.abs(adduct.charge) + adduct.charge * ELECTRON_MASS;
+  return (ionMass - compositionMasses(adduct.delta).monoisotopic) / adduct.multimer;
+}
+
+// m/z of the ion an adduct forms from a neutral molecule of this
+// monoisotopic mass; the inverse of adductNeutralMass
+export function adductMz(neutralMass: number, adduct: ParsedAdduct): number {
+  return ionMz(neutralMass * adduct.multimer + compositionMasses(adduct.delta).monoisotopic, adduct.charge);
+}
+
+// Masses and m/z of a formula. Adduct m/z values are computed for neutral
+// formulas only; a charged formula is already an ion and gets its own m/z.
+// Adducts that lose atoms the molecule does not have (e.g. [M-H2O-H]- of
+// NaOH) are left out.
+export function calculateFormula(formula: string, adducts: string[] = DEFAULT_ADDUCTS): ChemFormulaResult {
+  const { composition, charge } = parseFormula(formula);
+  const masses = compositionMasses(composition);
+
+  const adductMasses: AdductMass[] = charge !== 0 ? [] : adducts.map(parseAdduct).flatMap(adduct => {
+    const ion = adductComposition(composition, adduct, false);
+    if (!ion) return [];
+    return [{
+      adduct: adduct.name,
+      charge: adduct.charge,
+      formula: formatFormula(ion),
+      mz: ionMz(compositionMasses(ion).monoisotopic, adduct.charge),
+    }];
+  });
+
+  return {
+    formula: formatFormula(composition),
+    composition: Object.fromEntries(composition),
+    charge,
+    monoisotopicMass: masses.monoisotopic,
+    averageMass: masses.average,
+    mz: charge === 0 ? null : ionMz(masses.monoisotopic, charge),
+    adducts: adductMasses,
+  };
+}
+
+// Isotope distribution binned by nominal mass: bin k holds the total
+// probability of compositions k units heavier than the lightest one, and
+// their probability-weighted mean mass
+interface Distribution {
+  probabilities: number[];
+  masses: number[];
+}
+
+// Bins that are this improbable are dropped while convolving
+const PRUNE_BELOW = 1e-12;
+const MAX_BINS = 40;
+
+function convolve(a: Distribution, b: Distribution): Distribution {
+  const length = Math.min(a.probabilities.length + b.probabilities.length - 1, MAX_BINS);
+  const probabilities = new Array<number>(length).fill(0);
+  const massSums = new Array<number>(length).fill(0);
+  for (let i = 0; i < a.probabilities.length; i++) {
+    for (let j = 0; j < b.probabilities.length && i + j < length; j++) {
+      const probability = a.probabilities[i] * b.probabilities[j];
+      probabilities[i + j] += probability;
+      massSums[i + j] += probability * (a.masses[i] + b.masses[j]);
+    }
+  }
+  let last = length;
+  while (last > 1 && probabilities[last - 1] < PRUNE_BELOW) last--;
+  return {
+    probabilities: probabilities.slice(0, last),
+    masses: massSums.slice(0, last).map((sum, index) => probabilities[index] > 0 ? sum / probabilities[index] : 0),
+  };
+}
+
+function power(distribution: Distribution, exponent: number): Distribution {
+  let result: Distribution = { probabilities: [1], masses: [0] };
+  let base = distribution;
+  for (let remaining = exponent; remaining > 0; remaining = Math.floor(remaining / 2)) {
+    if (remaining % 2 === 1) result = convolve(result, base);
+    if (remaining > 1) base = convolve(base, base);
+  }
+  return result;
+}
+
+function atomDistribution(key: string): Distribution {
+  const labelled = isotopeForLabel(key);
+  if (labelled) return { probabilities: [1], masses: [labelled.isotope.mass] };
+  const isotopes = ELEMENTS[key];
+  const lightest = Math.min(...isotopes.map(isotope => isotope.massNumber));
+  const heaviest = Math.max(...isotopes.map(isotope => isotope.massNumber));
+  const probabilities = new Array<number>(heaviest - lightest + 1).fill(0);
+  const masses = new Array<number>(heaviest - lightest + 1).fill(0);
+  for (const isotope of isotopes) {
+    probabilities[isotope.massNumber - lightest] = isotope.abundance;
+    masses[isotope.massNumber - lightest] = isotope.mass;
+  }
+  return { probabilities, masses };
+}
+
+// Theoretical isotope pattern at unit resolution, as m/z and abundance
+// relative to the most intense peak (in %). Without an adduct the formula's
+// own charge is used; neutral formulas are reported as masses.
+export function isotopePattern(formula: string, adductName?: string, minAbundance = 0.01): IsotopePattern {
+  const parsed = parseFormula(formula);
+  const adduct = adductName ? parseAdduct(adductName) : null;
+  if (adduct && parsed.charge !== 0) throw new ChemistryError("Adducts can only be applied to neutral formulas");
+  const composition = adduct ? adductComposition(parsed.composition, adduct, true) : parsed.composition;
+  const charge = adduct ? adduct.charge : parsed.charge;
+
+  let distribution: Distribution = { probabilities: [1], masses: [0] };
+  composition.forEach((count, key) => {
+    distribution = convolve(distribution, power(atomDistribution(key), count));
+  });
+
+  const highest = Math.max(...distribution.probabilities);
+  const peaks: IsotopePeak[] = distribution.probabilities.flatMap((probability, index) => {
+    const abundance = probability / highest * 100;
+    if (abundance < minAbundance) return [];
+    const mass = distribution.masses[index];
+    return [{ mz: charge === 0 ? mass : ionMz(mass, charge), abundance }];
+  });
+
+  return {
+    formula: formatFormula(composition),
+    adduct: adduct?.name ?? null,
+    charge,
+    peaks,
+  };
+}
@@ -0,0 +1,209 @@
+import { parseCsv, isBlankRow } from "./csv";
+import { ChemistryError, calculateFormula } from "./chemistry";
+import {
+  CompoundImportError,
+  CompoundImportFormat,
+  CompoundImportResult,
+  InsertCompound,
+  MAX_COMPOUND_SYNONYMS,
+  UpdateCompound,
+  insertCompoundSchema,
+} from "@shared/schema";
+
+const MAX_RECORDS = 50000;
+
+type CompoundField =
+  | "name" | "synonyms" | "formula" | "monoisotopicMass" | "inchiKey" | "smiles"
+  | "hmdbId" | "chebiId" | "keggId" | "pubchemCid";
+
+// CSV headers and SDF data item names recognized for each field, compared
+// after lower-casing and removing everything but letters and digits. Earlier
+// names win when a record has several (e.g. a common and an IUPAC name). The
+// spellings cover HMDB, ChEBI, LIPID MAPS and PubChem downloads.
+const FIELD_ALIASES: Record<CompoundField, string[]> = {
+  name: ["name", "compoundname", "commonname", "genericname", "metabolitename", "chebiname", "compound", "pubchemiupacname", "iupacname"],
+  synonyms: ["synonyms", "synonym", "othernames", "aliases"],
+  formula: ["formula", "molecularformula", "chemicalformula", "formulae", "pubchemmolecularformula"],
+  monoisotopicMass: [
+    "monoisotopicmass", "exactmass", "monoisotopicmolecularweight", "monomass", "monoisotopicweight",
+    "pubchemmonoisotopicweight", "pubchemexactmass", "mass",
+  ],
+  inchiKey: ["inchikey", "standardinchikey", "pubchemiupacinchikey"],
+  smiles: ["smiles", "canonicalsmiles", "isomericsmiles", "pubchemopeneyeisosmiles", "pubchemopeneyecansmiles", "pubchemsmiles"],
+  hmdbId: ["hmdbid", "hmdb", "hmdbaccession", "hmdbdatabaselinks"],
+  chebiId: ["chebiid", "chebi"],
+  keggId: ["keggid", "kegg", "keggcompoundid", "keggcompounddatabaselinks"],
+  pubchemCid: ["pubchemcid", "pubchemcompoundcid", "pubchemid", "pubchem", "cid"],
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Brings database IDs to one spelling so they can be compared: HMDB IDs get
+// the current 7-digit form and bare ChEBI numbers the "CHEBI:" prefix
+export function normalizeIdentifiers<T extends Pick<UpdateCompound, "hmdbId" | "chebiId" | "keggId">>(compound: T): T {
+  const normalized = { ...compound };
+  if (normalized.hmdbId) {
+    const match = /^(?:HMDB)?(\d+)$/i.exec(normalized.hmdbId);
+    normalized.hmdbId = match ? `HMDB${match[1].padStart(7, "0")}` : normalized.hmdbId.toUpperCase();
+  }
+  if (normalized.chebiId) {
+    const match = /^(?:CHEBI:)?(\d+)$/i.exec(normalized.chebiId);
+    normalized.chebiId = match ? `CHEBI:${match[1]}` : normalized.chebiId.toUpperCase();
+  }
+  if (normalized.keggId) {
+    normalized.keggId = normalized.keggId.toUpperCase();
+  }
+  return normalized;
+}
+
+// Monoisotopic mass of a formula, or null when it cannot be parsed (e.g. the
+// "(C6H10O5)n" of a polymer); such formulas are kept as written
+export function formulaMass(formula: string): number | null {
+  try {
+    return calculateFormula(formula, []).monoisotopicMass;
+  } catch (error) {
+    if (error instanceof ChemistryError) return null;
+    throw error;
+  }
+}
+
+// The mass of a formula that can be parsed wins over one given alongside it
+export function withFormulaMass<T extends UpdateCompound>(compound: T): T {
+  const mass = compound.formula ? formulaMass(compound.formula) : null;
+  return mass === null ? compound : { ...compound, monoisotopicMass: mass };
+}
+
+export function detectCompoundFormat(text: string): CompoundImportFormat {
+  return /^\$\$\$\$\s*$/m.test(text) || /^M {2}END\s*$/m.test(text) ? "sdf" : "csv";
+}
+
+interface CompoundRecord {
+  // Line number (CSV) or record number (SDF) for error messages
+  record: number;
+  values: Map<string, string>;
+  // The molfile title line, used when no name field is present
+  title?: string;
+}
+
+function readSdfRecords(text: string): CompoundRecord[] {
+  const records: CompoundRecord[] = [];
+  const blocks = text.replace(/\r\n?/g, "\n").split(/^\$\$\$\$[^\n]*\n?/m);
+  blocks.forEach((block, index) => {
+    if (!block.trim()) return;
+    const lines = block.split("\n");
+    const values = new Map<string, string>();
+    for (let i = 0; i < lines.length; i++) {
+      const header = /^>.*<([^>]+)>/.exec(lines[i]);
+      if (!header) continue;
+      const valueLines: string[] = [];
+      while (i + 1 < lines.length && lines[i + 1].trim() !== "") {
+        valueLines.push(lines[++i].trim());
+      }
+      values.set(normalize(header[1]), valueLines.join("\n"));
+    }
+    records.push({ record: index + 1, values, title: lines[0].trim() });
+  });
+  return records;
+}
+
+function readCsvRecords(text: string): { records: CompoundRecord[]; errors: CompoundImportError[] } {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(row => !isBlankRow(row));
+  if (headerIndex === -1) {
+    return { records: [], errors: [{ record: 1, message: "The file has no header row" }] };
+  }
+
+  const header = rows[headerIndex].map(name => normalize(name));
+  const records: CompoundRecord[] = [];
+  for (let index = headerIndex + 1; index < rows.length; index++) {
+    if (isBlankRow(rows[index])) continue;
+    const values = new Map<string, string>();
+    header.forEach((name, position) => {
+      const value = (rows[index][position] ?? "").trim();
+      if (name && value && !values.has(name)) values.set(name, value);
+    });
+    records.push({ record: index + 1, values });
+  }
+  return { records, errors: [] };
+}
+
+function field(record: CompoundRecord, key: CompoundField): string {
+  for (const alias of FIELD_ALIASES[key]) {
+    const value = record.values.get(alias)?.trim();
+    if (value) return value;
+  }
+  return "";
+}
+
+// Multi-valued SDF items put one value per line; CSV cells separate them
+// with semicolons or pipes
+const splitValues = (value: string) => value.split(/[\n;|]/).map(part => part.trim()).filter(Boolean);
+
+// Reads an SDF or CSV/TSV compound file into compounds for the library.
+// Records are matched by InChIKey: ones already in the library or earlier in
+// the file are counted as duplicates and skipped. Other problems are
+// collected per record so the whole file can be fixed in one go; compounds
+// are only meant to be saved when there are no errors.
+export function parseCompoundFile(
+  text: string,
+  format: CompoundImportFormat,
+  existingInchiKeys: Set<string>,
+  createdById: number
+): CompoundImportResult {
+  const { records, errors } = format === "sdf" ? { records: readSdfRecords(text), errors: [] } : readCsvRecords(text);
+  const compounds: InsertCompound[] = [];
+  let duplicates = 0;
+
+  if (records.length > MAX_RECORDS) {
+    return { compounds, duplicates, errors: [{ record: 1, message: `At most ${MAX_RECORDS} compounds can be imported at once` }] };
+  }
+
+  const seenInchiKeys = new Set(existingInchiKeys);
+  for (const record of records) {
+    const name = field(record, "name") || record.title || "";
+    if (!name) {
+      errors.push({ record: record.record, message: "Name is missing" });
+      continue;
+    }
+
+    const inchiKey = field(record, "inchiKey").replace(/^InChIKey=/i, "").toUpperCase();
+    if (inchiKey && seenInchiKeys.has(inchiKey)) {
+      duplicates++;
+      continue;
+    }
+
+    const formula = field(record, "formula");
+    const massText = field(record, "monoisotopicMass");
+    const fileMass = massText ? Number(massText) : null;
+    if (fileMass !== null && !(fileMass > 0)) {
+      errors.push({ record: record.record, message: `Invalid monoisotopic mass "${massText}"` });
+      continue;
+    }
+
+    const parsed = insertCompoundSchema.safeParse(normalizeIdentifiers(withFormulaMass({
+      name: splitValues(name)[0],
+      synonyms: Array.from(new Set(splitValues(field(record, "synonyms")))).slice(0, MAX_COMPOUND_SYNONYMS),
+      formula: formula || null,
+      monoisotopicMass: fileMass,
+      inchiKey: inchiKey || null,
+      smiles: field(record, "smiles") || null,
+      hmdbId: splitValues(field(record, "hmdbId"))[0] ?? null,
+      chebiId: splitValues(field(record, "chebiId"))[0] ?? null,
+      keggId: splitValues(field(record, "keggId"))[0] ?? null,
+      pubchemCid: splitValues(field(record, "pubchemCid"))[0] ?? null,
+      createdById,
+    })));
+    if (parsed.success) {
+      compounds.push(parsed.data);
+      if (parsed.data.inchiKey) seenInchiKeys.add(parsed.data.inchiKey);
+    } else {
+      errors.push(...parsed.error.issues.map(issue => ({ record: record.record, message: issue.message })));
+    }
+  }
+
+  if (compounds.length === 0 && duplicates === 0 && errors.length === 0) {
+    errors.push({ record: 1, message: "The file has no compounds" });
+  }
+
+  return { compounds, errors, duplicates };
+}
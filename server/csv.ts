@@ -0,0 +1,82 @@
+// Minimal RFC 4180 reader for spreadsheets exported as CSV or TSV: quoted
+// fields may contain delimiters, doubled quotes and line breaks. Blank lines
+// are kept so row numbers match the spreadsheet.
+
+const DELIMITERS = [",", "\t", ";"];
+
+// Picks the delimiter that splits the header line into the most columns
+export function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  // Spreadsheet exports often start with a byte order mark
+  if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export function isBlankRow(fields: string[]): boolean {
+  return fields.every(value => value.trim() === "");
+}
+
+// Quotes fields containing the delimiter, quotes or line breaks. Lines end in
+// CRLF since most instrument software runs on Windows.
+export function formatCsv(rows: (string | number)[][], delimiter = ","): string {
+  return rows
+    .map(row => row.map(value => {
+      const text = String(value);
+      return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(delimiter))
+    .join("\r\n") + "\r\n";
+}
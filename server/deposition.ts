@@ -0,0 +1,209 @@
+import { storage } from "./storage";
+import {
+  Compound,
+  DepositionIssue,
+  DepositionMetadata,
+  Experiment,
+  FeatureAnnotation,
+  FeatureTableWithColumns,
+  Project,
+  SampleWithExperiments,
+  depositionMetadataSchema,
+} from "@shared/schema";
+
+// Project data gathered for the repository exports (ISA-Tab for
+// MetaboLights, mwTab for Metabolomics Workbench). Each experiment is one LC-MS assay, measured by its most
+// recent parsed feature table.
+
+export type Polarity = "positive" | "negative" | "alternating";
+
+// One injection of an assay
+export interface DepositionRun {
+  // The feature table column, or the sample code when the experiment has no table
+  assayName: string;
+  sample: SampleWithExperiments;
+  // Position of the run's intensities in the table's features
+  position: number | null;
+  rawFileName: string | null;
+  polarity: Polarity | null;
+}
+
+export interface DepositionAssay {
+  experiment: Experiment;
+  table: FeatureTableWithColumns | null;
+  runs: DepositionRun[];
+  // Table columns not mapped to a registered sample, left out of the assay
+  unmappedColumns: string[];
+}
+
+export interface DepositionStudy {
+  project: Project;
+  metadata: DepositionMetadata;
+  samples: SampleWithExperiments[];
+  assays: DepositionAssay[];
+  // Experiments with neither linked samples nor a feature table
+  emptyExperiments: Experiment[];
+}
+
+const RUN_POLARITIES: Record<string, Polarity> = {
+  positive: "positive",
+  negative: "negative",
+  mixed: "alternating",
+};
+
+export async function loadDepositionStudy(project: Project): Promise<DepositionStudy> {
+  const metadata = depositionMetadataSchema.parse(project.deposition ?? {});
+  const samples = await storage.listSamplesByProject(project.id);
+  const samplesById = new Map(samples.map(sample => [sample.id, sample]));
+  const tables = await storage.listFeatureTablesByProject(project.id);
+
+  const assays: DepositionAssay[] = [];
+  const emptyExperiments: Experiment[] = [];
+  for (const experiment of await storage.listExperimentsByProject(project.id)) {
+    // Tables are listed newest first
+    const latest = tables.find(table => table.experimentId === experiment.id && table.status === "parsed");
+    const table = latest ? await storage.getFeatureTable(latest.id) ?? null : null;
+
+    if (!table) {
+      const linked = samples.filter(sample => sample.experimentIds.includes(experiment.id));
+      if (linked.length === 0) {
+        emptyExperiments.push(experiment);
+        continue;
+      }
+      assays.push({
+        experiment,
+        table: null,
+        runs: linked.map(sample => ({
+          assayName: sample.sampleCode,
+          sample,
+          position: null,
+          rawFileName: null,
+          polarity: metadata.polarity,
+        })),
+        unmappedColumns: [],
+      });
+      continue;
+    }
+
+    const runs: DepositionRun[] = [];
+    const unmappedColumns: string[] = [];
+    for (const column of [...table.columns].sort((a, b) => a.position - b.position)) {
+      const sample = column.sampleId !== null ? samplesById.get(column.sampleId) : undefined;
+      if (!sample) {
+        unmappedColumns.push(column.columnName);
+        continue;
+      }
+      const attachment = column.attachmentId !== null ? await storage.getAttachment(column.attachmentId) : undefined;
+      const run = attachment ? await storage.getMsRunByAttachment(attachment.id) : undefined;
+      runs.push({
+        assayName: column.columnName,
+        sample,
+        position: column.position,
+        rawFileName: attachment?.fileName ?? null,
+        polarity: (run?.polarity && RUN_POLARITIES[run.polarity]) || metadata.polarity,
+      });
+    }
+    assays.push({ experiment, table, runs, unmappedColumns });
+  }
+
+  return { project, metadata, samples, assays, emptyExperiments };
+}
+
+export function assayPolarity(assay: DepositionAssay): Polarity | null {
+  const polarities = Array.from(new Set(assay.runs.flatMap(run => run.polarity ?? [])));
+  return polarities.length === 1 ? polarities[0] : polarities.length > 1 ? "alternating" : null;
+}
+
+export interface AcceptedAnnotation {
+  annotation: FeatureAnnotation;
+  compound: Compound;
+}
+
+// Accepted annotations of a table's features, keyed by feature; annotations
+// whose compound was deleted from the library are left out
+export async function loadAcceptedAnnotations(tableId: number): Promise<Map<number, AcceptedAnnotation[]>> {
+  const accepted = await storage.listFeatureAnnotations(tableId, { status: "accepted" });
+  const compounds = new Map<number, Compound>();
+  for (const compoundId of Array.from(new Set(accepted.map(annotation => annotation.compoundId)))) {
+    const compound = await storage.getCompound(compoundId);
+    if (compound) compounds.set(compoundId, compound);
+  }
+
+  const byFeature = new Map<number, AcceptedAnnotation[]>();
+  for (const annotation of accepted) {
+    const compound = compounds.get(annotation.compoundId);
+    if (compound) byFeature.set(annotation.featureId, [...byFeature.get(annotation.featureId) ?? [], { annotation, compound }]);
+  }
+  return byFeature;
+}
+
+// File-name-safe version of a name
+export function slugify(name: string): string {
+  return name.normalize("NFKD").replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 60);
+}
+
+// "P001, P002, P003 and 4 more"
+export function listNames(names: string[], limit = 5): string {
+  const shown = names.slice(0, limit).join(", ");
+  return names.length > limit ? `${shown} and ${names.length - limit} more` : shown;
+}
+
+// Checks that do not depend on the export format: the study description,
+// contacts, the samples' organism and matrix, and what each assay measured
+export function validateCommonFields(study: DepositionStudy): DepositionIssue[] {
+  const { project, metadata, samples, assays, emptyExperiments } = study;
+  const issues: DepositionIssue[] = [];
+  const error = (location: string, message: string) => issues.push({ severity: "error", location, message });
+  const warning = (location: string, message: string) => issues.push({ severity: "warning", location, message });
+
+  if (!project.description?.trim()) {
+    error("Study", "The project has no description; it is used as the study description");
+  }
+
+  if (metadata.contacts.length === 0) {
+    error("Study contacts", "Add at least one contact");
+  }
+  metadata.contacts.forEach((contact, index) => {
+    const location = `Contact ${index + 1}`;
+    if (!contact.firstName || !contact.lastName) error(location, "First and last name are required");
+    if (!contact.email) error(location, "Email is required");
+    if (!contact.affiliation) error(location, "Affiliation is required");
+    if (!contact.role) warning(location, "No role, e.g. principal investigator or submitter");
+  });
+
+  if (samples.length === 0) {
+    error("Samples", "The project has no registered samples");
+  }
+  const biological = samples.filter(sample => sample.sampleType === "study" || sample.sampleType === "qc");
+  const noOrganism = biological.filter(sample => !sample.organism?.trim()).map(sample => sample.sampleCode);
+  if (noOrganism.length > 0) {
+    error("Samples", `${noOrganism.length} study or QC samples have no organism: ${listNames(noOrganism)}`);
+  }
+  const noMatrix = biological.filter(sample => !sample.matrix?.trim()).map(sample => sample.sampleCode);
+  if (noMatrix.length > 0) {
+    error("Samples", `${noMatrix.length} study or QC samples have no matrix (organism part): ${listNames(noMatrix)}`);
+  }
+
+  if (assays.length === 0) {
+    error("Assays", "No experiment has linked samples or a feature table");
+  }
+  for (const experiment of emptyExperiments) {
+    warning(`Experiment ${experiment.name}`, "Left out: it has neither linked samples nor a feature table");
+  }
+  for (const assay of assays) {
+    const location = `Experiment ${assay.experiment.name}`;
+    if (!assay.table) {
+      warning(location, "No parsed feature table; its samples are listed without raw data or metabolite data");
+      continue;
+    }
+    if (assay.unmappedColumns.length > 0) {
+      warning(location, `${assay.unmappedColumns.length} columns of ${assay.table.name} are not mapped to samples and are left out: ` +
+        listNames(assay.unmappedColumns));
+    }
+    if (assay.runs.length === 0) {
+      error(location, `No column of ${assay.table.name} is mapped to a registered sample`);
+    }
+  }
+
+  return issues;
+}
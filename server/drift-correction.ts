@@ -0,0 +1,231 @@
+import {
+  CorrectDrift,
+  DriftCorrection,
+  DriftCorrectionBatch,
+  Feature,
+  FeatureTableWithColumns,
+  InsertFeature,
+  Sample,
+} from "@shared/schema";
+import { relativeStandardDeviation } from "./qc-metrics";
+
+export class DriftCorrectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DriftCorrectionError";
+  }
+}
+
+// A feature needs this many QC detections for its RSD to mean anything
+const MIN_QC_DETECTIONS = 3;
+// Upper bin edges of the before/after RSD histogram, in %
+const RSD_EDGES = [0, 10, 20, 30, 40, 50];
+
+// A feature table column with its place in the run
+export interface DriftColumn {
+  position: number;
+  order: number;
+  batch: string;
+  isQc: boolean;
+}
+
+type DriftCorrectionStatistics = Omit<DriftCorrection, "settings" | "sourceTableName" | "batches">;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const fraction = (values: number[], limit: number) =>
+  values.length === 0 ? null : values.filter(value => value < limit).length / values.length;
+
+// Every column of the table in injection order, with its batch. Columns are
+// ordered by their recorded injection order, or by position when the file
+// did not record one. Batches come from the sample attribute named in the
+// settings, or the batch IDs recorded in the file.
+export function driftCorrectionColumns(
+  table: FeatureTableWithColumns,
+  samples: Sample[],
+  settings: CorrectDrift
+): { columns: DriftColumn[]; batches: DriftCorrectionBatch[] } {
+  const samplesById = new Map(samples.map(sample => [sample.id, sample]));
+  const hasInjectionOrder = table.columns.every(column => column.injectionOrder !== null);
+
+  const columns = table.columns.map(column => {
+    const sample = column.sampleId !== null ? samplesById.get(column.sampleId) : undefined;
+    let batch = column.batch !== null ? String(column.batch) : "1";
+    if (settings.batchAttribute) {
+      const value = sample?.attributes[settings.batchAttribute]?.trim();
+      if (!value) {
+        throw new DriftCorrectionError(`Column "${column.columnName}" has no "${settings.batchAttribute}" sample attribute`);
+      }
+      batch = value;
+    }
+    return {
+      position: column.position,
+      order: hasInjectionOrder ? column.injectionOrder! : column.position + 1,
+      batch,
+      isQc: sample?.sampleType === "qc",
+    };
+  }).sort((a, b) => a.order - b.order);
+
+  const batchNames = Array.from(new Set(columns.map(column => column.batch)));
+  const batches = batchNames.map(batch => ({
+    batch,
+    injections: columns.filter(column => column.batch === batch).length,
+    qcInjections: columns.filter(column => column.batch === batch && column.isQc).length,
+  }));
+  for (const batch of batches) {
+    if (batch.qcInjections < settings.minQcPerBatch) {
+      throw new DriftCorrectionError(
+        `Batch ${batch.batch} has ${batch.qcInjections} pooled QC ${batch.qcInjections === 1 ? "injection" : "injections"}; ` +
+        `at least ${settings.minQcPerBatch} are needed`
+      );
+    }
+  }
+  return { columns, batches };
+}
+
+// Locally weighted linear regression (LOESS) evaluated at x: the nearest
+// span share of the points are weighted by the tricube of their distance
+export function loess(points: { x: number; y: number }[], span: number, x: number): number {
+  const count = Math.min(points.length, Math.max(Math.ceil(span * points.length), 3));
+  const neighbours = points
+    .map(point => ({ ...point, distance: Math.abs(point.x - x) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, count);
+  const maxDistance = neighbours[neighbours.length - 1].distance;
+
+  let sumWeights = 0;
+  let sumX = 0;
+  let sumY = 0;
+  const weights = neighbours.map(point => {
+    const weight = maxDistance === 0 ? 1 : (1 - (point.distance / maxDistance) ** 3) ** 3;
+    sumWeights += weight;
+    sumX += weight * point.x;
+    sumY += weight * point.y;
+    return weight;
+  });
+  if (sumWeights === 0) return sumY;
+  const meanX = sumX / sumWeights;
+  const meanY = sumY / sumWeights;
+
+  let spread = 0;
+  let covariance = 0;
+  neighbours.forEach((point, index) => {
+    spread += weights[index] * (point.x - meanX) ** 2;
+    covariance += weights[index] * (point.x - meanX) * (point.y - meanY);
+  });
+  return spread === 0 ? meanY : meanY + covariance / spread * (x - meanX);
+}
+
+// Divides every injection of each feature by a LOESS curve fitted to its QC
+// intensities in the same batch and scales it to the feature's median QC
+// intensity. Injections outside a batch's first and last QC take the curve's
+// value at that QC rather than extrapolating it. Features with too few QC
+// detections in a batch, or whose curve is not positive, are copied as they
+// are. Undetected values stay undetected.
+export function correctDrift(
+  features: Feature[],
+  columns: DriftColumn[],
+  settings: CorrectDrift
+): { features: Omit<InsertFeature, "tableId">[]; statistics: DriftCorrectionStatistics } {
+  const batchNames = Array.from(new Set(columns.map(column => column.batch)));
+  const detected = (value: number | null | undefined) => value !== null && value !== undefined && value > 0 ? value : null;
+  const qcValues = (intensities: (number | null)[]) => columns
+    .filter(column => column.isQc)
+    .flatMap(column => detected(intensities[column.position]) ?? []);
+
+  const rsdsBefore: number[] = [];
+  const rsdsAfter: number[] = [];
+  let correctedFeatureCount = 0;
+
+  const corrected = features.map(feature => {
+    const intensities = [...feature.intensities];
+    const target = median(qcValues(feature.intensities));
+
+    let factors: Map<number, number> | null = target === null ? null : new Map();
+    for (const batch of batchNames) {
+      if (!factors) break;
+      const batchColumns = columns.filter(column => column.batch === batch);
+      const points = batchColumns
+        .filter(column => column.isQc)
+        .flatMap(column => {
+          const value = detected(feature.intensities[column.position]);
+          return value === null ? [] : [{ x: column.order, y: value }];
+        });
+      if (points.length < settings.minQcPerBatch) {
+        factors = null;
+        break;
+      }
+
+      const first = points[0].x;
+      const last = points[points.length - 1].x;
+      for (const column of batchColumns) {
+        const fit = loess(points, settings.span, Math.min(Math.max(column.order, first), last));
+        if (!(fit > 0)) {
+          factors = null;
+          break;
+        }
+        factors.set(column.position, target! / fit);
+      }
+    }
+
+    if (factors) {
+      correctedFeatureCount++;
+      for (const column of columns) {
+        const value = detected(feature.intensities[column.position]);
+        intensities[column.position] = value === null ? feature.intensities[column.position] : value * factors.get(column.position)!;
+      }
+    }
+
+    const before = qcValues(feature.intensities);
+    if (before.length >= MIN_QC_DETECTIONS) {
+      const rsdBefore = relativeStandardDeviation(before);
+      const rsdAfter = relativeStandardDeviation(qcValues(intensities));
+      if (rsdBefore !== null && rsdAfter !== null) {
+        rsdsBefore.push(rsdBefore);
+        rsdsAfter.push(rsdAfter);
+      }
+    }
+
+    return {
+      position: feature.position,
+      featureKey: feature.featureKey,
+      mz: feature.mz,
+      rt: feature.rt,
+      name: feature.name,
+      adduct: feature.adduct,
+      metadata: feature.metadata,
+      intensities,
+    };
+  });
+
+  const binIndex = (rsd: number) => {
+    const index = RSD_EDGES.findIndex((edge, i) => i > 0 && rsd < edge);
+    return index === -1 ? RSD_EDGES.length - 1 : index - 1;
+  };
+  const rsdHistogram = [
+    ...RSD_EDGES.slice(1).map((edge, index) => ({ bin: `${RSD_EDGES[index]}–${edge}%`, before: 0, after: 0 })),
+    { bin: `>${RSD_EDGES[RSD_EDGES.length - 1]}%`, before: 0, after: 0 },
+  ];
+  rsdsBefore.forEach(rsd => rsdHistogram[binIndex(rsd)].before++);
+  rsdsAfter.forEach(rsd => rsdHistogram[binIndex(rsd)].after++);
+
+  return {
+    features: corrected,
+    statistics: {
+      correctedFeatureCount,
+      uncorrectedFeatureCount: features.length - correctedFeatureCount,
+      medianRsdBefore: median(rsdsBefore),
+      medianRsdAfter: median(rsdsAfter),
+      fractionRsdBelow20Before: fraction(rsdsBefore, 20),
+      fractionRsdBelow20After: fraction(rsdsAfter, 20),
+      fractionRsdBelow30Before: fraction(rsdsBefore, 30),
+      fractionRsdBelow30After: fraction(rsdsAfter, 30),
+      rsdHistogram,
+    },
+  };
+}
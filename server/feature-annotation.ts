@@ -0,0 +1,91 @@
+import { adductMz, adductNeutralMass, parseAdduct } from "./chemistry";
+import { AnnotateFeatureTable, Feature, InsertFeatureAnnotation, MsiLevel } from "@shared/schema";
+
+// Only the closest candidates are kept, so a feature in a crowded mass
+// region of a large library does not drown the review in isobars
+const MAX_CANDIDATES_PER_FEATURE = 10;
+
+export interface LibraryMass {
+  compoundId: number;
+  monoisotopicMass: number;
+}
+
+type AnnotationFeature = Pick<Feature, "id" | "mz" | "rt">;
+
+// Index of the first library entry at or above a mass
+function lowerBound(library: LibraryMass[], mass: number): number {
+  let low = 0;
+  let high = library.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (library[middle].monoisotopicMass < mass) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+// Proposes library compounds for each feature whose adduct m/z is within
+// settings.ppm of the feature's m/z. The library must be sorted by mass.
+// retentionTimes maps compound IDs to their library RT for settings.rtMethod:
+// a compound with one is only proposed when the feature elutes within
+// rtTolerance of it, which makes the match MSI level 1; mass-only matches are
+// level 3.
+export function matchFeatureAnnotations(
+  features: AnnotationFeature[],
+  library: LibraryMass[],
+  retentionTimes: Map<number, number> | null,
+  settings: AnnotateFeatureTable
+): Omit<InsertFeatureAnnotation, "tableId">[] {
+  const adducts = settings.adducts.map(parseAdduct);
+  const annotations: Omit<InsertFeatureAnnotation, "tableId">[] = [];
+
+  for (const feature of features) {
+    const candidates: Omit<InsertFeatureAnnotation, "tableId">[] = [];
+
+    for (const adduct of adducts) {
+      const neutralMass = adductNeutralMass(feature.mz, adduct);
+      if (neutralMass <= 0) continue;
+      // The ppm window is on the m/z; widened slightly, as the theoretical
+      // m/z the error is relative to may be a little above the observed one
+      const window = feature.mz * settings.ppm * 1e-6 * (1 + settings.ppm * 1e-6) * Math.abs(adduct.charge) / adduct.multimer;
+
+      for (let index = lowerBound(library, neutralMass - window); index < library.length; index++) {
+        const entry = library[index];
+        if (entry.monoisotopicMass > neutralMass + window) break;
+
+        const theoreticalMz = adductMz(entry.monoisotopicMass, adduct);
+        const ppmError = (feature.mz - theoreticalMz) / theoreticalMz * 1e6;
+        if (Math.abs(ppmError) > settings.ppm) continue;
+
+        let msiLevel: MsiLevel = 3;
+        let rtError: number | null = null;
+        const libraryRt = retentionTimes?.get(entry.compoundId);
+        if (libraryRt !== undefined && feature.rt !== null) {
+          rtError = feature.rt - libraryRt;
+          if (Math.abs(rtError) > settings.rtTolerance) continue;
+          msiLevel = 1;
+        } else if (retentionTimes && settings.rtRequired) {
+          continue;
+        }
+
+        candidates.push({
+          featureId: feature.id,
+          compoundId: entry.compoundId,
+          adduct: adduct.name,
+          theoreticalMz,
+          ppmError,
+          rtError,
+          msiLevel,
+          status: "candidate",
+          reviewedById: null,
+          reviewedAt: null,
+        });
+      }
+    }
+
+    candidates.sort((a, b) => a.msiLevel - b.msiLevel || Math.abs(a.ppmError) - Math.abs(b.ppmError));
+    annotations.push(...candidates.slice(0, MAX_CANDIDATES_PER_FEATURE));
+  }
+
+  return annotations;
+}
@@ -0,0 +1,268 @@
+import { Readable } from "stream";
+import { createInterface } from "readline";
+import { detectDelimiter, isBlankRow, parseCsv } from "./csv";
+import { FeatureTableFormat, InsertFeature } from "@shared/schema";
+
+// Lines read to detect the layout; MS-DIAL puts a few rows of sample
+// metadata above the header
+const HEAD_LINES = 50;
+
+export type ParsedFeature = Omit<InsertFeature, "tableId">;
+
+export interface FeatureTableLayout {
+  format: FeatureTableFormat;
+  delimiter: string;
+  // Line of the column header, starting at 0; features follow it
+  headerLine: number;
+  header: string[];
+  rtUnit: "min" | "s";
+  mzIndex: number;
+  rtIndex: number | null;
+  idIndex: number | null;
+  nameIndex: number | null;
+  adductIndex: number | null;
+  // Columns that hold per-sample intensities
+  sampleIndexes: number[];
+  // Injection order of each column, where the file records it
+  injectionOrders: (number | null)[];
+  // Analytical batch of each column, where the file records it
+  batches: (number | null)[];
+}
+
+export class FeatureTableParseError extends Error {
+  constructor(message: string, line?: number) {
+    super(line === undefined ? message : `Line ${line}: ${message}`);
+    this.name = "FeatureTableParseError";
+  }
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const MISSING_VALUES = new Set(["", "na", "nan", "n/a", "#n/a", "null", "none", "-"]);
+
+// Columns of the known tools that are never sample intensities
+const METADATA_COLUMNS = new Set([
+  "mzmin", "mzmax", "rtmin", "rtmax", "npeaks", "fold", "tstat", "pvalue", "anova", "isotopes", "adduct", "pcgroup",
+  "featureidx", "name", "id", "charge", "row number of detected peaks", "fill %", "fill%", "s/n average",
+  "ms1 isotopic spectrum", "ms/ms assigned", "ms/ms spectrum", "ms/ms matched", "spectrum reference file name",
+  "reference rt", "reference m/z", "formula", "ontology", "inchikey", "smiles", "total score", "dot product",
+  "reverse dot product", "fragment presence %", "annotation tag (vs1.0)", "rt matched", "m/z matched",
+  "rt similarity", "m/z similarity", "simple dot product", "weighted dot product", "matched peaks count",
+  "matched peaks percentage", "comment", "manually modified for quantification", "manually modified for annotation",
+  "isotope tracking parent id", "isotope tracking weight number", "post curation result", "average", "stdev",
+]);
+
+const MZ_ALIASES = ["mz", "m/z", "mass", "mzmed", "row m/z", "average mz", "precursor m/z", "mz (da)", "m/z (da)", "exact mass"];
+const RT_ALIASES = [
+  "rt", "rtmed", "row retention time", "average rt(min)", "retention time", "retention time (min)", "rt (min)",
+  "rt(min)", "rt [min]", "rt (s)", "rt(s)", "rt [s]", "retention time (s)", "rt (sec)",
+];
+const ID_ALIASES = ["alignment id", "row id", "id", "name", "featureidx", "feature", "feature id", "compound", ""];
+const NAME_ALIASES = ["metabolite name", "row identity (main id)", "compound_db_identity:compound_name", "identity", "annotation", "metabolite"];
+const ADDUCT_ALIASES = ["adduct type", "adduct", "ion_identities:iin_id", "adduct ion name"];
+
+const findColumn = (header: string[], aliases: string[]) => {
+  const normalized = header.map(normalize);
+  for (const alias of aliases) {
+    const index = normalized.indexOf(alias);
+    if (index !== -1) return index;
+  }
+  return null;
+};
+
+const parseNumber = (value: string): number | null => {
+  if (MISSING_VALUES.has(normalize(value))) return null;
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : NaN;
+};
+
+// Columns whose sampled values are all numbers or missing; a sample can be
+// missing from every feature in the first rows
+function numericColumns(rows: string[][], width: number): Set<number> {
+  const numeric = new Set<number>();
+  for (let index = 0; index < width; index++) {
+    const values = rows.map(row => parseNumber(row[index] ?? ""));
+    if (values.every(value => value === null || !Number.isNaN(value))) {
+      numeric.add(index);
+    }
+  }
+  return numeric;
+}
+
+// Reads the first lines of a file and stops, for layout detection
+export async function readFeatureTableHead(stream: Readable): Promise<string[]> {
+  const lines: string[] = [];
+  const reader = createInterface({ input: stream, crlfDelay: Infinity });
+  try {
+    for await (const line of reader) {
+      lines.push(line);
+      if (lines.length >= HEAD_LINES) break;
+    }
+  } finally {
+    reader.close();
+    stream.destroy();
+  }
+  return lines;
+}
+
+// Works out which export a table comes from and where its m/z, retention
+// time and sample columns are:
+// - MS-DIAL alignment results: header starts with "Alignment ID", with
+//   class/file type/injection order/batch ID rows above the sample columns
+// - MZmine 2: "row m/z", "row retention time" and "<file> Peak area" columns
+// - MZmine 3: "mz", "rt" and "datafile:<file>:area" columns
+// - XCMS: "mzmed" and "rtmed" (in seconds)
+// - otherwise any table with recognizable m/z and retention time columns,
+//   taking the remaining numeric columns as samples
+export function detectFeatureTableLayout(lines: string[]): FeatureTableLayout {
+  const firstLine = lines.find(line => line.trim() !== "");
+  if (!firstLine) throw new FeatureTableParseError("The file is empty");
+
+  const delimiter = detectDelimiter(lines.slice(0, 10).sort((a, b) => b.length - a.length)[0]);
+  const rows = lines.map(line => parseCsv(line, delimiter)[0] ?? []);
+
+  const msdialHeader = rows.findIndex(row => row.some(cell => normalize(cell) === "alignment id"));
+  const headerLine = msdialHeader !== -1 ? msdialHeader : rows.findIndex(row => !isBlankRow(row));
+  const header = rows[headerLine].map(cell => cell.trim());
+  const normalized = header.map(normalize);
+  const dataRows = rows.slice(headerLine + 1).filter(row => !isBlankRow(row));
+  const numeric = numericColumns(dataRows, header.length);
+
+  let format: FeatureTableFormat = "generic";
+  let sampleIndexes: number[] = [];
+  let injectionOrders: (number | null)[] = header.map(() => null);
+  let batches: (number | null)[] = header.map(() => null);
+
+  if (msdialHeader !== -1) {
+    format = "msdial";
+    // Sample columns carry an injection order in the metadata rows above
+    const orderRow = rows.slice(0, headerLine).find(row => row.some(cell => normalize(cell) === "injection order"));
+    if (orderRow) {
+      const labelIndex = orderRow.findIndex(cell => normalize(cell) === "injection order");
+      sampleIndexes = header
+        .map((_, index) => index)
+        .filter(index => index > labelIndex && /^\d+$/.test((orderRow[index] ?? "").trim()));
+      injectionOrders = header.map((_, index) => sampleIndexes.includes(index) ? parseInt(orderRow[index]) : null);
+    }
+    const batchRow = rows.slice(0, headerLine).find(row => row.some(cell => normalize(cell) === "batch id"));
+    if (batchRow) {
+      batches = header.map((_, index) => sampleIndexes.includes(index) && /^\d+$/.test((batchRow[index] ?? "").trim())
+        ? parseInt(batchRow[index])
+        : null);
+    }
+  } else if (normalized.includes("row m/z")) {
+    format = "mzmine";
+    const areas = normalized.flatMap((name, index) => name.endsWith(" peak area") ? [index] : []);
+    const heights = normalized.flatMap((name, index) => name.endsWith(" peak height") ? [index] : []);
+    sampleIndexes = areas.length > 0 ? areas : heights;
+  } else if (normalized.some(name => name.startsWith("datafile:"))) {
+    format = "mzmine";
+    const areas = normalized.flatMap((name, index) => /^datafile:.+:area$/.test(name) ? [index] : []);
+    const heights = normalized.flatMap((name, index) => /^datafile:.+:height$/.test(name) ? [index] : []);
+    sampleIndexes = areas.length > 0 ? areas : heights;
+  } else if (normalized.includes("mzmed") && normalized.includes("rtmed")) {
+    format = "xcms";
+  }
+
+  const mzIndex = findColumn(header, MZ_ALIASES);
+  if (mzIndex === null) {
+    throw new FeatureTableParseError('No m/z column found (expected a header such as "mz", "m/z" or "mzmed")');
+  }
+  const rtIndex = findColumn(header, RT_ALIASES);
+  const idIndex = findColumn(header, ID_ALIASES);
+  const nameIndex = findColumn(header, NAME_ALIASES);
+  const adductIndex = findColumn(header, ADDUCT_ALIASES);
+  const rtHeader = rtIndex === null ? "" : normalized[rtIndex];
+  const rtUnit = format === "xcms" || /\((s|sec)\)|\[s\]/.test(rtHeader) ? "s" : "min";
+
+  // For XCMS and generic tables every other numeric column may be a sample
+  if (sampleIndexes.length === 0) {
+    const used = new Set([mzIndex, rtIndex, idIndex, nameIndex, adductIndex]);
+    sampleIndexes = header
+      .map((_, index) => index)
+      .filter(index => !used.has(index) && numeric.has(index) && !METADATA_COLUMNS.has(normalized[index]));
+  }
+
+  // Repeated headers cannot be told apart when mapping columns, so keep the first
+  sampleIndexes = sampleIndexes.filter(index => header.indexOf(header[index]) === index && header[index] !== "");
+  if (sampleIndexes.length === 0) {
+    throw new FeatureTableParseError("No sample intensity columns found");
+  }
+
+  return {
+    format, delimiter, headerLine, header, rtUnit, mzIndex, rtIndex, idIndex, nameIndex, adductIndex, sampleIndexes, injectionOrders,
+    batches,
+  };
+}
+
+// The sample or file name a column refers to, without the tool's decorations
+// ("datafile:", " Peak area") or a raw data file extension
+export function sampleNameFromColumn(columnName: string): string {
+  return columnName
+    .trim()
+    .replace(/^datafile:/i, "")
+    .replace(/:(area|height)$/i, "")
+    .replace(/ peak (area|height)$/i, "")
+    .replace(/\.(mzml|mzxml|mzdata|raw|d|wiff|wiff2|cdf|netcdf|mgf)$/i, "")
+    .trim();
+}
+
+// Yields the features of a table, with intensities in the order of
+// sampleIndexes. Each line is one feature: fields spanning line breaks are
+// not supported, and no tool exports them.
+export async function* readFeatureRows(
+  stream: Readable,
+  layout: FeatureTableLayout,
+  sampleIndexes: number[]
+): AsyncGenerator<ParsedFeature> {
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  const coreIndexes = new Set([layout.mzIndex, layout.rtIndex, layout.idIndex, layout.nameIndex, layout.adductIndex]);
+  const metadataIndexes = layout.header
+    .map((_, index) => index)
+    .filter(index => !coreIndexes.has(index) && !layout.sampleIndexes.includes(index) && layout.header[index] !== "");
+  const rtScale = layout.rtUnit === "s" ? 1 / 60 : 1;
+
+  let lineNumber = 0;
+  let position = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (lineNumber <= layout.headerLine + 1 || line.trim() === "") continue;
+
+    const fields = parseCsv(line, layout.delimiter)[0] ?? [];
+    const cell = (index: number | null) => index === null ? "" : (fields[index] ?? "").trim();
+
+    const mz = parseNumber(cell(layout.mzIndex));
+    if (mz === null || Number.isNaN(mz)) {
+      throw new FeatureTableParseError(`Invalid m/z "${cell(layout.mzIndex)}"`, lineNumber);
+    }
+    const rt = layout.rtIndex === null ? null : parseNumber(cell(layout.rtIndex));
+    if (rt !== null && Number.isNaN(rt)) {
+      throw new FeatureTableParseError(`Invalid retention time "${cell(layout.rtIndex)}"`, lineNumber);
+    }
+
+    const intensities = sampleIndexes.map(index => {
+      const value = parseNumber(cell(index));
+      if (value !== null && Number.isNaN(value)) {
+        throw new FeatureTableParseError(`Invalid intensity "${cell(index)}" in column "${layout.header[index]}"`, lineNumber);
+      }
+      return value;
+    });
+
+    const metadata: Record<string, string> = {};
+    for (const index of metadataIndexes) {
+      if (cell(index)) metadata[layout.header[index]] = cell(index);
+    }
+
+    yield {
+      position,
+      featureKey: cell(layout.idIndex) || String(position + 1),
+      mz,
+      rt: rt === null ? null : rt * rtScale,
+      name: cell(layout.nameIndex) || null,
+      adduct: cell(layout.adductIndex) || null,
+      metadata,
+      intensities,
+    };
+    position++;
+  }
+}
@@ -0,0 +1,221 @@
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { FeatureTableLayout, detectFeatureTableLayout, readFeatureRows, readFeatureTableHead, sampleNameFromColumn } from "./feature-table-parser";
+import { computeQcReport, detectInternalStandards } from "./qc-metrics";
+import { matchFeatureAnnotations } from "./feature-annotation";
+import { DriftColumn, correctDrift } from "./drift-correction";
+import {
+  AnnotateFeatureTable,
+  Attachment,
+  CorrectDrift,
+  DriftCorrectionBatch,
+  FeatureTable,
+  FeatureTableLayoutPreview,
+  FeatureTableWithColumns,
+  InsertFeature,
+  QcReport,
+  Sample,
+} from "@shared/schema";
+
+// Features are inserted in batches as the file is read
+const BATCH_SIZE = 500;
+
+export function isFeatureTableFile(fileName: string): boolean {
+  return /\.(csv|tsv|txt)$/i.test(fileName);
+}
+
+// Detects the layout of a feature table stored under the given blob key
+export async function detectStoredFeatureTable(storageKey: string): Promise<FeatureTableLayout> {
+  return detectFeatureTableLayout(await readFeatureTableHead(await blobStore.get(storageKey)));
+}
+
+const matchKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Suggests what each sample column is: a registered sample with the same ID,
+// and/or the experiment's raw data attachment with the same base name. When
+// nothing matches at all every candidate column is selected.
+export function buildLayoutPreview(
+  layout: FeatureTableLayout,
+  samples: Sample[],
+  attachments: Attachment[]
+): FeatureTableLayoutPreview {
+  const samplesByKey = new Map(samples.map(sample => [matchKey(sample.sampleCode), sample.id]));
+  const attachmentsByKey = new Map(attachments.map(attachment => [matchKey(sampleNameFromColumn(attachment.fileName)), attachment.id]));
+
+  const columns = layout.sampleIndexes.map(index => {
+    const key = matchKey(sampleNameFromColumn(layout.header[index]));
+    return {
+      columnName: layout.header[index],
+      sampleId: samplesByKey.get(key) ?? null,
+      attachmentId: attachmentsByKey.get(key) ?? null,
+      selected: false,
+    };
+  });
+  const anyMatched = columns.some(column => column.sampleId !== null || column.attachmentId !== null);
+  for (const column of columns) {
+    column.selected = !anyMatched || column.sampleId !== null || column.attachmentId !== null;
+  }
+
+  const columnName = (index: number | null) => index === null ? null : layout.header[index];
+  return {
+    format: layout.format,
+    rtUnit: layout.rtUnit,
+    mzColumn: layout.header[layout.mzIndex],
+    rtColumn: columnName(layout.rtIndex),
+    idColumn: columnName(layout.idIndex),
+    nameColumn: columnName(layout.nameIndex),
+    adductColumn: columnName(layout.adductIndex),
+    columns,
+    attachments: attachments.map(attachment => ({ id: attachment.id, fileName: attachment.fileName })),
+  };
+}
+
+// Reads the features of a pending table in the background; clients poll the
+// table until its status is parsed or failed. sampleIndexes are the file
+// columns of the table's columns, in the same order.
+export function startFeatureTableImport(
+  table: FeatureTable,
+  storageKey: string,
+  layout: FeatureTableLayout,
+  sampleIndexes: number[]
+) {
+  (async () => {
+    let featureCount = 0;
+    try {
+      let batch: InsertFeature[] = [];
+      for await (const feature of readFeatureRows(await blobStore.get(storageKey), layout, sampleIndexes)) {
+        batch.push({ ...feature, tableId: table.id });
+        featureCount++;
+        if (batch.length === BATCH_SIZE) {
+          await storage.addFeatures(batch);
+          batch = [];
+        }
+      }
+      await storage.addFeatures(batch);
+
+      if (featureCount === 0) throw new Error(`No features found in ${table.sourceFileName}`);
+    } catch (error) {
+      console.error(`Failed to import feature table ${table.id}:`, error);
+      await storage.deleteFeatures(table.id);
+      await storage.updateFeatureTable(table.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const updated = await storage.updateFeatureTable(table.id, { status: "parsed", featureCount });
+    // The table was deleted during the import; drop what was inserted since
+    if (!updated) {
+      await storage.deleteFeatures(table.id);
+      return;
+    }
+
+    const parsed = await storage.getFeatureTable(table.id);
+    if (parsed && await hasQcColumns(parsed)) await updateQcSummary(parsed);
+  })().catch(error => {
+    console.error(`Failed to record import result for feature table ${table.id}:`, error);
+  });
+}
+
+async function hasQcColumns(table: FeatureTableWithColumns): Promise<boolean> {
+  const experiment = await storage.getExperiment(table.experimentId);
+  if (!experiment) return false;
+  const qcSampleIds = new Set((await storage.listSamplesByProject(experiment.projectId))
+    .filter(sample => sample.sampleType === "qc")
+    .map(sample => sample.id));
+  return table.columns.some(column => column.sampleId !== null && qcSampleIds.has(column.sampleId));
+}
+
+// QC metrics of a parsed table. Without explicit internal standards, those
+// stored in the experiment's summary of this table are used, or else the
+// features whose names mark them as internal standards.
+export async function buildQcReport(table: FeatureTableWithColumns, internalStandardIds?: number[]): Promise<QcReport> {
+  const experiment = await storage.getExperiment(table.experimentId);
+  const [features, samples] = await Promise.all([
+    storage.listFeaturesWithIntensities(table.id),
+    experiment ? storage.listSamplesByProject(experiment.projectId) : Promise.resolve([]),
+  ]);
+
+  const storedSummary = experiment?.qcSummary?.featureTableId === table.id ? experiment.qcSummary : null;
+  const standards = internalStandardIds ?? storedSummary?.internalStandardIds ?? detectInternalStandards(features);
+  return computeQcReport(table, features, samples, standards);
+}
+
+// Computes a table's QC metrics and stores the summary on its experiment
+export async function updateQcSummary(table: FeatureTableWithColumns, internalStandardIds?: number[]): Promise<QcReport> {
+  const report = await buildQcReport(table, internalStandardIds);
+  await storage.setExperimentQcSummary(table.experimentId, report.summary);
+  return report;
+}
+
+// Annotates a parsed table's features against the compound library in the
+// background; clients poll the table until its annotation status is done or
+// failed. Candidates of the previous run are replaced.
+export function startFeatureAnnotation(table: FeatureTable, settings: AnnotateFeatureTable) {
+  (async () => {
+    try {
+      const [features, library, retentionTimes] = await Promise.all([
+        storage.listFeaturesWithIntensities(table.id),
+        storage.listCompoundMasses(),
+        settings.rtMethod ? storage.listRetentionTimesByMethod(settings.rtMethod) : Promise.resolve(null),
+      ]);
+      const rtByCompound = retentionTimes && new Map(retentionTimes.map(entry => [entry.compoundId, entry.rt]));
+
+      const annotations = matchFeatureAnnotations(features, library, rtByCompound, settings)
+        .map(annotation => ({ ...annotation, tableId: table.id }));
+      await storage.replaceFeatureAnnotationCandidates(table.id, annotations);
+    } catch (error) {
+      console.error(`Failed to annotate feature table ${table.id}:`, error);
+      await storage.updateFeatureTable(table.id, {
+        annotationStatus: "failed",
+        annotationError: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const updated = await storage.updateFeatureTable(table.id, { annotationStatus: "done", annotatedAt: new Date() });
+    // The table was deleted during the run; drop the candidates added since
+    if (!updated) await storage.replaceFeatureAnnotationCandidates(table.id, []);
+  })().catch(error => {
+    console.error(`Failed to record annotation result for feature table ${table.id}:`, error);
+  });
+}
+
+// Computes the drift-corrected version of a parsed table into a pending table
+// created for it, in the background; clients poll the new table until its
+// status is parsed or failed. The columns are worked out up front so that a
+// batch without enough QCs is reported before the run starts.
+export function startDriftCorrection(
+  source: FeatureTable,
+  table: FeatureTable,
+  columns: DriftColumn[],
+  batches: DriftCorrectionBatch[],
+  settings: CorrectDrift
+) {
+  (async () => {
+    try {
+      const { features, statistics } = correctDrift(await storage.listFeaturesWithIntensities(source.id), columns, settings);
+      for (let start = 0; start < features.length; start += BATCH_SIZE) {
+        await storage.addFeatures(features.slice(start, start + BATCH_SIZE).map(feature => ({ ...feature, tableId: table.id })));
+      }
+
+      const updated = await storage.updateFeatureTable(table.id, {
+        status: "parsed",
+        featureCount: features.length,
+        driftCorrection: { settings, sourceTableName: source.name, batches, ...statistics },
+      });
+      // The table was deleted during the run; drop what was inserted since
+      if (!updated) await storage.deleteFeatures(table.id);
+    } catch (error) {
+      console.error(`Failed to correct drift of feature table ${source.id}:`, error);
+      await storage.deleteFeatures(table.id);
+      await storage.updateFeatureTable(table.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })().catch(error => {
+    console.error(`Failed to record drift correction result for feature table ${table.id}:`, error);
+  });
+}
@@ -0,0 +1,250 @@
+/**
+ * HTML-aware diff for note content.
+ *
+ * Both documents are split into tag and word tokens and compared with the
+ * Myers algorithm. Only text is marked up: inserted words are wrapped in
+ * <ins>, deleted words in <del>, and markup follows the newer document, so
+ * the result is still well-formed HTML that renders like the newer revision.
+ *
+ * Tags are rebuilt from a whitelist on the way out, so the output is safe to
+ * render even though note content is user supplied.
+ */
+
+type Token =
+  | { type: "tag"; name: string; closing: boolean; html: string; key: string }
+  | { type: "text"; html: string; key: string };
+
+export interface HtmlDiffResult {
+  html: string;
+  insertions: number;
+  deletions: number;
+}
+
+type Operation = "equal" | "insert" | "delete";
+
+const ALLOWED_TAGS = new Set([
+  "p", "br", "hr", "div", "span", "b", "strong", "i", "em", "u", "s", "sub", "sup",
+  "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre", "code",
+  "table", "thead", "tbody", "tfoot", "tr", "th", "td", "a", "figure", "figcaption", "img",
+]);
+
+const VOID_TAGS = new Set(["br", "hr", "img"]);
+
+// Whole tags, including attribute values that may contain ">"
+const TAG_PATTERN = /<\/?[a-zA-Z][^>"']*(?:(?:"[^"]*"|'[^']*')[^>"']*)*>/g;
+const TAG_NAME_PATTERN = /^<\/?([a-zA-Z][a-zA-Z0-9]*)/;
+const HREF_PATTERN = /\shref\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+const SRC_PATTERN = /\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+const ALT_PATTERN = /\salt\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+// Figures snapshotted from plots embed their image as a raster data URL
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,[a-z0-9+/=]+$/i;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Re-emit a tag without attributes (apart from safe link targets and
+// embedded images), or drop it
+function sanitizeTag(raw: string): Token | null {
+  const match = raw.match(TAG_NAME_PATTERN);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  if (!ALLOWED_TAGS.has(name)) return null;
+
+  const closing = raw.startsWith("</");
+  if (closing) {
+    if (VOID_TAGS.has(name)) return null;
+    return { type: "tag", name, closing, html: `</${name}>`, key: `</${name}>` };
+  }
+
+  let attributes = "";
+  if (name === "a") {
+    const href = raw.match(HREF_PATTERN);
+    const url = href ? (href[1] ?? href[2]) : "";
+    if (/^(https?:|mailto:)/i.test(url.trim())) {
+      attributes = ` href="${escapeHtml(url.trim())}" rel="noopener noreferrer"`;
+    }
+  }
+
+  if (name === "img") {
+    const src = raw.match(SRC_PATTERN);
+    const url = src ? (src[1] ?? src[2]).trim() : "";
+    if (!IMAGE_DATA_URL_PATTERN.test(url)) return null;
+    const alt = raw.match(ALT_PATTERN);
+    attributes = ` src="${url}" alt="${escapeHtml(alt ? (alt[1] ?? alt[2]) : "")}"`;
+  }
+
+  const html = `<${name}${attributes}>`;
+  return { type: "tag", name, closing, html, key: html };
+}
+
+// Removes blocks whose content must never be shown, e.g. <script>...</script>
+function stripUnsafeBlocks(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|iframe|object|embed|template)\b[\s\S]*?<\/\1\s*>/gi, "");
+}
+
+export function tokenizeHtml(html: string): Token[] {
+  const tokens: Token[] = [];
+  const source = stripUnsafeBlocks(html);
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    // Entities are kept as-is; bare angle brackets are escaped
+    for (const word of text.match(/\s+|[^\s]+/g) || []) {
+      const escaped = word.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+      // Collapse whitespace so reflowed paragraphs do not show up as changes
+      const key = /^\s+$/.test(word) ? " " : escaped;
+      tokens.push({ type: "text", html: escaped, key });
+    }
+  };
+
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    pushText(source.slice(lastIndex, match.index));
+    const tag = sanitizeTag(match[0]);
+    if (tag) tokens.push(tag);
+    lastIndex = match.index! + match[0].length;
+  }
+  pushText(source.slice(lastIndex));
+
+  return tokens;
+}
+
+// Note HTML reduced to whitelisted markup, for rendering outside the editor
+export function sanitizeHtml(html: string): string {
+  return tokenizeHtml(html).map(token => token.html).join("");
+}
+
+/**
+ * Myers O((N+M)D) shortest edit script between two key sequences.
+ */
+export function diffSequences(a: string[], b: string[]): Operation[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const operations: Operation[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      operations.push("equal");
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      operations.push(x === prevX ? "insert" : "delete");
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return operations.reverse();
+}
+
+export function diffHtml(oldHtml: string, newHtml: string): HtmlDiffResult {
+  const oldTokens = tokenizeHtml(oldHtml);
+  const newTokens = tokenizeHtml(newHtml);
+  const operations = diffSequences(
+    oldTokens.map(token => token.key),
+    newTokens.map(token => token.key)
+  );
+
+  const output: string[] = [];
+  let insertions = 0;
+  let deletions = 0;
+  let oldIndex = 0;
+  let newIndex = 0;
+  let openWrapper: "ins" | "del" | null = null;
+
+  const closeWrapper = () => {
+    if (openWrapper) {
+      output.push(`</${openWrapper}>`);
+      openWrapper = null;
+    }
+  };
+
+  const emitText = (html: string, wrapper: "ins" | "del" | null) => {
+    if (wrapper !== openWrapper) {
+      closeWrapper();
+      if (wrapper) output.push(`<${wrapper}>`);
+      openWrapper = wrapper;
+    }
+    output.push(html);
+  };
+
+  for (const operation of operations) {
+    if (operation === "equal") {
+      const token = newTokens[newIndex];
+      if (token.type === "tag") {
+        closeWrapper();
+        output.push(token.html);
+      } else {
+        emitText(token.html, null);
+      }
+      oldIndex++;
+      newIndex++;
+    } else if (operation === "insert") {
+      const token = newTokens[newIndex];
+      if (token.type === "tag") {
+        closeWrapper();
+        output.push(token.html);
+      } else {
+        if (token.key !== " ") insertions++;
+        emitText(token.html, "ins");
+      }
+      newIndex++;
+    } else {
+      const token = oldTokens[oldIndex];
+      // Removed markup is dropped so the output keeps the newer structure
+      if (token.type === "text") {
+        if (token.key !== " ") deletions++;
+        emitText(token.html, "del");
+      }
+      oldIndex++;
+    }
+  }
+  closeWrapper();
+
+  return { html: output.join(""), insertions, deletions };
+}
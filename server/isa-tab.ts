@@ -0,0 +1,399 @@
+import { storage } from "./storage";
+import { parseAdduct } from "./chemistry";
+import {
+  DepositionAssay,
+  DepositionStudy,
+  assayPolarity,
+  listNames,
+  loadAcceptedAnnotations,
+  slugify,
+  validateCommonFields,
+} from "./deposition";
+import { ZipEntry } from "./zip";
+import { DepositionProtocol, DepositionValidation, SampleType } from "@shared/schema";
+
+// ISA-Tab bundle of a project following the MetaboLights LC-MS templates:
+// an investigation file, one study file listing every registered sample, and
+// per assay (experiment) an assay file and a metabolite assignment file (MAF)
+// built from its feature table. Raw data files are referenced by name only;
+// they are uploaded to MetaboLights separately.
+
+// ISA protocol names and the parameters MetaboLights records for each
+const PROTOCOLS: Record<DepositionProtocol, { name: string; parameters: string[] }> = {
+  sampleCollection: { name: "Sample collection", parameters: [] },
+  extraction: { name: "Extraction", parameters: ["Post Extraction", "Derivatization"] },
+  chromatography: { name: "Chromatography", parameters: ["Chromatography Instrument", "Column model", "Column type"] },
+  massSpectrometry: {
+    name: "Mass spectrometry",
+    parameters: ["Scan polarity", "Scan m/z range", "Instrument", "Ion source", "Mass analyzer"],
+  },
+  dataTransformation: { name: "Data transformation", parameters: [] },
+  metaboliteIdentification: { name: "Metabolite identification", parameters: [] },
+};
+
+const SAMPLE_TYPES: Record<SampleType, string> = {
+  study: "experimental sample",
+  qc: "quality control sample",
+  blank: "solvent blank",
+  standard: "standard",
+};
+
+const ONTOLOGIES: [string, string, string][] = [
+  ["OBI", "http://data.bioontology.org/ontologies/OBI", "Ontology for Biomedical Investigations"],
+  ["NCBITAXON", "http://data.bioontology.org/ontologies/NCBITAXON", "National Center for Biotechnology Information (NCBI) Organismal Classification"],
+  ["MS", "http://data.bioontology.org/ontologies/MS", "Mass Spectrometry Ontology"],
+  ["CHMO", "http://data.bioontology.org/ontologies/CHMO", "Chemical Methods Ontology"],
+  ["EFO", "http://data.bioontology.org/ontologies/EFO", "Experimental Factor Ontology"],
+];
+
+const MAF_COLUMNS = [
+  "database_identifier", "chemical_formula", "smiles", "inchi", "metabolite_identification", "mass_to_charge",
+  "fragmentation", "modifications", "charge", "retention_time", "taxid", "species", "database", "database_version",
+  "reliability", "uri", "search_engine", "search_engine_score", "smallmolecule_abundance_sub",
+  "smallmolecule_abundance_stdev_sub", "smallmolecule_abundance_std_error_sub",
+];
+
+// ISA-Tab fields are quoted; tabs and line breaks would split them and
+// quotes inside them cannot be escaped
+const quote = (value: string | number | null | undefined) =>
+  `"${String(value ?? "").replace(/[\t\r\n]+/g, " ").replace(/"/g, "'")}"`;
+
+const formatRows = (rows: (string | number | null | undefined)[][]) =>
+  rows.map(row => row.map(quote).join("\t")).join("\n") + "\n";
+
+// Investigation file lines are a label followed by one value per item
+const section = (name: string, rows: [string, (string | number | null | undefined)[]][]) =>
+  name + "\n" + rows.map(([label, values]) => [label, ...values.map(quote)].join("\t")).join("\n") + "\n";
+
+function adductCharge(adduct: string | null): number | null {
+  if (!adduct) return null;
+  try {
+    return parseAdduct(adduct).charge;
+  } catch {
+    return null;
+  }
+}
+
+interface AssayFiles {
+  assay: DepositionAssay;
+  assayFile: string;
+  mafFile: string | null;
+}
+
+interface IsaTabLayout {
+  studyId: string;
+  studyFile: string;
+  assayFiles: AssayFiles[];
+}
+
+// File names follow MetaboLights: the study identifier is replaced by the
+// MTBLS accession once the study is submitted
+function isaTabLayout(study: DepositionStudy): IsaTabLayout {
+  const studyId = slugify(study.project.name) || `project_${study.project.id}`;
+  return {
+    studyId,
+    studyFile: `s_${studyId}.txt`,
+    assayFiles: study.assays.map((assay, index) => {
+      const assayId = `${studyId}_${slugify(assay.experiment.name) || `experiment_${index + 1}`}_metabolite_profiling_mass_spectrometry`;
+      return {
+        assay,
+        assayFile: `a_${assayId}.txt`,
+        mafFile: assay.table && assay.runs.length > 0 ? `m_${assayId}_v2_maf.tsv` : null,
+      };
+    }),
+  };
+}
+
+function renderInvestigation(study: DepositionStudy, { studyId, studyFile, assayFiles }: IsaTabLayout): string {
+  const { project, metadata } = study;
+  const today = new Date().toISOString().slice(0, 10);
+  const contacts = metadata.contacts;
+  const factors = [
+    ...(metadata.studyGroupFactor ? [metadata.studyGroupFactor] : []),
+    ...metadata.factorAttributes,
+  ];
+  const protocols = Object.entries(PROTOCOLS) as [DepositionProtocol, typeof PROTOCOLS[DepositionProtocol]][];
+  const publications = metadata.publications;
+
+  const publicationRows = (prefix: string): [string, string[]][] => [
+    [`${prefix} PubMed ID`, publications.map(publication => publication.pubmedId)],
+    [`${prefix} Publication DOI`, publications.map(publication => publication.doi)],
+    [`${prefix} Publication Author List`, publications.map(publication => publication.authors)],
+    [`${prefix} Publication Title`, publications.map(publication => publication.title)],
+    [`${prefix} Publication Status`, publications.map(publication => publication.status)],
+    [`${prefix} Publication Status Term Accession Number`, publications.map(() => "")],
+    [`${prefix} Publication Status Term Source REF`, publications.map(() => "")],
+  ];
+  const contactRows = (prefix: string): [string, string[]][] => [
+    [`${prefix} Person Last Name`, contacts.map(contact => contact.lastName)],
+    [`${prefix} Person First Name`, contacts.map(contact => contact.firstName)],
+    [`${prefix} Person Mid Initials`, contacts.map(() => "")],
+    [`${prefix} Person Email`, contacts.map(contact => contact.email)],
+    [`${prefix} Person Phone`, contacts.map(contact => contact.phone)],
+    [`${prefix} Person Fax`, contacts.map(() => "")],
+    [`${prefix} Person Address`, contacts.map(contact => contact.address)],
+    [`${prefix} Person Affiliation`, contacts.map(contact => contact.affiliation)],
+    [`${prefix} Person Roles`, contacts.map(contact => contact.role)],
+    [`${prefix} Person Roles Term Accession Number`, contacts.map(() => "")],
+    [`${prefix} Person Roles Term Source REF`, contacts.map(() => "")],
+  ];
+
+  return [
+    section("ONTOLOGY SOURCE REFERENCE", [
+      ["Term Source Name", ONTOLOGIES.map(([name]) => name)],
+      ["Term Source File", ONTOLOGIES.map(([, file]) => file)],
+      ["Term Source Version", ONTOLOGIES.map(() => "")],
+      ["Term Source Description", ONTOLOGIES.map(([, , description]) => description)],
+    ]),
+    section("INVESTIGATION", [
+      ["Investigation Identifier", [studyId]],
+      ["Investigation Title", [project.name]],
+      ["Investigation Description", [project.description]],
+      ["Investigation Submission Date", [today]],
+      ["Investigation Public Release Date", [metadata.releaseDate]],
+    ]),
+    section("INVESTIGATION PUBLICATIONS", publicationRows("Investigation")),
+    section("INVESTIGATION CONTACTS", contactRows("Investigation")),
+    section("STUDY", [
+      ["Study Identifier", [studyId]],
+      ["Study Title", [project.name]],
+      ["Study Description", [project.description]],
+      ["Study Submission Date", [today]],
+      ["Study Public Release Date", [metadata.releaseDate]],
+      ["Study File Name", [studyFile]],
+    ]),
+    section("STUDY DESIGN DESCRIPTORS", [
+      ["Study Design Type", metadata.designDescriptors],
+      ["Study Design Type Term Accession Number", metadata.designDescriptors.map(() => "")],
+      ["Study Design Type Term Source REF", metadata.designDescriptors.map(() => "")],
+    ]),
+    section("STUDY PUBLICATIONS", publicationRows("Study")),
+    section("STUDY FACTORS", [
+      ["Study Factor Name", factors],
+      ["Study Factor Type", factors],
+      ["Study Factor Type Term Accession Number", factors.map(() => "")],
+      ["Study Factor Type Term Source REF", factors.map(() => "")],
+    ]),
+    section("STUDY ASSAYS", [
+      ["Study Assay File Name", assayFiles.map(({ assayFile }) => assayFile)],
+      ["Study Assay Measurement Type", assayFiles.map(() => "metabolite profiling")],
+      ["Study Assay Measurement Type Term Accession Number", assayFiles.map(() => "http://purl.obolibrary.org/obo/OBI_0000366")],
+      ["Study Assay Measurement Type Term Source REF", assayFiles.map(() => "OBI")],
+      ["Study Assay Technology Type", assayFiles.map(() => "mass spectrometry")],
+      ["Study Assay Technology Type Term Accession Number", assayFiles.map(() => "http://purl.obolibrary.org/obo/OBI_0000470")],
+      ["Study Assay Technology Type Term Source REF", assayFiles.map(() => "OBI")],
+      ["Study Assay Technology Platform", assayFiles.map(({ assay }) =>
+        ["Liquid Chromatography MS", assayPolarity(assay), metadata.columnType].filter(Boolean).join(" - "))],
+    ]),
+    section("STUDY PROTOCOLS", [
+      ["Study Protocol Name", protocols.map(([, protocol]) => protocol.name)],
+      ["Study Protocol Type", protocols.map(([, protocol]) => protocol.name)],
+      ["Study Protocol Type Term Accession Number", protocols.map(() => "")],
+      ["Study Protocol Type Term Source REF", protocols.map(() => "")],
+      ["Study Protocol Description", protocols.map(([key]) => metadata.protocols[key])],
+      ["Study Protocol URI", protocols.map(() => "")],
+      ["Study Protocol Version", protocols.map(() => "")],
+      ["Study Protocol Parameters Name", protocols.map(([, protocol]) => protocol.parameters.join(";"))],
+      ["Study Protocol Parameters Name Term Accession Number", protocols.map(([, protocol]) => protocol.parameters.map(() => "").join(";"))],
+      ["Study Protocol Parameters Name Term Source REF", protocols.map(([, protocol]) => protocol.parameters.map(() => "").join(";"))],
+      ["Study Protocol Components Name", protocols.map(() => "")],
+      ["Study Protocol Components Type", protocols.map(() => "")],
+      ["Study Protocol Components Type Term Accession Number", protocols.map(() => "")],
+      ["Study Protocol Components Type Term Source REF", protocols.map(() => "")],
+    ]),
+    section("STUDY CONTACTS", contactRows("Study")),
+  ].join("");
+}
+
+// One row per registered sample, with the study group and factor attributes
+// as factor values
+function renderStudyFile(study: DepositionStudy): string {
+  const { metadata, samples } = study;
+  const header = [
+    "Source Name",
+    "Characteristics[Organism]", "Term Source REF", "Term Accession Number",
+    "Characteristics[Organism part]", "Term Source REF", "Term Accession Number",
+    "Characteristics[Sample type]", "Term Source REF", "Term Accession Number",
+    "Protocol REF",
+    "Sample Name",
+    "Comment[Collection date]",
+    ...(metadata.studyGroupFactor ? [`Factor Value[${metadata.studyGroupFactor}]`, "Term Source REF", "Term Accession Number"] : []),
+    ...metadata.factorAttributes.flatMap(attribute => [`Factor Value[${attribute}]`, "Term Source REF", "Term Accession Number"]),
+  ];
+  const rows = samples.map(sample => [
+    sample.sampleCode,
+    sample.organism, "", "",
+    sample.matrix, "", "",
+    SAMPLE_TYPES[sample.sampleType], "", "",
+    PROTOCOLS.sampleCollection.name,
+    sample.sampleCode,
+    sample.collectionDate,
+    ...(metadata.studyGroupFactor ? [sample.studyGroup, "", ""] : []),
+    ...metadata.factorAttributes.flatMap(attribute => [sample.attributes[attribute] ?? "", "", ""]),
+  ]);
+  return formatRows([header, ...rows]);
+}
+
+// One row per injection; extracts are named after the sample and runs after
+// the feature table column
+function renderAssayFile(study: DepositionStudy, { assay, mafFile }: AssayFiles): string {
+  const { metadata } = study;
+  const header = [
+    "Sample Name",
+    "Protocol REF", "Parameter Value[Post Extraction]", "Parameter Value[Derivatization]", "Extract Name",
+    "Protocol REF",
+    "Parameter Value[Chromatography Instrument]", "Term Source REF", "Term Accession Number",
+    "Parameter Value[Column model]", "Parameter Value[Column type]",
+    "Labeled Extract Name", "Label", "Term Source REF", "Term Accession Number",
+    "Protocol REF",
+    "Parameter Value[Scan polarity]", "Parameter Value[Scan m/z range]",
+    "Parameter Value[Instrument]", "Term Source REF", "Term Accession Number",
+    "Parameter Value[Ion source]", "Term Source REF", "Term Accession Number",
+    "Parameter Value[Mass analyzer]", "Term Source REF", "Term Accession Number",
+    "MS Assay Name", "Raw Spectral Data File",
+    "Protocol REF", "Normalization Name", "Derived Spectral Data File",
+    "Protocol REF", "Data Transformation Name", "Metabolite Assignment File",
+  ];
+  const rows = assay.runs.map(run => [
+    run.sample.sampleCode,
+    PROTOCOLS.extraction.name, "", "", run.sample.sampleCode,
+    PROTOCOLS.chromatography.name,
+    metadata.chromatographyInstrument, "", "",
+    metadata.columnModel, metadata.columnType,
+    run.sample.sampleCode, "", "", "",
+    PROTOCOLS.massSpectrometry.name,
+    run.polarity, "",
+    metadata.msInstrument, "", "",
+    metadata.ionSource, "", "",
+    metadata.massAnalyzer, "", "",
+    run.assayName, run.rawFileName,
+    PROTOCOLS.dataTransformation.name, assay.table?.name, "",
+    PROTOCOLS.metaboliteIdentification.name, assay.table?.name, mafFile,
+  ]);
+  return formatRows([header, ...rows]);
+}
+
+// One row per feature with its intensity in every run. Features with
+// accepted annotations carry the compounds (several are separated by "|",
+// as in mzTab); the rest are reported as unknown, MSI level 4.
+async function renderMaf(assay: DepositionAssay): Promise<string> {
+  const table = assay.table!;
+  const features = await storage.listFeaturesWithIntensities(table.id);
+  const acceptedByFeature = await loadAcceptedAnnotations(table.id);
+
+  const rows = features.map(feature => {
+    const accepted = acceptedByFeature.get(feature.id) ?? [];
+    const annotations = accepted.map(({ annotation }) => annotation);
+    const matched = accepted.map(({ compound }) => compound);
+    const join = (values: (string | null)[]) => values.map(value => value ?? "").join("|");
+    const databases = matched.map(compound => compound.chebiId ? "ChEBI" : compound.hmdbId ? "HMDB" : null);
+    const adduct = annotations.length > 0 ? join(annotations.map(annotation => annotation.adduct)) : feature.adduct;
+    const charge = adductCharge(annotations[0]?.adduct ?? feature.adduct);
+
+    return [
+      join(matched.map(compound => compound.chebiId ?? compound.hmdbId)),
+      join(matched.map(compound => compound.formula)),
+      join(matched.map(compound => compound.smiles)),
+      "",
+      matched.length > 0 ? join(matched.map(compound => compound.name)) : feature.name || "unknown",
+      feature.mz,
+      "",
+      adduct,
+      charge,
+      // Minutes in the feature table, seconds in the MAF
+      feature.rt !== null ? Number((feature.rt * 60).toFixed(2)) : "",
+      "",
+      "",
+      join(databases),
+      "",
+      annotations.length > 0 ? Math.min(...annotations.map(annotation => annotation.msiLevel)) : 4,
+      "",
+      "",
+      "",
+      "",
+      "",
+      "",
+      ...assay.runs.map(run => feature.intensities[run.position!] ?? ""),
+    ];
+  });
+  return formatRows([[...MAF_COLUMNS, ...assay.runs.map(run => run.assayName)], ...rows]);
+}
+
+// Mandatory MetaboLights fields that are missing, and the files that would be
+// exported
+export function validateIsaTab(study: DepositionStudy): DepositionValidation {
+  const { metadata, samples, assays } = study;
+  const issues = validateCommonFields(study);
+  const error = (location: string, message: string) => issues.push({ severity: "error", location, message });
+  const warning = (location: string, message: string) => issues.push({ severity: "warning", location, message });
+
+  if (!metadata.releaseDate) error("Study", "Public release date is required");
+  if (metadata.designDescriptors.length === 0) {
+    error("Study design descriptors", "Add at least one descriptor, e.g. untargeted metabolites");
+  }
+  if (metadata.publications.length === 0) {
+    warning("Study publications", "No publication; MetaboLights expects one, even if only in preparation");
+  }
+  metadata.publications.forEach((publication, index) => {
+    if (!publication.title) error(`Publication ${index + 1}`, "Title is required");
+    if (!publication.status) error(`Publication ${index + 1}`, "Status is required, e.g. in preparation");
+  });
+
+  if (!metadata.studyGroupFactor && metadata.factorAttributes.length === 0) {
+    error("Study factors", "Report the study groups or a sample attribute as a study factor");
+  }
+  const studySamples = samples.filter(sample => sample.sampleType === "study");
+  if (metadata.studyGroupFactor) {
+    const ungrouped = studySamples.filter(sample => !sample.studyGroup?.trim()).map(sample => sample.sampleCode);
+    if (ungrouped.length > 0) {
+      warning("Study factors", `${ungrouped.length} study samples have no study group: ${listNames(ungrouped)}`);
+    }
+  }
+  for (const attribute of metadata.factorAttributes) {
+    const missing = studySamples.filter(sample => !sample.attributes[attribute]?.trim()).map(sample => sample.sampleCode);
+    if (missing.length > 0) {
+      warning("Study factors", `${missing.length} study samples have no "${attribute}" attribute: ${listNames(missing)}`);
+    }
+  }
+
+  for (const [key, protocol] of Object.entries(PROTOCOLS) as [DepositionProtocol, typeof PROTOCOLS[DepositionProtocol]][]) {
+    if (!metadata.protocols[key]) error("Study protocols", `${protocol.name} protocol has no description`);
+  }
+  if (!metadata.chromatographyInstrument) error("Chromatography", "Chromatography instrument is required");
+  if (!metadata.columnType) error("Chromatography", "Column type is required, e.g. reverse phase or hilic");
+  if (!metadata.columnModel) warning("Chromatography", "No column model");
+  if (!metadata.msInstrument) error("Mass spectrometry", "Instrument is required");
+  if (!metadata.ionSource) warning("Mass spectrometry", "No ion source");
+  if (!metadata.massAnalyzer) warning("Mass spectrometry", "No mass analyzer");
+
+  for (const assay of assays) {
+    const location = `Experiment ${assay.experiment.name}`;
+    const noPolarity = assay.runs.filter(run => !run.polarity).map(run => run.assayName);
+    if (noPolarity.length > 0) {
+      error(location, `${noPolarity.length} runs have no scan polarity; set a default polarity or attach their mzML files: ` +
+        listNames(noPolarity));
+    }
+    if (!assay.table) continue;
+    const noRawFile = assay.runs.filter(run => !run.rawFileName).map(run => run.assayName);
+    if (noRawFile.length > 0) {
+      error(location, `${noRawFile.length} columns of ${assay.table.name} are not linked to a raw data file: ${listNames(noRawFile)}`);
+    }
+  }
+
+  const { studyFile, assayFiles } = isaTabLayout(study);
+  const files = ["i_Investigation.txt", studyFile, ...assayFiles.flatMap(({ assayFile, mafFile }) => mafFile ? [assayFile, mafFile] : [assayFile])];
+  return { files, issues };
+}
+
+export async function renderIsaTab(study: DepositionStudy): Promise<ZipEntry[]> {
+  const layout = isaTabLayout(study);
+  const files: ZipEntry[] = [
+    { name: "i_Investigation.txt", data: renderInvestigation(study, layout) },
+    { name: layout.studyFile, data: renderStudyFile(study) },
+  ];
+  for (const assayFiles of layout.assayFiles) {
+    files.push({ name: assayFiles.assayFile, data: renderAssayFile(study, assayFiles) });
+    if (assayFiles.mafFile) files.push({ name: assayFiles.mafFile, data: await renderMaf(assayFiles.assay) });
+  }
+  return files;
+}
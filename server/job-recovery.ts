@@ -0,0 +1,14 @@
+import { storage } from "./storage";
+
+// Background jobs (integrity checks, MS run parses, spectral library imports,
+// feature table imports, drift corrections, annotations and statistical
+// analyses) run inside the server process, so a restart or crash ends them
+// without recording a result. At startup nothing is running yet: whatever is
+// still pending or running was interrupted and is marked failed, so that it
+// no longer blocks a new run.
+export async function failInterruptedJobs() {
+  const count = await storage.failInterruptedJobs("Interrupted by a server restart");
+  if (count > 0) {
+    console.warn(`Marked ${count} interrupted background ${count === 1 ? "job" : "jobs"} as failed`);
+  }
+}
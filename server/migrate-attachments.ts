@@ -0,0 +1,83 @@
+// Moves attachment contents from the legacy file_data column into the blob
+// store and records the SHA-256 of files uploaded before hashes were kept.
+// Rows are handled one at a time so large tables never have to fit in
+// memory, and the script can be re-run safely: rows that already have a
+// storage key or hash are skipped.
+//
+//   npm run attachments:migrate
+import { eq, and, isNotNull, isNull } from "drizzle-orm";
+import { attachments } from "@shared/schema";
+import { db, pool } from "./db";
+import { blobStore, createBlobKey, sha256Hex, hashBlob, BlobNotFoundError } from "./blob-store";
+
+async function migrateAttachments() {
+  const pending = await db.select({ id: attachments.id })
+    .from(attachments)
+    .where(and(isNull(attachments.storageKey), isNotNull(attachments.fileData)));
+
+  console.log(`${pending.length} attachment(s) to migrate`);
+
+  let migrated = 0;
+  for (const { id } of pending) {
+    const [attachment] = await db.select()
+      .from(attachments)
+      .where(eq(attachments.id, id));
+    if (!attachment?.fileData || attachment.storageKey) continue;
+
+    const storageKey = createBlobKey(`attachments/${attachment.noteId}`);
+    const contents = Buffer.from(attachment.fileData, "base64");
+    await blobStore.put(storageKey, contents, {
+      contentType: attachment.fileType,
+    });
+
+    const updated = await db.update(attachments)
+      .set({ storageKey, sha256: sha256Hex(contents), fileData: null })
+      .where(and(eq(attachments.id, id), isNull(attachments.storageKey)))
+      .returning({ id: attachments.id });
+
+    if (updated.length === 0) {
+      // Migrated concurrently by another run; drop the copy we just wrote
+      await blobStore.delete(storageKey);
+      continue;
+    }
+
+    migrated++;
+    console.log(`Migrated attachment ${id} (${attachment.fileName}) to ${storageKey}`);
+  }
+
+  console.log(`Done: ${migrated} attachment(s) moved to the blob store`);
+}
+
+async function backfillHashes() {
+  const unhashed = await db.select({ id: attachments.id, storageKey: attachments.storageKey })
+    .from(attachments)
+    .where(and(isNull(attachments.sha256), isNotNull(attachments.storageKey)));
+
+  console.log(`${unhashed.length} attachment(s) without a SHA-256`);
+
+  for (const { id, storageKey } of unhashed) {
+    let sha256: string;
+    try {
+      sha256 = await hashBlob(storageKey!);
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        console.warn(`Attachment ${id}: blob ${storageKey} is missing, not hashed`);
+        continue;
+      }
+      throw error;
+    }
+
+    await db.update(attachments)
+      .set({ sha256 })
+      .where(and(eq(attachments.id, id), isNull(attachments.sha256)));
+    console.log(`Hashed attachment ${id}: ${sha256}`);
+  }
+}
+
+migrateAttachments()
+  .then(backfillHashes)
+  .catch(error => {
+    console.error("Attachment migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
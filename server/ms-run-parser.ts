@@ -0,0 +1,536 @@
+import { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import { inflateSync } from "zlib";
+import { SaxesParser, SaxesTagPlain } from "saxes";
+import { MsRunFormat, Spectrum, TicPoint } from "@shared/schema";
+
+// Streaming readers for mzML (HUPO-PSI) and the older mzXML format. Both are
+// parsed with a SAX parser so multi-GB files never have to fit in memory:
+// parseMsRun collects run metadata and the total-ion chromatogram, and
+// readSpectrum pulls the peaks of a single scan.
+
+export interface ParsedMsRun {
+  format: MsRunFormat;
+  instrumentModel: string | null;
+  acquisitionDate: string | null;
+  scanCount: number;
+  msLevels: number[];
+  polarity: "positive" | "negative" | "mixed" | null;
+  rtMin: number | null;
+  rtMax: number | null;
+  tic: TicPoint[];
+  scanOffsets: number[] | null;
+}
+
+export function detectMsRunFormat(fileName: string): MsRunFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".mzml")) return "mzML";
+  if (lower.endsWith(".mzxml")) return "mzXML";
+  return null;
+}
+
+// PSI-MS controlled vocabulary terms used below
+const CV = {
+  msLevel: "MS:1000511",
+  positiveScan: "MS:1000130",
+  negativeScan: "MS:1000129",
+  totalIonCurrent: "MS:1000285",
+  scanStartTime: "MS:1000016",
+  selectedIonMz: "MS:1000744",
+  mzArray: "MS:1000514",
+  intensityArray: "MS:1000515",
+  float32: "MS:1000521",
+  float64: "MS:1000523",
+  int32: "MS:1000519",
+  int64: "MS:1000522",
+  zlib: "MS:1000574",
+  serialNumber: "MS:1000529",
+  minute: "UO:0000031",
+};
+
+type Polarity = "positive" | "negative" | null;
+
+// Everything known about one scan once its element has closed
+interface ScanRecord {
+  index: number;
+  id: string;
+  msLevel: number | null;
+  rt: number | null;
+  polarity: Polarity;
+  precursorMz: number | null;
+  totalIonCurrent: number | null;
+  mz: number[] | null;
+  intensity: number[] | null;
+}
+
+interface ScanHandlers {
+  // Called for every scan; return true to stop reading the file
+  onScan(scan: ScanRecord): boolean | void;
+  onInstrumentModel?(model: string): void;
+  onAcquisitionDate?(date: string): void;
+  onOffsets?(offsets: number[]): void;
+}
+
+interface ReaderOptions {
+  // Decode peak arrays for every scan (otherwise only when the scan has no
+  // total ion current recorded)
+  decodePeaks: boolean;
+  // The stream starts at a scan element rather than at the document root
+  fragment?: boolean;
+}
+
+// mzXML retention times are xs:duration values such as "PT12.345S"
+function parseDuration(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = /^-?P(?:T?(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)$/.exec(value);
+  if (!match) return null;
+  const [, hours, minutes, seconds] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0);
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+export function decodeBinaryArray(
+  base64: string,
+  options: { bits: 32 | 64; integer?: boolean; compressed: boolean; littleEndian: boolean }
+): number[] {
+  let bytes = Buffer.from(base64.trim(), "base64");
+  if (options.compressed && bytes.length > 0) {
+    bytes = inflateSync(bytes);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const size = options.bits / 8;
+  const values = new Array<number>(Math.floor(bytes.length / size));
+  for (let i = 0; i < values.length; i++) {
+    const offset = i * size;
+    if (options.integer) {
+      values[i] = options.bits === 32
+        ? view.getInt32(offset, options.littleEndian)
+        : Number(view.getBigInt64(offset, options.littleEndian));
+    } else {
+      values[i] = options.bits === 32
+        ? view.getFloat32(offset, options.littleEndian)
+        : view.getFloat64(offset, options.littleEndian);
+    }
+  }
+  return values;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+class StopReading extends Error {}
+
+// Feeds the stream through a SAX parser built by setup until the stream ends
+// or a handler throws StopReading
+async function runParser(
+  stream: Readable,
+  fragment: boolean,
+  setup: (parser: SaxesParser<{ xmlns: false; fragment: boolean }>) => void
+) {
+  const parser = new SaxesParser({ xmlns: false, fragment });
+  setup(parser);
+  const decoder = new StringDecoder("utf8");
+
+  try {
+    for await (const chunk of stream) {
+      parser.write(decoder.write(chunk as Buffer));
+    }
+    parser.write(decoder.end());
+    parser.close();
+  } catch (error) {
+    if (!(error instanceof StopReading)) throw error;
+  } finally {
+    stream.destroy();
+  }
+}
+
+function readMzml(stream: Readable, handlers: ScanHandlers, options: ReaderOptions) {
+  // cvParams of referenceable param groups, which instrument configurations
+  // and spectra can include by reference
+  const paramGroups = new Map<string, Record<string, string>[]>();
+  let currentGroup: Record<string, string>[] | null = null;
+  let instrumentParams: Record<string, string>[] | null = null;
+  let instrumentModelFound = false;
+  let inComponentList = false;
+
+  let scan: ScanRecord | null = null;
+  let inChromatogram = false;
+  let inPrecursor = false;
+  let array: { params: Set<string>; binary: string } | null = null;
+  let arrays: { params: Set<string>; binary: string }[] = [];
+  let inBinary = false;
+
+  let inOffsetIndex = false;
+  let offsetText = "";
+  let offsets: number[] = [];
+
+  const applyParam = (param: Record<string, string>) => {
+    if (!scan) return;
+    switch (param.accession) {
+      case CV.msLevel:
+        scan.msLevel = parseNumber(param.value);
+        break;
+      case CV.positiveScan:
+        scan.polarity = "positive";
+        break;
+      case CV.negativeScan:
+        scan.polarity = "negative";
+        break;
+      case CV.totalIonCurrent:
+        scan.totalIonCurrent = parseNumber(param.value);
+        break;
+      case CV.scanStartTime: {
+        const time = parseNumber(param.value);
+        scan.rt = time === null ? null : param.unitAccession === CV.minute ? time * 60 : time;
+        break;
+      }
+      case CV.selectedIonMz:
+        if (inPrecursor && scan.precursorMz === null) scan.precursorMz = parseNumber(param.value);
+        break;
+    }
+  };
+
+  const decodeArrays = () => {
+    if (!scan) return;
+    for (const { params, binary } of arrays) {
+      const values = decodeBinaryArray(binary, {
+        bits: params.has(CV.float64) || params.has(CV.int64) ? 64 : 32,
+        integer: params.has(CV.int32) || params.has(CV.int64),
+        compressed: params.has(CV.zlib),
+        littleEndian: true,
+      });
+      if (params.has(CV.mzArray)) scan.mz = values;
+      if (params.has(CV.intensityArray)) scan.intensity = values;
+    }
+  };
+
+  return runParser(stream, !!options.fragment, parser => {
+    parser.on("opentag", tag => {
+      const attributes = (tag as SaxesTagPlain).attributes;
+      switch (tag.name) {
+        case "referenceableParamGroup":
+          currentGroup = [];
+          paramGroups.set(attributes.id, currentGroup);
+          break;
+        case "instrumentConfiguration":
+          if (!instrumentModelFound) instrumentParams = [];
+          break;
+        case "componentList":
+          // Source, analyzer and detector terms are not the instrument model
+          inComponentList = true;
+          break;
+        case "run":
+          if (attributes.startTimeStamp) handlers.onAcquisitionDate?.(attributes.startTimeStamp);
+          break;
+        case "chromatogram":
+          inChromatogram = true;
+          break;
+        case "spectrum":
+          scan = {
+            index: parseNumber(attributes.index) ?? 0,
+            id: attributes.id ?? "",
+            msLevel: null,
+            rt: null,
+            polarity: null,
+            precursorMz: null,
+            totalIonCurrent: null,
+            mz: null,
+            intensity: null,
+          };
+          arrays = [];
+          break;
+        case "precursor":
+          inPrecursor = true;
+          break;
+        case "binaryDataArray":
+          if (scan && !inChromatogram) array = { params: new Set(), binary: "" };
+          break;
+        case "binary":
+          inBinary = !!array;
+          break;
+        case "cvParam":
+          if (currentGroup) currentGroup.push(attributes);
+          if (instrumentParams && !inComponentList) instrumentParams.push(attributes);
+          if (array) array.params.add(attributes.accession);
+          else if (scan && !inChromatogram) applyParam(attributes);
+          break;
+        case "referenceableParamGroupRef": {
+          const group = paramGroups.get(attributes.ref) ?? [];
+          if (instrumentParams && !inComponentList) instrumentParams.push(...group);
+          if (array) group.forEach(param => array!.params.add(param.accession));
+          else if (scan && !inChromatogram) group.forEach(applyParam);
+          break;
+        }
+        case "index":
+          inOffsetIndex = attributes.name === "spectrum";
+          break;
+        case "offset":
+          offsetText = "";
+          break;
+      }
+    });
+
+    parser.on("text", text => {
+      if (inBinary) array!.binary += text;
+      if (inOffsetIndex) offsetText += text;
+    });
+
+    parser.on("closetag", tag => {
+      switch (tag.name) {
+        case "referenceableParamGroup":
+          currentGroup = null;
+          break;
+        case "instrumentConfiguration":
+          if (instrumentParams && !instrumentModelFound) {
+            const model = instrumentParams.find(param => param.accession?.startsWith("MS:") && param.accession !== CV.serialNumber);
+            if (model?.name) {
+              instrumentModelFound = true;
+              handlers.onInstrumentModel?.(model.name);
+            }
+          }
+          instrumentParams = null;
+          break;
+        case "componentList":
+          inComponentList = false;
+          break;
+        case "chromatogram":
+          inChromatogram = false;
+          break;
+        case "precursor":
+          inPrecursor = false;
+          break;
+        case "binary":
+          inBinary = false;
+          break;
+        case "binaryDataArray":
+          if (array) arrays.push(array);
+          array = null;
+          break;
+        case "spectrum": {
+          if (!scan) break;
+          if (options.decodePeaks || scan.totalIonCurrent === null) decodeArrays();
+          const finished = scan;
+          scan = null;
+          if (handlers.onScan(finished)) throw new StopReading();
+          break;
+        }
+        case "offset":
+          if (inOffsetIndex) offsets.push(Number(offsetText.trim()));
+          break;
+        case "index":
+          if (inOffsetIndex) handlers.onOffsets?.(offsets);
+          inOffsetIndex = false;
+          offsets = [];
+          break;
+      }
+    });
+  });
+}
+
+function readMzxml(stream: Readable, handlers: ScanHandlers, options: ReaderOptions) {
+  // mzXML nests MS2 scans inside their MS1 scan, so open scans form a stack
+  const scans: ScanRecord[] = [];
+  let scanIndex = 0;
+  let peaks: { attributes: Record<string, string>; text: string } | null = null;
+  let precursorText: string | null = null;
+
+  let inOffsetIndex = false;
+  let offsetText = "";
+  let offsets: number[] = [];
+
+  return runParser(stream, !!options.fragment, parser => {
+    parser.on("opentag", tag => {
+      const attributes = (tag as SaxesTagPlain).attributes;
+      switch (tag.name) {
+        case "msModel":
+          if (attributes.value) handlers.onInstrumentModel?.(attributes.value);
+          break;
+        case "scan":
+          scans.push({
+            index: scanIndex++,
+            id: attributes.num ?? "",
+            msLevel: parseNumber(attributes.msLevel),
+            rt: parseDuration(attributes.retentionTime),
+            polarity: attributes.polarity === "+" ? "positive" : attributes.polarity === "-" ? "negative" : null,
+            precursorMz: null,
+            totalIonCurrent: parseNumber(attributes.totIonCurrent),
+            mz: null,
+            intensity: null,
+          });
+          break;
+        case "precursorMz":
+          precursorText = "";
+          break;
+        case "peaks":
+          peaks = { attributes, text: "" };
+          break;
+        case "index":
+          inOffsetIndex = attributes.name === "scan";
+          break;
+        case "offset":
+          offsetText = "";
+          break;
+      }
+    });
+
+    parser.on("text", text => {
+      if (peaks) peaks.text += text;
+      if (precursorText !== null) precursorText += text;
+      if (inOffsetIndex) offsetText += text;
+    });
+
+    parser.on("closetag", tag => {
+      const scan = scans[scans.length - 1];
+      switch (tag.name) {
+        case "precursorMz":
+          if (scan) scan.precursorMz = parseNumber(precursorText?.trim());
+          precursorText = null;
+          break;
+        case "peaks":
+          if (scan && peaks && (options.decodePeaks || scan.totalIonCurrent === null)) {
+            const values = decodeBinaryArray(peaks.text, {
+              bits: peaks.attributes.precision === "64" ? 64 : 32,
+              compressed: peaks.attributes.compressionType === "zlib",
+              littleEndian: peaks.attributes.byteOrder === "little",
+            });
+            // Pairs are interleaved as m/z, intensity
+            scan.mz = values.filter((_, i) => i % 2 === 0);
+            scan.intensity = values.filter((_, i) => i % 2 === 1);
+          }
+          peaks = null;
+          break;
+        case "scan": {
+          const finished = scans.pop();
+          if (finished && handlers.onScan(finished)) throw new StopReading();
+          break;
+        }
+        case "offset":
+          if (inOffsetIndex) offsets.push(Number(offsetText.trim()));
+          break;
+        case "index":
+          if (inOffsetIndex) handlers.onOffsets?.(offsets);
+          inOffsetIndex = false;
+          offsets = [];
+          break;
+      }
+    });
+  });
+}
+
+const readers = { mzML: readMzml, mzXML: readMzxml };
+
+// Reads a whole run for its metadata, TIC and scan offsets. The TIC uses the
+// MS1 scans, or every scan if the run has no MS1 data.
+export async function parseMsRun(stream: Readable, format: MsRunFormat): Promise<ParsedMsRun> {
+  const result: ParsedMsRun = {
+    format,
+    instrumentModel: null,
+    acquisitionDate: null,
+    scanCount: 0,
+    msLevels: [],
+    polarity: null,
+    rtMin: null,
+    rtMax: null,
+    tic: [],
+    scanOffsets: null,
+  };
+  const msLevels = new Set<number>();
+  const polarities = new Set<string>();
+  const points: TicPoint[] = [];
+
+  await readers[format](stream, {
+    onInstrumentModel: model => {
+      result.instrumentModel ??= model;
+    },
+    onAcquisitionDate: date => {
+      result.acquisitionDate ??= date;
+    },
+    onOffsets: offsets => {
+      result.scanOffsets = offsets;
+    },
+    onScan: scan => {
+      result.scanCount++;
+      if (scan.msLevel !== null) msLevels.add(scan.msLevel);
+      if (scan.polarity) polarities.add(scan.polarity);
+      if (scan.rt !== null) {
+        result.rtMin = Math.min(result.rtMin ?? scan.rt, scan.rt);
+        result.rtMax = Math.max(result.rtMax ?? scan.rt, scan.rt);
+      }
+      points.push({
+        index: scan.index,
+        rt: scan.rt ?? 0,
+        intensity: scan.totalIonCurrent ?? sum(scan.intensity ?? []),
+        msLevel: scan.msLevel ?? 1,
+      });
+    },
+  }, { decodePeaks: false });
+
+  result.msLevels = Array.from(msLevels).sort((a, b) => a - b);
+  result.polarity = polarities.size > 1 ? "mixed" : (Array.from(polarities)[0] as Polarity) ?? null;
+  const ms1 = points.filter(point => point.msLevel === 1);
+  result.tic = ms1.length > 0 ? ms1 : points;
+  // Offsets are only useful if there is one per scan
+  if (result.scanOffsets?.length !== result.scanCount) result.scanOffsets = null;
+  return result;
+}
+
+// Reads one scan's peaks. With fragment set, the stream is expected to start
+// at that scan's element (a ranged read from the file's offset index).
+export async function readSpectrum(
+  stream: Readable,
+  format: MsRunFormat,
+  index: number,
+  fragment = false
+): Promise<Spectrum | null> {
+  let spectrum: Spectrum | null = null;
+
+  await readers[format](stream, {
+    onScan: scan => {
+      // mzML spectra carry their index; mzXML scans are counted from where
+      // reading started, so in a fragment the requested scan is the first
+      const position = format === "mzXML" && fragment ? index + scan.index : scan.index;
+      if (position !== index) {
+        // An mzML fragment that starts at another spectrum means the offset
+        // index is stale; give up rather than read to the end
+        if (fragment && format === "mzML") throw new StopReading();
+        return false;
+      }
+      spectrum = {
+        index,
+        id: scan.id,
+        msLevel: scan.msLevel,
+        rt: scan.rt,
+        polarity: scan.polarity,
+        precursorMz: scan.precursorMz,
+        mz: scan.mz ?? [],
+        intensity: scan.intensity ?? [],
+      };
+      return true;
+    },
+  }, { decodePeaks: true, fragment });
+
+  return spectrum;
+}
+
+// Thins a TIC to at most maxPoints for plotting, keeping the most intense
+// scan of each bucket so peaks are not lost
+export function downsampleTic(tic: TicPoint[], maxPoints = 2000): TicPoint[] {
+  if (tic.length <= maxPoints) return tic;
+  const bucketSize = tic.length / maxPoints;
+  const result: TicPoint[] = [];
+  for (let bucket = 0; bucket < maxPoints; bucket++) {
+    const start = Math.floor(bucket * bucketSize);
+    const end = Math.floor((bucket + 1) * bucketSize);
+    let best = tic[start];
+    for (let i = start + 1; i < end; i++) {
+      if (tic[i].intensity > best.intensity) best = tic[i];
+    }
+    result.push(best);
+  }
+  return result;
+}
@@ -0,0 +1,62 @@
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { detectMsRunFormat, parseMsRun, readSpectrum } from "./ms-run-parser";
+import { Attachment, MsRun, Spectrum } from "@shared/schema";
+
+// Records a pending run for an mzML/mzXML attachment and parses it in the
+// background; clients poll the run until its status is parsed or failed.
+// Returns undefined for attachments that are not mass spectrometry runs.
+export async function startMsRunParse(attachment: Attachment): Promise<MsRun | undefined> {
+  const format = detectMsRunFormat(attachment.fileName);
+  if (!format || !attachment.storageKey) return undefined;
+
+  // A concurrent request may have recorded the run first; that request parses it
+  const msRun = await storage.createMsRun({ attachmentId: attachment.id, format, status: "pending" });
+  if (!msRun) return storage.getMsRunByAttachment(attachment.id);
+
+  const storageKey = attachment.storageKey;
+
+  (async () => {
+    try {
+      const parsed = await parseMsRun(await blobStore.get(storageKey), format);
+      await storage.updateMsRun(msRun.id, {
+        status: "parsed",
+        instrumentModel: parsed.instrumentModel,
+        acquisitionDate: parsed.acquisitionDate,
+        scanCount: parsed.scanCount,
+        msLevels: parsed.msLevels,
+        polarity: parsed.polarity,
+        rtMin: parsed.rtMin,
+        rtMax: parsed.rtMax,
+        tic: parsed.tic,
+        scanOffsets: parsed.scanOffsets,
+      });
+    } catch (error) {
+      console.error(`Failed to parse ${format} attachment ${attachment.id}:`, error);
+      await storage.updateMsRun(msRun.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })().catch(error => {
+    console.error(`Failed to record parse result for attachment ${attachment.id}:`, error);
+  });
+
+  return msRun;
+}
+
+// Reads a single scan. When the run has an offset index the read starts at
+// the scan's element; otherwise (or if the offset turns out to be stale) the
+// file is scanned from the start.
+export async function getSpectrum(attachment: Attachment, msRun: MsRun, index: number): Promise<Spectrum | null> {
+  if (!attachment.storageKey) return null;
+
+  const offset = msRun.scanOffsets?.[index];
+  if (offset !== undefined) {
+    const fragment = await blobStore.get(attachment.storageKey, { start: offset });
+    const spectrum = await readSpectrum(fragment, msRun.format, index, true);
+    if (spectrum) return spectrum;
+  }
+
+  return readSpectrum(await blobStore.get(attachment.storageKey), msRun.format, index);
+}
@@ -0,0 +1,306 @@
+import { storage } from "./storage";
+import { blobStore, createBlobKey, sha256Hex } from "./blob-store";
+import { escapeHtml } from "./html-diff";
+import { METABOLITE_NAME, MwTabDocument, MwTabError } from "./mwtab";
+import {
+  DepositionContact,
+  DepositionMetadata,
+  InsertFeature,
+  InsertSample,
+  MwTabImportPreview,
+  MwTabImportResult,
+  SampleType,
+  depositionMetadataSchema,
+  insertAttachmentSchema,
+  insertProjectSchema,
+} from "@shared/schema";
+
+// Creates a project skeleton from an mwTab file: the study metadata as the
+// project's deposition metadata, one experiment for the analysis, a sample
+// per sample ID with its factors, and the MS_METABOLITE_DATA as a feature
+// table read from the stored file.
+
+// Features are inserted in batches
+const BATCH_SIZE = 500;
+
+// METABOLITES block columns, compared without case or punctuation
+const MZ_FIELDS = ["moverz", "mz", "moverzquant", "quantifiedmz", "masstocharge"];
+const RT_FIELDS = ["retentiontime", "rt", "rtmin", "retentiontimemin"];
+// The Workbench's own columns: a retention index, which is a retention time
+// when ri_type says so
+const RI_FIELDS = ["ri", "retentionindex"];
+const RI_TYPE_FIELDS = ["ritype", "retentionindextype"];
+const ADDUCT_FIELDS = ["adduct", "ion"];
+
+// Untargeted metabolites are often named after their m/z and retention time
+// (minutes): "181.0707_2.35", "181.0707@2.35", or XCMS's "M181T141" (seconds)
+const MZ_RT_NAME = /^(\d+(?:\.\d+)?)\s*[_@/]\s*(\d+(?:\.\d+)?)(?:\s*min)?$/i;
+const XCMS_NAME = /^M(\d+(?:\.\d+)?)T(\d+(?:\.\d+)?)$/i;
+
+const QC_NAME = /qc|pooled|quality control|(^|[^a-z])pool([^a-z]|$)/i;
+const BLANK_NAME = /blank/i;
+const STANDARD_NAME = /(^|[^a-z])(std|standard)([^a-z]|$)/i;
+
+const matchKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Placeholder factor values, e.g. "-" for QC samples
+const hasValue = (value: string | undefined): value is string => !!value && value !== "-";
+
+function findField(fields: Record<string, string>, keys: string[]): [string, string] | null {
+  const entry = Object.entries(fields).find(([field, value]) => keys.includes(matchKey(field)) && value.trim());
+  return entry ?? null;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  const number = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+}
+
+function detectSampleType(sampleId: string, factors: Record<string, string>): SampleType {
+  const texts = [sampleId, ...Object.values(factors)];
+  if (texts.some(text => BLANK_NAME.test(text))) return "blank";
+  if (texts.some(text => QC_NAME.test(text))) return "qc";
+  if (texts.some(text => STANDARD_NAME.test(text))) return "standard";
+  return "study";
+}
+
+export interface MwTabImport {
+  preview: MwTabImportPreview;
+  project: { name: string; description: string | null; deposition: DepositionMetadata };
+  experimentName: string;
+  samples: Omit<InsertSample, "projectId" | "experimentIds">[];
+  // Sample IDs of the feature table's columns
+  columns: string[];
+  // Features of the table in file order
+  features: Omit<InsertFeature, "tableId">[];
+}
+
+// Works out what importing the file creates without saving anything
+export function planMwTabImport(document: MwTabDocument, fileName: string): MwTabImport {
+  const { sections } = document;
+  const study = sections.STUDY ?? {};
+  const project = sections.PROJECT ?? {};
+  const chromatography = sections.CHROMATOGRAPHY ?? {};
+  const ms = sections.MS ?? {};
+
+  const factorNames = Array.from(new Set(document.subjectSampleFactors.flatMap(sample => Object.keys(sample.factors))));
+  const factorsBySample = new Map(document.subjectSampleFactors.map(sample => [sample.sampleId, sample]));
+  const sampleIds = Array.from(new Set([...document.subjectSampleFactors.map(sample => sample.sampleId), ...document.samples]));
+
+  const tooLong = sampleIds.filter(sampleId => sampleId.length > 100);
+  if (tooLong.length > 0) {
+    throw new MwTabError(`Sample IDs can be at most 100 characters: ${tooLong[0]}`);
+  }
+
+  const organism = sections.SUBJECT?.SUBJECT_SPECIES || null;
+  const matrix = sections.COLLECTION?.SAMPLE_TYPE || null;
+  const samples = sampleIds.map(sampleCode => {
+    const { factors = {}, additionalData = {} } = factorsBySample.get(sampleCode) ?? {};
+    const [groupFactor, ...otherFactors] = factorNames;
+    const attributes = Object.fromEntries([
+      ...otherFactors.filter(name => hasValue(factors[name])).map(name => [name, factors[name]]),
+      ...Object.entries(additionalData).filter(([, value]) => hasValue(value)),
+    ]);
+    return {
+      sampleCode,
+      sampleType: detectSampleType(sampleCode, factors),
+      organism,
+      matrix,
+      studyGroup: groupFactor && hasValue(factors[groupFactor]) ? factors[groupFactor] : null,
+      attributes,
+    };
+  });
+
+  const metabolitesByName = new Map(document.metabolites.map(metabolite => [metabolite[METABOLITE_NAME], metabolite]));
+  const features: MwTabImport["features"] = [];
+  const skippedMetabolites: string[] = [];
+  for (const row of document.data) {
+    const { [METABOLITE_NAME]: _, ...fields } = metabolitesByName.get(row.metabolite) ?? {};
+    const mzField = findField(fields, MZ_FIELDS);
+    const riType = findField(fields, RI_TYPE_FIELDS);
+    const rtField = findField(fields, RT_FIELDS) ??
+      (riType && /^(retention time|rt)/i.test(riType[1]) ? findField(fields, RI_FIELDS) : null);
+    const adductField = findField(fields, ADDUCT_FIELDS);
+    const nameMatch = MZ_RT_NAME.exec(row.metabolite);
+    const xcmsMatch = XCMS_NAME.exec(row.metabolite);
+
+    const mz = parseNumber(mzField?.[1]) ?? parseNumber(nameMatch?.[1] ?? xcmsMatch?.[1]);
+    if (mz === null) {
+      skippedMetabolites.push(row.metabolite);
+      continue;
+    }
+    const rt = parseNumber(rtField?.[1]) ??
+      parseNumber(nameMatch?.[2]) ??
+      (xcmsMatch ? Number(xcmsMatch[2]) / 60 : null);
+    const used = new Set([mzField?.[0], rtField?.[0], adductField?.[0]]);
+
+    features.push({
+      position: features.length,
+      featureKey: row.metabolite,
+      mz,
+      rt,
+      name: nameMatch || xcmsMatch ? null : row.metabolite,
+      adduct: adductField?.[1] ?? null,
+      metadata: Object.fromEntries(Object.entries(fields).filter(([field, value]) => !used.has(field) && value.trim())),
+      intensities: row.values,
+    });
+  }
+  if (features.length === 0) {
+    throw new MwTabError(
+      `None of the ${document.data.length} metabolites has an m/z, either in the METABOLITES block (moverz) ` +
+      `or in its name (e.g. 181.0707_2.35), so there is nothing to put in a feature table`
+    );
+  }
+
+  // The study contact is the principal investigator; the project's is added
+  // when it is someone else
+  const contacts: Partial<DepositionContact>[] = [];
+  for (const [fields, role] of [[study, "principal investigator"], [project, ""]] as const) {
+    if (!fields.LAST_NAME && !fields.FIRST_NAME) continue;
+    const contact = {
+      firstName: fields.FIRST_NAME,
+      lastName: fields.LAST_NAME,
+      email: fields.EMAIL,
+      phone: fields.PHONE,
+      address: fields.ADDRESS,
+      affiliation: fields.INSTITUTE,
+      role,
+    };
+    if (!contacts.some(existing => existing.lastName === contact.lastName && existing.firstName === contact.firstName)) {
+      contacts.push(contact);
+    }
+  }
+  const ionMode = ms.ION_MODE?.toLowerCase();
+  const deposition = depositionMetadataSchema.parse({
+    contacts,
+    publications: [study.PUBLICATIONS, project.PUBLICATIONS]
+      .filter((publication, index, all): publication is string => !!publication && all.indexOf(publication) === index)
+      .map(title => ({ title })),
+    studyGroupFactor: factorNames[0] ?? "Study group",
+    factorAttributes: factorNames.slice(1),
+    subjectType: sections.SUBJECT?.SUBJECT_TYPE,
+    treatment: sections.TREATMENT?.TREATMENT_SUMMARY,
+    protocols: {
+      sampleCollection: sections.COLLECTION?.COLLECTION_SUMMARY,
+      extraction: sections.SAMPLEPREP?.SAMPLEPREP_SUMMARY,
+      chromatography: chromatography.CHROMATOGRAPHY_SUMMARY,
+      massSpectrometry: ms.MS_COMMENTS,
+    },
+    chromatographyInstrument: chromatography.INSTRUMENT_NAME,
+    columnModel: chromatography.COLUMN_NAME,
+    columnType: chromatography.CHROMATOGRAPHY_TYPE,
+    msInstrument: ms.INSTRUMENT_NAME,
+    ionSource: ms.MS_TYPE,
+    massAnalyzer: ms.INSTRUMENT_TYPE,
+    polarity: ionMode === "positive" || ionMode === "negative" ? ionMode : null,
+    intensityUnits: document.units || undefined,
+  });
+
+  const projectName = study.STUDY_TITLE || project.PROJECT_TITLE || document.studyId || fileName;
+  return {
+    preview: {
+      projectName,
+      studyId: document.studyId,
+      analysisId: document.analysisId,
+      factorNames,
+      samples: samples.map(({ sampleCode, sampleType, studyGroup }) => ({ sampleCode, sampleType, studyGroup })),
+      units: deposition.intensityUnits,
+      metaboliteCount: document.data.length,
+      skippedMetabolites,
+    },
+    project: {
+      name: projectName,
+      description: study.STUDY_SUMMARY || project.PROJECT_SUMMARY || null,
+      deposition,
+    },
+    experimentName: document.analysisId ? `Analysis ${document.analysisId}` : "mwTab analysis",
+    samples,
+    columns: document.samples,
+    features,
+  };
+}
+
+// Saves the planned project; the file is kept as an attachment of a note in
+// the experiment and is the feature table's source. If any step fails the
+// project is deleted again.
+export async function importMwTab(
+  plan: MwTabImport,
+  contents: Buffer,
+  fileName: string,
+  fileType: string,
+  userId: number
+): Promise<MwTabImportResult> {
+  const project = await storage.createProject(insertProjectSchema.parse({ ...plan.project, ownerId: userId }));
+  try {
+    const experiment = await storage.createExperiment({
+      name: plan.experimentName,
+      description: `Imported from ${fileName}`,
+      projectId: project.id,
+    });
+    const samples = await storage.createSamples(plan.samples.map(sample => ({
+      ...sample,
+      projectId: project.id,
+      experimentIds: [experiment.id],
+    })));
+    const sampleIds = new Map(samples.map(sample => [sample.sampleCode, sample.id]));
+
+    const { preview } = plan;
+    const accessions = [preview.studyId, preview.analysisId].filter(Boolean).join(" / ");
+    const note = await storage.createNote({
+      title: `mwTab import: ${fileName}`,
+      content: `<p>Imported from <code>${escapeHtml(fileName)}</code>${accessions ? ` (Metabolomics Workbench ${escapeHtml(accessions)})` : ""}: ` +
+        `${samples.length} samples and ${plan.features.length} of ${preview.metaboliteCount} metabolites.</p>` +
+        (preview.skippedMetabolites.length > 0
+          ? `<p>Left out for lack of an m/z: ${escapeHtml(preview.skippedMetabolites.join(", "))}</p>`
+          : ""),
+      experimentId: experiment.id,
+      authorId: userId,
+    });
+
+    const validatedData = insertAttachmentSchema.parse({
+      fileName,
+      fileSize: contents.length,
+      fileType,
+      storageKey: createBlobKey(`attachments/${note.id}`),
+      sha256: sha256Hex(contents),
+      noteId: note.id,
+    });
+    await blobStore.put(validatedData.storageKey, contents, { contentType: fileType });
+    let attachment;
+    try {
+      attachment = await storage.createAttachment(validatedData);
+    } catch (error) {
+      await blobStore.delete(validatedData.storageKey);
+      throw error;
+    }
+
+    const table = await storage.createFeatureTable(
+      {
+        experimentId: experiment.id,
+        name: fileName.replace(/\.(txt|tsv|json)$/i, ""),
+        format: "mwtab",
+        sourceAttachmentId: attachment.id,
+        sourceFileName: fileName,
+        createdById: userId,
+      },
+      plan.columns.map((columnName, position) => ({
+        position,
+        columnName,
+        sampleId: sampleIds.get(columnName) ?? null,
+        attachmentId: null,
+      }))
+    );
+
+    for (let start = 0; start < plan.features.length; start += BATCH_SIZE) {
+      await storage.addFeatures(plan.features.slice(start, start + BATCH_SIZE).map(feature => ({ ...feature, tableId: table.id })));
+    }
+    const featureTable = await storage.updateFeatureTable(table.id, { status: "parsed", featureCount: plan.features.length });
+
+    return { project, experiment, featureTable: featureTable ?? table };
+  } catch (error) {
+    // Don't leave a half-built project behind; deleting it removes the
+    // stored file too once its attachment exists
+    await storage.deleteProject(project.id);
+    throw error;
+  }
+}
@@ -0,0 +1,603 @@
+import { storage } from "./storage";
+import {
+  DepositionAssay,
+  DepositionRun,
+  DepositionStudy,
+  assayPolarity,
+  listNames,
+  loadAcceptedAnnotations,
+  slugify,
+  validateCommonFields,
+} from "./deposition";
+import { ZipEntry } from "./zip";
+import { DepositionValidation, MwTabFormat, SampleType } from "@shared/schema";
+
+// Metabolomics Workbench mwTab files, in the tab-separated text format or its
+// JSON equivalent. A file describes one analysis, so a project is exported
+// as one file per assay (experiment) with its most recent feature table as
+// the MS_METABOLITE_DATA; imported files are read into the same document.
+
+export class MwTabError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MwTabError";
+  }
+}
+
+// Sections with plain key/value lines, in file order, and their key prefixes
+const SECTIONS = [
+  ["PROJECT", "PR"],
+  ["STUDY", "ST"],
+  ["SUBJECT", "SU"],
+  ["COLLECTION", "CO"],
+  ["TREATMENT", "TR"],
+  ["SAMPLEPREP", "SP"],
+  ["CHROMATOGRAPHY", "CH"],
+  ["ANALYSIS", "AN"],
+  ["MS", "MS"],
+] as const;
+
+export type MwTabSection = typeof SECTIONS[number][0];
+
+export interface MwTabSubjectSample {
+  subjectId: string;
+  sampleId: string;
+  factors: Record<string, string>;
+  additionalData: Record<string, string>;
+}
+
+export interface MwTabDocument {
+  studyId: string | null;
+  analysisId: string | null;
+  createdOn: string | null;
+  // Keys without their prefix; a key repeated over several lines is joined
+  sections: Partial<Record<MwTabSection, Record<string, string>>>;
+  subjectSampleFactors: MwTabSubjectSample[];
+  units: string;
+  // Sample IDs of the data columns
+  samples: string[];
+  // One row per metabolite with a value per sample; null where not detected
+  data: { metabolite: string; values: (number | null)[] }[];
+  // The METABOLITES block: each metabolite's m/z, retention time and IDs,
+  // keyed by the block's column headers
+  metabolites: Record<string, string>[];
+}
+
+// Name column of the METABOLITES block
+export const METABOLITE_NAME = "metabolite_name";
+
+// Workbench accessions are assigned on submission; these are the
+// placeholders its upload form expects until then
+const PLACEHOLDER_STUDY_ID = "ST000000";
+
+const ION_MODES: Record<string, string> = {
+  positive: "POSITIVE",
+  negative: "NEGATIVE",
+  alternating: "UNSPECIFIED",
+};
+
+// Factor value of samples without a study group
+const SAMPLE_TYPE_GROUPS: Record<SampleType, string> = {
+  study: "-",
+  qc: "QC",
+  blank: "Blank",
+  standard: "Standard",
+};
+
+const KEY_WIDTH = 30;
+const LINE_WIDTH = 80;
+
+const clean = (value: string) => value.replace(/[\t\r\n]+/g, " ").trim();
+
+const formatValue = (value: number | null) => value === null ? "" : String(value);
+
+function parseValue(value: string | number | null | undefined): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const number = Number(trimmed);
+  return Number.isFinite(number) ? number : null;
+}
+
+function wrap(value: string): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of value.split(" ")) {
+    if (line && line.length + word.length + 1 > LINE_WIDTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  return [...lines, line];
+}
+
+// "Group:control | Time:0"
+function formatFactors(factors: Record<string, string>): string {
+  return Object.entries(factors).map(([name, value]) => `${clean(name)}:${clean(value)}`).join(" | ");
+}
+
+function parseFactors(text: string): Record<string, string> {
+  const factors: Record<string, string> = {};
+  for (const pair of text.split("|")) {
+    const separator = pair.indexOf(":");
+    if (separator > 0) factors[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return factors;
+}
+
+// "RAW_FILE_NAME=S001.mzML; Injection=12"
+function parseAdditionalData(text: string): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const pair of text.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) data[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return data;
+}
+
+function asText(value: unknown): string {
+  if (Array.isArray(value)) return value.map(asText).filter(Boolean).join(" ");
+  return value === null || value === undefined || typeof value === "object" ? "" : String(value).trim();
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+export function renderMwTabText(document: MwTabDocument): string {
+  const lines: string[] = [];
+  const line = (key: string, value: string) => lines.push(`${key.padEnd(KEY_WIDTH)}\t${value}`);
+
+  lines.push(`#METABOLOMICS WORKBENCH STUDY_ID:${document.studyId ?? ""} ANALYSIS_ID:${document.analysisId ?? ""}`);
+  line("VERSION", "1");
+  if (document.createdOn) line("CREATED_ON", document.createdOn);
+
+  for (const [name, prefix] of SECTIONS) {
+    lines.push(`#${name}`);
+    for (const [key, value] of Object.entries(document.sections[name] ?? {})) {
+      for (const part of wrap(clean(value))) line(`${prefix}:${key}`, part);
+    }
+    // Sample factors follow the subject
+    if (name === "SUBJECT") {
+      lines.push("#SUBJECT_SAMPLE_FACTORS:         \tSUBJECT(optional)[tab]SAMPLE[tab]FACTORS(NAME:VALUE pairs separated by |)[tab]Additional sample data");
+      for (const sample of document.subjectSampleFactors) {
+        const additional = Object.entries(sample.additionalData).map(([key, value]) => `${clean(key)}=${clean(value)}`).join("; ");
+        line("SUBJECT_SAMPLE_FACTORS", [sample.subjectId, sample.sampleId, formatFactors(sample.factors), additional].map(clean).join("\t"));
+      }
+    }
+  }
+
+  const factorsBySample = new Map(document.subjectSampleFactors.map(sample => [sample.sampleId, sample.factors]));
+  lines.push("#MS_METABOLITE_DATA");
+  lines.push(`MS_METABOLITE_DATA:UNITS\t${clean(document.units)}`);
+  lines.push("MS_METABOLITE_DATA_START");
+  lines.push(["Samples", ...document.samples].map(clean).join("\t"));
+  lines.push(["Factors", ...document.samples.map(sample => formatFactors(factorsBySample.get(sample) ?? {}))].join("\t"));
+  for (const row of document.data) {
+    lines.push([clean(row.metabolite), ...row.values.map(formatValue)].join("\t"));
+  }
+  lines.push("MS_METABOLITE_DATA_END");
+
+  const fields = Array.from(new Set(document.metabolites.flatMap(metabolite => Object.keys(metabolite))));
+  lines.push("#METABOLITES");
+  lines.push("METABOLITES_START");
+  lines.push(fields.map(clean).join("\t"));
+  for (const metabolite of document.metabolites) {
+    lines.push(fields.map(field => clean(metabolite[field] ?? "")).join("\t"));
+  }
+  lines.push("METABOLITES_END");
+  lines.push("#END");
+  return lines.join("\n") + "\n";
+}
+
+// The Workbench's JSON layout: sections as objects, sample factors as an
+// array, and the data as one object per metabolite keyed by sample ID
+export function renderMwTabJson(document: MwTabDocument): string {
+  const json: Record<string, unknown> = {
+    "METABOLOMICS WORKBENCH": {
+      STUDY_ID: document.studyId ?? "",
+      ANALYSIS_ID: document.analysisId ?? "",
+      VERSION: "1",
+      CREATED_ON: document.createdOn ?? "",
+    },
+  };
+  for (const [name] of SECTIONS) {
+    json[name] = document.sections[name] ?? {};
+    if (name === "SUBJECT") {
+      json.SUBJECT_SAMPLE_FACTORS = document.subjectSampleFactors.map(sample => ({
+        "Subject ID": sample.subjectId,
+        "Sample ID": sample.sampleId,
+        "Factors": sample.factors,
+        "Additional sample data": sample.additionalData,
+      }));
+    }
+  }
+  json.MS_METABOLITE_DATA = {
+    Units: document.units,
+    Data: document.data.map(row => ({
+      Metabolite: row.metabolite,
+      ...Object.fromEntries(document.samples.map((sample, index) => [sample, formatValue(row.values[index])])),
+    })),
+    Metabolites: document.metabolites.map(({ [METABOLITE_NAME]: name, ...fields }) => ({ Metabolite: name ?? "", ...fields })),
+  };
+  return JSON.stringify(json, null, 2) + "\n";
+}
+
+function parseMwTabText(contents: string): MwTabDocument {
+  const lines = contents.split(/\r?\n/);
+  if (!lines[0].startsWith("#METABOLOMICS WORKBENCH")) {
+    throw new MwTabError("Not an mwTab file: it must start with #METABOLOMICS WORKBENCH, or be mwTab JSON");
+  }
+
+  const document: MwTabDocument = {
+    studyId: /STUDY_ID:(\S+)/.exec(lines[0])?.[1] ?? null,
+    analysisId: /ANALYSIS_ID:(\S+)/.exec(lines[0])?.[1] ?? null,
+    createdOn: null,
+    sections: {},
+    subjectSampleFactors: [],
+    units: "",
+    samples: [],
+    data: [],
+    metabolites: [],
+  };
+  const sectionsByPrefix = new Map<string, MwTabSection>(SECTIONS.map(([name, prefix]) => [prefix, name]));
+  let block: "data" | "metabolites" | null = null;
+  let metaboliteFields: string[] | null = null;
+
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    const fields = line.split("\t").map(field => field.trim());
+
+    if (block === "data") {
+      if (line.startsWith("MS_METABOLITE_DATA_END")) {
+        block = null;
+      } else if (fields[0].toLowerCase() === "samples") {
+        document.samples = fields.slice(1);
+        while (document.samples.length > 0 && !document.samples[document.samples.length - 1]) document.samples.pop();
+      } else if (fields[0].toLowerCase() !== "factors") {
+        document.data.push({
+          metabolite: fields[0],
+          values: document.samples.map((_, column) => parseValue(fields[column + 1])),
+        });
+      }
+      continue;
+    }
+    if (block === "metabolites") {
+      if (line.startsWith("METABOLITES_END")) {
+        block = null;
+      } else if (!metaboliteFields) {
+        metaboliteFields = fields;
+      } else {
+        document.metabolites.push(Object.fromEntries(metaboliteFields.flatMap((field, column) => field ? [[field, fields[column] ?? ""]] : [])));
+      }
+      continue;
+    }
+    if (line.startsWith("MS_METABOLITE_DATA_START")) {
+      block = "data";
+      continue;
+    }
+    if (line.startsWith("METABOLITES_START")) {
+      block = "metabolites";
+      continue;
+    }
+    // Section headings, including the SUBJECT_SAMPLE_FACTORS column legend
+    if (line.startsWith("#")) continue;
+
+    const key = fields[0];
+    const value = fields.slice(1).join("\t").trim();
+    if (key === "CREATED_ON") {
+      document.createdOn = value;
+    } else if (key === "SUBJECT_SAMPLE_FACTORS") {
+      const [subjectId = "", sampleId = "", factors = "", additionalData = ""] = fields.slice(1);
+      if (sampleId) {
+        document.subjectSampleFactors.push({
+          subjectId,
+          sampleId,
+          factors: parseFactors(factors),
+          additionalData: parseAdditionalData(additionalData),
+        });
+      }
+    } else if (key === "MS_METABOLITE_DATA:UNITS") {
+      document.units = value;
+    } else {
+      const match = /^([A-Z]{2}):(\S+)$/.exec(key);
+      const section = match && sectionsByPrefix.get(match[1]);
+      if (section && value) {
+        const values = document.sections[section] ??= {};
+        values[match[2]] = values[match[2]] ? `${values[match[2]]} ${value}` : value;
+      }
+    }
+  }
+
+  if (block) {
+    throw new MwTabError(`The ${block === "data" ? "MS_METABOLITE_DATA" : "METABOLITES"} block has no end line`);
+  }
+  return document;
+}
+
+function parseMwTabJson(contents: string): MwTabDocument {
+  let json: Record<string, unknown>;
+  try {
+    json = asRecord(JSON.parse(contents));
+  } catch (error) {
+    throw new MwTabError(`Invalid mwTab JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!json["METABOLOMICS WORKBENCH"]) {
+    throw new MwTabError("Not an mwTab JSON file: it has no \"METABOLOMICS WORKBENCH\" header");
+  }
+
+  const header = asRecord(json["METABOLOMICS WORKBENCH"]);
+  const sections: MwTabDocument["sections"] = {};
+  for (const [name] of SECTIONS) {
+    const entries = Object.entries(asRecord(json[name])).map(([key, value]) => [key, asText(value)]);
+    if (entries.length > 0) sections[name] = Object.fromEntries(entries.filter(([, value]) => value));
+  }
+
+  const subjectSampleFactors = (Array.isArray(json.SUBJECT_SAMPLE_FACTORS) ? json.SUBJECT_SAMPLE_FACTORS : [])
+    .map(asRecord)
+    .filter(sample => asText(sample["Sample ID"]))
+    .map(sample => {
+      const factors = sample["Factors"];
+      const additionalData = sample["Additional sample data"];
+      return {
+        subjectId: asText(sample["Subject ID"]),
+        sampleId: asText(sample["Sample ID"]),
+        // Older files write factors and additional data as text
+        factors: typeof factors === "string"
+          ? parseFactors(factors)
+          : Object.fromEntries(Object.entries(asRecord(factors)).map(([name, value]) => [name, asText(value)])),
+        additionalData: typeof additionalData === "string"
+          ? parseAdditionalData(additionalData)
+          : Object.fromEntries(Object.entries(asRecord(additionalData)).map(([key, value]) => [key, asText(value)])),
+      };
+    });
+
+  const metaboliteData = asRecord(json.MS_METABOLITE_DATA);
+  const rows = (Array.isArray(metaboliteData.Data) ? metaboliteData.Data : []).map(asRecord);
+  const samples = Array.from(new Set(rows.flatMap(row => Object.keys(row).filter(key => key !== "Metabolite"))));
+
+  return {
+    studyId: asText(header.STUDY_ID) || null,
+    analysisId: asText(header.ANALYSIS_ID) || null,
+    createdOn: asText(header.CREATED_ON) || null,
+    sections,
+    subjectSampleFactors,
+    units: asText(metaboliteData.Units),
+    samples,
+    data: rows.map(row => ({
+      metabolite: asText(row.Metabolite),
+      values: samples.map(sample => parseValue(row[sample] as string | number | null | undefined)),
+    })),
+    metabolites: (Array.isArray(metaboliteData.Metabolites) ? metaboliteData.Metabolites : [])
+      .map(asRecord)
+      .map(({ Metabolite: name, ...fields }) => ({
+        [METABOLITE_NAME]: asText(name),
+        ...Object.fromEntries(Object.entries(fields).map(([field, value]) => [field, asText(value)])),
+      })),
+  };
+}
+
+// Reads either format; JSON is recognized by its opening brace
+export function parseMwTab(contents: string): MwTabDocument {
+  const trimmed = contents.replace(/^\uFEFF/, "").trimStart();
+  const document = trimmed.startsWith("{") ? parseMwTabJson(trimmed) : parseMwTabText(trimmed);
+  if (document.samples.length === 0 || document.data.length === 0) {
+    throw new MwTabError("The file has no MS_METABOLITE_DATA; only MS studies with metabolite data can be imported");
+  }
+  return document;
+}
+
+// Sample IDs are the sample codes, or the feature table column names where a
+// sample was injected more than once
+function runSampleIds(runs: DepositionRun[]): string[] {
+  const counts = new Map<number, number>();
+  for (const run of runs) counts.set(run.sample.id, (counts.get(run.sample.id) ?? 0) + 1);
+  return runs.map(run => counts.get(run.sample.id)! > 1 ? run.assayName : run.sample.sampleCode);
+}
+
+function runFactors(study: DepositionStudy, run: DepositionRun): Record<string, string> {
+  const { metadata } = study;
+  const { sample } = run;
+  return {
+    ...(metadata.studyGroupFactor ? { [metadata.studyGroupFactor]: sample.studyGroup?.trim() || SAMPLE_TYPE_GROUPS[sample.sampleType] } : {}),
+    ...Object.fromEntries(metadata.factorAttributes.map(attribute => [attribute, sample.attributes[attribute]?.trim() || "-"])),
+  };
+}
+
+// Project, study and instrument sections shared by every assay's file
+function describeAssay(study: DepositionStudy, assay: DepositionAssay): MwTabDocument["sections"] {
+  const { project, metadata } = study;
+  const contact = metadata.contacts[0];
+  const samples = assay.runs.map(run => run.sample);
+  const distinct = (values: (string | null)[]) => Array.from(new Set(values.flatMap(value => value?.trim() || []))).join("; ");
+  const contactFields: Record<string, string> = contact ? {
+    INSTITUTE: contact.affiliation,
+    LAST_NAME: contact.lastName,
+    FIRST_NAME: contact.firstName,
+    ADDRESS: contact.address,
+    EMAIL: contact.email,
+    PHONE: contact.phone,
+  } : {};
+  const studySamples = samples.filter(sample => sample.sampleType === "study");
+  const groups = new Set(assay.runs.filter(run => run.sample.sampleType === "study").map(run => formatFactors(runFactors(study, run))));
+  const polarity = assayPolarity(assay);
+  const nonEmpty = (values: Record<string, string>) => Object.fromEntries(Object.entries(values).filter(([, value]) => value));
+
+  return {
+    PROJECT: nonEmpty({
+      PROJECT_TITLE: project.name,
+      PROJECT_SUMMARY: project.description ?? "",
+      ...contactFields,
+      PUBLICATIONS: metadata.publications
+        .map(publication => [publication.authors, publication.title, publication.doi && `doi:${publication.doi}`].filter(Boolean).join(". "))
+        .join("; "),
+    }),
+    STUDY: nonEmpty({
+      STUDY_TITLE: project.name,
+      STUDY_SUMMARY: project.description ?? "",
+      ...contactFields,
+      NUM_GROUPS: groups.size > 0 ? String(groups.size) : "",
+      TOTAL_SUBJECTS: String(new Set(studySamples.map(sample => sample.id)).size),
+    }),
+    SUBJECT: nonEmpty({
+      SUBJECT_TYPE: metadata.subjectType,
+      SUBJECT_SPECIES: distinct(samples.map(sample => sample.organism)),
+    }),
+    COLLECTION: nonEmpty({
+      COLLECTION_SUMMARY: metadata.protocols.sampleCollection,
+      SAMPLE_TYPE: distinct(samples.map(sample => sample.matrix)),
+    }),
+    TREATMENT: nonEmpty({ TREATMENT_SUMMARY: metadata.treatment }),
+    SAMPLEPREP: nonEmpty({ SAMPLEPREP_SUMMARY: metadata.protocols.extraction }),
+    CHROMATOGRAPHY: nonEmpty({
+      CHROMATOGRAPHY_SUMMARY: metadata.protocols.chromatography,
+      CHROMATOGRAPHY_TYPE: metadata.columnType,
+      INSTRUMENT_NAME: metadata.chromatographyInstrument,
+      COLUMN_NAME: metadata.columnModel,
+    }),
+    ANALYSIS: { ANALYSIS_TYPE: "MS" },
+    MS: nonEmpty({
+      INSTRUMENT_NAME: metadata.msInstrument,
+      INSTRUMENT_TYPE: metadata.massAnalyzer,
+      MS_TYPE: metadata.ionSource,
+      ION_MODE: polarity ? ION_MODES[polarity] : "",
+      MS_COMMENTS: [metadata.protocols.massSpectrometry, metadata.protocols.dataTransformation].filter(Boolean).join(" "),
+    }),
+  };
+}
+
+// Features are named after their accepted compounds, else their own name,
+// else their m/z and retention time; the METABOLITES block carries the rest
+async function buildMetaboliteData(assay: DepositionAssay): Promise<Pick<MwTabDocument, "data" | "metabolites">> {
+  const table = assay.table!;
+  const features = await storage.listFeaturesWithIntensities(table.id);
+  const acceptedByFeature = await loadAcceptedAnnotations(table.id);
+  const used = new Set<string>();
+  const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) candidate = `${name}_${n}`;
+    used.add(candidate);
+    return candidate;
+  };
+
+  const data: MwTabDocument["data"] = [];
+  const metabolites: MwTabDocument["metabolites"] = [];
+  for (const feature of features) {
+    const compounds = (acceptedByFeature.get(feature.id) ?? []).map(({ compound }) => compound);
+    const annotations = (acceptedByFeature.get(feature.id) ?? []).map(({ annotation }) => annotation);
+    const join = (values: (string | null)[]) => values.filter(Boolean).join("; ");
+    const name = uniqueName(
+      join(compounds.map(compound => compound.name)) ||
+      feature.name?.trim() ||
+      `${feature.mz.toFixed(4)}_${feature.rt !== null ? feature.rt.toFixed(2) : "NA"}`
+    );
+
+    data.push({ metabolite: name, values: assay.runs.map(run => feature.intensities[run.position!] ?? null) });
+    metabolites.push({
+      [METABOLITE_NAME]: name,
+      moverz: String(feature.mz),
+      retention_time: feature.rt !== null ? String(feature.rt) : "",
+      adduct: join(annotations.map(annotation => annotation.adduct)) || feature.adduct || "",
+      formula: join(compounds.map(compound => compound.formula)),
+      inchi_key: join(compounds.map(compound => compound.inchiKey)),
+      pubchem_id: join(compounds.map(compound => compound.pubchemCid)),
+      hmdb_id: join(compounds.map(compound => compound.hmdbId)),
+      kegg_id: join(compounds.map(compound => compound.keggId)),
+      msi_level: annotations.length > 0 ? String(Math.min(...annotations.map(annotation => annotation.msiLevel))) : "4",
+      feature_id: feature.featureKey,
+    });
+  }
+  return { data, metabolites };
+}
+
+async function buildMwTab(study: DepositionStudy, assay: DepositionAssay, analysisId: string): Promise<MwTabDocument> {
+  const sampleIds = runSampleIds(assay.runs);
+  return {
+    studyId: PLACEHOLDER_STUDY_ID,
+    analysisId,
+    createdOn: new Date().toISOString().slice(0, 10),
+    sections: describeAssay(study, assay),
+    subjectSampleFactors: assay.runs.map((run, index) => ({
+      subjectId: "-",
+      sampleId: sampleIds[index],
+      factors: runFactors(study, run),
+      additionalData: Object.fromEntries(run.rawFileName ? [["RAW_FILE_NAME", run.rawFileName]] : []),
+    })),
+    units: study.metadata.intensityUnits,
+    samples: sampleIds,
+    ...await buildMetaboliteData(assay),
+  };
+}
+
+// One file per assay with a feature table; assays without one have no
+// metabolite data to submit
+function mwTabFiles(study: DepositionStudy, format: MwTabFormat) {
+  const projectId = slugify(study.project.name) || `project_${study.project.id}`;
+  return study.assays
+    .filter(assay => assay.table && assay.runs.length > 0)
+    .map((assay, index) => ({
+      assay,
+      analysisId: `AN${String(index + 1).padStart(6, "0")}`,
+      fileName: `${projectId}_${slugify(assay.experiment.name) || `experiment_${index + 1}`}_mwtab.${format === "json" ? "json" : "txt"}`,
+    }));
+}
+
+// Mandatory Workbench fields that are missing, and the files that would be
+// exported
+export function validateMwTab(study: DepositionStudy, format: MwTabFormat): DepositionValidation {
+  const { metadata, samples, assays } = study;
+  const issues = validateCommonFields(study);
+  const error = (location: string, message: string) => issues.push({ severity: "error", location, message });
+  const warning = (location: string, message: string) => issues.push({ severity: "warning", location, message });
+
+  const contact = metadata.contacts[0];
+  if (contact && !contact.address) error("Contact 1", "Address is required; the first contact is the study's contact");
+  if (contact && !contact.phone) error("Contact 1", "Phone is required; the first contact is the study's contact");
+  if (!metadata.subjectType) error("Subject", "Subject type is required, e.g. Human, Animal or Cultured cells");
+  if (!metadata.protocols.sampleCollection) error("Collection", "Sample collection protocol has no description");
+  if (!metadata.treatment) error("Treatment", "Treatment summary is required; describe the absence of treatment if none");
+  if (!metadata.protocols.extraction) error("Sample preparation", "Extraction protocol has no description");
+  if (!metadata.protocols.chromatography) warning("Chromatography", "Chromatography protocol has no description");
+  if (!metadata.columnType) error("Chromatography", "Column type is required, e.g. Reversed phase or HILIC");
+  if (!metadata.chromatographyInstrument) error("Chromatography", "Chromatography instrument is required");
+  if (!metadata.columnModel) error("Chromatography", "Column model is required");
+  if (!metadata.msInstrument) error("Mass spectrometry", "Instrument is required");
+  if (!metadata.massAnalyzer) error("Mass spectrometry", "Mass analyzer (instrument type) is required");
+  if (!metadata.ionSource) error("Mass spectrometry", "Ion source (MS type) is required, e.g. ESI");
+  if (!metadata.intensityUnits) error("Metabolite data", "Units of the intensities are required, e.g. Peak area");
+
+  if (!metadata.studyGroupFactor && metadata.factorAttributes.length === 0) {
+    error("Sample factors", "Report the study groups or a sample attribute as a factor");
+  }
+  const studySamples = samples.filter(sample => sample.sampleType === "study");
+  if (metadata.studyGroupFactor) {
+    const ungrouped = studySamples.filter(sample => !sample.studyGroup?.trim()).map(sample => sample.sampleCode);
+    if (ungrouped.length > 0) {
+      warning("Sample factors", `${ungrouped.length} study samples have no study group: ${listNames(ungrouped)}`);
+    }
+  }
+
+  for (const assay of assays) {
+    const location = `Experiment ${assay.experiment.name}`;
+    if (!assay.table) {
+      error(location, "No parsed feature table, so no metabolite data; it is left out");
+      continue;
+    }
+    if (!assayPolarity(assay)) {
+      error(location, "No ion mode; set a default polarity or attach the runs' mzML files");
+    }
+  }
+
+  return { files: mwTabFiles(study, format).map(({ fileName }) => fileName), issues };
+}
+
+export async function renderMwTab(study: DepositionStudy, format: MwTabFormat): Promise<ZipEntry[]> {
+  const files: ZipEntry[] = [];
+  for (const { assay, analysisId, fileName } of mwTabFiles(study, format)) {
+    const document = await buildMwTab(study, assay, analysisId);
+    files.push({ name: fileName, data: format === "json" ? renderMwTabJson(document) : renderMwTabText(document) });
+  }
+  return files;
+}
@@ -0,0 +1,114 @@
+import { storage } from "./storage";
+import { toPublicUser } from "./auth";
+import { getSignatureManifest } from "./signatures";
+import { escapeHtml, sanitizeHtml } from "./html-diff";
+import {
+  Note,
+  Experiment,
+  Project,
+  PublicUser,
+  Attachment,
+  NoteSignatureWithStatus,
+} from "@shared/schema";
+
+// Everything needed to reproduce a notebook entry outside the application
+export interface NoteExport {
+  exportedAt: Date;
+  note: Note;
+  experiment: Experiment | null;
+  project: Project | null;
+  author: PublicUser | null;
+  attachments: Attachment[];
+  signatures: NoteSignatureWithStatus[];
+  amends: Pick<Note, "id" | "title"> | null;
+  amendments: Pick<Note, "id" | "title" | "createdAt">[];
+}
+
+export async function buildNoteExport(note: Note): Promise<NoteExport> {
+  const experiment = await storage.getExperiment(note.experimentId);
+  const project = experiment ? await storage.getProject(experiment.projectId) : undefined;
+  const author = await storage.getUser(note.authorId);
+  const attachments = await storage.listAttachmentsByNote(note.id);
+  const original = note.amendsNoteId ? await storage.getNote(note.amendsNoteId) : undefined;
+  const siblings = await storage.listNotesByExperiment(note.experimentId);
+
+  return {
+    exportedAt: new Date(),
+    note,
+    experiment: experiment ?? null,
+    project: project ?? null,
+    author: author ? toPublicUser(author) : null,
+    attachments,
+    signatures: await getSignatureManifest(note),
+    amends: original ? { id: original.id, title: original.title } : null,
+    amendments: siblings
+      .filter(sibling => sibling.amendsNoteId === note.id)
+      .map(({ id, title, createdAt }) => ({ id, title, createdAt })),
+  };
+}
+
+const formatTimestamp = (date: Date | string) => new Date(date).toISOString().replace("T", " ").slice(0, 19) + " UTC";
+
+// Standalone, printable HTML document with the signature manifest at the end
+export function renderNoteExportHtml(data: NoteExport): string {
+  const { note, experiment, project, author } = data;
+
+  const attachmentRows = data.attachments
+    .map(attachment => `<li>${escapeHtml(attachment.fileName)} (${attachment.fileSize} bytes, ${escapeHtml(attachment.fileType)})${attachment.sha256 ? `<br><code>SHA-256 ${attachment.sha256}</code>` : ""}</li>`)
+    .join("");
+
+  const signatureRows = data.signatures
+    .map(signature => `
+      <tr>
+        <td>${escapeHtml(signature.signerName)}</td>
+        <td>${escapeHtml(signature.meaning)}</td>
+        <td>${formatTimestamp(signature.signedAt)}</td>
+        <td>${signature.revision ?? "—"}</td>
+        <td><code>${signature.contentHash}</code>${signature.contentMatches ? "" : " <strong>(does not match current content)</strong>"}</td>
+      </tr>`)
+    .join("");
+
+  const amendmentItems = data.amendments
+    .map(amendment => `<li>#${amendment.id} ${escapeHtml(amendment.title)} (${formatTimestamp(amendment.createdAt)})</li>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(note.title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 14px; max-width: 800px; margin: 2rem auto; color: #1f2937; }
+  .meta { color: #6b7280; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  code { word-break: break-all; }
+  section { margin-top: 2rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(note.title)}</h1>
+<p class="meta">
+  Note #${note.id}
+  ${project ? ` &middot; Project: ${escapeHtml(project.name)}` : ""}
+  ${experiment ? ` &middot; Experiment: ${escapeHtml(experiment.name)}` : ""}
+  &middot; Author: ${escapeHtml(author?.displayName ?? `User #${note.authorId}`)}
+  <br>Created ${formatTimestamp(note.createdAt)} &middot; Last updated ${formatTimestamp(note.updatedAt)}
+  <br>Status: ${escapeHtml(note.status)}
+  ${note.lockedAt ? `<br>Locked ${formatTimestamp(note.lockedAt)}` : ""}
+  ${data.amends ? `<br>Amends note #${data.amends.id} ${escapeHtml(data.amends.title)}` : ""}
+</p>
+<article>${sanitizeHtml(note.content ?? "")}</article>
+${attachmentRows ? `<section><h2>Attachments</h2><ul>${attachmentRows}</ul></section>` : ""}
+${amendmentItems ? `<section><h2>Amendments</h2><ul>${amendmentItems}</ul></section>` : ""}
+<section>
+<h2>Signature manifest</h2>
+${signatureRows
+  ? `<table><thead><tr><th>Signed by</th><th>Meaning</th><th>Signed at</th><th>Revision</th><th>SHA-256 of signed content</th></tr></thead><tbody>${signatureRows}</tbody></table>`
+  : "<p>This note has not been signed.</p>"}
+</section>
+<p class="meta">Exported ${formatTimestamp(data.exportedAt)}</p>
+</body>
+</html>
+`;
+}
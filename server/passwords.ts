@@ -0,0 +1,79 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number; maxmem: number }
+) => Promise<Buffer>;
+
+// scrypt cost parameters (OWASP recommended minimum for interactive logins)
+const SCRYPT_N = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Hashes are stored as "scrypt$N$r$p$salt$hash" so the parameters travel
+// with the hash and can be raised later without invalidating old ones.
+const HASH_PREFIX = "scrypt";
+
+function maxmemFor(N: number, r: number) {
+  return 128 * N * r * 2;
+}
+
+export function isPasswordHash(value: string): boolean {
+  return value.startsWith(`${HASH_PREFIX}$`) && value.split("$").length === 6;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    maxmem: maxmemFor(SCRYPT_N, SCRYPT_R),
+  });
+
+  return [
+    HASH_PREFIX,
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString("base64"),
+    derivedKey.toString("base64"),
+  ].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    // Rows created before hashing was introduced still hold the plain text
+    const supplied = Buffer.from(password);
+    const expected = Buffer.from(stored);
+    return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split("$");
+  const N = parseInt(n);
+  const R = parseInt(r);
+  const expected = Buffer.from(hashB64, "base64");
+
+  const derivedKey = await scryptAsync(password, Buffer.from(saltB64, "base64"), expected.length, {
+    N,
+    r: R,
+    p: parseInt(p),
+    maxmem: maxmemFor(N, R),
+  });
+
+  return timingSafeEqual(derivedKey, expected);
+}
+
+// True when the stored value should be replaced with a fresh hash after a
+// successful login (plain text legacy rows, or weaker parameters).
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+
+  const [, n, r, p] = stored.split("$");
+  return parseInt(n) < SCRYPT_N || parseInt(r) < SCRYPT_R || parseInt(p) < SCRYPT_P;
+}
@@ -0,0 +1,146 @@
+import {
+  Feature,
+  FeatureTableWithColumns,
+  PcaQuery,
+  PcaResult,
+  PcaScore,
+  Sample,
+  SampleType,
+} from "@shared/schema";
+import { AnalysisError, preprocessFeatures } from "./statistics";
+
+// NIPALS stops once the scores change by less than this share of their
+// sum of squares between iterations
+const CONVERGENCE = 1e-12;
+const MAX_ITERATIONS = 500;
+
+export type PcaColumn = Omit<PcaScore, "values">;
+
+// Columns mapped to samples of the requested types, in injection order.
+// Columns are ordered by their recorded injection order, or by position when
+// the file did not record one.
+export function pcaColumns(table: FeatureTableWithColumns, samples: Sample[], sampleTypes: SampleType[]): PcaColumn[] {
+  const samplesById = new Map(samples.map(sample => [sample.id, sample]));
+  const hasInjectionOrder = table.columns.every(column => column.injectionOrder !== null);
+
+  const columns: PcaColumn[] = [];
+  for (const column of table.columns) {
+    const sample = column.sampleId !== null ? samplesById.get(column.sampleId) : undefined;
+    if (!sample || !sampleTypes.includes(sample.sampleType)) continue;
+    columns.push({
+      position: column.position,
+      columnName: column.columnName,
+      sampleId: sample.id,
+      sampleCode: sample.sampleCode,
+      sampleType: sample.sampleType,
+      studyGroup: sample.studyGroup,
+      injectionOrder: hasInjectionOrder ? column.injectionOrder! : column.position + 1,
+    });
+  }
+
+  if (columns.length < 3) {
+    throw new AnalysisError(`PCA needs at least 3 sample columns of the selected types; this table has ${columns.length}`);
+  }
+  return columns.sort((a, b) => a.injectionOrder - b.injectionOrder);
+}
+
+// Principal components by NIPALS on the preprocessed, mean-centred matrix
+// (samples × features). Each component's sign is fixed so that its largest
+// loading is positive, which keeps plots of the same data identical.
+export function principalComponents(features: Feature[], columns: PcaColumn[], settings: PcaQuery): PcaResult {
+  const { features: kept, transformed } = preprocessFeatures(features, columns.map(column => column.position), settings);
+  const used: Feature[] = [];
+  const rows: number[][] = [];
+  kept.forEach((feature, index) => {
+    const row = transformed[index];
+    if (row.some(value => value === null)) return;
+    used.push(feature);
+    rows.push(row as number[]);
+  });
+
+  if (used.length < 2) {
+    throw new AnalysisError("Fewer than 2 features are left after missing-value filtering");
+  }
+
+  // Samples as rows, each feature centred on its mean
+  const sampleCount = columns.length;
+  const data = Array.from({ length: sampleCount }, () => new Float64Array(used.length));
+  rows.forEach((row, feature) => {
+    const average = row.reduce((sum, value) => sum + value, 0) / sampleCount;
+    row.forEach((value, sample) => data[sample][feature] = value - average);
+  });
+
+  let totalVariance = 0;
+  for (const sample of data) totalVariance += sample.reduce((sum, value) => sum + value * value, 0);
+  if (totalVariance === 0) {
+    throw new AnalysisError("The selected samples do not vary");
+  }
+
+  const componentCount = Math.min(settings.components, sampleCount - 1, used.length);
+  const scores: number[][] = [];
+  const loadings: number[][] = [];
+  const explainedVariance: number[] = [];
+
+  for (let component = 0; component < componentCount; component++) {
+    // Start from the feature with the largest remaining variance
+    let start = 0;
+    let largest = -1;
+    for (let feature = 0; feature < used.length; feature++) {
+      let sum = 0;
+      for (const sample of data) sum += sample[feature] ** 2;
+      if (sum > largest) {
+        largest = sum;
+        start = feature;
+      }
+    }
+    let t = data.map(sample => sample[start]);
+    const p = new Float64Array(used.length);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      p.fill(0);
+      data.forEach((sample, index) => {
+        for (let feature = 0; feature < used.length; feature++) p[feature] += sample[feature] * t[index];
+      });
+      const norm = Math.sqrt(p.reduce((sum, value) => sum + value * value, 0));
+      if (norm === 0) break;
+      for (let feature = 0; feature < used.length; feature++) p[feature] /= norm;
+
+      const next = data.map(sample => sample.reduce((sum, value, feature) => sum + value * p[feature], 0));
+      const change = next.reduce((sum, value, index) => sum + (value - t[index]) ** 2, 0);
+      const size = next.reduce((sum, value) => sum + value * value, 0);
+      t = next;
+      if (change <= CONVERGENCE * size) break;
+    }
+
+    let peak = 0;
+    for (let feature = 1; feature < used.length; feature++) {
+      if (Math.abs(p[feature]) > Math.abs(p[peak])) peak = feature;
+    }
+    if (p[peak] < 0) {
+      for (let feature = 0; feature < used.length; feature++) p[feature] = -p[feature];
+      t = t.map(value => -value);
+    }
+
+    data.forEach((sample, index) => {
+      for (let feature = 0; feature < used.length; feature++) sample[feature] -= t[index] * p[feature];
+    });
+    scores.push(t);
+    loadings.push(Array.from(p));
+    explainedVariance.push(t.reduce((sum, value) => sum + value * value, 0) / totalVariance);
+  }
+
+  return {
+    explainedVariance,
+    featureCount: used.length,
+    excludedFeatureCount: features.length - used.length,
+    scores: columns.map((column, sample) => ({ ...column, values: scores.map(component => component[sample]) })),
+    loadings: used.map((feature, index) => ({
+      featureId: feature.id,
+      featureKey: feature.featureKey,
+      mz: feature.mz,
+      rt: feature.rt,
+      name: feature.name,
+      values: loadings.map(component => component[index]),
+    })),
+  };
+}
@@ -0,0 +1,118 @@
+import { storage } from "./storage";
+import { ADMIN_ROLES, ProjectRole, Project, Experiment, Note, Attachment, PublicUser } from "@shared/schema";
+
+// Higher rank includes every permission of the lower ones
+const ROLE_RANK: Record<ProjectRole, number> = {
+  Viewer: 1,
+  Editor: 2,
+  Owner: 3,
+};
+
+// Thrown when the caller lacks the role an operation needs; the API error
+// handler turns it into a 403 response.
+export class PermissionError extends Error {
+  constructor(message = "You do not have permission to perform this action") {
+    super(message);
+    this.name = "PermissionError";
+  }
+}
+
+export function isAdmin(user: Pick<PublicUser, "role">): boolean {
+  return ADMIN_ROLES.includes(user.role);
+}
+
+export function requireAdmin(user: Pick<PublicUser, "role">) {
+  if (!isAdmin(user)) {
+    throw new PermissionError("This action requires the Principal Investigator or Lab Manager role");
+  }
+}
+
+export function hasRole(role: ProjectRole | null, required: ProjectRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Resolves the caller's effective role on a project: the owner is always
+// "Owner", collaborators get their stored role, everyone else gets nothing.
+export async function getProjectRole(userId: number, project: Project | number): Promise<ProjectRole | null> {
+  const resolved = typeof project === "number" ? await storage.getProject(project) : project;
+  if (!resolved) return null;
+
+  if (resolved.ownerId === userId) return "Owner";
+
+  const collaborator = await storage.getCollaborator(resolved.id, userId);
+  if (!collaborator || !(collaborator.role in ROLE_RANK)) return null;
+
+  return collaborator.role as ProjectRole;
+}
+
+export async function requireProjectRole(
+  userId: number,
+  project: Project | number,
+  required: ProjectRole
+): Promise<ProjectRole> {
+  const role = await getProjectRole(userId, project);
+  if (!hasRole(role, required)) {
+    throw new PermissionError(
+      role ? `This action requires the ${required} role on the project` : "You do not have access to this project"
+    );
+  }
+  return role!;
+}
+
+// Walk up from a child entity to the project it belongs to
+export async function getProjectIdForExperiment(experiment: Experiment | number): Promise<number | undefined> {
+  const resolved = typeof experiment === "number" ? await storage.getExperiment(experiment) : experiment;
+  return resolved?.projectId;
+}
+
+export async function getProjectIdForNote(note: Note | number): Promise<number | undefined> {
+  const resolved = typeof note === "number" ? await storage.getNote(note) : note;
+  if (!resolved) return undefined;
+  return getProjectIdForExperiment(resolved.experimentId);
+}
+
+export async function getProjectIdForAttachment(attachment: Attachment | number): Promise<number | undefined> {
+  const resolved = typeof attachment === "number" ? await storage.getAttachment(attachment) : attachment;
+  if (!resolved) return undefined;
+  return getProjectIdForNote(resolved.noteId);
+}
+
+export async function requireExperimentRole(userId: number, experiment: Experiment | number, required: ProjectRole) {
+  const projectId = await getProjectIdForExperiment(experiment);
+  if (projectId === undefined) throw new PermissionError("You do not have access to this experiment");
+  return requireProjectRole(userId, projectId, required);
+}
+
+export async function requireNoteRole(userId: number, note: Note | number, required: ProjectRole) {
+  const projectId = await getProjectIdForNote(note);
+  if (projectId === undefined) throw new PermissionError("You do not have access to this note");
+  return requireProjectRole(userId, projectId, required);
+}
+
+export async function requireAttachmentRole(userId: number, attachment: Attachment | number, required: ProjectRole) {
+  const projectId = await getProjectIdForAttachment(attachment);
+  if (projectId === undefined) throw new PermissionError("You do not have access to this attachment");
+  return requireProjectRole(userId, projectId, required);
+}
+
+// Projects the user can at least view, used to filter list and search results
+export async function getAccessibleProjectIds(userId: number): Promise<Set<number>> {
+  const projects = await storage.listProjectsByUser(userId);
+  return new Set(projects.map(project => project.id));
+}
+
+export async function filterExperimentsByAccess(userId: number, experiments: Experiment[]): Promise<Experiment[]> {
+  const projectIds = await getAccessibleProjectIds(userId);
+  return experiments.filter(experiment => projectIds.has(experiment.projectId));
+}
+
+export async function filterNotesByAccess(userId: number, notes: Note[]): Promise<Note[]> {
+  const projectIds = await getAccessibleProjectIds(userId);
+  const experiments = await storage.listExperiments();
+  const visibleExperimentIds = new Set(
+    experiments
+      .filter(experiment => projectIds.has(experiment.projectId))
+      .map(experiment => experiment.id)
+  );
+  return notes.filter(note => visibleExperimentIds.has(note.experimentId));
+}
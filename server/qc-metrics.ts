@@ -0,0 +1,228 @@
+import {
+  Feature,
+  FeatureTableWithColumns,
+  QcHistogramBin,
+  QcInjection,
+  QcInternalStandard,
+  QcReport,
+  QcStatus,
+  QcSummary,
+  Sample,
+  SampleType,
+} from "@shared/schema";
+
+// QC RSD limits commonly used for untargeted LC-MS (e.g. Broadhurst et al.
+// 2018): features under 30% are usable, under 20% are good
+const RSD_GOOD = 20;
+const RSD_USABLE = 30;
+// A feature needs this many QC detections for its RSD to mean anything
+const MIN_QC_DETECTIONS = 3;
+// A feature whose mean blank signal exceeds this share of its mean QC signal
+// is likely background or carry-over
+const BLANK_RATIO_LIMIT = 0.2;
+
+// Pass/warn/fail limits for each metric
+const LIMITS = {
+  // Fraction of features with QC RSD under 30%
+  fractionRsdBelow30: { pass: 0.7, warn: 0.5 },
+  // Largest absolute internal standard drift over the run, in %
+  internalStandardDrift: { pass: 20, warn: 40 },
+  // Fraction of features above BLANK_RATIO_LIMIT
+  fractionBlankContaminated: { pass: 0.1, warn: 0.3 },
+};
+
+// Names of isotope-labelled or explicitly marked internal standards
+const INTERNAL_STANDARD_PATTERN = /\b(is|istd)\b|internal standard|[-_(\s]d\d+\b|\bd\d+[-_]|13c|15n/i;
+
+const STATUS_RANK: Record<QcStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Relative standard deviation in %, using the sample standard deviation
+export function relativeStandardDeviation(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const average = mean(values);
+  if (average === 0) return null;
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance) / average * 100;
+}
+
+// Change across the run predicted by a least-squares line through
+// (order, intensity), as a percentage of the mean intensity
+export function linearDrift(points: { order: number; value: number }[]): number | null {
+  if (points.length < 3) return null;
+  const orderMean = mean(points.map(point => point.order));
+  const valueMean = mean(points.map(point => point.value));
+  const spread = points.reduce((sum, point) => sum + (point.order - orderMean) ** 2, 0);
+  if (spread === 0 || valueMean === 0) return null;
+  const slope = points.reduce((sum, point) => sum + (point.order - orderMean) * (point.value - valueMean), 0) / spread;
+  const orders = points.map(point => point.order);
+  return slope * (Math.max(...orders) - Math.min(...orders)) / valueMean * 100;
+}
+
+function histogram(values: number[], edges: number[], format: (edge: number) => string): QcHistogramBin[] {
+  const bins = edges.slice(1).map((edge, index) => ({ bin: `${format(edges[index])}–${format(edge)}`, count: 0 }));
+  bins.push({ bin: `>${format(edges[edges.length - 1])}`, count: 0 });
+  for (const value of values) {
+    const index = edges.findIndex((edge, i) => i > 0 && value < edge);
+    bins[index === -1 ? bins.length - 1 : index - 1].count++;
+  }
+  return bins;
+}
+
+const rate = (count: number, total: number) => total === 0 ? null : count / total;
+
+export function detectInternalStandards(features: Feature[]): number[] {
+  return features.filter(feature => feature.name && INTERNAL_STANDARD_PATTERN.test(feature.name)).map(feature => feature.id);
+}
+
+// Computes QC metrics of a feature table from the columns mapped to QC and
+// blank samples. Columns are ordered by their recorded injection order, or
+// by position when the file did not record one.
+export function computeQcReport(
+  table: FeatureTableWithColumns,
+  features: Feature[],
+  samples: Sample[],
+  internalStandardIds: number[]
+): QcReport {
+  const sampleTypes = new Map<number, SampleType>(samples.map(sample => [sample.id, sample.sampleType]));
+  const hasInjectionOrder = table.columns.every(column => column.injectionOrder !== null);
+  const columns = table.columns
+    .map(column => ({
+      ...column,
+      order: hasInjectionOrder ? column.injectionOrder! : column.position + 1,
+      sampleType: column.sampleId !== null ? sampleTypes.get(column.sampleId) ?? null : null,
+    }))
+    .sort((a, b) => a.order - b.order);
+
+  const qcColumns = columns.filter(column => column.sampleType === "qc");
+  const blankColumns = columns.filter(column => column.sampleType === "blank");
+  const injectionColumns = columns.filter(column => column.sampleType !== "blank");
+
+  const detected = (feature: Feature, position: number) => {
+    const value = feature.intensities[position];
+    return value !== null && value !== undefined && value > 0 ? value : null;
+  };
+
+  const rsds: number[] = [];
+  const blankRatios: number[] = [];
+  for (const feature of features) {
+    const qcValues = qcColumns.flatMap(column => detected(feature, column.position) ?? []);
+    if (qcValues.length >= MIN_QC_DETECTIONS) {
+      const rsd = relativeStandardDeviation(qcValues);
+      if (rsd !== null) rsds.push(rsd);
+    }
+    if (blankColumns.length > 0 && qcValues.length > 0) {
+      // Blanks without a detection count as zero signal
+      const blankMean = mean(blankColumns.map(column => detected(feature, column.position) ?? 0));
+      blankRatios.push(blankMean / mean(qcValues));
+    }
+  }
+
+  const featuresById = new Map(features.map(feature => [feature.id, feature]));
+  const internalStandards: QcInternalStandard[] = internalStandardIds.flatMap(featureId => {
+    const feature = featuresById.get(featureId);
+    if (!feature) return [];
+    const points = injectionColumns.flatMap(column => {
+      const intensity = detected(feature, column.position);
+      return intensity === null ? [] : [{ injectionOrder: column.order, sampleType: column.sampleType, intensity }];
+    });
+    return [{
+      featureId,
+      featureKey: feature.featureKey,
+      name: feature.name,
+      mz: feature.mz,
+      rt: feature.rt,
+      rsd: relativeStandardDeviation(points.map(point => point.intensity)),
+      drift: linearDrift(points.map(point => ({ order: point.injectionOrder, value: point.intensity }))),
+      points,
+    }];
+  });
+
+  const injections: QcInjection[] = columns.map(column => ({
+    injectionOrder: column.order,
+    columnName: column.columnName,
+    sampleType: column.sampleType,
+    totalIntensity: features.reduce((sum, feature) => sum + (detected(feature, column.position) ?? 0), 0),
+  }));
+
+  const drifts = internalStandards.flatMap(standard => standard.drift === null ? [] : [Math.abs(standard.drift)]);
+  const summary: QcSummary = {
+    featureTableId: table.id,
+    featureTableName: table.name,
+    computedAt: new Date().toISOString(),
+    status: "pass",
+    reasons: [],
+    qcInjections: qcColumns.length,
+    blankInjections: blankColumns.length,
+    featureCount: features.length,
+    rsdFeatureCount: rsds.length,
+    medianRsd: median(rsds),
+    fractionRsdBelow20: rate(rsds.filter(rsd => rsd < RSD_GOOD).length, rsds.length),
+    fractionRsdBelow30: rate(rsds.filter(rsd => rsd < RSD_USABLE).length, rsds.length),
+    internalStandardIds: internalStandards.map(standard => standard.featureId),
+    maxInternalStandardDrift: drifts.length > 0 ? Math.max(...drifts) : null,
+    medianBlankRatio: median(blankRatios),
+    fractionBlankContaminated: rate(blankRatios.filter(ratio => ratio > BLANK_RATIO_LIMIT).length, blankRatios.length),
+  };
+  assessQcSummary(summary);
+
+  return {
+    summary,
+    rsdHistogram: histogram(rsds, [0, 5, 10, 15, 20, 25, 30, 40, 50], edge => `${edge}%`),
+    blankRatioHistogram: histogram(blankRatios, [0, 0.05, 0.1, 0.2, 0.5, 1], edge => String(edge)),
+    injections,
+    internalStandards,
+  };
+}
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// Sets the summary's status to the worst of its metrics, with the reasons
+function assessQcSummary(summary: QcSummary) {
+  const downgrade = (status: QcStatus, reason: string) => {
+    if (STATUS_RANK[status] > STATUS_RANK[summary.status]) summary.status = status;
+    summary.reasons.push(reason);
+  };
+  const grade = (value: number, limits: { pass: number; warn: number }, higherIsBetter: boolean): QcStatus => {
+    if (higherIsBetter ? value >= limits.pass : value <= limits.pass) return "pass";
+    if (higherIsBetter ? value >= limits.warn : value <= limits.warn) return "warn";
+    return "fail";
+  };
+
+  if (summary.qcInjections < MIN_QC_DETECTIONS) {
+    downgrade("warn", `Only ${summary.qcInjections} QC injections; at least ${MIN_QC_DETECTIONS} are needed for RSDs`);
+  } else if (summary.fractionRsdBelow30 === null) {
+    downgrade("fail", "No feature was detected in enough QC injections");
+  } else {
+    const status = grade(summary.fractionRsdBelow30, LIMITS.fractionRsdBelow30, true);
+    if (status !== "pass") {
+      downgrade(status, `${percent(summary.fractionRsdBelow30)} of features have a QC RSD under ${RSD_USABLE}%`);
+    }
+  }
+
+  if (summary.maxInternalStandardDrift !== null) {
+    const status = grade(summary.maxInternalStandardDrift, LIMITS.internalStandardDrift, false);
+    if (status !== "pass") {
+      downgrade(status, `Internal standards drift by up to ${Math.round(summary.maxInternalStandardDrift)}% over the run`);
+    }
+  }
+
+  if (summary.fractionBlankContaminated !== null) {
+    const status = grade(summary.fractionBlankContaminated, LIMITS.fractionBlankContaminated, false);
+    if (status !== "pass") {
+      downgrade(
+        status,
+        `${percent(summary.fractionBlankContaminated)} of features have a blank signal above ` +
+        `${percent(BLANK_RATIO_LIMIT)} of the QC signal`
+      );
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+interface RequestContext {
+  // The authenticated user performing the current operation, null for system work
+  actorId: number | null;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Runs fn with the given actor available to the storage layer, so audit
+// records can be attributed without threading an actor through every
+// storage call. Route handlers are wrapped in this by apiErrorHandler;
+// scripts, background jobs and tests can call it directly.
+export function runAsActor<T>(actorId: number | null, fn: () => T): T {
+  return requestContext.run({ actorId }, fn);
+}
+
+export function getActorId(): number | null {
+  return requestContext.getStore()?.actorId ?? null;
+}
@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { createHash, randomUUID } from "crypto";
+import { CreateUpload, UploadSession } from "@shared/schema";
+import { blobStore } from "./blob-store";
+
+// Chunks are appended to <id>.part next to an <id>.json session file, so an
+// upload survives dropped connections and server restarts. Completed files
+// are copied to the blob store and the temporary files removed.
+const UPLOAD_TEMP_PATH = path.resolve(process.env.UPLOAD_TEMP_PATH || "uploads/incoming");
+
+// Sessions that have not received a chunk for this long are discarded
+const UPLOAD_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// Largest chunk accepted in a single request
+export const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
+// Thrown for requests that do not fit the state of an upload; the API error
+// handler responds with the given status
+export class UploadError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// Uploads currently receiving a chunk, so parallel requests cannot interleave
+const activeUploads = new Set<string>();
+
+const sessionPath = (id: string) => path.join(UPLOAD_TEMP_PATH, `${id}.json`);
+const dataPath = (id: string) => path.join(UPLOAD_TEMP_PATH, `${id}.part`);
+
+async function writeSession(session: Omit<UploadSession, "offset">) {
+  await fs.promises.writeFile(sessionPath(session.id), JSON.stringify(session));
+}
+
+async function readSession(id: string): Promise<UploadSession | undefined> {
+  // Session ids are UUIDs; anything else would not map to a file we wrote
+  if (!/^[0-9a-f-]{36}$/.test(id)) return undefined;
+
+  try {
+    const session = JSON.parse(await fs.promises.readFile(sessionPath(id), "utf8"));
+    const { size } = await fs.promises.stat(dataPath(id));
+    return { ...session, offset: size };
+  } catch {
+    return undefined;
+  }
+}
+
+export async function createUpload(userId: number, upload: CreateUpload): Promise<UploadSession> {
+  await fs.promises.mkdir(UPLOAD_TEMP_PATH, { recursive: true });
+  await removeExpiredUploads();
+
+  const now = new Date().toISOString();
+  const session = { id: randomUUID(), userId, ...upload, createdAt: now, updatedAt: now };
+  await fs.promises.writeFile(dataPath(session.id), "");
+  await writeSession(session);
+  return { ...session, offset: 0 };
+}
+
+// Only the user who started an upload can see or continue it
+export async function getUpload(id: string, userId: number): Promise<UploadSession | undefined> {
+  const session = await readSession(id);
+  return session && session.userId === userId ? session : undefined;
+}
+
+// Appends one chunk starting at offset. If the connection drops part way, the
+// file is cut back to where the chunk started so the client can send it again.
+export async function appendChunk(session: UploadSession, offset: number, chunk: Readable): Promise<UploadSession> {
+  if (activeUploads.has(session.id)) {
+    throw new UploadError("Another chunk is already being received for this upload", 409);
+  }
+  if (offset !== session.offset) {
+    throw new UploadError(`Expected a chunk at offset ${session.offset}`, 409);
+  }
+
+  const remaining = session.fileSize - session.offset;
+  const limit = Math.min(remaining, MAX_CHUNK_SIZE);
+  let received = 0;
+  const sizeGuard = new Transform({
+    transform(data: Buffer, _encoding, callback) {
+      received += data.length;
+      if (received > limit) {
+        callback(new UploadError(received > remaining
+          ? "Chunk extends past the declared file size"
+          : `Chunks may not be larger than ${MAX_CHUNK_SIZE} bytes`, 413));
+      } else {
+        callback(null, data);
+      }
+    },
+  });
+
+  activeUploads.add(session.id);
+  try {
+    await pipeline(chunk, sizeGuard, fs.createWriteStream(dataPath(session.id), { flags: "a" }));
+  } catch (error) {
+    await fs.promises.truncate(dataPath(session.id), session.offset);
+    throw error;
+  } finally {
+    activeUploads.delete(session.id);
+  }
+
+  const { offset: _offset, ...stored } = session;
+  await writeSession({ ...stored, updatedAt: new Date().toISOString() });
+  return { ...session, offset: session.offset + received };
+}
+
+// Checks that every byte has arrived, then copies the file into the blob
+// store under storageKey while hashing it. The blob is removed again if the
+// SHA-256 does not match the digest the client computed.
+export async function storeUpload(session: UploadSession, sha256: string, storageKey: string): Promise<void> {
+  if (activeUploads.has(session.id)) {
+    throw new UploadError("This upload is still receiving data", 409);
+  }
+  if (session.offset !== session.fileSize) {
+    throw new UploadError(`Upload is incomplete: ${session.offset} of ${session.fileSize} bytes received`, 409);
+  }
+
+  const hash = createHash("sha256");
+  const source = fs.createReadStream(dataPath(session.id));
+  const hashing = new Transform({
+    transform(data: Buffer, _encoding, callback) {
+      hash.update(data);
+      callback(null, data);
+    },
+  });
+  source.on("error", error => hashing.destroy(error));
+
+  activeUploads.add(session.id);
+  try {
+    await blobStore.put(storageKey, source.pipe(hashing), { contentType: session.fileType });
+  } finally {
+    activeUploads.delete(session.id);
+  }
+
+  const actual = hash.digest("hex");
+  if (actual !== sha256) {
+    await blobStore.delete(storageKey);
+    throw new UploadError(`Checksum mismatch: the server received a file with SHA-256 ${actual}`, 422);
+  }
+}
+
+export async function removeUpload(id: string): Promise<void> {
+  await fs.promises.rm(dataPath(id), { force: true });
+  await fs.promises.rm(sessionPath(id), { force: true });
+}
+
+async function removeExpiredUploads() {
+  const cutoff = Date.now() - UPLOAD_EXPIRY_MS;
+  for (const entry of await fs.promises.readdir(UPLOAD_TEMP_PATH)) {
+    if (!entry.endsWith(".json")) continue;
+
+    const id = entry.slice(0, -".json".length);
+    const session = await readSession(id);
+    if (!session || (Date.parse(session.updatedAt) < cutoff && !activeUploads.has(id))) {
+      await removeUpload(id);
+    }
+  }
+}
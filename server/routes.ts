@@ -1,12 +1,75 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, toPublicUser, checkUserPassword } from "./auth";
+import {
+  PermissionError,
+  hasRole,
+  getProjectRole,
+  requireProjectRole,
+  requireExperimentRole,
+  requireNoteRole,
+  requireAttachmentRole,
+  requireAdmin,
+  isAdmin,
+  getAccessibleProjectIds,
+  filterExperimentsByAccess,
+  filterNotesByAccess,
+} from "./permissions";
+import { runAsActor } from "./request-context";
+import { diffHtml } from "./html-diff";
+import {
+  NoteLockedError,
+  signNote,
+  requireUnlockedNote,
+  requireNoLockedNotesInExperiment,
+  requireNoLockedNotesInProject,
+  requireUnsignedFeatureTableSource,
+  getSignatureManifest,
+} from "./signatures";
+import { buildNoteExport, renderNoteExportHtml } from "./note-export";
+import { blobStore, createBlobKey, sha256Hex, BlobNotFoundError } from "./blob-store";
+import {
+  UploadError,
+  createUpload,
+  getUpload,
+  appendChunk,
+  storeUpload,
+  removeUpload,
+} from "./resumable-uploads";
+import { withDuplicates, startAttachmentIntegrityCheck } from "./attachment-integrity";
+import { failInterruptedJobs } from "./job-recovery";
+import { startMsRunParse, getSpectrum } from "./ms-runs";
+import { startSpectralLibraryImport } from "./spectral-libraries";
+import { matchSpectra } from "./spectral-matching";
+import { parseSampleCsv } from "./sample-import";
+import { FeatureTableParseError } from "./feature-table-parser";
+import { isFeatureTableFile, detectStoredFeatureTable, buildLayoutPreview, startFeatureTableImport, buildQcReport, updateQcSummary, startFeatureAnnotation, startDriftCorrection } from "./feature-tables";
+import { DriftCorrectionError, driftCorrectionColumns } from "./drift-correction";
+import { WorklistError, generateWorklist, renderWorklistCsv, renderWorklistSummary, worklistFileName } from "./worklist";
+import { detectMsRunFormat, downsampleTic } from "./ms-run-parser";
+import { ChemistryError, DEFAULT_ADDUCTS, adductNeutralMass, calculateFormula, isotopePattern, parseAdduct } from "./chemistry";
+import { AnalysisError, analysisColumns } from "./statistics";
+import { startStatisticalAnalysis, buildPca } from "./analyses";
+import { detectCompoundFormat, normalizeIdentifiers, parseCompoundFile, withFormulaMass } from "./compounds";
+import { loadDepositionStudy, slugify } from "./deposition";
+import { renderIsaTab, validateIsaTab } from "./isa-tab";
+import { MwTabError, parseMwTab, renderMwTab, validateMwTab } from "./mwtab";
+import { importMwTab, planMwTabImport } from "./mwtab-import";
+import { createZip } from "./zip";
 import multer from "multer";
-import { insertUserSchema, insertProjectSchema, insertExperimentSchema, insertNoteSchema, insertAttachmentSchema, insertProjectCollaboratorSchema } from "@shared/schema";
+import { pipeline } from "stream/promises";
+import { ADMIN_ROLES, auditLogFilterSchema, noteDiffQuerySchema, signNoteSchema, submitNoteForReviewSchema, reviewNoteSchema, insertUserSchema, changePasswordSchema, insertProjectSchema, insertExperimentSchema, insertNoteSchema, insertAttachmentSchema, createUploadSchema, completeUploadSchema, librarySpectraQuerySchema, spectralMatchQuerySchema, insertSampleSchema, updateSampleSchema, bulkUpdateSamplesSchema, importSamplesQuerySchema, generateWorklistSchema, generateWorklistQuerySchema, createFeatureTableSchema, featureQuerySchema, computeQcSchema, qcReportQuerySchema, chemFormulaQuerySchema, isotopePatternQuerySchema, insertCompoundSchema, updateCompoundSchema, compoundQuerySchema, importCompoundsQuerySchema, linkNoteCompoundSchema, insertRetentionTimeSchema, annotateFeatureTableSchema, featureAnnotationQuerySchema, reviewFeatureAnnotationSchema, correctDriftSchema, runAnalysisSchema, mwTabExportQuerySchema, importMwTabQuerySchema, analysisResultQuerySchema, pcaQuerySchema, insertProjectCollaboratorSchema, Attachment, Compound, CompoundPage, Note, VolcanoPoint } from "@shared/schema";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, login/logout and the /api authentication guard
+  await setupAuth(app);
+
+  // Before any request can start a new background job
+  await failInterruptedJobs();
+
   // Configure multer for in-memory storage
   const upload = multer({
     storage: multer.memoryStorage(),
@@ -17,13 +80,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // API error handler middleware
   const apiErrorHandler = (
-    fn: (req: Request, res: Response) => Promise<void>
+    fn: (req: Request, res: Response) => Promise<unknown>
   ) => async (req: Request, res: Response) => {
     try {
-      await fn(req, res);
+      // Attribute any storage changes made by this handler to the caller
+      await runAsActor(req.user?.id ?? null, () => fn(req, res));
     } catch (error) {
       console.error("API Error:", error);
       
+      // A response that failed while streaming can only be aborted
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      
       if (error instanceof z.ZodError) {
         const validationError = fromZodError(error);
         return res.status(400).json({ 
@@ -32,6 +101,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (error instanceof PermissionError) {
+        return res.status(403).json({ message: error.message });
+      }
+      
+      if (error instanceof NoteLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      
+      if (error instanceof BlobNotFoundError) {
+        return res.status(404).json({ message: "Attachment contents not found" });
+      }
+      
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      
+      if (error instanceof WorklistError || error instanceof FeatureTableParseError || error instanceof ChemistryError ||
+          error instanceof AnalysisError || error instanceof DriftCorrectionError || error instanceof MwTabError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
       res.status(500).json({ message: "An unexpected error occurred" });
     }
   };
@@ -39,13 +129,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User routes
   app.post("/api/users", apiErrorHandler(async (req, res) => {
     const validatedData = insertUserSchema.parse(req.body);
+    
+    // Only administrators can create accounts with administrative roles
+    if (validatedData.role && ADMIN_ROLES.includes(validatedData.role)) {
+      requireAdmin(req.user!);
+    }
+    
     const user = await storage.createUser(validatedData);
-    res.status(201).json(user);
+    res.status(201).json(toPublicUser(user));
   }));
 
   app.get("/api/users", apiErrorHandler(async (_req, res) => {
     const users = await storage.listUsers();
-    res.json(users);
+    res.json(users.map(toPublicUser));
   }));
 
   app.get("/api/users/:id", apiErrorHandler(async (req, res) => {
@@ -56,25 +152,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "User not found" });
     }
     
-    res.json(user);
+    res.json(toPublicUser(user));
+  }));
+
+  app.put("/api/users/:id/password", apiErrorHandler(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    
+    // Users can only change their own password
+    if (userId !== req.user!.id) {
+      return res.status(403).json({ message: "You can only change your own password" });
+    }
+    
+    const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+    const user = await storage.getUser(userId);
+    
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    if (!(await checkUserPassword(user, currentPassword))) {
+      return res.status(400).json({ message: "Current password is incorrect" });
+    }
+    
+    await storage.updateUser(userId, { password: newPassword });
+    res.status(204).end();
   }));
 
   // Project routes
   app.post("/api/projects", apiErrorHandler(async (req, res) => {
-    const validatedData = insertProjectSchema.parse(req.body);
+    const validatedData = insertProjectSchema.parse({
+      ...req.body,
+      ownerId: req.user!.id,
+    });
     const project = await storage.createProject(validatedData);
     res.status(201).json(project);
   }));
 
-  app.get("/api/projects", apiErrorHandler(async (_req, res) => {
-    const projects = await storage.listProjects();
+  app.get("/api/projects", apiErrorHandler(async (req, res) => {
+    // Only the projects the caller owns or collaborates on
+    const projects = await storage.listProjectsByUser(req.user!.id);
     res.json(projects);
   }));
 
   app.get("/api/projects/user/:userId", apiErrorHandler(async (req, res) => {
     const userId = parseInt(req.params.userId);
     const projects = await storage.listProjectsByUser(userId);
-    res.json(projects);
+    const accessibleIds = await getAccessibleProjectIds(req.user!.id);
+    res.json(projects.filter(project => accessibleIds.has(project.id)));
   }));
 
   app.get("/api/projects/:id", apiErrorHandler(async (req, res) => {
@@ -85,12 +209,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Project not found" });
     }
     
+    await requireProjectRole(req.user!.id, project, "Viewer");
     res.json(project);
   }));
 
+  app.get("/api/projects/:id/role", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    const role = await requireProjectRole(req.user!.id, project, "Viewer");
+    res.json({ role });
+  }));
+
   app.put("/api/projects/:id", apiErrorHandler(async (req, res) => {
     const projectId = parseInt(req.params.id);
-    const validatedData = insertProjectSchema.partial().parse(req.body);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, project, "Editor");
+    const validatedData = insertProjectSchema.omit({ ownerId: true }).partial().parse(req.body);
     const updatedProject = await storage.updateProject(projectId, validatedData);
     
     if (!updatedProject) {
@@ -102,6 +246,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/projects/:id", apiErrorHandler(async (req, res) => {
     const projectId = parseInt(req.params.id);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, project, "Owner");
+    await requireNoLockedNotesInProject(projectId);
     const success = await storage.deleteProject(projectId);
     
     if (!success) {
@@ -111,20 +263,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).end();
   }));
 
+  // MetaboLights deposition: the mandatory fields still missing, then the
+  // ISA-Tab files as a zip. Deposition metadata is saved with PUT /api/projects/:id.
+  app.get("/api/projects/:id/isa-tab/validation", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, project, "Viewer");
+    res.json(validateIsaTab(await loadDepositionStudy(project)));
+  }));
+
+  app.get("/api/projects/:id/isa-tab", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, project, "Viewer");
+    const zip = createZip(await renderIsaTab(await loadDepositionStudy(project)));
+    const fileName = `${slugify(project.name) || `project_${project.id}`}_isa-tab.zip`;
+    
+    // Sets the zip content type and an encoded filename
+    res.attachment(fileName);
+    res.send(zip);
+  }));
+
+  // Metabolomics Workbench deposition: one mwTab file per experiment with a
+  // feature table, as text or JSON
+  app.get("/api/projects/:id/mwtab/validation", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, project, "Viewer");
+    const { format } = mwTabExportQuerySchema.parse(req.query);
+    res.json(validateMwTab(await loadDepositionStudy(project), format));
+  }));
+
+  app.get("/api/projects/:id/mwtab", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.id);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, project, "Viewer");
+    const { format } = mwTabExportQuerySchema.parse(req.query);
+    const files = await renderMwTab(await loadDepositionStudy(project), format);
+    
+    if (files.length === 0) {
+      return res.status(400).json({ message: "No experiment has a parsed feature table mapped to samples" });
+    }
+    
+    const zip = createZip(files);
+    const fileName = `${slugify(project.name) || `project_${project.id}`}_mwtab.zip`;
+    
+    // Sets the zip content type and an encoded filename
+    res.attachment(fileName);
+    res.send(zip);
+  }));
+
+  // Creates a project owned by the caller from an mwTab file sent as the body
+  app.post(
+    "/api/projects/import/mwtab",
+    express.text({ type: ["text/plain", "text/tab-separated-values"], limit: "50mb" }),
+    apiErrorHandler(async (req, res) => {
+      const { fileName, dryRun } = importMwTabQuerySchema.parse(req.query);
+      
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "Send the mwTab file as a text/plain request body" });
+      }
+      
+      const plan = planMwTabImport(parseMwTab(req.body), fileName);
+      
+      if (dryRun) {
+        return res.json(plan.preview);
+      }
+      
+      const fileType = req.body.trimStart().startsWith("{") ? "application/json" : "text/plain";
+      const result = await importMwTab(plan, Buffer.from(req.body), fileName, fileType, req.user!.id);
+      res.status(201).json(result);
+    })
+  );
+
   // Experiment routes
   app.post("/api/experiments", apiErrorHandler(async (req, res) => {
     const validatedData = insertExperimentSchema.parse(req.body);
+    await requireProjectRole(req.user!.id, validatedData.projectId, "Editor");
     const experiment = await storage.createExperiment(validatedData);
     res.status(201).json(experiment);
   }));
 
-  app.get("/api/experiments", apiErrorHandler(async (_req, res) => {
+  app.get("/api/experiments", apiErrorHandler(async (req, res) => {
     const experiments = await storage.listExperiments();
-    res.json(experiments);
+    res.json(await filterExperimentsByAccess(req.user!.id, experiments));
   }));
 
   app.get("/api/experiments/project/:projectId", apiErrorHandler(async (req, res) => {
     const projectId = parseInt(req.params.projectId);
+    await requireProjectRole(req.user!.id, projectId, "Viewer");
     const experiments = await storage.listExperimentsByProject(projectId);
     res.json(experiments);
   }));
@@ -137,12 +384,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Experiment not found" });
     }
     
+    await requireExperimentRole(req.user!.id, experiment, "Viewer");
     res.json(experiment);
   }));
 
   app.put("/api/experiments/:id", apiErrorHandler(async (req, res) => {
     const experimentId = parseInt(req.params.id);
+    const experiment = await storage.getExperiment(experimentId);
+    
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, experiment, "Editor");
     const validatedData = insertExperimentSchema.partial().parse(req.body);
+    
+    // Moving an experiment needs edit rights on the destination as well
+    if (validatedData.projectId !== undefined && validatedData.projectId !== experiment.projectId) {
+      await requireProjectRole(req.user!.id, validatedData.projectId, "Editor");
+    }
+    
     const updatedExperiment = await storage.updateExperiment(experimentId, validatedData);
     
     if (!updatedExperiment) {
@@ -154,6 +415,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/experiments/:id", apiErrorHandler(async (req, res) => {
     const experimentId = parseInt(req.params.id);
+    const experiment = await storage.getExperiment(experimentId);
+    
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, experiment, "Editor");
+    await requireNoLockedNotesInExperiment(experimentId);
     const success = await storage.deleteExperiment(experimentId);
     
     if (!success) {
@@ -163,20 +432,289 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).end();
   }));
 
+  // Sample routes
+  // Samples can only be linked to experiments of their own project
+  const findForeignExperimentIds = async (projectId: number, experimentIds: number[]) => {
+    const projectExperiments = await storage.listExperimentsByProject(projectId);
+    return experimentIds.filter(id => !projectExperiments.some(experiment => experiment.id === id));
+  };
+
+  const isSampleCodeTaken = async (projectId: number, sampleCode: string, exceptSampleId?: number) => {
+    const projectSamples = await storage.listSamplesByProject(projectId);
+    return projectSamples.some(sample => sample.sampleCode === sampleCode && sample.id !== exceptSampleId);
+  };
+
+  app.get("/api/projects/:projectId/samples", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.projectId);
+    await requireProjectRole(req.user!.id, projectId, "Viewer");
+    const samples = await storage.listSamplesByProject(projectId);
+    res.json(samples);
+  }));
+
+  app.get("/api/experiments/:id/samples", apiErrorHandler(async (req, res) => {
+    const experimentId = parseInt(req.params.id);
+    const experiment = await storage.getExperiment(experimentId);
+    
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, experiment, "Viewer");
+    const samples = await storage.listSamplesByExperiment(experimentId);
+    res.json(samples);
+  }));
+
+  app.post("/api/projects/:projectId/samples", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.projectId);
+    await requireProjectRole(req.user!.id, projectId, "Editor");
+    const validatedData = insertSampleSchema.parse({
+      ...req.body,
+      projectId,
+    });
+    
+    if (await isSampleCodeTaken(projectId, validatedData.sampleCode)) {
+      return res.status(409).json({ message: `Sample ID "${validatedData.sampleCode}" is already registered in this project` });
+    }
+    
+    if ((await findForeignExperimentIds(projectId, validatedData.experimentIds)).length > 0) {
+      return res.status(400).json({ message: "Samples can only be linked to experiments in their project" });
+    }
+    
+    const [sample] = await storage.createSamples([validatedData]);
+    res.status(201).json(sample);
+  }));
+
+  // Registers the samples of a CSV/TSV sample sheet sent as the request body.
+  // Nothing is saved unless every row is valid; with dryRun=true the parsed
+  // samples are returned for review instead.
+  app.post(
+    "/api/projects/:projectId/samples/import",
+    express.text({ type: ["text/csv", "text/tab-separated-values", "text/plain"], limit: "10mb" }),
+    apiErrorHandler(async (req, res) => {
+      const projectId = parseInt(req.params.projectId);
+      await requireProjectRole(req.user!.id, projectId, "Editor");
+      const { experimentIds, dryRun } = importSamplesQuerySchema.parse(req.query);
+      
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "Send the sample sheet as a text/csv request body" });
+      }
+      
+      if ((await findForeignExperimentIds(projectId, experimentIds)).length > 0) {
+        return res.status(400).json({ message: "Samples can only be linked to experiments in their project" });
+      }
+      
+      const [experiments, existingSamples] = await Promise.all([
+        storage.listExperimentsByProject(projectId),
+        storage.listSamplesByProject(projectId),
+      ]);
+      const result = parseSampleCsv(
+        req.body,
+        projectId,
+        experiments,
+        new Set(existingSamples.map(sample => sample.sampleCode)),
+        experimentIds
+      );
+      
+      if (result.errors.length > 0) {
+        return res.status(400).json({
+          message: `The sample sheet has ${result.errors.length} ${result.errors.length === 1 ? "problem" : "problems"}`,
+          errors: result.errors,
+        });
+      }
+      
+      if (dryRun) {
+        return res.json(result);
+      }
+      
+      const samples = await storage.createSamples(result.samples);
+      res.status(201).json(samples);
+    })
+  );
+
+  // Bulk edit: applies the same changes to many samples of the project at once
+  app.patch("/api/projects/:projectId/samples", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.projectId);
+    await requireProjectRole(req.user!.id, projectId, "Editor");
+    const { sampleIds, changes } = bulkUpdateSamplesSchema.parse(req.body);
+    
+    const projectSamples = await storage.listSamplesByProject(projectId);
+    if (sampleIds.some(id => !projectSamples.some(sample => sample.id === id))) {
+      return res.status(404).json({ message: "Sample not found in this project" });
+    }
+    
+    const linkedExperimentIds = [...(changes.addExperimentIds ?? []), ...(changes.removeExperimentIds ?? [])];
+    if ((await findForeignExperimentIds(projectId, linkedExperimentIds)).length > 0) {
+      return res.status(400).json({ message: "Samples can only be linked to experiments in their project" });
+    }
+    
+    const samples = await storage.bulkUpdateSamples(sampleIds, changes);
+    res.json(samples);
+  }));
+
+  app.get("/api/samples/:id", apiErrorHandler(async (req, res) => {
+    const sampleId = parseInt(req.params.id);
+    const sample = await storage.getSample(sampleId);
+    
+    if (!sample) {
+      return res.status(404).json({ message: "Sample not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, sample.projectId, "Viewer");
+    res.json(sample);
+  }));
+
+  app.put("/api/samples/:id", apiErrorHandler(async (req, res) => {
+    const sampleId = parseInt(req.params.id);
+    const sample = await storage.getSample(sampleId);
+    
+    if (!sample) {
+      return res.status(404).json({ message: "Sample not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, sample.projectId, "Editor");
+    const validatedData = updateSampleSchema.parse(req.body);
+    
+    if (validatedData.sampleCode !== undefined &&
+        await isSampleCodeTaken(sample.projectId, validatedData.sampleCode, sampleId)) {
+      return res.status(409).json({ message: `Sample ID "${validatedData.sampleCode}" is already registered in this project` });
+    }
+    
+    if ((await findForeignExperimentIds(sample.projectId, validatedData.experimentIds ?? [])).length > 0) {
+      return res.status(400).json({ message: "Samples can only be linked to experiments in their project" });
+    }
+    
+    const updatedSample = await storage.updateSample(sampleId, validatedData);
+    
+    if (!updatedSample) {
+      return res.status(404).json({ message: "Sample not found" });
+    }
+    
+    res.json(updatedSample);
+  }));
+
+  app.delete("/api/samples/:id", apiErrorHandler(async (req, res) => {
+    const sampleId = parseInt(req.params.id);
+    const sample = await storage.getSample(sampleId);
+    
+    if (!sample) {
+      return res.status(404).json({ message: "Sample not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, sample.projectId, "Editor");
+    const success = await storage.deleteSample(sampleId);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Sample not found" });
+    }
+    
+    res.status(204).end();
+  }));
+
+  // Generates an injection sequence from the experiment's samples and saves
+  // it as a CSV attachment, on a new note or one given in the request
+  app.post("/api/experiments/:id/worklist", apiErrorHandler(async (req, res) => {
+    const experimentId = parseInt(req.params.id);
+    const experiment = await storage.getExperiment(experimentId);
+    
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, experiment, "Editor");
+    const { dryRun } = generateWorklistQuerySchema.parse(req.query);
+    const options = generateWorklistSchema.parse(req.body);
+    
+    let note: Note | undefined;
+    if (options.noteId !== undefined) {
+      note = await storage.getNote(options.noteId);
+      
+      if (!note || note.experimentId !== experimentId) {
+        return res.status(404).json({ message: "Note not found in this experiment" });
+      }
+      
+      requireUnlockedNote(note);
+    }
+    
+    const worklist = generateWorklist(await storage.listSamplesByExperiment(experimentId), options);
+    
+    if (dryRun) {
+      return res.json(worklist);
+    }
+    
+    const fileName = worklistFileName(experiment, worklist, options);
+    const summary = renderWorklistSummary(experiment, worklist, options, fileName);
+    const contents = Buffer.from(renderWorklistCsv(worklist, options));
+    
+    // The settings and seed go in the note so the sequence can be regenerated
+    note = note
+      ? await storage.updateNote(note.id, { content: (note.content ?? "") + summary })
+      : await storage.createNote({
+          title: `Injection sequence: ${experiment.name}`,
+          content: summary,
+          experimentId,
+          authorId: req.user!.id,
+        });
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    const validatedData = insertAttachmentSchema.parse({
+      fileName,
+      fileSize: contents.length,
+      fileType: "text/csv",
+      storageKey: createBlobKey(`attachments/${note.id}`),
+      sha256: sha256Hex(contents),
+      noteId: note.id,
+    });
+    
+    await blobStore.put(validatedData.storageKey, contents, { contentType: "text/csv" });
+    let attachment;
+    try {
+      attachment = await storage.createAttachment(validatedData);
+    } catch (error) {
+      await blobStore.delete(validatedData.storageKey);
+      throw error;
+    }
+    
+    res.status(201).json({ ...worklist, note, attachment });
+  }));
+
   // Note routes
   app.post("/api/notes", apiErrorHandler(async (req, res) => {
-    const validatedData = insertNoteSchema.parse(req.body);
+    const validatedData = insertNoteSchema.parse({
+      ...req.body,
+      authorId: req.user!.id,
+    });
+    
+    // Signed notes are changed through amendments, which stay next to the original
+    if (validatedData.amendsNoteId != null) {
+      const original = await storage.getNote(validatedData.amendsNoteId);
+      
+      if (!original) {
+        return res.status(404).json({ message: "Note to amend not found" });
+      }
+      
+      if (!original.lockedAt) {
+        return res.status(400).json({ message: "Only signed notes can be amended; edit the note instead" });
+      }
+      
+      validatedData.experimentId = original.experimentId;
+    }
+    
+    await requireExperimentRole(req.user!.id, validatedData.experimentId, "Editor");
     const note = await storage.createNote(validatedData);
     res.status(201).json(note);
   }));
 
-  app.get("/api/notes", apiErrorHandler(async (_req, res) => {
+  app.get("/api/notes", apiErrorHandler(async (req, res) => {
     const notes = await storage.listNotes();
-    res.json(notes);
+    res.json(await filterNotesByAccess(req.user!.id, notes));
   }));
 
   app.get("/api/notes/experiment/:experimentId", apiErrorHandler(async (req, res) => {
     const experimentId = parseInt(req.params.experimentId);
+    await requireExperimentRole(req.user!.id, experimentId, "Viewer");
     const notes = await storage.listNotesByExperiment(experimentId);
     res.json(notes);
   }));
@@ -189,12 +727,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Note not found" });
     }
     
+    await requireNoteRole(req.user!.id, note, "Viewer");
     res.json(note);
   }));
 
   app.put("/api/notes/:id", apiErrorHandler(async (req, res) => {
     const noteId = parseInt(req.params.id);
-    const validatedData = insertNoteSchema.partial().parse(req.body);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
+    const validatedData = insertNoteSchema.omit({ authorId: true, amendsNoteId: true }).partial().parse(req.body);
+    
+    if (validatedData.experimentId !== undefined && validatedData.experimentId !== note.experimentId) {
+      await requireExperimentRole(req.user!.id, validatedData.experimentId, "Editor");
+    }
+    
     const updatedNote = await storage.updateNote(noteId, validatedData);
     
     if (!updatedNote) {
@@ -206,6 +758,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/notes/:id", apiErrorHandler(async (req, res) => {
     const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
     const success = await storage.deleteNote(noteId);
     
     if (!success) {
@@ -215,90 +775,1199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).end();
   }));
 
-  // Attachment routes
-  app.post("/api/attachments", upload.single("file"), apiErrorHandler(async (req, res) => {
-    if (!req.file) {
+  // Note revision routes
+  app.get("/api/notes/:id/revisions", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Viewer");
+    const revisions = await storage.listNoteRevisions(noteId);
+    res.json(revisions);
+  }));
+
+  app.get("/api/notes/:id/revisions/:revision", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Viewer");
+    const revision = await storage.getNoteRevision(noteId, parseInt(req.params.revision));
+    
+    if (!revision) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    
+    res.json(revision);
+  }));
+
+  app.get("/api/notes/:id/diff", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Viewer");
+    const { from, to } = noteDiffQuerySchema.parse(req.query);
+    const [fromRevision, toRevision] = await Promise.all([
+      storage.getNoteRevision(noteId, from),
+      storage.getNoteRevision(noteId, to),
+    ]);
+    
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    
+    const diff = diffHtml(fromRevision.content || "", toRevision.content || "");
+    res.json({ from, to, ...diff });
+  }));
+
+  // Restoring writes the old title and content as a new revision, so the
+  // revisions in between stay in the history
+  app.post("/api/notes/:id/revisions/:revision/restore", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
+    const revision = await storage.getNoteRevision(noteId, parseInt(req.params.revision));
+    
+    if (!revision) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    
+    const updatedNote = await storage.updateNote(noteId, {
+      title: revision.title,
+      content: revision.content,
+    });
+    
+    if (!updatedNote) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    res.json(updatedNote);
+  }));
+
+  // Note signature routes
+  app.get("/api/notes/:id/signatures", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Viewer");
+    res.json(await getSignatureManifest(note));
+  }));
+
+  // The author signs first, which locks the note; reviewers and approvers
+  // then countersign the locked content
+  app.post("/api/notes/:id/signatures", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    const role = await requireNoteRole(req.user!.id, note, "Viewer");
+    const { meaning, password } = signNoteSchema.parse(req.body);
+    
+    // Signing always re-authenticates the signer
+    const signer = await storage.getUser(req.user!.id);
+    if (!signer || !(await checkUserPassword(signer, password))) {
+      return res.status(400).json({ message: "Password is incorrect" });
+    }
+    
+    const signatures = await storage.listNoteSignatures(noteId);
+    const isAuthor = note.authorId === signer.id;
+    
+    if (meaning === "authored") {
+      if (!isAuthor || !hasRole(role, "Editor")) {
+        throw new PermissionError("Only the author of a note can sign it as authored");
+      }
+      if (signatures.some(signature => signature.meaning === "authored")) {
+        return res.status(409).json({ message: "This note has already been signed by its author" });
+      }
+    } else {
+      if (isAuthor) {
+        throw new PermissionError(`Authors cannot sign their own notes as ${meaning}`);
+      }
+      if (!note.lockedAt) {
+        return res.status(409).json({ message: "The author must sign this note first" });
+      }
+      if (signatures.some(signature => signature.signerId === signer.id && signature.meaning === meaning)) {
+        return res.status(409).json({ message: `You have already signed this note as ${meaning}` });
+      }
+    }
+    
+    const signature = await signNote(note, signer, meaning);
+    res.status(201).json(signature);
+  }));
+
+  // Note review routes
+  // Only signed notes are reviewed, so the reviewer countersigns exactly what
+  // the author signed. Signed notes cannot be edited: a returned note stays
+  // returned and the author answers the comments in an amendment, which is
+  // signed and submitted in turn.
+  app.post("/api/notes/:id/submit", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    
+    if (note.authorId !== req.user!.id) {
+      throw new PermissionError("Only the author can submit a note for review");
+    }
+    
+    if (note.status === "returned") {
+      return res.status(409).json({ message: "This note was returned; address the comments in an amendment and submit that" });
+    }
+    
+    if (note.status !== "draft") {
+      return res.status(409).json({ message: `This note is already ${note.status}` });
+    }
+    
+    const signatures = await storage.listNoteSignatures(noteId);
+    if (!note.lockedAt || !signatures.some(signature => signature.meaning === "authored")) {
+      return res.status(409).json({ message: "Sign this note before submitting it for review" });
+    }
+    
+    const { reviewerId } = submitNoteForReviewSchema.parse(req.body);
+    
+    if (reviewerId === note.authorId) {
+      return res.status(400).json({ message: "Authors cannot review their own notes" });
+    }
+    
+    const experiment = await storage.getExperiment(note.experimentId);
+    const reviewerRole = experiment ? await getProjectRole(reviewerId, experiment.projectId) : null;
+    
+    if (!reviewerRole) {
+      return res.status(400).json({ message: "The reviewer must be a collaborator on this project" });
+    }
+    
+    const updatedNote = await storage.updateNoteReview(noteId, {
+      status: "submitted",
+      reviewerId,
+      reviewComment: null,
+    });
+    res.json(updatedNote);
+  }));
+
+  app.post("/api/notes/:id/review", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Viewer");
+    
+    if (note.status !== "submitted") {
+      return res.status(409).json({ message: "This note is not awaiting review" });
+    }
+    
+    if (note.reviewerId !== req.user!.id) {
+      throw new PermissionError("Only the assigned reviewer can review this note");
+    }
+    
+    const review = reviewNoteSchema.parse(req.body);
+    
+    if (review.decision === "returned") {
+      const updatedNote = await storage.updateNoteReview(noteId, {
+        status: "returned",
+        reviewComment: review.comments,
+      });
+      return res.json(updatedNote);
+    }
+    
+    // Witnessing or approving signs the note, which also locks it
+    const reviewer = await storage.getUser(req.user!.id);
+    if (!reviewer || !(await checkUserPassword(reviewer, review.password))) {
+      return res.status(400).json({ message: "Password is incorrect" });
+    }
+    
+    // As with countersigning, the author's signature comes first
+    const signatures = await storage.listNoteSignatures(noteId);
+    if (!note.lockedAt || !signatures.some(signature => signature.meaning === "authored")) {
+      return res.status(409).json({ message: "The author must sign this note first" });
+    }
+    
+    await signNote(note, reviewer, review.decision);
+    const updatedNote = await storage.updateNoteReview(noteId, {
+      status: review.decision,
+      reviewComment: null,
+    });
+    res.json(updatedNote);
+  }));
+
+  // Entries assigned to the caller for review; ?status=all includes finished reviews
+  app.get("/api/reviews", apiErrorHandler(async (req, res) => {
+    const status = req.query.status === "all" ? null : "submitted";
+    const notes = await storage.listNotesByReviewer(req.user!.id);
+    const visibleNotes = await filterNotesByAccess(req.user!.id, notes);
+    res.json(status ? visibleNotes.filter(note => note.status === status) : visibleNotes);
+  }));
+
+  app.get("/api/notes/:id/export", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Viewer");
+    const format = z.enum(["html", "json"]).default("html").parse(req.query.format);
+    const data = await buildNoteExport(note);
+    const fileName = `note-${note.id}.${format}`;
+    
+    res.attachment(fileName);
+    
+    if (format === "json") {
+      return res.json(data);
+    }
+    
+    res.type("html").send(renderNoteExportHtml(data));
+  }));
+
+  // Attachment routes
+  // mzML/mzXML runs and MGF/MSP libraries are read in the background after upload
+  const parseAttachment = async (attachment: Attachment) => {
+    await startMsRunParse(attachment);
+    await startSpectralLibraryImport(attachment);
+  };
+
+  app.post("/api/attachments", upload.single("file"), apiErrorHandler(async (req, res) => {
+    if (!req.file) {
       return res.status(400).json({ message: "No file uploaded" });
     }
     
-    const { noteId } = req.body;
+    const { noteId } = req.body;
+    
+    if (!noteId) {
+      return res.status(400).json({ message: "noteId is required" });
+    }
+    
+    const note = await storage.getNote(parseInt(noteId));
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
+    
+    const file = req.file;
+    const validatedData = insertAttachmentSchema.parse({
+      fileName: file.originalname,
+      fileSize: file.size,
+      fileType: file.mimetype,
+      storageKey: createBlobKey(`attachments/${note.id}`),
+      sha256: sha256Hex(file.buffer),
+      noteId: note.id,
+    });
+    
+    await blobStore.put(validatedData.storageKey, file.buffer, { contentType: file.mimetype });
+    let attachment;
+    try {
+      attachment = await storage.createAttachment(validatedData);
+    } catch (error) {
+      await blobStore.delete(validatedData.storageKey);
+      throw error;
+    }
+    
+    await parseAttachment(attachment);
+    res.status(201).json(await withDuplicates(attachment, req.user!.id));
+  }));
+
+  app.get("/api/attachments/note/:noteId", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.noteId);
+    await requireNoteRole(req.user!.id, noteId, "Viewer");
+    const attachments = await storage.listAttachmentsByNote(noteId);
+    res.json(attachments);
+  }));
+
+  app.get("/api/attachments/:id", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const attachment = await storage.getAttachment(attachmentId);
+    
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    res.json(await withDuplicates(attachment, req.user!.id));
+  }));
+
+  app.get("/api/attachments/:id/download", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const attachment = await storage.getAttachment(attachmentId);
+    
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    
+    if (!attachment.storageKey) {
+      return res.status(404).json({ message: "Attachment contents have not been migrated to the blob store" });
+    }
+    
+    const contents = await blobStore.get(attachment.storageKey);
+    
+    // File names are user-supplied: res.attachment quotes them and adds a
+    // UTF-8 filename* parameter; the stored type replaces the one it guesses
+    res.attachment(attachment.fileName);
+    res.setHeader("Content-Type", attachment.fileType);
+    res.setHeader("Content-Length", attachment.fileSize);
+    
+    await pipeline(contents, res);
+  }));
+
+  // Run metadata and TIC of an mzML/mzXML attachment. Parsing happens in the
+  // background after upload, so the run may still be pending; files uploaded
+  // before parsing existed are parsed on first request.
+  app.get("/api/attachments/:id/ms-run", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const attachment = await storage.getAttachment(attachmentId);
+    
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    
+    const msRun = await storage.getMsRunByAttachment(attachmentId) ?? await startMsRunParse(attachment);
+    
+    if (!msRun) {
+      return res.status(404).json({ message: "Attachment is not an mzML or mzXML run" });
+    }
+    
+    const { scanOffsets: _scanOffsets, ...summary } = msRun;
+    res.json({ ...summary, tic: summary.tic && downsampleTic(summary.tic) });
+  }));
+
+  app.get("/api/attachments/:id/spectra/:index", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const index = z.coerce.number().int().min(0).parse(req.params.index);
+    const attachment = await storage.getAttachment(attachmentId);
+    
+    if (!attachment || !detectMsRunFormat(attachment.fileName)) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    
+    const msRun = await storage.getMsRunByAttachment(attachmentId);
+    
+    if (!msRun || msRun.status !== "parsed") {
+      return res.status(409).json({ message: "Run has not been parsed yet" });
+    }
+    
+    const spectrum = await getSpectrum(attachment, msRun, index);
+    
+    if (!spectrum) {
+      return res.status(404).json({ message: "Spectrum not found" });
+    }
+    
+    res.json(spectrum);
+  }));
+
+  // Import status of an MGF/MSP attachment; like MS runs, libraries uploaded
+  // before import existed are imported on first request
+  app.get("/api/attachments/:id/spectral-library", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const attachment = await storage.getAttachment(attachmentId);
+    
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    
+    const library = await storage.getSpectralLibraryByAttachment(attachmentId) ?? await startSpectralLibraryImport(attachment);
+    
+    if (!library) {
+      return res.status(404).json({ message: "Attachment is not an MGF or MSP library" });
+    }
+    
+    res.json(library);
+  }));
+
+  app.get("/api/attachments/:id/spectral-library/spectra", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const query = librarySpectraQuerySchema.parse(req.query);
+    const attachment = await storage.getAttachment(attachmentId);
+    
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    
+    const library = await storage.getSpectralLibraryByAttachment(attachmentId);
+    
+    if (!library) {
+      return res.status(404).json({ message: "Spectral library not found" });
+    }
+    
+    res.json(await storage.listLibrarySpectra(library.id, query));
+  }));
+
+  app.delete("/api/attachments/:id", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const attachment = await storage.getAttachment(attachmentId);
+    
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Editor");
+    const note = await storage.getNote(attachment.noteId);
+    if (note) requireUnlockedNote(note);
+    const success = await storage.deleteAttachment(attachmentId);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    res.status(204).end();
+  }));
+
+  // Library spectrum routes
+  app.get("/api/library-spectra/:id", apiErrorHandler(async (req, res) => {
+    const spectrumId = parseInt(req.params.id);
+    const spectrum = await storage.getLibrarySpectrum(spectrumId);
+    const library = spectrum && await storage.getSpectralLibrary(spectrum.libraryId);
+    const attachment = library && await storage.getAttachment(library.attachmentId);
+    
+    if (!spectrum || !attachment) {
+      return res.status(404).json({ message: "Spectrum not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    res.json(spectrum);
+  }));
+
+  // Imported libraries the user can search, from every project they can view
+  app.get("/api/spectral-libraries", apiErrorHandler(async (req, res) => {
+    const accessibleIds = await getAccessibleProjectIds(req.user!.id);
+    const libraries = await storage.listSpectralLibraries(Array.from(accessibleIds));
+    res.json(libraries.filter(library => library.status === "parsed"));
+  }));
+
+  // Library spectra similar to a spectrum, e.g. an MS/MS spectrum from an MGF
+  // attachment searched against a reference library for a level 2 identification
+  app.get("/api/library-spectra/:id/matches", apiErrorHandler(async (req, res) => {
+    const spectrumId = parseInt(req.params.id);
+    const query = spectralMatchQuerySchema.parse(req.query);
+    const spectrum = await storage.getLibrarySpectrum(spectrumId);
+    const queryLibrary = spectrum && await storage.getSpectralLibrary(spectrum.libraryId);
+    const queryAttachment = queryLibrary && await storage.getAttachment(queryLibrary.attachmentId);
+    
+    if (!spectrum || !queryAttachment) {
+      return res.status(404).json({ message: "Spectrum not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, queryAttachment, "Viewer");
+    
+    const library = await storage.getSpectralLibrary(query.libraryId);
+    const libraryAttachment = library && await storage.getAttachment(library.attachmentId);
+    
+    if (!library || !libraryAttachment) {
+      return res.status(404).json({ message: "Spectral library not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, libraryAttachment, "Viewer");
+    
+    if (spectrum.precursorMz === null) {
+      return res.status(400).json({ message: "The spectrum has no precursor m/z to search by" });
+    }
+    
+    // Spectra acquired in the other ion mode are never a match; the query
+    // spectrum itself is left out when searching its own library
+    const candidates = (await storage.listLibrarySpectraByPrecursor(
+      library.id,
+      spectrum.precursorMz - query.precursorTolerance,
+      spectrum.precursorMz + query.precursorTolerance
+    )).filter(candidate =>
+      candidate.id !== spectrum.id &&
+      (!spectrum.ionMode || !candidate.ionMode || candidate.ionMode === spectrum.ionMode)
+    );
+    
+    res.json(matchSpectra(spectrum, candidates, query));
+  }));
+
+  // Feature table routes
+  // Attachments of an experiment's notes, e.g. the raw data files a feature
+  // table's sample columns came from
+  const listExperimentAttachments = async (experimentId: number) => {
+    const experimentNotes = await storage.listNotesByExperiment(experimentId);
+    const noteAttachments = await Promise.all(experimentNotes.map(note => storage.listAttachmentsByNote(note.id)));
+    return noteAttachments.flat();
+  };
+
+  // Detects the layout of a CSV attachment and suggests a mapping of its
+  // sample columns, for review before importing it
+  app.get("/api/attachments/:id/feature-table-layout", apiErrorHandler(async (req, res) => {
+    const attachmentId = parseInt(req.params.id);
+    const attachment = await storage.getAttachment(attachmentId);
+    const note = attachment && await storage.getNote(attachment.noteId);
+    const experiment = note && await storage.getExperiment(note.experimentId);
+    
+    if (!attachment || !experiment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    
+    if (!isFeatureTableFile(attachment.fileName)) {
+      return res.status(400).json({ message: "Only CSV, TSV or TXT attachments can be imported as feature tables" });
+    }
+    
+    if (!attachment.storageKey) {
+      return res.status(404).json({ message: "Attachment contents have not been migrated to the blob store" });
+    }
+    
+    const layout = await detectStoredFeatureTable(attachment.storageKey);
+    const [samples, attachments] = await Promise.all([
+      storage.listSamplesByProject(experiment.projectId),
+      listExperimentAttachments(experiment.id),
+    ]);
+    res.json(buildLayoutPreview(layout, samples, attachments.filter(other => other.id !== attachment.id)));
+  }));
+
+  app.get("/api/projects/:projectId/feature-tables", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.projectId);
+    await requireProjectRole(req.user!.id, projectId, "Viewer");
+    res.json(await storage.listFeatureTablesByProject(projectId));
+  }));
+
+  // Creates a pending feature table and reads the CSV in the background
+  app.post("/api/experiments/:id/feature-tables", apiErrorHandler(async (req, res) => {
+    const experimentId = parseInt(req.params.id);
+    const experiment = await storage.getExperiment(experimentId);
+    
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, experiment, "Editor");
+    const validatedData = createFeatureTableSchema.parse(req.body);
+    
+    const attachment = await storage.getAttachment(validatedData.attachmentId);
+    const note = attachment && await storage.getNote(attachment.noteId);
+    const sourceExperiment = note && await storage.getExperiment(note.experimentId);
+    
+    if (!attachment || !sourceExperiment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    
+    await requireAttachmentRole(req.user!.id, attachment, "Viewer");
+    
+    if (sourceExperiment.projectId !== experiment.projectId) {
+      return res.status(400).json({ message: "The feature table file must be attached in the same project" });
+    }
+    
+    if (!isFeatureTableFile(attachment.fileName)) {
+      return res.status(400).json({ message: "Only CSV, TSV or TXT attachments can be imported as feature tables" });
+    }
+    
+    if (!attachment.storageKey) {
+      return res.status(404).json({ message: "Attachment contents have not been migrated to the blob store" });
+    }
+    
+    const layout = await detectStoredFeatureTable(attachment.storageKey);
+    const [samples, attachments] = await Promise.all([
+      storage.listSamplesByProject(experiment.projectId),
+      listExperimentAttachments(experiment.id),
+    ]);
+    
+    const sampleIndexes: number[] = [];
+    for (const column of validatedData.columns) {
+      const index = layout.sampleIndexes.find(candidate => layout.header[candidate] === column.columnName);
+      
+      if (index === undefined) {
+        return res.status(400).json({ message: `"${column.columnName}" is not a sample column of this table` });
+      }
+      if (sampleIndexes.includes(index)) {
+        return res.status(400).json({ message: `Column "${column.columnName}" is listed twice` });
+      }
+      if (column.sampleId != null && !samples.some(sample => sample.id === column.sampleId)) {
+        return res.status(400).json({ message: "Columns can only be mapped to samples of this project" });
+      }
+      if (column.attachmentId != null && !attachments.some(other => other.id === column.attachmentId)) {
+        return res.status(400).json({ message: "Columns can only be mapped to attachments of this experiment" });
+      }
+      sampleIndexes.push(index);
+    }
+    
+    const table = await storage.createFeatureTable(
+      {
+        experimentId,
+        name: validatedData.name,
+        format: layout.format,
+        sourceAttachmentId: attachment.id,
+        sourceFileName: attachment.fileName,
+        status: "pending",
+        createdById: req.user!.id,
+      },
+      validatedData.columns.map((column, position) => ({
+        position,
+        columnName: column.columnName,
+        sampleId: column.sampleId ?? null,
+        attachmentId: column.attachmentId ?? null,
+        injectionOrder: layout.injectionOrders[sampleIndexes[position]],
+        batch: layout.batches[sampleIndexes[position]],
+      }))
+    );
+    
+    startFeatureTableImport(table, attachment.storageKey, layout, sampleIndexes);
+    res.status(201).json(table);
+  }));
+
+  app.get("/api/feature-tables/:id", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Viewer");
+    res.json(table);
+  }));
+
+  app.get("/api/feature-tables/:id/features", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const query = featureQuerySchema.parse(req.query);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Viewer");
+    res.json(await storage.listFeatures(tableId, query));
+  }));
+
+  app.delete("/api/feature-tables/:id", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Editor");
+    await requireUnsignedFeatureTableSource(table);
+    const success = await storage.deleteFeatureTable(tableId);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    res.status(204).end();
+  }));
+
+  // QC metrics of a table's pooled-QC and blank injections, for previewing
+  // other internal standards; nothing is stored
+  app.get("/api/feature-tables/:id/qc", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const query = qcReportQuerySchema.parse(req.query);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Viewer");
+    
+    if (table.status !== "parsed") {
+      return res.status(400).json({ message: "The feature table has not finished importing" });
+    }
+    
+    res.json(await buildQcReport(table, query.internalStandards));
+  }));
+
+  // Principal component analysis of the table's sample columns; nothing is
+  // stored, so plots in notes record the parameters to recompute it
+  app.get("/api/feature-tables/:id/pca", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const query = pcaQuerySchema.parse(req.query);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Viewer");
+    
+    if (table.status !== "parsed") {
+      return res.status(400).json({ message: "The feature table has not finished importing" });
+    }
+    
+    res.json(await buildPca(table, query));
+  }));
+
+  // Recomputes QC metrics and stores the summary on the table's experiment
+  app.post("/api/feature-tables/:id/qc", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Editor");
+    const validatedData = computeQcSchema.parse(req.body);
+    
+    if (table.status !== "parsed") {
+      return res.status(400).json({ message: "The feature table has not finished importing" });
+    }
+    
+    res.json(await updateQcSummary(table, validatedData.internalStandardIds));
+  }));
+
+  // Starts a QC-RLSC drift correction; the result is saved as a new table
+  // derived from this one
+  app.post("/api/feature-tables/:id/drift-correction", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const source = await storage.getFeatureTable(tableId);
+    
+    if (!source) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, source.experimentId, "Editor");
+    const settings = correctDriftSchema.parse(req.body);
+    const experiment = await storage.getExperiment(source.experimentId);
+    
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+    
+    if (source.status !== "parsed") {
+      return res.status(400).json({ message: "The feature table has not finished importing" });
+    }
+    
+    if (source.derivedFromTableId !== null) {
+      return res.status(400).json({ message: "This table is already drift-corrected; correct its raw table instead" });
+    }
+    
+    const { columns, batches } = driftCorrectionColumns(source, await storage.listSamplesByProject(experiment.projectId), settings);
+    const { columns: sourceColumns, ...sourceTable } = source;
+    const table = await storage.createFeatureTable(
+      {
+        experimentId: source.experimentId,
+        name: settings.name,
+        format: source.format,
+        sourceAttachmentId: source.sourceAttachmentId,
+        sourceFileName: source.sourceFileName,
+        status: "pending",
+        derivedFromTableId: source.id,
+        createdById: req.user!.id,
+      },
+      sourceColumns.map(({ id, tableId, ...column }) => column)
+    );
+    
+    startDriftCorrection(sourceTable, table, columns, batches, settings);
+    res.status(202).json(table);
+  }));
+
+  // Proposes library compounds for the table's features in the background
+  app.post("/api/feature-tables/:id/annotate", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Editor");
+    const settings = annotateFeatureTableSchema.parse(req.body);
+    settings.adducts.forEach(parseAdduct);
+    
+    if (table.status !== "parsed") {
+      return res.status(400).json({ message: "The feature table has not finished importing" });
+    }
+    
+    if (table.annotationStatus === "running") {
+      return res.status(409).json({ message: "The feature table is already being annotated" });
+    }
+    
+    if (settings.rtMethod && (await storage.listRetentionTimesByMethod(settings.rtMethod)).length === 0) {
+      return res.status(400).json({ message: `No retention times are recorded for "${settings.rtMethod}"` });
+    }
     
-    if (!noteId) {
-      return res.status(400).json({ message: "noteId is required" });
+    const updated = await storage.updateFeatureTable(tableId, {
+      annotationStatus: "running",
+      annotationError: null,
+      annotationSettings: settings,
+    });
+    
+    if (!updated) {
+      return res.status(404).json({ message: "Feature table not found" });
     }
     
-    const file = req.file;
-    const validatedData = insertAttachmentSchema.parse({
-      fileName: file.originalname,
-      fileSize: file.size,
-      fileType: file.mimetype,
-      fileData: file.buffer.toString("base64"),
-      noteId: parseInt(noteId),
+    startFeatureAnnotation(updated, settings);
+    res.status(202).json(updated);
+  }));
+
+  app.get("/api/feature-tables/:id/annotations", apiErrorHandler(async (req, res) => {
+    const tableId = parseInt(req.params.id);
+    const query = featureAnnotationQuerySchema.parse(req.query);
+    const table = await storage.getFeatureTable(tableId);
+    
+    if (!table) {
+      return res.status(404).json({ message: "Feature table not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Viewer");
+    res.json(await storage.listFeatureAnnotations(tableId, query));
+  }));
+
+  // Accepts or rejects a proposed annotation, recording who decided
+  app.patch("/api/feature-annotations/:id", apiErrorHandler(async (req, res) => {
+    const annotationId = parseInt(req.params.id);
+    const annotation = await storage.getFeatureAnnotation(annotationId);
+    const table = annotation && await storage.getFeatureTable(annotation.tableId);
+    
+    if (!annotation || !table) {
+      return res.status(404).json({ message: "Annotation not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Editor");
+    const { status } = reviewFeatureAnnotationSchema.parse(req.body);
+    const updated = await storage.reviewFeatureAnnotation(annotationId, status, req.user!.id);
+    
+    if (!updated) {
+      return res.status(404).json({ message: "Annotation not found" });
+    }
+    
+    res.json(updated);
+  }));
+
+  app.get("/api/features/:id", apiErrorHandler(async (req, res) => {
+    const featureId = parseInt(req.params.id);
+    const feature = await storage.getFeature(featureId);
+    const table = feature && await storage.getFeatureTable(feature.tableId);
+    
+    if (!feature || !table) {
+      return res.status(404).json({ message: "Feature not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, table.experimentId, "Viewer");
+    res.json(feature);
+  }));
+
+  // Statistical analysis routes
+  app.get("/api/projects/:projectId/analyses", apiErrorHandler(async (req, res) => {
+    const projectId = parseInt(req.params.projectId);
+    await requireProjectRole(req.user!.id, projectId, "Viewer");
+    res.json(await storage.listStatisticalAnalysesByProject(projectId));
+  }));
+
+  // Saves a new version of a named analysis and runs it in the background
+  app.post("/api/experiments/:id/analyses", apiErrorHandler(async (req, res) => {
+    const experimentId = parseInt(req.params.id);
+    const experiment = await storage.getExperiment(experimentId);
+    
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, experiment, "Editor");
+    const settings = runAnalysisSchema.parse(req.body);
+    const table = await storage.getFeatureTable(settings.featureTableId);
+    
+    if (!table || table.experimentId !== experimentId) {
+      return res.status(404).json({ message: "Feature table not found in this experiment" });
+    }
+    
+    if (table.status !== "parsed") {
+      return res.status(400).json({ message: "The feature table has not finished importing" });
+    }
+    
+    const columns = analysisColumns(table, await storage.listSamplesByProject(experiment.projectId), settings);
+    const analysis = await storage.createStatisticalAnalysis({
+      experimentId,
+      featureTableId: table.id,
+      name: settings.name,
+      settings,
+      status: "running",
+      createdById: req.user!.id,
     });
     
-    const attachment = await storage.createAttachment(validatedData);
-    res.status(201).json(attachment);
+    startStatisticalAnalysis(analysis, columns);
+    res.status(202).json(analysis);
   }));
 
-  app.get("/api/attachments/note/:noteId", apiErrorHandler(async (req, res) => {
-    const noteId = parseInt(req.params.noteId);
-    const attachments = await storage.listAttachmentsByNote(noteId);
-    res.json(attachments);
+  app.get("/api/analyses/:id", apiErrorHandler(async (req, res) => {
+    const analysisId = parseInt(req.params.id);
+    const analysis = await storage.getStatisticalAnalysis(analysisId);
+    
+    if (!analysis) {
+      return res.status(404).json({ message: "Analysis not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, analysis.experimentId, "Viewer");
+    res.json(analysis);
   }));
 
-  app.get("/api/attachments/:id", apiErrorHandler(async (req, res) => {
-    const attachmentId = parseInt(req.params.id);
-    const attachment = await storage.getAttachment(attachmentId);
+  app.get("/api/analyses/:id/results", apiErrorHandler(async (req, res) => {
+    const analysisId = parseInt(req.params.id);
+    const query = analysisResultQuerySchema.parse(req.query);
+    const analysis = await storage.getStatisticalAnalysis(analysisId);
     
-    if (!attachment) {
-      return res.status(404).json({ message: "Attachment not found" });
+    if (!analysis) {
+      return res.status(404).json({ message: "Analysis not found" });
     }
     
-    res.json(attachment);
+    await requireExperimentRole(req.user!.id, analysis.experimentId, "Viewer");
+    res.json(await storage.listAnalysisResults(analysisId, query));
   }));
 
-  app.get("/api/attachments/:id/download", apiErrorHandler(async (req, res) => {
-    const attachmentId = parseInt(req.params.id);
-    const attachment = await storage.getAttachment(attachmentId);
+  // Fold change and p-values of every tested feature, for volcano plots
+  app.get("/api/analyses/:id/volcano", apiErrorHandler(async (req, res) => {
+    const analysisId = parseInt(req.params.id);
+    const analysis = await storage.getStatisticalAnalysis(analysisId);
     
-    if (!attachment) {
-      return res.status(404).json({ message: "Attachment not found" });
+    if (!analysis) {
+      return res.status(404).json({ message: "Analysis not found" });
     }
     
-    const buffer = Buffer.from(attachment.fileData, "base64");
+    await requireExperimentRole(req.user!.id, analysis.experimentId, "Viewer");
     
-    res.setHeader("Content-Type", attachment.fileType);
-    res.setHeader("Content-Disposition", `attachment; filename="${attachment.fileName}"`);
-    res.setHeader("Content-Length", buffer.length);
+    if (analysis.status !== "done" || !analysis.summary) {
+      return res.status(400).json({ message: "The analysis has not finished" });
+    }
     
-    res.send(buffer);
+    const { results } = await storage.listAnalysisResults(analysisId, {
+      sort: "pValue",
+      order: "asc",
+      offset: 0,
+      limit: Math.max(analysis.summary.featureCount, 1),
+    });
+    const points: VolcanoPoint[] = results.map(result => ({
+      featureId: result.featureId,
+      featureKey: result.featureKey,
+      mz: result.mz,
+      rt: result.rt,
+      name: result.name,
+      log2FoldChange: result.log2FoldChange,
+      pValue: result.pValue,
+      qValue: result.qValue,
+    }));
+    res.json(points);
   }));
 
-  app.delete("/api/attachments/:id", apiErrorHandler(async (req, res) => {
-    const attachmentId = parseInt(req.params.id);
-    const success = await storage.deleteAttachment(attachmentId);
+  app.delete("/api/analyses/:id", apiErrorHandler(async (req, res) => {
+    const analysisId = parseInt(req.params.id);
+    const analysis = await storage.getStatisticalAnalysis(analysisId);
+    
+    if (!analysis) {
+      return res.status(404).json({ message: "Analysis not found" });
+    }
+    
+    await requireExperimentRole(req.user!.id, analysis.experimentId, "Editor");
+    const success = await storage.deleteStatisticalAnalysis(analysisId);
     
     if (!success) {
-      return res.status(404).json({ message: "Attachment not found" });
+      return res.status(404).json({ message: "Analysis not found" });
+    }
+    
+    res.status(204).end();
+  }));
+
+  // Integrity checks re-hash every stored attachment in the background and
+  // report mismatches, missing blobs, orphaned rows and duplicate files;
+  // clients poll the check until it is done
+  app.post("/api/admin/attachments/integrity-checks", apiErrorHandler(async (req, res) => {
+    requireAdmin(req.user!);
+    
+    const latest = await storage.getLatestAttachmentIntegrityCheck();
+    if (latest?.status === "running") {
+      return res.status(409).json({ message: "An integrity check is already running" });
+    }
+    
+    const check = await storage.createAttachmentIntegrityCheck({ status: "running", startedById: req.user!.id });
+    startAttachmentIntegrityCheck(check);
+    res.status(202).json(check);
+  }));
+
+  app.get("/api/admin/attachments/integrity-checks/latest", apiErrorHandler(async (req, res) => {
+    requireAdmin(req.user!);
+    const check = await storage.getLatestAttachmentIntegrityCheck();
+    
+    if (!check) {
+      return res.status(404).json({ message: "No integrity check has been run" });
+    }
+    
+    res.json(check);
+  }));
+
+  app.get("/api/admin/attachments/integrity-checks/:id", apiErrorHandler(async (req, res) => {
+    requireAdmin(req.user!);
+    const check = await storage.getAttachmentIntegrityCheck(parseInt(req.params.id));
+    
+    if (!check) {
+      return res.status(404).json({ message: "Integrity check not found" });
+    }
+    
+    res.json(check);
+  }));
+
+  // Resumable upload routes
+  // Large files are sent in chunks: POST creates a session, PATCH appends the
+  // chunk starting at the Upload-Offset header, GET reports how much has
+  // arrived (to resume after a dropped connection) and POST .../complete
+  // checks the SHA-256 and creates the attachment
+  app.post("/api/uploads", apiErrorHandler(async (req, res) => {
+    const validatedData = createUploadSchema.parse(req.body);
+    const note = await storage.getNote(validatedData.noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
+    
+    const upload = await createUpload(req.user!.id, validatedData);
+    res.status(201).json(upload);
+  }));
+
+  app.get("/api/uploads/:id", apiErrorHandler(async (req, res) => {
+    const upload = await getUpload(req.params.id, req.user!.id);
+    
+    if (!upload) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+    
+    res.setHeader("Upload-Offset", upload.offset);
+    res.json(upload);
+  }));
+
+  app.patch("/api/uploads/:id", apiErrorHandler(async (req, res) => {
+    const upload = await getUpload(req.params.id, req.user!.id);
+    
+    if (!upload) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+    
+    const offset = z.coerce.number().int().min(0).parse(req.get("Upload-Offset"));
+    const updated = await appendChunk(upload, offset, req);
+    
+    res.setHeader("Upload-Offset", updated.offset);
+    res.json(updated);
+  }));
+
+  app.post("/api/uploads/:id/complete", apiErrorHandler(async (req, res) => {
+    const upload = await getUpload(req.params.id, req.user!.id);
+    
+    if (!upload) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+    
+    const { sha256 } = completeUploadSchema.parse(req.body);
+    const note = await storage.getNote(upload.noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    // The note may have been locked or access revoked while the file was uploading
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
+    
+    const validatedData = insertAttachmentSchema.parse({
+      fileName: upload.fileName,
+      fileSize: upload.fileSize,
+      fileType: upload.fileType,
+      storageKey: createBlobKey(`attachments/${note.id}`),
+      sha256,
+      noteId: note.id,
+    });
+    
+    await storeUpload(upload, sha256, validatedData.storageKey);
+    let attachment;
+    try {
+      attachment = await storage.createAttachment(validatedData);
+    } catch (error) {
+      await blobStore.delete(validatedData.storageKey);
+      throw error;
+    }
+    
+    await removeUpload(upload.id);
+    await parseAttachment(attachment);
+    res.status(201).json(await withDuplicates(attachment, req.user!.id));
+  }));
+
+  app.delete("/api/uploads/:id", apiErrorHandler(async (req, res) => {
+    const upload = await getUpload(req.params.id, req.user!.id);
+    
+    if (!upload) {
+      return res.status(404).json({ message: "Upload not found" });
     }
     
+    await removeUpload(upload.id);
     res.status(204).end();
   }));
 
   // Project collaborator routes
   app.post("/api/projects/:projectId/collaborators", apiErrorHandler(async (req, res) => {
     const projectId = parseInt(req.params.projectId);
+    const project = await storage.getProject(projectId);
+    
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+    
+    await requireProjectRole(req.user!.id, project, "Owner");
     const validatedData = insertProjectCollaboratorSchema.parse({
       ...req.body,
       projectId,
     });
     
+    if (validatedData.userId === project.ownerId) {
+      return res.status(400).json({ message: "The project owner cannot be added as a collaborator" });
+    }
+    
+    if (!(await storage.getUser(validatedData.userId))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    if (await storage.getCollaborator(projectId, validatedData.userId)) {
+      return res.status(409).json({ message: "User is already a collaborator on this project" });
+    }
+    
     const collaborator = await storage.addCollaborator(validatedData);
     res.status(201).json(collaborator);
   }));
 
   app.get("/api/projects/:projectId/collaborators", apiErrorHandler(async (req, res) => {
     const projectId = parseInt(req.params.projectId);
+    await requireProjectRole(req.user!.id, projectId, "Viewer");
     const collaborators = await storage.listCollaboratorsByProject(projectId);
     res.json(collaborators);
   }));
@@ -306,6 +1975,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/projects/:projectId/collaborators/:userId", apiErrorHandler(async (req, res) => {
     const projectId = parseInt(req.params.projectId);
     const userId = parseInt(req.params.userId);
+    
+    // Owners manage the team; anyone may remove themselves
+    if (userId !== req.user!.id) {
+      await requireProjectRole(req.user!.id, projectId, "Owner");
+    }
+    
     const success = await storage.removeCollaborator(projectId, userId);
     
     if (!success) {
@@ -315,6 +1990,238 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).end();
   }));
 
+  // Chemistry routes
+  app.get("/api/chem/adducts", apiErrorHandler(async (req, res) => {
+    res.json(DEFAULT_ADDUCTS);
+  }));
+
+  app.get("/api/chem/formula", apiErrorHandler(async (req, res) => {
+    const { formula, adducts } = chemFormulaQuerySchema.parse(req.query);
+    res.json(calculateFormula(formula, adducts));
+  }));
+
+  app.get("/api/chem/isotopes", apiErrorHandler(async (req, res) => {
+    const { formula, adduct, minAbundance } = isotopePatternQuerySchema.parse(req.query);
+    res.json(isotopePattern(formula, adduct || undefined, minAbundance));
+  }));
+
+  // Compound routes
+  // The compound library is shared by every project: anyone signed in can
+  // search it and add or edit compounds, only administrators delete them
+  app.get("/api/compounds", apiErrorHandler(async (req, res) => {
+    const query = compoundQuerySchema.parse(req.query);
+    const searchedMass = query.mass
+      ?? (query.mz !== undefined ? adductNeutralMass(query.mz, parseAdduct(query.adduct)) : null);
+    
+    const { total, compounds } = await storage.listCompounds({
+      search: query.search || undefined,
+      mass: searchedMass ?? undefined,
+      tolerance: searchedMass !== null ? searchedMass * query.ppm / 1e6 : undefined,
+      offset: query.offset,
+      limit: query.limit,
+    });
+    
+    const page: CompoundPage = {
+      total,
+      searchedMass,
+      compounds: compounds.map(compound => ({
+        ...compound,
+        massError: searchedMass !== null && compound.monoisotopicMass !== null
+          ? (compound.monoisotopicMass - searchedMass) / searchedMass * 1e6
+          : null,
+      })),
+    };
+    res.json(page);
+  }));
+
+  app.get("/api/compounds/:id", apiErrorHandler(async (req, res) => {
+    const compound = await storage.getCompound(parseInt(req.params.id));
+    
+    if (!compound) {
+      return res.status(404).json({ message: "Compound not found" });
+    }
+    
+    res.json(compound);
+  }));
+
+  // Notes linked to the compound that the caller can see
+  app.get("/api/compounds/:id/notes", apiErrorHandler(async (req, res) => {
+    const compoundId = parseInt(req.params.id);
+    const notes = await storage.listNotesByCompound(compoundId);
+    res.json(await filterNotesByAccess(req.user!.id, notes));
+  }));
+
+  const isInchiKeyTaken = async (inchiKey: string | null | undefined, exceptCompoundId?: number) => {
+    if (!inchiKey) return false;
+    const existing = await storage.getCompoundByInchiKey(inchiKey);
+    return existing !== undefined && existing.id !== exceptCompoundId;
+  };
+
+  app.post("/api/compounds", apiErrorHandler(async (req, res) => {
+    const validatedData = withFormulaMass(normalizeIdentifiers(insertCompoundSchema.parse({
+      ...req.body,
+      createdById: req.user!.id,
+    })));
+    
+    if (await isInchiKeyTaken(validatedData.inchiKey)) {
+      return res.status(409).json({ message: `A compound with InChIKey ${validatedData.inchiKey} is already in the library` });
+    }
+    
+    const [compound] = await storage.createCompounds([validatedData]);
+    res.status(201).json(compound);
+  }));
+
+  // Adds the compounds of an SDF or CSV/TSV file sent as the request body.
+  // Compounds already in the library (by InChIKey) are skipped; nothing is
+  // saved unless every other record is valid. With dryRun=true the parsed
+  // compounds are returned for review instead.
+  app.post(
+    "/api/compounds/import",
+    express.text({ type: ["text/csv", "text/tab-separated-values", "text/plain", "chemical/x-mdl-sdfile"], limit: "50mb" }),
+    apiErrorHandler(async (req, res) => {
+      const { format, dryRun } = importCompoundsQuerySchema.parse(req.query);
+      
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "Send the SDF or CSV file as a text request body" });
+      }
+      
+      const result = parseCompoundFile(
+        req.body,
+        format ?? detectCompoundFormat(req.body),
+        new Set(await storage.listCompoundInchiKeys()),
+        req.user!.id
+      );
+      
+      if (result.errors.length > 0) {
+        return res.status(400).json({
+          message: `The file has ${result.errors.length} ${result.errors.length === 1 ? "problem" : "problems"}`,
+          errors: result.errors,
+        });
+      }
+      
+      if (dryRun) {
+        return res.json(result);
+      }
+      
+      const compounds = await storage.createCompounds(result.compounds);
+      res.status(201).json({ imported: compounds.length, duplicates: result.duplicates });
+    })
+  );
+
+  app.patch("/api/compounds/:id", apiErrorHandler(async (req, res) => {
+    const compoundId = parseInt(req.params.id);
+    const validatedData = withFormulaMass(normalizeIdentifiers(updateCompoundSchema.parse(req.body)));
+    
+    if (await isInchiKeyTaken(validatedData.inchiKey, compoundId)) {
+      return res.status(409).json({ message: `A compound with InChIKey ${validatedData.inchiKey} is already in the library` });
+    }
+    
+    const compound = await storage.updateCompound(compoundId, validatedData);
+    
+    if (!compound) {
+      return res.status(404).json({ message: "Compound not found" });
+    }
+    
+    res.json(compound);
+  }));
+
+  app.delete("/api/compounds/:id", apiErrorHandler(async (req, res) => {
+    requireAdmin(req.user!);
+    const compoundId = parseInt(req.params.id);
+    
+    if (await storage.hasAcceptedAnnotations(compoundId)) {
+      return res.status(409).json({ message: "Features have been annotated as this compound; reject those annotations first" });
+    }
+    
+    const success = await storage.deleteCompound(compoundId);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Compound not found" });
+    }
+    
+    res.status(204).end();
+  }));
+
+  // Retention time library: when compounds elute with each LC method. Saved
+  // RTs raise annotations to MSI level 1, so only administrators change them
+  app.get("/api/retention-times/methods", apiErrorHandler(async (req, res) => {
+    res.json(await storage.listRetentionTimeMethods());
+  }));
+
+  app.get("/api/compounds/:id/retention-times", apiErrorHandler(async (req, res) => {
+    res.json(await storage.listRetentionTimesByCompound(parseInt(req.params.id)));
+  }));
+
+  app.post("/api/compounds/:id/retention-times", apiErrorHandler(async (req, res) => {
+    requireAdmin(req.user!);
+    const compoundId = parseInt(req.params.id);
+    const validatedData = insertRetentionTimeSchema.parse(req.body);
+    
+    if (!await storage.getCompound(compoundId)) {
+      return res.status(404).json({ message: "Compound not found" });
+    }
+    
+    res.status(201).json(await storage.setRetentionTime(compoundId, validatedData, req.user!.id));
+  }));
+
+  app.delete("/api/retention-times/:id", apiErrorHandler(async (req, res) => {
+    requireAdmin(req.user!);
+    const success = await storage.deleteRetentionTime(parseInt(req.params.id));
+    
+    if (!success) {
+      return res.status(404).json({ message: "Retention time not found" });
+    }
+    
+    res.status(204).end();
+  }));
+
+  // Compounds linked to a note; links are part of the note, so they cannot
+  // change once it is signed or submitted for review
+  app.get("/api/notes/:id/compounds", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    await requireNoteRole(req.user!.id, noteId, "Viewer");
+    res.json(await storage.listCompoundsByNote(noteId));
+  }));
+
+  app.post("/api/notes/:id/compounds", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
+    const { compoundId } = linkNoteCompoundSchema.parse(req.body);
+    
+    if (!await storage.getCompound(compoundId)) {
+      return res.status(404).json({ message: "Compound not found" });
+    }
+    
+    await storage.linkNoteCompound(noteId, compoundId);
+    res.status(201).json(await storage.listCompoundsByNote(noteId));
+  }));
+
+  app.delete("/api/notes/:id/compounds/:compoundId", apiErrorHandler(async (req, res) => {
+    const noteId = parseInt(req.params.id);
+    const note = await storage.getNote(noteId);
+    
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+    
+    await requireNoteRole(req.user!.id, note, "Editor");
+    requireUnlockedNote(note);
+    const success = await storage.unlinkNoteCompound(noteId, parseInt(req.params.compoundId));
+    
+    if (!success) {
+      return res.status(404).json({ message: "Compound is not linked to this note" });
+    }
+    
+    res.status(204).end();
+  }));
+
   // Search routes
   app.get("/api/search", apiErrorHandler(async (req, res) => {
     const query = req.query.q as string || "";
@@ -324,20 +2231,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notes: [],
         projects: [],
         experiments: [],
+        compounds: [],
       });
     }
     
-    const [notes, projects, experiments] = await Promise.all([
+    const [notes, projects, experiments, compoundPage] = await Promise.all([
       storage.searchNotes(query),
       storage.searchProjects(query),
       storage.searchExperiments(query),
+      // The library is shared, so compound hits need no access check
+      storage.listCompounds({ search: query.trim(), offset: 0, limit: 50 }),
     ]);
     
+    // Only return hits from projects the caller can see
+    const accessibleIds = await getAccessibleProjectIds(req.user!.id);
+    
     res.json({
-      notes,
-      projects,
-      experiments,
+      notes: await filterNotesByAccess(req.user!.id, notes),
+      projects: projects.filter(project => accessibleIds.has(project.id)),
+      experiments: experiments.filter(experiment => accessibleIds.has(experiment.projectId)),
+      compounds: compoundPage.compounds,
+    });
+  }));
+
+  // Audit routes
+  app.get("/api/audit", apiErrorHandler(async (req, res) => {
+    const filter = auditLogFilterSchema.parse(req.query);
+    
+    // Administrators read the whole log, including the entries of deleted
+    // projects, which no longer have collaborators
+    if (isAdmin(req.user!)) {
+      return res.json(await storage.listAuditEntries(filter));
+    }
+    
+    if (filter.projectId !== undefined) {
+      await requireProjectRole(req.user!.id, filter.projectId, "Viewer");
+      const entries = await storage.listAuditEntries(filter);
+      return res.json(entries);
+    }
+    
+    // Without a project filter, return entries from every visible project
+    const accessibleIds = await getAccessibleProjectIds(req.user!.id);
+    const entries = await storage.listAuditEntries({
+      ...filter,
+      projectIds: Array.from(accessibleIds),
     });
+    res.json(entries);
   }));
 
   const httpServer = createServer(app);
@@ -0,0 +1,165 @@
+import { parseCsv, isBlankRow } from "./csv";
+import { Experiment, InsertSample, SampleImportError, SampleImportResult, SampleType, insertSampleSchema } from "@shared/schema";
+
+const MAX_ROWS = 10000;
+
+type SampleColumn = "sampleCode" | "sampleType" | "matrix" | "organism" | "collectionDate" | "studyGroup" | "experiments";
+
+// Header spellings recognized for each standard column, compared after
+// lower-casing and removing everything but letters and digits. Any other
+// column becomes a free-form attribute.
+const COLUMN_ALIASES: Record<SampleColumn, string[]> = {
+  sampleCode: ["sampleid", "samplecode", "samplename", "sample", "id", "name"],
+  sampleType: ["sampletype", "type"],
+  matrix: ["matrix", "samplematrix"],
+  organism: ["organism", "species"],
+  collectionDate: ["collectiondate", "datecollected", "collected", "date"],
+  studyGroup: ["studygroup", "group", "class"],
+  experiments: ["experiments", "experiment"],
+};
+
+const SAMPLE_TYPE_ALIASES: Record<SampleType, string[]> = {
+  study: ["", "study", "sample", "studysample", "biologicalsample", "unknown"],
+  qc: ["qc", "pooledqc", "qualitycontrol", "pool", "pooled"],
+  blank: ["blank", "solventblank", "extractionblank", "processblank", "procedureblank"],
+  standard: ["standard", "std", "referencestandard", "calibrant", "calibration"],
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function parseSampleType(value: string): SampleType | undefined {
+  const normalized = normalize(value);
+  return (Object.keys(SAMPLE_TYPE_ALIASES) as SampleType[])
+    .find(type => SAMPLE_TYPE_ALIASES[type].includes(normalized));
+}
+
+// Accepts YYYY-MM-DD (or with slashes) and rejects dates that do not exist
+function parseCollectionDate(value: string): string | undefined {
+  const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+// Reads a sample sheet into samples for the project. Problems are collected
+// per row rather than stopping at the first, so the whole sheet can be fixed
+// in one go; samples are only meant to be saved when there are no errors.
+export function parseSampleCsv(
+  csv: string,
+  projectId: number,
+  experiments: Experiment[],
+  existingCodes: Set<string>,
+  experimentIds: number[] = []
+): SampleImportResult {
+  const rows = parseCsv(csv);
+  const errors: SampleImportError[] = [];
+  const samples: InsertSample[] = [];
+
+  const headerIndex = rows.findIndex(row => !isBlankRow(row));
+  if (headerIndex === -1) {
+    return { samples, errors: [{ row: 1, message: "The file has no header row" }] };
+  }
+
+  const header = rows[headerIndex].map(name => name.trim());
+  const columns = new Map<SampleColumn, number>();
+  const attributeColumns: [string, number][] = [];
+  header.forEach((name, index) => {
+    const column = (Object.keys(COLUMN_ALIASES) as SampleColumn[])
+      .find(key => COLUMN_ALIASES[key].includes(normalize(name)));
+    if (column && !columns.has(column)) {
+      columns.set(column, index);
+    } else if (name) {
+      attributeColumns.push([name, index]);
+    }
+  });
+
+  if (!columns.has("sampleCode")) {
+    return { samples, errors: [{ row: headerIndex + 1, message: 'No sample ID column (e.g. "Sample ID")' }] };
+  }
+  if (rows.length - headerIndex - 1 > MAX_ROWS) {
+    return { samples, errors: [{ row: headerIndex + 1, message: `At most ${MAX_ROWS} samples can be imported at once` }] };
+  }
+
+  const experimentsByName = new Map(experiments.map(experiment => [experiment.name.trim().toLowerCase(), experiment.id]));
+  const seenCodes = new Map<string, number>();
+
+  for (let index = headerIndex + 1; index < rows.length; index++) {
+    const fields = rows[index];
+    if (isBlankRow(fields)) continue;
+
+    const row = index + 1;
+    const cell = (column: SampleColumn) => {
+      const position = columns.get(column);
+      return position === undefined ? "" : (fields[position] ?? "").trim();
+    };
+    const rowErrors: string[] = [];
+
+    const sampleCode = cell("sampleCode");
+    if (!sampleCode) {
+      rowErrors.push("Sample ID is missing");
+    } else if (existingCodes.has(sampleCode)) {
+      rowErrors.push(`Sample ID "${sampleCode}" is already registered in this project`);
+    } else if (seenCodes.has(sampleCode)) {
+      rowErrors.push(`Sample ID "${sampleCode}" is repeated (first on row ${seenCodes.get(sampleCode)})`);
+    } else {
+      seenCodes.set(sampleCode, row);
+    }
+
+    const sampleType = parseSampleType(cell("sampleType"));
+    if (!sampleType) {
+      rowErrors.push(`Unknown sample type "${cell("sampleType")}" (use study, QC, blank or standard)`);
+    }
+
+    let collectionDate: string | null = null;
+    if (cell("collectionDate")) {
+      collectionDate = parseCollectionDate(cell("collectionDate")) ?? null;
+      if (!collectionDate) rowErrors.push(`Invalid collection date "${cell("collectionDate")}" (use YYYY-MM-DD)`);
+    }
+
+    const linkedExperimentIds = new Set(experimentIds);
+    for (const name of cell("experiments").split(";").map(part => part.trim()).filter(Boolean)) {
+      const experimentId = experimentsByName.get(name.toLowerCase());
+      if (experimentId === undefined) {
+        rowErrors.push(`No experiment named "${name}" in this project`);
+      } else {
+        linkedExperimentIds.add(experimentId);
+      }
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [name, position] of attributeColumns) {
+      const value = (fields[position] ?? "").trim();
+      if (value) attributes[name] = value;
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map(message => ({ row, message })));
+      continue;
+    }
+
+    const parsed = insertSampleSchema.safeParse({
+      projectId,
+      sampleCode,
+      sampleType,
+      matrix: cell("matrix") || null,
+      organism: cell("organism") || null,
+      collectionDate,
+      studyGroup: cell("studyGroup") || null,
+      attributes,
+      experimentIds: Array.from(linkedExperimentIds),
+    });
+    if (parsed.success) {
+      samples.push(parsed.data);
+    } else {
+      errors.push(...parsed.error.issues.map(issue => ({ row, message: issue.message })));
+    }
+  }
+
+  if (samples.length === 0 && errors.length === 0) {
+    errors.push({ row: headerIndex + 1, message: "The file has no samples" });
+  }
+
+  return { samples, errors };
+}
@@ -0,0 +1,84 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { FeatureTable, Note, NoteSignature, NoteSignatureWithStatus, SignatureMeaning, User } from "@shared/schema";
+
+// Thrown when a signed note (or something it belongs to) would be changed;
+// the API error handler turns it into a 409 response.
+export class NoteLockedError extends Error {
+  constructor(message = "This note has been signed and is locked. Create an amendment instead.") {
+    super(message);
+    this.name = "NoteLockedError";
+  }
+}
+
+// Fingerprint of what a signer saw, so the manifest can show whether the
+// note still matches the signed record
+export function hashNoteContent(note: Pick<Note, "title" | "content">): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ title: note.title, content: note.content ?? "" }))
+    .digest("hex");
+}
+
+export function requireUnlockedNote(note: Note) {
+  if (note.lockedAt) {
+    throw new NoteLockedError();
+  }
+  if (note.status === "submitted") {
+    throw new NoteLockedError("This note is awaiting review and cannot be changed until the reviewer returns it.");
+  }
+}
+
+// Deleting an experiment or project would take its signed notes with it
+export async function requireNoLockedNotesInExperiment(experimentId: number) {
+  const notes = await storage.listNotesByExperiment(experimentId);
+  if (notes.some(note => note.lockedAt)) {
+    throw new NoteLockedError("This experiment contains signed notes and cannot be deleted.");
+  }
+}
+
+export async function requireNoLockedNotesInProject(projectId: number) {
+  const experiments = await storage.listExperimentsByProject(projectId);
+  for (const experiment of experiments) {
+    const notes = await storage.listNotesByExperiment(experiment.id);
+    if (notes.some(note => note.lockedAt)) {
+      throw new NoteLockedError("This project contains signed notes and cannot be deleted.");
+    }
+  }
+}
+
+// A feature table read from a file of a signed note is part of that record;
+// deleting it would also take its analyses and reviewed annotations
+export async function requireUnsignedFeatureTableSource(table: FeatureTable) {
+  const source = table.sourceAttachmentId !== null ? await storage.getAttachment(table.sourceAttachmentId) : undefined;
+  const note = source ? await storage.getNote(source.noteId) : undefined;
+  if (note?.lockedAt) {
+    throw new NoteLockedError("This feature table was imported from a file of a signed note and cannot be deleted.");
+  }
+}
+
+// Records a signature over the note as it is now; the caller has already
+// re-authenticated the signer and checked they may sign with this meaning
+export async function signNote(note: Note, signer: User, meaning: SignatureMeaning): Promise<NoteSignature> {
+  const [latestRevision] = await storage.listNoteRevisions(note.id);
+  return storage.createNoteSignature({
+    noteId: note.id,
+    signerId: signer.id,
+    signerName: signer.displayName,
+    meaning,
+    revision: latestRevision?.revision ?? null,
+    contentHash: hashNoteContent(note),
+  });
+}
+
+export function withSignatureStatus(note: Note, signatures: NoteSignature[]): NoteSignatureWithStatus[] {
+  const currentHash = hashNoteContent(note);
+  return signatures.map(signature => ({
+    ...signature,
+    contentMatches: signature.contentHash === currentHash,
+  }));
+}
+
+export async function getSignatureManifest(note: Note): Promise<NoteSignatureWithStatus[]> {
+  const signatures = await storage.listNoteSignatures(note.id);
+  return withSignatureStatus(note, signatures);
+}
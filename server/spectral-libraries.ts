@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { detectSpectralLibraryFormat, readSpectralLibrary } from "./spectral-library-parser";
+import { Attachment, InsertLibrarySpectrum, SpectralLibrary } from "@shared/schema";
+
+// Spectra are inserted in batches as the file is read
+const BATCH_SIZE = 500;
+
+// Records a pending library for an MGF/MSP attachment and imports its spectra
+// in the background; clients poll the library until its status is parsed or
+// failed. Returns undefined for attachments that are not spectral libraries.
+export async function startSpectralLibraryImport(attachment: Attachment): Promise<SpectralLibrary | undefined> {
+  const format = detectSpectralLibraryFormat(attachment.fileName);
+  if (!format || !attachment.storageKey) return undefined;
+
+  // A concurrent request may have recorded the library first; that request imports it
+  const library = await storage.createSpectralLibrary({ attachmentId: attachment.id, format, status: "pending" });
+  if (!library) return storage.getSpectralLibraryByAttachment(attachment.id);
+
+  const storageKey = attachment.storageKey;
+
+  (async () => {
+    let spectrumCount = 0;
+    try {
+      let batch: InsertLibrarySpectrum[] = [];
+      for await (const spectrum of readSpectralLibrary(await blobStore.get(storageKey), format)) {
+        batch.push({ ...spectrum, libraryId: library.id });
+        spectrumCount++;
+        if (batch.length === BATCH_SIZE) {
+          await storage.addLibrarySpectra(batch);
+          batch = [];
+        }
+      }
+      await storage.addLibrarySpectra(batch);
+
+      if (spectrumCount === 0) throw new Error(`No spectra found in ${attachment.fileName}`);
+    } catch (error) {
+      console.error(`Failed to import ${format} attachment ${attachment.id}:`, error);
+      await storage.deleteLibrarySpectra(library.id);
+      await storage.updateSpectralLibrary(library.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const updated = await storage.updateSpectralLibrary(library.id, { status: "parsed", spectrumCount });
+    // The attachment was deleted during the import; drop what was inserted since
+    if (!updated) await storage.deleteLibrarySpectra(library.id);
+  })().catch(error => {
+    console.error(`Failed to record import result for attachment ${attachment.id}:`, error);
+  });
+
+  return library;
+}
@@ -0,0 +1,242 @@
+import { Readable } from "stream";
+import { createInterface } from "readline";
+import { SpectralLibraryFormat } from "@shared/schema";
+
+// Line-based readers for MS/MS spectral libraries in Mascot Generic Format
+// (MGF) and the NIST MSP text format. Spectra are yielded one at a time so a
+// library is never held in memory as a whole.
+
+export interface ParsedLibrarySpectrum {
+  position: number;
+  name: string | null;
+  precursorMz: number | null;
+  charge: number | null;
+  ionMode: "positive" | "negative" | null;
+  metadata: Record<string, string>;
+  mz: number[];
+  intensity: number[];
+}
+
+export class SpectralLibraryParseError extends Error {
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "SpectralLibraryParseError";
+  }
+}
+
+export function detectSpectralLibraryFormat(fileName: string): SpectralLibraryFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".mgf")) return "mgf";
+  if (lower.endsWith(".msp")) return "msp";
+  return null;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Charges are written as "2+", "+2", "1-" or "2"; MGF allows lists such as
+// "2+ and 3+", of which the first is kept
+function parseCharge(value: string): { charge: number | null; sign: "+" | "-" | null } {
+  const match = value.match(/([+-]?)(\d+)([+-]?)/);
+  if (!match) return { charge: null, sign: null };
+  const sign = (match[1] || match[3] || null) as "+" | "-" | null;
+  return { charge: parseInt(match[2]), sign };
+}
+
+function parseIonMode(value: string): "positive" | "negative" | null {
+  const lower = value.trim().toLowerCase();
+  if (lower.startsWith("p") || lower === "+") return "positive";
+  if (lower.startsWith("n") || lower === "-") return "negative";
+  return null;
+}
+
+// Repeated header fields (e.g. MSP synonyms) are kept, one per line
+function addMetadata(metadata: Record<string, string>, key: string, value: string) {
+  metadata[key] = key in metadata ? `${metadata[key]}\n${value}` : value;
+}
+
+function emptySpectrum(position: number): ParsedLibrarySpectrum {
+  return {
+    position,
+    name: null,
+    precursorMz: null,
+    charge: null,
+    ionMode: null,
+    metadata: {},
+    mz: [],
+    intensity: [],
+  };
+}
+
+function addPeak(spectrum: ParsedLibrarySpectrum, mzText: string, intensityText: string, line: number) {
+  const mz = parseNumber(mzText);
+  const intensity = parseNumber(intensityText);
+  if (mz === null || intensity === null) {
+    throw new SpectralLibraryParseError(`Invalid peak "${mzText} ${intensityText}"`, line);
+  }
+  spectrum.mz.push(mz);
+  spectrum.intensity.push(intensity);
+}
+
+async function* readMgf(lines: AsyncIterable<string>): AsyncGenerator<ParsedLibrarySpectrum> {
+  let spectrum: ParsedLibrarySpectrum | null = null;
+  let position = 0;
+  let lineNumber = 0;
+
+  for await (const rawLine of lines) {
+    lineNumber++;
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";") || line.startsWith("!")) continue;
+
+    if (line.toUpperCase() === "BEGIN IONS") {
+      if (spectrum) throw new SpectralLibraryParseError("BEGIN IONS before END IONS", lineNumber);
+      spectrum = emptySpectrum(position++);
+      continue;
+    }
+
+    // Global parameters before the first spectrum are not spectrum data
+    if (!spectrum) continue;
+
+    if (line.toUpperCase() === "END IONS") {
+      yield spectrum;
+      spectrum = null;
+      continue;
+    }
+
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      const key = line.slice(0, separator).trim().toUpperCase();
+      const value = line.slice(separator + 1).trim();
+      switch (key) {
+        case "TITLE":
+        case "NAME":
+          spectrum.name ??= value;
+          if (key === "NAME") addMetadata(spectrum.metadata, key, value);
+          break;
+        case "PEPMASS":
+          // PEPMASS may be followed by the precursor intensity
+          spectrum.precursorMz = parseNumber(value.split(/\s+/)[0]);
+          break;
+        case "CHARGE": {
+          const { charge, sign } = parseCharge(value);
+          spectrum.charge = charge;
+          if (sign) spectrum.ionMode ??= sign === "+" ? "positive" : "negative";
+          break;
+        }
+        case "IONMODE":
+          spectrum.ionMode = parseIonMode(value) ?? spectrum.ionMode;
+          break;
+        default:
+          addMetadata(spectrum.metadata, key, value);
+      }
+      continue;
+    }
+
+    const [mz, intensity] = line.split(/\s+/);
+    addPeak(spectrum, mz, intensity ?? "", lineNumber);
+  }
+
+  if (spectrum) throw new SpectralLibraryParseError("Missing END IONS at end of file", lineNumber);
+}
+
+async function* readMsp(lines: AsyncIterable<string>): AsyncGenerator<ParsedLibrarySpectrum> {
+  let spectrum: ParsedLibrarySpectrum | null = null;
+  let expectedPeaks: number | null = null;
+  let position = 0;
+  let lineNumber = 0;
+
+  const finish = (line: number) => {
+    const finished = spectrum!;
+    if (expectedPeaks !== null && finished.mz.length !== expectedPeaks) {
+      throw new SpectralLibraryParseError(
+        `${finished.name ?? "Spectrum"} declares ${expectedPeaks} peaks but has ${finished.mz.length}`,
+        line
+      );
+    }
+    spectrum = null;
+    expectedPeaks = null;
+    return finished;
+  };
+
+  for await (const rawLine of lines) {
+    lineNumber++;
+    const line = rawLine.trim();
+
+    // Records are separated by blank lines
+    if (!line) {
+      if (spectrum) yield finish(lineNumber);
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+
+    // Some libraries start the next record without a blank line
+    if (spectrum && expectedPeaks !== null && spectrum.mz.length >= expectedPeaks && /^[a-z]/i.test(line)) {
+      yield finish(lineNumber);
+    }
+
+    spectrum ??= emptySpectrum(position++);
+
+    // Peak lists follow "Num Peaks" and hold "m/z intensity" pairs, several to
+    // a line separated by semicolons, optionally with quoted annotations
+    if (expectedPeaks !== null) {
+      for (const pair of line.replace(/"[^"]*"/g, "").split(/[;,]/)) {
+        const [mz, intensity] = pair.trim().split(/[\s:]+/);
+        if (mz) addPeak(spectrum, mz, intensity ?? "", lineNumber);
+      }
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator <= 0) {
+      throw new SpectralLibraryParseError(`Expected "Field: value", found "${line}"`, lineNumber);
+    }
+    const field = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field.toLowerCase().replace(/[\s_]/g, "")) {
+      case "name":
+        spectrum.name = value;
+        break;
+      case "precursormz":
+        spectrum.precursorMz = parseNumber(value.split(/\s+/)[0]);
+        break;
+      case "charge": {
+        const { charge, sign } = parseCharge(value);
+        spectrum.charge = charge;
+        if (sign) spectrum.ionMode ??= sign === "+" ? "positive" : "negative";
+        break;
+      }
+      case "ionmode":
+        spectrum.ionMode = parseIonMode(value) ?? spectrum.ionMode;
+        break;
+      case "numpeaks":
+        expectedPeaks = parseInt(value);
+        if (!Number.isFinite(expectedPeaks)) {
+          throw new SpectralLibraryParseError(`Invalid peak count "${value}"`, lineNumber);
+        }
+        break;
+      default:
+        addMetadata(spectrum.metadata, field, value);
+        // Precursor types such as [M+2H]2+ carry the charge and polarity
+        if (/^precursor[\s_]?type$/i.test(field)) {
+          const match = value.match(/\](\d*)([+-])$/);
+          if (match) {
+            spectrum.charge ??= match[1] ? parseInt(match[1]) : 1;
+            spectrum.ionMode ??= match[2] === "+" ? "positive" : "negative";
+          }
+        }
+    }
+  }
+
+  if (spectrum) yield finish(lineNumber);
+}
+
+const readers = { mgf: readMgf, msp: readMsp };
+
+export function readSpectralLibrary(stream: Readable, format: SpectralLibraryFormat): AsyncGenerator<ParsedLibrarySpectrum> {
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  return readers[format](lines);
+}
@@ -0,0 +1,110 @@
+import { LibrarySpectrum, SpectralMatch, SpectralMatchQuery } from "@shared/schema";
+
+type MatchSpectrum = Pick<LibrarySpectrum, "precursorMz" | "mz" | "intensity">;
+
+interface Peak {
+  mz: number;
+  weight: number;
+}
+
+interface SimilarityScore {
+  score: number;
+  matchedPeaks: number;
+}
+
+// Peaks sorted by m/z, weighted by the square root of their intensity so a
+// few dominant fragments do not decide the score on their own
+function weightedPeaks(spectrum: MatchSpectrum): Peak[] {
+  const peaks: Peak[] = [];
+  spectrum.mz.forEach((mz, index) => {
+    const intensity = spectrum.intensity[index];
+    if (intensity > 0) peaks.push({ mz, weight: Math.sqrt(intensity) });
+  });
+  return peaks.sort((a, b) => a.mz - b.mz);
+}
+
+function norm(peaks: Peak[]): number {
+  return Math.sqrt(peaks.reduce((sum, peak) => sum + peak.weight * peak.weight, 0));
+}
+
+// Pairs of query and library peaks within tolerance of each other once the
+// query peak is moved by shift, with the product of their weights
+function peakPairs(query: Peak[], library: Peak[], shift: number, tolerance: number) {
+  const pairs: { query: number; library: number; product: number }[] = [];
+  let start = 0;
+  query.forEach((peak, queryIndex) => {
+    const mz = peak.mz + shift;
+    while (start < library.length && library[start].mz < mz - tolerance) start++;
+    for (let libraryIndex = start; libraryIndex < library.length && library[libraryIndex].mz <= mz + tolerance; libraryIndex++) {
+      pairs.push({ query: queryIndex, library: libraryIndex, product: peak.weight * library[libraryIndex].weight });
+    }
+  });
+  return pairs;
+}
+
+// Greedy cosine: the best-scoring pairs are taken first and each peak is
+// used at most once. The modified cosine also pairs peaks that differ by the
+// precursor m/z difference, so fragments that kept a modification still match.
+function cosineScore(query: Peak[], library: Peak[], shifts: number[], tolerance: number): SimilarityScore {
+  const denominator = norm(query) * norm(library);
+  if (denominator === 0) return { score: 0, matchedPeaks: 0 };
+
+  const pairs = shifts.flatMap(shift => peakPairs(query, library, shift, tolerance));
+  pairs.sort((a, b) => b.product - a.product);
+
+  const usedQuery = new Set<number>();
+  const usedLibrary = new Set<number>();
+  let sum = 0;
+  for (const pair of pairs) {
+    if (usedQuery.has(pair.query) || usedLibrary.has(pair.library)) continue;
+    usedQuery.add(pair.query);
+    usedLibrary.add(pair.library);
+    sum += pair.product;
+  }
+  // Rounding can put a perfect match a hair above 1
+  return { score: Math.min(1, sum / denominator), matchedPeaks: usedQuery.size };
+}
+
+// Scores library spectra against a query spectrum and returns the hits that
+// pass settings.minScore and settings.minMatchedPeaks in the chosen score,
+// best first. The candidates are expected to be within the precursor
+// tolerance already.
+export function matchSpectra(
+  query: MatchSpectrum,
+  candidates: LibrarySpectrum[],
+  settings: Pick<SpectralMatchQuery, "fragmentTolerance" | "sort" | "minScore" | "minMatchedPeaks" | "limit">
+): SpectralMatch[] {
+  const queryPeaks = weightedPeaks(query);
+  const matches: SpectralMatch[] = [];
+
+  for (const candidate of candidates) {
+    const libraryPeaks = weightedPeaks(candidate);
+    const cosine = cosineScore(queryPeaks, libraryPeaks, [0], settings.fragmentTolerance);
+
+    const precursorMzError = query.precursorMz !== null && candidate.precursorMz !== null
+      ? query.precursorMz - candidate.precursorMz
+      : null;
+    // Without both precursors there is no shift to apply
+    const shift = -(precursorMzError ?? 0);
+    const modifiedCosine = Math.abs(shift) > settings.fragmentTolerance
+      ? cosineScore(queryPeaks, libraryPeaks, [0, shift], settings.fragmentTolerance)
+      : cosine;
+
+    const ranked = settings.sort === "cosine" ? cosine : modifiedCosine;
+    if (ranked.score < settings.minScore || ranked.matchedPeaks < settings.minMatchedPeaks) continue;
+
+    const { mz, intensity: _intensity, ...summary } = candidate;
+    matches.push({
+      spectrum: { ...summary, peakCount: mz.length },
+      precursorMzError,
+      cosine: cosine.score,
+      cosineMatchedPeaks: cosine.matchedPeaks,
+      modifiedCosine: modifiedCosine.score,
+      modifiedCosineMatchedPeaks: modifiedCosine.matchedPeaks,
+    });
+  }
+
+  return matches
+    .sort((a, b) => b[settings.sort] - a[settings.sort])
+    .slice(0, settings.limit);
+}
@@ -0,0 +1,364 @@
+import {
+  AnalysisSummary,
+  Feature,
+  FeatureTableWithColumns,
+  InsertAnalysisResult,
+  RunAnalysis,
+  Sample,
+} from "@shared/schema";
+
+export class AnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+// Adjusted p-value under which a feature counts as significant in the summary
+const SIGNIFICANCE_LEVEL = 0.05;
+
+// A feature table column taking part in the analysis, with the index of its
+// group in the settings' groups
+export interface AnalysisColumn {
+  position: number;
+  group: number;
+}
+
+type Matrix = (number | null)[][];
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Sample variance, with n - 1 degrees of freedom
+function variance(values: number[]): number {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+const observed = (values: (number | null)[]) => values.filter((value): value is number => value !== null);
+
+// Columns mapped to samples in one of the compared groups. Groups are read
+// from the samples' study group, or the attribute named in the settings.
+export function analysisColumns(table: FeatureTableWithColumns, samples: Sample[], settings: RunAnalysis): AnalysisColumn[] {
+  const groupOf = (sample: Sample) => (settings.groupAttribute
+    ? sample.attributes[settings.groupAttribute]
+    : sample.studyGroup)?.trim() ?? null;
+  const sampleGroups = new Map(samples.map(sample => [sample.id, groupOf(sample)]));
+
+  const columns: AnalysisColumn[] = [];
+  for (const column of table.columns) {
+    const group = column.sampleId !== null ? sampleGroups.get(column.sampleId) : null;
+    const index = group ? settings.groups.indexOf(group) : -1;
+    if (index !== -1) columns.push({ position: column.position, group: index });
+  }
+
+  settings.groups.forEach((group, index) => {
+    const size = columns.filter(column => column.group === index).length;
+    if (size < 2) {
+      throw new AnalysisError(`Group "${group}" has ${size} sample ${size === 1 ? "column" : "columns"} in this table; at least 2 are needed`);
+    }
+  });
+  return columns;
+}
+
+// Half the feature's smallest detected value
+function imputeHalfMinimum(matrix: Matrix): Matrix {
+  return matrix.map(row => {
+    const values = observed(row);
+    const fill = Math.min(...values) / 2;
+    return row.map(value => value ?? fill);
+  });
+}
+
+// k-nearest-neighbour imputation across samples: a missing value is the mean
+// of that feature in the k most similar samples that detected it. Similarity
+// is the root mean square difference of the log intensities both samples
+// detected, so abundant features do not dominate.
+function imputeKnn(matrix: Matrix, neighbors: number): Matrix {
+  const sampleCount = matrix[0]?.length ?? 0;
+  const logs = matrix.map(row => row.map(value => value === null ? null : Math.log2(value)));
+
+  const distances = Array.from({ length: sampleCount }, () => new Array<number>(sampleCount).fill(Infinity));
+  for (let a = 0; a < sampleCount; a++) {
+    for (let b = a + 1; b < sampleCount; b++) {
+      let sum = 0;
+      let shared = 0;
+      for (const row of logs) {
+        if (row[a] === null || row[b] === null) continue;
+        sum += (row[a]! - row[b]!) ** 2;
+        shared++;
+      }
+      if (shared > 0) distances[a][b] = distances[b][a] = Math.sqrt(sum / shared);
+    }
+  }
+  const nearest = distances.map((row, sample) => row
+    .map((distance, other) => ({ distance, other }))
+    .filter(entry => entry.other !== sample && entry.distance !== Infinity)
+    .sort((a, b) => a.distance - b.distance)
+    .map(entry => entry.other));
+
+  return matrix.map(row => {
+    const fallback = Math.min(...observed(row)) / 2;
+    return row.map((value, sample) => {
+      if (value !== null) return value;
+      const donors = nearest[sample].filter(other => row[other] !== null).slice(0, neighbors);
+      return donors.length > 0 ? mean(donors.map(other => row[other]!)) : fallback;
+    });
+  });
+}
+
+// Divides each sample's values by a dilution factor
+function scaleSamples(matrix: Matrix, factors: (number | null)[]): Matrix {
+  return matrix.map(row => row.map((value, sample) => {
+    const factor = factors[sample];
+    return value === null || !factor ? value : value / factor;
+  }));
+}
+
+function sampleValues(matrix: Matrix, sample: number): number[] {
+  return observed(matrix.map(row => row[sample]));
+}
+
+// Total ion count: every sample is scaled to the median total signal
+function normalizeTotal(matrix: Matrix): Matrix {
+  const sampleCount = matrix[0]?.length ?? 0;
+  const totals = Array.from({ length: sampleCount }, (_, sample) => sampleValues(matrix, sample).reduce((sum, value) => sum + value, 0));
+  const target = median(totals)!;
+  return scaleSamples(matrix, totals.map(total => total / target));
+}
+
+function normalizeMedian(matrix: Matrix): Matrix {
+  const sampleCount = matrix[0]?.length ?? 0;
+  const medians = Array.from({ length: sampleCount }, (_, sample) => median(sampleValues(matrix, sample)));
+  const target = median(observed(medians));
+  return scaleSamples(matrix, medians.map(value => value === null || !target ? null : value / target));
+}
+
+// Probabilistic quotient normalization (Dieterle et al. 2006): after total
+// signal normalization, each sample is divided by the median of its quotients
+// to the median sample
+function normalizePqn(matrix: Matrix): Matrix {
+  const total = normalizeTotal(matrix);
+  const reference = total.map(row => median(observed(row)));
+  const sampleCount = matrix[0]?.length ?? 0;
+  const factors = Array.from({ length: sampleCount }, (_, sample) => median(total.flatMap((row, feature) => {
+    const value = row[sample];
+    return value !== null && reference[feature] ? [value / reference[feature]!] : [];
+  })));
+  return scaleSamples(total, factors);
+}
+
+// Each feature centred on its mean and divided by its standard deviation
+function autoscale(matrix: Matrix): Matrix {
+  return matrix.map(row => {
+    const values = observed(row);
+    const average = mean(values);
+    const deviation = values.length > 1 ? Math.sqrt(variance(values)) : 0;
+    return row.map(value => value === null ? null : deviation > 0 ? (value - average) / deviation : 0);
+  });
+}
+
+// Natural log of the gamma function (Lanczos approximation)
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) series += coefficient / ++y;
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+// Continued fraction for the incomplete beta function (Numerical Recipes)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 3e-14) break;
+  }
+  return result;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+}
+
+interface TestResult {
+  statistic: number;
+  pValue: number;
+}
+
+// Welch's unequal-variance t-test, two-sided
+export function welchTTest(first: number[], second: number[]): TestResult | null {
+  if (first.length < 2 || second.length < 2) return null;
+  const firstError = variance(first) / first.length;
+  const secondError = variance(second) / second.length;
+  const standardError = Math.sqrt(firstError + secondError);
+  if (standardError === 0) return null;
+
+  const statistic = (mean(second) - mean(first)) / standardError;
+  const degreesOfFreedom = (firstError + secondError) ** 2 /
+    (firstError ** 2 / (first.length - 1) + secondError ** 2 / (second.length - 1));
+  const pValue = incompleteBeta(degreesOfFreedom / (degreesOfFreedom + statistic ** 2), degreesOfFreedom / 2, 0.5);
+  return { statistic, pValue };
+}
+
+// One-way ANOVA F-test
+export function oneWayAnova(groups: number[][]): TestResult | null {
+  if (groups.some(group => group.length < 2)) return null;
+  const all = groups.flat();
+  const grandMean = mean(all);
+  const between = groups.reduce((sum, group) => sum + group.length * (mean(group) - grandMean) ** 2, 0);
+  const within = groups.reduce((sum, group) => sum + variance(group) * (group.length - 1), 0);
+  const betweenDf = groups.length - 1;
+  const withinDf = all.length - groups.length;
+  if (within === 0 || withinDf === 0) return null;
+
+  const statistic = (between / betweenDf) / (within / withinDf);
+  const pValue = incompleteBeta(withinDf / (withinDf + betweenDf * statistic), withinDf / 2, betweenDf / 2);
+  return { statistic, pValue };
+}
+
+// Benjamini-Hochberg adjusted p-values; null p-values stay null and do not
+// count towards the number of tests
+export function benjaminiHochberg(pValues: (number | null)[]): (number | null)[] {
+  const ranked = pValues
+    .map((pValue, index) => ({ pValue, index }))
+    .filter((entry): entry is { pValue: number; index: number } => entry.pValue !== null)
+    .sort((a, b) => a.pValue - b.pValue);
+
+  const adjusted: (number | null)[] = pValues.map(() => null);
+  let running = 1;
+  for (let rank = ranked.length; rank >= 1; rank--) {
+    const entry = ranked[rank - 1];
+    running = Math.min(running, entry.pValue * ranked.length / rank);
+    adjusted[entry.index] = running;
+  }
+  return adjusted;
+}
+
+// Preprocessing parameters shared by statistical analyses and PCA
+export type PreprocessingSettings = Pick<
+  RunAnalysis,
+  "maxMissingFraction" | "imputation" | "knnNeighbors" | "normalization" | "logTransform" | "scaling"
+>;
+
+export interface PreprocessedMatrix {
+  // Features kept after missing-value filtering, one matrix row each
+  features: Feature[];
+  // After imputation and normalization, on the original intensity scale
+  normalized: Matrix;
+  // After the optional log transform and autoscaling
+  transformed: Matrix;
+}
+
+// Missing-value filtering and imputation, normalization, then the optional
+// log transform and autoscaling of the values at the given column positions
+export function preprocessFeatures(features: Feature[], positions: number[], settings: PreprocessingSettings): PreprocessedMatrix {
+  const detected = (value: number | null | undefined) => value !== null && value !== undefined && value > 0 ? value : null;
+  const kept: Feature[] = [];
+  let raw: Matrix = [];
+  for (const feature of features) {
+    const row = positions.map(position => detected(feature.intensities[position]));
+    const missing = row.filter(value => value === null).length;
+    if (missing === row.length || missing / row.length > settings.maxMissingFraction) continue;
+    kept.push(feature);
+    raw.push(row);
+  }
+
+  if (settings.imputation === "halfMin") raw = imputeHalfMinimum(raw);
+  if (settings.imputation === "knn") raw = imputeKnn(raw, settings.knnNeighbors);
+
+  const normalized = settings.normalization === "tic" ? normalizeTotal(raw)
+    : settings.normalization === "median" ? normalizeMedian(raw)
+    : settings.normalization === "pqn" ? normalizePqn(raw)
+    : raw;
+
+  let transformed = settings.logTransform
+    ? normalized.map(row => row.map(value => value === null ? null : Math.log2(value)))
+    : normalized;
+  if (settings.scaling === "auto") transformed = autoscale(transformed);
+
+  return { features: kept, normalized, transformed };
+}
+
+// Runs the pipeline on the chosen columns and tests each feature. Fold
+// changes and group means are taken after normalization, on the original
+// intensity scale.
+export function runStatisticalAnalysis(
+  features: Feature[],
+  columns: AnalysisColumn[],
+  settings: RunAnalysis
+): { results: Omit<InsertAnalysisResult, "analysisId">[]; summary: AnalysisSummary } {
+  const { features: kept, normalized, transformed } = preprocessFeatures(
+    features,
+    columns.map(column => column.position),
+    settings
+  );
+
+  const byGroup = (row: (number | null)[]) => settings.groups.map((_, group) =>
+    observed(row.filter((_, index) => columns[index].group === group)));
+
+  const tests = transformed.map(row => {
+    const groups = byGroup(row);
+    return settings.test === "ttest" ? welchTTest(groups[0], groups[1]) : oneWayAnova(groups);
+  });
+  const qValues = benjaminiHochberg(tests.map(test => test?.pValue ?? null));
+
+  const results = kept.map((feature, index) => {
+    const groupMeans = byGroup(normalized[index]).map(values => values.length > 0 ? mean(values) : 0);
+    const log2FoldChange = groupMeans[0] > 0 && groupMeans[1] > 0 ? Math.log2(groupMeans[1] / groupMeans[0]) : null;
+    return {
+      featureId: feature.id,
+      statistic: tests[index]?.statistic ?? null,
+      pValue: tests[index]?.pValue ?? null,
+      qValue: qValues[index],
+      log2FoldChange,
+      groupMeans,
+    };
+  });
+
+  return {
+    results,
+    summary: {
+      groupSizes: settings.groups.map((_, group) => columns.filter(column => column.group === group).length),
+      featureCount: kept.length,
+      excludedFeatureCount: features.length - kept.length,
+      significantCount: qValues.filter(qValue => qValue !== null && qValue < SIGNIFICANCE_LEVEL).length,
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+import { DatabaseStorage, IStorage, MemStorage } from "./storage";
+import { db } from "./db";
+import { runAsActor } from "./request-context";
+
+// DatabaseStorage runs against an in-memory Postgres (PGlite) with the
+// schema created from shared/schema.ts, as `npm run db:push` would
+vi.mock("./db", async () => {
+  const { createRequire } = await import("module");
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const schema = await import("@shared/schema");
+  const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+  const client = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  return { db: drizzle(client, { schema }), pool: undefined };
+});
+
+async function resetDatabase() {
+  await db.execute(sql`
+    DO $$ DECLARE t text; BEGIN
+      FOR t IN SELECT tablename FROM pg_tables WHERE schemaname = 'public' LOOP
+        EXECUTE format('TRUNCATE %I RESTART IDENTITY CASCADE', t);
+      END LOOP;
+    END $$
+  `);
+}
+
+const implementations: [string, () => IStorage][] = [
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+];
+
+describe.each(implementations)("%s audit log", (_name, createStorage) => {
+  let storage: IStorage;
+  let userId: number;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    storage = createStorage();
+    const user = await storage.createUser({
+      username: "j.doe",
+      password: "password123",
+      displayName: "J. Doe",
+      role: "Researcher",
+    });
+    userId = user.id;
+  });
+
+  const asUser = <T>(fn: () => Promise<T>) => runAsActor(userId, fn);
+
+  it("records creates, updates and deletes with the actor and before/after values", async () => {
+    const project = await asUser(() => storage.createProject({ name: "Plasma lipids", description: null, ownerId: userId }));
+    await asUser(() => storage.updateProject(project.id, { name: "Plasma lipidomics" }));
+    await asUser(() => storage.deleteProject(project.id));
+
+    const entries = await storage.listAuditEntries({ entityType: "project", entityId: project.id, limit: 200 });
+    expect(entries.map(entry => entry.action)).toEqual(["delete", "update", "create"]);
+    expect(entries.every(entry => entry.actorId === userId && entry.projectId === project.id)).toBe(true);
+
+    const [deleted, updated, created] = entries;
+    expect(created.before).toBeNull();
+    expect(created.after).toMatchObject({ name: "Plasma lipids" });
+    expect(updated.before).toMatchObject({ name: "Plasma lipids" });
+    expect(updated.after).toMatchObject({ name: "Plasma lipidomics" });
+    expect(deleted.before).toMatchObject({ name: "Plasma lipidomics" });
+    expect(deleted.after).toBeNull();
+  });
+
+  it("records the experiments and notes deleted with their project", async () => {
+    const project = await asUser(() => storage.createProject({ name: "Urine", description: null, ownerId: userId }));
+    const experiment = await asUser(() => storage.createExperiment({ name: "Batch 1", description: null, projectId: project.id }));
+    const note = await asUser(() => storage.createNote({
+      title: "Extraction",
+      content: "<p>Methanol</p>",
+      experimentId: experiment.id,
+      authorId: userId,
+    }));
+    await asUser(() => storage.deleteProject(project.id));
+
+    const deletions = await storage.listAuditEntries({ projectId: project.id, action: "delete", limit: 200 });
+    expect(deletions.map(entry => [entry.entityType, entry.entityId])).toEqual(expect.arrayContaining([
+      ["project", project.id],
+      ["experiment", experiment.id],
+      ["note", note.id],
+    ]));
+  });
+
+  it("keeps entries as written when the entity changes later", async () => {
+    const project = await asUser(() => storage.createProject({ name: "Feces", description: null, ownerId: userId }));
+    const [created] = await storage.listAuditEntries({ entityType: "project", entityId: project.id, limit: 200 });
+    await asUser(() => storage.updateProject(project.id, { name: "Stool" }));
+
+    const entries = await storage.listAuditEntries({ entityType: "project", entityId: project.id, action: "create", limit: 200 });
+    expect(entries).toEqual([created]);
+    expect(entries[0].after).toMatchObject({ name: "Feces" });
+  });
+
+  it("records changes made outside a request without an actor", async () => {
+    const project = await storage.createProject({ name: "Imported", description: null, ownerId: userId });
+
+    const [entry] = await storage.listAuditEntries({ entityType: "project", entityId: project.id, limit: 200 });
+    expect(entry.actorId).toBeNull();
+  });
+
+  it("filters by project, actor and the projects a caller can see", async () => {
+    const first = await asUser(() => storage.createProject({ name: "First", description: null, ownerId: userId }));
+    const second = await storage.createProject({ name: "Second", description: null, ownerId: userId });
+    await asUser(() => storage.createExperiment({ name: "Run", description: null, projectId: second.id }));
+
+    const inFirst = await storage.listAuditEntries({ projectId: first.id, limit: 200 });
+    expect(inFirst.map(entry => entry.entityId)).toEqual([first.id]);
+
+    const byUser = await storage.listAuditEntries({ actorId: userId, limit: 200 });
+    expect(byUser.map(entry => entry.entityType).sort()).toEqual(["experiment", "project"]);
+
+    expect(await storage.listAuditEntries({ projectIds: [], limit: 200 })).toEqual([]);
+    const visible = await storage.listAuditEntries({ projectIds: [second.id], limit: 200 });
+    expect(visible.every(entry => entry.projectId === second.id)).toBe(true);
+    expect(visible).toHaveLength(2);
+  });
+});
@@ -2,17 +2,92 @@ import {
   users, User, InsertUser,
   projects, Project, InsertProject,
   experiments, Experiment, InsertExperiment,
-  notes, Note, InsertNote,
+  notes, Note, InsertNote, NoteReviewFields,
+  noteRevisions, NoteRevision, NoteRevisionSummary,
+  noteSignatures, NoteSignature, InsertNoteSignature,
   attachments, Attachment, InsertAttachment,
-  projectCollaborators, ProjectCollaborator, InsertProjectCollaborator
+  attachmentIntegrityChecks, AttachmentIntegrityCheck, InsertAttachmentIntegrityCheck,
+  msRuns, MsRun, InsertMsRun,
+  spectralLibraries, SpectralLibrary, InsertSpectralLibrary, SpectralLibraryWithSource,
+  librarySpectra, LibrarySpectrum, InsertLibrarySpectrum, LibrarySpectraQuery, LibrarySpectrumPage,
+  samples, Sample, SampleWithExperiments, InsertSample, UpdateSample, SampleChanges,
+  experimentSamples, ExperimentSample,
+  featureTables, FeatureTable, InsertFeatureTable, FeatureTableWithColumns,
+  featureTableColumns, FeatureTableColumn, InsertFeatureTableColumn,
+  features, Feature, InsertFeature, FeatureQuery, FeaturePage, FeatureRow, QcSummary,
+  compounds, Compound, InsertCompound, UpdateCompound,
+  noteCompounds, NoteCompound,
+  compoundRetentionTimes, CompoundRetentionTime, InsertRetentionTime,
+  featureAnnotations, FeatureAnnotation, InsertFeatureAnnotation, FeatureAnnotationQuery,
+  FeatureAnnotationStatus, FeatureAnnotationWithCompound,
+  statisticalAnalyses, StatisticalAnalysis, InsertStatisticalAnalysis, AnalysisSummary,
+  analysisResults, AnalysisResult, InsertAnalysisResult, AnalysisResultQuery, AnalysisResultPage,
+  projectCollaborators, ProjectCollaborator, InsertProjectCollaborator,
+  auditLog, AuditLogEntry, InsertAuditLogEntry, AuditLogFilter
 } from "@shared/schema";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { hashPassword } from "./passwords";
+import { getActorId } from "./request-context";
+import { blobStore } from "./blob-store";
+import type { LibraryMass } from "./feature-annotation";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Audit filter as used by storage; projectIds restricts results to a set of
+// projects (e.g. those the caller can see)
+export type AuditLogQuery = AuditLogFilter & { projectIds?: number[] };
+
+// Compound search as used by storage: a name or identifier search and/or a
+// neutral mass window (mass ± tolerance, in Da). Mass searches are ordered by
+// distance from the mass, others by name.
+export interface CompoundSearch {
+  search?: string;
+  mass?: number;
+  tolerance?: number;
+  offset: number;
+  limit: number;
+}
+
+// Compounds and annotations are inserted in batches so large library imports
+// and annotation runs stay within the database's parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+// Applies bulk-edit attribute changes; an empty value removes the attribute
+function mergeSampleAttributes(current: Record<string, string>, changes: Record<string, string> = {}) {
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === "") delete merged[key];
+    else merged[key] = value;
+  }
+  return merged;
+}
+
+// Removes the contents of deleted attachments once their rows are gone. A blob
+// that fails to delete is only logged; the rows are already committed.
+async function deleteAttachmentBlobs(storageKeys: (string | null)[]) {
+  for (const key of storageKeys) {
+    if (!key) continue;
+    try {
+      await blobStore.delete(key);
+    } catch (error) {
+      console.error(`Failed to delete attachment blob ${key}:`, error);
+    }
+  }
+}
 
 // Interface for Storage operations
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   listUsers(): Promise<User[]>;
 
   // Project operations
@@ -29,6 +104,7 @@ export interface IStorage {
   listExperimentsByProject(projectId: number): Promise<Experiment[]>;
   createExperiment(experiment: InsertExperiment): Promise<Experiment>;
   updateExperiment(id: number, experiment: Partial<InsertExperiment>): Promise<Experiment | undefined>;
+  setExperimentQcSummary(id: number, qcSummary: QcSummary | null): Promise<Experiment | undefined>;
   deleteExperiment(id: number): Promise<boolean>;
   
   // Note operations
@@ -38,29 +114,162 @@ export interface IStorage {
   createNote(note: InsertNote): Promise<Note>;
   updateNote(id: number, note: Partial<InsertNote>): Promise<Note | undefined>;
   deleteNote(id: number): Promise<boolean>;
+  // Review status changes leave the content alone, so they do not create a revision
+  updateNoteReview(id: number, review: Partial<NoteReviewFields>): Promise<Note | undefined>;
+  listNotesByReviewer(reviewerId: number): Promise<Note[]>;
+  
+  // Note revision operations (revisions are written by createNote/updateNote)
+  listNoteRevisions(noteId: number): Promise<NoteRevisionSummary[]>;
+  getNoteRevision(noteId: number, revision: number): Promise<NoteRevision | undefined>;
+  
+  // Note signature operations (the first signature locks the note)
+  listNoteSignatures(noteId: number): Promise<NoteSignature[]>;
+  createNoteSignature(signature: InsertNoteSignature): Promise<NoteSignature>;
   
   // Attachment operations
   getAttachment(id: number): Promise<Attachment | undefined>;
+  listAttachments(): Promise<Attachment[]>;
   listAttachmentsByNote(noteId: number): Promise<Attachment[]>;
+  listAttachmentsBySha256(sha256: string): Promise<Attachment[]>;
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
   deleteAttachment(id: number): Promise<boolean>;
+
+  // Attachment integrity check operations (background re-hashes of all blobs)
+  getAttachmentIntegrityCheck(id: number): Promise<AttachmentIntegrityCheck | undefined>;
+  getLatestAttachmentIntegrityCheck(): Promise<AttachmentIntegrityCheck | undefined>;
+  createAttachmentIntegrityCheck(check: InsertAttachmentIntegrityCheck): Promise<AttachmentIntegrityCheck>;
+  updateAttachmentIntegrityCheck(id: number, check: Partial<InsertAttachmentIntegrityCheck>): Promise<AttachmentIntegrityCheck | undefined>;
+
+  // MS run operations (parsed mzML/mzXML attachments)
+  getMsRunByAttachment(attachmentId: number): Promise<MsRun | undefined>;
+  // Returns undefined if the attachment already has a run
+  createMsRun(msRun: InsertMsRun): Promise<MsRun | undefined>;
+  updateMsRun(id: number, msRun: Partial<InsertMsRun>): Promise<MsRun | undefined>;
+
+  // Spectral library operations (imported MGF/MSP attachments)
+  getSpectralLibrary(id: number): Promise<SpectralLibrary | undefined>;
+  getSpectralLibraryByAttachment(attachmentId: number): Promise<SpectralLibrary | undefined>;
+  // Returns undefined if the attachment already has a library
+  createSpectralLibrary(library: InsertSpectralLibrary): Promise<SpectralLibrary | undefined>;
+  updateSpectralLibrary(id: number, library: Partial<InsertSpectralLibrary>): Promise<SpectralLibrary | undefined>;
+  addLibrarySpectra(spectra: InsertLibrarySpectrum[]): Promise<void>;
+  deleteLibrarySpectra(libraryId: number): Promise<void>;
+  listLibrarySpectra(libraryId: number, query: LibrarySpectraQuery): Promise<LibrarySpectrumPage>;
+  getLibrarySpectrum(id: number): Promise<LibrarySpectrum | undefined>;
+  // Imported libraries attached to notes in the given projects
+  listSpectralLibraries(projectIds: number[]): Promise<SpectralLibraryWithSource[]>;
+  listLibrarySpectraByPrecursor(libraryId: number, mzMin: number, mzMax: number): Promise<LibrarySpectrum[]>;
+  
+  // Sample operations
+  getSample(id: number): Promise<SampleWithExperiments | undefined>;
+  listSamplesByProject(projectId: number): Promise<SampleWithExperiments[]>;
+  listSamplesByExperiment(experimentId: number): Promise<SampleWithExperiments[]>;
+  createSamples(samples: InsertSample[]): Promise<SampleWithExperiments[]>;
+  updateSample(id: number, sample: UpdateSample): Promise<SampleWithExperiments | undefined>;
+  bulkUpdateSamples(ids: number[], changes: SampleChanges): Promise<SampleWithExperiments[]>;
+  deleteSample(id: number): Promise<boolean>;
+  
+  // Feature table operations (feature tables imported from CSV attachments)
+  getFeatureTable(id: number): Promise<FeatureTableWithColumns | undefined>;
+  listFeatureTablesByProject(projectId: number): Promise<FeatureTable[]>;
+  createFeatureTable(table: InsertFeatureTable, columns: Omit<InsertFeatureTableColumn, "tableId">[]): Promise<FeatureTableWithColumns>;
+  updateFeatureTable(id: number, table: Partial<InsertFeatureTable>): Promise<FeatureTable | undefined>;
+  deleteFeatureTable(id: number): Promise<boolean>;
+  addFeatures(features: InsertFeature[]): Promise<void>;
+  deleteFeatures(tableId: number): Promise<void>;
+  listFeatures(tableId: number, query: FeatureQuery): Promise<FeaturePage>;
+  listFeaturesWithIntensities(tableId: number): Promise<Feature[]>;
+  getFeature(id: number): Promise<Feature | undefined>;
+  
+  // Compound operations (the lab-wide compound library)
+  getCompound(id: number): Promise<Compound | undefined>;
+  getCompoundByInchiKey(inchiKey: string): Promise<Compound | undefined>;
+  listCompounds(query: CompoundSearch): Promise<{ total: number; compounds: Compound[] }>;
+  listCompoundInchiKeys(): Promise<string[]>;
+  // Compounds with a known mass, sorted by it, for annotating features
+  listCompoundMasses(): Promise<LibraryMass[]>;
+  createCompounds(compounds: InsertCompound[]): Promise<Compound[]>;
+  updateCompound(id: number, compound: UpdateCompound): Promise<Compound | undefined>;
+  deleteCompound(id: number): Promise<boolean>;
+  
+  // Note compound operations (compounds a note is linked to)
+  listCompoundsByNote(noteId: number): Promise<Compound[]>;
+  listNotesByCompound(compoundId: number): Promise<Note[]>;
+  linkNoteCompound(noteId: number, compoundId: number): Promise<void>;
+  unlinkNoteCompound(noteId: number, compoundId: number): Promise<boolean>;
+  
+  // Retention time library operations (compound RTs per LC method)
+  getRetentionTime(id: number): Promise<CompoundRetentionTime | undefined>;
+  listRetentionTimesByCompound(compoundId: number): Promise<CompoundRetentionTime[]>;
+  listRetentionTimesByMethod(method: string): Promise<CompoundRetentionTime[]>;
+  listRetentionTimeMethods(): Promise<string[]>;
+  // Adds the compound's RT for a method, replacing any it had
+  setRetentionTime(compoundId: number, retentionTime: InsertRetentionTime, createdById: number): Promise<CompoundRetentionTime>;
+  deleteRetentionTime(id: number): Promise<boolean>;
+  
+  // Feature annotation operations (library compounds proposed for features)
+  getFeatureAnnotation(id: number): Promise<FeatureAnnotation | undefined>;
+  listFeatureAnnotations(tableId: number, query: FeatureAnnotationQuery): Promise<FeatureAnnotationWithCompound[]>;
+  // Replaces a table's candidates with those of a new run. Accepted and
+  // rejected annotations are kept and not proposed again; returns how many
+  // candidates were added.
+  replaceFeatureAnnotationCandidates(tableId: number, annotations: InsertFeatureAnnotation[]): Promise<number>;
+  reviewFeatureAnnotation(id: number, status: FeatureAnnotationStatus, reviewedById: number): Promise<FeatureAnnotation | undefined>;
+  hasAcceptedAnnotations(compoundId: number): Promise<boolean>;
+  
+  // Statistical analysis operations (versioned group comparisons of feature tables)
+  getStatisticalAnalysis(id: number): Promise<StatisticalAnalysis | undefined>;
+  listStatisticalAnalysesByProject(projectId: number): Promise<StatisticalAnalysis[]>;
+  // Numbers the analysis as the next version of its name in the experiment
+  createStatisticalAnalysis(analysis: InsertStatisticalAnalysis): Promise<StatisticalAnalysis>;
+  updateStatisticalAnalysis(id: number, analysis: Partial<InsertStatisticalAnalysis>): Promise<StatisticalAnalysis | undefined>;
+  // Stores the results of a run and marks it done; nothing is stored if the
+  // analysis was deleted in the meantime
+  completeStatisticalAnalysis(id: number, summary: AnalysisSummary, results: Omit<InsertAnalysisResult, "analysisId">[]): Promise<StatisticalAnalysis | undefined>;
+  listAnalysisResults(analysisId: number, query: AnalysisResultQuery): Promise<AnalysisResultPage>;
+  deleteStatisticalAnalysis(id: number): Promise<boolean>;
   
   // Project collaborator operations
+  getCollaborator(projectId: number, userId: number): Promise<ProjectCollaborator | undefined>;
   addCollaborator(collaborator: InsertProjectCollaborator): Promise<ProjectCollaborator>;
   removeCollaborator(projectId: number, userId: number): Promise<boolean>;
   listCollaboratorsByProject(projectId: number): Promise<ProjectCollaborator[]>;
   
+  // Background job operations: marks jobs a restart cut short as failed with
+  // the given error and returns how many there were
+  failInterruptedJobs(error: string): Promise<number>;
+  
   // Search operations
   searchNotes(query: string): Promise<Note[]>;
   searchProjects(query: string): Promise<Project[]>;
   searchExperiments(query: string): Promise<Experiment[]>;
+  
+  // Audit operations (the log is append-only; entries are written by the
+  // create, update and delete operations above)
+  listAuditEntries(filter: AuditLogQuery): Promise<AuditLogEntry[]>;
 }
 
 // Database Implementation
-import { db } from "./db";
-import { eq, and, like, or, desc } from "drizzle-orm";
+import { db, pool } from "./db";
+import { eq, ne, and, like, ilike, or, asc, desc, gte, lte, inArray, count, sql, getTableColumns, exists, isNotNull } from "drizzle-orm";
+
+// Attachment columns without the legacy file_data column, so rows never carry
+// file contents
+const { fileData: _fileData, ...attachmentColumns } = getTableColumns(attachments);
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -75,11 +284,28 @@ export class DatabaseStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
-      .values(insertUser)
+      .values({
+        ...insertUser,
+        password: await hashPassword(insertUser.password)
+      })
       .returning();
     return user;
   }
 
+  async updateUser(id: number, userUpdate: Partial<InsertUser>): Promise<User | undefined> {
+    const update = { ...userUpdate };
+    if (update.password !== undefined) {
+      update.password = await hashPassword(update.password);
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set(update)
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser || undefined;
+  }
+
   async listUsers(): Promise<User[]> {
     return db.select().from(users);
   }
@@ -119,68 +345,96 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProject(insertProject: InsertProject): Promise<Project> {
-    const [project] = await db
-      .insert(projects)
-      .values(insertProject)
-      .returning();
-    return project;
+    return db.transaction(async (tx) => {
+      const [project] = await tx
+        .insert(projects)
+        .values(insertProject)
+        .returning();
+      
+      await this.recordAudit(tx, {
+        action: "create",
+        entityType: "project",
+        entityId: project.id,
+        projectId: project.id,
+        before: null,
+        after: project,
+      });
+      return project;
+    });
   }
 
   async updateProject(id: number, projectUpdate: Partial<InsertProject>): Promise<Project | undefined> {
-    const [updatedProject] = await db
-      .update(projects)
-      .set({
-        ...projectUpdate,
-        updatedAt: new Date()
-      })
-      .where(eq(projects.id, id))
-      .returning();
-    return updatedProject || undefined;
+    return db.transaction(async (tx) => {
+      const [existingProject] = await tx.select().from(projects).where(eq(projects.id, id));
+      if (!existingProject) return undefined;
+      
+      const [updatedProject] = await tx
+        .update(projects)
+        .set({
+          ...projectUpdate,
+          updatedAt: new Date()
+        })
+        .where(eq(projects.id, id))
+        .returning();
+      
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "project",
+        entityId: id,
+        projectId: id,
+        before: existingProject,
+        after: updatedProject,
+      });
+      return updatedProject;
+    });
   }
 
   async deleteProject(id: number): Promise<boolean> {
-    // Delete all dependent records
-    
-    // First get all experiments for this project
-    const projectExperiments = await db.select({
-      id: experiments.id
-    })
-    .from(experiments)
-    .where(eq(experiments.projectId, id));
-    
-    // Delete all notes and attachments for these experiments
-    for (const exp of projectExperiments) {
-      // Find all notes for this experiment
-      const expNotes = await db.select({
-        id: notes.id
-      })
-      .from(notes)
-      .where(eq(notes.experimentId, exp.id));
+    const storageKeys = await db.transaction(async (tx) => {
+      const [project] = await tx.select().from(projects).where(eq(projects.id, id));
+      if (!project) return undefined;
+      
+      // Delete all experiments with their notes and attachments
+      const projectExperiments = await tx.select()
+        .from(experiments)
+        .where(eq(experiments.projectId, id));
       
-      // Delete all attachments for these notes
-      for (const note of expNotes) {
-        await db.delete(attachments)
-          .where(eq(attachments.noteId, note.id));
+      const storageKeys: (string | null)[] = [];
+      for (const experiment of projectExperiments) {
+        storageKeys.push(...await this.deleteExperimentCascade(tx, experiment));
       }
       
-      // Delete all notes
-      await db.delete(notes)
-        .where(eq(notes.experimentId, exp.id));
-    }
-    
-    // Delete all experiments
-    await db.delete(experiments)
-      .where(eq(experiments.projectId, id));
-    
-    // Delete all collaborators
-    await db.delete(projectCollaborators)
-      .where(eq(projectCollaborators.projectId, id));
-    
-    // Finally delete the project
-    const result = await db.delete(projects)
-      .where(eq(projects.id, id));
-    
-    return (result.rowCount || 0) > 0;
+      // Delete all samples
+      const projectSamples = await tx.select()
+        .from(samples)
+        .where(eq(samples.projectId, id));
+      
+      for (const sample of projectSamples) {
+        await this.deleteSampleCascade(tx, sample);
+      }
+      
+      // Delete all collaborators
+      await tx.delete(projectCollaborators)
+        .where(eq(projectCollaborators.projectId, id));
+      
+      // Finally delete the project
+      await tx.delete(projects)
+        .where(eq(projects.id, id));
+      
+      await this.recordAudit(tx, {
+        action: "delete",
+        entityType: "project",
+        entityId: id,
+        projectId: id,
+        before: project,
+        after: null,
+      });
+      return storageKeys;
+    });
+    if (!storageKeys) return false;
+
+    await deleteAttachmentBlobs(storageKeys);
+    return true;
   }
 
   // Experiment operations
@@ -200,48 +454,85 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
-    const [experiment] = await db
-      .insert(experiments)
-      .values(insertExperiment)
-      .returning();
-    return experiment;
+    return db.transaction(async (tx) => {
+      const [experiment] = await tx
+        .insert(experiments)
+        .values(insertExperiment)
+        .returning();
+      
+      await this.recordAudit(tx, {
+        action: "create",
+        entityType: "experiment",
+        entityId: experiment.id,
+        projectId: experiment.projectId,
+        before: null,
+        after: experiment,
+      });
+      return experiment;
+    });
   }
 
   async updateExperiment(id: number, experimentUpdate: Partial<InsertExperiment>): Promise<Experiment | undefined> {
+    return db.transaction(async (tx) => {
+      const [existingExperiment] = await tx.select().from(experiments).where(eq(experiments.id, id));
+      if (!existingExperiment) return undefined;
+      
+      const [updatedExperiment] = await tx
+        .update(experiments)
+        .set({
+          ...experimentUpdate,
+          updatedAt: new Date()
+        })
+        .where(eq(experiments.id, id))
+        .returning();
+      
+      // Samples belong to a project, so links do not follow a moved experiment
+      if (updatedExperiment.projectId !== existingExperiment.projectId) {
+        await tx.delete(experimentSamples)
+          .where(eq(experimentSamples.experimentId, id));
+        
+        await tx.update(featureTableColumns)
+          .set({ sampleId: null })
+          .where(inArray(
+            featureTableColumns.tableId,
+            tx.select({ id: featureTables.id }).from(featureTables).where(eq(featureTables.experimentId, id))
+          ));
+      }
+      
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "experiment",
+        entityId: id,
+        projectId: updatedExperiment.projectId,
+        before: existingExperiment,
+        after: updatedExperiment,
+      });
+      return updatedExperiment;
+    });
+  }
+
+  // QC summaries are derived from feature tables, so they are not audited and
+  // do not count as an edit of the experiment
+  async setExperimentQcSummary(id: number, qcSummary: QcSummary | null): Promise<Experiment | undefined> {
     const [updatedExperiment] = await db
       .update(experiments)
-      .set({
-        ...experimentUpdate,
-        updatedAt: new Date()
-      })
+      .set({ qcSummary })
       .where(eq(experiments.id, id))
       .returning();
     return updatedExperiment || undefined;
   }
 
   async deleteExperiment(id: number): Promise<boolean> {
-    // First get all notes for this experiment
-    const experimentNotes = await db.select({
-      id: notes.id
-    })
-    .from(notes)
-    .where(eq(notes.experimentId, id));
-    
-    // Delete all attachments for these notes
-    for (const note of experimentNotes) {
-      await db.delete(attachments)
-        .where(eq(attachments.noteId, note.id));
-    }
-    
-    // Delete all notes
-    await db.delete(notes)
-      .where(eq(notes.experimentId, id));
-    
-    // Finally delete the experiment
-    const result = await db.delete(experiments)
-      .where(eq(experiments.id, id));
-    
-    return (result.rowCount || 0) > 0;
+    const storageKeys = await db.transaction(async (tx) => {
+      const [experiment] = await tx.select().from(experiments).where(eq(experiments.id, id));
+      if (!experiment) return undefined;
+      
+      return this.deleteExperimentCascade(tx, experiment);
+    });
+    if (!storageKeys) return false;
+
+    await deleteAttachmentBlobs(storageKeys);
+    return true;
   }
 
   // Note operations
@@ -262,376 +553,3103 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createNote(insertNote: InsertNote): Promise<Note> {
-    const [note] = await db
-      .insert(notes)
-      .values(insertNote)
-      .returning();
-    return note;
+    return db.transaction(async (tx) => {
+      const [note] = await tx
+        .insert(notes)
+        .values(insertNote)
+        .returning();
+      
+      await this.recordRevision(tx, note, 1);
+      await this.recordAudit(tx, {
+        action: "create",
+        entityType: "note",
+        entityId: note.id,
+        projectId: await this.projectIdForExperiment(tx, note.experimentId),
+        before: null,
+        after: note,
+      });
+      return note;
+    });
   }
 
   async updateNote(id: number, noteUpdate: Partial<InsertNote>): Promise<Note | undefined> {
-    const [updatedNote] = await db
-      .update(notes)
-      .set({
-        ...noteUpdate,
-        updatedAt: new Date()
-      })
-      .where(eq(notes.id, id))
-      .returning();
-    return updatedNote || undefined;
+    return db.transaction(async (tx) => {
+      // Lock the row so concurrent saves get consecutive revision numbers
+      const [existingNote] = await tx.select().from(notes).where(eq(notes.id, id)).for("update");
+      if (!existingNote) return undefined;
+      
+      const [latest] = await tx.select({ revision: noteRevisions.revision })
+        .from(noteRevisions)
+        .where(eq(noteRevisions.noteId, id))
+        .orderBy(desc(noteRevisions.revision))
+        .limit(1);
+      
+      // Notes saved before revisions were kept get their current state as revision 1
+      let nextRevision = (latest?.revision ?? 0) + 1;
+      if (!latest) {
+        await this.recordRevision(tx, existingNote, nextRevision++, existingNote.authorId, existingNote.updatedAt);
+      }
+      
+      const [updatedNote] = await tx
+        .update(notes)
+        .set({
+          ...noteUpdate,
+          updatedAt: new Date()
+        })
+        .where(eq(notes.id, id))
+        .returning();
+      
+      await this.recordRevision(tx, updatedNote, nextRevision);
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "note",
+        entityId: id,
+        projectId: await this.projectIdForExperiment(tx, updatedNote.experimentId),
+        before: existingNote,
+        after: updatedNote,
+      });
+      return updatedNote;
+    });
   }
 
   async deleteNote(id: number): Promise<boolean> {
-    // First delete all attachments
-    await db.delete(attachments)
-      .where(eq(attachments.noteId, id));
-    
-    // Then delete the note
-    const result = await db.delete(notes)
-      .where(eq(notes.id, id));
-    
-    return (result.rowCount || 0) > 0;
+    const storageKeys = await db.transaction(async (tx) => {
+      const [note] = await tx.select().from(notes).where(eq(notes.id, id));
+      if (!note) return undefined;
+      
+      const projectId = await this.projectIdForExperiment(tx, note.experimentId);
+      return this.deleteNoteCascade(tx, note, projectId);
+    });
+    if (!storageKeys) return false;
+
+    await deleteAttachmentBlobs(storageKeys);
+    return true;
+  }
+
+  async updateNoteReview(id: number, review: Partial<NoteReviewFields>): Promise<Note | undefined> {
+    return db.transaction(async (tx) => {
+      const [existingNote] = await tx.select().from(notes).where(eq(notes.id, id));
+      if (!existingNote) return undefined;
+      
+      const [updatedNote] = await tx
+        .update(notes)
+        .set(review)
+        .where(eq(notes.id, id))
+        .returning();
+      
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "note",
+        entityId: id,
+        projectId: await this.projectIdForExperiment(tx, updatedNote.experimentId),
+        before: existingNote,
+        after: updatedNote,
+      });
+      return updatedNote;
+    });
+  }
+
+  async listNotesByReviewer(reviewerId: number): Promise<Note[]> {
+    return db.select()
+      .from(notes)
+      .where(eq(notes.reviewerId, reviewerId))
+      .orderBy(desc(notes.updatedAt));
+  }
+
+  // Note revision operations
+  async listNoteRevisions(noteId: number): Promise<NoteRevisionSummary[]> {
+    return db.select({
+      id: noteRevisions.id,
+      noteId: noteRevisions.noteId,
+      revision: noteRevisions.revision,
+      title: noteRevisions.title,
+      authorId: noteRevisions.authorId,
+      createdAt: noteRevisions.createdAt,
+    })
+      .from(noteRevisions)
+      .where(eq(noteRevisions.noteId, noteId))
+      .orderBy(desc(noteRevisions.revision));
+  }
+
+  async getNoteRevision(noteId: number, revision: number): Promise<NoteRevision | undefined> {
+    const [noteRevision] = await db.select()
+      .from(noteRevisions)
+      .where(and(eq(noteRevisions.noteId, noteId), eq(noteRevisions.revision, revision)));
+    return noteRevision || undefined;
+  }
+
+  // Note signature operations
+  async listNoteSignatures(noteId: number): Promise<NoteSignature[]> {
+    return db.select()
+      .from(noteSignatures)
+      .where(eq(noteSignatures.noteId, noteId))
+      .orderBy(noteSignatures.signedAt, noteSignatures.id);
+  }
+
+  async createNoteSignature(insertSignature: InsertNoteSignature): Promise<NoteSignature> {
+    return db.transaction(async (tx) => {
+      const [note] = await tx.select().from(notes).where(eq(notes.id, insertSignature.noteId)).for("update");
+      const projectId = note ? await this.projectIdForExperiment(tx, note.experimentId) : null;
+      
+      const [signature] = await tx
+        .insert(noteSignatures)
+        .values(insertSignature)
+        .returning();
+      
+      await this.recordAudit(tx, {
+        action: "create",
+        entityType: "signature",
+        entityId: signature.id,
+        projectId,
+        before: null,
+        after: signature,
+      });
+      
+      if (note && !note.lockedAt) {
+        const [lockedNote] = await tx
+          .update(notes)
+          .set({ lockedAt: signature.signedAt })
+          .where(eq(notes.id, note.id))
+          .returning();
+        
+        await this.recordAudit(tx, {
+          action: "update",
+          entityType: "note",
+          entityId: note.id,
+          projectId,
+          before: note,
+          after: lockedNote,
+        });
+      }
+      return signature;
+    });
   }
 
   // Attachment operations
   async getAttachment(id: number): Promise<Attachment | undefined> {
-    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    const [attachment] = await db.select(attachmentColumns).from(attachments).where(eq(attachments.id, id));
     return attachment || undefined;
   }
 
+  async listAttachments(): Promise<Attachment[]> {
+    return db.select(attachmentColumns).from(attachments);
+  }
+
   async listAttachmentsByNote(noteId: number): Promise<Attachment[]> {
-    return db.select()
+    return db.select(attachmentColumns)
       .from(attachments)
       .where(eq(attachments.noteId, noteId));
   }
 
+  async listAttachmentsBySha256(sha256: string): Promise<Attachment[]> {
+    return db.select(attachmentColumns)
+      .from(attachments)
+      .where(eq(attachments.sha256, sha256));
+  }
+
   async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
-    const [attachment] = await db
-      .insert(attachments)
-      .values(insertAttachment)
-      .returning();
-    return attachment;
+    return db.transaction(async (tx) => {
+      const [attachment] = await tx
+        .insert(attachments)
+        .values(insertAttachment)
+        .returning(attachmentColumns);
+      
+      await this.recordAudit(tx, {
+        action: "create",
+        entityType: "attachment",
+        entityId: attachment.id,
+        projectId: await this.projectIdForNote(tx, attachment.noteId),
+        before: null,
+        after: attachment,
+      });
+      return attachment;
+    });
   }
 
   async deleteAttachment(id: number): Promise<boolean> {
-    const result = await db.delete(attachments)
-      .where(eq(attachments.id, id));
-    
-    return (result.rowCount || 0) > 0;
+    const attachment = await db.transaction(async (tx) => {
+      const [attachment] = await tx.select(attachmentColumns).from(attachments).where(eq(attachments.id, id));
+      if (!attachment) return undefined;
+      
+      await this.deleteParsedAttachmentData(tx, id);
+      
+      await tx.delete(attachments)
+        .where(eq(attachments.id, id));
+      
+      await this.recordAudit(tx, {
+        action: "delete",
+        entityType: "attachment",
+        entityId: id,
+        projectId: await this.projectIdForNote(tx, attachment.noteId),
+        before: attachment,
+        after: null,
+      });
+      return attachment;
+    });
+    if (!attachment) return false;
+
+    await deleteAttachmentBlobs([attachment.storageKey]);
+    return true;
   }
 
-  // Project collaborator operations
-  async addCollaborator(insertCollaborator: InsertProjectCollaborator): Promise<ProjectCollaborator> {
-    const [collaborator] = await db
-      .insert(projectCollaborators)
-      .values(insertCollaborator)
-      .returning();
-    return collaborator;
+  // Attachment integrity check operations
+  async getAttachmentIntegrityCheck(id: number): Promise<AttachmentIntegrityCheck | undefined> {
+    const [check] = await db.select().from(attachmentIntegrityChecks).where(eq(attachmentIntegrityChecks.id, id));
+    return check || undefined;
   }
 
-  async removeCollaborator(projectId: number, userId: number): Promise<boolean> {
-    const result = await db.delete(projectCollaborators)
-      .where(
-        and(
-          eq(projectCollaborators.projectId, projectId),
-          eq(projectCollaborators.userId, userId)
-        )
-      );
-    
-    return (result.rowCount || 0) > 0;
+  async getLatestAttachmentIntegrityCheck(): Promise<AttachmentIntegrityCheck | undefined> {
+    const [check] = await db.select()
+      .from(attachmentIntegrityChecks)
+      .orderBy(desc(attachmentIntegrityChecks.id))
+      .limit(1);
+    return check || undefined;
   }
 
-  async listCollaboratorsByProject(projectId: number): Promise<ProjectCollaborator[]> {
-    return db.select()
-      .from(projectCollaborators)
-      .where(eq(projectCollaborators.projectId, projectId));
+  async createAttachmentIntegrityCheck(insertCheck: InsertAttachmentIntegrityCheck): Promise<AttachmentIntegrityCheck> {
+    const [check] = await db
+      .insert(attachmentIntegrityChecks)
+      .values(insertCheck)
+      .returning();
+    return check;
   }
 
-  // Search operations
-  async searchNotes(query: string): Promise<Note[]> {
-    const searchTerm = `%${query}%`;
-    return db.select()
-      .from(notes)
-      .where(
-        or(
-          like(notes.title, searchTerm),
-          like(notes.content || '', searchTerm)
-        )
-      );
+  async updateAttachmentIntegrityCheck(id: number, checkData: Partial<InsertAttachmentIntegrityCheck>): Promise<AttachmentIntegrityCheck | undefined> {
+    const [updatedCheck] = await db
+      .update(attachmentIntegrityChecks)
+      .set(checkData)
+      .where(eq(attachmentIntegrityChecks.id, id))
+      .returning();
+    return updatedCheck || undefined;
   }
 
-  async searchProjects(query: string): Promise<Project[]> {
-    const searchTerm = `%${query}%`;
-    return db.select()
-      .from(projects)
-      .where(
-        or(
-          like(projects.name, searchTerm),
-          like(projects.description || '', searchTerm)
-        )
-      );
+  // MS run operations
+  async getMsRunByAttachment(attachmentId: number): Promise<MsRun | undefined> {
+    const [msRun] = await db.select().from(msRuns).where(eq(msRuns.attachmentId, attachmentId));
+    return msRun || undefined;
   }
 
-  async searchExperiments(query: string): Promise<Experiment[]> {
-    const searchTerm = `%${query}%`;
-    return db.select()
-      .from(experiments)
-      .where(
-        or(
-          like(experiments.name, searchTerm),
-          like(experiments.description || '', searchTerm)
-        )
-      );
+  async createMsRun(insertMsRun: InsertMsRun): Promise<MsRun | undefined> {
+    const [msRun] = await db
+      .insert(msRuns)
+      .values(insertMsRun)
+      .onConflictDoNothing({ target: msRuns.attachmentId })
+      .returning();
+    return msRun || undefined;
   }
-}
 
-// Memory Implementation (for reference)
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private projects: Map<number, Project>;
-  private experiments: Map<number, Experiment>;
-  private notes: Map<number, Note>;
-  private attachments: Map<number, Attachment>;
-  private projectCollaborators: Map<number, ProjectCollaborator>;
-  
-  private userId: number;
-  private projectId: number;
-  private experimentId: number;
-  private noteId: number;
-  private attachmentId: number;
-  private collaboratorId: number;
-  
-  constructor() {
-    this.users = new Map();
-    this.projects = new Map();
-    this.experiments = new Map();
-    this.notes = new Map();
-    this.attachments = new Map();
-    this.projectCollaborators = new Map();
-    
-    this.userId = 1;
-    this.projectId = 1;
-    this.experimentId = 1;
-    this.noteId = 1;
-    this.attachmentId = 1;
-    this.collaboratorId = 1;
-    
-    // Add default user
-    this.createUser({
-      username: "sarah.chen",
-      password: "password123",
-      displayName: "Dr. Sarah Chen",
-      role: "Principal Investigator"
-    });
+  async updateMsRun(id: number, msRunData: Partial<InsertMsRun>): Promise<MsRun | undefined> {
+    const [updatedMsRun] = await db
+      .update(msRuns)
+      .set(msRunData)
+      .where(eq(msRuns.id, id))
+      .returning();
+    return updatedMsRun || undefined;
   }
-  
-  // User operations
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
+
+  // Spectral library operations
+  async getSpectralLibrary(id: number): Promise<SpectralLibrary | undefined> {
+    const [library] = await db.select().from(spectralLibraries).where(eq(spectralLibraries.id, id));
+    return library || undefined;
   }
-  
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.username === username);
+
+  async getSpectralLibraryByAttachment(attachmentId: number): Promise<SpectralLibrary | undefined> {
+    const [library] = await db.select().from(spectralLibraries).where(eq(spectralLibraries.attachmentId, attachmentId));
+    return library || undefined;
+  }
+
+  async createSpectralLibrary(insertLibrary: InsertSpectralLibrary): Promise<SpectralLibrary | undefined> {
+    const [library] = await db
+      .insert(spectralLibraries)
+      .values(insertLibrary)
+      .onConflictDoNothing({ target: spectralLibraries.attachmentId })
+      .returning();
+    return library || undefined;
+  }
+
+  async updateSpectralLibrary(id: number, libraryData: Partial<InsertSpectralLibrary>): Promise<SpectralLibrary | undefined> {
+    const [updatedLibrary] = await db
+      .update(spectralLibraries)
+      .set(libraryData)
+      .where(eq(spectralLibraries.id, id))
+      .returning();
+    return updatedLibrary || undefined;
+  }
+
+  async addLibrarySpectra(spectra: InsertLibrarySpectrum[]): Promise<void> {
+    if (spectra.length === 0) return;
+    await db.insert(librarySpectra).values(spectra);
+  }
+
+  async deleteLibrarySpectra(libraryId: number): Promise<void> {
+    await db.delete(librarySpectra).where(eq(librarySpectra.libraryId, libraryId));
+  }
+
+  async listLibrarySpectra(libraryId: number, query: LibrarySpectraQuery): Promise<LibrarySpectrumPage> {
+    const conditions = [eq(librarySpectra.libraryId, libraryId)];
+    if (query.search) conditions.push(ilike(librarySpectra.name, `%${query.search}%`));
+    
+    const { mz: _mz, intensity: _intensity, ...summaryColumns } = getTableColumns(librarySpectra);
+    const [{ total }] = await db.select({ total: count() })
+      .from(librarySpectra)
+      .where(and(...conditions));
+    const spectra = await db.select({
+      ...summaryColumns,
+      peakCount: sql<number>`json_array_length(${librarySpectra.mz})`.mapWith(Number),
+    })
+      .from(librarySpectra)
+      .where(and(...conditions))
+      .orderBy(asc(librarySpectra.position))
+      .offset(query.offset)
+      .limit(query.limit);
+    return { total, spectra };
+  }
+
+  async getLibrarySpectrum(id: number): Promise<LibrarySpectrum | undefined> {
+    const [spectrum] = await db.select().from(librarySpectra).where(eq(librarySpectra.id, id));
+    return spectrum || undefined;
+  }
+
+  async listSpectralLibraries(projectIds: number[]): Promise<SpectralLibraryWithSource[]> {
+    if (projectIds.length === 0) return [];
+    return db.select({
+      ...getTableColumns(spectralLibraries),
+      fileName: attachments.fileName,
+      projectId: projects.id,
+      projectName: projects.name,
+    })
+      .from(spectralLibraries)
+      .innerJoin(attachments, eq(attachments.id, spectralLibraries.attachmentId))
+      .innerJoin(notes, eq(notes.id, attachments.noteId))
+      .innerJoin(experiments, eq(experiments.id, notes.experimentId))
+      .innerJoin(projects, eq(projects.id, experiments.projectId))
+      .where(inArray(projects.id, projectIds))
+      .orderBy(asc(projects.name), asc(attachments.fileName));
+  }
+
+  async listLibrarySpectraByPrecursor(libraryId: number, mzMin: number, mzMax: number): Promise<LibrarySpectrum[]> {
+    return db.select()
+      .from(librarySpectra)
+      .where(and(
+        eq(librarySpectra.libraryId, libraryId),
+        gte(librarySpectra.precursorMz, mzMin),
+        lte(librarySpectra.precursorMz, mzMax)
+      ));
+  }
+
+  // Sample operations
+  async getSample(id: number): Promise<SampleWithExperiments | undefined> {
+    const [sample] = await db.select().from(samples).where(eq(samples.id, id));
+    if (!sample) return undefined;
+    
+    const [sampleWithExperiments] = await this.withExperimentIds(db, [sample]);
+    return sampleWithExperiments;
+  }
+
+  async listSamplesByProject(projectId: number): Promise<SampleWithExperiments[]> {
+    const projectSamples = await db.select()
+      .from(samples)
+      .where(eq(samples.projectId, projectId))
+      .orderBy(asc(samples.sampleCode));
+    return this.withExperimentIds(db, projectSamples);
+  }
+
+  async listSamplesByExperiment(experimentId: number): Promise<SampleWithExperiments[]> {
+    const experimentSampleRows = await db.select(getTableColumns(samples))
+      .from(samples)
+      .innerJoin(experimentSamples, eq(experimentSamples.sampleId, samples.id))
+      .where(eq(experimentSamples.experimentId, experimentId))
+      .orderBy(asc(samples.sampleCode));
+    return this.withExperimentIds(db, experimentSampleRows);
+  }
+
+  // All samples are created in one transaction, so an import either
+  // registers every row or none
+  async createSamples(insertSamples: InsertSample[]): Promise<SampleWithExperiments[]> {
+    return db.transaction(async (tx) => {
+      const created: SampleWithExperiments[] = [];
+      for (const { experimentIds, ...insertSample } of insertSamples) {
+        const [sample] = await tx
+          .insert(samples)
+          .values(insertSample)
+          .returning();
+        
+        await this.linkSampleExperiments(tx, sample.id, experimentIds);
+        const [sampleWithExperiments] = await this.withExperimentIds(tx, [sample]);
+        
+        await this.recordAudit(tx, {
+          action: "create",
+          entityType: "sample",
+          entityId: sample.id,
+          projectId: sample.projectId,
+          before: null,
+          after: sampleWithExperiments,
+        });
+        created.push(sampleWithExperiments);
+      }
+      return created;
+    });
+  }
+
+  async updateSample(id: number, sampleUpdate: UpdateSample): Promise<SampleWithExperiments | undefined> {
+    return db.transaction(async (tx) => {
+      const [existingSample] = await tx.select().from(samples).where(eq(samples.id, id));
+      if (!existingSample) return undefined;
+      
+      const [before] = await this.withExperimentIds(tx, [existingSample]);
+      const { experimentIds, ...fields } = sampleUpdate;
+      const [updatedSample] = await tx
+        .update(samples)
+        .set({
+          ...fields,
+          updatedAt: new Date()
+        })
+        .where(eq(samples.id, id))
+        .returning();
+      
+      if (experimentIds !== undefined) {
+        await tx.delete(experimentSamples)
+          .where(eq(experimentSamples.sampleId, id));
+        await this.linkSampleExperiments(tx, id, experimentIds);
+      }
+      
+      const [after] = await this.withExperimentIds(tx, [updatedSample]);
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "sample",
+        entityId: id,
+        projectId: updatedSample.projectId,
+        before,
+        after,
+      });
+      return after;
+    });
+  }
+
+  async bulkUpdateSamples(ids: number[], changes: SampleChanges): Promise<SampleWithExperiments[]> {
+    const { attributes, addExperimentIds = [], removeExperimentIds = [], ...fields } = changes;
+    
+    return db.transaction(async (tx) => {
+      const existingSamples = await tx.select()
+        .from(samples)
+        .where(inArray(samples.id, ids))
+        .orderBy(asc(samples.sampleCode));
+      
+      const updated: SampleWithExperiments[] = [];
+      for (const existingSample of existingSamples) {
+        const [before] = await this.withExperimentIds(tx, [existingSample]);
+        const [updatedSample] = await tx
+          .update(samples)
+          .set({
+            ...fields,
+            attributes: mergeSampleAttributes(existingSample.attributes, attributes),
+            updatedAt: new Date()
+          })
+          .where(eq(samples.id, existingSample.id))
+          .returning();
+        
+        if (removeExperimentIds.length > 0) {
+          await tx.delete(experimentSamples)
+            .where(and(
+              eq(experimentSamples.sampleId, existingSample.id),
+              inArray(experimentSamples.experimentId, removeExperimentIds)
+            ));
+        }
+        await this.linkSampleExperiments(tx, existingSample.id, addExperimentIds);
+        
+        const [after] = await this.withExperimentIds(tx, [updatedSample]);
+        await this.recordAudit(tx, {
+          action: "update",
+          entityType: "sample",
+          entityId: existingSample.id,
+          projectId: updatedSample.projectId,
+          before,
+          after,
+        });
+        updated.push(after);
+      }
+      return updated;
+    });
+  }
+
+  async deleteSample(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [sample] = await tx.select().from(samples).where(eq(samples.id, id));
+      if (!sample) return false;
+      
+      await this.deleteSampleCascade(tx, sample);
+      return true;
+    });
+  }
+
+  // Feature table operations
+  async getFeatureTable(id: number): Promise<FeatureTableWithColumns | undefined> {
+    const [table] = await db.select().from(featureTables).where(eq(featureTables.id, id));
+    if (!table) return undefined;
+    
+    const columns = await db.select()
+      .from(featureTableColumns)
+      .where(eq(featureTableColumns.tableId, id))
+      .orderBy(asc(featureTableColumns.position));
+    return { ...table, columns };
+  }
+
+  async listFeatureTablesByProject(projectId: number): Promise<FeatureTable[]> {
+    return db.select(getTableColumns(featureTables))
+      .from(featureTables)
+      .innerJoin(experiments, eq(experiments.id, featureTables.experimentId))
+      .where(eq(experiments.projectId, projectId))
+      .orderBy(desc(featureTables.createdAt));
+  }
+
+  async createFeatureTable(
+    insertTable: InsertFeatureTable,
+    insertColumns: Omit<InsertFeatureTableColumn, "tableId">[]
+  ): Promise<FeatureTableWithColumns> {
+    return db.transaction(async (tx) => {
+      const [table] = await tx
+        .insert(featureTables)
+        .values(insertTable)
+        .returning();
+      
+      const columns = await tx
+        .insert(featureTableColumns)
+        .values(insertColumns.map(column => ({ ...column, tableId: table.id })))
+        .returning();
+      
+      const created = { ...table, columns };
+      await this.recordAudit(tx, {
+        action: "create",
+        entityType: "feature_table",
+        entityId: table.id,
+        projectId: await this.projectIdForExperiment(tx, table.experimentId),
+        before: null,
+        after: created,
+      });
+      return created;
+    });
+  }
+
+  async updateFeatureTable(id: number, tableData: Partial<InsertFeatureTable>): Promise<FeatureTable | undefined> {
+    const [updatedTable] = await db
+      .update(featureTables)
+      .set(tableData)
+      .where(eq(featureTables.id, id))
+      .returning();
+    return updatedTable || undefined;
+  }
+
+  async deleteFeatureTable(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [table] = await tx.select().from(featureTables).where(eq(featureTables.id, id));
+      if (!table) return false;
+      
+      await this.deleteFeatureTableCascade(tx, table, await this.projectIdForExperiment(tx, table.experimentId));
+      return true;
+    });
+  }
+
+  async addFeatures(featureRows: InsertFeature[]): Promise<void> {
+    if (featureRows.length === 0) return;
+    await db.insert(features).values(featureRows);
+  }
+
+  async deleteFeatures(tableId: number): Promise<void> {
+    await db.delete(features).where(eq(features.tableId, tableId));
+  }
+
+  async listFeatures(tableId: number, query: FeatureQuery): Promise<FeaturePage> {
+    const conditions = [eq(features.tableId, tableId)];
+    if (query.search) {
+      conditions.push(or(ilike(features.name, `%${query.search}%`), ilike(features.featureKey, `%${query.search}%`))!);
+    }
+    if (query.mzMin !== undefined) conditions.push(gte(features.mz, query.mzMin));
+    if (query.mzMax !== undefined) conditions.push(lte(features.mz, query.mzMax));
+    if (query.rtMin !== undefined) conditions.push(gte(features.rt, query.rtMin));
+    if (query.rtMax !== undefined) conditions.push(lte(features.rt, query.rtMax));
+    
+    const withAnnotation = (...statuses: FeatureAnnotationStatus[]) => exists(
+      db.select({ id: featureAnnotations.id })
+        .from(featureAnnotations)
+        .where(and(eq(featureAnnotations.featureId, features.id), inArray(featureAnnotations.status, statuses)))
+    );
+    if (query.annotation === "accepted") conditions.push(withAnnotation("accepted"));
+    if (query.annotation === "candidates") conditions.push(withAnnotation("candidate"));
+    if (query.annotation === "unannotated") conditions.push(sql`not ${withAnnotation("accepted", "candidate")}`);
+    
+    const { metadata: _metadata, intensities: _intensities, ...summaryColumns } = getTableColumns(features);
+    const sortColumn = features[query.sort];
+    const [{ total }] = await db.select({ total: count() })
+      .from(features)
+      .where(and(...conditions));
+    const featureRows: FeatureRow[] = await db.select({
+        ...summaryColumns,
+        annotation: sql<string | null>`(
+          select string_agg(${compounds.name}, '; ' order by ${compounds.name})
+          from ${featureAnnotations} join ${compounds} on ${compounds.id} = ${featureAnnotations.compoundId}
+          where ${featureAnnotations.featureId} = ${features.id} and ${featureAnnotations.status} = 'accepted'
+        )`,
+        candidateCount: sql<number>`(
+          select count(*)::int from ${featureAnnotations}
+          where ${featureAnnotations.featureId} = ${features.id} and ${featureAnnotations.status} = 'candidate'
+        )`,
+      })
+      .from(features)
+      .where(and(...conditions))
+      .orderBy(
+        query.order === "desc" ? sql`${sortColumn} desc nulls last` : sql`${sortColumn} asc nulls last`,
+        asc(features.position)
+      )
+      .offset(query.offset)
+      .limit(query.limit);
+    return { total, features: featureRows };
+  }
+
+  async listFeaturesWithIntensities(tableId: number): Promise<Feature[]> {
+    return db.select()
+      .from(features)
+      .where(eq(features.tableId, tableId))
+      .orderBy(asc(features.position));
+  }
+
+  async getFeature(id: number): Promise<Feature | undefined> {
+    const [feature] = await db.select().from(features).where(eq(features.id, id));
+    return feature || undefined;
+  }
+
+  // Project collaborator operations
+  async getCollaborator(projectId: number, userId: number): Promise<ProjectCollaborator | undefined> {
+    const [collaborator] = await db.select()
+      .from(projectCollaborators)
+      .where(
+        and(
+          eq(projectCollaborators.projectId, projectId),
+          eq(projectCollaborators.userId, userId)
+        )
+      );
+    return collaborator || undefined;
+  }
+
+  async addCollaborator(insertCollaborator: InsertProjectCollaborator): Promise<ProjectCollaborator> {
+    const [collaborator] = await db
+      .insert(projectCollaborators)
+      .values(insertCollaborator)
+      .returning();
+    return collaborator;
+  }
+
+  async removeCollaborator(projectId: number, userId: number): Promise<boolean> {
+    const result = await db.delete(projectCollaborators)
+      .where(
+        and(
+          eq(projectCollaborators.projectId, projectId),
+          eq(projectCollaborators.userId, userId)
+        )
+      );
+    
+    return (result.rowCount || 0) > 0;
+  }
+
+  async listCollaboratorsByProject(projectId: number): Promise<ProjectCollaborator[]> {
+    return db.select()
+      .from(projectCollaborators)
+      .where(eq(projectCollaborators.projectId, projectId));
+  }
+
+  // Compound operations
+  async getCompound(id: number): Promise<Compound | undefined> {
+    const [compound] = await db.select().from(compounds).where(eq(compounds.id, id));
+    return compound || undefined;
+  }
+
+  async getCompoundByInchiKey(inchiKey: string): Promise<Compound | undefined> {
+    const [compound] = await db.select().from(compounds).where(eq(compounds.inchiKey, inchiKey));
+    return compound || undefined;
+  }
+
+  async listCompounds(query: CompoundSearch): Promise<{ total: number; compounds: Compound[] }> {
+    const conditions = [];
+    if (query.search) {
+      const term = query.search;
+      conditions.push(or(
+        ilike(compounds.name, `%${term}%`),
+        sql`${compounds.synonyms}::text ilike ${`%${term}%`}`,
+        // A 14-letter InChIKey block matches every stereoisomer
+        ilike(compounds.inchiKey, term.length >= 14 ? `${term}%` : term),
+        ilike(compounds.hmdbId, term),
+        ilike(compounds.chebiId, term),
+        ilike(compounds.keggId, term),
+        eq(compounds.pubchemCid, term)
+      )!);
+    }
+    if (query.mass !== undefined) {
+      const tolerance = query.tolerance ?? 0;
+      conditions.push(gte(compounds.monoisotopicMass, query.mass - tolerance));
+      conditions.push(lte(compounds.monoisotopicMass, query.mass + tolerance));
+    }
+    
+    const [{ total }] = await db.select({ total: count() })
+      .from(compounds)
+      .where(and(...conditions));
+    const rows = await db.select()
+      .from(compounds)
+      .where(and(...conditions))
+      .orderBy(
+        query.mass !== undefined ? sql`abs(${compounds.monoisotopicMass} - ${query.mass})` : asc(compounds.name),
+        asc(compounds.id)
+      )
+      .offset(query.offset)
+      .limit(query.limit);
+    return { total, compounds: rows };
+  }
+
+  async listCompoundInchiKeys(): Promise<string[]> {
+    const rows = await db.select({ inchiKey: compounds.inchiKey })
+      .from(compounds)
+      .where(sql`${compounds.inchiKey} is not null`);
+    return rows.map(row => row.inchiKey!);
+  }
+
+  async listCompoundMasses(): Promise<LibraryMass[]> {
+    const rows = await db.select({ compoundId: compounds.id, monoisotopicMass: compounds.monoisotopicMass })
+      .from(compounds)
+      .where(isNotNull(compounds.monoisotopicMass))
+      .orderBy(asc(compounds.monoisotopicMass));
+    return rows.map(row => ({ compoundId: row.compoundId, monoisotopicMass: row.monoisotopicMass! }));
+  }
+
+  // All compounds are created in one transaction, so an import either adds
+  // every compound or none
+  async createCompounds(insertCompounds: InsertCompound[]): Promise<Compound[]> {
+    return db.transaction(async (tx) => {
+      const created: Compound[] = [];
+      for (let start = 0; start < insertCompounds.length; start += INSERT_BATCH_SIZE) {
+        const batch = await tx
+          .insert(compounds)
+          .values(insertCompounds.slice(start, start + INSERT_BATCH_SIZE))
+          .returning();
+        
+        await this.recordAudit(tx, batch.map(compound => ({
+          action: "create" as const,
+          entityType: "compound" as const,
+          entityId: compound.id,
+          projectId: null,
+          before: null,
+          after: compound,
+        })));
+        created.push(...batch);
+      }
+      return created;
+    });
+  }
+
+  async updateCompound(id: number, compoundUpdate: UpdateCompound): Promise<Compound | undefined> {
+    return db.transaction(async (tx) => {
+      const [existingCompound] = await tx.select().from(compounds).where(eq(compounds.id, id));
+      if (!existingCompound) return undefined;
+      
+      const [updatedCompound] = await tx
+        .update(compounds)
+        .set({
+          ...compoundUpdate,
+          updatedAt: new Date()
+        })
+        .where(eq(compounds.id, id))
+        .returning();
+      
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "compound",
+        entityId: id,
+        projectId: null,
+        before: existingCompound,
+        after: updatedCompound,
+      });
+      return updatedCompound;
+    });
+  }
+
+  async deleteCompound(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [compound] = await tx.select().from(compounds).where(eq(compounds.id, id));
+      if (!compound) return false;
+      
+      await tx.delete(noteCompounds)
+        .where(eq(noteCompounds.compoundId, id));
+      
+      await tx.delete(compoundRetentionTimes)
+        .where(eq(compoundRetentionTimes.compoundId, id));
+      
+      await tx.delete(featureAnnotations)
+        .where(eq(featureAnnotations.compoundId, id));
+      
+      await tx.delete(compounds)
+        .where(eq(compounds.id, id));
+      
+      await this.recordAudit(tx, {
+        action: "delete",
+        entityType: "compound",
+        entityId: id,
+        projectId: null,
+        before: compound,
+        after: null,
+      });
+      return true;
+    });
+  }
+
+  // Note compound operations
+  async listCompoundsByNote(noteId: number): Promise<Compound[]> {
+    return db.select(getTableColumns(compounds))
+      .from(compounds)
+      .innerJoin(noteCompounds, eq(noteCompounds.compoundId, compounds.id))
+      .where(eq(noteCompounds.noteId, noteId))
+      .orderBy(asc(compounds.name));
+  }
+
+  async listNotesByCompound(compoundId: number): Promise<Note[]> {
+    return db.select(getTableColumns(notes))
+      .from(notes)
+      .innerJoin(noteCompounds, eq(noteCompounds.noteId, notes.id))
+      .where(eq(noteCompounds.compoundId, compoundId))
+      .orderBy(desc(notes.updatedAt));
+  }
+
+  async linkNoteCompound(noteId: number, compoundId: number): Promise<void> {
+    await db.insert(noteCompounds)
+      .values({ noteId, compoundId })
+      .onConflictDoNothing();
+  }
+
+  async unlinkNoteCompound(noteId: number, compoundId: number): Promise<boolean> {
+    const removed = await db.delete(noteCompounds)
+      .where(and(eq(noteCompounds.noteId, noteId), eq(noteCompounds.compoundId, compoundId)))
+      .returning({ id: noteCompounds.id });
+    return removed.length > 0;
+  }
+
+  // Retention time library operations
+  async getRetentionTime(id: number): Promise<CompoundRetentionTime | undefined> {
+    const [retentionTime] = await db.select().from(compoundRetentionTimes).where(eq(compoundRetentionTimes.id, id));
+    return retentionTime || undefined;
+  }
+
+  async listRetentionTimesByCompound(compoundId: number): Promise<CompoundRetentionTime[]> {
+    return db.select()
+      .from(compoundRetentionTimes)
+      .where(eq(compoundRetentionTimes.compoundId, compoundId))
+      .orderBy(asc(compoundRetentionTimes.method));
+  }
+
+  async listRetentionTimesByMethod(method: string): Promise<CompoundRetentionTime[]> {
+    return db.select()
+      .from(compoundRetentionTimes)
+      .where(eq(compoundRetentionTimes.method, method));
+  }
+
+  async listRetentionTimeMethods(): Promise<string[]> {
+    const rows = await db.selectDistinct({ method: compoundRetentionTimes.method })
+      .from(compoundRetentionTimes)
+      .orderBy(asc(compoundRetentionTimes.method));
+    return rows.map(row => row.method);
+  }
+
+  async setRetentionTime(compoundId: number, retentionTime: InsertRetentionTime, createdById: number): Promise<CompoundRetentionTime> {
+    const [saved] = await db.insert(compoundRetentionTimes)
+      .values({ ...retentionTime, compoundId, createdById })
+      .onConflictDoUpdate({
+        target: [compoundRetentionTimes.compoundId, compoundRetentionTimes.method],
+        set: { rt: retentionTime.rt, createdById, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteRetentionTime(id: number): Promise<boolean> {
+    const removed = await db.delete(compoundRetentionTimes)
+      .where(eq(compoundRetentionTimes.id, id))
+      .returning({ id: compoundRetentionTimes.id });
+    return removed.length > 0;
+  }
+
+  // Feature annotation operations
+  async getFeatureAnnotation(id: number): Promise<FeatureAnnotation | undefined> {
+    const [annotation] = await db.select().from(featureAnnotations).where(eq(featureAnnotations.id, id));
+    return annotation || undefined;
+  }
+
+  async listFeatureAnnotations(tableId: number, query: FeatureAnnotationQuery): Promise<FeatureAnnotationWithCompound[]> {
+    const conditions = [eq(featureAnnotations.tableId, tableId)];
+    if (query.featureId !== undefined) conditions.push(eq(featureAnnotations.featureId, query.featureId));
+    if (query.status !== undefined) conditions.push(eq(featureAnnotations.status, query.status));
+    
+    return db.select({
+        ...getTableColumns(featureAnnotations),
+        compound: {
+          id: compounds.id,
+          name: compounds.name,
+          formula: compounds.formula,
+          monoisotopicMass: compounds.monoisotopicMass,
+        },
+        reviewerName: users.displayName,
+      })
+      .from(featureAnnotations)
+      .innerJoin(compounds, eq(compounds.id, featureAnnotations.compoundId))
+      .leftJoin(users, eq(users.id, featureAnnotations.reviewedById))
+      .where(and(...conditions))
+      .orderBy(
+        asc(featureAnnotations.featureId),
+        asc(featureAnnotations.msiLevel),
+        sql`abs(${featureAnnotations.ppmError})`
+      );
+  }
+
+  async replaceFeatureAnnotationCandidates(tableId: number, annotations: InsertFeatureAnnotation[]): Promise<number> {
+    return db.transaction(async (tx) => {
+      await tx.delete(featureAnnotations)
+        .where(and(eq(featureAnnotations.tableId, tableId), eq(featureAnnotations.status, "candidate")));
+      
+      let added = 0;
+      for (let start = 0; start < annotations.length; start += INSERT_BATCH_SIZE) {
+        // Reviewed annotations hold the feature/compound/adduct key already
+        const inserted = await tx.insert(featureAnnotations)
+          .values(annotations.slice(start, start + INSERT_BATCH_SIZE))
+          .onConflictDoNothing()
+          .returning({ id: featureAnnotations.id });
+        added += inserted.length;
+      }
+      return added;
+    });
+  }
+
+  async reviewFeatureAnnotation(id: number, status: FeatureAnnotationStatus, reviewedById: number): Promise<FeatureAnnotation | undefined> {
+    return db.transaction(async (tx) => {
+      const [existingAnnotation] = await tx.select().from(featureAnnotations).where(eq(featureAnnotations.id, id));
+      if (!existingAnnotation) return undefined;
+      
+      const reviewed = status !== "candidate";
+      const [updatedAnnotation] = await tx
+        .update(featureAnnotations)
+        .set({
+          status,
+          reviewedById: reviewed ? reviewedById : null,
+          reviewedAt: reviewed ? new Date() : null,
+        })
+        .where(eq(featureAnnotations.id, id))
+        .returning();
+      
+      const [table] = await tx.select({ experimentId: featureTables.experimentId })
+        .from(featureTables)
+        .where(eq(featureTables.id, existingAnnotation.tableId));
+      
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "feature_annotation",
+        entityId: id,
+        projectId: table ? await this.projectIdForExperiment(tx, table.experimentId) : null,
+        before: existingAnnotation,
+        after: updatedAnnotation,
+      });
+      return updatedAnnotation;
+    });
+  }
+
+  async hasAcceptedAnnotations(compoundId: number): Promise<boolean> {
+    const [annotation] = await db.select({ id: featureAnnotations.id })
+      .from(featureAnnotations)
+      .where(and(eq(featureAnnotations.compoundId, compoundId), eq(featureAnnotations.status, "accepted")))
+      .limit(1);
+    return !!annotation;
+  }
+
+  // Statistical analysis operations
+  async getStatisticalAnalysis(id: number): Promise<StatisticalAnalysis | undefined> {
+    const [analysis] = await db.select().from(statisticalAnalyses).where(eq(statisticalAnalyses.id, id));
+    return analysis || undefined;
+  }
+
+  async listStatisticalAnalysesByProject(projectId: number): Promise<StatisticalAnalysis[]> {
+    return db.select(getTableColumns(statisticalAnalyses))
+      .from(statisticalAnalyses)
+      .innerJoin(experiments, eq(experiments.id, statisticalAnalyses.experimentId))
+      .where(eq(experiments.projectId, projectId))
+      .orderBy(desc(statisticalAnalyses.createdAt), desc(statisticalAnalyses.id));
+  }
+
+  async createStatisticalAnalysis(insertAnalysis: InsertStatisticalAnalysis): Promise<StatisticalAnalysis> {
+    return db.transaction(async (tx) => {
+      const [{ latest }] = await tx.select({ latest: sql<number | null>`max(${statisticalAnalyses.version})` })
+        .from(statisticalAnalyses)
+        .where(and(
+          eq(statisticalAnalyses.experimentId, insertAnalysis.experimentId),
+          eq(statisticalAnalyses.name, insertAnalysis.name)
+        ));
+      
+      const [analysis] = await tx
+        .insert(statisticalAnalyses)
+        .values({ ...insertAnalysis, version: (latest ?? 0) + 1 })
+        .returning();
+      
+      await this.recordAudit(tx, {
+        action: "create",
+        entityType: "statistical_analysis",
+        entityId: analysis.id,
+        projectId: await this.projectIdForExperiment(tx, analysis.experimentId),
+        before: null,
+        after: analysis,
+      });
+      return analysis;
+    });
+  }
+
+  async updateStatisticalAnalysis(id: number, analysisData: Partial<InsertStatisticalAnalysis>): Promise<StatisticalAnalysis | undefined> {
+    const [updatedAnalysis] = await db
+      .update(statisticalAnalyses)
+      .set(analysisData)
+      .where(eq(statisticalAnalyses.id, id))
+      .returning();
+    return updatedAnalysis || undefined;
+  }
+
+  async completeStatisticalAnalysis(
+    id: number,
+    summary: AnalysisSummary,
+    results: Omit<InsertAnalysisResult, "analysisId">[]
+  ): Promise<StatisticalAnalysis | undefined> {
+    return db.transaction(async (tx) => {
+      const [analysis] = await tx
+        .update(statisticalAnalyses)
+        .set({ status: "done", summary, completedAt: new Date() })
+        .where(eq(statisticalAnalyses.id, id))
+        .returning();
+      if (!analysis) return undefined;
+      
+      for (let start = 0; start < results.length; start += INSERT_BATCH_SIZE) {
+        await tx.insert(analysisResults)
+          .values(results.slice(start, start + INSERT_BATCH_SIZE).map(result => ({ ...result, analysisId: id })));
+      }
+      return analysis;
+    });
+  }
+
+  async listAnalysisResults(analysisId: number, query: AnalysisResultQuery): Promise<AnalysisResultPage> {
+    const conditions = [eq(analysisResults.analysisId, analysisId)];
+    if (query.maxQValue !== undefined) conditions.push(lte(analysisResults.qValue, query.maxQValue));
+    
+    const sortColumn = query.sort === "mz" || query.sort === "rt" ? features[query.sort] : analysisResults[query.sort];
+    const [{ total }] = await db.select({ total: count() })
+      .from(analysisResults)
+      .where(and(...conditions));
+    const results = await db.select({
+        ...getTableColumns(analysisResults),
+        featureKey: features.featureKey,
+        mz: features.mz,
+        rt: features.rt,
+        name: features.name,
+      })
+      .from(analysisResults)
+      .innerJoin(features, eq(features.id, analysisResults.featureId))
+      .where(and(...conditions))
+      // Untestable features go last either way
+      .orderBy(sql`${sortColumn} ${sql.raw(query.order)} nulls last`, asc(features.position))
+      .offset(query.offset)
+      .limit(query.limit);
+    return { total, results };
+  }
+
+  async deleteStatisticalAnalysis(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [analysis] = await tx.select().from(statisticalAnalyses).where(eq(statisticalAnalyses.id, id));
+      if (!analysis) return false;
+      
+      await tx.delete(analysisResults)
+        .where(eq(analysisResults.analysisId, id));
+      
+      await tx.delete(statisticalAnalyses)
+        .where(eq(statisticalAnalyses.id, id));
+      
+      await this.recordAudit(tx, {
+        action: "delete",
+        entityType: "statistical_analysis",
+        entityId: id,
+        projectId: await this.projectIdForExperiment(tx, analysis.experimentId),
+        before: analysis,
+        after: null,
+      });
+      return true;
+    });
+  }
+
+  // Background job operations
+  async failInterruptedJobs(error: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const completedAt = new Date();
+      const checks = await tx.update(attachmentIntegrityChecks)
+        .set({ status: "failed", error, completedAt })
+        .where(eq(attachmentIntegrityChecks.status, "running"))
+        .returning({ id: attachmentIntegrityChecks.id });
+      const runs = await tx.update(msRuns)
+        .set({ status: "failed", error })
+        .where(eq(msRuns.status, "pending"))
+        .returning({ id: msRuns.id });
+      
+      const libraries = await tx.update(spectralLibraries)
+        .set({ status: "failed", error })
+        .where(eq(spectralLibraries.status, "pending"))
+        .returning({ id: spectralLibraries.id });
+      if (libraries.length > 0) {
+        await tx.delete(librarySpectra)
+          .where(inArray(librarySpectra.libraryId, libraries.map(library => library.id)));
+      }
+      
+      // Imports and drift corrections add features in batches; drop the
+      // ones added before the restart
+      const tables = await tx.update(featureTables)
+        .set({ status: "failed", error })
+        .where(eq(featureTables.status, "pending"))
+        .returning({ id: featureTables.id });
+      if (tables.length > 0) {
+        await tx.delete(features)
+          .where(inArray(features.tableId, tables.map(table => table.id)));
+      }
+      
+      const annotationRuns = await tx.update(featureTables)
+        .set({ annotationStatus: "failed", annotationError: error })
+        .where(eq(featureTables.annotationStatus, "running"))
+        .returning({ id: featureTables.id });
+      const analyses = await tx.update(statisticalAnalyses)
+        .set({ status: "failed", error, completedAt })
+        .where(eq(statisticalAnalyses.status, "running"))
+        .returning({ id: statisticalAnalyses.id });
+      return checks.length + runs.length + libraries.length + tables.length + annotationRuns.length + analyses.length;
+    });
+  }
+
+  // Search operations
+  async searchNotes(query: string): Promise<Note[]> {
+    const searchTerm = `%${query}%`;
+    return db.select()
+      .from(notes)
+      .where(
+        or(
+          like(notes.title, searchTerm),
+          like(notes.content || '', searchTerm)
+        )
+      );
+  }
+
+  async searchProjects(query: string): Promise<Project[]> {
+    const searchTerm = `%${query}%`;
+    return db.select()
+      .from(projects)
+      .where(
+        or(
+          like(projects.name, searchTerm),
+          like(projects.description || '', searchTerm)
+        )
+      );
+  }
+
+  async searchExperiments(query: string): Promise<Experiment[]> {
+    const searchTerm = `%${query}%`;
+    return db.select()
+      .from(experiments)
+      .where(
+        or(
+          like(experiments.name, searchTerm),
+          like(experiments.description || '', searchTerm)
+        )
+      );
+  }
+
+  // Audit operations
+  async listAuditEntries(filter: AuditLogQuery): Promise<AuditLogEntry[]> {
+    const conditions = [];
+    if (filter.projectId !== undefined) conditions.push(eq(auditLog.projectId, filter.projectId));
+    if (filter.projectIds !== undefined) {
+      if (filter.projectIds.length === 0) return [];
+      conditions.push(inArray(auditLog.projectId, filter.projectIds));
+    }
+    if (filter.entityType !== undefined) conditions.push(eq(auditLog.entityType, filter.entityType));
+    if (filter.entityId !== undefined) conditions.push(eq(auditLog.entityId, filter.entityId));
+    if (filter.actorId !== undefined) conditions.push(eq(auditLog.actorId, filter.actorId));
+    if (filter.action !== undefined) conditions.push(eq(auditLog.action, filter.action));
+    if (filter.from !== undefined) conditions.push(gte(auditLog.createdAt, filter.from));
+    if (filter.to !== undefined) conditions.push(lte(auditLog.createdAt, filter.to));
+    
+    return db.select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(filter.limit);
+  }
+  
+  // Audit records are written in the same transaction as the change they
+  // describe, so a change can never be committed without its record.
+  private async recordAudit(
+    tx: DbTransaction,
+    entry: Omit<InsertAuditLogEntry, "actorId"> | Omit<InsertAuditLogEntry, "actorId">[]
+  ) {
+    const entries = Array.isArray(entry) ? entry : [entry];
+    if (entries.length === 0) return;
+    const actorId = getActorId();
+    await tx.insert(auditLog).values(entries.map(item => ({ ...item, actorId })));
+  }
+  
+  // The saving user is the revision author; system saves fall back to the note author
+  private async recordRevision(
+    tx: DbTransaction,
+    note: Note,
+    revision: number,
+    authorId: number = getActorId() ?? note.authorId,
+    createdAt: Date = note.updatedAt
+  ) {
+    await tx.insert(noteRevisions).values({
+      noteId: note.id,
+      revision,
+      title: note.title,
+      content: note.content,
+      authorId,
+      createdAt,
+    });
+  }
+  
+  private async projectIdForExperiment(tx: DbTransaction, experimentId: number): Promise<number | null> {
+    const [experiment] = await tx.select({ projectId: experiments.projectId })
+      .from(experiments)
+      .where(eq(experiments.id, experimentId));
+    return experiment?.projectId ?? null;
+  }
+  
+  private async projectIdForNote(tx: DbTransaction, noteId: number): Promise<number | null> {
+    const [note] = await tx.select({ experimentId: notes.experimentId })
+      .from(notes)
+      .where(eq(notes.id, noteId));
+    return note ? this.projectIdForExperiment(tx, note.experimentId) : null;
+  }
+  
+  // Cascading deletes return the blob keys of the removed attachments, to be
+  // deleted once the transaction has committed
+  private async deleteExperimentCascade(tx: DbTransaction, experiment: Experiment): Promise<(string | null)[]> {
+    const experimentNotes = await tx.select()
+      .from(notes)
+      .where(eq(notes.experimentId, experiment.id));
+    
+    const storageKeys: (string | null)[] = [];
+    for (const note of experimentNotes) {
+      storageKeys.push(...await this.deleteNoteCascade(tx, note, experiment.projectId));
+    }
+    
+    await tx.delete(experimentSamples)
+      .where(eq(experimentSamples.experimentId, experiment.id));
+    
+    const experimentFeatureTables = await tx.select()
+      .from(featureTables)
+      .where(eq(featureTables.experimentId, experiment.id));
+    
+    for (const table of experimentFeatureTables) {
+      await this.deleteFeatureTableCascade(tx, table, experiment.projectId);
+    }
+    
+    await tx.delete(experiments)
+      .where(eq(experiments.id, experiment.id));
+    
+    await this.recordAudit(tx, {
+      action: "delete",
+      entityType: "experiment",
+      entityId: experiment.id,
+      projectId: experiment.projectId,
+      before: experiment,
+      after: null,
+    });
+    return storageKeys;
+  }
+  
+  private async deleteSampleCascade(tx: DbTransaction, sample: Sample) {
+    const [before] = await this.withExperimentIds(tx, [sample]);
+    
+    await tx.delete(experimentSamples)
+      .where(eq(experimentSamples.sampleId, sample.id));
+    
+    await tx.update(featureTableColumns)
+      .set({ sampleId: null })
+      .where(eq(featureTableColumns.sampleId, sample.id));
+    
+    await tx.delete(samples)
+      .where(eq(samples.id, sample.id));
+    
+    await this.recordAudit(tx, {
+      action: "delete",
+      entityType: "sample",
+      entityId: sample.id,
+      projectId: sample.projectId,
+      before,
+      after: null,
+    });
+  }
+  
+  private async withExperimentIds(executor: DbExecutor, sampleRows: Sample[]): Promise<SampleWithExperiments[]> {
+    if (sampleRows.length === 0) return [];
+    
+    const links = await executor.select()
+      .from(experimentSamples)
+      .where(inArray(experimentSamples.sampleId, sampleRows.map(sample => sample.id)));
+    
+    return sampleRows.map(sample => ({
+      ...sample,
+      experimentIds: links
+        .filter(link => link.sampleId === sample.id)
+        .map(link => link.experimentId)
+        .sort((a, b) => a - b),
+    }));
+  }
+  
+  private async linkSampleExperiments(tx: DbTransaction, sampleId: number, experimentIds: number[]) {
+    if (experimentIds.length === 0) return;
+    
+    await tx.insert(experimentSamples)
+      .values(experimentIds.map(experimentId => ({ experimentId, sampleId })))
+      .onConflictDoNothing();
+  }
+  
+  private async deleteFeatureTableCascade(tx: DbTransaction, table: FeatureTable, projectId: number | null) {
+    // Reviewed annotations record who confirmed them, so their removal is
+    // audited; candidates are only the output of the last annotation run
+    const reviewedAnnotations = await tx.delete(featureAnnotations)
+      .where(and(eq(featureAnnotations.tableId, table.id), ne(featureAnnotations.status, "candidate")))
+      .returning();
+    await tx.delete(featureAnnotations)
+      .where(eq(featureAnnotations.tableId, table.id));
+    
+    for (const annotation of reviewedAnnotations) {
+      await this.recordAudit(tx, {
+        action: "delete",
+        entityType: "feature_annotation",
+        entityId: annotation.id,
+        projectId,
+        before: annotation,
+        after: null,
+      });
+    }
+    
+    // Analyses cannot be reproduced without their table
+    const tableAnalyses = await tx.delete(statisticalAnalyses)
+      .where(eq(statisticalAnalyses.featureTableId, table.id))
+      .returning();
+    
+    for (const analysis of tableAnalyses) {
+      await tx.delete(analysisResults)
+        .where(eq(analysisResults.analysisId, analysis.id));
+      
+      await this.recordAudit(tx, {
+        action: "delete",
+        entityType: "statistical_analysis",
+        entityId: analysis.id,
+        projectId,
+        before: analysis,
+        after: null,
+      });
+    }
+    
+    // Drift-corrected versions are kept; their correction settings still
+    // name the table they were computed from
+    const derivedTables = await tx.update(featureTables)
+      .set({ derivedFromTableId: null })
+      .where(eq(featureTables.derivedFromTableId, table.id))
+      .returning();
+    
+    for (const derivedTable of derivedTables) {
+      await this.recordAudit(tx, {
+        action: "update",
+        entityType: "feature_table",
+        entityId: derivedTable.id,
+        projectId,
+        before: { ...derivedTable, derivedFromTableId: table.id },
+        after: derivedTable,
+      });
+    }
+    
+    await tx.delete(features)
+      .where(eq(features.tableId, table.id));
+    
+    await tx.delete(featureTableColumns)
+      .where(eq(featureTableColumns.tableId, table.id));
+    
+    await tx.delete(featureTables)
+      .where(eq(featureTables.id, table.id));
+    
+    await tx.update(experiments)
+      .set({ qcSummary: null })
+      .where(and(
+        eq(experiments.id, table.experimentId),
+        sql`${experiments.qcSummary}->>'featureTableId' = ${String(table.id)}`
+      ));
+    
+    await this.recordAudit(tx, {
+      action: "delete",
+      entityType: "feature_table",
+      entityId: table.id,
+      projectId,
+      before: table,
+      after: null,
+    });
+  }
+  
+  // Removes what was parsed out of an attachment (its MS run and spectral
+  // library) and unlinks feature tables that refer to it; their data stays
+  private async deleteParsedAttachmentData(tx: DbTransaction, attachmentId: number) {
+    await tx.delete(msRuns)
+      .where(eq(msRuns.attachmentId, attachmentId));
+    
+    const [library] = await tx.delete(spectralLibraries)
+      .where(eq(spectralLibraries.attachmentId, attachmentId))
+      .returning({ id: spectralLibraries.id });
+    if (library) {
+      await tx.delete(librarySpectra)
+        .where(eq(librarySpectra.libraryId, library.id));
+    }
+    
+    await tx.update(featureTables)
+      .set({ sourceAttachmentId: null })
+      .where(eq(featureTables.sourceAttachmentId, attachmentId));
+    
+    await tx.update(featureTableColumns)
+      .set({ attachmentId: null })
+      .where(eq(featureTableColumns.attachmentId, attachmentId));
+  }
+  
+  private async deleteNoteCascade(tx: DbTransaction, note: Note, projectId: number | null): Promise<(string | null)[]> {
+    const noteAttachments = await tx.select(attachmentColumns)
+      .from(attachments)
+      .where(eq(attachments.noteId, note.id));
+    
+    for (const attachment of noteAttachments) {
+      await this.deleteParsedAttachmentData(tx, attachment.id);
+      
+      await tx.delete(attachments)
+        .where(eq(attachments.id, attachment.id));
+      
+      await this.recordAudit(tx, {
+        action: "delete",
+        entityType: "attachment",
+        entityId: attachment.id,
+        projectId,
+        before: attachment,
+        after: null,
+      });
+    }
+    
+    await tx.delete(noteRevisions)
+      .where(eq(noteRevisions.noteId, note.id));
+    
+    await tx.delete(noteSignatures)
+      .where(eq(noteSignatures.noteId, note.id));
+    
+    await tx.delete(noteCompounds)
+      .where(eq(noteCompounds.noteId, note.id));
+    
+    await tx.delete(notes)
+      .where(eq(notes.id, note.id));
+    
+    await this.recordAudit(tx, {
+      action: "delete",
+      entityType: "note",
+      entityId: note.id,
+      projectId,
+      before: note,
+      after: null,
+    });
+    return noteAttachments.map(attachment => attachment.storageKey);
+  }
+}
+
+// Memory Implementation (for reference)
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+
+  private users: Map<number, User>;
+  private projects: Map<number, Project>;
+  private experiments: Map<number, Experiment>;
+  private notes: Map<number, Note>;
+  private noteRevisions: Map<number, NoteRevision[]>;
+  private noteSignatures: Map<number, NoteSignature>;
+  private attachments: Map<number, Attachment>;
+  private attachmentIntegrityChecks: Map<number, AttachmentIntegrityCheck>;
+  private msRuns: Map<number, MsRun>;
+  private spectralLibraries: Map<number, SpectralLibrary>;
+  private librarySpectra: Map<number, LibrarySpectrum>;
+  private samples: Map<number, Sample>;
+  private experimentSamples: Map<number, ExperimentSample>;
+  private featureTables: Map<number, FeatureTable>;
+  private featureTableColumns: Map<number, FeatureTableColumn>;
+  private features: Map<number, Feature>;
+  private compounds: Map<number, Compound>;
+  private noteCompounds: Map<number, NoteCompound>;
+  private compoundRetentionTimes: Map<number, CompoundRetentionTime>;
+  private featureAnnotations: Map<number, FeatureAnnotation>;
+  private statisticalAnalyses: Map<number, StatisticalAnalysis>;
+  private analysisResults: Map<number, AnalysisResult>;
+  private projectCollaborators: Map<number, ProjectCollaborator>;
+  private auditEntries: AuditLogEntry[];
+  
+  private userId: number;
+  private projectId: number;
+  private experimentId: number;
+  private noteId: number;
+  private noteRevisionId: number;
+  private noteSignatureId: number;
+  private attachmentId: number;
+  private integrityCheckId: number;
+  private msRunId: number;
+  private spectralLibraryId: number;
+  private librarySpectrumId: number;
+  private sampleId: number;
+  private experimentSampleId: number;
+  private featureTableId: number;
+  private featureTableColumnId: number;
+  private featureId: number;
+  private compoundId: number;
+  private noteCompoundId: number;
+  private retentionTimeId: number;
+  private featureAnnotationId: number;
+  private statisticalAnalysisId: number;
+  private analysisResultId: number;
+  private collaboratorId: number;
+  private auditId: number;
+  
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired entries every 24h
+    });
+
+    this.users = new Map();
+    this.projects = new Map();
+    this.experiments = new Map();
+    this.notes = new Map();
+    this.noteRevisions = new Map();
+    this.noteSignatures = new Map();
+    this.attachments = new Map();
+    this.attachmentIntegrityChecks = new Map();
+    this.msRuns = new Map();
+    this.spectralLibraries = new Map();
+    this.librarySpectra = new Map();
+    this.samples = new Map();
+    this.experimentSamples = new Map();
+    this.featureTables = new Map();
+    this.featureTableColumns = new Map();
+    this.features = new Map();
+    this.compounds = new Map();
+    this.noteCompounds = new Map();
+    this.compoundRetentionTimes = new Map();
+    this.featureAnnotations = new Map();
+    this.statisticalAnalyses = new Map();
+    this.analysisResults = new Map();
+    this.projectCollaborators = new Map();
+    this.auditEntries = [];
+    
+    this.userId = 1;
+    this.projectId = 1;
+    this.experimentId = 1;
+    this.noteId = 1;
+    this.noteRevisionId = 1;
+    this.noteSignatureId = 1;
+    this.attachmentId = 1;
+    this.integrityCheckId = 1;
+    this.msRunId = 1;
+    this.spectralLibraryId = 1;
+    this.librarySpectrumId = 1;
+    this.sampleId = 1;
+    this.experimentSampleId = 1;
+    this.featureTableId = 1;
+    this.featureTableColumnId = 1;
+    this.featureId = 1;
+    this.compoundId = 1;
+    this.noteCompoundId = 1;
+    this.retentionTimeId = 1;
+    this.featureAnnotationId = 1;
+    this.statisticalAnalysisId = 1;
+    this.analysisResultId = 1;
+    this.collaboratorId = 1;
+    this.auditId = 1;
+    
+    // Add default user
+    this.createUser({
+      username: "sarah.chen",
+      password: "password123",
+      displayName: "Dr. Sarah Chen",
+      role: "Principal Investigator"
+    });
+  }
+  
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.userId++;
+    const createdAt = new Date();
+    const password = await hashPassword(insertUser.password);
+    const user = { ...insertUser, password, id, createdAt };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: number, userUpdate: Partial<InsertUser>): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+
+    const updatedUser = {
+      ...existingUser,
+      ...userUpdate,
+    };
+    if (userUpdate.password !== undefined) {
+      updatedUser.password = await hashPassword(userUpdate.password);
+    }
+
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+  
+  // Project operations
+  async getProject(id: number): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+  
+  async listProjects(): Promise<Project[]> {
+    return Array.from(this.projects.values());
+  }
+  
+  async listProjectsByUser(userId: number): Promise<Project[]> {
+    const userProjects = Array.from(this.projects.values()).filter(
+      project => project.ownerId === userId
+    );
+    
+    // Get projects where user is a collaborator
+    const collaboratorProjects = Array.from(this.projectCollaborators.values())
+      .filter(collab => collab.userId === userId)
+      .map(collab => this.projects.get(collab.projectId))
+      .filter(Boolean) as Project[];
+    
+    // Combine and remove duplicates
+    return [...new Set([...userProjects, ...collaboratorProjects])];
+  }
+  
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = this.projectId++;
+    const createdAt = new Date();
+    const updatedAt = createdAt;
+    const project = { description: null, deposition: null, ...insertProject, id, createdAt, updatedAt };
+    this.projects.set(id, project);
+    
+    this.recordAudit({
+      action: "create",
+      entityType: "project",
+      entityId: id,
+      projectId: id,
+      before: null,
+      after: project,
+    });
+    return project;
+  }
+  
+  async updateProject(id: number, projectUpdate: Partial<InsertProject>): Promise<Project | undefined> {
+    const existingProject = this.projects.get(id);
+    if (!existingProject) return undefined;
+    
+    const updatedProject = {
+      ...existingProject,
+      ...projectUpdate,
+      updatedAt: new Date()
+    };
+    
+    this.projects.set(id, updatedProject);
+    
+    this.recordAudit({
+      action: "update",
+      entityType: "project",
+      entityId: id,
+      projectId: id,
+      before: existingProject,
+      after: updatedProject,
+    });
+    return updatedProject;
+  }
+  
+  async deleteProject(id: number): Promise<boolean> {
+    const project = this.projects.get(id);
+    if (!project) return false;
+    
+    // Delete all related experiments, notes, attachments and collaborators
+    const projectExperiments = await this.listExperimentsByProject(id);
+    
+    for (const experiment of projectExperiments) {
+      await this.deleteExperiment(experiment.id);
+    }
+    
+    // Delete samples
+    const projectSamples = await this.listSamplesByProject(id);
+    for (const sample of projectSamples) {
+      await this.deleteSample(sample.id);
+    }
+    
+    // Delete collaborators
+    const collaborators = await this.listCollaboratorsByProject(id);
+    for (const collaborator of collaborators) {
+      await this.removeCollaborator(id, collaborator.userId);
+    }
+    
+    this.projects.delete(id);
+    
+    this.recordAudit({
+      action: "delete",
+      entityType: "project",
+      entityId: id,
+      projectId: id,
+      before: project,
+      after: null,
+    });
+    return true;
   }
   
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.userId++;
+  // Experiment operations
+  async getExperiment(id: number): Promise<Experiment | undefined> {
+    return this.experiments.get(id);
+  }
+  
+  async listExperiments(): Promise<Experiment[]> {
+    return Array.from(this.experiments.values());
+  }
+  
+  async listExperimentsByProject(projectId: number): Promise<Experiment[]> {
+    return Array.from(this.experiments.values()).filter(
+      experiment => experiment.projectId === projectId
+    );
+  }
+  
+  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
+    const id = this.experimentId++;
     const createdAt = new Date();
-    const user = { ...insertUser, id, createdAt };
-    this.users.set(id, user);
-    return user;
+    const updatedAt = createdAt;
+    const experiment = { description: null, ...insertExperiment, id, qcSummary: null, createdAt, updatedAt };
+    this.experiments.set(id, experiment);
+    
+    this.recordAudit({
+      action: "create",
+      entityType: "experiment",
+      entityId: id,
+      projectId: experiment.projectId,
+      before: null,
+      after: experiment,
+    });
+    return experiment;
+  }
+  
+  async updateExperiment(id: number, experimentUpdate: Partial<InsertExperiment>): Promise<Experiment | undefined> {
+    const existingExperiment = this.experiments.get(id);
+    if (!existingExperiment) return undefined;
+    
+    const updatedExperiment = {
+      ...existingExperiment,
+      ...experimentUpdate,
+      updatedAt: new Date()
+    };
+    
+    this.experiments.set(id, updatedExperiment);
+    
+    // Samples belong to a project, so links do not follow a moved experiment
+    if (updatedExperiment.projectId !== existingExperiment.projectId) {
+      this.unlinkSamples(link => link.experimentId === id);
+      this.unlinkFeatureTableColumns(
+        column => this.featureTables.get(column.tableId)?.experimentId === id,
+        { sampleId: null }
+      );
+    }
+    
+    this.recordAudit({
+      action: "update",
+      entityType: "experiment",
+      entityId: id,
+      projectId: updatedExperiment.projectId,
+      before: existingExperiment,
+      after: updatedExperiment,
+    });
+    return updatedExperiment;
+  }
+  
+  async setExperimentQcSummary(id: number, qcSummary: QcSummary | null): Promise<Experiment | undefined> {
+    const experiment = this.experiments.get(id);
+    if (!experiment) return undefined;
+    
+    const updatedExperiment = { ...experiment, qcSummary };
+    this.experiments.set(id, updatedExperiment);
+    return updatedExperiment;
+  }
+  
+  async deleteExperiment(id: number): Promise<boolean> {
+    const experiment = this.experiments.get(id);
+    if (!experiment) return false;
+    
+    // Delete all related notes and their attachments
+    const experimentNotes = await this.listNotesByExperiment(id);
+    
+    for (const note of experimentNotes) {
+      await this.deleteNote(note.id);
+    }
+    
+    this.unlinkSamples(link => link.experimentId === id);
+    
+    const experimentFeatureTables = Array.from(this.featureTables.values())
+      .filter(table => table.experimentId === id);
+    for (const table of experimentFeatureTables) {
+      await this.deleteFeatureTable(table.id);
+    }
+    
+    this.experiments.delete(id);
+    
+    this.recordAudit({
+      action: "delete",
+      entityType: "experiment",
+      entityId: id,
+      projectId: experiment.projectId,
+      before: experiment,
+      after: null,
+    });
+    return true;
+  }
+  
+  // Note operations
+  async getNote(id: number): Promise<Note | undefined> {
+    return this.notes.get(id);
+  }
+  
+  async listNotes(): Promise<Note[]> {
+    return Array.from(this.notes.values());
+  }
+  
+  async listNotesByExperiment(experimentId: number): Promise<Note[]> {
+    return Array.from(this.notes.values()).filter(
+      note => note.experimentId === experimentId
+    );
+  }
+  
+  async createNote(insertNote: InsertNote): Promise<Note> {
+    const id = this.noteId++;
+    const createdAt = new Date();
+    const updatedAt = createdAt;
+    const note = {
+      content: null,
+      amendsNoteId: null,
+      ...insertNote,
+      lockedAt: null,
+      status: "draft",
+      reviewerId: null,
+      reviewComment: null,
+      id,
+      createdAt,
+      updatedAt
+    };
+    this.notes.set(id, note);
+    this.recordRevision(note);
+    
+    this.recordAudit({
+      action: "create",
+      entityType: "note",
+      entityId: id,
+      projectId: this.projectIdForExperiment(note.experimentId),
+      before: null,
+      after: note,
+    });
+    return note;
+  }
+  
+  async updateNote(id: number, noteUpdate: Partial<InsertNote>): Promise<Note | undefined> {
+    const existingNote = this.notes.get(id);
+    if (!existingNote) return undefined;
+    
+    const updatedNote = {
+      ...existingNote,
+      ...noteUpdate,
+      updatedAt: new Date()
+    };
+    
+    this.notes.set(id, updatedNote);
+    this.recordRevision(updatedNote);
+    
+    this.recordAudit({
+      action: "update",
+      entityType: "note",
+      entityId: id,
+      projectId: this.projectIdForExperiment(updatedNote.experimentId),
+      before: existingNote,
+      after: updatedNote,
+    });
+    return updatedNote;
+  }
+  
+  async deleteNote(id: number): Promise<boolean> {
+    const note = this.notes.get(id);
+    if (!note) return false;
+    
+    // Delete all related attachments
+    const noteAttachments = await this.listAttachmentsByNote(id);
+    
+    for (const attachment of noteAttachments) {
+      await this.deleteAttachment(attachment.id);
+    }
+    
+    this.notes.delete(id);
+    this.noteRevisions.delete(id);
+    Array.from(this.noteSignatures.values())
+      .filter(signature => signature.noteId === id)
+      .forEach(signature => this.noteSignatures.delete(signature.id));
+    this.unlinkNoteCompounds(link => link.noteId === id);
+    
+    this.recordAudit({
+      action: "delete",
+      entityType: "note",
+      entityId: id,
+      projectId: this.projectIdForExperiment(note.experimentId),
+      before: note,
+      after: null,
+    });
+    return true;
+  }
+  
+  async updateNoteReview(id: number, review: Partial<NoteReviewFields>): Promise<Note | undefined> {
+    const existingNote = this.notes.get(id);
+    if (!existingNote) return undefined;
+    
+    const updatedNote = { ...existingNote, ...review };
+    this.notes.set(id, updatedNote);
+    
+    this.recordAudit({
+      action: "update",
+      entityType: "note",
+      entityId: id,
+      projectId: this.projectIdForExperiment(updatedNote.experimentId),
+      before: existingNote,
+      after: updatedNote,
+    });
+    return updatedNote;
+  }
+  
+  async listNotesByReviewer(reviewerId: number): Promise<Note[]> {
+    return Array.from(this.notes.values()).filter(
+      note => note.reviewerId === reviewerId
+    );
+  }
+  
+  // Note revision operations
+  async listNoteRevisions(noteId: number): Promise<NoteRevisionSummary[]> {
+    return (this.noteRevisions.get(noteId) || [])
+      .map(({ content: _content, ...summary }) => summary)
+      .reverse();
+  }
+  
+  async getNoteRevision(noteId: number, revision: number): Promise<NoteRevision | undefined> {
+    return this.noteRevisions.get(noteId)?.find(noteRevision => noteRevision.revision === revision);
+  }
+  
+  // Note signature operations
+  async listNoteSignatures(noteId: number): Promise<NoteSignature[]> {
+    return Array.from(this.noteSignatures.values()).filter(
+      signature => signature.noteId === noteId
+    );
+  }
+  
+  async createNoteSignature(insertSignature: InsertNoteSignature): Promise<NoteSignature> {
+    const id = this.noteSignatureId++;
+    const signedAt = new Date();
+    const signature = { revision: null, ...insertSignature, id, signedAt };
+    this.noteSignatures.set(id, signature);
+    
+    const note = this.notes.get(signature.noteId);
+    const projectId = note ? this.projectIdForExperiment(note.experimentId) : null;
+    
+    this.recordAudit({
+      action: "create",
+      entityType: "signature",
+      entityId: id,
+      projectId,
+      before: null,
+      after: signature,
+    });
+    
+    if (note && !note.lockedAt) {
+      const lockedNote = { ...note, lockedAt: signedAt };
+      this.notes.set(note.id, lockedNote);
+      
+      this.recordAudit({
+        action: "update",
+        entityType: "note",
+        entityId: note.id,
+        projectId,
+        before: note,
+        after: lockedNote,
+      });
+    }
+    return signature;
+  }
+  
+  // Attachment operations
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+  
+  async listAttachments(): Promise<Attachment[]> {
+    return Array.from(this.attachments.values());
+  }
+  
+  async listAttachmentsByNote(noteId: number): Promise<Attachment[]> {
+    return Array.from(this.attachments.values()).filter(
+      attachment => attachment.noteId === noteId
+    );
+  }
+  
+  async listAttachmentsBySha256(sha256: string): Promise<Attachment[]> {
+    return Array.from(this.attachments.values()).filter(
+      attachment => attachment.sha256 === sha256
+    );
+  }
+  
+  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
+    const id = this.attachmentId++;
+    const createdAt = new Date();
+    const attachment = { ...insertAttachment, id, createdAt };
+    this.attachments.set(id, attachment);
+    
+    this.recordAudit({
+      action: "create",
+      entityType: "attachment",
+      entityId: id,
+      projectId: this.projectIdForNote(attachment.noteId),
+      before: null,
+      after: attachment,
+    });
+    return attachment;
+  }
+  
+  async deleteAttachment(id: number): Promise<boolean> {
+    const attachment = this.attachments.get(id);
+    if (!attachment) return false;
+    
+    this.attachments.delete(id);
+    Array.from(this.msRuns.values())
+      .filter(msRun => msRun.attachmentId === id)
+      .forEach(msRun => this.msRuns.delete(msRun.id));
+    const library = await this.getSpectralLibraryByAttachment(id);
+    if (library) {
+      this.spectralLibraries.delete(library.id);
+      await this.deleteLibrarySpectra(library.id);
+    }
+    Array.from(this.featureTables.values())
+      .filter(table => table.sourceAttachmentId === id)
+      .forEach(table => this.featureTables.set(table.id, { ...table, sourceAttachmentId: null }));
+    this.unlinkFeatureTableColumns(column => column.attachmentId === id, { attachmentId: null });
+    
+    this.recordAudit({
+      action: "delete",
+      entityType: "attachment",
+      entityId: id,
+      projectId: this.projectIdForNote(attachment.noteId),
+      before: attachment,
+      after: null,
+    });
+    await deleteAttachmentBlobs([attachment.storageKey]);
+    return true;
+  }
+  
+  // Attachment integrity check operations
+  async getAttachmentIntegrityCheck(id: number): Promise<AttachmentIntegrityCheck | undefined> {
+    return this.attachmentIntegrityChecks.get(id);
+  }
+  
+  async getLatestAttachmentIntegrityCheck(): Promise<AttachmentIntegrityCheck | undefined> {
+    return this.attachmentIntegrityChecks.get(this.integrityCheckId - 1);
+  }
+  
+  async createAttachmentIntegrityCheck(insertCheck: InsertAttachmentIntegrityCheck): Promise<AttachmentIntegrityCheck> {
+    const id = this.integrityCheckId++;
+    const check: AttachmentIntegrityCheck = {
+      ...insertCheck,
+      id,
+      status: insertCheck.status ?? "running",
+      error: insertCheck.error ?? null,
+      report: insertCheck.report ?? null,
+      completedAt: insertCheck.completedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.attachmentIntegrityChecks.set(id, check);
+    return check;
+  }
+  
+  async updateAttachmentIntegrityCheck(id: number, checkData: Partial<InsertAttachmentIntegrityCheck>): Promise<AttachmentIntegrityCheck | undefined> {
+    const check = this.attachmentIntegrityChecks.get(id);
+    if (!check) return undefined;
+    
+    const updatedCheck = { ...check, ...checkData };
+    this.attachmentIntegrityChecks.set(id, updatedCheck);
+    return updatedCheck;
+  }
+  
+  // MS run operations
+  async getMsRunByAttachment(attachmentId: number): Promise<MsRun | undefined> {
+    return Array.from(this.msRuns.values()).find(
+      msRun => msRun.attachmentId === attachmentId
+    );
+  }
+  
+  async createMsRun(insertMsRun: InsertMsRun): Promise<MsRun | undefined> {
+    const existing = Array.from(this.msRuns.values()).some(msRun => msRun.attachmentId === insertMsRun.attachmentId);
+    if (existing) return undefined;
+    
+    const id = this.msRunId++;
+    const msRun: MsRun = {
+      status: "pending",
+      error: null,
+      instrumentModel: null,
+      acquisitionDate: null,
+      scanCount: null,
+      msLevels: null,
+      polarity: null,
+      rtMin: null,
+      rtMax: null,
+      tic: null,
+      scanOffsets: null,
+      ...insertMsRun,
+      id,
+      createdAt: new Date(),
+    };
+    this.msRuns.set(id, msRun);
+    return msRun;
+  }
+  
+  async updateMsRun(id: number, msRunData: Partial<InsertMsRun>): Promise<MsRun | undefined> {
+    const msRun = this.msRuns.get(id);
+    if (!msRun) return undefined;
+    
+    const updatedMsRun = { ...msRun, ...msRunData };
+    this.msRuns.set(id, updatedMsRun);
+    return updatedMsRun;
+  }
+  
+  // Spectral library operations
+  async getSpectralLibrary(id: number): Promise<SpectralLibrary | undefined> {
+    return this.spectralLibraries.get(id);
+  }
+  
+  async getSpectralLibraryByAttachment(attachmentId: number): Promise<SpectralLibrary | undefined> {
+    return Array.from(this.spectralLibraries.values()).find(
+      library => library.attachmentId === attachmentId
+    );
+  }
+  
+  async createSpectralLibrary(insertLibrary: InsertSpectralLibrary): Promise<SpectralLibrary | undefined> {
+    const existing = Array.from(this.spectralLibraries.values()).some(library => library.attachmentId === insertLibrary.attachmentId);
+    if (existing) return undefined;
+    
+    const id = this.spectralLibraryId++;
+    const library: SpectralLibrary = {
+      status: "pending",
+      error: null,
+      spectrumCount: 0,
+      ...insertLibrary,
+      id,
+      createdAt: new Date(),
+    };
+    this.spectralLibraries.set(id, library);
+    return library;
+  }
+  
+  async updateSpectralLibrary(id: number, libraryData: Partial<InsertSpectralLibrary>): Promise<SpectralLibrary | undefined> {
+    const library = this.spectralLibraries.get(id);
+    if (!library) return undefined;
+    
+    const updatedLibrary = { ...library, ...libraryData };
+    this.spectralLibraries.set(id, updatedLibrary);
+    return updatedLibrary;
+  }
+  
+  async addLibrarySpectra(spectra: InsertLibrarySpectrum[]): Promise<void> {
+    for (const insertSpectrum of spectra) {
+      const id = this.librarySpectrumId++;
+      this.librarySpectra.set(id, {
+        name: null,
+        precursorMz: null,
+        charge: null,
+        ionMode: null,
+        ...insertSpectrum,
+        id,
+      });
+    }
+  }
+  
+  async deleteLibrarySpectra(libraryId: number): Promise<void> {
+    Array.from(this.librarySpectra.values())
+      .filter(spectrum => spectrum.libraryId === libraryId)
+      .forEach(spectrum => this.librarySpectra.delete(spectrum.id));
+  }
+  
+  async listLibrarySpectra(libraryId: number, query: LibrarySpectraQuery): Promise<LibrarySpectrumPage> {
+    const search = query.search?.toLowerCase();
+    const matching = Array.from(this.librarySpectra.values())
+      .filter(spectrum => spectrum.libraryId === libraryId)
+      .filter(spectrum => !search || (spectrum.name ?? "").toLowerCase().includes(search))
+      .sort((a, b) => a.position - b.position);
+    
+    return {
+      total: matching.length,
+      spectra: matching
+        .slice(query.offset, query.offset + query.limit)
+        .map(({ mz, intensity: _intensity, ...summary }) => ({ ...summary, peakCount: mz.length })),
+    };
+  }
+  
+  async getLibrarySpectrum(id: number): Promise<LibrarySpectrum | undefined> {
+    return this.librarySpectra.get(id);
+  }
+
+  async listSpectralLibraries(projectIds: number[]): Promise<SpectralLibraryWithSource[]> {
+    const libraries: SpectralLibraryWithSource[] = [];
+    for (const library of Array.from(this.spectralLibraries.values())) {
+      const attachment = this.attachments.get(library.attachmentId);
+      const note = attachment && this.notes.get(attachment.noteId);
+      const experiment = note && this.experiments.get(note.experimentId);
+      const project = experiment && this.projects.get(experiment.projectId);
+      if (!attachment || !project || !projectIds.includes(project.id)) continue;
+      libraries.push({ ...library, fileName: attachment.fileName, projectId: project.id, projectName: project.name });
+    }
+    return libraries.sort((a, b) => a.projectName.localeCompare(b.projectName) || a.fileName.localeCompare(b.fileName));
+  }
+
+  async listLibrarySpectraByPrecursor(libraryId: number, mzMin: number, mzMax: number): Promise<LibrarySpectrum[]> {
+    return Array.from(this.librarySpectra.values()).filter(spectrum =>
+      spectrum.libraryId === libraryId &&
+      spectrum.precursorMz !== null &&
+      spectrum.precursorMz >= mzMin &&
+      spectrum.precursorMz <= mzMax
+    );
+  }
+  
+  // Sample operations
+  async getSample(id: number): Promise<SampleWithExperiments | undefined> {
+    const sample = this.samples.get(id);
+    return sample && this.withExperimentIds(sample);
+  }
+  
+  async listSamplesByProject(projectId: number): Promise<SampleWithExperiments[]> {
+    return Array.from(this.samples.values())
+      .filter(sample => sample.projectId === projectId)
+      .sort((a, b) => a.sampleCode.localeCompare(b.sampleCode))
+      .map(sample => this.withExperimentIds(sample));
+  }
+  
+  async listSamplesByExperiment(experimentId: number): Promise<SampleWithExperiments[]> {
+    const sampleIds = new Set(
+      Array.from(this.experimentSamples.values())
+        .filter(link => link.experimentId === experimentId)
+        .map(link => link.sampleId)
+    );
+    return Array.from(this.samples.values())
+      .filter(sample => sampleIds.has(sample.id))
+      .sort((a, b) => a.sampleCode.localeCompare(b.sampleCode))
+      .map(sample => this.withExperimentIds(sample));
   }
   
-  async listUsers(): Promise<User[]> {
-    return Array.from(this.users.values());
+  async createSamples(insertSamples: InsertSample[]): Promise<SampleWithExperiments[]> {
+    return insertSamples.map(({ experimentIds, ...insertSample }) => {
+      const id = this.sampleId++;
+      const now = new Date();
+      const sample: Sample = {
+        matrix: null,
+        organism: null,
+        collectionDate: null,
+        studyGroup: null,
+        ...insertSample,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.samples.set(id, sample);
+      this.linkSampleExperiments(id, experimentIds);
+      
+      const sampleWithExperiments = this.withExperimentIds(sample);
+      this.recordAudit({
+        action: "create",
+        entityType: "sample",
+        entityId: id,
+        projectId: sample.projectId,
+        before: null,
+        after: sampleWithExperiments,
+      });
+      return sampleWithExperiments;
+    });
   }
   
-  // Project operations
-  async getProject(id: number): Promise<Project | undefined> {
-    return this.projects.get(id);
+  async updateSample(id: number, sampleUpdate: UpdateSample): Promise<SampleWithExperiments | undefined> {
+    const existingSample = this.samples.get(id);
+    if (!existingSample) return undefined;
+    
+    const before = this.withExperimentIds(existingSample);
+    const { experimentIds, ...fields } = sampleUpdate;
+    const updatedSample = {
+      ...existingSample,
+      ...fields,
+      updatedAt: new Date()
+    };
+    this.samples.set(id, updatedSample);
+    
+    if (experimentIds !== undefined) {
+      this.unlinkSamples(link => link.sampleId === id);
+      this.linkSampleExperiments(id, experimentIds);
+    }
+    
+    const after = this.withExperimentIds(updatedSample);
+    this.recordAudit({
+      action: "update",
+      entityType: "sample",
+      entityId: id,
+      projectId: updatedSample.projectId,
+      before,
+      after,
+    });
+    return after;
   }
   
-  async listProjects(): Promise<Project[]> {
-    return Array.from(this.projects.values());
+  async bulkUpdateSamples(ids: number[], changes: SampleChanges): Promise<SampleWithExperiments[]> {
+    const { attributes, addExperimentIds = [], removeExperimentIds = [], ...fields } = changes;
+    const updated: SampleWithExperiments[] = [];
+    
+    for (const id of ids) {
+      const existingSample = this.samples.get(id);
+      if (!existingSample) continue;
+      
+      const before = this.withExperimentIds(existingSample);
+      const updatedSample = {
+        ...existingSample,
+        ...fields,
+        attributes: mergeSampleAttributes(existingSample.attributes, attributes),
+        updatedAt: new Date()
+      };
+      this.samples.set(id, updatedSample);
+      
+      this.unlinkSamples(link => link.sampleId === id && removeExperimentIds.includes(link.experimentId));
+      this.linkSampleExperiments(id, addExperimentIds);
+      
+      const after = this.withExperimentIds(updatedSample);
+      this.recordAudit({
+        action: "update",
+        entityType: "sample",
+        entityId: id,
+        projectId: updatedSample.projectId,
+        before,
+        after,
+      });
+      updated.push(after);
+    }
+    return updated.sort((a, b) => a.sampleCode.localeCompare(b.sampleCode));
   }
   
-  async listProjectsByUser(userId: number): Promise<Project[]> {
-    const userProjects = Array.from(this.projects.values()).filter(
-      project => project.ownerId === userId
-    );
+  async deleteSample(id: number): Promise<boolean> {
+    const sample = this.samples.get(id);
+    if (!sample) return false;
     
-    // Get projects where user is a collaborator
-    const collaboratorProjects = Array.from(this.projectCollaborators.values())
-      .filter(collab => collab.userId === userId)
-      .map(collab => this.projects.get(collab.projectId))
-      .filter(Boolean) as Project[];
+    const before = this.withExperimentIds(sample);
+    this.unlinkSamples(link => link.sampleId === id);
+    this.unlinkFeatureTableColumns(column => column.sampleId === id, { sampleId: null });
+    this.samples.delete(id);
     
-    // Combine and remove duplicates
-    return [...new Set([...userProjects, ...collaboratorProjects])];
+    this.recordAudit({
+      action: "delete",
+      entityType: "sample",
+      entityId: id,
+      projectId: sample.projectId,
+      before,
+      after: null,
+    });
+    return true;
   }
   
-  async createProject(insertProject: InsertProject): Promise<Project> {
-    const id = this.projectId++;
-    const createdAt = new Date();
-    const updatedAt = createdAt;
-    const project = { ...insertProject, id, createdAt, updatedAt };
-    this.projects.set(id, project);
-    return project;
+  private withExperimentIds(sample: Sample): SampleWithExperiments {
+    const experimentIds = Array.from(this.experimentSamples.values())
+      .filter(link => link.sampleId === sample.id)
+      .map(link => link.experimentId)
+      .sort((a, b) => a - b);
+    return { ...sample, experimentIds };
   }
   
-  async updateProject(id: number, projectUpdate: Partial<InsertProject>): Promise<Project | undefined> {
-    const existingProject = this.projects.get(id);
-    if (!existingProject) return undefined;
+  private linkSampleExperiments(sampleId: number, experimentIds: number[]) {
+    const linked = this.withExperimentIds(this.samples.get(sampleId)!).experimentIds;
+    for (const experimentId of Array.from(new Set(experimentIds))) {
+      if (linked.includes(experimentId)) continue;
+      const id = this.experimentSampleId++;
+      this.experimentSamples.set(id, { id, experimentId, sampleId });
+    }
+  }
+  
+  private unlinkSamples(predicate: (link: ExperimentSample) => boolean) {
+    Array.from(this.experimentSamples.values())
+      .filter(predicate)
+      .forEach(link => this.experimentSamples.delete(link.id));
+  }
+  
+  // Feature table operations
+  async getFeatureTable(id: number): Promise<FeatureTableWithColumns | undefined> {
+    const table = this.featureTables.get(id);
+    if (!table) return undefined;
     
-    const updatedProject = {
-      ...existingProject,
-      ...projectUpdate,
-      updatedAt: new Date()
+    const columns = Array.from(this.featureTableColumns.values())
+      .filter(column => column.tableId === id)
+      .sort((a, b) => a.position - b.position);
+    return { ...table, columns };
+  }
+  
+  async listFeatureTablesByProject(projectId: number): Promise<FeatureTable[]> {
+    return Array.from(this.featureTables.values())
+      .filter(table => this.experiments.get(table.experimentId)?.projectId === projectId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createFeatureTable(
+    insertTable: InsertFeatureTable,
+    insertColumns: Omit<InsertFeatureTableColumn, "tableId">[]
+  ): Promise<FeatureTableWithColumns> {
+    const id = this.featureTableId++;
+    const table: FeatureTable = {
+      ...insertTable,
+      id,
+      sourceAttachmentId: insertTable.sourceAttachmentId ?? null,
+      status: insertTable.status ?? "pending",
+      error: insertTable.error ?? null,
+      featureCount: insertTable.featureCount ?? 0,
+      annotationStatus: insertTable.annotationStatus ?? null,
+      annotationError: insertTable.annotationError ?? null,
+      annotationSettings: insertTable.annotationSettings ?? null,
+      annotatedAt: insertTable.annotatedAt ?? null,
+      derivedFromTableId: insertTable.derivedFromTableId ?? null,
+      driftCorrection: insertTable.driftCorrection ?? null,
+      createdAt: new Date(),
     };
+    this.featureTables.set(id, table);
     
-    this.projects.set(id, updatedProject);
-    return updatedProject;
+    const columns = insertColumns.map(insertColumn => {
+      const column: FeatureTableColumn = {
+        ...insertColumn,
+        id: this.featureTableColumnId++,
+        tableId: id,
+        sampleId: insertColumn.sampleId ?? null,
+        attachmentId: insertColumn.attachmentId ?? null,
+        injectionOrder: insertColumn.injectionOrder ?? null,
+        batch: insertColumn.batch ?? null,
+      };
+      this.featureTableColumns.set(column.id, column);
+      return column;
+    });
+    
+    const created = { ...table, columns };
+    this.recordAudit({
+      action: "create",
+      entityType: "feature_table",
+      entityId: id,
+      projectId: this.projectIdForExperiment(table.experimentId),
+      before: null,
+      after: created,
+    });
+    return created;
   }
   
-  async deleteProject(id: number): Promise<boolean> {
-    // Delete all related experiments, notes, attachments and collaborators
-    const projectExperiments = await this.listExperimentsByProject(id);
+  async updateFeatureTable(id: number, tableData: Partial<InsertFeatureTable>): Promise<FeatureTable | undefined> {
+    const table = this.featureTables.get(id);
+    if (!table) return undefined;
     
-    for (const experiment of projectExperiments) {
-      await this.deleteExperiment(experiment.id);
+    const updatedTable = { ...table, ...tableData };
+    this.featureTables.set(id, updatedTable);
+    return updatedTable;
+  }
+  
+  async deleteFeatureTable(id: number): Promise<boolean> {
+    const table = this.featureTables.get(id);
+    if (!table) return false;
+    
+    const projectId = this.projectIdForExperiment(table.experimentId);
+    
+    // Reviewed annotations record who confirmed them, so their removal is
+    // audited; candidates are only the output of the last annotation run
+    Array.from(this.featureAnnotations.values())
+      .filter(annotation => annotation.tableId === id && annotation.status !== "candidate")
+      .forEach(annotation => this.recordAudit({
+        action: "delete",
+        entityType: "feature_annotation",
+        entityId: annotation.id,
+        projectId,
+        before: annotation,
+        after: null,
+      }));
+    this.deleteFeatureAnnotations(annotation => annotation.tableId === id);
+    
+    // Analyses cannot be reproduced without their table
+    Array.from(this.statisticalAnalyses.values())
+      .filter(analysis => analysis.featureTableId === id)
+      .forEach(analysis => {
+        this.deleteAnalysisResults(result => result.analysisId === analysis.id);
+        this.statisticalAnalyses.delete(analysis.id);
+        this.recordAudit({
+          action: "delete",
+          entityType: "statistical_analysis",
+          entityId: analysis.id,
+          projectId,
+          before: analysis,
+          after: null,
+        });
+      });
+    
+    // Drift-corrected versions are kept; their correction settings still
+    // name the table they were computed from
+    Array.from(this.featureTables.values())
+      .filter(derivedTable => derivedTable.derivedFromTableId === id)
+      .forEach(derivedTable => {
+        const updatedTable = { ...derivedTable, derivedFromTableId: null };
+        this.featureTables.set(derivedTable.id, updatedTable);
+        this.recordAudit({
+          action: "update",
+          entityType: "feature_table",
+          entityId: derivedTable.id,
+          projectId,
+          before: derivedTable,
+          after: updatedTable,
+        });
+      });
+    
+    await this.deleteFeatures(id);
+    Array.from(this.featureTableColumns.values())
+      .filter(column => column.tableId === id)
+      .forEach(column => this.featureTableColumns.delete(column.id));
+    this.featureTables.delete(id);
+    
+    const experiment = this.experiments.get(table.experimentId);
+    if (experiment?.qcSummary?.featureTableId === id) {
+      this.experiments.set(experiment.id, { ...experiment, qcSummary: null });
     }
     
-    // Delete collaborators
-    const collaborators = await this.listCollaboratorsByProject(id);
-    for (const collaborator of collaborators) {
-      await this.removeCollaborator(id, collaborator.userId);
+    this.recordAudit({
+      action: "delete",
+      entityType: "feature_table",
+      entityId: id,
+      projectId,
+      before: table,
+      after: null,
+    });
+    return true;
+  }
+  
+  async addFeatures(featureRows: InsertFeature[]): Promise<void> {
+    for (const insertFeature of featureRows) {
+      const id = this.featureId++;
+      this.features.set(id, {
+        ...insertFeature,
+        id,
+        rt: insertFeature.rt ?? null,
+        name: insertFeature.name ?? null,
+        adduct: insertFeature.adduct ?? null,
+      });
     }
+  }
+  
+  async deleteFeatures(tableId: number): Promise<void> {
+    Array.from(this.features.values())
+      .filter(feature => feature.tableId === tableId)
+      .forEach(feature => this.features.delete(feature.id));
+  }
+  
+  async listFeatures(tableId: number, query: FeatureQuery): Promise<FeaturePage> {
+    const search = query.search?.toLowerCase();
+    const inRange = (value: number | null, min?: number, max?: number) =>
+      (min === undefined || (value !== null && value >= min)) && (max === undefined || (value !== null && value <= max));
+    const direction = query.order === "desc" ? -1 : 1;
+    
+    const annotations = Array.from(this.featureAnnotations.values()).filter(annotation => annotation.tableId === tableId);
+    const acceptedNames = (featureId: number) => annotations
+      .filter(annotation => annotation.featureId === featureId && annotation.status === "accepted")
+      .map(annotation => this.compounds.get(annotation.compoundId)?.name ?? "")
+      .sort();
+    const candidateCount = (featureId: number) => annotations
+      .filter(annotation => annotation.featureId === featureId && annotation.status === "candidate")
+      .length;
+    const matchesAnnotation = (feature: Feature) => {
+      switch (query.annotation) {
+        case "accepted": return acceptedNames(feature.id).length > 0;
+        case "candidates": return candidateCount(feature.id) > 0;
+        case "unannotated": return acceptedNames(feature.id).length === 0 && candidateCount(feature.id) === 0;
+        default: return true;
+      }
+    };
     
-    return this.projects.delete(id);
+    const matching = Array.from(this.features.values())
+      .filter(feature => feature.tableId === tableId)
+      .filter(matchesAnnotation)
+      .filter(feature => !search ||
+        (feature.name ?? "").toLowerCase().includes(search) || feature.featureKey.toLowerCase().includes(search))
+      .filter(feature => inRange(feature.mz, query.mzMin, query.mzMax) && inRange(feature.rt, query.rtMin, query.rtMax))
+      .sort((a, b) => {
+        const left = a[query.sort];
+        const right = b[query.sort];
+        // Missing values sort last in either direction
+        if (left === null || right === null) {
+          if (left !== right) return left === null ? 1 : -1;
+        } else if (left !== right) {
+          return (left < right ? -1 : 1) * direction;
+        }
+        return a.position - b.position;
+      });
+    
+    return {
+      total: matching.length,
+      features: matching
+        .slice(query.offset, query.offset + query.limit)
+        .map(({ metadata: _metadata, intensities: _intensities, ...summary }) => {
+          const names = acceptedNames(summary.id);
+          return { ...summary, annotation: names.length > 0 ? names.join("; ") : null, candidateCount: candidateCount(summary.id) };
+        }),
+    };
   }
   
-  // Experiment operations
-  async getExperiment(id: number): Promise<Experiment | undefined> {
-    return this.experiments.get(id);
+  async listFeaturesWithIntensities(tableId: number): Promise<Feature[]> {
+    return Array.from(this.features.values())
+      .filter(feature => feature.tableId === tableId)
+      .sort((a, b) => a.position - b.position);
   }
   
-  async listExperiments(): Promise<Experiment[]> {
-    return Array.from(this.experiments.values());
+  async getFeature(id: number): Promise<Feature | undefined> {
+    return this.features.get(id);
   }
   
-  async listExperimentsByProject(projectId: number): Promise<Experiment[]> {
-    return Array.from(this.experiments.values()).filter(
-      experiment => experiment.projectId === projectId
-    );
+  private unlinkFeatureTableColumns(
+    predicate: (column: FeatureTableColumn) => boolean,
+    changes: Partial<Pick<FeatureTableColumn, "sampleId" | "attachmentId">>
+  ) {
+    Array.from(this.featureTableColumns.values())
+      .filter(predicate)
+      .forEach(column => this.featureTableColumns.set(column.id, { ...column, ...changes }));
   }
   
-  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
-    const id = this.experimentId++;
-    const createdAt = new Date();
-    const updatedAt = createdAt;
-    const experiment = { ...insertExperiment, id, createdAt, updatedAt };
-    this.experiments.set(id, experiment);
-    return experiment;
+  // Compound operations
+  async getCompound(id: number): Promise<Compound | undefined> {
+    return this.compounds.get(id);
   }
   
-  async updateExperiment(id: number, experimentUpdate: Partial<InsertExperiment>): Promise<Experiment | undefined> {
-    const existingExperiment = this.experiments.get(id);
-    if (!existingExperiment) return undefined;
+  async getCompoundByInchiKey(inchiKey: string): Promise<Compound | undefined> {
+    return Array.from(this.compounds.values()).find(compound => compound.inchiKey === inchiKey);
+  }
+  
+  async listCompounds(query: CompoundSearch): Promise<{ total: number; compounds: Compound[] }> {
+    const search = query.search?.toLowerCase();
+    const tolerance = query.tolerance ?? 0;
+    const matchesSearch = (compound: Compound) => !search ||
+      compound.name.toLowerCase().includes(search) ||
+      compound.synonyms.some(synonym => synonym.toLowerCase().includes(search)) ||
+      (search.length >= 14 ? compound.inchiKey?.toLowerCase().startsWith(search) : compound.inchiKey?.toLowerCase() === search) ||
+      [compound.hmdbId, compound.chebiId, compound.keggId, compound.pubchemCid].some(id => id?.toLowerCase() === search);
+    const distance = (compound: Compound) => Math.abs(compound.monoisotopicMass! - query.mass!);
     
-    const updatedExperiment = {
-      ...existingExperiment,
-      ...experimentUpdate,
+    const matching = Array.from(this.compounds.values())
+      .filter(matchesSearch)
+      .filter(compound => query.mass === undefined ||
+        (compound.monoisotopicMass !== null && distance(compound) <= tolerance))
+      .sort((a, b) => (query.mass !== undefined ? distance(a) - distance(b) : a.name.localeCompare(b.name)) || a.id - b.id);
+    
+    return {
+      total: matching.length,
+      compounds: matching.slice(query.offset, query.offset + query.limit),
+    };
+  }
+  
+  async listCompoundInchiKeys(): Promise<string[]> {
+    return Array.from(this.compounds.values()).flatMap(compound => compound.inchiKey ? [compound.inchiKey] : []);
+  }
+  
+  async listCompoundMasses(): Promise<LibraryMass[]> {
+    return Array.from(this.compounds.values())
+      .flatMap(compound => compound.monoisotopicMass !== null
+        ? [{ compoundId: compound.id, monoisotopicMass: compound.monoisotopicMass }]
+        : [])
+      .sort((a, b) => a.monoisotopicMass - b.monoisotopicMass);
+  }
+  
+  async createCompounds(insertCompounds: InsertCompound[]): Promise<Compound[]> {
+    return insertCompounds.map(insertCompound => {
+      const id = this.compoundId++;
+      const now = new Date();
+      const compound: Compound = {
+        monoisotopicMass: null,
+        inchiKey: null,
+        ...insertCompound,
+        id,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.compounds.set(id, compound);
+      
+      this.recordAudit({
+        action: "create",
+        entityType: "compound",
+        entityId: id,
+        projectId: null,
+        before: null,
+        after: compound,
+      });
+      return compound;
+    });
+  }
+  
+  async updateCompound(id: number, compoundUpdate: UpdateCompound): Promise<Compound | undefined> {
+    const existingCompound = this.compounds.get(id);
+    if (!existingCompound) return undefined;
+    
+    const updatedCompound = {
+      ...existingCompound,
+      ...compoundUpdate,
       updatedAt: new Date()
     };
+    this.compounds.set(id, updatedCompound);
     
-    this.experiments.set(id, updatedExperiment);
-    return updatedExperiment;
+    this.recordAudit({
+      action: "update",
+      entityType: "compound",
+      entityId: id,
+      projectId: null,
+      before: existingCompound,
+      after: updatedCompound,
+    });
+    return updatedCompound;
   }
   
-  async deleteExperiment(id: number): Promise<boolean> {
-    // Delete all related notes and their attachments
-    const experimentNotes = await this.listNotesByExperiment(id);
+  async deleteCompound(id: number): Promise<boolean> {
+    const compound = this.compounds.get(id);
+    if (!compound) return false;
     
-    for (const note of experimentNotes) {
-      await this.deleteNote(note.id);
-    }
+    this.unlinkNoteCompounds(link => link.compoundId === id);
+    Array.from(this.compoundRetentionTimes.values())
+      .filter(retentionTime => retentionTime.compoundId === id)
+      .forEach(retentionTime => this.compoundRetentionTimes.delete(retentionTime.id));
+    this.deleteFeatureAnnotations(annotation => annotation.compoundId === id);
+    this.compounds.delete(id);
     
-    return this.experiments.delete(id);
+    this.recordAudit({
+      action: "delete",
+      entityType: "compound",
+      entityId: id,
+      projectId: null,
+      before: compound,
+      after: null,
+    });
+    return true;
   }
   
-  // Note operations
-  async getNote(id: number): Promise<Note | undefined> {
-    return this.notes.get(id);
+  // Note compound operations
+  async listCompoundsByNote(noteId: number): Promise<Compound[]> {
+    return Array.from(this.noteCompounds.values())
+      .filter(link => link.noteId === noteId)
+      .flatMap(link => this.compounds.get(link.compoundId) ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name));
   }
   
-  async listNotes(): Promise<Note[]> {
-    return Array.from(this.notes.values());
+  async listNotesByCompound(compoundId: number): Promise<Note[]> {
+    return Array.from(this.noteCompounds.values())
+      .filter(link => link.compoundId === compoundId)
+      .flatMap(link => this.notes.get(link.noteId) ?? [])
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
   
-  async listNotesByExperiment(experimentId: number): Promise<Note[]> {
-    return Array.from(this.notes.values()).filter(
-      note => note.experimentId === experimentId
-    );
+  async linkNoteCompound(noteId: number, compoundId: number): Promise<void> {
+    const exists = Array.from(this.noteCompounds.values())
+      .some(link => link.noteId === noteId && link.compoundId === compoundId);
+    if (exists) return;
+    
+    const id = this.noteCompoundId++;
+    this.noteCompounds.set(id, { id, noteId, compoundId });
   }
   
-  async createNote(insertNote: InsertNote): Promise<Note> {
-    const id = this.noteId++;
-    const createdAt = new Date();
-    const updatedAt = createdAt;
-    const note = { ...insertNote, id, createdAt, updatedAt };
-    this.notes.set(id, note);
-    return note;
+  async unlinkNoteCompound(noteId: number, compoundId: number): Promise<boolean> {
+    return this.unlinkNoteCompounds(link => link.noteId === noteId && link.compoundId === compoundId) > 0;
   }
   
-  async updateNote(id: number, noteUpdate: Partial<InsertNote>): Promise<Note | undefined> {
-    const existingNote = this.notes.get(id);
-    if (!existingNote) return undefined;
+  private unlinkNoteCompounds(predicate: (link: NoteCompound) => boolean): number {
+    const links = Array.from(this.noteCompounds.values()).filter(predicate);
+    links.forEach(link => this.noteCompounds.delete(link.id));
+    return links.length;
+  }
+  
+  // Retention time library operations
+  async getRetentionTime(id: number): Promise<CompoundRetentionTime | undefined> {
+    return this.compoundRetentionTimes.get(id);
+  }
+  
+  async listRetentionTimesByCompound(compoundId: number): Promise<CompoundRetentionTime[]> {
+    return Array.from(this.compoundRetentionTimes.values())
+      .filter(retentionTime => retentionTime.compoundId === compoundId)
+      .sort((a, b) => a.method.localeCompare(b.method));
+  }
+  
+  async listRetentionTimesByMethod(method: string): Promise<CompoundRetentionTime[]> {
+    return Array.from(this.compoundRetentionTimes.values())
+      .filter(retentionTime => retentionTime.method === method);
+  }
+  
+  async listRetentionTimeMethods(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.compoundRetentionTimes.values()).map(retentionTime => retentionTime.method)))
+      .sort();
+  }
+  
+  async setRetentionTime(compoundId: number, retentionTime: InsertRetentionTime, createdById: number): Promise<CompoundRetentionTime> {
+    const existing = Array.from(this.compoundRetentionTimes.values())
+      .find(other => other.compoundId === compoundId && other.method === retentionTime.method);
+    const saved: CompoundRetentionTime = {
+      ...retentionTime,
+      id: existing?.id ?? this.retentionTimeId++,
+      compoundId,
+      createdById,
+      createdAt: new Date(),
+    };
+    this.compoundRetentionTimes.set(saved.id, saved);
+    return saved;
+  }
+  
+  async deleteRetentionTime(id: number): Promise<boolean> {
+    return this.compoundRetentionTimes.delete(id);
+  }
+  
+  // Feature annotation operations
+  async getFeatureAnnotation(id: number): Promise<FeatureAnnotation | undefined> {
+    return this.featureAnnotations.get(id);
+  }
+  
+  async listFeatureAnnotations(tableId: number, query: FeatureAnnotationQuery): Promise<FeatureAnnotationWithCompound[]> {
+    return Array.from(this.featureAnnotations.values())
+      .filter(annotation => annotation.tableId === tableId &&
+        (query.featureId === undefined || annotation.featureId === query.featureId) &&
+        (query.status === undefined || annotation.status === query.status))
+      .sort((a, b) => a.featureId - b.featureId || a.msiLevel - b.msiLevel || Math.abs(a.ppmError) - Math.abs(b.ppmError))
+      .flatMap(annotation => {
+        const compound = this.compounds.get(annotation.compoundId);
+        if (!compound) return [];
+        const reviewer = annotation.reviewedById !== null ? this.users.get(annotation.reviewedById) : undefined;
+        return [{
+          ...annotation,
+          compound: {
+            id: compound.id,
+            name: compound.name,
+            formula: compound.formula,
+            monoisotopicMass: compound.monoisotopicMass,
+          },
+          reviewerName: reviewer?.displayName ?? null,
+        }];
+      });
+  }
+  
+  async replaceFeatureAnnotationCandidates(tableId: number, annotations: InsertFeatureAnnotation[]): Promise<number> {
+    this.deleteFeatureAnnotations(annotation => annotation.tableId === tableId && annotation.status === "candidate");
     
-    const updatedNote = {
-      ...existingNote,
-      ...noteUpdate,
-      updatedAt: new Date()
+    const key = (annotation: Pick<FeatureAnnotation, "featureId" | "compoundId" | "adduct">) =>
+      `${annotation.featureId}:${annotation.compoundId}:${annotation.adduct}`;
+    const taken = new Set(Array.from(this.featureAnnotations.values()).map(key));
+    let added = 0;
+    for (const insertAnnotation of annotations) {
+      if (taken.has(key(insertAnnotation))) continue;
+      taken.add(key(insertAnnotation));
+      
+      const id = this.featureAnnotationId++;
+      this.featureAnnotations.set(id, {
+        ...insertAnnotation,
+        id,
+        rtError: insertAnnotation.rtError ?? null,
+        status: insertAnnotation.status ?? "candidate",
+        reviewedById: insertAnnotation.reviewedById ?? null,
+        reviewedAt: insertAnnotation.reviewedAt ?? null,
+        createdAt: new Date(),
+      });
+      added++;
+    }
+    return added;
+  }
+  
+  async reviewFeatureAnnotation(id: number, status: FeatureAnnotationStatus, reviewedById: number): Promise<FeatureAnnotation | undefined> {
+    const existingAnnotation = this.featureAnnotations.get(id);
+    if (!existingAnnotation) return undefined;
+    
+    const reviewed = status !== "candidate";
+    const updatedAnnotation = {
+      ...existingAnnotation,
+      status,
+      reviewedById: reviewed ? reviewedById : null,
+      reviewedAt: reviewed ? new Date() : null,
     };
+    this.featureAnnotations.set(id, updatedAnnotation);
     
-    this.notes.set(id, updatedNote);
-    return updatedNote;
+    const table = this.featureTables.get(existingAnnotation.tableId);
+    this.recordAudit({
+      action: "update",
+      entityType: "feature_annotation",
+      entityId: id,
+      projectId: table ? this.projectIdForExperiment(table.experimentId) : null,
+      before: existingAnnotation,
+      after: updatedAnnotation,
+    });
+    return updatedAnnotation;
   }
   
-  async deleteNote(id: number): Promise<boolean> {
-    // Delete all related attachments
-    const noteAttachments = await this.listAttachmentsByNote(id);
+  async hasAcceptedAnnotations(compoundId: number): Promise<boolean> {
+    return Array.from(this.featureAnnotations.values())
+      .some(annotation => annotation.compoundId === compoundId && annotation.status === "accepted");
+  }
+  
+  private deleteFeatureAnnotations(predicate: (annotation: FeatureAnnotation) => boolean) {
+    Array.from(this.featureAnnotations.values())
+      .filter(predicate)
+      .forEach(annotation => this.featureAnnotations.delete(annotation.id));
+  }
+  
+  // Statistical analysis operations
+  async getStatisticalAnalysis(id: number): Promise<StatisticalAnalysis | undefined> {
+    return this.statisticalAnalyses.get(id);
+  }
+  
+  async listStatisticalAnalysesByProject(projectId: number): Promise<StatisticalAnalysis[]> {
+    return Array.from(this.statisticalAnalyses.values())
+      .filter(analysis => this.experiments.get(analysis.experimentId)?.projectId === projectId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createStatisticalAnalysis(insertAnalysis: InsertStatisticalAnalysis): Promise<StatisticalAnalysis> {
+    const versions = Array.from(this.statisticalAnalyses.values())
+      .filter(other => other.experimentId === insertAnalysis.experimentId && other.name === insertAnalysis.name)
+      .map(other => other.version);
+    const id = this.statisticalAnalysisId++;
+    const analysis: StatisticalAnalysis = {
+      ...insertAnalysis,
+      id,
+      version: Math.max(0, ...versions) + 1,
+      status: insertAnalysis.status ?? "running",
+      error: insertAnalysis.error ?? null,
+      summary: insertAnalysis.summary ?? null,
+      completedAt: insertAnalysis.completedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.statisticalAnalyses.set(id, analysis);
     
-    for (const attachment of noteAttachments) {
-      await this.deleteAttachment(attachment.id);
-    }
+    this.recordAudit({
+      action: "create",
+      entityType: "statistical_analysis",
+      entityId: id,
+      projectId: this.projectIdForExperiment(analysis.experimentId),
+      before: null,
+      after: analysis,
+    });
+    return analysis;
+  }
+  
+  async updateStatisticalAnalysis(id: number, analysisData: Partial<InsertStatisticalAnalysis>): Promise<StatisticalAnalysis | undefined> {
+    const analysis = this.statisticalAnalyses.get(id);
+    if (!analysis) return undefined;
     
-    return this.notes.delete(id);
+    const updatedAnalysis = { ...analysis, ...analysisData };
+    this.statisticalAnalyses.set(id, updatedAnalysis);
+    return updatedAnalysis;
   }
   
-  // Attachment operations
-  async getAttachment(id: number): Promise<Attachment | undefined> {
-    return this.attachments.get(id);
+  async completeStatisticalAnalysis(
+    id: number,
+    summary: AnalysisSummary,
+    results: Omit<InsertAnalysisResult, "analysisId">[]
+  ): Promise<StatisticalAnalysis | undefined> {
+    const analysis = await this.updateStatisticalAnalysis(id, { status: "done", summary, completedAt: new Date() });
+    if (!analysis) return undefined;
+    
+    for (const result of results) {
+      const resultId = this.analysisResultId++;
+      this.analysisResults.set(resultId, {
+        ...result,
+        id: resultId,
+        analysisId: id,
+        statistic: result.statistic ?? null,
+        pValue: result.pValue ?? null,
+        qValue: result.qValue ?? null,
+        log2FoldChange: result.log2FoldChange ?? null,
+      });
+    }
+    return analysis;
   }
   
-  async listAttachmentsByNote(noteId: number): Promise<Attachment[]> {
-    return Array.from(this.attachments.values()).filter(
-      attachment => attachment.noteId === noteId
-    );
+  async listAnalysisResults(analysisId: number, query: AnalysisResultQuery): Promise<AnalysisResultPage> {
+    const direction = query.order === "desc" ? -1 : 1;
+    const matching = Array.from(this.analysisResults.values())
+      .filter(result => result.analysisId === analysisId)
+      .filter(result => query.maxQValue === undefined || (result.qValue !== null && result.qValue <= query.maxQValue))
+      .flatMap(result => {
+        const feature = this.features.get(result.featureId);
+        return feature
+          ? [{ ...result, featureKey: feature.featureKey, mz: feature.mz, rt: feature.rt, name: feature.name, position: feature.position }]
+          : [];
+      })
+      .sort((a, b) => {
+        const left = a[query.sort];
+        const right = b[query.sort];
+        // Untestable features go last either way
+        if (left === null || right === null) {
+          if (left !== right) return left === null ? 1 : -1;
+        } else if (left !== right) {
+          return (left < right ? -1 : 1) * direction;
+        }
+        return a.position - b.position;
+      });
+    
+    return {
+      total: matching.length,
+      results: matching
+        .slice(query.offset, query.offset + query.limit)
+        .map(({ position: _position, ...result }) => result),
+    };
   }
   
-  async createAttachment(insertAttachment: InsertAttachment): Promise<Attachment> {
-    const id = this.attachmentId++;
-    const createdAt = new Date();
-    const attachment = { ...insertAttachment, id, createdAt };
-    this.attachments.set(id, attachment);
-    return attachment;
+  async deleteStatisticalAnalysis(id: number): Promise<boolean> {
+    const analysis = this.statisticalAnalyses.get(id);
+    if (!analysis) return false;
+    
+    this.deleteAnalysisResults(result => result.analysisId === id);
+    this.statisticalAnalyses.delete(id);
+    
+    this.recordAudit({
+      action: "delete",
+      entityType: "statistical_analysis",
+      entityId: id,
+      projectId: this.projectIdForExperiment(analysis.experimentId),
+      before: analysis,
+      after: null,
+    });
+    return true;
   }
   
-  async deleteAttachment(id: number): Promise<boolean> {
-    return this.attachments.delete(id);
+  private deleteAnalysisResults(predicate: (result: AnalysisResult) => boolean) {
+    Array.from(this.analysisResults.values())
+      .filter(predicate)
+      .forEach(result => this.analysisResults.delete(result.id));
   }
   
   // Project collaborator operations
+  async getCollaborator(projectId: number, userId: number): Promise<ProjectCollaborator | undefined> {
+    return Array.from(this.projectCollaborators.values()).find(
+      c => c.projectId === projectId && c.userId === userId
+    );
+  }
+  
   async addCollaborator(insertCollaborator: InsertProjectCollaborator): Promise<ProjectCollaborator> {
     const id = this.collaboratorId++;
     const collaborator = { ...insertCollaborator, id };
@@ -654,6 +3672,49 @@ export class MemStorage implements IStorage {
     );
   }
   
+  // Background job operations
+  async failInterruptedJobs(error: string): Promise<number> {
+    const completedAt = new Date();
+    const checks = Array.from(this.attachmentIntegrityChecks.values())
+      .filter(check => check.status === "running");
+    for (const check of checks) {
+      this.attachmentIntegrityChecks.set(check.id, { ...check, status: "failed", error, completedAt });
+    }
+    
+    const runs = Array.from(this.msRuns.values())
+      .filter(msRun => msRun.status === "pending");
+    for (const msRun of runs) {
+      this.msRuns.set(msRun.id, { ...msRun, status: "failed", error });
+    }
+    
+    const libraries = Array.from(this.spectralLibraries.values())
+      .filter(library => library.status === "pending");
+    for (const library of libraries) {
+      this.spectralLibraries.set(library.id, { ...library, status: "failed", error });
+      await this.deleteLibrarySpectra(library.id);
+    }
+    
+    const tables = Array.from(this.featureTables.values())
+      .filter(table => table.status === "pending");
+    for (const table of tables) {
+      this.featureTables.set(table.id, { ...table, status: "failed", error });
+      await this.deleteFeatures(table.id);
+    }
+    
+    const annotationRuns = Array.from(this.featureTables.values())
+      .filter(table => table.annotationStatus === "running");
+    for (const table of annotationRuns) {
+      this.featureTables.set(table.id, { ...table, annotationStatus: "failed", annotationError: error });
+    }
+    
+    const analyses = Array.from(this.statisticalAnalyses.values())
+      .filter(analysis => analysis.status === "running");
+    for (const analysis of analyses) {
+      this.statisticalAnalyses.set(analysis.id, { ...analysis, status: "failed", error, completedAt });
+    }
+    return checks.length + runs.length + libraries.length + tables.length + annotationRuns.length + analyses.length;
+  }
+  
   // Search operations
   async searchNotes(query: string): Promise<Note[]> {
     if (!query) return [];
@@ -684,6 +3745,61 @@ export class MemStorage implements IStorage {
       (experiment.description && experiment.description.toLowerCase().includes(lowercaseQuery))
     );
   }
+  
+  // Audit operations
+  async listAuditEntries(filter: AuditLogQuery): Promise<AuditLogEntry[]> {
+    return this.auditEntries
+      .filter(entry =>
+        (filter.projectId === undefined || entry.projectId === filter.projectId) &&
+        (filter.projectIds === undefined || (entry.projectId !== null && filter.projectIds.includes(entry.projectId))) &&
+        (filter.entityType === undefined || entry.entityType === filter.entityType) &&
+        (filter.entityId === undefined || entry.entityId === filter.entityId) &&
+        (filter.actorId === undefined || entry.actorId === filter.actorId) &&
+        (filter.action === undefined || entry.action === filter.action) &&
+        (filter.from === undefined || entry.createdAt >= filter.from) &&
+        (filter.to === undefined || entry.createdAt <= filter.to)
+      )
+      .reverse()
+      .slice(0, filter.limit);
+  }
+  
+  private recordRevision(note: Note) {
+    const revisions = this.noteRevisions.get(note.id) || [];
+    revisions.push({
+      id: this.noteRevisionId++,
+      noteId: note.id,
+      revision: revisions.length + 1,
+      title: note.title,
+      content: note.content,
+      authorId: getActorId() ?? note.authorId,
+      createdAt: note.updatedAt,
+    });
+    this.noteRevisions.set(note.id, revisions);
+  }
+  
+  private recordAudit(entry: Omit<InsertAuditLogEntry, "actorId">) {
+    // Entries are frozen copies so later changes to the entity cannot alter them
+    this.auditEntries.push(Object.freeze({
+      id: this.auditId++,
+      actorId: getActorId(),
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      projectId: entry.projectId ?? null,
+      before: entry.before === null ? null : structuredClone(entry.before),
+      after: entry.after === null ? null : structuredClone(entry.after),
+      createdAt: new Date(),
+    }));
+  }
+  
+  private projectIdForExperiment(experimentId: number): number | null {
+    return this.experiments.get(experimentId)?.projectId ?? null;
+  }
+  
+  private projectIdForNote(noteId: number): number | null {
+    const note = this.notes.get(noteId);
+    return note ? this.projectIdForExperiment(note.experimentId) : null;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,278 @@
+import { formatCsv } from "./csv";
+import { escapeHtml } from "./html-diff";
+import { Experiment, GenerateWorklist, Sample, SampleType, Worklist, WorklistFormat, WorklistInjection } from "@shared/schema";
+
+const WELL_ROWS = "ABCDEFGH";
+const WELL_COLUMNS = 12;
+const WELLS_PER_PLATE = WELL_ROWS.length * WELL_COLUMNS;
+
+// Thrown when the experiment's samples cannot fill the requested sequence;
+// the API error handler responds with 400
+export class WorklistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorklistError";
+  }
+}
+
+export const WORKLIST_FORMAT_LABELS: Record<WorklistFormat, string> = {
+  generic: "Generic CSV",
+  xcalibur: "Thermo Xcalibur",
+  masshunter: "Agilent MassHunter",
+  masslynx: "Waters MassLynx",
+};
+
+const SAMPLE_TYPE_NAMES: Record<SampleType, string> = {
+  study: "study sample",
+  qc: "QC",
+  blank: "blank",
+  standard: "standard",
+};
+
+// Sample type column values each acquisition software expects
+const VENDOR_SAMPLE_TYPES: Record<Exclude<WorklistFormat, "generic">, Record<SampleType, string>> = {
+  xcalibur: { study: "Unknown", qc: "QC", blank: "Blank", standard: "Std Bracket" },
+  masshunter: { study: "Sample", qc: "QC", blank: "Blank", standard: "Calibration" },
+  masslynx: { study: "Analyte", qc: "QC", blank: "Blank", standard: "Standard" },
+};
+
+// Small seedable PRNG (mulberry32) so a sequence can be regenerated exactly
+// from its recorded seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Splits items into the fewest batches of at most batchSize, with sizes
+// differing by at most one
+function splitIntoBatches<T>(items: T[], batchSize: number | null | undefined): T[][] {
+  const batchCount = batchSize ? Math.max(1, Math.ceil(items.length / batchSize)) : 1;
+  const batches: T[][] = [];
+  let start = 0;
+  for (let batch = 0; batch < batchCount; batch++) {
+    const size = Math.floor(items.length / batchCount) + (batch < items.length % batchCount ? 1 : 0);
+    batches.push(items.slice(start, start + size));
+    start += size;
+  }
+  return batches;
+}
+
+const safeFileName = (value: string) => value.replace(/[^A-Za-z0-9_-]+/g, "_");
+
+// Builds the injection sequence for an experiment's samples. Each batch opens
+// with blanks, standards and conditioning QCs, has a pooled QC after every
+// qcInterval study samples and a closing QC, then standards and blanks. When
+// an experiment has several QC, blank or standard samples they are used in
+// turn.
+export function generateWorklist(samples: Sample[], options: GenerateWorklist): Worklist {
+  // Sort first so the shuffle only depends on the seed, not on storage order
+  const byType = (type: SampleType) => samples
+    .filter(sample => sample.sampleType === type)
+    .sort((a, b) => a.sampleCode.localeCompare(b.sampleCode, undefined, { numeric: true }));
+
+  const studySamples = byType("study");
+  if (studySamples.length === 0) {
+    throw new WorklistError("The experiment has no study samples to inject");
+  }
+
+  const needed: Record<Exclude<SampleType, "study">, number> = {
+    qc: options.conditioningQcs + (options.qcInterval > 0 ? 1 : 0),
+    blank: options.blanksAtStart + options.blanksAtEnd,
+    standard: options.standardsAtStart + options.standardsAtEnd,
+  };
+  const pools = {
+    qc: byType("qc"),
+    blank: byType("blank"),
+    standard: byType("standard"),
+  };
+  for (const type of Object.keys(needed) as (keyof typeof needed)[]) {
+    if (needed[type] > 0 && pools[type].length === 0) {
+      throw new WorklistError(
+        `The sequence needs a ${SAMPLE_TYPE_NAMES[type]} but none is linked to the experiment; ` +
+        `register one or set the number of ${SAMPLE_TYPE_NAMES[type]} injections to 0`
+      );
+    }
+  }
+
+  const seed = options.seed ?? Math.floor(Math.random() * 0x100000000);
+  const ordered = options.randomize ? shuffle(studySamples, createRandom(seed)) : studySamples;
+  const batches = splitIntoBatches(ordered, options.batchSize);
+
+  const sequence: { batch: number; sample: Sample }[] = [];
+  const nextIndex = { qc: 0, blank: 0, standard: 0 };
+  const pushFrom = (type: keyof typeof pools, batch: number, count = 1) => {
+    for (let i = 0; i < count; i++) {
+      const pool = pools[type];
+      sequence.push({ batch, sample: pool[nextIndex[type]++ % pool.length] });
+    }
+  };
+
+  batches.forEach((batchSamples, index) => {
+    const batch = index + 1;
+    pushFrom("blank", batch, options.blanksAtStart);
+    pushFrom("standard", batch, options.standardsAtStart);
+    pushFrom("qc", batch, options.conditioningQcs);
+    batchSamples.forEach((sample, position) => {
+      sequence.push({ batch, sample });
+      const isLast = position === batchSamples.length - 1;
+      if (options.qcInterval > 0 && ((position + 1) % options.qcInterval === 0 || isLast)) {
+        pushFrom("qc", batch);
+      }
+    });
+    pushFrom("standard", batch, options.standardsAtEnd);
+    pushFrom("blank", batch, options.blanksAtEnd);
+  });
+
+  // Each sample gets one vial, placed in order of first injection
+  const vials = new Map<number, number>();
+  const digits = Math.max(3, String(sequence.length).length);
+  const injections: WorklistInjection[] = sequence.map(({ batch, sample }, index) => {
+    if (!vials.has(sample.id)) vials.set(sample.id, vials.size);
+    const vial = vials.get(sample.id)!;
+    const wellIndex = vial % WELLS_PER_PLATE;
+    const injection = index + 1;
+
+    return {
+      injection,
+      batch,
+      sampleId: sample.id,
+      sampleCode: sample.sampleCode,
+      sampleType: sample.sampleType,
+      plate: Math.floor(vial / WELLS_PER_PLATE) + 1,
+      well: `${WELL_ROWS[Math.floor(wellIndex / WELL_COLUMNS)]}${wellIndex % WELL_COLUMNS + 1}`,
+      fileName: `B${batch}_${String(injection).padStart(digits, "0")}_${safeFileName(sample.sampleCode)}`,
+    };
+  });
+
+  return { seed, batchCount: batches.length, injections };
+}
+
+const joinWindowsPath = (directory: string, fileName: string) =>
+  directory ? `${directory.replace(/[\\/]+$/, "")}\\${fileName}` : fileName;
+
+// Renders the sequence in the CSV layout the chosen acquisition software imports
+export function renderWorklistCsv(worklist: Worklist, options: GenerateWorklist): string {
+  const { injections } = worklist;
+  const volume = options.injectionVolume;
+  const method = options.instrumentMethod;
+
+  switch (options.format) {
+    case "xcalibur": {
+      const types = VENDOR_SAMPLE_TYPES.xcalibur;
+      // Xcalibur sequences start with the bracket type; 4 is "open"
+      return formatCsv([
+        ["Bracket Type=4"],
+        ["Sample Type", "File Name", "Sample ID", "Path", "Instrument Method", "Position", "Inj Vol", "Sample Name", "Comment"],
+        ...injections.map(injection => [
+          types[injection.sampleType],
+          injection.fileName,
+          injection.sampleCode,
+          options.dataPath,
+          method,
+          // Vanquish/UltiMate autosamplers name their trays by colour
+          `${"RGBY"[injection.plate - 1] ?? injection.plate}:${injection.well}`,
+          volume,
+          injection.sampleCode,
+          `Batch ${injection.batch}`,
+        ]),
+      ]);
+    }
+
+    case "masshunter": {
+      const types = VENDOR_SAMPLE_TYPES.masshunter;
+      return formatCsv([
+        ["Sample Name", "Sample Position", "Method", "Data File", "Sample Type", "Inj Vol (ul)", "Comment"],
+        ...injections.map(injection => [
+          injection.sampleCode,
+          `P${injection.plate}-${injection.well}`,
+          method,
+          joinWindowsPath(options.dataPath, `${injection.fileName}.d`),
+          types[injection.sampleType],
+          volume,
+          `Batch ${injection.batch}`,
+        ]),
+      ]);
+    }
+
+    case "masslynx": {
+      const types = VENDOR_SAMPLE_TYPES.masslynx;
+      return formatCsv([
+        ["Index", "FILE_NAME", "FILE_TEXT", "MS_FILE", "BOTTLE", "INJ_VOL", "TYPE"],
+        ...injections.map(injection => [
+          injection.injection,
+          injection.fileName,
+          `${injection.sampleCode} (batch ${injection.batch})`,
+          method,
+          `${injection.plate}:${injection.well[0]},${injection.well.slice(1)}`,
+          volume,
+          types[injection.sampleType],
+        ]),
+      ]);
+    }
+
+    default:
+      return formatCsv([
+        ["Injection", "Batch", "Sample ID", "Sample Type", "File Name", "Plate", "Well", "Injection Volume", "Method", "Data Path"],
+        ...injections.map(injection => [
+          injection.injection,
+          injection.batch,
+          injection.sampleCode,
+          injection.sampleType,
+          injection.fileName,
+          injection.plate,
+          injection.well,
+          volume,
+          method,
+          options.dataPath,
+        ]),
+      ]);
+  }
+}
+
+export function worklistFileName(experiment: Experiment, worklist: Worklist, options: GenerateWorklist): string {
+  return `worklist_${safeFileName(experiment.name)}_${options.format}_seed${worklist.seed}.csv`;
+}
+
+// Note content recording how the sequence was generated, so it can be
+// reproduced from the seed and settings alone
+export function renderWorklistSummary(
+  experiment: Experiment,
+  worklist: Worklist,
+  options: GenerateWorklist,
+  fileName: string
+): string {
+  const studyCount = worklist.injections.filter(injection => injection.sampleType === "study").length;
+  const settings = [
+    `Layout: ${WORKLIST_FORMAT_LABELS[options.format]}`,
+    options.randomize ? `Randomized with seed ${worklist.seed}` : "Study samples in sample ID order",
+    `${worklist.batchCount} ${worklist.batchCount === 1 ? "batch" : "batches"}` +
+      (options.batchSize ? ` of at most ${options.batchSize} study samples` : ""),
+    options.qcInterval > 0 ? `Pooled QC after every ${options.qcInterval} study samples` : "No interleaved QCs",
+    `${options.conditioningQcs} conditioning QC injections per batch`,
+    `Blanks: ${options.blanksAtStart} at start, ${options.blanksAtEnd} at end of each batch`,
+    `Standards: ${options.standardsAtStart} at start, ${options.standardsAtEnd} at end of each batch`,
+    `Injection volume: ${options.injectionVolume} µL`,
+    ...(options.instrumentMethod ? [`Instrument method: ${options.instrumentMethod}`] : []),
+    ...(options.dataPath ? [`Data path: ${options.dataPath}`] : []),
+  ];
+
+  return `<p>Injection sequence for <strong>${escapeHtml(experiment.name)}</strong>: ` +
+    `${worklist.injections.length} injections including ${studyCount} study samples, saved as ` +
+    `<code>${escapeHtml(fileName)}</code>.</p>` +
+    `<ul>${settings.map(setting => `<li>${escapeHtml(setting)}</li>`).join("")}</ul>`;
+}
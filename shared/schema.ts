@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, json, unique, index, doublePrecision, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,9 +13,126 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Lab-wide roles (users.role, not project roles) allowed to run
+// administrative tasks such as integrity checks and to grant these roles
+export const ADMIN_ROLES = ["Principal Investigator", "Lab Manager"];
+
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
+}).extend({
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+// Deposition metadata: what public repositories (MetaboLights, Metabolomics
+// Workbench) need about a study beyond its samples, experiments and feature
+// tables. Everything is optional here; missing mandatory fields are reported
+// when exporting.
+export const depositionProtocols = [
+  "sampleCollection",
+  "extraction",
+  "chromatography",
+  "massSpectrometry",
+  "dataTransformation",
+  "metaboliteIdentification",
+] as const;
+
+const depositionText = z.string().trim().max(10000).default("");
+
+export const depositionContactSchema = z.object({
+  firstName: z.string().trim().max(200).default(""),
+  lastName: z.string().trim().max(200).default(""),
+  email: z.string().trim().max(200).default(""),
+  phone: z.string().trim().max(100).default(""),
+  address: z.string().trim().max(1000).default(""),
+  affiliation: z.string().trim().max(500).default(""),
+  // e.g. "principal investigator", "submitter"
+  role: z.string().trim().max(200).default(""),
+});
+
+export const depositionPublicationSchema = z.object({
+  title: z.string().trim().max(1000).default(""),
+  authors: z.string().trim().max(5000).default(""),
+  doi: z.string().trim().max(200).default(""),
+  pubmedId: z.string().trim().max(50).default(""),
+  // e.g. "in preparation", "submitted", "published"
+  status: z.string().trim().max(100).default(""),
+});
+
+export const depositionMetadataSchema = z.object({
+  contacts: z.array(depositionContactSchema).max(50).default([]),
+  publications: z.array(depositionPublicationSchema).max(50).default([]),
+  // YYYY-MM-DD; the repository keeps the study private until then
+  releaseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Release date must be YYYY-MM-DD").nullable().default(null),
+  // e.g. "untargeted metabolites", "plasma"
+  designDescriptors: z.array(z.string().trim().min(1).max(200)).max(50).default([]),
+  // Study factor the samples' study groups are reported as; null leaves them out
+  studyGroupFactor: z.string().trim().min(1).max(200).nullable().default("Study group"),
+  // Sample attributes also reported as study factors
+  factorAttributes: z.array(z.string().trim().min(1)).max(20).default([]),
+  // e.g. "Human", "Animal", "Cultured cells"
+  subjectType: depositionText,
+  // How the subjects were treated before collection, for the mwTab TREATMENT section
+  treatment: depositionText,
+  // Description of each protocol, keyed by depositionProtocols
+  protocols: z.object({
+    sampleCollection: depositionText,
+    extraction: depositionText,
+    chromatography: depositionText,
+    massSpectrometry: depositionText,
+    dataTransformation: depositionText,
+    metaboliteIdentification: depositionText,
+  }).default({}),
+  chromatographyInstrument: depositionText,
+  columnModel: depositionText,
+  // e.g. "reverse phase", "hilic"
+  columnType: depositionText,
+  msInstrument: depositionText,
+  // e.g. "electrospray ionization"
+  ionSource: depositionText,
+  // e.g. "orbitrap", "quadrupole time-of-flight"
+  massAnalyzer: depositionText,
+  // Used for runs whose polarity was not read from an mzML/mzXML file
+  polarity: z.enum(["positive", "negative", "alternating"]).nullable().default(null),
+  // What the feature table intensities are, e.g. "Peak area" or "uM"
+  intensityUnits: z.string().trim().max(200).default("Peak area"),
+});
+
+export interface DepositionIssue {
+  // "error" for fields the repository requires, "warning" for ones it expects
+  severity: "error" | "warning";
+  // Where the field goes, e.g. "Study contacts" or "Sample P001"
+  location: string;
+  message: string;
+}
+
+export interface DepositionValidation {
+  files: string[];
+  issues: DepositionIssue[];
+}
+
+// Metabolomics Workbench mwTab files, one per assay, in either format the
+// Workbench accepts
+export const mwTabFormats = ["text", "json"] as const;
+
+export const mwTabExportQuerySchema = z.object({
+  format: z.enum(mwTabFormats).default("text"),
+});
+
+// An mwTab file (either format) is sent as the request body to create a
+// project from it; these are query parameters
+export const importMwTabQuerySchema = z.object({
+  // Kept as the name of the stored file and the feature table's source
+  fileName: z.string().trim().min(1).max(255).default("mwtab.txt"),
+  // Return what would be created without saving anything
+  dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
 });
 
 // Projects table
@@ -23,67 +140,953 @@ export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
+  deposition: json("deposition").$type<DepositionMetadata>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   ownerId: integer("owner_id").notNull(),
 });
 
-export const insertProjectSchema = createInsertSchema(projects).omit({
+export const insertProjectSchema = createInsertSchema(projects, {
+  deposition: depositionMetadataSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
 // Experiments table
+export const qcStatuses = ["pass", "warn", "fail"] as const;
+
+// Headline QC metrics of an experiment, computed from the pooled-QC and blank
+// injections of its most recent feature table. RSDs and drifts are percentages;
+// fractions are between 0 and 1 and null when they could not be computed.
+export interface QcSummary {
+  featureTableId: number;
+  featureTableName: string;
+  computedAt: string;
+  status: QcStatus;
+  // Why the status is not "pass"
+  reasons: string[];
+  qcInjections: number;
+  blankInjections: number;
+  featureCount: number;
+  // Features detected in enough QC injections to have an RSD
+  rsdFeatureCount: number;
+  medianRsd: number | null;
+  fractionRsdBelow20: number | null;
+  fractionRsdBelow30: number | null;
+  internalStandardIds: number[];
+  maxInternalStandardDrift: number | null;
+  medianBlankRatio: number | null;
+  fractionBlankContaminated: number | null;
+}
+
 export const experiments = pgTable("experiments", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
   projectId: integer("project_id").notNull(),
+  // Set by the server whenever QC metrics are computed
+  qcSummary: json("qc_summary").$type<QcSummary>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertExperimentSchema = createInsertSchema(experiments).omit({
   id: true,
+  qcSummary: true,
   createdAt: true,
   updatedAt: true,
 });
 
 // Notes table
+// Review lifecycle: draft -> (signed by the author) submitted ->
+// witnessed/approved, or returned with the reviewer's comments, which the
+// author answers in an amendment
+export const noteStatuses = ["draft", "submitted", "returned", "witnessed", "approved"] as const;
+
 export const notes = pgTable("notes", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   content: text("content"),
   experimentId: integer("experiment_id").notNull(),
   authorId: integer("author_id").notNull(),
+  amendsNoteId: integer("amends_note_id"), // set on amendments to a signed note
+  lockedAt: timestamp("locked_at"), // set by the first signature; locked notes are read-only
+  status: text("status").notNull().default("draft"),
+  reviewerId: integer("reviewer_id"),
+  reviewComment: text("review_comment"), // reviewer's comments when the note was last returned
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertNoteSchema = createInsertSchema(notes).omit({
   id: true,
+  lockedAt: true,
+  status: true,
+  reviewerId: true,
+  reviewComment: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const submitNoteForReviewSchema = z.object({
+  reviewerId: z.number().int(),
+});
+
+export const reviewDecisions = ["witnessed", "approved", "returned"] as const;
+
+// Witnessing and approving are signatures and need the reviewer's password;
+// returning a note needs comments for the author
+export const reviewNoteSchema = z.discriminatedUnion("decision", [
+  z.object({
+    decision: z.literal("witnessed"),
+    password: z.string().min(1, "Password is required"),
+  }),
+  z.object({
+    decision: z.literal("approved"),
+    password: z.string().min(1, "Password is required"),
+  }),
+  z.object({
+    decision: z.literal("returned"),
+    comments: z.string().trim().min(1, "Comments are required when returning a note"),
+  }),
+]);
+
+// Note revisions table (one row per save, numbered from 1 within each note)
+export const noteRevisions = pgTable("note_revisions", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  revision: integer("revision").notNull(),
+  title: text("title").notNull(),
+  content: text("content"),
+  authorId: integer("author_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("note_revisions_note_revision_unique").on(table.noteId, table.revision),
+]);
+
+export const noteDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+// Note signatures table (electronic signatures; rows are never updated)
+export const signatureMeanings = ["authored", "reviewed", "witnessed", "approved"] as const;
+
+export const noteSignatures = pgTable("note_signatures", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  signerId: integer("signer_id").notNull(),
+  signerName: text("signer_name").notNull(), // printed name at the time of signing
+  meaning: text("meaning").notNull(),
+  revision: integer("revision"), // revision signed, null for notes saved before revisions were kept
+  contentHash: text("content_hash").notNull(), // SHA-256 of the signed title and content
+  signedAt: timestamp("signed_at").defaultNow().notNull(),
+});
+
+export const insertNoteSignatureSchema = createInsertSchema(noteSignatures).omit({
+  id: true,
+  signedAt: true,
+}).extend({
+  meaning: z.enum(signatureMeanings),
+});
+
+export const signNoteSchema = z.object({
+  meaning: z.enum(signatureMeanings),
+  password: z.string().min(1, "Password is required"),
+});
+
 // Attachments table
 export const attachments = pgTable("attachments", {
   id: serial("id").primaryKey(),
   fileName: text("file_name").notNull(),
   fileSize: integer("file_size").notNull(),
   fileType: text("file_type").notNull(),
-  fileData: text("file_data").notNull(), // Base64 encoded data
+  // Key of the file contents in the blob store
+  storageKey: text("storage_key"),
+  // Hex SHA-256 of the contents, recorded at upload; null only for files
+  // uploaded before hashing was introduced until the migration fills it in
+  sha256: text("sha256"),
+  // Legacy base64 contents; moved to the blob store by `npm run attachments:migrate`
+  fileData: text("file_data"),
   noteId: integer("note_id").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("attachments_sha256_idx").on(table.sha256),
+]);
+
+export const insertAttachmentSchema = createInsertSchema(attachments, {
+  storageKey: z.string().min(1),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+}).omit({
+  id: true,
+  fileData: true,
+  createdAt: true,
+});
+
+// Resumable uploads: a session is created with the file's size, chunks are
+// sent in order, and the attachment row is only created once the whole file
+// has arrived and its SHA-256 matches
+export const createUploadSchema = z.object({
+  noteId: z.number().int().positive(),
+  fileName: z.string().min(1).max(255),
+  fileSize: z.number().int().min(0),
+  fileType: z.string().default("application/octet-stream"),
+});
+
+export const completeUploadSchema = z.object({
+  sha256: z.string().regex(/^[0-9a-f]{64}$/i, "sha256 must be a hex digest").transform(value => value.toLowerCase()),
 });
 
-export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+// Attachment integrity checks: an administrator starts one, the blobs are
+// re-hashed in the background and the report is stored for polling
+export const integrityCheckStatuses = ["running", "done", "failed"] as const;
+
+export const attachmentIntegrityChecks = pgTable("attachment_integrity_checks", {
+  id: serial("id").primaryKey(),
+  status: text("status").$type<IntegrityCheckStatus>().notNull().default("running"),
+  error: text("error"),
+  report: json("report").$type<AttachmentIntegrityReport>(),
+  startedById: integer("started_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertAttachmentIntegrityCheckSchema = createInsertSchema(attachmentIntegrityChecks, {
+  status: z.enum(integrityCheckStatuses),
+  report: z.custom<AttachmentIntegrityReport>().nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// MS runs table: metadata and total-ion chromatogram parsed from mzML/mzXML
+// attachments (one row per attachment, filled in by a background parse)
+export const msRunFormats = ["mzML", "mzXML"] as const;
+export const msRunStatuses = ["pending", "parsed", "failed"] as const;
+
+// One point per scan of the TIC; index is the spectrum's position in the file
+export interface TicPoint {
+  index: number;
+  rt: number;
+  intensity: number;
+  msLevel: number;
+}
+
+export const msRuns = pgTable("ms_runs", {
+  id: serial("id").primaryKey(),
+  attachmentId: integer("attachment_id").notNull().unique(),
+  format: text("format").$type<MsRunFormat>().notNull(),
+  status: text("status").notNull().default("pending"),
+  error: text("error"),
+  instrumentModel: text("instrument_model"),
+  acquisitionDate: text("acquisition_date"),
+  scanCount: integer("scan_count"),
+  msLevels: json("ms_levels").$type<number[]>(),
+  // "positive", "negative" or "mixed" for polarity-switching runs
+  polarity: text("polarity"),
+  // Retention times are in seconds
+  rtMin: doublePrecision("rt_min"),
+  rtMax: doublePrecision("rt_max"),
+  tic: json("tic").$type<TicPoint[]>(),
+  // Byte offset of each spectrum from the file's index, for reading a single
+  // scan without parsing the whole file; null when the file has no index
+  scanOffsets: json("scan_offsets").$type<number[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMsRunSchema = createInsertSchema(msRuns, {
+  format: z.enum(msRunFormats),
+  msLevels: z.array(z.number()).nullable().optional(),
+  tic: z.array(z.object({
+    index: z.number(),
+    rt: z.number(),
+    intensity: z.number(),
+    msLevel: z.number(),
+  })).nullable().optional(),
+  scanOffsets: z.array(z.number()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Spectral libraries table: MS/MS spectra read from MGF or NIST MSP
+// attachments (one row per attachment, filled in by a background import)
+export const spectralLibraryFormats = ["mgf", "msp"] as const;
+
+export const spectralLibraries = pgTable("spectral_libraries", {
+  id: serial("id").primaryKey(),
+  attachmentId: integer("attachment_id").notNull().unique(),
+  format: text("format").$type<SpectralLibraryFormat>().notNull(),
+  status: text("status").notNull().default("pending"),
+  error: text("error"),
+  spectrumCount: integer("spectrum_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSpectralLibrarySchema = createInsertSchema(spectralLibraries, {
+  format: z.enum(spectralLibraryFormats),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Library spectra table: one row per spectrum of a spectral library
+export const librarySpectra = pgTable("library_spectra", {
+  id: serial("id").primaryKey(),
+  libraryId: integer("library_id").notNull(),
+  // Order of the spectrum in the file, starting at 0
+  position: integer("position").notNull(),
+  name: text("name"),
+  precursorMz: doublePrecision("precursor_mz"),
+  charge: integer("charge"),
+  // "positive" or "negative"
+  ionMode: text("ion_mode"),
+  // The other header fields (adduct, formula, InChIKey, retention time...)
+  // with the keys as written in the file
+  metadata: json("metadata").$type<Record<string, string>>().notNull(),
+  mz: json("mz").$type<number[]>().notNull(),
+  intensity: json("intensity").$type<number[]>().notNull(),
+}, (table) => [
+  index("library_spectra_library_idx").on(table.libraryId, table.position),
+  index("library_spectra_precursor_mz_idx").on(table.precursorMz),
+]);
+
+export const insertLibrarySpectrumSchema = createInsertSchema(librarySpectra, {
+  metadata: z.record(z.string()),
+  mz: z.array(z.number()),
+  intensity: z.array(z.number()),
+}).omit({
+  id: true,
+});
+
+export const librarySpectraQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Searching a spectral library for spectra similar to a query spectrum.
+// Tolerances are in Da; a wide precursor window with the modified cosine
+// finds analogues whose precursor differs by a modification.
+export const spectralMatchScores = ["cosine", "modifiedCosine"] as const;
+
+export const spectralMatchQuerySchema = z.object({
+  libraryId: z.coerce.number().int(),
+  precursorTolerance: z.coerce.number().positive().max(200).default(0.02),
+  fragmentTolerance: z.coerce.number().positive().max(1).default(0.02),
+  sort: z.enum(spectralMatchScores).default("cosine"),
+  // Hits need at least this score and number of matched peaks, in the
+  // score ranked by
+  minScore: z.coerce.number().min(0).max(1).default(0.7),
+  minMatchedPeaks: z.coerce.number().int().min(1).max(100).default(6),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Samples table: biological samples registered in a project. sampleCode is
+// the lab's human-readable ID and is unique within the project; any columns
+// beyond the standard ones are kept as free-form attributes.
+export const sampleTypes = ["study", "qc", "blank", "standard"] as const;
+
+export const samples = pgTable("samples", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  sampleCode: text("sample_code").notNull(),
+  sampleType: text("sample_type").$type<SampleType>().notNull().default("study"),
+  matrix: text("matrix"), // e.g. plasma, urine, liver tissue
+  organism: text("organism"),
+  collectionDate: date("collection_date"),
+  studyGroup: text("study_group"),
+  attributes: json("attributes").$type<Record<string, string>>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("samples_project_code_unique").on(table.projectId, table.sampleCode),
+]);
+
+const sampleFields = {
+  sampleCode: z.string().trim().min(1, "Sample ID is required").max(100),
+  sampleType: z.enum(sampleTypes).default("study"),
+  collectionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Collection date must be YYYY-MM-DD").nullable().optional(),
+  attributes: z.record(z.string()).default({}),
+};
+
+export const insertSampleSchema = createInsertSchema(samples, sampleFields).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  experimentIds: z.array(z.number().int()).default([]),
+});
+
+export const updateSampleSchema = insertSampleSchema.omit({ projectId: true }).partial();
+
+// Bulk edit applies the same changes to every selected sample. Attributes are
+// merged into each sample's own (an empty value removes the attribute), and
+// experiment links are added or removed rather than replaced.
+export const bulkUpdateSamplesSchema = z.object({
+  sampleIds: z.array(z.number().int()).min(1, "Select at least one sample"),
+  changes: updateSampleSchema.omit({ sampleCode: true, attributes: true, experimentIds: true }).extend({
+    attributes: z.record(z.string()).optional(),
+    addExperimentIds: z.array(z.number().int()).optional(),
+    removeExperimentIds: z.array(z.number().int()).optional(),
+  }),
+});
+
+// CSV imports send the file as the request body; these are query parameters
+export const importSamplesQuerySchema = z.object({
+  // Experiments every imported sample is linked to, in addition to any
+  // named in an "experiments" column
+  experimentIds: z.string().optional()
+    .transform(value => value ? value.split(",").map(Number) : [])
+    .pipe(z.array(z.number().int())),
+  // Validate and return the parsed samples without saving them
+  dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+// Experiment samples junction table
+export const experimentSamples = pgTable("experiment_samples", {
+  id: serial("id").primaryKey(),
+  experimentId: integer("experiment_id").notNull(),
+  sampleId: integer("sample_id").notNull(),
+}, (table) => [
+  unique("experiment_samples_experiment_sample_unique").on(table.experimentId, table.sampleId),
+  index("experiment_samples_sample_idx").on(table.sampleId),
+]);
+
+// Injection sequences (worklists) are generated from an experiment's samples
+// and saved as a CSV attachment; nothing else is stored, the attachment and
+// its note are the record of what was run.
+export const worklistFormats = ["generic", "xcalibur", "masshunter", "masslynx"] as const;
+
+export const generateWorklistSchema = z.object({
+  format: z.enum(worklistFormats).default("generic"),
+  // Study-sample order is shuffled with this seed; one is picked when omitted
+  randomize: z.boolean().default(true),
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+  // A pooled QC is injected after every N study samples (0 disables it)
+  qcInterval: z.number().int().min(0).max(100).default(10),
+  // QC injections at the start of each batch to condition the column
+  conditioningQcs: z.number().int().min(0).max(20).default(3),
+  blanksAtStart: z.number().int().min(0).max(20).default(1),
+  blanksAtEnd: z.number().int().min(0).max(20).default(1),
+  standardsAtStart: z.number().int().min(0).max(20).default(1),
+  standardsAtEnd: z.number().int().min(0).max(20).default(1),
+  // Maximum study samples per batch; all samples go in one batch when omitted
+  batchSize: z.number().int().min(1).max(10000).nullable().optional(),
+  injectionVolume: z.number().positive().max(1000).default(5),
+  instrumentMethod: z.string().trim().max(500).default(""),
+  dataPath: z.string().trim().max(500).default(""),
+  // Attach the worklist to this note instead of creating a new one
+  noteId: z.number().int().optional(),
+});
+
+export const generateWorklistQuerySchema = z.object({
+  // Return the injection sequence without saving it
+  dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+// Feature tables: processed LC-MS results (one row per feature with its m/z,
+// retention time and an intensity per sample) imported from a CSV attachment,
+// or from the MS_METABOLITE_DATA of an imported mwTab file
+export const featureTableFormats = ["mzmine", "xcms", "msdial", "generic", "mwtab"] as const;
+
+// Features can be annotated against the compound library (see
+// featureAnnotations); a table records its latest run
+export const annotationStatuses = ["running", "done", "failed"] as const;
+
+// Starts an annotation run. With an RT method, compounds that have a library
+// RT for it must also match within rtTolerance; rtRequired leaves out
+// compounds without one.
+export const annotateFeatureTableSchema = z.object({
+  adducts: z.array(z.string().trim().min(1)).min(1, "Choose at least one adduct").max(20),
+  ppm: z.number().positive().max(100).default(5),
+  rtMethod: z.string().trim().min(1).nullable().default(null),
+  rtTolerance: z.number().positive().max(10).default(0.2),
+  rtRequired: z.boolean().default(false),
+});
+
+// Starts a QC-RLSC drift correction (Dunn et al. 2011). For every feature a
+// LOESS curve is fitted to the pooled QC intensities against injection order
+// within each batch; every injection is divided by the curve and scaled to
+// the feature's median QC intensity, which also removes offsets between
+// batches. The result is saved as a new table derived from the raw one.
+export const correctDriftSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  // Share of a batch's QC injections used in each local fit
+  span: z.number().min(0.2).max(1).default(0.75),
+  // Features detected in fewer QCs of any batch are copied uncorrected
+  minQcPerBatch: z.number().int().min(3).max(100).default(5),
+  // Sample attribute holding the batch; null for the batches recorded in the
+  // file, or a single batch when it records none
+  batchAttribute: z.string().trim().min(1).nullable().default(null),
+});
+
+export interface DriftCorrectionBatch {
+  batch: string;
+  injections: number;
+  qcInjections: number;
+}
+
+// How a corrected table was made, with the QC RSDs (in %) of the raw and
+// corrected intensities over features detected in at least 3 QCs
+export interface DriftCorrection {
+  settings: CorrectDrift;
+  // Kept in case the raw table is deleted
+  sourceTableName: string;
+  batches: DriftCorrectionBatch[];
+  correctedFeatureCount: number;
+  uncorrectedFeatureCount: number;
+  medianRsdBefore: number | null;
+  medianRsdAfter: number | null;
+  fractionRsdBelow20Before: number | null;
+  fractionRsdBelow20After: number | null;
+  fractionRsdBelow30Before: number | null;
+  fractionRsdBelow30After: number | null;
+  rsdHistogram: { bin: string; before: number; after: number }[];
+}
+
+export const featureTables = pgTable("feature_tables", {
+  id: serial("id").primaryKey(),
+  experimentId: integer("experiment_id").notNull(),
+  name: text("name").notNull(),
+  format: text("format").$type<FeatureTableFormat>().notNull(),
+  // The CSV the table was read from; cleared if the attachment is deleted
+  sourceAttachmentId: integer("source_attachment_id"),
+  sourceFileName: text("source_file_name").notNull(),
+  status: text("status").notNull().default("pending"),
+  error: text("error"),
+  featureCount: integer("feature_count").notNull().default(0),
+  // State of the latest compound annotation run; null until one is started
+  annotationStatus: text("annotation_status").$type<AnnotationStatus>(),
+  annotationError: text("annotation_error"),
+  annotationSettings: json("annotation_settings").$type<AnnotateFeatureTable>(),
+  annotatedAt: timestamp("annotated_at"),
+  // Set on drift-corrected versions: the raw table they were computed from
+  // and the correction's settings and QC RSDs
+  derivedFromTableId: integer("derived_from_table_id"),
+  driftCorrection: json("drift_correction").$type<DriftCorrection>(),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("feature_tables_experiment_idx").on(table.experimentId),
+]);
+
+export const insertFeatureTableSchema = createInsertSchema(featureTables, {
+  name: z.string().trim().min(1, "Name is required").max(200),
+  format: z.enum(featureTableFormats),
+  annotationStatus: z.enum(annotationStatuses).nullable().optional(),
+  annotationSettings: annotateFeatureTableSchema.nullable().optional(),
+  driftCorrection: z.custom<DriftCorrection>().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Sample columns of a feature table, in the order of each feature's
+// intensities. A column can be mapped to a registered sample and/or the raw
+// data attachment it was processed from.
+export const featureTableColumns = pgTable("feature_table_columns", {
+  id: serial("id").primaryKey(),
+  tableId: integer("table_id").notNull(),
+  position: integer("position").notNull(),
+  columnName: text("column_name").notNull(),
+  sampleId: integer("sample_id"),
+  attachmentId: integer("attachment_id"),
+  // Position in the acquisition sequence when the file records it (MS-DIAL);
+  // otherwise columns are taken to be in injection order
+  injectionOrder: integer("injection_order"),
+  // Analytical batch when the file records it (MS-DIAL)
+  batch: integer("batch"),
+}, (table) => [
+  unique("feature_table_columns_table_position_unique").on(table.tableId, table.position),
+  index("feature_table_columns_sample_idx").on(table.sampleId),
+]);
+
+export const insertFeatureTableColumnSchema = createInsertSchema(featureTableColumns).omit({
+  id: true,
+});
+
+// Features table: one row per feature of a feature table
+export const features = pgTable("features", {
+  id: serial("id").primaryKey(),
+  tableId: integer("table_id").notNull(),
+  // Order of the feature in the file, starting at 0
+  position: integer("position").notNull(),
+  // The feature's ID in the source software, or its row number
+  featureKey: text("feature_key").notNull(),
+  mz: doublePrecision("mz").notNull(),
+  // Retention time in minutes
+  rt: doublePrecision("rt"),
+  name: text("name"),
+  adduct: text("adduct"),
+  // The file's other non-sample columns, keyed by header
+  metadata: json("metadata").$type<Record<string, string>>().notNull(),
+  // One value per feature table column; null where the feature was not detected
+  intensities: json("intensities").$type<(number | null)[]>().notNull(),
+}, (table) => [
+  index("features_table_idx").on(table.tableId, table.position),
+  index("features_mz_idx").on(table.tableId, table.mz),
+  index("features_rt_idx").on(table.tableId, table.rt),
+]);
+
+export const insertFeatureSchema = createInsertSchema(features, {
+  metadata: z.record(z.string()),
+  intensities: z.array(z.number().nullable()),
+}).omit({
+  id: true,
+});
+
+// Starts an import: the sample columns to keep and what each is mapped to
+export const createFeatureTableSchema = z.object({
+  attachmentId: z.number().int(),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  columns: z.array(z.object({
+    columnName: z.string(),
+    sampleId: z.number().int().nullable().optional(),
+    attachmentId: z.number().int().nullable().optional(),
+  })).min(1, "Select at least one sample column"),
+});
+
+export const featureQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  // Features with an accepted annotation, with candidates awaiting review, or with neither
+  annotation: z.enum(["accepted", "candidates", "unannotated"]).optional(),
+  sort: z.enum(["position", "mz", "rt", "name"]).default("position"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  mzMin: z.coerce.number().optional(),
+  mzMax: z.coerce.number().optional(),
+  rtMin: z.coerce.number().optional(),
+  rtMax: z.coerce.number().optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Recomputes a table's QC metrics with the given internal standard features
+// and stores the summary on its experiment
+export const computeQcSchema = z.object({
+  internalStandardIds: z.array(z.number().int()).max(50).default([]),
+});
+
+export const qcReportQuerySchema = z.object({
+  // Comma-separated feature IDs; when absent the stored or detected
+  // internal standards are used
+  internalStandards: z.string().optional().transform(value => value === undefined
+    ? undefined
+    : value.split(",").filter(Boolean).map(Number).filter(Number.isInteger)),
+});
+
+// Chemistry calculator queries; adducts are comma-separated, e.g.
+// "[M+H]+,[M+Na]+", and default to the common ESI adducts
+export const chemFormulaQuerySchema = z.object({
+  formula: z.string().trim().min(1, "Formula is required").max(500),
+  adducts: z.string().optional().transform(value => value === undefined
+    ? undefined
+    : value.split(",").map(adduct => adduct.trim()).filter(Boolean)),
+});
+
+export const isotopePatternQuerySchema = z.object({
+  formula: z.string().trim().min(1, "Formula is required").max(500),
+  adduct: z.string().trim().optional(),
+  // Smallest peak reported, in % of the most intense one
+  minAbundance: z.coerce.number().min(0).max(100).default(0.01),
+});
+
+// Compounds table: the lab's metabolite library, shared by every project.
+// The monoisotopic mass is computed from the formula when it can be parsed.
+export const compounds = pgTable("compounds", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  synonyms: json("synonyms").$type<string[]>().notNull().default([]),
+  formula: text("formula"),
+  monoisotopicMass: doublePrecision("monoisotopic_mass"),
+  inchiKey: text("inchi_key"),
+  smiles: text("smiles"),
+  hmdbId: text("hmdb_id"), // e.g. HMDB0000122
+  chebiId: text("chebi_id"), // e.g. CHEBI:4167
+  keggId: text("kegg_id"), // e.g. C00031
+  pubchemCid: text("pubchem_cid"),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("compounds_inchi_key_unique").on(table.inchiKey),
+  index("compounds_mass_idx").on(table.monoisotopicMass),
+]);
+
+export const MAX_COMPOUND_SYNONYMS = 200;
+
+const optionalIdentifier = z.string().trim().max(200).nullable().optional()
+  .transform(value => value || null);
+
+export const insertCompoundSchema = createInsertSchema(compounds, {
+  name: z.string().trim().min(1, "Name is required").max(1000),
+  synonyms: z.array(z.string().trim().min(1).max(1000)).max(MAX_COMPOUND_SYNONYMS).default([]),
+  formula: optionalIdentifier,
+  monoisotopicMass: z.number().positive().nullable().optional(),
+  inchiKey: z.string().trim().toUpperCase()
+    .regex(/^[A-Z]{14}-[A-Z]{10}-[A-Z]$/, "InChIKey must look like WQZGKKKJIJFFOK-GASJEMHNSA-N")
+    .nullable().optional(),
+  smiles: z.string().trim().max(5000).nullable().optional().transform(value => value || null),
+  hmdbId: optionalIdentifier,
+  chebiId: optionalIdentifier,
+  keggId: optionalIdentifier,
+  pubchemCid: optionalIdentifier,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateCompoundSchema = insertCompoundSchema.omit({ createdById: true }).partial();
+
+// Name searches also match synonyms and identifiers. Mass searches match
+// compounds within ppm of a neutral monoisotopic mass, or of the molecule an
+// observed m/z came from with the given adduct.
+export const compoundQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  mass: z.coerce.number().positive().optional(),
+  mz: z.coerce.number().positive().optional(),
+  adduct: z.string().trim().default("[M+H]+"),
+  ppm: z.coerce.number().positive().max(1000).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// SDF or CSV/TSV files are sent as the request body; these are query parameters
+export const compoundImportFormats = ["sdf", "csv"] as const;
+
+export const importCompoundsQuerySchema = z.object({
+  // Detected from the contents when absent
+  format: z.enum(compoundImportFormats).optional(),
+  // Validate and return the parsed compounds without saving them
+  dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+// Note compounds junction table: compounds a note is about
+export const noteCompounds = pgTable("note_compounds", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  compoundId: integer("compound_id").notNull(),
+}, (table) => [
+  unique("note_compounds_note_compound_unique").on(table.noteId, table.compoundId),
+  index("note_compounds_compound_idx").on(table.compoundId),
+]);
+
+export const linkNoteCompoundSchema = z.object({
+  compoundId: z.number().int(),
+});
+
+// Retention time library: when a compound elutes with a given
+// chromatographic method, measured from an authentic standard
+export const compoundRetentionTimes = pgTable("compound_retention_times", {
+  id: serial("id").primaryKey(),
+  compoundId: integer("compound_id").notNull(),
+  // Name of the LC method, e.g. "HILIC 15 min"
+  method: text("method").notNull(),
+  // Retention time in minutes
+  rt: doublePrecision("rt").notNull(),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("compound_retention_times_compound_method_unique").on(table.compoundId, table.method),
+  index("compound_retention_times_method_idx").on(table.method),
+]);
+
+export const insertRetentionTimeSchema = createInsertSchema(compoundRetentionTimes, {
+  method: z.string().trim().min(1, "Method is required").max(200),
+  rt: z.number().min(0, "Retention time cannot be negative"),
+}).omit({
+  id: true,
+  compoundId: true,
+  createdById: true,
+  createdAt: true,
+});
+
+// Feature annotations: library compounds proposed for a feature by accurate
+// mass (and retention time), and whether a user accepted or rejected them.
+// Candidates are replaced by each annotation run; reviewed ones are kept.
+export const featureAnnotationStatuses = ["candidate", "accepted", "rejected"] as const;
+
+// Metabolomics Standards Initiative confidence levels (Sumner et al. 2007):
+// 1 identified (two orthogonal properties matched to an authentic standard,
+// here accurate mass and retention time), 2 putatively annotated (e.g. by
+// MS/MS spectral similarity), 3 putatively characterized (accurate mass
+// only, so isomers are not told apart), 4 unknown
+export const msiLevels = [1, 2, 3, 4] as const;
+
+export const featureAnnotations = pgTable("feature_annotations", {
+  id: serial("id").primaryKey(),
+  tableId: integer("table_id").notNull(),
+  featureId: integer("feature_id").notNull(),
+  compoundId: integer("compound_id").notNull(),
+  adduct: text("adduct").notNull(),
+  // m/z of the compound's adduct ion
+  theoreticalMz: doublePrecision("theoretical_mz").notNull(),
+  // (observed - theoretical) / theoretical, in ppm
+  ppmError: doublePrecision("ppm_error").notNull(),
+  // Observed minus library retention time in minutes; null without a library RT
+  rtError: doublePrecision("rt_error"),
+  msiLevel: integer("msi_level").$type<MsiLevel>().notNull(),
+  status: text("status").$type<FeatureAnnotationStatus>().notNull().default("candidate"),
+  // Who accepted or rejected the annotation, and when
+  reviewedById: integer("reviewed_by_id"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("feature_annotations_feature_compound_adduct_unique").on(table.featureId, table.compoundId, table.adduct),
+  index("feature_annotations_table_idx").on(table.tableId),
+  index("feature_annotations_compound_idx").on(table.compoundId),
+]);
+
+export const insertFeatureAnnotationSchema = createInsertSchema(featureAnnotations, {
+  msiLevel: z.number().int().min(1).max(4).transform(level => level as MsiLevel),
+  status: z.enum(featureAnnotationStatuses).default("candidate"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const featureAnnotationQuerySchema = z.object({
+  featureId: z.coerce.number().int().optional(),
+  status: z.enum(featureAnnotationStatuses).optional(),
+});
+
+export const reviewFeatureAnnotationSchema = z.object({
+  // "candidate" withdraws an earlier decision
+  status: z.enum(featureAnnotationStatuses),
+});
+
+// Statistical analyses: a preprocessing and testing pipeline run on a
+// feature table, comparing groups of samples. Runs are never changed once
+// done; running an analysis again under the same name adds a new version,
+// so results quoted in a note can be traced to the exact parameters.
+export const analysisStatuses = ["running", "done", "failed"] as const;
+export const imputationMethods = ["none", "halfMin", "knn"] as const;
+export const normalizationMethods = ["none", "tic", "median", "pqn"] as const;
+export const scalingMethods = ["none", "auto"] as const;
+export const statisticalTests = ["ttest", "anova"] as const;
+
+export const runAnalysisSchema = z.object({
+  featureTableId: z.number().int(),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  // Sample attribute holding the group; null for the samples' study group
+  groupAttribute: z.string().trim().min(1).nullable().default(null),
+  // Groups compared, reference group first: fold changes are of the second
+  // group over the first
+  groups: z.array(z.string().trim().min(1)).min(2, "Select at least two groups").max(20),
+  // Features missing from a larger share of the compared samples are left out
+  maxMissingFraction: z.number().min(0).max(1).default(0.5),
+  imputation: z.enum(imputationMethods).default("halfMin"),
+  knnNeighbors: z.number().int().min(1).max(50).default(5),
+  normalization: z.enum(normalizationMethods).default("pqn"),
+  logTransform: z.boolean().default(true),
+  scaling: z.enum(scalingMethods).default("none"),
+  test: z.enum(statisticalTests).default("ttest"),
+}).refine(settings => settings.test !== "ttest" || settings.groups.length === 2, {
+  message: "A t-test compares exactly two groups; use ANOVA for more",
+  path: ["groups"],
+}).refine(settings => new Set(settings.groups).size === settings.groups.length, {
+  message: "Each group can only be selected once",
+  path: ["groups"],
+});
+
+export interface AnalysisSummary {
+  // Samples in each compared group, in the order of the settings' groups
+  groupSizes: number[];
+  featureCount: number;
+  // Features left out for too many missing values
+  excludedFeatureCount: number;
+  // Features with a BH-adjusted p-value under 0.05
+  significantCount: number;
+}
+
+export const statisticalAnalyses = pgTable("statistical_analyses", {
+  id: serial("id").primaryKey(),
+  experimentId: integer("experiment_id").notNull(),
+  featureTableId: integer("feature_table_id").notNull(),
+  name: text("name").notNull(),
+  // Counts up from 1 for each name within the experiment
+  version: integer("version").notNull(),
+  settings: json("settings").$type<RunAnalysis>().notNull(),
+  status: text("status").$type<AnalysisStatus>().notNull().default("running"),
+  error: text("error"),
+  summary: json("summary").$type<AnalysisSummary>(),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  unique("statistical_analyses_name_version_unique").on(table.experimentId, table.name, table.version),
+  index("statistical_analyses_feature_table_idx").on(table.featureTableId),
+]);
+
+export const insertStatisticalAnalysisSchema = createInsertSchema(statisticalAnalyses, {
+  settings: z.custom<RunAnalysis>(),
+  status: z.enum(analysisStatuses),
+  summary: z.custom<AnalysisSummary>().nullable().optional(),
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+// Analysis results table: the test outcome for each analysed feature
+export const analysisResults = pgTable("analysis_results", {
+  id: serial("id").primaryKey(),
+  analysisId: integer("analysis_id").notNull(),
+  featureId: integer("feature_id").notNull(),
+  // t or F; null when the feature does not vary within the groups
+  statistic: doublePrecision("statistic"),
+  pValue: doublePrecision("p_value"),
+  // Benjamini-Hochberg adjusted p-value
+  qValue: doublePrecision("q_value"),
+  // log2 of the second group's mean over the first's, after normalization
+  log2FoldChange: doublePrecision("log2_fold_change"),
+  // Mean normalized intensity of each compared group
+  groupMeans: json("group_means").$type<number[]>().notNull(),
+}, (table) => [
+  index("analysis_results_analysis_idx").on(table.analysisId),
+]);
+
+export const insertAnalysisResultSchema = createInsertSchema(analysisResults, {
+  groupMeans: z.array(z.number()),
+}).omit({
+  id: true,
+});
+
+export const analysisResultQuerySchema = z.object({
+  sort: z.enum(["pValue", "qValue", "log2FoldChange", "mz", "rt"]).default("pValue"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  maxQValue: z.coerce.number().min(0).max(1).optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Principal component analysis of a feature table, computed on request from
+// the columns mapped to samples of the chosen types (QCs included by
+// default, so their clustering shows) with the same preprocessing as
+// statistical analyses. Without imputation, features with any missing value
+// are left out.
+export const pcaQuerySchema = z.object({
+  // Comma-separated sample types
+  sampleTypes: z.string().default("study,qc")
+    .transform(value => value.split(",").map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(sampleTypes)).min(1, "Select at least one sample type")),
+  components: z.coerce.number().int().min(2).max(10).default(5),
+  maxMissingFraction: z.coerce.number().min(0).max(1).default(0.5),
+  imputation: z.enum(imputationMethods).default("halfMin"),
+  knnNeighbors: z.coerce.number().int().min(1).max(50).default(5),
+  normalization: z.enum(normalizationMethods).default("pqn"),
+  logTransform: z.enum(["true", "false"]).default("true").transform(value => value === "true"),
+  scaling: z.enum(scalingMethods).default("auto"),
+});
+
 // Project collaborators junction table
+// Roles a collaborator can be given; the project owner is implicitly "Owner"
+export const collaboratorRoles = ["Editor", "Viewer"] as const;
+export const projectRoles = ["Owner", ...collaboratorRoles] as const;
+
 export const projectCollaborators = pgTable("project_collaborators", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").notNull(),
@@ -93,23 +1096,428 @@ export const projectCollaborators = pgTable("project_collaborators", {
 
 export const insertProjectCollaboratorSchema = createInsertSchema(projectCollaborators).omit({
   id: true,
+}).extend({
+  role: z.enum(collaboratorRoles).default("Viewer"),
+});
+
+// Audit log table (append-only: rows are only ever inserted)
+export const auditActions = ["create", "update", "delete"] as const;
+export const auditEntityTypes = ["project", "experiment", "note", "attachment", "signature", "sample", "feature_table", "compound", "feature_annotation", "statistical_analysis"] as const;
+
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // null for system actions
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  projectId: integer("project_id"),
+  before: json("before"),
+  after: json("after"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  action: z.enum(auditActions),
+  entityType: z.enum(auditEntityTypes),
+});
+
+export const auditLogFilterSchema = z.object({
+  projectId: z.coerce.number().int().optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().optional(),
+  actorId: z.coerce.number().int().optional(),
+  action: z.enum(auditActions).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
 });
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// User as exposed over the API, never carrying the password hash
+export type PublicUser = Omit<User, "password">;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
 
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type DepositionProtocol = typeof depositionProtocols[number];
+export type DepositionContact = z.infer<typeof depositionContactSchema>;
+export type DepositionPublication = z.infer<typeof depositionPublicationSchema>;
+export type DepositionMetadata = z.infer<typeof depositionMetadataSchema>;
+export type MwTabFormat = typeof mwTabFormats[number];
+// What importing an mwTab file creates, returned by a dry run
+export interface MwTabImportPreview {
+  projectName: string;
+  // Metabolomics Workbench accessions, when the file has them
+  studyId: string | null;
+  analysisId: string | null;
+  factorNames: string[];
+  samples: Pick<InsertSample, "sampleCode" | "sampleType" | "studyGroup">[];
+  units: string;
+  metaboliteCount: number;
+  // Metabolites without an m/z (in the METABOLITES block or their name) are
+  // left out of the feature table
+  skippedMetabolites: string[];
+}
+export interface MwTabImportResult {
+  project: Project;
+  experiment: Experiment;
+  featureTable: FeatureTable;
+}
 
 export type Experiment = typeof experiments.$inferSelect;
 export type InsertExperiment = z.infer<typeof insertExperimentSchema>;
 
 export type Note = typeof notes.$inferSelect;
 export type InsertNote = z.infer<typeof insertNoteSchema>;
+export type NoteStatus = typeof noteStatuses[number];
+export type NoteReviewFields = Pick<Note, "status" | "reviewerId" | "reviewComment">;
+export type SubmitNoteForReview = z.infer<typeof submitNoteForReviewSchema>;
+export type ReviewNote = z.infer<typeof reviewNoteSchema>;
+export type ReviewDecision = typeof reviewDecisions[number];
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+// Revision list entries leave out the content, which can be large
+export type NoteRevisionSummary = Omit<NoteRevision, "content">;
+export type NoteSignature = typeof noteSignatures.$inferSelect;
+export type InsertNoteSignature = z.infer<typeof insertNoteSignatureSchema>;
+export type SignNote = z.infer<typeof signNoteSchema>;
+export type SignatureMeaning = typeof signatureMeanings[number];
+// Signature as listed in the manifest, with the hash re-checked against the note
+export type NoteSignatureWithStatus = NoteSignature & { contentMatches: boolean };
+export interface NoteDiff {
+  from: number;
+  to: number;
+  html: string;
+  insertions: number;
+  deletions: number;
+}
 
-export type Attachment = typeof attachments.$inferSelect;
+// Attachment metadata; the contents are read from the blob store
+export type Attachment = Omit<typeof attachments.$inferSelect, "fileData">;
 export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+// Another attachment with the same contents, e.g. a raw file uploaded twice
+export type AttachmentDuplicate = Pick<Attachment, "id" | "fileName" | "noteId" | "createdAt">;
+export type AttachmentWithDuplicates = Attachment & { duplicates: AttachmentDuplicate[] };
+
+export const attachmentIntegrityIssues = ["mismatch", "missing_blob", "orphaned_row", "unhashed"] as const;
+export type AttachmentIntegrityIssue = typeof attachmentIntegrityIssues[number];
+export interface AttachmentIntegrityReport {
+  checkedAt: Date;
+  total: number;
+  verified: number;
+  issues: {
+    attachmentId: number;
+    noteId: number;
+    fileName: string;
+    issue: AttachmentIntegrityIssue;
+    expectedSha256: string | null;
+    actualSha256: string | null;
+  }[];
+  // Groups of attachments that share the same contents
+  duplicates: { sha256: string; attachmentIds: number[] }[];
+}
+export type AttachmentIntegrityCheck = typeof attachmentIntegrityChecks.$inferSelect;
+export type InsertAttachmentIntegrityCheck = z.infer<typeof insertAttachmentIntegrityCheckSchema>;
+export type IntegrityCheckStatus = typeof integrityCheckStatuses[number];
+
+export type CreateUpload = z.infer<typeof createUploadSchema>;
+
+export type MsRun = typeof msRuns.$inferSelect;
+export type InsertMsRun = z.infer<typeof insertMsRunSchema>;
+export type MsRunFormat = typeof msRunFormats[number];
+// As returned by the API: the TIC thinned out for plotting and without offsets
+export type MsRunSummary = Omit<MsRun, "scanOffsets">;
+export type SpectralLibrary = typeof spectralLibraries.$inferSelect;
+export type InsertSpectralLibrary = z.infer<typeof insertSpectralLibrarySchema>;
+export type SpectralLibraryFormat = typeof spectralLibraryFormats[number];
+export type LibrarySpectrum = typeof librarySpectra.$inferSelect;
+export type InsertLibrarySpectrum = z.infer<typeof insertLibrarySpectrumSchema>;
+// Library listings leave out the peaks
+export type LibrarySpectrumSummary = Omit<LibrarySpectrum, "mz" | "intensity"> & { peakCount: number };
+export type LibrarySpectraQuery = z.infer<typeof librarySpectraQuerySchema>;
+export interface LibrarySpectrumPage {
+  total: number;
+  spectra: LibrarySpectrumSummary[];
+}
+// Libraries offered for searching, with the attachment and project they came from
+export type SpectralLibraryWithSource = SpectralLibrary & { fileName: string; projectId: number; projectName: string };
+export type SpectralMatchScore = typeof spectralMatchScores[number];
+export type SpectralMatchQuery = z.infer<typeof spectralMatchQuerySchema>;
+export interface SpectralMatch {
+  spectrum: LibrarySpectrumSummary;
+  // Query precursor m/z minus the library spectrum's
+  precursorMzError: number | null;
+  cosine: number;
+  cosineMatchedPeaks: number;
+  modifiedCosine: number;
+  modifiedCosineMatchedPeaks: number;
+}
+export interface Spectrum {
+  index: number;
+  id: string;
+  msLevel: number | null;
+  rt: number | null;
+  polarity: "positive" | "negative" | null;
+  precursorMz: number | null;
+  mz: number[];
+  intensity: number[];
+}
+export interface UploadSession {
+  id: string;
+  userId: number;
+  noteId: number;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  // Bytes received so far; the next chunk must start here
+  offset: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type Sample = typeof samples.$inferSelect;
+export type SampleType = typeof sampleTypes[number];
+// Sample with the experiments it is linked to, as stored and returned by the API
+export type SampleWithExperiments = Sample & { experimentIds: number[] };
+export type ExperimentSample = typeof experimentSamples.$inferSelect;
+export type InsertSample = z.infer<typeof insertSampleSchema>;
+export type UpdateSample = z.infer<typeof updateSampleSchema>;
+export type BulkUpdateSamples = z.infer<typeof bulkUpdateSamplesSchema>;
+export type SampleChanges = BulkUpdateSamples["changes"];
+export type ImportSamplesQuery = z.infer<typeof importSamplesQuerySchema>;
+export interface SampleImportError {
+  row: number; // line number in the CSV file
+  message: string;
+}
+export interface SampleImportResult {
+  samples: InsertSample[];
+  errors: SampleImportError[];
+}
+export type WorklistFormat = typeof worklistFormats[number];
+export type GenerateWorklist = z.infer<typeof generateWorklistSchema>;
+export interface WorklistInjection {
+  injection: number;
+  batch: number;
+  sampleId: number;
+  sampleCode: string;
+  sampleType: SampleType;
+  // Autosampler position of the sample's vial in 96-well plates
+  plate: number;
+  well: string;
+  fileName: string;
+}
+export interface Worklist {
+  seed: number;
+  batchCount: number;
+  injections: WorklistInjection[];
+}
+export interface GeneratedWorklist extends Worklist {
+  note: Note;
+  attachment: Attachment;
+}
+
+export type FeatureTable = typeof featureTables.$inferSelect;
+export type InsertFeatureTable = z.infer<typeof insertFeatureTableSchema>;
+export type FeatureTableFormat = typeof featureTableFormats[number];
+export type FeatureTableColumn = typeof featureTableColumns.$inferSelect;
+export type InsertFeatureTableColumn = z.infer<typeof insertFeatureTableColumnSchema>;
+export type FeatureTableWithColumns = FeatureTable & { columns: FeatureTableColumn[] };
+export type Feature = typeof features.$inferSelect;
+export type InsertFeature = z.infer<typeof insertFeatureSchema>;
+export type FeatureSummary = Omit<Feature, "metadata" | "intensities">;
+// A feature as listed in the viewer, with its annotation state
+export type FeatureRow = FeatureSummary & {
+  // Names of the accepted compounds, joined with "; "
+  annotation: string | null;
+  candidateCount: number;
+};
+export type CreateFeatureTable = z.infer<typeof createFeatureTableSchema>;
+export type CorrectDrift = z.infer<typeof correctDriftSchema>;
+export type FeatureQuery = z.infer<typeof featureQuerySchema>;
+export interface FeaturePage {
+  total: number;
+  features: FeatureRow[];
+}
+// What was detected in a feature table CSV, with a suggested mapping of its
+// sample columns; columns that look like samples but matched nothing are
+// listed unselected
+export interface FeatureTableLayoutPreview {
+  format: FeatureTableFormat;
+  rtUnit: "min" | "s";
+  mzColumn: string;
+  rtColumn: string | null;
+  idColumn: string | null;
+  nameColumn: string | null;
+  adductColumn: string | null;
+  columns: {
+    columnName: string;
+    sampleId: number | null;
+    attachmentId: number | null;
+    selected: boolean;
+  }[];
+  // Attachments of the experiment that sample columns can be mapped to
+  attachments: Pick<Attachment, "id" | "fileName">[];
+}
+
+export type QcStatus = typeof qcStatuses[number];
+export type ComputeQc = z.infer<typeof computeQcSchema>;
+export interface QcHistogramBin {
+  bin: string;
+  count: number;
+}
+// One sample column of the table, in injection order
+export interface QcInjection {
+  injectionOrder: number;
+  columnName: string;
+  sampleType: SampleType | null;
+  // Sum of all feature intensities in the injection
+  totalIntensity: number;
+}
+export interface QcInternalStandard {
+  featureId: number;
+  featureKey: string;
+  name: string | null;
+  mz: number;
+  rt: number | null;
+  // RSD across all non-blank injections
+  rsd: number | null;
+  // Change over the run from a linear fit against injection order, as a
+  // percentage of the mean intensity
+  drift: number | null;
+  points: { injectionOrder: number; sampleType: SampleType | null; intensity: number }[];
+}
+export interface QcReport {
+  summary: QcSummary;
+  rsdHistogram: QcHistogramBin[];
+  blankRatioHistogram: QcHistogramBin[];
+  injections: QcInjection[];
+  internalStandards: QcInternalStandard[];
+}
+
+export interface AdductMass {
+  adduct: string;
+  charge: number;
+  // Hill formula of the ion
+  formula: string;
+  mz: number;
+}
+export interface ChemFormulaResult {
+  // Hill notation; labelled isotopes are written as "[13C]"
+  formula: string;
+  composition: Record<string, number>;
+  charge: number;
+  monoisotopicMass: number;
+  averageMass: number;
+  // m/z of a charged formula; null for neutral ones
+  mz: number | null;
+  adducts: AdductMass[];
+}
+export interface IsotopePeak {
+  // Mass for neutral formulas
+  mz: number;
+  // % of the most intense peak
+  abundance: number;
+}
+export interface IsotopePattern {
+  formula: string;
+  adduct: string | null;
+  charge: number;
+  peaks: IsotopePeak[];
+}
+
+export type Compound = typeof compounds.$inferSelect;
+export type InsertCompound = z.infer<typeof insertCompoundSchema>;
+export type UpdateCompound = z.infer<typeof updateCompoundSchema>;
+export type CompoundQuery = z.infer<typeof compoundQuerySchema>;
+export type CompoundImportFormat = typeof compoundImportFormats[number];
+export type NoteCompound = typeof noteCompounds.$inferSelect;
+// Compound with its distance from the searched mass in ppm (null for name searches)
+export type CompoundHit = Compound & { massError: number | null };
+export interface CompoundPage {
+  total: number;
+  // The neutral mass searched for, e.g. computed from an m/z and adduct
+  searchedMass: number | null;
+  compounds: CompoundHit[];
+}
+export interface CompoundImportError {
+  record: number; // line number in a CSV file, record number in an SDF file
+  message: string;
+}
+export interface CompoundImportResult {
+  compounds: InsertCompound[];
+  errors: CompoundImportError[];
+  // Records skipped because their InChIKey is already in the library or file
+  duplicates: number;
+}
+
+export type CompoundRetentionTime = typeof compoundRetentionTimes.$inferSelect;
+export type InsertRetentionTime = z.infer<typeof insertRetentionTimeSchema>;
+export type AnnotationStatus = typeof annotationStatuses[number];
+export type FeatureAnnotationStatus = typeof featureAnnotationStatuses[number];
+export type MsiLevel = typeof msiLevels[number];
+export type FeatureAnnotation = typeof featureAnnotations.$inferSelect;
+export type InsertFeatureAnnotation = z.infer<typeof insertFeatureAnnotationSchema>;
+export type AnnotateFeatureTable = z.infer<typeof annotateFeatureTableSchema>;
+export type FeatureAnnotationQuery = z.infer<typeof featureAnnotationQuerySchema>;
+export type FeatureAnnotationWithCompound = FeatureAnnotation & {
+  compound: Pick<Compound, "id" | "name" | "formula" | "monoisotopicMass">;
+  reviewerName: string | null;
+};
+export type AnalysisStatus = typeof analysisStatuses[number];
+export type ImputationMethod = typeof imputationMethods[number];
+export type NormalizationMethod = typeof normalizationMethods[number];
+export type ScalingMethod = typeof scalingMethods[number];
+export type StatisticalTest = typeof statisticalTests[number];
+export type RunAnalysis = z.infer<typeof runAnalysisSchema>;
+export type StatisticalAnalysis = typeof statisticalAnalyses.$inferSelect;
+export type InsertStatisticalAnalysis = z.infer<typeof insertStatisticalAnalysisSchema>;
+export type AnalysisResult = typeof analysisResults.$inferSelect;
+export type InsertAnalysisResult = z.infer<typeof insertAnalysisResultSchema>;
+export type AnalysisResultQuery = z.infer<typeof analysisResultQuerySchema>;
+// Results listings carry the feature's identity
+export type AnalysisResultRow = AnalysisResult & Pick<Feature, "featureKey" | "mz" | "rt" | "name">;
+export interface AnalysisResultPage {
+  total: number;
+  results: AnalysisResultRow[];
+}
+export type PcaQuery = z.infer<typeof pcaQuerySchema>;
+// One sample column of the table with its coordinates on each component
+export interface PcaScore {
+  position: number;
+  columnName: string;
+  sampleId: number;
+  sampleCode: string;
+  sampleType: SampleType;
+  studyGroup: string | null;
+  // Recorded injection order, or the column's position when the file did not
+  // record one
+  injectionOrder: number;
+  values: number[];
+}
+export interface PcaLoading extends Pick<Feature, "featureKey" | "mz" | "rt" | "name"> {
+  featureId: number;
+  values: number[];
+}
+export interface PcaResult {
+  // Share of the total variance explained by each component
+  explainedVariance: number[];
+  featureCount: number;
+  excludedFeatureCount: number;
+  scores: PcaScore[];
+  loadings: PcaLoading[];
+}
+export type VolcanoPoint = Pick<AnalysisResultRow, "featureId" | "featureKey" | "mz" | "rt" | "name" | "log2FoldChange" | "pValue" | "qValue">;
 
 export type ProjectCollaborator = typeof projectCollaborators.$inferSelect;
 export type InsertProjectCollaborator = z.infer<typeof insertProjectCollaboratorSchema>;
+export type ProjectRole = typeof projectRoles[number];
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+export type AuditAction = typeof auditActions[number];
+export type AuditEntityType = typeof auditEntityTypes[number];